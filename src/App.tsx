@@ -19,11 +19,14 @@ import { ManageDoctor } from "./pages/ManageDoctor";
 import { Appointments } from "./pages/Appointments";
 import AppointmentRequestsPage from "./pages/AppointmentRequests";
 import { Billing } from "./pages/Billing";
+import { MessageLog } from "./pages/MessageLog";
+import { LeaveCalendar } from "./pages/LeaveCalendar";
 import { Reports } from "./pages/Reports";
 import { Settings } from "./pages/Settings";
 import { History } from "./pages/History";
 import { VideoRoomPage } from "./pages/VideoRoomPage";
 import { Toaster } from "./components/ui/sonner";
+import { ClinicPermission } from "./constants";
 
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -59,23 +62,114 @@ function App() {
             }
           >
             <Route path="dashboard" element={<Dashboard />} />
-            <Route path="patients" element={<Patients />} />
-            <Route path="patients/new" element={<AddPatient />} />
-            <Route path="patients/:id/manage" element={<ManagePatient />} />
-            <Route path="doctors" element={<Doctors />} />
-            <Route path="doctors/new" element={<AddDoctor />} />
-            <Route path="doctors/:id/manage" element={<ManageDoctor />} />
+            <Route
+              path="patients"
+              element={
+                <ProtectedRoute permission={ClinicPermission.MANAGE_PATIENTS}>
+                  <Patients />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="patients/new"
+              element={
+                <ProtectedRoute permission={ClinicPermission.MANAGE_PATIENTS}>
+                  <AddPatient />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="patients/:id/manage"
+              element={
+                <ProtectedRoute permission={ClinicPermission.MANAGE_PATIENTS}>
+                  <ManagePatient />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="doctors"
+              element={
+                <ProtectedRoute permission={ClinicPermission.MANAGE_DOCTORS}>
+                  <Doctors />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="doctors/new"
+              element={
+                <ProtectedRoute permission={ClinicPermission.MANAGE_DOCTORS}>
+                  <AddDoctor />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="doctors/:id/manage"
+              element={
+                <ProtectedRoute permission={ClinicPermission.MANAGE_DOCTORS}>
+                  <ManageDoctor />
+                </ProtectedRoute>
+              }
+            />
             <Route
               path="doctors/:id/edit"
               element={<Navigate to="../manage" replace />}
             />
-            <Route path="appointments" element={<Appointments />} />
+            <Route
+              path="appointments"
+              element={
+                <ProtectedRoute
+                  permission={ClinicPermission.MANAGE_APPOINTMENTS}
+                >
+                  <Appointments />
+                </ProtectedRoute>
+              }
+            />
             <Route
               path="appointment-requests"
-              element={<AppointmentRequestsPage />}
+              element={
+                <ProtectedRoute
+                  permission={ClinicPermission.MANAGE_APPOINTMENTS}
+                >
+                  <AppointmentRequestsPage />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="leave"
+              element={
+                <ProtectedRoute
+                  permission={ClinicPermission.MANAGE_APPOINTMENTS}
+                >
+                  <LeaveCalendar />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="messages"
+              element={
+                <ProtectedRoute
+                  permission={ClinicPermission.MANAGE_APPOINTMENTS}
+                >
+                  <MessageLog />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="billing"
+              element={
+                <ProtectedRoute permission={ClinicPermission.ACCESS_BILLING}>
+                  <Billing />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="reports"
+              element={
+                <ProtectedRoute permission={ClinicPermission.VIEW_REPORTS}>
+                  <Reports />
+                </ProtectedRoute>
+              }
             />
-            <Route path="billing" element={<Billing />} />
-            <Route path="reports" element={<Reports />} />
             <Route path="history" element={<History />} />
             <Route path="settings" element={<Settings />} />
             <Route index element={<Navigate to="dashboard" replace />} />
@@ -1,21 +1,23 @@
 import React, { useEffect, useState } from "react";
 import { Link, useNavigate } from "react-router-dom";
 import { useAuth } from "../hooks/useAuth";
+import { useClinicAccess } from "../hooks/useClinicAccess";
 import { LogOut, User, Menu, X, ArrowRight } from "lucide-react";
 import { Button } from "./ui/Button";
 import { ClinicProfileService } from "../services";
 
 function HeaderHome() {
   const { user, signOut, loading } = useAuth();
+  const { clinicId } = useClinicAccess();
   const navigate = useNavigate();
   const [profile, setProfile] = useState<any>(null);
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
 
   // Fetch profile when user changes
   useEffect(() => {
-    if (user) {
+    if (user && clinicId) {
       const fetchProfile = async () => {
-        const response = await ClinicProfileService.getClinicProfile(user.id);
+        const response = await ClinicProfileService.getClinicProfile(clinicId);
         if (response.success) {
           setProfile(response.data);
         } else {
@@ -26,7 +28,7 @@ function HeaderHome() {
     } else {
       setProfile(null);
     }
-  }, [user]);
+  }, [user, clinicId]);
 
   const handleSignOut = async () => {
     await signOut();
@@ -17,21 +17,73 @@ import {
   ChevronRight,
   HomeIcon,
   ClipboardList,
+  MessageSquare,
+  CalendarOff,
 } from "lucide-react";
 import { useAuth } from "../hooks/useAuth";
+import { useClinicAccess } from "../hooks/useClinicAccess";
 import { NotificationCenter } from "./NotificationCenter";
 import { AppointmentRequestsBadge } from "./AppointmentRequestsBadge";
 import { ClinicProfileService } from "../services";
 import { supabase } from "../lib/supabase";
-
-const navigationItems = [
+import { ClinicPermission, STAFF_ROLE_LABELS } from "../constants";
+
+// Items without a permission are visible to every clinic login
+const navigationItems: {
+  to: string;
+  icon: typeof Home;
+  label: string;
+  permission?: ClinicPermission;
+}[] = [
   { to: "/admin/dashboard", icon: Home, label: "Dashboard" },
-  { to: "/admin/patients", icon: Users, label: "Patients" },
-  { to: "/admin/doctors", icon: UserCheck, label: "Doctors" },
-  { to: "/admin/appointments", icon: Calendar, label: "Appointments" },
-  { to: "/admin/appointment-requests", icon: ClipboardList, label: "Requests" },
-  { to: "/admin/billing", icon: Receipt, label: "Billing" },
-  { to: "/admin/reports", icon: BarChart3, label: "Reports" },
+  {
+    to: "/admin/patients",
+    icon: Users,
+    label: "Patients",
+    permission: ClinicPermission.MANAGE_PATIENTS,
+  },
+  {
+    to: "/admin/doctors",
+    icon: UserCheck,
+    label: "Doctors",
+    permission: ClinicPermission.MANAGE_DOCTORS,
+  },
+  {
+    to: "/admin/appointments",
+    icon: Calendar,
+    label: "Appointments",
+    permission: ClinicPermission.MANAGE_APPOINTMENTS,
+  },
+  {
+    to: "/admin/appointment-requests",
+    icon: ClipboardList,
+    label: "Requests",
+    permission: ClinicPermission.MANAGE_APPOINTMENTS,
+  },
+  {
+    to: "/admin/leave",
+    icon: CalendarOff,
+    label: "Leave & Holidays",
+    permission: ClinicPermission.MANAGE_APPOINTMENTS,
+  },
+  {
+    to: "/admin/messages",
+    icon: MessageSquare,
+    label: "Messages",
+    permission: ClinicPermission.MANAGE_APPOINTMENTS,
+  },
+  {
+    to: "/admin/billing",
+    icon: Receipt,
+    label: "Billing",
+    permission: ClinicPermission.ACCESS_BILLING,
+  },
+  {
+    to: "/admin/reports",
+    icon: BarChart3,
+    label: "Reports",
+    permission: ClinicPermission.VIEW_REPORTS,
+  },
   { to: "/admin/history", icon: History, label: "History" },
   { to: "/admin/settings", icon: Settings, label: "Settings" },
 ];
@@ -44,8 +96,13 @@ export function Layout() {
   const [clinicName, setClinicName] = useState<string | null>(null);
   const [clinicLogoUrl, setClinicLogoUrl] = useState<string | null>(null);
   const { signOut, user } = useAuth();
+  const { clinicId, role, hasPermission } = useClinicAccess();
   const navigate = useNavigate();
 
+  const visibleNavigationItems = navigationItems.filter(
+    (item) => !item.permission || hasPermission(item.permission)
+  );
+
   // ADDED: Fetch unread notification count
   useEffect(() => {
     if (!user) return;
@@ -96,11 +153,11 @@ export function Layout() {
 
   // Fetch clinic name and logo for display in sidebar header
   useEffect(() => {
-    if (!user) return;
+    if (!user || !clinicId) return;
 
     const fetchClinic = async () => {
       try {
-        const response = await ClinicProfileService.getClinicProfile(user.id);
+        const response = await ClinicProfileService.getClinicProfile(clinicId);
 
         if (!response.success) {
           console.warn(
@@ -178,7 +235,7 @@ export function Layout() {
           event: "UPDATE",
           schema: "public",
           table: "profiles",
-          filter: `id=eq.${user.id}`,
+          filter: `id=eq.${clinicId}`,
         },
         (payload) => {
           const newData = payload.new as {
@@ -203,7 +260,7 @@ export function Layout() {
       window.removeEventListener("profile-updated", handleProfileUpdate);
       profileSubscription.unsubscribe();
     };
-  }, [user]);
+  }, [user, clinicId]);
 
   // ADDED: Function to handle notification updates
   const handleNotificationUpdate = () => {
@@ -273,9 +330,16 @@ export function Layout() {
               )}
             </div>
             {!sidebarCollapsed && (
-              <h1 className="text-xl font-bold text-gray-800 truncate max-w-[160px]">
-                {clinicName ?? "ClinicAdmin"}
-              </h1>
+              <div className="min-w-0">
+                <h1 className="text-xl font-bold text-gray-800 truncate max-w-[160px]">
+                  {clinicName ?? "ClinicAdmin"}
+                </h1>
+                {role && (
+                  <p className="text-xs text-gray-500">
+                    {STAFF_ROLE_LABELS[role]}
+                  </p>
+                )}
+              </div>
             )}
           </div>
 
@@ -312,7 +376,7 @@ export function Layout() {
 
         <nav className="mt-6">
           <ul className="space-y-2">
-            {navigationItems.map((item) => (
+            {visibleNavigationItems.map((item) => (
               <li key={item.to}>
                 <NavLink
                   to={item.to}
@@ -381,10 +445,12 @@ export function Layout() {
 
             <div className="flex items-center space-x-4">
 
-              <AppointmentRequestsBadge
-                onBadgeClick={() => navigate("/admin/appointment-requests")}
-                className="mr-2"
-              />
+              {hasPermission(ClinicPermission.MANAGE_APPOINTMENTS) && (
+                <AppointmentRequestsBadge
+                  onBadgeClick={() => navigate("/admin/appointment-requests")}
+                  className="mr-2"
+                />
+              )}
               <button
                 onClick={() => setNotificationOpen(!notificationOpen)}
                 className="relative p-2 rounded-full hover:bg-gray-100 transition-colors duration-200"
@@ -1,16 +1,20 @@
 import React from 'react';
-import { Navigate, useLocation } from 'react-router-dom';
+import { Navigate } from 'react-router-dom';
+import { ShieldAlert } from 'lucide-react';
 import { useAuth } from '../hooks/useAuth';
+import { useClinicAccess } from '../hooks/useClinicAccess';
+import { ClinicPermission } from '../constants';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
+  permission?: ClinicPermission;
 }
 
-export function ProtectedRoute({ children }: ProtectedRouteProps) {
+export function ProtectedRoute({ children, permission }: ProtectedRouteProps) {
   const { user, loading } = useAuth();
-  const location = useLocation();
+  const { loading: accessLoading, hasPermission } = useClinicAccess();
 
-  if (loading) {
+  if (loading || (permission && accessLoading)) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gray-50">
         <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
@@ -22,5 +26,20 @@ export function ProtectedRoute({ children }: ProtectedRouteProps) {
     return <Navigate to="/auth" replace />;
   }
 
+  if (permission && !hasPermission(permission)) {
+    return (
+      <div className="p-6">
+        <div className="max-w-lg mx-auto mt-16 text-center bg-white border border-gray-200 rounded-lg p-8">
+          <ShieldAlert className="h-12 w-12 text-amber-500 mx-auto mb-4" />
+          <h2 className="text-xl font-semibold text-gray-900">Access restricted</h2>
+          <p className="text-gray-600 mt-2">
+            Your role does not have access to this page. Ask the clinic owner to
+            update your permissions.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
   return <>{children}</>;
-}
\ No newline at end of file
+}
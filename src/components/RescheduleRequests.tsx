@@ -17,6 +17,7 @@ import { Card, CardContent } from "./ui/Card";
 import { Modal } from "./ui/Modal";
 import { supabase } from "../lib/supabase";
 import { useAuth } from "../hooks/useAuth";
+import { useClinicAccess } from "../hooks/useClinicAccess";
 import { toast } from "sonner";
 import { format } from "date-fns";
 import { AppointmentService } from "../services/AppointmentService";
@@ -105,9 +106,10 @@ export function RescheduleRequests({
   const [matchingSlot, setMatchingSlot] = useState<AvailableSlot | null>(null);
   const [checkingSlot, setCheckingSlot] = useState(false);
   const { user } = useAuth();
+  const { clinicId } = useClinicAccess();
 
   const fetchRequests = useCallback(async () => {
-    if (!user?.id) return;
+    if (!clinicId) return;
 
     try {
       setLoading(true);
@@ -139,7 +141,7 @@ export function RescheduleRequests({
           )
         `
         )
-        .eq("clinic_id", user.id)
+        .eq("clinic_id", clinicId)
         .order("created_at", { ascending: false });
 
       if (error) throw error;
@@ -151,7 +153,7 @@ export function RescheduleRequests({
     } finally {
       setLoading(false);
     }
-  }, [user?.id]);
+  }, [clinicId]);
 
   useEffect(() => {
     fetchRequests();
@@ -293,7 +295,7 @@ export function RescheduleRequests({
       const { data: clinicProfile } = await (supabase as any)
         .from("clinic_profiles")
         .select("clinic_name, slug")
-        .eq("id", user?.id)
+        .eq("id", clinicId)
         .single();
 
       const clinicName = clinicProfile?.clinic_name || "Clinic";
@@ -365,6 +367,7 @@ export function RescheduleRequests({
 
             await WhatsAppService.sendVideoConsultationRescheduled({
               phone: patientPhone,
+              appointmentId: selectedRequest.appointment_id,
               patientName,
               doctorName,
               oldDate,
@@ -380,6 +383,7 @@ export function RescheduleRequests({
 
             await WhatsAppService.sendAppointmentRescheduled({
               phone: patientPhone,
+              appointmentId: selectedRequest.appointment_id,
               patientName,
               doctorName,
               oldDate,
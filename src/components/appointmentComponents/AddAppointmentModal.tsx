@@ -4,12 +4,14 @@ import { X, Calendar, Loader2, AlertCircle } from "lucide-react";
 import { Button } from "../ui/Button";
 import { supabase } from "../../lib/supabase";
 import { useAuth } from "../../hooks/useAuth";
+import { useClinicAccess } from "../../hooks/useClinicAccess";
 import { useFormValidation } from "../../hooks/useFormValidation";
 import {
   appointmentFormSchema,
   type AppointmentFormData,
 } from "../../validation/FormSchemas";
 import { AppointmentService } from "../../services/AppointmentService";
+import { SlotWaitlistService } from "../../services/SlotWaitlistService";
 import {
   getAppointmentIntervalMinutes,
 } from "../../lib/utils";
@@ -44,6 +46,7 @@ export function AddAppointmentModal({
   const [selectedDate, setSelectedDate] = useState<string>("");
   const [selectedSlot, setSelectedSlot] = useState<any>(null);
   const { user } = useAuth();
+  const { clinicId } = useClinicAccess();
 
   // Use our new validation system
   const { errors, validate, validateField, clearErrors } = useFormValidation(
@@ -51,12 +54,12 @@ export function AddAppointmentModal({
   );
 
   useEffect(() => {
-    if (!user || !isOpen) return;
+    if (!clinicId || !isOpen) return;
 
     const fetchData = async () => {
       setDataLoading(true);
       setError(null);
-      console.log("Fetching patients and doctors for user:", user.id);
+      console.log("Fetching patients and doctors for clinic:", clinicId);
 
       try {
         const [patientsResult, doctorsResult] = await Promise.all([
@@ -74,7 +77,7 @@ export function AddAppointmentModal({
               )
             `
             )
-            .eq("clinic_id", user.id)
+            .eq("clinic_id", clinicId)
             .order("patient_profile(full_name)"),
           supabase
             .from("clinic_doctors")
@@ -92,7 +95,7 @@ export function AddAppointmentModal({
               )
             `
             )
-            .eq("clinic_id", user.id)
+            .eq("clinic_id", clinicId)
             .eq("is_active", true)
             .order("doctor_profile(full_name)"),
         ]);
@@ -121,7 +124,7 @@ export function AddAppointmentModal({
     };
 
     fetchData();
-  }, [user, isOpen]);
+  }, [clinicId, isOpen]);
 
   // Queue recalculation is now handled automatically by PGMQ
 
@@ -358,6 +361,36 @@ export function AddAppointmentModal({
     validateField("doctor_slot_id", slot.id);
   };
 
+  // Full slot: put the patient on its waitlist instead of booking
+  const handleJoinWaitlist = async (slot: any) => {
+    if (!formData.clinic_patient_id) {
+      toast.error("Select a patient before joining the waitlist");
+      return;
+    }
+
+    const patient = patients.find((p) => p.id === formData.clinic_patient_id);
+    if (
+      !window.confirm(
+        `This slot is full. Add ${patient?.patient_profile?.full_name || "the patient"} to its waitlist? They will get a WhatsApp message if a seat opens up.`
+      )
+    ) {
+      return;
+    }
+
+    const result = await SlotWaitlistService.joinWaitlist({
+      doctor_slot_id: slot.id,
+      clinic_patient_id: formData.clinic_patient_id,
+      appointment_type: formData.appointment_type,
+      notes: formData.notes,
+    });
+
+    if (result.success) {
+      toast.success("Patient added to the waitlist");
+    } else {
+      toast.error(result.error?.message || "Failed to join the waitlist");
+    }
+  };
+
   // Handle date selection for slot filtering
   const handleDateSelect = (date: string) => {
     setSelectedDate(date);
@@ -512,6 +545,7 @@ export function AddAppointmentModal({
                   date={selectedDate}
                   onSlotSelect={handleSlotSelect}
                   selectedSlot={selectedSlot?.id}
+                  onJoinWaitlist={handleJoinWaitlist}
                 />
                 {errors.doctor_slot_id && (
                   <p className="mt-1 text-sm text-red-600">
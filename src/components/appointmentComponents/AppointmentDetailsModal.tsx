@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
 import { Modal } from "../ui/Modal";
 import { Card } from "../ui/Card";
 import { Button } from "../ui/Button";
@@ -17,11 +18,19 @@ import {
   Image,
 } from "lucide-react";
 import { AppointmentWithRelations } from "../../types/database";
-import { AppointmentStatus } from "../../constants";
+import {
+  AppointmentStatus,
+  APPOINTMENT_STATUS_TRANSITIONS,
+} from "../../constants";
 import { format } from "date-fns";
 import { supabase } from "../../lib/supabase";
 import { toast } from "sonner";
 import { AutoBillingService } from "../../services/AutoBillingService";
+import { BillingService } from "../../services/BillingService";
+import {
+  AppointmentService,
+  type AppointmentStatusHistory,
+} from "../../services/AppointmentService";
 
 // Narrow patch type for updates to satisfy Supabase TS (fallback to any fields we added)
 type AppointmentUpdatePatch = Partial<
@@ -32,6 +41,7 @@ type AppointmentUpdatePatch = Partial<
     | "checked_in_at"
     | "actual_start_time"
     | "actual_end_time"
+    | "status_reason"
     | "duration_minutes"
     | "updated_at"
   >
@@ -47,29 +57,6 @@ interface AppointmentDetailsModalProps {
   ) => void; // callback to refresh local state if desired
 }
 
-// Allowed transitions map (basic real-world guardrails)
-const allowedTransitions: Record<AppointmentStatus, AppointmentStatus[]> = {
-  [AppointmentStatus.SCHEDULED]: [
-    AppointmentStatus.CHECKED_IN,
-    AppointmentStatus.IN_PROGRESS,
-    AppointmentStatus.CANCELLED,
-    AppointmentStatus.NO_SHOW,
-  ],
-  [AppointmentStatus.CHECKED_IN]: [
-    AppointmentStatus.IN_PROGRESS,
-    AppointmentStatus.CANCELLED,
-    AppointmentStatus.NO_SHOW,
-  ],
-  [AppointmentStatus.IN_PROGRESS]: [
-    AppointmentStatus.COMPLETED,
-    AppointmentStatus.CANCELLED,
-  ], // Allow cancelling in-progress if needed
-  [AppointmentStatus.COMPLETED]: [], // Completed appointments are final
-  [AppointmentStatus.CANCELLED]: [AppointmentStatus.SCHEDULED], // Allow reactivating cancelled appointments
-  [AppointmentStatus.NO_SHOW]: [AppointmentStatus.SCHEDULED], // Allow reactivating no-show appointments
-  [AppointmentStatus.RESCHEDULED]: [AppointmentStatus.SCHEDULED], // Allow reactivating rescheduled appointments
-};
-
 // Helper function to check if appointment can be rescheduled
 const canRescheduleAppointment = (
   appointment: AppointmentWithRelations
@@ -98,6 +85,7 @@ export const AppointmentDetailsModal: React.FC<
   const [billingAmount, setBillingAmount] = useState("");
   const [billingNotes, setBillingNotes] = useState("");
   const [appointmentBills, setAppointmentBills] = useState<any[]>([]);
+  const [statusHistory, setStatusHistory] = useState<AppointmentStatusHistory[]>([]);
 
   // Fetch bills for this appointment
   useEffect(() => {
@@ -138,6 +126,19 @@ export const AppointmentDetailsModal: React.FC<
     fetchAppointmentBills();
   }, [appointment?.id]);
 
+  // Status changes, refetched whenever the status moves
+  useEffect(() => {
+    if (!appointment?.id) return;
+
+    AppointmentService.getStatusHistory(appointment.id).then((response) => {
+      if (response.success) {
+        setStatusHistory(response.data || []);
+      } else {
+        console.error("Error fetching status history:", response.error);
+      }
+    });
+  }, [appointment?.id, appointment?.status]);
+
   if (!appointment) return null;
 
   // Get appointment status
@@ -146,11 +147,11 @@ export const AppointmentDetailsModal: React.FC<
   // Guard against invalid status values
   if (
     !normalizedStatus ||
-    !allowedTransitions[normalizedStatus as AppointmentStatus]
+    !APPOINTMENT_STATUS_TRANSITIONS[normalizedStatus as AppointmentStatus]
   ) {
     console.warn("Invalid appointment status:", appointment.status);
     console.warn("Normalized status:", normalizedStatus);
-    console.warn("Available statuses:", Object.keys(allowedTransitions));
+    console.warn("Available statuses:", Object.keys(APPOINTMENT_STATUS_TRANSITIONS));
     console.warn("Full appointment object:", appointment);
     return (
       <Modal
@@ -165,7 +166,7 @@ export const AppointmentDetailsModal: React.FC<
             and try again.
           </p>
           <p className="text-sm text-gray-600 mt-2">
-            Expected one of: {Object.keys(allowedTransitions).join(", ")}
+            Expected one of: {Object.keys(APPOINTMENT_STATUS_TRANSITIONS).join(", ")}
           </p>
         </div>
       </Modal>
@@ -218,6 +219,9 @@ export const AppointmentDetailsModal: React.FC<
       if (cleanExtra.duration_minutes !== undefined) {
         updateData.duration_minutes = cleanExtra.duration_minutes;
       }
+      if (cleanExtra.status_reason) {
+        updateData.status_reason = cleanExtra.status_reason;
+      }
       if (
         cleanExtra.diagnosis &&
         typeof cleanExtra.diagnosis === "string" &&
@@ -273,6 +277,19 @@ export const AppointmentDetailsModal: React.FC<
         }
       }
 
+      // A paid appointment that is cancelled gets a suggested credit note
+      if (nextStatus === AppointmentStatus.CANCELLED) {
+        const { data: suggestions } = await BillingService.getSuggestedCreditNotes({
+          appointmentId: appointment.id,
+        });
+        if (suggestions?.length) {
+          const amount = suggestions.reduce((sum, note) => sum + Number(note.amount), 0);
+          toast.info(
+            `This appointment was paid for. A credit note of ₹${amount} is suggested under Billing.`
+          );
+        }
+      }
+
       // Trigger queue recalculation for status changes that affect queue order
       if (
         nextStatus === AppointmentStatus.COMPLETED ||
@@ -297,20 +314,24 @@ export const AppointmentDetailsModal: React.FC<
 
   const handleAction = (target: AppointmentStatus) => {
     if (
-      !allowedTransitions[currentStatus as AppointmentStatus]?.includes(target)
+      !APPOINTMENT_STATUS_TRANSITIONS[currentStatus as AppointmentStatus]?.includes(target)
     )
       return;
+    // Check-in, start and end timestamps are set by the database
     const extra: AppointmentUpdatePatch = {};
     switch (target) {
-      case AppointmentStatus.CHECKED_IN:
-        extra.patient_checked_in = true;
-        extra.checked_in_at = new Date().toISOString();
-        break;
-      case AppointmentStatus.IN_PROGRESS:
-        extra.actual_start_time = new Date().toISOString();
+      case AppointmentStatus.CANCELLED:
+      case AppointmentStatus.NO_SHOW: {
+        const reason = window.prompt(
+          target === AppointmentStatus.CANCELLED
+            ? "Reason for cancelling (optional)"
+            : "Reason for marking as no-show (optional)"
+        );
+        if (reason === null) return;
+        extra.status_reason = reason.trim();
         break;
+      }
       case AppointmentStatus.COMPLETED:
-        extra.actual_end_time = new Date().toISOString();
         // Update duration_minutes with actual consultation time if we have start time
         if (appointment.actual_start_time) {
           const actualDuration = Math.round(
@@ -326,7 +347,7 @@ export const AppointmentDetailsModal: React.FC<
   };
 
   const can = (target: AppointmentStatus) =>
-    allowedTransitions[currentStatus as AppointmentStatus]?.includes(target) ??
+    APPOINTMENT_STATUS_TRANSITIONS[currentStatus as AppointmentStatus]?.includes(target) ??
     false;
 
   const actionButtons: {
@@ -679,6 +700,14 @@ export const AppointmentDetailsModal: React.FC<
                   </span>
                 </div>
               )}
+              {appointment.status_reason && (
+                <div className="flex items-center space-x-2">
+                  <span className="text-sm text-gray-600">Reason:</span>
+                  <span className="text-sm text-gray-800">
+                    {appointment.status_reason}
+                  </span>
+                </div>
+              )}
               {appointment.checked_in_at && (
                 <div className="flex items-center space-x-2">
                   <span className="text-sm text-gray-600">Checked In:</span>
@@ -705,6 +734,38 @@ export const AppointmentDetailsModal: React.FC<
               )}
             </div>
 
+            {/* Status History */}
+            {statusHistory.length > 0 && (
+              <div className="mb-6">
+                <h5 className="text-sm font-medium text-gray-700 mb-3">
+                  Status History
+                </h5>
+                <ul className="space-y-2 text-sm">
+                  {statusHistory.map((change) => (
+                    <li
+                      key={change.id}
+                      className="flex flex-wrap items-baseline justify-between gap-2 border-l-2 border-gray-200 pl-3"
+                    >
+                      <div>
+                        <span className="text-gray-800">
+                          {change.from_status} → {change.to_status}
+                        </span>
+                        {change.reason && (
+                          <span className="text-gray-600"> - {change.reason}</span>
+                        )}
+                      </div>
+                      <span className="text-xs text-gray-500">
+                        {change.changed_by
+                          ? change.changed_by_name || "Staff member"
+                          : "System"}{" "}
+                        • {format(new Date(change.changed_at), "MMM dd, yyyy hh:mm a")}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             {/* Timing Analysis (if applicable) */}
             {(appointment.checked_in_at ||
               appointment.actual_start_time ||
@@ -829,6 +890,41 @@ export const AppointmentDetailsModal: React.FC<
                 </div>
               )}
 
+              {/* WhatsApp delivery status of the latest message */}
+              {appointment.whatsapp_status && (
+                <div>
+                  <div className="flex items-center justify-between mb-2">
+                    <h5 className="text-sm font-medium text-gray-700">
+                      WhatsApp
+                    </h5>
+                    <Link
+                      to={`/admin/messages?appointmentId=${appointment.id}`}
+                      className="text-xs text-blue-600 hover:underline"
+                    >
+                      View messages
+                    </Link>
+                  </div>
+                  <div
+                    className={`p-3 rounded-lg border text-sm ${
+                      appointment.whatsapp_status === "sent"
+                        ? "bg-green-50 border-green-200 text-green-800"
+                        : appointment.whatsapp_status === "failed"
+                        ? "bg-red-50 border-red-200 text-red-800"
+                        : "bg-amber-50 border-amber-200 text-amber-800"
+                    }`}
+                  >
+                    <span className="font-medium capitalize">
+                      {appointment.whatsapp_status}
+                    </span>
+                    {appointment.whatsapp_last_error && (
+                      <div className="mt-1 text-xs">
+                        {appointment.whatsapp_last_error}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              )}
+
               {/* Billing Information */}
               {/* Bills Section */}
               {appointmentBills.length > 0 && (
@@ -1236,34 +1332,15 @@ export const AppointmentDetailsModal: React.FC<
                   onClick={async () => {
                     if (billingAmount) {
                       try {
-                        // Generate bill number
-                        const now = new Date();
-                        const year = now.getFullYear();
-                        const month = String(now.getMonth() + 1).padStart(
-                          2,
-                          "0"
-                        );
-                        const day = String(now.getDate()).padStart(2, "0");
-                        const random = Math.floor(Math.random() * 1000)
-                          .toString()
-                          .padStart(3, "0");
-                        const billNumber = `INV-${year}${month}${day}-${random}`;
-
-                        // Get current user (clinic admin)
-                        const {
-                          data: { user },
-                        } = await supabase.auth.getUser();
-                        if (!user) throw new Error("User not authenticated");
-
-                        // Create the bill record
+                        if (!appointment.clinic_patient?.id) {
+                          throw new Error("Appointment has no patient");
+                        }
+
+                        // Create the bill with a consultation line (bill_number
+                        // and totals are assigned by the database)
                         const billData = {
-                          user_id: user.id, // Clinic admin who creates the bill
                           appointment_id: appointment.id,
-                          clinic_patient_id: appointment.clinic_patient?.id,
-                          bill_number: billNumber,
-                          amount: parseFloat(billingAmount),
-                          tax_amount: 0,
-                          total_amount: parseFloat(billingAmount),
+                          clinic_patient_id: appointment.clinic_patient.id,
                           status: "pending",
                           notes: billingNotes || "",
                           due_date: new Date(
@@ -1275,15 +1352,21 @@ export const AppointmentDetailsModal: React.FC<
 
                         console.log("Creating bill with data:", billData);
 
-                        const { data: billResult, error: billError } = await (
-                          supabase as any
-                        )
-                          .from("bills")
-                          .insert(billData)
-                          .select()
-                          .single();
-
-                        if (billError) {
+                        const { data: billResult, error: billError } =
+                          await BillingService.createBill(billData, [
+                            {
+                              item_type: "consultation",
+                              name: `Consultation - Dr. ${
+                                appointment.clinic_doctor?.doctor_profile?.full_name || "Doctor"
+                              }`,
+                              quantity: 1,
+                              unit_price: parseFloat(billingAmount),
+                              discount_amount: 0,
+                              tax_rate: 0,
+                            },
+                          ]);
+
+                        if (billError || !billResult) {
                           console.error("Bill creation error:", billError);
                           throw billError;
                         }
@@ -1299,7 +1382,7 @@ export const AppointmentDetailsModal: React.FC<
                         setBillingNotes("");
                         setShowBillingForm(false);
                         toast.success(
-                          `Bill ${billNumber} generated for ₹${billingAmount}`
+                          `Bill ${billResult.bill_number} generated for ₹${billingAmount}`
                         );
 
                         // Refresh bills list
@@ -157,7 +157,6 @@ export function PrescriptionUploadModal({
         appointment.id,
         {
           status: AppointmentStatus.COMPLETED,
-          actual_end_time: new Date().toISOString(),
           prescription: prescriptionDataJson,
           diagnosis: prescriptionData.diagnosis || undefined,
           notes: prescriptionData.notes || undefined,
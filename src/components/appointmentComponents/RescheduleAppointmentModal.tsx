@@ -3,6 +3,7 @@ import { Modal } from "../ui/Modal";
 import { Button } from "../ui/Button";
 import { supabase } from "../../lib/supabase";
 import { useAuth } from "../../hooks/useAuth";
+import { useClinicAccess } from "../../hooks/useClinicAccess";
 import { useFormValidation } from "../../hooks/useFormValidation";
 import {
   rescheduleAppointmentSchema,
@@ -49,6 +50,7 @@ export function RescheduleAppointmentModal({
   const [availableSlots, setAvailableSlots] = useState<AvailableSlot[]>([]);
   const [loadingSlots, setLoadingSlots] = useState(false);
   const { user } = useAuth();
+  const { clinicId } = useClinicAccess();
 
   // Use our new validation system
   const { errors, validate, validateField, clearErrors } = useFormValidation(
@@ -267,7 +269,7 @@ export function RescheduleAppointmentModal({
       const { data: clinicProfile } = await (supabase as any)
         .from("clinic_profiles")
         .select("clinic_name, slug")
-        .eq("id", user.id)
+        .eq("id", clinicId)
         .single();
 
       const clinicName = clinicProfile?.clinic_name || "Clinic";
@@ -297,6 +299,7 @@ export function RescheduleAppointmentModal({
             console.log("📹 [CLINIC-ADMIN] Sending video reschedule notification");
             await WhatsAppService.sendVideoConsultationRescheduled({
               phone: patientPhone,
+              appointmentId: appointment.id,
               patientName,
               doctorName,
               oldDate,
@@ -310,6 +313,7 @@ export function RescheduleAppointmentModal({
             console.log("🏥 [CLINIC-ADMIN] Sending in-clinic reschedule notification");
             await WhatsAppService.sendAppointmentRescheduled({
               phone: patientPhone,
+              appointmentId: appointment.id,
               patientName,
               doctorName,
               oldDate,
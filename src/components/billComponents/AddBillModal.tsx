@@ -2,8 +2,14 @@
 import React, { useState, useEffect } from "react";
 import { X, Receipt } from "lucide-react";
 import { Button } from "../ui/Button";
+import { BillItemsEditor } from "./BillItemsEditor";
 import { supabase } from "../../lib/supabase";
 import { useAuth } from "../../hooks/useAuth";
+import { useClinicAccess } from "../../hooks/useClinicAccess";
+import { BillingService, ServiceCatalogueService } from "../../services";
+import type { ServiceCatalogueItem } from "../../types/database";
+import type { BillItemInput } from "../../utils/billItems";
+import { gstStateCode, isInterStateSupply, placeOfSupplyLabel } from "../../utils/gst";
 
 interface AddBillModalProps {
   isOpen: boolean;
@@ -18,42 +24,52 @@ export function AddBillModal({
 }: AddBillModalProps) {
   const [formData, setFormData] = useState({
     clinic_patient_id: "",
-    amount: "",
-    tax_amount: "",
     due_date: "",
     notes: "", // REMOVED service_description, only use notes
   });
+  const [items, setItems] = useState<BillItemInput[]>([]);
+  const [services, setServices] = useState<ServiceCatalogueItem[]>([]);
   const [clinicPatients, setClinicPatients] = useState<
     Array<{ id: string; patient_profile?: any }>
   >([]);
+  const [clinicGst, setClinicGst] = useState<{ gstin: string | null; state: string | null }>({
+    gstin: null,
+    state: null,
+  });
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
   const { user } = useAuth();
+  const { clinicId } = useClinicAccess();
 
   useEffect(() => {
-    if (!user || !isOpen) return;
+    if (!clinicId || !isOpen) return;
 
     const fetchPatients = async () => {
-      console.log("Fetching clinic_patients for user:", user.id);
+      console.log("Fetching clinic_patients for clinic:", clinicId);
 
-      // Get clinic profile for the current user (clinic owner)
+      // Get clinic profile for the signed-in login's clinic
       const { data: clinicProfile } = await supabase
         .from("clinic_profiles")
-        .select("id")
-        .eq("id", user.id)
-        .single() as { data: { id: string } | null, error: any };
+        .select("id, gstin, primary_address")
+        .eq("id", clinicId)
+        .single() as { data: { id: string; gstin: string | null; primary_address: any } | null, error: any };
 
       if (!clinicProfile) {
-        console.error("No clinic profile found for user:", user.id);
+        console.error("No clinic profile found for clinic:", clinicId);
         return;
       }
 
+      setClinicGst({
+        gstin: clinicProfile.gstin,
+        state: clinicProfile.primary_address?.state || null,
+      });
+
       console.log("Found clinic profile:", clinicProfile.id);
 
       const res = await (supabase as unknown as any)
         .from("clinic_patients")
         .select(
-          `id, patient_profile:patient_profiles(id, full_name, phone, email)`
+          `id, patient_profile:patient_profiles(id, full_name, phone, email, primary_address)`
         )
         .eq("clinic_id", clinicProfile.id)
         .order("created_at", { ascending: false });
@@ -69,61 +85,42 @@ export function AddBillModal({
       }
     };
 
-    fetchPatients();
-  }, [user, isOpen]);
+    const fetchServices = async () => {
+      const response = await ServiceCatalogueService.getServices({ activeOnly: true });
+      if (response.success) {
+        setServices(response.data || []);
+      }
+    };
 
-  const generateBillNumber = () => {
-    const now = new Date();
-    const year = now.getFullYear();
-    const month = String(now.getMonth() + 1).padStart(2, "0");
-    const day = String(now.getDate()).padStart(2, "0");
-    const random = Math.floor(Math.random() * 1000)
-      .toString()
-      .padStart(3, "0");
-    return `INV-${year}${month}${day}-${random}`;
-  };
+    fetchPatients();
+    fetchServices();
+  }, [clinicId, isOpen]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!user) return;
+    if (!user || !clinicId) return;
 
     setLoading(true);
     setError("");
 
     try {
-      const amount = parseFloat(formData.amount);
-      const taxAmount = parseFloat(formData.tax_amount) || 0;
-      const totalAmount = amount + taxAmount;
-
-      // FIXED: Only use columns that actually exist in the database
-      const billData = {
-        user_id: user.id,
-        clinic_patient_id: formData.clinic_patient_id || null,
-        bill_number: generateBillNumber(),
-        amount,
-        tax_amount: taxAmount,
-        total_amount: totalAmount,
-        due_date: formData.due_date || null,
-        notes: formData.notes || null, // Only use notes field
-        status: "pending",
-      };
-
-      console.log("Creating bill with data:", billData);
-
-      const res = await (supabase as unknown as any)
-        .from("bills")
-        .insert(billData)
-        .select()
-        .single();
-
-      const billResult = res.data;
-      const error = res.error;
+      // The bill number and totals are filled in by the database
+      const response = await BillingService.createBill(
+        {
+          clinic_patient_id: formData.clinic_patient_id,
+          due_date: formData.due_date || null,
+          notes: formData.notes || null,
+          status: "pending",
+        },
+        items
+      );
 
-      if (error) {
-        console.error("Bill creation error:", error);
-        throw error;
+      if (!response.success || !response.data) {
+        console.error("Bill creation error:", response.error);
+        throw response.error || new Error("Failed to create bill");
       }
 
+      const billResult = response.data;
       console.log("Bill created successfully:", billResult);
 
       // Create notification
@@ -136,7 +133,7 @@ export function AddBillModal({
         title: "Bill Generated",
         message: `Bill generated for ${
           patient?.patient_profile?.full_name
-        } - ₹${totalAmount.toFixed(2)}`,
+        } - ₹${Number(billResult.total_amount).toFixed(2)}`,
         priority: "normal",
       });
 
@@ -144,11 +141,10 @@ export function AddBillModal({
       onClose();
       setFormData({
         clinic_patient_id: "",
-        amount: "",
-        tax_amount: "",
         due_date: "",
         notes: "",
       });
+      setItems([]);
     } catch (err: unknown) {
       console.error("Error in handleSubmit:", err);
       setError((err as any)?.message || String(err));
@@ -168,14 +164,18 @@ export function AddBillModal({
     });
   };
 
-  const totalAmount =
-    (parseFloat(formData.amount) || 0) + (parseFloat(formData.tax_amount) || 0);
-
   if (!isOpen) return null;
 
+  // Same place of supply rule as create_itemised_bill
+  const selectedPatient = clinicPatients.find((p) => p.id === formData.clinic_patient_id);
+  const patientState = selectedPatient?.patient_profile?.primary_address?.state || null;
+  const interState = isInterStateSupply(clinicGst, patientState);
+  const placeOfSupply = gstStateCode(patientState) ? patientState : clinicGst.state;
+  const chargesGst = items.some((item) => !item.is_tax_exempt && item.tax_rate > 0);
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-      <div className="bg-white rounded-lg p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+      <div className="bg-white rounded-lg p-6 w-full max-w-4xl max-h-[90vh] overflow-y-auto">
         <div className="flex items-center justify-between mb-6">
           <h2 className="text-2xl font-semibold flex items-center">
             <Receipt className="h-6 w-6 mr-2 text-blue-600" />
@@ -214,39 +214,6 @@ export function AddBillModal({
               )}
             </div>
 
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Amount *
-              </label>
-              <input
-                type="number"
-                name="amount"
-                step="0.01"
-                min="0"
-                value={formData.amount}
-                onChange={handleInputChange}
-                className="w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
-                placeholder="Enter bill amount"
-                required
-              />
-            </div>
-
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Tax Amount
-              </label>
-              <input
-                type="number"
-                name="tax_amount"
-                step="0.01"
-                min="0"
-                value={formData.tax_amount}
-                onChange={handleInputChange}
-                className="w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
-                placeholder="Enter tax amount (optional)"
-              />
-            </div>
-
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
                 Due Date
@@ -262,29 +229,33 @@ export function AddBillModal({
             </div>
           </div>
 
-          {totalAmount > 0 && (
-            <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
-              <div className="flex justify-between items-center">
-                <div>
-                  <p className="text-sm text-blue-700">
-                    Amount: ₹{parseFloat(formData.amount || "0").toFixed(2)}
-                  </p>
-                  {parseFloat(formData.tax_amount || "0") > 0 && (
-                    <p className="text-sm text-blue-700">
-                      Tax: ₹{parseFloat(formData.tax_amount || "0").toFixed(2)}
-                    </p>
-                  )}
-                </div>
-                <p className="text-lg font-semibold text-blue-900">
-                  Total: ₹{totalAmount.toFixed(2)}
-                </p>
-              </div>
-            </div>
-          )}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Items *
+            </label>
+            <BillItemsEditor
+              items={items}
+              onChange={setItems}
+              services={services}
+              interState={interState}
+              disabled={loading}
+            />
+            {selectedPatient && (
+              <p className="text-xs text-gray-500 mt-2">
+                Place of supply: {placeOfSupplyLabel(placeOfSupply)} ·{" "}
+                {interState ? "IGST" : "CGST + SGST"}
+              </p>
+            )}
+            {chargesGst && !clinicGst.gstin && (
+              <p className="text-sm text-amber-600 mt-2">
+                Add the clinic GSTIN under Settings → Billing before charging GST.
+              </p>
+            )}
+          </div>
 
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
-              Notes / Service Description
+              Notes
             </label>
             <textarea
               name="notes"
@@ -292,7 +263,7 @@ export function AddBillModal({
               onChange={handleInputChange}
               rows={3}
               className="w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
-              placeholder="Add notes or service description (e.g., Consultation, X-Ray, Blood Test)"
+              placeholder="Add notes for this bill (optional)"
             />
           </div>
 
@@ -309,7 +280,10 @@ export function AddBillModal({
             <Button
               type="submit"
               disabled={
-                loading || !formData.clinic_patient_id || !formData.amount
+                loading ||
+                !formData.clinic_patient_id ||
+                items.length === 0 ||
+                (chargesGst && !clinicGst.gstin)
               }
             >
               {loading ? "Generating..." : "Generate Bill"}
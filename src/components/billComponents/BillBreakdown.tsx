@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { ChevronDown, ChevronUp, Receipt, Stethoscope, Pill, TestTube, Plus } from 'lucide-react';
 import { Button } from '../ui/Button';
+import type { BillItem } from '../../types/database';
 
 interface BillLineItem {
   id?: string;
@@ -19,7 +20,7 @@ interface BillBreakdownProps {
     tax_amount?: number;
     discount_amount?: number;
     total_amount: number;
-    line_items?: BillLineItem[];
+    bill_items?: BillItem[];
   };
   editable?: boolean;
   onAddItem?: (item: Omit<BillLineItem, 'id'>) => void;
@@ -75,7 +76,19 @@ export const BillBreakdown: React.FC<BillBreakdownProps> = ({
     total_price: 0,
   });
 
-  const lineItems = bill.line_items || [
+  const lineItems: BillLineItem[] = bill.bill_items?.length
+    ? [...bill.bill_items]
+        .sort((a, b) => a.sort_order - b.sort_order)
+        .map((item) => ({
+          id: item.id,
+          item_type: item.item_type,
+          item_name: item.name,
+          item_description: item.description || undefined,
+          quantity: Number(item.quantity),
+          unit_price: Number(item.unit_price),
+          total_price: Number(item.line_total),
+        }))
+    : [
     // Fallback: create line items from bill totals
     {
       id: 'default-consultation',
@@ -107,7 +120,8 @@ export const BillBreakdown: React.FC<BillBreakdownProps> = ({
     }
   };
 
-  const subtotal = lineItems.reduce((sum, item) => sum + item.total_price, 0);
+  // Line totals include their tax and discount; the summary starts from the gross
+  const subtotal = bill.amount;
   const tax = bill.tax_amount || 0;
   const discount = bill.discount_amount || 0;
   const total = bill.total_amount;
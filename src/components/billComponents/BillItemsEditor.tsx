@@ -0,0 +1,305 @@
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "../ui/Button";
+import type { ServiceCatalogueItem } from "../../types/database";
+import { GST_RATES, splitGst } from "../../utils/gst";
+import {
+  BILL_ITEM_TYPES,
+  calculateBillItem,
+  summarizeBillItems,
+  type BillItemInput,
+} from "../../utils/billItems";
+
+interface BillItemsEditorProps {
+  items: BillItemInput[];
+  onChange: (items: BillItemInput[]) => void;
+  services: ServiceCatalogueItem[];
+  // Place of supply is outside the clinic's state: IGST instead of CGST + SGST
+  interState?: boolean;
+  disabled?: boolean;
+}
+
+const EMPTY_ITEM: BillItemInput = {
+  service_id: null,
+  item_type: "other",
+  name: "",
+  hsn_sac_code: "",
+  quantity: 1,
+  unit_price: 0,
+  discount_amount: 0,
+  tax_rate: 0,
+  is_tax_exempt: false,
+};
+
+const EXEMPT = "exempt";
+
+const taxOptionValue = (item: BillItemInput) =>
+  item.is_tax_exempt ? EXEMPT : String(item.tax_rate);
+
+const inputClass =
+  "w-full border border-gray-300 rounded-md px-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+/**
+ * Line items of a bill, picked from the clinic's price list or entered by
+ * hand, with quantity, discount and GST per line
+ */
+export function BillItemsEditor({
+  items,
+  onChange,
+  services,
+  interState = false,
+  disabled,
+}: BillItemsEditorProps) {
+  const updateItem = (index: number, changes: Partial<BillItemInput>) => {
+    onChange(items.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const addService = (serviceId: string) => {
+    const service = services.find((s) => s.id === serviceId);
+    if (!service) return;
+
+    onChange([
+      ...items,
+      {
+        service_id: service.id,
+        item_type: service.item_type,
+        name: service.name,
+        description: service.description || undefined,
+        hsn_sac_code: service.hsn_sac_code || "",
+        quantity: 1,
+        unit_price: Number(service.unit_price),
+        discount_amount: 0,
+        tax_rate: Number(service.tax_rate),
+        is_tax_exempt: service.is_tax_exempt,
+      },
+    ]);
+  };
+
+  const summary = summarizeBillItems(items);
+  // Split per line, as the database does
+  const gst = items
+    .map((item) => splitGst(calculateBillItem(item).tax, interState))
+    .reduce(
+      (sum, line) => ({
+        cgst: sum.cgst + line.cgst,
+        sgst: sum.sgst + line.sgst,
+        igst: sum.igst + line.igst,
+      }),
+      { cgst: 0, sgst: 0, igst: 0 }
+    );
+
+  const setTax = (index: number, value: string) => {
+    updateItem(
+      index,
+      value === EXEMPT
+        ? { is_tax_exempt: true, tax_rate: 0 }
+        : { is_tax_exempt: false, tax_rate: parseFloat(value) || 0 }
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-col sm:flex-row gap-2">
+        <select
+          value=""
+          onChange={(e) => addService(e.target.value)}
+          disabled={disabled || services.length === 0}
+          className="flex-1 border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">
+            {services.length === 0 ? "No services in the price list" : "Add from price list..."}
+          </option>
+          {services.map((service) => (
+            <option key={service.id} value={service.id}>
+              {service.name} - ₹{Number(service.unit_price).toFixed(2)}
+              {service.is_tax_exempt
+                ? " (exempt)"
+                : Number(service.tax_rate) > 0
+                  ? ` + ${service.tax_rate}% GST`
+                  : ""}
+            </option>
+          ))}
+        </select>
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => onChange([...items, { ...EMPTY_ITEM }])}
+          disabled={disabled}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Custom item
+        </Button>
+      </div>
+
+      {items.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-4 border border-dashed rounded-lg">
+          No items yet. Add a service from the price list or a custom item.
+        </p>
+      ) : (
+        <div className="overflow-x-auto border rounded-lg">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr className="text-left text-gray-600">
+                <th className="px-2 py-2 font-medium">Item</th>
+                <th className="px-2 py-2 font-medium w-24">HSN/SAC</th>
+                <th className="px-2 py-2 font-medium w-28">Type</th>
+                <th className="px-2 py-2 font-medium w-20">Qty</th>
+                <th className="px-2 py-2 font-medium w-24">Price (₹)</th>
+                <th className="px-2 py-2 font-medium w-24">Discount (₹)</th>
+                <th className="px-2 py-2 font-medium w-24">GST</th>
+                <th className="px-2 py-2 font-medium text-right w-24">Total</th>
+                <th className="w-8"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {items.map((item, index) => (
+                <tr key={index}>
+                  <td className="px-2 py-2">
+                    <input
+                      value={item.name}
+                      onChange={(e) => updateItem(index, { name: e.target.value })}
+                      placeholder="e.g. X-Ray"
+                      className={inputClass}
+                      disabled={disabled}
+                      required
+                    />
+                  </td>
+                  <td className="px-2 py-2">
+                    <input
+                      value={item.hsn_sac_code || ""}
+                      onChange={(e) =>
+                        updateItem(index, { hsn_sac_code: e.target.value.replace(/\D/g, "") })
+                      }
+                      maxLength={8}
+                      className={inputClass}
+                      disabled={disabled}
+                    />
+                  </td>
+                  <td className="px-2 py-2">
+                    <select
+                      value={item.item_type}
+                      onChange={(e) =>
+                        updateItem(index, { item_type: e.target.value as BillItemInput["item_type"] })
+                      }
+                      className={inputClass}
+                      disabled={disabled}
+                    >
+                      {BILL_ITEM_TYPES.map((type) => (
+                        <option key={type.value} value={type.value}>
+                          {type.label}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-2 py-2">
+                    <input
+                      type="number"
+                      min="0.01"
+                      step="0.01"
+                      value={item.quantity}
+                      onChange={(e) => updateItem(index, { quantity: parseFloat(e.target.value) || 0 })}
+                      className={inputClass}
+                      disabled={disabled}
+                    />
+                  </td>
+                  <td className="px-2 py-2">
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={item.unit_price}
+                      onChange={(e) => updateItem(index, { unit_price: parseFloat(e.target.value) || 0 })}
+                      className={inputClass}
+                      disabled={disabled}
+                    />
+                  </td>
+                  <td className="px-2 py-2">
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={item.discount_amount}
+                      onChange={(e) =>
+                        updateItem(index, { discount_amount: parseFloat(e.target.value) || 0 })
+                      }
+                      className={inputClass}
+                      disabled={disabled}
+                    />
+                  </td>
+                  <td className="px-2 py-2">
+                    <select
+                      value={taxOptionValue(item)}
+                      onChange={(e) => setTax(index, e.target.value)}
+                      className={inputClass}
+                      disabled={disabled}
+                    >
+                      <option value={EXEMPT}>Exempt</option>
+                      {(GST_RATES.includes(item.tax_rate) || item.is_tax_exempt
+                        ? GST_RATES
+                        : [...GST_RATES, item.tax_rate].sort((a, b) => a - b)
+                      ).map((rate) => (
+                        <option key={rate} value={String(rate)}>
+                          {rate}%
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-2 py-2 text-right font-medium text-gray-900">
+                    ₹{calculateBillItem(item).total.toFixed(2)}
+                  </td>
+                  <td className="px-2 py-2">
+                    <button
+                      type="button"
+                      onClick={() => onChange(items.filter((_, i) => i !== index))}
+                      className="text-red-600 hover:text-red-800"
+                      disabled={disabled}
+                      title="Remove item"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {items.length > 0 && (
+        <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg text-sm space-y-1">
+          <div className="flex justify-between text-blue-700">
+            <span>Subtotal</span>
+            <span>₹{summary.gross.toFixed(2)}</span>
+          </div>
+          {summary.discount > 0 && (
+            <div className="flex justify-between text-blue-700">
+              <span>Discount</span>
+              <span>-₹{summary.discount.toFixed(2)}</span>
+            </div>
+          )}
+          {summary.tax > 0 &&
+            (interState ? (
+              <div className="flex justify-between text-blue-700">
+                <span>IGST</span>
+                <span>₹{gst.igst.toFixed(2)}</span>
+              </div>
+            ) : (
+              <>
+                <div className="flex justify-between text-blue-700">
+                  <span>CGST</span>
+                  <span>₹{gst.cgst.toFixed(2)}</span>
+                </div>
+                <div className="flex justify-between text-blue-700">
+                  <span>SGST</span>
+                  <span>₹{gst.sgst.toFixed(2)}</span>
+                </div>
+              </>
+            ))}
+          <div className="flex justify-between text-lg font-semibold text-blue-900 pt-1">
+            <span>Total</span>
+            <span>₹{summary.total.toFixed(2)}</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,432 @@
+/**
+ * Credit Note Modal
+ * Credit notes and refunds of a bill. A credit note reduces what the bill is
+ * worth; a refund pays money back to the patient, usually against a credit
+ * note. Suggested credit notes from cancelled appointments are issued or
+ * dismissed here.
+ */
+import { useEffect, useState } from "react";
+import { FileDown } from "lucide-react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { Modal } from "../ui/Modal";
+import { Button } from "../ui/Button";
+import { Input } from "../ui/Input";
+import { Select } from "../ui/Select";
+import { Badge } from "../ui/Badge";
+import { BillingService } from "../../services";
+import type { BillWithRelations, CreditNote, Refund } from "../../types/database";
+import { PAYMENT_MODE_LABELS, PaymentMode } from "../../constants";
+import {
+  downloadCreditNotePDF,
+  downloadRefundPDF,
+  paymentModeLabel,
+  type BillPdfClinic,
+} from "../../utils/generateBillPDF";
+import { billBalance } from "../../utils/billBalance";
+
+interface CreditNoteModalProps {
+  bill: BillWithRelations;
+  clinic: BillPdfClinic;
+  isOpen: boolean;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+type FormType = "credit" | "refund";
+
+const PAYMENT_MODE_OPTIONS = Object.values(PaymentMode).map((mode) => ({
+  value: mode,
+  label: PAYMENT_MODE_LABELS[mode],
+}));
+
+export function CreditNoteModal({
+  bill,
+  clinic,
+  isOpen,
+  onClose,
+  onChanged,
+}: CreditNoteModalProps) {
+  const [creditNotes, setCreditNotes] = useState<CreditNote[]>([]);
+  const [refunds, setRefunds] = useState<Refund[]>([]);
+  const [formType, setFormType] = useState<FormType>("credit");
+  const [amount, setAmount] = useState("");
+  const [reason, setReason] = useState("");
+  const [refundMode, setRefundMode] = useState<string>(PaymentMode.CASH);
+  const [reference, setReference] = useState("");
+  const [creditNoteId, setCreditNoteId] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const issued = creditNotes.filter((note) => note.status === "issued");
+  const suggested = creditNotes.filter((note) => note.status === "suggested");
+  const credited = issued.reduce((sum, note) => sum + Number(note.amount), 0);
+  const refunded = refunds.reduce((sum, refund) => sum + Number(refund.amount), 0);
+  const balance = billBalance({
+    ...bill,
+    credited_amount: credited,
+    refunded_amount: refunded,
+  });
+
+  const fetchDocuments = async () => {
+    const [notesResponse, refundsResponse] = await Promise.all([
+      BillingService.getCreditNotes(bill.id),
+      BillingService.getRefunds(bill.id),
+    ]);
+
+    if (!notesResponse.success || !refundsResponse.success) {
+      toast.error(
+        notesResponse.error?.message ||
+          refundsResponse.error?.message ||
+          "Failed to load credit notes"
+      );
+      return;
+    }
+
+    const notes = notesResponse.data || [];
+    const paidBack = refundsResponse.data || [];
+    setCreditNotes(notes);
+    setRefunds(paidBack);
+
+    // Once the bill is credited, what is owed back is the natural next step
+    const next = billBalance({
+      ...bill,
+      credited_amount: notes
+        .filter((note) => note.status === "issued")
+        .reduce((sum, note) => sum + Number(note.amount), 0),
+      refunded_amount: paidBack.reduce((sum, refund) => sum + Number(refund.amount), 0),
+    });
+    const lastIssued = [...notes].reverse().find((note) => note.status === "issued");
+    if (next.refundDue > 0 || next.creditable === 0) {
+      setFormType("refund");
+      setAmount((next.refundDue || next.refundable).toFixed(2));
+      setCreditNoteId(lastIssued?.id || "");
+    } else {
+      setFormType("credit");
+      setAmount(next.creditable.toFixed(2));
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) fetchDocuments();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen, bill.id]);
+
+  const switchForm = (type: FormType) => {
+    setFormType(type);
+    setAmount(
+      (type === "credit"
+        ? balance.creditable
+        : balance.refundDue || balance.refundable
+      ).toFixed(2)
+    );
+  };
+
+  const afterChange = () => {
+    setReason("");
+    setReference("");
+    fetchDocuments();
+    onChanged();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const value = parseFloat(amount);
+    const limit = formType === "credit" ? balance.creditable : balance.refundable;
+    if (!(value > 0)) {
+      toast.error("Enter an amount");
+      return;
+    }
+    if (value > limit + 0.001) {
+      toast.error(
+        formType === "credit"
+          ? `Only ₹${limit.toFixed(2)} is left to credit on this bill`
+          : `Only ₹${limit.toFixed(2)} has been paid and not refunded`
+      );
+      return;
+    }
+
+    setSaving(true);
+    const response =
+      formType === "credit"
+        ? await BillingService.issueCreditNote(bill.id, { amount: value, reason })
+        : await BillingService.recordRefund(bill.id, {
+            amount: value,
+            payment_mode: refundMode,
+            reference,
+            reason,
+            credit_note_id: creditNoteId || null,
+          });
+    setSaving(false);
+
+    if (response.success && response.data) {
+      toast.success(
+        "credit_note_number" in response.data
+          ? `Credit note ${response.data.credit_note_number} issued`
+          : `Refund ${response.data.refund_number} recorded`
+      );
+      afterChange();
+    } else {
+      toast.error(response.error?.message || "Failed to save");
+    }
+  };
+
+  const handleIssueSuggested = async (note: CreditNote) => {
+    const response = await BillingService.issueSuggestedCreditNote(note.id);
+    if (response.success && response.data) {
+      toast.success(`Credit note ${response.data.credit_note_number} issued`);
+      afterChange();
+    } else {
+      toast.error(response.error?.message || "Failed to issue credit note");
+    }
+  };
+
+  const handleDismissSuggested = async (note: CreditNote) => {
+    const response = await BillingService.dismissCreditNote(note.id);
+    if (response.success) {
+      toast.success("Suggestion dismissed");
+      afterChange();
+    } else {
+      toast.error(response.error?.message || "Failed to dismiss suggestion");
+    }
+  };
+
+  const creditNoteFor = (refund: Refund) =>
+    issued.find((note) => note.id === refund.credit_note_id) || null;
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={`Credit Notes & Refunds - ${bill.bill_number}`}
+      size="lg"
+    >
+      <div className="p-6 space-y-6">
+        <div className="grid grid-cols-4 gap-3 text-center">
+          <div className="rounded-lg bg-gray-50 p-3">
+            <p className="text-xs text-gray-500 uppercase">Billed</p>
+            <p className="text-lg font-semibold">₹{Number(bill.total_amount).toFixed(2)}</p>
+          </div>
+          <div className="rounded-lg bg-rose-50 p-3">
+            <p className="text-xs text-rose-600 uppercase">Credited</p>
+            <p className="text-lg font-semibold text-rose-700">₹{credited.toFixed(2)}</p>
+          </div>
+          <div className="rounded-lg bg-emerald-50 p-3">
+            <p className="text-xs text-emerald-600 uppercase">Paid</p>
+            <p className="text-lg font-semibold text-emerald-700">
+              ₹{Number(bill.amount_paid || 0).toFixed(2)}
+            </p>
+          </div>
+          <div className="rounded-lg bg-amber-50 p-3">
+            <p className="text-xs text-amber-600 uppercase">Refunded</p>
+            <p className="text-lg font-semibold text-amber-700">₹{refunded.toFixed(2)}</p>
+          </div>
+        </div>
+
+        {balance.refundDue > 0 && (
+          <p className="text-sm text-rose-700 bg-rose-50 rounded-lg px-3 py-2">
+            ₹{balance.refundDue.toFixed(2)} is owed back to the patient.
+          </p>
+        )}
+
+        {suggested.map((note) => (
+          <div
+            key={note.id}
+            className="flex items-center justify-between gap-4 rounded-lg border border-amber-200 bg-amber-50 px-4 py-3"
+          >
+            <div className="text-sm">
+              <p className="font-medium text-amber-800">
+                Suggested credit note of ₹{Number(note.amount).toFixed(2)}
+              </p>
+              <p className="text-amber-700">{note.reason}</p>
+              {balance.refundable > 0 && (
+                <p className="text-amber-700">
+                  Then refund the ₹{balance.refundable.toFixed(2)} paid.
+                </p>
+              )}
+            </div>
+            <div className="flex gap-2">
+              <Button size="sm" onClick={() => handleIssueSuggested(note)}>
+                Issue
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => handleDismissSuggested(note)}>
+                Dismiss
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        {(issued.length > 0 || refunds.length > 0) && (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 border-b">
+                  <th className="py-2 pr-4 font-medium">Document</th>
+                  <th className="py-2 pr-4 font-medium">Date</th>
+                  <th className="py-2 pr-4 font-medium">Details</th>
+                  <th className="py-2 pr-4 font-medium text-right">Amount</th>
+                  <th className="py-2 font-medium"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {issued.map((note) => (
+                  <tr key={note.id}>
+                    <td className="py-2 pr-4">
+                      <Badge variant="secondary" className="mr-2">
+                        Credit note
+                      </Badge>
+                      <span className="font-mono">{note.credit_note_number}</span>
+                    </td>
+                    <td className="py-2 pr-4">
+                      {format(new Date(note.issued_at || note.created_at), "MMM d, yyyy")}
+                    </td>
+                    <td className="py-2 pr-4">{note.reason}</td>
+                    <td className="py-2 pr-4 text-right">₹{Number(note.amount).toFixed(2)}</td>
+                    <td className="py-2 text-right">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => downloadCreditNotePDF(note, bill, clinic)}
+                        title="Download credit note (PDF)"
+                      >
+                        <FileDown className="h-4 w-4" />
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+                {refunds.map((refund) => (
+                  <tr key={refund.id}>
+                    <td className="py-2 pr-4">
+                      <Badge variant="secondary" className="mr-2">
+                        Refund
+                      </Badge>
+                      <span className="font-mono">{refund.refund_number}</span>
+                    </td>
+                    <td className="py-2 pr-4">
+                      {format(new Date(refund.refunded_at), "MMM d, yyyy")}
+                    </td>
+                    <td className="py-2 pr-4">
+                      {paymentModeLabel(refund.payment_mode)}
+                      {refund.reference && (
+                        <div className="text-xs text-gray-500 font-mono">{refund.reference}</div>
+                      )}
+                    </td>
+                    <td className="py-2 pr-4 text-right">₹{Number(refund.amount).toFixed(2)}</td>
+                    <td className="py-2 text-right">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() =>
+                          downloadRefundPDF(refund, bill, clinic, creditNoteFor(refund))
+                        }
+                        title="Download refund voucher (PDF)"
+                      >
+                        <FileDown className="h-4 w-4" />
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {balance.creditable > 0 || balance.refundable > 0 ? (
+          <form onSubmit={handleSubmit} className="space-y-4 border-t pt-4">
+            <div className="flex gap-2">
+              <Button
+                type="button"
+                size="sm"
+                variant={formType === "credit" ? "primary" : "outline"}
+                onClick={() => switchForm("credit")}
+                disabled={balance.creditable === 0}
+              >
+                Issue Credit Note
+              </Button>
+              <Button
+                type="button"
+                size="sm"
+                variant={formType === "refund" ? "primary" : "outline"}
+                onClick={() => switchForm("refund")}
+                disabled={balance.refundable === 0}
+              >
+                Record Refund
+              </Button>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <Input
+                label="Amount (₹)"
+                type="number"
+                min="0.01"
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                required
+              />
+              {formType === "refund" && (
+                <Select
+                  label="Refund mode"
+                  value={refundMode}
+                  onChange={(e) => setRefundMode(e.target.value)}
+                  options={PAYMENT_MODE_OPTIONS}
+                />
+              )}
+              {formType === "refund" && (
+                <Input
+                  label="Reference"
+                  value={reference}
+                  onChange={(e) => setReference(e.target.value)}
+                  placeholder="UPI / bank / cheque ref"
+                />
+              )}
+              {formType === "refund" && issued.length > 0 && (
+                <Select
+                  label="Against credit note"
+                  value={creditNoteId}
+                  onChange={(e) => setCreditNoteId(e.target.value)}
+                  options={[
+                    { value: "", label: "None (payment reversed)" },
+                    ...issued.map((note) => ({
+                      value: note.id,
+                      label: note.credit_note_number || note.id,
+                    })),
+                  ]}
+                />
+              )}
+            </div>
+            <Input
+              label="Reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder={
+                formType === "credit"
+                  ? "e.g. Appointment cancelled by the clinic"
+                  : "e.g. Refunded at the front desk"
+              }
+              required={formType === "credit"}
+            />
+            <div className="flex justify-end gap-3">
+              <Button type="button" variant="outline" onClick={onClose}>
+                Close
+              </Button>
+              <Button type="submit" variant={formType === "credit" ? "danger" : "primary"} disabled={saving}>
+                {saving
+                  ? "Saving..."
+                  : formType === "credit"
+                    ? "Issue Credit Note"
+                    : "Record Refund"}
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <div className="flex justify-end">
+            <Button variant="outline" onClick={onClose}>
+              Close
+            </Button>
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,160 @@
+/**
+ * Invoice Settings Card
+ * GSTIN and bill number format for the clinic. Numbers are assigned by the
+ * database in one continuous series per financial year; changing the format
+ * or GSTIN only affects bills created afterwards.
+ */
+import { useEffect, useState } from "react";
+import { FileText, Save } from "lucide-react";
+import { toast } from "sonner";
+import { Card, CardContent, CardHeader, CardTitle } from "../ui/Card";
+import { Button } from "../ui/Button";
+import { Input } from "../ui/Input";
+import { Select } from "../ui/Select";
+import { ClinicProfileService } from "../../services";
+import {
+  DEFAULT_INVOICE_NUMBER_FORMAT,
+  DEFAULT_INVOICE_NUMBER_PADDING,
+  INVOICE_NUMBER_TOKENS,
+  MAX_INVOICE_NUMBER_LENGTH,
+  financialYearLabel,
+  formatInvoiceNumber,
+  validateInvoiceNumberFormat,
+} from "../../utils/invoiceNumber";
+import { gstStateCode, validateGstin } from "../../utils/gst";
+
+interface InvoiceSettingsCardProps {
+  clinicId: string;
+}
+
+const PADDING_OPTIONS = [3, 4, 5, 6].map((digits) => ({
+  value: String(digits),
+  label: `${digits} digits`,
+}));
+
+export function InvoiceSettingsCard({ clinicId }: InvoiceSettingsCardProps) {
+  const [numberFormat, setNumberFormat] = useState(DEFAULT_INVOICE_NUMBER_FORMAT);
+  const [padding, setPadding] = useState(DEFAULT_INVOICE_NUMBER_PADDING);
+  const [gstin, setGstin] = useState("");
+  const [clinicState, setClinicState] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      const response = await ClinicProfileService.getClinicProfile(clinicId);
+      if (response.success && response.data) {
+        setNumberFormat(response.data.invoice_number_format || DEFAULT_INVOICE_NUMBER_FORMAT);
+        setPadding(response.data.invoice_number_padding || DEFAULT_INVOICE_NUMBER_PADDING);
+        setGstin(response.data.gstin || "");
+        setClinicState(response.data.primary_address?.state || null);
+      }
+    };
+
+    fetchSettings();
+  }, [clinicId]);
+
+  const formatError = validateInvoiceNumberFormat(numberFormat);
+  const gstinError = gstin ? validateGstin(gstin, clinicState) : null;
+  const preview = formatInvoiceNumber(
+    numberFormat,
+    financialYearLabel(new Date()),
+    1,
+    padding
+  );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (formatError || gstinError) return;
+
+    setSaving(true);
+    const response = await ClinicProfileService.updateClinicProfile(clinicId, {
+      invoice_number_format: numberFormat,
+      invoice_number_padding: padding,
+      gstin: gstin || null,
+    });
+    setSaving(false);
+
+    if (response.success) {
+      toast.success("Invoice settings saved");
+    } else {
+      toast.error(response.error?.message || "Failed to save invoice settings");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <FileText className="h-5 w-5 mr-2" />
+          Invoices &amp; GST
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Input
+              label="GSTIN"
+              value={gstin}
+              onChange={(e) => setGstin(e.target.value.toUpperCase().replace(/\s/g, ""))}
+              error={gstinError || undefined}
+              maxLength={15}
+              placeholder={`e.g. ${gstStateCode(clinicState) || "19"}ABCDE1234F1Z5`}
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Printed on every invoice. Leave blank if the clinic is not registered
+              for GST; services can then only be billed as exempt or at 0%.
+            </p>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Input
+              label="Number format"
+              value={numberFormat}
+              onChange={(e) => setNumberFormat(e.target.value.trim())}
+              error={formatError || undefined}
+              required
+            />
+            <Select
+              label="Running number length"
+              value={String(padding)}
+              onChange={(e) => setPadding(Number(e.target.value))}
+              options={PADDING_OPTIONS}
+            />
+          </div>
+
+          <ul className="text-sm text-gray-600 space-y-1">
+            {INVOICE_NUMBER_TOKENS.map(({ token, description }) => (
+              <li key={token}>
+                <code className="font-mono text-gray-900">{token}</code> {description}
+              </li>
+            ))}
+          </ul>
+
+          {!formatError && (
+            <p className="text-sm text-gray-700">
+              First bill this financial year:{" "}
+              <span className="font-mono font-medium">{preview}</span>
+            </p>
+          )}
+          {!formatError && preview.length > MAX_INVOICE_NUMBER_LENGTH && (
+            <p className="text-sm text-amber-600">
+              GST invoices allow at most {MAX_INVOICE_NUMBER_LENGTH} characters; this
+              format produces {preview.length}.
+            </p>
+          )}
+          <p className="text-xs text-gray-500">
+            Numbers run without gaps per financial year (April to March) and cannot
+            be edited. A new format applies to bills created after saving.
+          </p>
+
+          <div className="flex justify-end">
+            <Button type="submit" disabled={saving || !!formatError || !!gstinError}>
+              <Save className="h-5 w-5 mr-2" />
+              {saving ? "Saving..." : "Save Changes"}
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
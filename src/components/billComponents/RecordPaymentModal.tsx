@@ -0,0 +1,235 @@
+/**
+ * Record Payment Modal
+ * Takes a receipt against a bill and lists the receipts already recorded.
+ * A bill can be settled over several receipts in different modes.
+ */
+import { useEffect, useState } from "react";
+import { FileDown } from "lucide-react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { Modal } from "../ui/Modal";
+import { Button } from "../ui/Button";
+import { Input } from "../ui/Input";
+import { Select } from "../ui/Select";
+import { BillingService } from "../../services";
+import type { BillWithRelations, Payment } from "../../types/database";
+import { PAYMENT_MODE_LABELS, PaymentMode } from "../../constants";
+import {
+  downloadReceiptPDF,
+  paymentModeLabel,
+  type BillPdfClinic,
+} from "../../utils/generateBillPDF";
+import { billBalance } from "../../utils/billBalance";
+
+interface RecordPaymentModalProps {
+  bill: BillWithRelations;
+  clinic: BillPdfClinic;
+  isOpen: boolean;
+  onClose: () => void;
+  onRecorded: () => void;
+}
+
+const PAYMENT_MODE_OPTIONS = Object.values(PaymentMode).map((mode) => ({
+  value: mode,
+  label: PAYMENT_MODE_LABELS[mode],
+}));
+
+export function RecordPaymentModal({
+  bill,
+  clinic,
+  isOpen,
+  onClose,
+  onRecorded,
+}: RecordPaymentModalProps) {
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [amount, setAmount] = useState("");
+  const [paymentMode, setPaymentMode] = useState<string>(PaymentMode.CASH);
+  const [reference, setReference] = useState("");
+  const [paidOn, setPaidOn] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [notes, setNotes] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const paid = payments.reduce((sum, payment) => sum + Number(payment.amount), 0);
+  const { netTotal, balanceDue: balance } = billBalance({ ...bill, amount_paid: paid });
+
+  const fetchPayments = async () => {
+    const response = await BillingService.getPayments(bill.id);
+    if (response.success) {
+      const receipts = response.data || [];
+      setPayments(receipts);
+      const received = receipts.reduce((sum, payment) => sum + Number(payment.amount), 0);
+      setAmount(billBalance({ ...bill, amount_paid: received }).balanceDue.toFixed(2));
+    } else {
+      toast.error(response.error?.message || "Failed to load payments");
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) fetchPayments();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen, bill.id]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const value = parseFloat(amount);
+    if (!(value > 0)) {
+      toast.error("Enter the amount received");
+      return;
+    }
+    if (value > balance + 0.001) {
+      toast.error(`Amount is more than the balance of ₹${balance.toFixed(2)}`);
+      return;
+    }
+
+    // Today's receipts keep the current time; back-dated ones are noon that day
+    const paidAt =
+      paidOn === format(new Date(), "yyyy-MM-dd")
+        ? new Date().toISOString()
+        : new Date(`${paidOn}T12:00:00`).toISOString();
+
+    setSaving(true);
+    const response = await BillingService.recordPayment(bill.id, {
+      amount: value,
+      payment_mode: paymentMode,
+      reference,
+      paid_at: paidAt,
+      notes,
+    });
+    setSaving(false);
+
+    if (response.success && response.data) {
+      toast.success(`Receipt ${response.data.receipt_number} recorded`);
+      setReference("");
+      setNotes("");
+      fetchPayments();
+      onRecorded();
+    } else {
+      toast.error(response.error?.message || "Failed to record payment");
+    }
+  };
+
+  const handleDownloadReceipt = (payment: Payment) => {
+    downloadReceiptPDF(payment, bill, clinic, payments);
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={`Payments - ${bill.bill_number}`} size="lg">
+      <div className="p-6 space-y-6">
+        <div className="grid grid-cols-3 gap-4 text-center">
+          <div className="rounded-lg bg-gray-50 p-3">
+            <p className="text-xs text-gray-500 uppercase">Total</p>
+            <p className="text-lg font-semibold">₹{netTotal.toFixed(2)}</p>
+          </div>
+          <div className="rounded-lg bg-emerald-50 p-3">
+            <p className="text-xs text-emerald-600 uppercase">Paid</p>
+            <p className="text-lg font-semibold text-emerald-700">₹{paid.toFixed(2)}</p>
+          </div>
+          <div className="rounded-lg bg-amber-50 p-3">
+            <p className="text-xs text-amber-600 uppercase">Balance</p>
+            <p className="text-lg font-semibold text-amber-700">₹{balance.toFixed(2)}</p>
+          </div>
+        </div>
+
+        {payments.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 border-b">
+                  <th className="py-2 pr-4 font-medium">Receipt</th>
+                  <th className="py-2 pr-4 font-medium">Date</th>
+                  <th className="py-2 pr-4 font-medium">Mode</th>
+                  <th className="py-2 pr-4 font-medium text-right">Amount</th>
+                  <th className="py-2 font-medium"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {payments.map((payment) => (
+                  <tr key={payment.id}>
+                    <td className="py-2 pr-4 font-mono">{payment.receipt_number}</td>
+                    <td className="py-2 pr-4">
+                      {format(new Date(payment.paid_at), "MMM d, yyyy")}
+                    </td>
+                    <td className="py-2 pr-4">
+                      {paymentModeLabel(payment.payment_mode)}
+                      {payment.reference && (
+                        <div className="text-xs text-gray-500 font-mono">{payment.reference}</div>
+                      )}
+                    </td>
+                    <td className="py-2 pr-4 text-right">₹{Number(payment.amount).toFixed(2)}</td>
+                    <td className="py-2 text-right">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleDownloadReceipt(payment)}
+                        title="Download receipt (PDF)"
+                      >
+                        <FileDown className="h-4 w-4" />
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {balance > 0 && bill.status !== "cancelled" ? (
+          <form onSubmit={handleSubmit} className="space-y-4 border-t pt-4">
+            <div className="grid grid-cols-2 gap-4">
+              <Input
+                label="Amount (₹)"
+                type="number"
+                min="0.01"
+                step="0.01"
+                max={balance.toFixed(2)}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                required
+              />
+              <Select
+                label="Payment mode"
+                value={paymentMode}
+                onChange={(e) => setPaymentMode(e.target.value)}
+                options={PAYMENT_MODE_OPTIONS}
+              />
+              <Input
+                label="Reference"
+                value={reference}
+                onChange={(e) => setReference(e.target.value)}
+                placeholder="UPI / card / cheque ref"
+              />
+              <Input
+                label="Date"
+                type="date"
+                value={paidOn}
+                max={format(new Date(), "yyyy-MM-dd")}
+                onChange={(e) => setPaidOn(e.target.value)}
+                required
+              />
+            </div>
+            <Input
+              label="Notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+            <div className="flex justify-end gap-3">
+              <Button type="button" variant="outline" onClick={onClose}>
+                Close
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving ? "Recording..." : "Record Payment"}
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <div className="flex justify-end">
+            <Button variant="outline" onClick={onClose}>
+              Close
+            </Button>
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,261 @@
+/**
+ * Service Catalogue Card
+ * The clinic's price list used when writing bills. Services are retired
+ * rather than deleted so bills that used them keep their link.
+ */
+import { useEffect, useState } from "react";
+import { Edit, ListChecks, Plus, RotateCcw, Archive } from "lucide-react";
+import { toast } from "sonner";
+import { Card, CardContent, CardHeader, CardTitle } from "../ui/Card";
+import { Button } from "../ui/Button";
+import { Input } from "../ui/Input";
+import { Select } from "../ui/Select";
+import { Badge } from "../ui/Badge";
+import { Modal } from "../ui/Modal";
+import { ServiceCatalogueService, type ServiceCatalogueData } from "../../services";
+import type { ServiceCatalogueItem } from "../../types/database";
+import { BILL_ITEM_TYPES, billItemTypeLabel } from "../../utils/billItems";
+import { GST_RATES, HEALTHCARE_SAC_CODE } from "../../utils/gst";
+
+const EMPTY_SERVICE: ServiceCatalogueData = {
+  name: "",
+  item_type: "consultation",
+  description: "",
+  hsn_sac_code: HEALTHCARE_SAC_CODE,
+  unit_price: 0,
+  tax_rate: 0,
+  is_tax_exempt: true,
+};
+
+const GST_RATE_OPTIONS = [
+  { value: "exempt", label: "Exempt" },
+  ...GST_RATES.map((rate) => ({ value: String(rate), label: `${rate}%` })),
+];
+
+export function ServiceCatalogueCard() {
+  const [services, setServices] = useState<ServiceCatalogueItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<ServiceCatalogueItem | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<ServiceCatalogueData>(EMPTY_SERVICE);
+  const [saving, setSaving] = useState(false);
+
+  const fetchServices = async () => {
+    const response = await ServiceCatalogueService.getServices();
+    if (response.success) {
+      setServices(response.data || []);
+    } else {
+      toast.error(response.error?.message || "Failed to load the price list");
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    fetchServices();
+  }, []);
+
+  const openForm = (service?: ServiceCatalogueItem) => {
+    setEditing(service || null);
+    setForm(
+      service
+        ? {
+            name: service.name,
+            item_type: service.item_type,
+            description: service.description || "",
+            hsn_sac_code: service.hsn_sac_code || "",
+            unit_price: Number(service.unit_price),
+            tax_rate: Number(service.tax_rate),
+            is_tax_exempt: service.is_tax_exempt,
+          }
+        : EMPTY_SERVICE
+    );
+    setShowForm(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setSaving(true);
+    const response = editing
+      ? await ServiceCatalogueService.updateService(editing.id, form)
+      : await ServiceCatalogueService.createService(form);
+    setSaving(false);
+
+    if (response.success) {
+      toast.success(editing ? "Service updated" : "Service added");
+      setShowForm(false);
+      fetchServices();
+    } else {
+      toast.error(response.error?.message || "Failed to save service");
+    }
+  };
+
+  const toggleActive = async (service: ServiceCatalogueItem) => {
+    const response = await ServiceCatalogueService.setActive(service.id, !service.is_active);
+    if (response.success) {
+      toast.success(service.is_active ? "Service retired" : "Service restored");
+      fetchServices();
+    } else {
+      toast.error(response.error?.message || "Failed to update service");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center">
+            <ListChecks className="h-5 w-5 mr-2" />
+            Services &amp; Fees
+          </CardTitle>
+          <Button size="sm" onClick={() => openForm()}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Service
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading price list...</p>
+        ) : services.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            No services yet. Add consultations, procedures, lab tests and medicines
+            to pick them when writing bills.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 border-b">
+                  <th className="py-2 pr-4 font-medium">Service</th>
+                  <th className="py-2 pr-4 font-medium">Type</th>
+                  <th className="py-2 pr-4 font-medium">HSN/SAC</th>
+                  <th className="py-2 pr-4 font-medium text-right">Price</th>
+                  <th className="py-2 pr-4 font-medium text-right">GST</th>
+                  <th className="py-2 font-medium"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {services.map((service) => (
+                  <tr key={service.id} className={service.is_active ? "" : "text-gray-400"}>
+                    <td className="py-2 pr-4">
+                      <div className="font-medium">{service.name}</div>
+                      {service.description && (
+                        <div className="text-xs text-gray-500">{service.description}</div>
+                      )}
+                    </td>
+                    <td className="py-2 pr-4">
+                      {billItemTypeLabel(service.item_type)}
+                      {!service.is_active && (
+                        <Badge variant="secondary" className="ml-2">
+                          Retired
+                        </Badge>
+                      )}
+                    </td>
+                    <td className="py-2 pr-4 font-mono">{service.hsn_sac_code || "-"}</td>
+                    <td className="py-2 pr-4 text-right">
+                      ₹{Number(service.unit_price).toFixed(2)}
+                    </td>
+                    <td className="py-2 pr-4 text-right">
+                      {service.is_tax_exempt ? "Exempt" : `${Number(service.tax_rate)}%`}
+                    </td>
+                    <td className="py-2">
+                      <div className="flex justify-end gap-2">
+                        <Button size="sm" variant="outline" onClick={() => openForm(service)}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => toggleActive(service)}
+                          title={service.is_active ? "Retire" : "Restore"}
+                        >
+                          {service.is_active ? (
+                            <Archive className="h-4 w-4" />
+                          ) : (
+                            <RotateCcw className="h-4 w-4" />
+                          )}
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+
+      <Modal
+        isOpen={showForm}
+        onClose={() => setShowForm(false)}
+        title={editing ? "Edit Service" : "Add Service"}
+      >
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <Input
+            label="Name"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            placeholder="e.g. General Consultation"
+            required
+          />
+          <Select
+            label="Type"
+            value={form.item_type}
+            onChange={(e) =>
+              setForm({ ...form, item_type: e.target.value as ServiceCatalogueData["item_type"] })
+            }
+            options={BILL_ITEM_TYPES}
+          />
+          <Input
+            label="Description"
+            value={form.description || ""}
+            onChange={(e) => setForm({ ...form, description: e.target.value })}
+          />
+          <Input
+            label="HSN/SAC code"
+            value={form.hsn_sac_code || ""}
+            onChange={(e) => setForm({ ...form, hsn_sac_code: e.target.value.replace(/\D/g, "") })}
+            maxLength={8}
+            placeholder={`e.g. ${HEALTHCARE_SAC_CODE} for health services`}
+          />
+          <div className="grid grid-cols-2 gap-4">
+            <Input
+              label="Price (₹)"
+              type="number"
+              min="0"
+              step="0.01"
+              value={form.unit_price}
+              onChange={(e) => setForm({ ...form, unit_price: parseFloat(e.target.value) || 0 })}
+              required
+            />
+            <Select
+              label="GST"
+              value={form.is_tax_exempt ? "exempt" : String(form.tax_rate)}
+              onChange={(e) =>
+                setForm(
+                  e.target.value === "exempt"
+                    ? { ...form, is_tax_exempt: true, tax_rate: 0 }
+                    : { ...form, is_tax_exempt: false, tax_rate: parseFloat(e.target.value) || 0 }
+                )
+              }
+              options={
+                form.is_tax_exempt || GST_RATES.includes(form.tax_rate)
+                  ? GST_RATE_OPTIONS
+                  : [...GST_RATE_OPTIONS, { value: String(form.tax_rate), label: `${form.tax_rate}%` }]
+              }
+            />
+          </div>
+          <div className="flex justify-end gap-3 pt-2">
+            <Button type="button" variant="outline" onClick={() => setShowForm(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving}>
+              {saving ? "Saving..." : editing ? "Save Changes" : "Add Service"}
+            </Button>
+          </div>
+        </form>
+      </Modal>
+    </Card>
+  );
+}
@@ -1,15 +1,19 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { X, Download, Mail, Phone, MapPin } from "lucide-react";
+import { X, Download, FileDown, Mail, Phone, MapPin } from "lucide-react";
 import { Button } from "../ui/Button";
 import { format } from "date-fns";
 
 import type { BillWithRelations } from "../../types/database";
+import { billItemTypeLabel, invoiceLines } from "../../utils/billItems";
+import { gstSummary, placeOfSupplyLabel } from "../../utils/gst";
+import { billBalance } from "../../utils/billBalance";
 
 interface BillViewModalProps {
   bill: BillWithRelations;
   isOpen: boolean;
   onClose: () => void;
   onDownload: (bill: BillWithRelations) => void;
+  onDownloadPdf?: (bill: BillWithRelations) => void;
 }
 
 export function BillViewModal({
@@ -17,9 +21,19 @@ export function BillViewModal({
   isOpen,
   onClose,
   onDownload,
+  onDownloadPdf,
 }: BillViewModalProps) {
   if (!isOpen || !bill) return null;
 
+  const lines = invoiceLines(bill);
+  const itemised = !!bill.bill_items?.length;
+  const interState = !!bill.is_inter_state;
+  const taxSummary = itemised ? gstSummary(lines, interState) : [];
+  const showTaxSummary = taxSummary.some((row) => row.exempt || row.tax_rate > 0);
+  const balance = billBalance(bill);
+  const settled =
+    (bill.amount_paid || 0) > 0 || (bill.credited_amount || 0) > 0 || (bill.refunded_amount || 0) > 0;
+
   const safeNumber = (n?: number | null) => {
     if (n === undefined || n === null || Number.isNaN(n)) return "0.00";
     try {
@@ -57,6 +71,8 @@ export function BillViewModal({
         return "bg-green-100 text-green-800 border-green-200";
       case "pending":
         return "bg-yellow-100 text-yellow-800 border-yellow-200";
+      case "partially_paid":
+        return "bg-blue-100 text-blue-800 border-blue-200";
       case "overdue":
         return "bg-red-100 text-red-800 border-red-200";
       default:
@@ -79,6 +95,16 @@ export function BillViewModal({
               <Download className="h-4 w-4 mr-2" />
               Download
             </Button>
+            {onDownloadPdf && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => onDownloadPdf(bill)}
+              >
+                <FileDown className="h-4 w-4 mr-2" />
+                PDF
+              </Button>
+            )}
             <button onClick={onClose} className="p-1 hover:bg-gray-100 rounded">
               <X className="h-5 w-5" />
             </button>
@@ -93,9 +119,12 @@ export function BillViewModal({
               AbhiCure Clinic
             </h1>
             <p className="text-gray-600">Professional Healthcare Services</p>
+            {bill.clinic_gstin && (
+              <p className="text-sm text-gray-700 mt-1">GSTIN: {bill.clinic_gstin}</p>
+            )}
             <div className="mt-4 pt-4 border-t border-gray-200">
               <h2 className="text-xl font-semibold">
-                INVOICE #{bill.bill_number}
+                {bill.clinic_gstin ? "TAX INVOICE" : "INVOICE"} #{bill.bill_number}
               </h2>
             </div>
           </div>
@@ -126,6 +155,12 @@ export function BillViewModal({
                       : "No due date"}
                   </span>
                 </div>
+                {bill.place_of_supply && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Place of Supply:</span>
+                    <span>{placeOfSupplyLabel(bill.place_of_supply)}</span>
+                  </div>
+                )}
                 <div className="flex justify-between items-center">
                   <span className="text-gray-600">Status:</span>
                   <span
@@ -167,12 +202,104 @@ export function BillViewModal({
             </div>
           </div>
 
+          {/* Items */}
+          <div className="overflow-x-auto border border-gray-200 rounded-lg mb-8">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr className="text-left text-gray-600">
+                  <th className="px-4 py-3 font-medium">Item</th>
+                  <th className="px-4 py-3 font-medium">HSN/SAC</th>
+                  <th className="px-4 py-3 font-medium text-right">Qty</th>
+                  <th className="px-4 py-3 font-medium text-right">Rate</th>
+                  <th className="px-4 py-3 font-medium text-right">Discount</th>
+                  <th className="px-4 py-3 font-medium text-right">Tax</th>
+                  <th className="px-4 py-3 font-medium text-right">Amount</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {lines.map((line, index) => (
+                  <tr key={index}>
+                    <td className="px-4 py-3">
+                      <div className="font-medium text-gray-900">{line.name}</div>
+                      <div className="text-xs text-gray-500">
+                        {billItemTypeLabel(line.item_type)}
+                        {line.description ? ` · ${line.description}` : ""}
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 font-mono">{line.hsn_sac_code || "-"}</td>
+                    <td className="px-4 py-3 text-right">{Number(line.quantity)}</td>
+                    <td className="px-4 py-3 text-right">
+                      ₹{safeNumber(Number(line.unit_price))}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      {Number(line.discount_amount) > 0
+                        ? `-₹${safeNumber(Number(line.discount_amount))}`
+                        : "-"}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      {line.is_tax_exempt
+                        ? "Exempt"
+                        : Number(line.tax_amount) > 0
+                          ? `₹${safeNumber(Number(line.tax_amount))} (${Number(line.tax_rate)}%)`
+                          : "-"}
+                    </td>
+                    <td className="px-4 py-3 text-right font-medium">
+                      ₹{safeNumber(Number(line.line_total))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* GST Summary */}
+          {showTaxSummary && (
+            <div className="overflow-x-auto border border-gray-200 rounded-lg mb-8">
+              <table className="min-w-full text-sm">
+                <thead className="bg-gray-50">
+                  <tr className="text-left text-gray-600">
+                    <th className="px-4 py-2 font-medium">HSN/SAC</th>
+                    <th className="px-4 py-2 font-medium text-right">Taxable Value</th>
+                    <th className="px-4 py-2 font-medium text-right">Rate</th>
+                    {interState ? (
+                      <th className="px-4 py-2 font-medium text-right">IGST</th>
+                    ) : (
+                      <>
+                        <th className="px-4 py-2 font-medium text-right">CGST</th>
+                        <th className="px-4 py-2 font-medium text-right">SGST</th>
+                      </>
+                    )}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {taxSummary.map((row) => (
+                    <tr key={`${row.hsn_sac_code}-${row.tax_rate}-${row.exempt}`}>
+                      <td className="px-4 py-2 font-mono">{row.hsn_sac_code}</td>
+                      <td className="px-4 py-2 text-right">₹{safeNumber(row.taxable)}</td>
+                      <td className="px-4 py-2 text-right">
+                        {row.exempt ? "Exempt" : `${row.tax_rate}%`}
+                      </td>
+                      {interState ? (
+                        <td className="px-4 py-2 text-right">₹{safeNumber(row.igst)}</td>
+                      ) : (
+                        <>
+                          <td className="px-4 py-2 text-right">₹{safeNumber(row.cgst)}</td>
+                          <td className="px-4 py-2 text-right">₹{safeNumber(row.sgst)}</td>
+                        </>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
           {/* Amount Details */}
           <div className="bg-blue-50 p-6 rounded-lg mb-8">
             <h3 className="font-semibold text-gray-900 mb-4">Amount Details</h3>
             <div className="space-y-2">
               <div className="flex justify-between">
-                <span>Service Amount:</span>
+                <span>Subtotal:</span>
                 <span>
                   ₹
                   {bill.amount !== undefined && bill.amount !== null
@@ -180,16 +307,68 @@ export function BillViewModal({
                     : safeNumber(bill.total_amount)}
                 </span>
               </div>
-              {(bill.tax_amount || 0) > 0 && (
+              {(bill.discount_amount || 0) > 0 && (
+                <div className="flex justify-between">
+                  <span>Discount:</span>
+                  <span>-₹{safeNumber(bill.discount_amount || 0)}</span>
+                </div>
+              )}
+              {!itemised && (bill.tax_amount || 0) > 0 && (
                 <div className="flex justify-between">
                   <span>Tax:</span>
                   <span>₹{safeNumber(bill.tax_amount || 0)}</span>
                 </div>
               )}
+              {itemised && (bill.cgst_amount || 0) > 0 && (
+                <>
+                  <div className="flex justify-between">
+                    <span>CGST:</span>
+                    <span>₹{safeNumber(bill.cgst_amount)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>SGST:</span>
+                    <span>₹{safeNumber(bill.sgst_amount)}</span>
+                  </div>
+                </>
+              )}
+              {itemised && (bill.igst_amount || 0) > 0 && (
+                <div className="flex justify-between">
+                  <span>IGST:</span>
+                  <span>₹{safeNumber(bill.igst_amount)}</span>
+                </div>
+              )}
               <div className="border-t pt-2 flex justify-between font-bold text-lg">
                 <span>Total Amount:</span>
                 <span>₹{safeNumber(bill.total_amount)}</span>
               </div>
+              {settled && (
+                <>
+                  {(bill.credited_amount || 0) > 0 && (
+                    <div className="flex justify-between">
+                      <span>Credit Notes:</span>
+                      <span>-₹{safeNumber(bill.credited_amount)}</span>
+                    </div>
+                  )}
+                  {(bill.amount_paid || 0) > 0 && (
+                    <div className="flex justify-between">
+                      <span>Paid:</span>
+                      <span>₹{safeNumber(bill.amount_paid)}</span>
+                    </div>
+                  )}
+                  {(bill.refunded_amount || 0) > 0 && (
+                    <div className="flex justify-between">
+                      <span>Refunded:</span>
+                      <span>-₹{safeNumber(bill.refunded_amount)}</span>
+                    </div>
+                  )}
+                  <div className="flex justify-between font-semibold">
+                    <span>{balance.refundDue > 0 ? "Refund Due:" : "Balance Due:"}</span>
+                    <span>
+                      ₹{safeNumber(balance.refundDue > 0 ? balance.refundDue : balance.balanceDue)}
+                    </span>
+                  </div>
+                </>
+              )}
             </div>
           </div>
 
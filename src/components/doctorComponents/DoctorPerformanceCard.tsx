@@ -0,0 +1,138 @@
+/**
+ * Doctor Performance Card
+ * Slot utilisation, consultation length, no-show rate, revenue and rating
+ * for one doctor over a selectable period
+ */
+import { useEffect, useState } from "react";
+import { Activity } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "../ui/Card";
+import { Select } from "../ui/Select";
+import {
+  ReportsService,
+  DoctorPerformance,
+} from "../../services/ReportsService";
+import {
+  REPORT_RANGE_OPTIONS,
+  ReportRangePreset,
+  resolveReportRange,
+} from "../../utils/reportUtils";
+
+interface DoctorPerformanceCardProps {
+  clinicDoctorId: string;
+}
+
+// Presets only; custom ranges live on the Reports page
+const RANGE_OPTIONS = REPORT_RANGE_OPTIONS.filter((option) => option.value !== "custom");
+
+const formatPercent = (value: number | null) => (value === null ? "—" : `${value}%`);
+
+export function DoctorPerformanceCard({ clinicDoctorId }: DoctorPerformanceCardProps) {
+  const [rangePreset, setRangePreset] = useState<ReportRangePreset>("last30Days");
+  const [performance, setPerformance] = useState<DoctorPerformance | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchPerformance = async () => {
+      setLoading(true);
+      setError(null);
+
+      const result = await ReportsService.getDoctorPerformance(
+        resolveReportRange(rangePreset),
+        clinicDoctorId
+      );
+
+      if (result.success) {
+        setPerformance(result.data?.[0] || null);
+      } else {
+        setError(result.error?.message || "Failed to load performance");
+      }
+      setLoading(false);
+    };
+
+    fetchPerformance();
+  }, [clinicDoctorId, rangePreset]);
+
+  const stats = performance
+    ? [
+        {
+          label: "Slot Utilisation",
+          value: formatPercent(performance.utilisationPct),
+          detail: `${performance.slotBookings}/${performance.slotCapacity} seats booked`,
+        },
+        {
+          label: "Appointments",
+          value: performance.appointments,
+          detail: `${performance.completed} completed`,
+        },
+        {
+          label: "Avg. Consultation",
+          value:
+            performance.avgConsultationMinutes === null
+              ? "—"
+              : `${performance.avgConsultationMinutes} min`,
+          detail: "From start to completion",
+        },
+        {
+          label: "No-show Rate",
+          value: formatPercent(performance.noShowRate),
+          detail: `${performance.noShow} no-shows`,
+        },
+        {
+          label: "Revenue",
+          value: `₹${performance.revenue.toFixed(2)}`,
+          detail: "Consultation fees",
+        },
+        {
+          label: "Rating",
+          value:
+            performance.averageRating === null
+              ? "—"
+              : `${performance.averageRating.toFixed(1)} / 5`,
+          detail: `${performance.ratingCount} ratings`,
+        },
+      ]
+    : [];
+
+  return (
+    <Card className="shadow-md border-0">
+      <CardHeader className="bg-gradient-to-r from-indigo-50 to-blue-50 border-b">
+        <CardTitle className="flex items-center justify-between">
+          <div className="flex items-center text-lg font-semibold text-gray-900">
+            <Activity className="h-5 w-5 mr-2 text-indigo-600" />
+            Performance
+          </div>
+          <Select
+            name="performanceRange"
+            value={rangePreset}
+            onChange={(e) => setRangePreset(e.target.value as ReportRangePreset)}
+            options={RANGE_OPTIONS}
+          />
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-6">
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-600 text-center py-6">{error}</p>
+        ) : !performance ? (
+          <p className="text-sm text-gray-500 text-center py-6">
+            No activity in this period
+          </p>
+        ) : (
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+            {stats.map((stat) => (
+              <div key={stat.label} className="bg-gray-50 rounded-lg p-4 text-center">
+                <p className="text-sm text-gray-600">{stat.label}</p>
+                <p className="text-2xl font-bold text-gray-900 mt-1">{stat.value}</p>
+                <p className="text-xs text-gray-500 mt-1">{stat.detail}</p>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,368 @@
+import { useEffect, useState } from "react";
+import { Button } from "../ui/Button";
+import { Input } from "../ui/Input";
+import {
+  DoctorSlotService,
+  MAX_RECURRING_WEEKS_AHEAD,
+  RecurringSlotRule,
+  type DoctorSlot,
+} from "../../services/DoctorSlotService";
+import { toast } from "sonner";
+import { Plus, Trash2, Repeat } from "lucide-react";
+
+interface RecurringSlotScheduleFormProps {
+  doctorId: string;
+  onSlotsCreated: (slots: DoctorSlot[]) => void;
+  onCancel: () => void;
+}
+
+const WEEKDAYS = [
+  { value: 1, label: "Mon" },
+  { value: 2, label: "Tue" },
+  { value: 3, label: "Wed" },
+  { value: 4, label: "Thu" },
+  { value: 5, label: "Fri" },
+  { value: 6, label: "Sat" },
+  { value: 0, label: "Sun" },
+];
+
+const emptyRule = (): RecurringSlotRule => ({
+  slot_name: "",
+  start_time: "",
+  end_time: "",
+  max_capacity: 10,
+  slot_type: "in-clinic",
+  weekdays: [1, 2, 3, 4, 5],
+});
+
+export function RecurringSlotScheduleForm({
+  doctorId,
+  onSlotsCreated,
+  onCancel,
+}: RecurringSlotScheduleFormProps) {
+  const [weeksAhead, setWeeksAhead] = useState(4);
+  const [rules, setRules] = useState<RecurringSlotRule[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    const fetchSchedule = async () => {
+      setIsLoading(true);
+      const result = await DoctorSlotService.getRecurringSchedule(doctorId);
+      if (result.success && result.data) {
+        setWeeksAhead(result.data.weeks_ahead);
+        setRules(
+          result.data.recurring_slots.length > 0
+            ? result.data.recurring_slots
+            : [emptyRule()]
+        );
+      } else {
+        toast.error(result.error?.message || "Failed to load weekly schedule");
+        setRules([emptyRule()]);
+      }
+      setIsLoading(false);
+    };
+
+    fetchSchedule();
+  }, [doctorId]);
+
+  const validateRules = (): boolean => {
+    const newErrors: Record<string, string> = {};
+
+    if (weeksAhead < 1 || weeksAhead > MAX_RECURRING_WEEKS_AHEAD) {
+      newErrors.weeksAhead = `Must be between 1 and ${MAX_RECURRING_WEEKS_AHEAD} weeks`;
+    }
+
+    rules.forEach((rule, index) => {
+      const prefix = `rule_${index}`;
+
+      if (!rule.slot_name) {
+        newErrors[`${prefix}_name`] = "Slot name is required";
+      }
+      if (!rule.start_time) {
+        newErrors[`${prefix}_start`] = "Start time is required";
+      }
+      if (!rule.end_time) {
+        newErrors[`${prefix}_end`] = "End time is required";
+      }
+      if (rule.start_time && rule.end_time && rule.end_time <= rule.start_time) {
+        newErrors[`${prefix}_end`] = "End time must be after start time";
+      }
+      if (rule.max_capacity < 1 || rule.max_capacity > 50) {
+        newErrors[`${prefix}_capacity`] = "Capacity must be between 1 and 50";
+      }
+      if (rule.weekdays.length === 0) {
+        newErrors[`${prefix}_weekdays`] = "Select at least one day";
+      }
+    });
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleRuleChange = (
+    index: number,
+    field: keyof RecurringSlotRule,
+    value: string | number | number[]
+  ) => {
+    const newRules = [...rules];
+    newRules[index] = { ...newRules[index], [field]: value };
+    setRules(newRules);
+  };
+
+  const toggleWeekday = (index: number, weekday: number) => {
+    const weekdays = rules[index].weekdays;
+    handleRuleChange(
+      index,
+      "weekdays",
+      weekdays.includes(weekday)
+        ? weekdays.filter((day) => day !== weekday)
+        : [...weekdays, weekday]
+    );
+  };
+
+  const removeRule = (index: number) => {
+    setRules(rules.filter((_, i) => i !== index));
+    setErrors({});
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateRules()) {
+      toast.error("Please fix validation errors before saving the schedule");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const result = await DoctorSlotService.saveRecurringSchedule(doctorId, {
+        weeks_ahead: weeksAhead,
+        recurring_slots: rules,
+      });
+
+      if (!result.success) {
+        throw new Error(result.error?.message || "Failed to save weekly schedule");
+      }
+
+      toast.success(
+        `Weekly schedule saved. ${result.data?.length || 0} new slot(s) created for the next ${weeksAhead} week(s)`
+      );
+      onSlotsCreated(result.data || []);
+    } catch (error) {
+      console.error("Error saving weekly schedule:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to save weekly schedule"
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div className="bg-blue-50 border border-blue-200 rounded-lg p-3">
+        <p className="text-sm text-blue-800">
+          Slots are created automatically every night for the selected number
+          of weeks ahead. Dates that already have a slot with the same name, or
+          an overlapping slot, are skipped, so slots you edit or delete by hand
+          are left alone.
+        </p>
+      </div>
+
+      <div className="max-w-xs">
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Create slots ahead (weeks) *
+        </label>
+        <Input
+          type="number"
+          value={weeksAhead}
+          onChange={(e) => setWeeksAhead(parseInt(e.target.value) || 0)}
+          min="1"
+          max={MAX_RECURRING_WEEKS_AHEAD}
+          className={errors.weeksAhead ? "border-red-500" : ""}
+        />
+        {errors.weeksAhead && (
+          <p className="text-red-500 text-sm mt-1">{errors.weeksAhead}</p>
+        )}
+      </div>
+
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <label className="block text-sm font-medium text-gray-700">
+            Weekly Slots
+          </label>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => setRules([...rules, emptyRule()])}
+            className="flex items-center"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add Weekly Slot
+          </Button>
+        </div>
+
+        {rules.length === 0 && (
+          <p className="text-sm text-gray-500">
+            No weekly slots. Saving will stop creating new recurring slots;
+            slots that already exist are kept.
+          </p>
+        )}
+
+        {rules.map((rule, index) => (
+          <div key={index} className="border border-gray-200 rounded-lg p-4 space-y-4">
+            <div className="flex items-center justify-between">
+              <h4 className="text-sm font-medium text-gray-700 flex items-center">
+                <Repeat className="h-4 w-4 mr-2" />
+                Weekly Slot {index + 1}
+              </h4>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => removeRule(index)}
+                className="text-red-600 hover:text-red-800"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+
+            <div>
+              <div className="flex flex-wrap gap-2">
+                {WEEKDAYS.map((weekday) => (
+                  <button
+                    key={weekday.value}
+                    type="button"
+                    onClick={() => toggleWeekday(index, weekday.value)}
+                    className={`px-3 py-1 rounded-md text-sm border ${
+                      rule.weekdays.includes(weekday.value)
+                        ? "bg-blue-600 border-blue-600 text-white"
+                        : "bg-white border-gray-300 text-gray-700 hover:bg-gray-50"
+                    }`}
+                  >
+                    {weekday.label}
+                  </button>
+                ))}
+              </div>
+              {errors[`rule_${index}_weekdays`] && (
+                <p className="text-red-500 text-sm mt-1">{errors[`rule_${index}_weekdays`]}</p>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Slot Name *
+                </label>
+                <select
+                  value={rule.slot_name}
+                  onChange={(e) => handleRuleChange(index, "slot_name", e.target.value)}
+                  className={`w-full p-3 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 ${errors[`rule_${index}_name`] ? "border-red-500" : ""
+                    }`}
+                >
+                  <option value="">Select slot name</option>
+                  <option value="Morning">Morning</option>
+                  <option value="Afternoon">Afternoon</option>
+                  <option value="Evening">Evening</option>
+                </select>
+                {errors[`rule_${index}_name`] && (
+                  <p className="text-red-500 text-sm mt-1">{errors[`rule_${index}_name`]}</p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Slot Type *
+                </label>
+                <select
+                  value={rule.slot_type}
+                  onChange={(e) => handleRuleChange(index, "slot_type", e.target.value)}
+                  className="w-full p-3 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="in-clinic">In-Clinic Consultation</option>
+                  <option value="video">Video Consultation</option>
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Start Time *
+                </label>
+                <Input
+                  type="time"
+                  value={rule.start_time}
+                  onChange={(e) => handleRuleChange(index, "start_time", e.target.value)}
+                  className={errors[`rule_${index}_start`] ? "border-red-500" : ""}
+                />
+                {errors[`rule_${index}_start`] && (
+                  <p className="text-red-500 text-sm mt-1">{errors[`rule_${index}_start`]}</p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  End Time *
+                </label>
+                <Input
+                  type="time"
+                  value={rule.end_time}
+                  onChange={(e) => handleRuleChange(index, "end_time", e.target.value)}
+                  className={errors[`rule_${index}_end`] ? "border-red-500" : ""}
+                />
+                {errors[`rule_${index}_end`] && (
+                  <p className="text-red-500 text-sm mt-1">{errors[`rule_${index}_end`]}</p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Max Capacity *
+                </label>
+                <Input
+                  type="number"
+                  value={rule.max_capacity}
+                  onChange={(e) => handleRuleChange(index, "max_capacity", parseInt(e.target.value) || 0)}
+                  min="1"
+                  max="50"
+                  className={errors[`rule_${index}_capacity`] ? "border-red-500" : ""}
+                />
+                {errors[`rule_${index}_capacity`] && (
+                  <p className="text-red-500 text-sm mt-1">{errors[`rule_${index}_capacity`]}</p>
+                )}
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex justify-end space-x-3 pt-4">
+        <Button
+          type="button"
+          variant="outline"
+          onClick={onCancel}
+          disabled={isSaving}
+        >
+          Cancel
+        </Button>
+        <Button
+          type="submit"
+          disabled={isSaving}
+          className="bg-blue-600 hover:bg-blue-700"
+        >
+          {isSaving ? "Saving Schedule..." : "Save Weekly Schedule"}
+        </Button>
+      </div>
+    </form>
+  );
+}
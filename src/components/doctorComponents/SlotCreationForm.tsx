@@ -3,6 +3,7 @@ import { Button } from "../ui/Button";
 import { Input } from "../ui/Input";
 import { Card, CardContent, CardHeader, CardTitle } from "../ui/Card";
 import { DoctorSlotService, CreateSlotData } from "../../services/DoctorSlotService";
+import { RecurringSlotScheduleForm } from "./RecurringSlotScheduleForm";
 import { toast } from "sonner";
 import { Plus, Trash2, Clock } from "lucide-react";
 
@@ -25,6 +26,7 @@ export function SlotCreationForm({
   onSlotsCreated,
   onCancel,
 }: SlotCreationFormProps) {
+  const [mode, setMode] = useState<"dateRange" | "weekly">("dateRange");
   const [startDate, setStartDate] = useState("");
   const [endDate, setEndDate] = useState("");
   const [slots, setSlots] = useState<SlotFormData[]>([
@@ -237,231 +239,259 @@ export function SlotCreationForm({
         </CardTitle>
       </CardHeader>
       <CardContent>
-        <form onSubmit={handleSubmit} className="space-y-6">
-          {/* Date Range Selection */}
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Start Date *
-              </label>
-              <Input
-                type="date"
-                value={startDate}
-                onChange={(e) => {
-                  setStartDate(e.target.value);
-                  if (errors.startDate) {
-                    setErrors(prev => ({ ...prev, startDate: "" }));
-                  }
-                }}
-                min={today}
-                className={errors.startDate ? "border-red-500" : ""}
-              />
-              {errors.startDate && (
-                <p className="text-red-500 text-sm mt-1">{errors.startDate}</p>
-              )}
+        {/* Creation Mode */}
+        <div className="flex gap-2 mb-6">
+          <Button
+            type="button"
+            variant={mode === "dateRange" ? "primary" : "outline"}
+            size="sm"
+            onClick={() => setMode("dateRange")}
+          >
+            Date Range
+          </Button>
+          <Button
+            type="button"
+            variant={mode === "weekly" ? "primary" : "outline"}
+            size="sm"
+            onClick={() => setMode("weekly")}
+          >
+            Weekly Recurring
+          </Button>
+        </div>
+
+        {mode === "weekly" ? (
+          <RecurringSlotScheduleForm
+            doctorId={doctorId}
+            onSlotsCreated={onSlotsCreated}
+            onCancel={onCancel}
+          />
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-6">
+            {/* Date Range Selection */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Start Date *
+                </label>
+                <Input
+                  type="date"
+                  value={startDate}
+                  onChange={(e) => {
+                    setStartDate(e.target.value);
+                    if (errors.startDate) {
+                      setErrors(prev => ({ ...prev, startDate: "" }));
+                    }
+                  }}
+                  min={today}
+                  className={errors.startDate ? "border-red-500" : ""}
+                />
+                {errors.startDate && (
+                  <p className="text-red-500 text-sm mt-1">{errors.startDate}</p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  End Date *
+                </label>
+                <Input
+                  type="date"
+                  value={endDate}
+                  onChange={(e) => {
+                    setEndDate(e.target.value);
+                    if (errors.endDate) {
+                      setErrors(prev => ({ ...prev, endDate: "" }));
+                    }
+                  }}
+                  min={startDate || today}
+                  className={errors.endDate ? "border-red-500" : ""}
+                />
+                {errors.endDate && (
+                  <p className="text-red-500 text-sm mt-1">{errors.endDate}</p>
+                )}
+              </div>
             </div>
 
+            {/* Date Range Preview */}
+            {startDate && endDate && (
+              <div className="bg-blue-50 border border-blue-200 rounded-lg p-3">
+                <p className="text-sm text-blue-800">
+                  <strong>Preview:</strong> Slots will be created for{" "}
+                  {generateDateRange(startDate, endDate).length} day(s) from{" "}
+                  {new Date(startDate).toLocaleDateString()} to{" "}
+                  {new Date(endDate).toLocaleDateString()}
+                </p>
+                <p className="text-xs text-blue-600 mt-1">
+                  <strong>Note:</strong> If slots with the same name already exist for any date, they will be skipped.
+                </p>
+              </div>
+            )}
+
+            {/* Quick Capacity Selection */}
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                End Date *
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Quick Capacity Selection
               </label>
-              <Input
-                type="date"
-                value={endDate}
-                onChange={(e) => {
-                  setEndDate(e.target.value);
-                  if (errors.endDate) {
-                    setErrors(prev => ({ ...prev, endDate: "" }));
-                  }
-                }}
-                min={startDate || today}
-                className={errors.endDate ? "border-red-500" : ""}
-              />
-              {errors.endDate && (
-                <p className="text-red-500 text-sm mt-1">{errors.endDate}</p>
-              )}
-            </div>
-          </div>
-
-          {/* Date Range Preview */}
-          {startDate && endDate && (
-            <div className="bg-blue-50 border border-blue-200 rounded-lg p-3">
-              <p className="text-sm text-blue-800">
-                <strong>Preview:</strong> Slots will be created for{" "}
-                {generateDateRange(startDate, endDate).length} day(s) from{" "}
-                {new Date(startDate).toLocaleDateString()} to{" "}
-                {new Date(endDate).toLocaleDateString()}
-              </p>
-              <p className="text-xs text-blue-600 mt-1">
-                <strong>Note:</strong> If slots with the same name already exist for any date, they will be skipped.
-              </p>
+              <div className="flex gap-2">
+                {[5, 10, 15, 20].map(capacity => (
+                  <Button
+                    key={capacity}
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => quickCapacitySelect(capacity)}
+                    className="text-xs"
+                  >
+                    {capacity}
+                  </Button>
+                ))}
+              </div>
             </div>
-          )}
-
-          {/* Quick Capacity Selection */}
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Quick Capacity Selection
-            </label>
-            <div className="flex gap-2">
-              {[5, 10, 15, 20].map(capacity => (
+
+            {/* Slot Configuration */}
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <label className="block text-sm font-medium text-gray-700">
+                  Slot Configuration
+                </label>
                 <Button
-                  key={capacity}
                   type="button"
                   variant="outline"
                   size="sm"
-                  onClick={() => quickCapacitySelect(capacity)}
-                  className="text-xs"
+                  onClick={addSlot}
+                  className="flex items-center"
                 >
-                  {capacity}
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add Slot
                 </Button>
+              </div>
+
+              {slots.map((slot, index) => (
+                <div key={index} className="border border-gray-200 rounded-lg p-4 space-y-4">
+                  <div className="flex items-center justify-between">
+                    <h4 className="text-sm font-medium text-gray-700">
+                      Slot {index + 1}
+                    </h4>
+                    {slots.length > 1 && (
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => removeSlot(index)}
+                        className="text-red-600 hover:text-red-800"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Slot Name *
+                      </label>
+                      <select
+                        value={slot.slot_name}
+                        onChange={(e) => handleSlotChange(index, "slot_name", e.target.value)}
+                        className={`w-full p-3 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 ${errors[`slot_${index}_name`] ? "border-red-500" : ""
+                          }`}
+                      >
+                        <option value="">Select slot name</option>
+                        <option value="Morning">Morning</option>
+                        <option value="Afternoon">Afternoon</option>
+                        <option value="Evening">Evening</option>
+                      </select>
+                      {errors[`slot_${index}_name`] && (
+                        <p className="text-red-500 text-sm mt-1">{errors[`slot_${index}_name`]}</p>
+                      )}
+                    </div>
+
+                    {/* Slot Type Selector */}
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Slot Type *
+                      </label>
+                      <select
+                        value={slot.slot_type}
+                        onChange={(e) => handleSlotChange(index, "slot_type", e.target.value)}
+                        className="w-full p-3 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        <option value="in-clinic">In-Clinic Consultation</option>
+                        <option value="video">Video Consultation</option>
+                      </select>
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Start Time *
+                      </label>
+                      <Input
+                        type="time"
+                        value={slot.start_time}
+                        onChange={(e) => handleSlotChange(index, "start_time", e.target.value)}
+                        className={errors[`slot_${index}_start`] ? "border-red-500" : ""}
+                      />
+                      {errors[`slot_${index}_start`] && (
+                        <p className="text-red-500 text-sm mt-1">{errors[`slot_${index}_start`]}</p>
+                      )}
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        End Time *
+                      </label>
+                      <Input
+                        type="time"
+                        value={slot.end_time}
+                        onChange={(e) => handleSlotChange(index, "end_time", e.target.value)}
+                        className={errors[`slot_${index}_end`] ? "border-red-500" : ""}
+                      />
+                      {errors[`slot_${index}_end`] && (
+                        <p className="text-red-500 text-sm mt-1">{errors[`slot_${index}_end`]}</p>
+                      )}
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Max Capacity *
+                      </label>
+                      <Input
+                        type="number"
+                        value={slot.max_capacity}
+                        onChange={(e) => handleSlotChange(index, "max_capacity", parseInt(e.target.value) || 0)}
+                        min="1"
+                        max="50"
+                        className={errors[`slot_${index}_capacity`] ? "border-red-500" : ""}
+                      />
+                      {errors[`slot_${index}_capacity`] && (
+                        <p className="text-red-500 text-sm mt-1">{errors[`slot_${index}_capacity`]}</p>
+                      )}
+                    </div>
+                  </div>
+                </div>
               ))}
             </div>
-          </div>
 
-          {/* Slot Configuration */}
-          <div className="space-y-4">
-            <div className="flex items-center justify-between">
-              <label className="block text-sm font-medium text-gray-700">
-                Slot Configuration
-              </label>
+            {/* Form Actions */}
+            <div className="flex justify-end space-x-3 pt-4">
               <Button
                 type="button"
                 variant="outline"
-                size="sm"
-                onClick={addSlot}
-                className="flex items-center"
+                onClick={onCancel}
+                disabled={isLoading}
               >
-                <Plus className="h-4 w-4 mr-1" />
-                Add Slot
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={isLoading}
+                className="bg-blue-600 hover:bg-blue-700"
+              >
+                {isLoading ? "Creating Slots..." : "Create Slots"}
               </Button>
             </div>
-
-            {slots.map((slot, index) => (
-              <div key={index} className="border border-gray-200 rounded-lg p-4 space-y-4">
-                <div className="flex items-center justify-between">
-                  <h4 className="text-sm font-medium text-gray-700">
-                    Slot {index + 1}
-                  </h4>
-                  {slots.length > 1 && (
-                    <Button
-                      type="button"
-                      variant="outline"
-                      size="sm"
-                      onClick={() => removeSlot(index)}
-                      className="text-red-600 hover:text-red-800"
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
-                  )}
-                </div>
-
-                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">
-                      Slot Name *
-                    </label>
-                    <select
-                      value={slot.slot_name}
-                      onChange={(e) => handleSlotChange(index, "slot_name", e.target.value)}
-                      className={`w-full p-3 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 ${errors[`slot_${index}_name`] ? "border-red-500" : ""
-                        }`}
-                    >
-                      <option value="">Select slot name</option>
-                      <option value="Morning">Morning</option>
-                      <option value="Afternoon">Afternoon</option>
-                      <option value="Evening">Evening</option>
-                    </select>
-                    {errors[`slot_${index}_name`] && (
-                      <p className="text-red-500 text-sm mt-1">{errors[`slot_${index}_name`]}</p>
-                    )}
-                  </div>
-
-                  {/* Slot Type Selector */}
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">
-                      Slot Type *
-                    </label>
-                    <select
-                      value={slot.slot_type}
-                      onChange={(e) => handleSlotChange(index, "slot_type", e.target.value)}
-                      className="w-full p-3 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                    >
-                      <option value="in-clinic">In-Clinic Consultation</option>
-                      <option value="video">Video Consultation</option>
-                    </select>
-                  </div>
-
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">
-                      Start Time *
-                    </label>
-                    <Input
-                      type="time"
-                      value={slot.start_time}
-                      onChange={(e) => handleSlotChange(index, "start_time", e.target.value)}
-                      className={errors[`slot_${index}_start`] ? "border-red-500" : ""}
-                    />
-                    {errors[`slot_${index}_start`] && (
-                      <p className="text-red-500 text-sm mt-1">{errors[`slot_${index}_start`]}</p>
-                    )}
-                  </div>
-
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">
-                      End Time *
-                    </label>
-                    <Input
-                      type="time"
-                      value={slot.end_time}
-                      onChange={(e) => handleSlotChange(index, "end_time", e.target.value)}
-                      className={errors[`slot_${index}_end`] ? "border-red-500" : ""}
-                    />
-                    {errors[`slot_${index}_end`] && (
-                      <p className="text-red-500 text-sm mt-1">{errors[`slot_${index}_end`]}</p>
-                    )}
-                  </div>
-
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">
-                      Max Capacity *
-                    </label>
-                    <Input
-                      type="number"
-                      value={slot.max_capacity}
-                      onChange={(e) => handleSlotChange(index, "max_capacity", parseInt(e.target.value) || 0)}
-                      min="1"
-                      max="50"
-                      className={errors[`slot_${index}_capacity`] ? "border-red-500" : ""}
-                    />
-                    {errors[`slot_${index}_capacity`] && (
-                      <p className="text-red-500 text-sm mt-1">{errors[`slot_${index}_capacity`]}</p>
-                    )}
-                  </div>
-                </div>
-              </div>
-            ))}
-          </div>
-
-          {/* Form Actions */}
-          <div className="flex justify-end space-x-3 pt-4">
-            <Button
-              type="button"
-              variant="outline"
-              onClick={onCancel}
-              disabled={isLoading}
-            >
-              Cancel
-            </Button>
-            <Button
-              type="submit"
-              disabled={isLoading}
-              className="bg-blue-600 hover:bg-blue-700"
-            >
-              {isLoading ? "Creating Slots..." : "Create Slots"}
-            </Button>
-          </div>
-        </form>
+          </form>
+        )}
       </CardContent>
     </Card>
   );
@@ -17,6 +17,8 @@ interface SlotSelectorProps {
   onSlotSelect: (slot: AvailableSlot) => void;
   selectedSlot?: string;
   disabled?: boolean;
+  // When set, full slots stay clickable and add the patient to the waitlist
+  onJoinWaitlist?: (slot: AvailableSlot) => void;
 }
 
 export function SlotSelector({
@@ -25,6 +27,7 @@ export function SlotSelector({
   onSlotSelect,
   selectedSlot,
   disabled = false,
+  onJoinWaitlist,
 }: SlotSelectorProps) {
   const [slots, setSlots] = useState<AvailableSlot[]>([]);
   const [loading, setLoading] = useState(true);
@@ -151,25 +154,36 @@ export function SlotSelector({
         <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
           {slotsGroup.map((slot) => {
             const isSelected = selectedSlot === slot.id;
-            const isDisabled = disabled || slot.is_full;
+            const canJoinWaitlist = !disabled && slot.is_full && !!onJoinWaitlist;
+            const isDisabled = (disabled || slot.is_full) && !canJoinWaitlist;
             const isNearlyFull = slot.available_capacity <= 2 && !slot.is_full;
 
             return (
               <button
                 key={slot.id}
                 type="button"
-                onClick={() => !isDisabled && handleSlotSelect(slot)}
+                onClick={() =>
+                  canJoinWaitlist
+                    ? onJoinWaitlist(slot)
+                    : !isDisabled && handleSlotSelect(slot)
+                }
                 disabled={isDisabled}
+                title={canJoinWaitlist ? "Slot is full - join the waitlist" : undefined}
                 className={`py-2.5 px-2 rounded-lg text-sm font-medium transition-all border ${isSelected
                   ? "bg-blue-600 text-white border-blue-600 shadow-md ring-2 ring-blue-100"
-                  : isDisabled
-                    ? "bg-gray-100 text-gray-400 border-gray-200 cursor-not-allowed"
-                    : isNearlyFull
-                      ? "bg-amber-50 text-amber-700 border-amber-200 hover:border-amber-300"
-                      : "bg-white text-gray-700 border-gray-200 hover:border-blue-300 hover:bg-blue-50"
+                  : canJoinWaitlist
+                    ? "bg-gray-100 text-gray-500 border-dashed border-gray-300 hover:border-purple-300 hover:text-purple-700"
+                    : isDisabled
+                      ? "bg-gray-100 text-gray-400 border-gray-200 cursor-not-allowed"
+                      : isNearlyFull
+                        ? "bg-amber-50 text-amber-700 border-amber-200 hover:border-amber-300"
+                        : "bg-white text-gray-700 border-gray-200 hover:border-blue-300 hover:bg-blue-50"
                   }`}
               >
                 {formatTime(slot.start_time)}
+                {canJoinWaitlist && (
+                  <span className="block text-[10px] font-normal">Waitlist</span>
+                )}
               </button>
             );
           })}
@@ -0,0 +1,150 @@
+/**
+ * Slot Waitlist Modal
+ * Patients waiting for a full slot. Offered patients hold a seat until their
+ * hold expires; staff book it here once the patient confirms.
+ */
+import { useEffect, useState } from "react";
+import { X, Loader2, Clock, CheckCircle, Trash2 } from "lucide-react";
+import { Button } from "../ui/Button";
+import { SlotWaitlistService } from "../../services/SlotWaitlistService";
+import type { SlotWaitlistEntry } from "../../types/database";
+import { convertUTCToISTTime24 } from "../../utils/timezoneUtils";
+import { toast } from "sonner";
+
+interface SlotWaitlistModalProps {
+  slot: {
+    id: string;
+    slot_name: string;
+    slot_date: string;
+    current_bookings: number;
+    max_capacity: number;
+  };
+  onClose: () => void;
+  onBooked?: () => void;
+}
+
+export function SlotWaitlistModal({ slot, onClose, onBooked }: SlotWaitlistModalProps) {
+  const [entries, setEntries] = useState<SlotWaitlistEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [actionId, setActionId] = useState<string | null>(null);
+
+  const fetchWaitlist = async () => {
+    setLoading(true);
+    const result = await SlotWaitlistService.getSlotWaitlist(slot.id);
+    if (result.success) {
+      setEntries(result.data || []);
+    } else {
+      toast.error(result.error?.message || "Failed to load waitlist");
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    fetchWaitlist();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [slot.id]);
+
+  const handleBook = async (entry: SlotWaitlistEntry) => {
+    setActionId(entry.id);
+    const result = await SlotWaitlistService.acceptOffer(entry.id);
+    if (result.success) {
+      toast.success(
+        `Appointment booked for ${entry.clinic_patient?.patient_profile?.full_name || "patient"}`
+      );
+      onBooked?.();
+    } else {
+      toast.error(result.error?.message || "Failed to book appointment");
+    }
+    setActionId(null);
+    fetchWaitlist();
+  };
+
+  const handleRemove = async (entry: SlotWaitlistEntry) => {
+    if (!confirm("Remove this patient from the waitlist?")) return;
+
+    setActionId(entry.id);
+    const result = await SlotWaitlistService.removeFromWaitlist(entry);
+    if (result.success) {
+      toast.success("Removed from waitlist");
+    } else {
+      toast.error(result.error?.message || "Failed to remove from waitlist");
+    }
+    setActionId(null);
+    fetchWaitlist();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Waitlist</h2>
+            <p className="text-sm text-gray-500">
+              {slot.slot_name} on {slot.slot_date} · {slot.current_bookings}/
+              {slot.max_capacity} booked
+            </p>
+          </div>
+          <button onClick={onClose} className="p-1 hover:bg-gray-100 rounded">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-blue-600" />
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-8">
+            No patients are waiting for this slot.
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {entries.map((entry, index) => {
+              const patient = entry.clinic_patient?.patient_profile;
+              const isOffered = entry.status === "offered";
+
+              return (
+                <li key={entry.id} className="py-3 flex items-center justify-between">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">
+                      {index + 1}. {patient?.full_name || "Patient"}
+                    </p>
+                    <p className="text-xs text-gray-500">{patient?.phone || "No phone"}</p>
+                    {isOffered && entry.hold_expires_at && (
+                      <p className="text-xs text-purple-700 flex items-center mt-1">
+                        <Clock className="h-3 w-3 mr-1" />
+                        Seat held until {convertUTCToISTTime24(entry.hold_expires_at)}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    {isOffered && (
+                      <Button
+                        size="sm"
+                        onClick={() => handleBook(entry)}
+                        disabled={actionId === entry.id}
+                        className="bg-green-600 hover:bg-green-700"
+                      >
+                        <CheckCircle className="h-4 w-4 mr-1" />
+                        Book
+                      </Button>
+                    )}
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleRemove(entry)}
+                      disabled={actionId === entry.id}
+                      className="text-red-600 hover:text-red-800"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
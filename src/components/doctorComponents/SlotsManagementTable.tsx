@@ -3,7 +3,7 @@ import { Button } from "../ui/Button";
 import { Input } from "../ui/Input";
 import { Select } from "../ui/Select";
 import { Card, CardContent, CardHeader, CardTitle } from "../ui/Card";
-import { DoctorSlotService } from "../../services/DoctorSlotService";
+import { DoctorSlotService, type DoctorSlot } from "../../services/DoctorSlotService";
 import { toast } from "sonner";
 import {
   Calendar,
@@ -15,9 +15,11 @@ import {
   Clock,
   Users,
   Building2,
-  Video
+  Video,
+  ListOrdered
 } from "lucide-react";
 import { format } from "date-fns";
+import { SlotWaitlistModal } from "./SlotWaitlistModal";
 
 // Helper function to format time to 12-hour format
 const formatTimeWithoutSeconds = (timeString: string): string => {
@@ -50,6 +52,7 @@ export function SlotsManagementTable({
   const [total, setTotal] = useState(0);
   const [selectedSlots, setSelectedSlots] = useState<string[]>([]);
   const [editingSlot, setEditingSlot] = useState<string | null>(null);
+  const [waitlistSlot, setWaitlistSlot] = useState<DoctorSlot | null>(null);
   const [editForm, setEditForm] = useState({
     slot_name: "",
     max_capacity: 0,
@@ -538,6 +541,14 @@ export function SlotsManagementTable({
                           >
                             <Edit2 className="h-4 w-4" />
                           </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setWaitlistSlot(slot)}
+                            title="Waitlist"
+                          >
+                            <ListOrdered className="h-4 w-4" />
+                          </Button>
                           <Button
                             size="sm"
                             variant="outline"
@@ -574,6 +585,17 @@ export function SlotsManagementTable({
           </div>
         )}
       </CardContent>
+
+      {waitlistSlot && (
+        <SlotWaitlistModal
+          slot={waitlistSlot}
+          onClose={() => setWaitlistSlot(null)}
+          onBooked={() => {
+            fetchSlots();
+            onRefresh?.();
+          }}
+        />
+      )}
     </Card>
   );
 }
@@ -0,0 +1,118 @@
+import { Input } from "../ui/Input";
+import { Select } from "../ui/Select";
+import { PatientLanguage } from "../../constants";
+import type { PatientCommunicationPreferences } from "../../services/PatientProfileService";
+import { patientLanguageLabel } from "../../utils/communicationPreferences";
+
+interface CommunicationPreferencesFormProps {
+  value: PatientCommunicationPreferences;
+  onChange: (value: PatientCommunicationPreferences) => void;
+  disabled?: boolean;
+}
+
+const CHANNELS: {
+  key: "whatsapp_consent" | "sms_consent" | "email_consent";
+  label: string;
+}[] = [
+  { key: "whatsapp_consent", label: "WhatsApp messages" },
+  { key: "sms_consent", label: "SMS messages" },
+  { key: "email_consent", label: "Email messages" },
+];
+
+// The supported languages, plus the patient's stored one if it has no templates
+const languageOptions = (current: string) => {
+  const languages: string[] = Object.values(PatientLanguage);
+  return (languages.includes(current) ? languages : [...languages, current]).map(
+    (language) => ({ value: language, label: patientLanguageLabel(language) })
+  );
+};
+
+export function CommunicationPreferencesForm({
+  value,
+  onChange,
+  disabled,
+}: CommunicationPreferencesFormProps) {
+  const checkboxClassName =
+    "rounded border-gray-300 text-blue-600 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200 focus:ring-opacity-50";
+
+  return (
+    <div className="space-y-4">
+      <Select
+        label="Preferred Language"
+        value={value.preferred_language}
+        onChange={(e) =>
+          onChange({ ...value, preferred_language: e.target.value })
+        }
+        disabled={disabled}
+        options={languageOptions(value.preferred_language)}
+      />
+
+      <div>
+        <p className="text-sm font-medium text-gray-700 mb-2">
+          Patient agrees to receive
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          {CHANNELS.map((channel) => (
+            <label key={channel.key} className="flex items-center">
+              <input
+                type="checkbox"
+                checked={value[channel.key]}
+                onChange={(e) =>
+                  onChange({ ...value, [channel.key]: e.target.checked })
+                }
+                disabled={disabled}
+                className={checkboxClassName}
+              />
+              <span className="ml-2 text-sm text-gray-700">
+                {channel.label}
+              </span>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <label className="flex items-center">
+        <input
+          type="checkbox"
+          checked={!value.reminders_opt_out}
+          onChange={(e) =>
+            onChange({ ...value, reminders_opt_out: !e.target.checked })
+          }
+          disabled={disabled}
+          className={checkboxClassName}
+        />
+        <span className="ml-2 text-sm text-gray-700">
+          Send automated appointment reminders
+        </span>
+      </label>
+
+      <div>
+        <p className="text-sm font-medium text-gray-700">Quiet hours (IST)</p>
+        <p className="text-xs text-gray-500 mb-2">
+          WhatsApp messages are held and SMS is not sent during this window.
+          Leave empty for none.
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <Input
+            label="From"
+            type="time"
+            value={value.quiet_hours_start ?? ""}
+            onChange={(e) =>
+              onChange({ ...value, quiet_hours_start: e.target.value || null })
+            }
+            disabled={disabled}
+          />
+          <Input
+            label="Until"
+            type="time"
+            value={value.quiet_hours_end ?? ""}
+            onChange={(e) =>
+              onChange({ ...value, quiet_hours_end: e.target.value || null })
+            }
+            disabled={disabled}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+/**
+ * Duplicate Patients Modal
+ * Lists likely duplicate patients (same phone or email, same date of birth
+ * with a similar name, or a very similar name). Staff pick the record to keep
+ * and the other one is merged into it.
+ */
+import { useEffect, useState } from "react";
+import { GitMerge, UserCheck } from "lucide-react";
+import { toast } from "sonner";
+import { format, parseISO } from "date-fns";
+import { Modal } from "../ui/Modal";
+import { Button } from "../ui/Button";
+import { Badge } from "../ui/Badge";
+import {
+  PatientMergeService,
+  type DuplicateCandidate,
+  type DuplicateMatchReason,
+  type DuplicatePatientPair,
+} from "../../services";
+
+interface DuplicatePatientsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onMerged?: () => void;
+}
+
+const REASON_LABELS: Record<DuplicateMatchReason, string> = {
+  phone: "Same phone",
+  email: "Same email",
+  date_of_birth: "Same date of birth",
+  name: "Similar name",
+};
+
+interface PendingMerge {
+  survivor: DuplicateCandidate;
+  duplicate: DuplicateCandidate;
+}
+
+export function DuplicatePatientsModal({ isOpen, onClose, onMerged }: DuplicatePatientsModalProps) {
+  const [pairs, setPairs] = useState<DuplicatePatientPair[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [pending, setPending] = useState<PendingMerge | null>(null);
+  const [merging, setMerging] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const fetchDuplicates = async () => {
+      setLoading(true);
+      const result = await PatientMergeService.findDuplicates();
+      if (result.success) {
+        setPairs(result.data || []);
+      } else {
+        toast.error(result.error?.message || "Failed to find duplicate patients");
+      }
+      setLoading(false);
+    };
+
+    setPending(null);
+    fetchDuplicates();
+  }, [isOpen]);
+
+  const handleClose = () => {
+    if (merging) return;
+    onClose();
+  };
+
+  const handleMerge = async () => {
+    if (!pending) return;
+
+    setMerging(true);
+    const result = await PatientMergeService.mergePatients(
+      pending.survivor.id,
+      pending.duplicate.id
+    );
+    setMerging(false);
+
+    if (!result.success || !result.data) {
+      toast.error(result.error?.message || "Failed to merge patients");
+      return;
+    }
+
+    const { appointments, bills, survivorProfileUpdated } = result.data;
+    toast.success(
+      `Merged into ${pending.survivor.full_name}: ${appointments} appointment${
+        appointments === 1 ? "" : "s"
+      } and ${bills} bill${bills === 1 ? "" : "s"} moved${
+        survivorProfileUpdated ? "" : ". The shared patient profile was left unchanged"
+      }`
+    );
+
+    // The duplicate no longer exists in this clinic
+    setPairs(
+      pairs.filter((pair) => !pair.patients.some((p) => p.id === pending.duplicate.id))
+    );
+    setPending(null);
+    onMerged?.();
+  };
+
+  const renderPatient = (patient: DuplicateCandidate, other: DuplicateCandidate) => (
+    <div className="flex-1 border rounded-lg p-4 space-y-1 text-sm">
+      <div className="flex items-center gap-2">
+        <p className="font-medium text-gray-900">{patient.full_name}</p>
+        {patient.has_account && <Badge variant="secondary">App account</Badge>}
+      </div>
+      <p className="text-gray-600">{patient.phone || "No phone"}</p>
+      <p className="text-gray-600">{patient.email || "No email"}</p>
+      <p className="text-gray-600">
+        DOB:{" "}
+        {patient.date_of_birth
+          ? format(parseISO(patient.date_of_birth), "MMM d, yyyy")
+          : "Not set"}
+        {patient.gender && ` · ${patient.gender}`}
+      </p>
+      <p className="text-gray-500 text-xs">
+        {patient.appointment_count} appointment{patient.appointment_count === 1 ? "" : "s"}
+        {patient.last_visit_date &&
+          ` · last visit ${format(parseISO(patient.last_visit_date), "MMM d, yyyy")}`}
+        {` · added ${format(new Date(patient.created_at), "MMM d, yyyy")}`}
+      </p>
+      <div className="pt-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setPending({ survivor: patient, duplicate: other })}
+        >
+          <UserCheck className="h-4 w-4 mr-2" />
+          Keep this record
+        </Button>
+      </div>
+    </div>
+  );
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title="Duplicate Patients" size="xl">
+      <div className="p-6 space-y-4">
+        {pending ? (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-700">
+              Merge <span className="font-medium">{pending.duplicate.full_name}</span> (
+              {pending.duplicate.phone || pending.duplicate.email}) into{" "}
+              <span className="font-medium">{pending.survivor.full_name}</span> (
+              {pending.survivor.phone || pending.survivor.email})?
+            </p>
+            <ul className="list-disc pl-5 text-sm text-gray-600 space-y-1">
+              <li>
+                {pending.duplicate.appointment_count} appointment
+                {pending.duplicate.appointment_count === 1 ? "" : "s"}, bills, waitlist
+                entries, reschedule requests and message history move to the kept record.
+              </li>
+              <li>
+                Missing details on the kept record (date of birth, address, medical
+                history) are filled from the duplicate, unless either record is shared with
+                another clinic or the kept one has a patient app account. Its phone and email
+                are not changed.
+              </li>
+              <li>
+                {pending.duplicate.has_account
+                  ? "The duplicate has a patient app account, so its profile is kept but removed from this clinic."
+                  : "The duplicate is removed from this clinic, and deleted if no other clinic uses it."}
+              </li>
+              <li>The merge is recorded in the audit log and cannot be undone here.</li>
+            </ul>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setPending(null)} disabled={merging}>
+                Back
+              </Button>
+              <Button onClick={handleMerge} disabled={merging}>
+                <GitMerge className="h-4 w-4 mr-2" />
+                {merging ? "Merging..." : "Merge patients"}
+              </Button>
+            </div>
+          </div>
+        ) : loading ? (
+          <div className="flex items-center justify-center py-10">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : pairs.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-8">
+            No likely duplicates found.
+          </p>
+        ) : (
+          <div className="space-y-4 max-h-[65vh] overflow-y-auto pr-1">
+            <p className="text-sm text-gray-600">
+              {pairs.length} possible duplicate{pairs.length === 1 ? "" : "s"}. Choose the
+              record to keep; the other is merged into it.
+            </p>
+            {pairs.map((pair) => (
+              <div
+                key={`${pair.patients[0].id}-${pair.patients[1].id}`}
+                className="border rounded-lg p-4 space-y-3 bg-gray-50"
+              >
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant={pair.score >= 0.8 ? "destructive" : "warning"}>
+                    {Math.round(pair.score * 100)}% match
+                  </Badge>
+                  {pair.reasons.map((reason) => (
+                    <Badge key={reason} variant="outline">
+                      {REASON_LABELS[reason] || reason}
+                    </Badge>
+                  ))}
+                </div>
+                <div className="flex flex-col md:flex-row gap-3 bg-white">
+                  {renderPatient(pair.patients[0], pair.patients[1])}
+                  {renderPatient(pair.patients[1], pair.patients[0])}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+}
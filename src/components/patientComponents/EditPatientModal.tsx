@@ -1,15 +1,21 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import React, { useState, useEffect } from "react";
-import { AlertTriangle, Heart, Pill, FileText } from "lucide-react";
+import { AlertTriangle, Heart, Pill, FileText, MessageSquare } from "lucide-react";
 import { toast } from "sonner";
 import { FormModal } from "../ui/FormModal";
 import { Input } from "../ui/Input";
 import { Select } from "../ui/Select";
 import { AddressForm } from "../shared/AddressForm";
+import { CommunicationPreferencesForm } from "./CommunicationPreferencesForm";
+import {
+  getCommunicationPreferences,
+  validateQuietHours,
+} from "../../utils/communicationPreferences";
 import {
   PatientProfileService,
   type UpdatePatientProfileData,
   type PatientProfileWithClinic,
+  type PatientCommunicationPreferences,
 } from "../../services/PatientProfileService";
 import { useAuth } from "../../hooks/useAuth";
 import { useFormValidation } from "../../hooks/useFormValidation";
@@ -47,6 +53,9 @@ export function EditPatientModal({
     primary_address: {},
   });
   
+  const [preferences, setPreferences] = useState<PatientCommunicationPreferences>(
+    getCommunicationPreferences(null)
+  );
   const [loading, setLoading] = useState(false);
   const { user } = useAuth();
   
@@ -54,6 +63,8 @@ export function EditPatientModal({
   const { errors, validate, validateField, clearErrors } = useFormValidation(patientFormSchema);
 
   useEffect(() => {
+    setPreferences(getCommunicationPreferences(patient));
+
     if (patient) {
       // Helper function to extract emergency contact as string
       const getEmergencyContact = () => {
@@ -141,6 +152,13 @@ export function EditPatientModal({
         return;
       }
 
+      const quietHoursError = validateQuietHours(preferences);
+      if (quietHoursError) {
+        toast.error(quietHoursError);
+        setLoading(false);
+        return;
+      }
+
       const updateData: UpdatePatientProfileData = {
         full_name: formData.full_name,
         phone: formData.phone,
@@ -157,6 +175,7 @@ export function EditPatientModal({
         family_history: formData.family_history || undefined,
         blood_group: formData.blood_group || undefined,
         aadhar_number: formData.aadhar_number || undefined,
+        ...preferences,
       };
 
       const result = await PatientProfileService.updatePatientProfile(patient.id, updateData);
@@ -331,6 +350,21 @@ export function EditPatientModal({
         </div>
       </div>
 
+      {/* Communication Preferences */}
+      <div className="space-y-3 border-t pt-6">
+        <div className="flex items-center pb-2">
+          <MessageSquare className="h-5 w-5 text-blue-500 mr-2" />
+          <h3 className="text-lg font-semibold text-gray-900">
+            Communication Preferences
+          </h3>
+        </div>
+        <CommunicationPreferencesForm
+          value={preferences}
+          onChange={setPreferences}
+          disabled={loading}
+        />
+      </div>
+
       {/* Medical History (accordion sections) */}
       <div className="space-y-3 border-t pt-6">
         <div className="flex items-center pb-2">
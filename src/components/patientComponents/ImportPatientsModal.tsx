@@ -0,0 +1,289 @@
+/**
+ * Import Patients Modal
+ * Upload a CSV or Excel sheet, map its columns, preview the outcome of every
+ * row (dry run) and import. Rows that are not imported can be downloaded as
+ * an error report.
+ */
+import { useState } from "react";
+import { Download, FileSpreadsheet, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { Modal } from "../ui/Modal";
+import { Button } from "../ui/Button";
+import { Select } from "../ui/Select";
+import { Badge } from "../ui/Badge";
+import {
+  PatientImportService,
+  type PatientImportOutcome,
+  type PatientImportResult,
+} from "../../services";
+import {
+  PATIENT_IMPORT_FIELDS,
+  downloadImportErrorReport,
+  guessColumnMapping,
+  parsePatientFile,
+  validatePatientRows,
+  type ParsedSheet,
+  type PatientColumnMapping,
+} from "../../utils/patientImport";
+
+interface ImportPatientsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess?: () => void;
+}
+
+type ImportStep = "upload" | "map" | "preview" | "done";
+
+const OUTCOME_LABELS: Record<
+  PatientImportOutcome,
+  { preview: string; done: string; variant: "success" | "default" | "secondary" | "warning" | "destructive" }
+> = {
+  create: { preview: "New", done: "Created", variant: "success" },
+  link: { preview: "Link existing", done: "Linked", variant: "default" },
+  existing: { preview: "Already a patient", done: "Skipped", variant: "secondary" },
+  duplicate: { preview: "Duplicate in file", done: "Skipped", variant: "warning" },
+  invalid: { preview: "Invalid", done: "Invalid", variant: "destructive" },
+  failed: { preview: "Failed", done: "Failed", variant: "destructive" },
+};
+
+// Outcomes that belong in the error report
+const NOT_IMPORTED: PatientImportOutcome[] = ["duplicate", "invalid", "failed"];
+
+// Only the first rows are listed; counts and the error report cover all of them
+const PREVIEW_LIMIT = 200;
+
+export function ImportPatientsModal({ isOpen, onClose, onSuccess }: ImportPatientsModalProps) {
+  const [step, setStep] = useState<ImportStep>("upload");
+  const [fileName, setFileName] = useState("");
+  const [sheet, setSheet] = useState<ParsedSheet | null>(null);
+  const [mapping, setMapping] = useState<PatientColumnMapping>({});
+  const [result, setResult] = useState<PatientImportResult | null>(null);
+  const [working, setWorking] = useState(false);
+
+  const reset = () => {
+    setStep("upload");
+    setFileName("");
+    setSheet(null);
+    setMapping({});
+    setResult(null);
+  };
+
+  const handleClose = () => {
+    if (working) return;
+    reset();
+    onClose();
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setWorking(true);
+    try {
+      const parsed = await parsePatientFile(file);
+      setFileName(file.name);
+      setSheet(parsed);
+      setMapping(guessColumnMapping(parsed.headers));
+      setStep("map");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Could not read the file");
+    }
+    setWorking(false);
+  };
+
+  const runImport = async (dryRun: boolean) => {
+    if (!sheet) return;
+
+    setWorking(true);
+    const response = await PatientImportService.importPatients(
+      validatePatientRows(sheet, mapping),
+      { dryRun }
+    );
+    setWorking(false);
+
+    if (!response.success || !response.data) {
+      toast.error(response.error?.message || "Failed to import patients");
+      return;
+    }
+
+    setResult(response.data);
+    setStep(dryRun ? "preview" : "done");
+
+    if (!dryRun) {
+      const imported = response.data.counts.create + response.data.counts.link;
+      toast.success(`${imported} patient${imported === 1 ? "" : "s"} imported`);
+      if (imported > 0) onSuccess?.();
+    }
+  };
+
+  const missingRequired = PATIENT_IMPORT_FIELDS.filter(
+    (field) => field.required && !mapping[field.field]
+  );
+
+  const notImported = result?.rows.filter((row) => NOT_IMPORTED.includes(row.outcome)) ?? [];
+  const toImport = result ? result.counts.create + result.counts.link : 0;
+
+  const headerOptions = [
+    { value: "", label: "Not in file" },
+    ...(sheet?.headers.map((header) => ({ value: header, label: header })) ?? []),
+  ];
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title="Import Patients" size="xl">
+      <div className="p-6 space-y-6">
+        {step === "upload" && (
+          <div className="space-y-4">
+            <label className="flex flex-col items-center justify-center border-2 border-dashed border-gray-300 rounded-lg py-10 cursor-pointer hover:border-blue-400">
+              <FileSpreadsheet className="h-10 w-10 text-gray-400 mb-2" />
+              <span className="text-sm font-medium text-gray-700">
+                {working ? "Reading file..." : "Choose a CSV or Excel file"}
+              </span>
+              <span className="text-xs text-gray-500 mt-1">
+                First row must be column headers. Up to 2000 patients per file.
+              </span>
+              <input
+                type="file"
+                accept=".csv,.xlsx,.xls"
+                className="hidden"
+                onChange={handleFileChange}
+                disabled={working}
+              />
+            </label>
+            <p className="text-sm text-gray-500">
+              Full name and phone are required. Dates can be YYYY-MM-DD or
+              DD/MM/YYYY. Separate multiple allergies, conditions or medications
+              with semicolons. Patients already registered with the same phone
+              or email are linked to your clinic instead of being duplicated.
+            </p>
+          </div>
+        )}
+
+        {step === "map" && sheet && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              {fileName}: {sheet.rows.length} rows. Match each patient field to a
+              column in the file.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 max-h-[50vh] overflow-y-auto pr-1">
+              {PATIENT_IMPORT_FIELDS.map(({ field, label, required }) => (
+                <Select
+                  key={field}
+                  label={label}
+                  required={required}
+                  value={mapping[field] || ""}
+                  onChange={(e) =>
+                    setMapping({
+                      ...mapping,
+                      [field]: e.target.value || undefined,
+                    })
+                  }
+                  options={headerOptions}
+                />
+              ))}
+            </div>
+            {missingRequired.length > 0 && (
+              <p className="text-sm text-red-600">
+                Map {missingRequired.map((field) => field.label).join(" and ")} to continue
+              </p>
+            )}
+            <div className="flex justify-between">
+              <Button variant="outline" onClick={reset} disabled={working}>
+                Choose another file
+              </Button>
+              <Button
+                onClick={() => runImport(true)}
+                disabled={working || missingRequired.length > 0}
+              >
+                {working ? "Checking..." : "Preview import"}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {(step === "preview" || step === "done") && result && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(OUTCOME_LABELS) as PatientImportOutcome[])
+                .filter((outcome) => result.counts[outcome] > 0)
+                .map((outcome) => (
+                  <Badge key={outcome} variant={OUTCOME_LABELS[outcome].variant}>
+                    {step === "preview"
+                      ? OUTCOME_LABELS[outcome].preview
+                      : OUTCOME_LABELS[outcome].done}
+                    : {result.counts[outcome]}
+                  </Badge>
+                ))}
+            </div>
+
+            <div className="overflow-x-auto max-h-[45vh] overflow-y-auto border rounded-lg">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50 sticky top-0">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-medium text-gray-600">Row</th>
+                    <th className="px-3 py-2 text-left font-medium text-gray-600">Name</th>
+                    <th className="px-3 py-2 text-left font-medium text-gray-600">Phone</th>
+                    <th className="px-3 py-2 text-left font-medium text-gray-600">Outcome</th>
+                    <th className="px-3 py-2 text-left font-medium text-gray-600">Details</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {result.rows.slice(0, PREVIEW_LIMIT).map((row) => (
+                    <tr key={row.rowNumber}>
+                      <td className="px-3 py-2 text-gray-500">{row.rowNumber}</td>
+                      <td className="px-3 py-2 text-gray-900">{row.fullName || "—"}</td>
+                      <td className="px-3 py-2">{row.phone || "—"}</td>
+                      <td className="px-3 py-2">
+                        <Badge variant={OUTCOME_LABELS[row.outcome].variant}>
+                          {step === "preview"
+                            ? OUTCOME_LABELS[row.outcome].preview
+                            : OUTCOME_LABELS[row.outcome].done}
+                        </Badge>
+                      </td>
+                      <td className="px-3 py-2 text-gray-600">{row.message}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {result.rows.length > PREVIEW_LIMIT && (
+              <p className="text-xs text-gray-500">
+                Showing the first {PREVIEW_LIMIT} of {result.rows.length} rows
+              </p>
+            )}
+
+            <div className="flex flex-wrap justify-between gap-2">
+              <Button
+                variant="outline"
+                onClick={() =>
+                  downloadImportErrorReport(
+                    sheet?.headers ?? [],
+                    notImported,
+                    `${fileName.replace(/\.[^.]+$/, "")}-errors.csv`
+                  )
+                }
+                disabled={notImported.length === 0}
+              >
+                <Download className="h-4 w-4 mr-2" />
+                Error report ({notImported.length})
+              </Button>
+              {step === "preview" ? (
+                <div className="flex gap-2">
+                  <Button variant="outline" onClick={() => setStep("map")} disabled={working}>
+                    Back
+                  </Button>
+                  <Button onClick={() => runImport(false)} disabled={working || toImport === 0}>
+                    <Upload className="h-4 w-4 mr-2" />
+                    {working ? "Importing..." : `Import ${toImport} patients`}
+                  </Button>
+                </div>
+              ) : (
+                <Button onClick={handleClose}>Done</Button>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+}
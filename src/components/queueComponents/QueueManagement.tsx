@@ -100,7 +100,7 @@ export function QueueManagement({ doctorId, selectedDate }: Props) {
 
       if (error) throw error;
 
-      setAppointments(data || []);
+      setAppointments((data || []) as QueueAppointment[]);
     } catch (error) {
       console.error("Error fetching queue:", error);
     } finally {
@@ -157,23 +157,23 @@ export function QueueManagement({ doctorId, selectedDate }: Props) {
       await fetchQueue();
     } catch (error) {
       console.error("Error updating appointment:", error);
-      alert("Error updating appointment status");
+      alert(
+        error instanceof Error && error.message
+          ? error.message
+          : "Error updating appointment status"
+      );
     } finally {
       setActionLoading(null);
     }
   };
 
+  // Check-in and start times are stamped by the database
   const checkInPatient = (appointment: QueueAppointment) => {
-    updateAppointmentStatus(appointment.id, AppointmentStatus.CHECKED_IN, {
-      patient_checked_in: true,
-      checked_in_at: new Date().toISOString(),
-    });
+    updateAppointmentStatus(appointment.id, AppointmentStatus.CHECKED_IN);
   };
 
   const startAppointment = (appointment: QueueAppointment) => {
-    updateAppointmentStatus(appointment.id, AppointmentStatus.IN_PROGRESS, {
-      actual_start_time: new Date().toISOString(),
-    });
+    updateAppointmentStatus(appointment.id, AppointmentStatus.IN_PROGRESS);
   };
 
   const completeAppointment = async (appointment: QueueAppointment) => {
@@ -5,7 +5,7 @@ import { Button } from "../ui/Button";
 import { Input } from "../ui/Input";
 import { Clock, UserPlus, RefreshCw, AlertTriangle } from "lucide-react";
 import { supabase } from "../../lib/supabase";
-import { useAuth } from "../../hooks/useAuth";
+import { useClinicAccess } from "../../hooks/useClinicAccess";
 import { AppointmentStatus } from "../../constants";
 import { format } from "date-fns";
 import { WhatsAppService } from "../../services/WhatsAppService";
@@ -57,18 +57,18 @@ export function QueueManagementModal({
   const [emergencyTime, setEmergencyTime] = useState("");
   const [emergencySymptoms, setEmergencySymptoms] = useState("");
 
-  const { user } = useAuth();
+  const { clinicId } = useClinicAccess();
 
   const selectedDoctorName =
     doctors.find((d) => d.id === selectedDoctor)?.name || "Unknown";
 
-  // Fetch all patients who belong to the current user (for emergency appointments)
+  // Fetch all patients who belong to the current clinic (for emergency appointments)
   const fetchPatients = async () => {
-    if (!user?.id) return;
+    if (!clinicId) return;
 
     setLoadingPatients(true);
     try {
-      // Get ALL patients for the current user - they can create emergency appointments for any patient
+      // Get ALL patients for the current clinic - staff can create emergency appointments for any patient
       const { data: patientsData, error: patientsError } = await supabase
         .from("clinic_patients")
         .select(
@@ -79,7 +79,7 @@ export function QueueManagementModal({
           )
         `
         )
-        .eq("clinic_id", user.id)
+        .eq("clinic_id", clinicId)
         .order("patient_profile(full_name)");
 
       if (patientsError) throw patientsError;
@@ -240,7 +240,7 @@ export function QueueManagementModal({
             const { data: clinicProfile } = await (supabase as any)
               .from("clinic_profiles")
               .select("clinic_name")
-              .eq("id", user?.id)
+              .eq("id", clinicId)
               .single();
 
             const clinicName = clinicProfile?.clinic_name || "Our Clinic";
@@ -249,6 +249,7 @@ export function QueueManagementModal({
 
             const result = await WhatsAppService.sendAppointmentDelay({
               phone: patientPhone,
+              appointmentId: appointment.id,
               patientName: patientName,
               doctorName: `Dr. ${doctorName}`,
               delayMinutes: String(delay),
@@ -346,7 +347,7 @@ export function QueueManagementModal({
         const { error: insertError } = await (supabase as any)
           .from("appointments")
           .insert({
-            user_id: user?.id,
+            user_id: clinicId,
             clinic_patient_id: selectedPatient,
             clinic_doctor_id: selectedDoctor,
             appointment_datetime: emergencyDateTime.toISOString(),
@@ -21,6 +21,7 @@ import { MetricCard } from "../ui/MetricCard";
 import { AppointmentService } from "../../services/AppointmentService";
 import { AppointmentStatus } from "../../constants";
 import { useAuth } from "../../hooks/useAuth";
+import { useClinicAccess } from "../../hooks/useClinicAccess";
 import { AppointmentWithRelations } from "../../services/AppointmentService";
 import { format } from "date-fns";
 import { supabase } from "../../lib/supabase";
@@ -57,6 +58,7 @@ export function QueueTab() {
   ] = useState<AppointmentWithRelations | null>(null);
   const [activeTab, setActiveTab] = useState<"active" | "completed">("active");
   const { user } = useAuth();
+  const { clinicId } = useClinicAccess();
 
   // Auto-select first doctor when doctors are loaded
   useEffect(() => {
@@ -67,7 +69,7 @@ export function QueueTab() {
   }, [doctors, selectedDoctor]);
 
   const fetchDoctors = useCallback(async () => {
-    if (!user?.id) return;
+    if (!clinicId) return;
 
     try {
       const { data, error } = await supabase
@@ -82,7 +84,7 @@ export function QueueTab() {
           )
         `
         )
-        .eq("clinic_id", user.id)
+        .eq("clinic_id", clinicId)
         .eq("is_active", true)
         .order("doctor_profile(full_name)");
 
@@ -95,7 +97,7 @@ export function QueueTab() {
         specialization:
           clinicDoctor.doctor_profile?.primary_specialization || "General",
         phone: clinicDoctor.doctor_profile?.phone || "",
-        user_id: user.id,
+        user_id: clinicId,
         employee_id: clinicDoctor.employee_id,
       }));
 
@@ -103,7 +105,7 @@ export function QueueTab() {
     } catch (error) {
       console.error("Error fetching doctors:", error);
     }
-  }, [user?.id]);
+  }, [clinicId]);
 
   const fetchQueue = useCallback(async () => {
     if (!user?.id || !selectedDoctor) {
@@ -298,23 +300,23 @@ export function QueueTab() {
       // Real-time subscription will automatically refresh the queue
     } catch (error) {
       console.error("Error updating appointment:", error);
-      alert("Error updating appointment status");
+      alert(
+        error instanceof Error && error.message
+          ? error.message
+          : "Error updating appointment status"
+      );
     } finally {
       setActionLoading(null);
     }
   };
 
+  // Check-in and start times are stamped by the database
   const checkInPatient = (appointment: AppointmentWithRelations) => {
-    updateAppointmentStatus(appointment.id, AppointmentStatus.CHECKED_IN, {
-      patient_checked_in: true,
-      checked_in_at: new Date().toISOString(),
-    });
+    updateAppointmentStatus(appointment.id, AppointmentStatus.CHECKED_IN);
   };
 
   const startAppointment = (appointment: AppointmentWithRelations) => {
-    updateAppointmentStatus(appointment.id, AppointmentStatus.IN_PROGRESS, {
-      actual_start_time: new Date().toISOString(),
-    });
+    updateAppointmentStatus(appointment.id, AppointmentStatus.IN_PROGRESS);
   };
 
   const completeAppointment = async (appointment: AppointmentWithRelations) => {
@@ -338,11 +340,9 @@ export function QueueTab() {
       setActionLoading(appointment.id);
 
       // Update appointment - database trigger will auto-recalculate queue positions
-      const { error } = await AppointmentService.updateAppointment(
+      const { error } = await AppointmentService.markNoShow(
         appointment.id,
-        {
-          status: AppointmentStatus.NO_SHOW,
-        }
+        "Marked as no-show from the queue"
       );
 
       if (error) throw error;
@@ -0,0 +1,322 @@
+/**
+ * Report Subscriptions Card
+ * Weekly and monthly report emails for the clinic. Anyone who can view
+ * reports sees the schedule and can send a copy now; changing it needs the
+ * settings permission.
+ */
+import { useCallback, useEffect, useState } from "react";
+import { Mail, Pencil, Plus, Send, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { format, parseISO } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "../ui/Card";
+import { Button } from "../ui/Button";
+import { Input } from "../ui/Input";
+import { Select } from "../ui/Select";
+import { Badge } from "../ui/Badge";
+import { Modal } from "../ui/Modal";
+import {
+  ReportSubscriptionService,
+  REPORT_SUBSCRIPTION_SECTIONS,
+  type ReportSubscriptionData,
+  type ReportSubscriptionSection,
+} from "../../services";
+import type { ReportSubscription } from "../../types/database";
+import { useClinicAccess } from "../../hooks/useClinicAccess";
+import { ClinicPermission } from "../../constants";
+
+const FREQUENCY_OPTIONS = [
+  { value: "weekly", label: "Weekly (every Monday, previous week)" },
+  { value: "monthly", label: "Monthly (on the 1st, previous month)" },
+];
+
+const EMPTY_FORM: ReportSubscriptionData = {
+  name: "",
+  frequency: "weekly",
+  recipients: [],
+  sections: REPORT_SUBSCRIPTION_SECTIONS.map((section) => section.value),
+};
+
+const splitRecipients = (value: string) => value.split(/[\s,;]+/).filter(Boolean);
+
+export function ReportSubscriptionsCard() {
+  const { hasPermission } = useClinicAccess();
+  const canManage = hasPermission(ClinicPermission.MANAGE_SETTINGS);
+
+  const [subscriptions, setSubscriptions] = useState<ReportSubscription[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<ReportSubscription | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<ReportSubscriptionData>(EMPTY_FORM);
+  const [recipientsText, setRecipientsText] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [sendingId, setSendingId] = useState<string | null>(null);
+
+  const fetchSubscriptions = useCallback(async () => {
+    setLoading(true);
+    const result = await ReportSubscriptionService.getSubscriptions();
+    if (result.success) {
+      setSubscriptions(result.data || []);
+    } else {
+      toast.error(result.error?.message || "Failed to load report emails");
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    fetchSubscriptions();
+  }, [fetchSubscriptions]);
+
+  const openForm = (subscription?: ReportSubscription) => {
+    setEditing(subscription || null);
+    setForm(
+      subscription
+        ? {
+            name: subscription.name,
+            frequency: subscription.frequency,
+            recipients: subscription.recipients,
+            sections: subscription.sections,
+          }
+        : EMPTY_FORM
+    );
+    setRecipientsText(subscription ? subscription.recipients.join(", ") : "");
+    setShowForm(true);
+  };
+
+  const toggleSection = (section: ReportSubscriptionSection) => {
+    setForm({
+      ...form,
+      sections: form.sections.includes(section)
+        ? form.sections.filter((s) => s !== section)
+        : [...form.sections, section],
+    });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+
+    const data = { ...form, recipients: splitRecipients(recipientsText) };
+    const result = editing
+      ? await ReportSubscriptionService.updateSubscription(editing.id, data)
+      : await ReportSubscriptionService.createSubscription(data);
+
+    setSaving(false);
+    if (result.success) {
+      toast.success(editing ? "Report email updated" : "Report email scheduled");
+      setShowForm(false);
+      fetchSubscriptions();
+    } else {
+      toast.error(result.error?.message || "Failed to save report email");
+    }
+  };
+
+  const handleToggleActive = async (subscription: ReportSubscription) => {
+    const result = await ReportSubscriptionService.setActive(
+      subscription.id,
+      !subscription.is_active
+    );
+    if (result.success) {
+      toast.success(subscription.is_active ? "Report email paused" : "Report email resumed");
+      fetchSubscriptions();
+    } else {
+      toast.error(result.error?.message || "Failed to update report email");
+    }
+  };
+
+  const handleDelete = async (subscription: ReportSubscription) => {
+    if (!confirm(`Stop sending "${subscription.name}"?`)) return;
+
+    const result = await ReportSubscriptionService.deleteSubscription(subscription.id);
+    if (result.success) {
+      toast.success("Report email removed");
+      fetchSubscriptions();
+    } else {
+      toast.error(result.error?.message || "Failed to remove report email");
+    }
+  };
+
+  const handleSendNow = async (subscription: ReportSubscription) => {
+    setSendingId(subscription.id);
+    const result = await ReportSubscriptionService.sendNow(subscription.id);
+    setSendingId(null);
+
+    if (result.success) {
+      toast.success(`Report sent to ${subscription.recipients.length} recipient(s)`);
+    } else {
+      toast.error(result.error?.message || "Failed to send report");
+    }
+    fetchSubscriptions();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <div className="flex items-center">
+            <Mail className="h-5 w-5 mr-2" />
+            Email Reports
+          </div>
+          {canManage && (
+            <Button variant="outline" size="sm" onClick={() => openForm()}>
+              <Plus className="h-4 w-4 mr-2" />
+              Schedule
+            </Button>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : subscriptions.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-6">
+            No scheduled report emails. Weekly and monthly summaries can be
+            sent to owners and managers automatically.
+          </p>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {subscriptions.map((subscription) => (
+              <div
+                key={subscription.id}
+                className="flex flex-col md:flex-row md:items-center justify-between gap-3 py-4"
+              >
+                <div>
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium text-gray-900">{subscription.name}</p>
+                    <Badge variant="secondary">
+                      {subscription.frequency === "weekly" ? "Weekly" : "Monthly"}
+                    </Badge>
+                    {!subscription.is_active && <Badge variant="warning">Paused</Badge>}
+                  </div>
+                  <p className="text-sm text-gray-500">
+                    {subscription.recipients.join(", ")}
+                  </p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {subscription.last_sent_at
+                      ? `Last sent ${new Date(subscription.last_sent_at).toLocaleString("en-IN")}`
+                      : "Not sent yet"}
+                    {subscription.last_period_end &&
+                      ` · last period ended ${format(
+                        parseISO(subscription.last_period_end),
+                        "MMMM d, yyyy"
+                      )}`}
+                  </p>
+                  {subscription.last_error && (
+                    <p className="text-xs text-red-600 mt-1">{subscription.last_error}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleSendNow(subscription)}
+                    disabled={sendingId === subscription.id}
+                  >
+                    <Send className="h-4 w-4 mr-2" />
+                    {sendingId === subscription.id ? "Sending..." : "Send now"}
+                  </Button>
+                  {canManage && (
+                    <>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleToggleActive(subscription)}
+                      >
+                        {subscription.is_active ? "Pause" : "Resume"}
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => openForm(subscription)}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="danger"
+                        size="sm"
+                        onClick={() => handleDelete(subscription)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Modal
+        isOpen={showForm}
+        onClose={() => setShowForm(false)}
+        title={editing ? "Edit Report Email" : "Schedule Report Email"}
+      >
+        <form onSubmit={handleSave} className="p-6 space-y-4">
+          <Input
+            label="Name"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            placeholder="e.g. Owner weekly summary"
+            required
+          />
+          <Select
+            label="Frequency"
+            value={form.frequency}
+            onChange={(e) =>
+              setForm({
+                ...form,
+                frequency: e.target.value as ReportSubscriptionData["frequency"],
+              })
+            }
+            options={FREQUENCY_OPTIONS}
+            required
+          />
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Recipients <span className="text-red-500">*</span>
+            </label>
+            <textarea
+              value={recipientsText}
+              onChange={(e) => setRecipientsText(e.target.value)}
+              rows={3}
+              placeholder="owner@example.com, manager@example.com"
+              className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Separate addresses with commas or new lines
+            </p>
+          </div>
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">Sections</p>
+            <div className="space-y-2">
+              {REPORT_SUBSCRIPTION_SECTIONS.map((section) => (
+                <label
+                  key={section.value}
+                  className="flex items-center space-x-2 text-sm text-gray-700"
+                >
+                  <input
+                    type="checkbox"
+                    checked={form.sections.includes(section.value)}
+                    onChange={() => toggleSection(section.value)}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span>{section.label}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={() => setShowForm(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving}>
+              {saving ? "Saving..." : "Save"}
+            </Button>
+          </div>
+        </form>
+      </Modal>
+    </Card>
+  );
+}
@@ -0,0 +1,244 @@
+/**
+ * Wait Time Analytics Card
+ * Historical patient wait times for a report range: check-in to start,
+ * booked time to start, the delay distribution and averages per doctor and
+ * hour of day. Visits can be exported as CSV.
+ */
+import { useEffect, useState } from "react";
+import { Clock, Download } from "lucide-react";
+import {
+  BarChart,
+  Bar,
+  CartesianGrid,
+  Legend,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { toast } from "sonner";
+import { Card, CardContent, CardHeader, CardTitle } from "../ui/Card";
+import { Button } from "../ui/Button";
+import {
+  ReportsService,
+  WaitTimeAnalytics,
+  WaitTimeVisit,
+} from "../../services/ReportsService";
+import { ReportRange } from "../../utils/reportUtils";
+import { CsvColumn, downloadCsv, toCsv } from "../../utils/csvExport";
+import {
+  convertUTCToISTTime24,
+  extractISTDateForInput,
+} from "../../utils/timezoneUtils";
+
+interface WaitTimeAnalyticsCardProps {
+  range: ReportRange;
+}
+
+const formatMinutes = (value: number | null) =>
+  value === null ? "—" : `${Math.round(value * 10) / 10} min`;
+
+const formatHour = (hour: number) => {
+  const suffix = hour < 12 ? "AM" : "PM";
+  return `${hour % 12 || 12} ${suffix}`;
+};
+
+const optionalTime = (value: string | null) =>
+  value ? convertUTCToISTTime24(value) : "";
+
+const VISIT_CSV_COLUMNS: CsvColumn<WaitTimeVisit>[] = [
+  { header: "Date", value: (visit) => extractISTDateForInput(visit.appointmentDatetime) },
+  { header: "Booked Time", value: (visit) => convertUTCToISTTime24(visit.appointmentDatetime) },
+  { header: "Doctor", value: (visit) => visit.doctorName },
+  { header: "Patient", value: (visit) => visit.patientName },
+  { header: "Checked In", value: (visit) => optionalTime(visit.checkedInAt) },
+  { header: "Estimated Start", value: (visit) => optionalTime(visit.estimatedStartTime) },
+  { header: "Actual Start", value: (visit) => convertUTCToISTTime24(visit.actualStartTime) },
+  { header: "Wait (min)", value: (visit) => visit.waitMinutes },
+  { header: "Delay vs Booked (min)", value: (visit) => visit.delayMinutes },
+  { header: "Delay vs Estimate (min)", value: (visit) => visit.estimateGapMinutes },
+];
+
+export function WaitTimeAnalyticsCard({ range }: WaitTimeAnalyticsCardProps) {
+  const [analytics, setAnalytics] = useState<WaitTimeAnalytics | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState(false);
+
+  useEffect(() => {
+    const fetchAnalytics = async () => {
+      setLoading(true);
+      const result = await ReportsService.getWaitTimeAnalytics(range);
+      if (result.success) {
+        setAnalytics(result.data || null);
+      } else {
+        toast.error(result.error?.message || "Failed to load wait times");
+      }
+      setLoading(false);
+    };
+
+    fetchAnalytics();
+  }, [range]);
+
+  const handleExport = async () => {
+    setExporting(true);
+    const result = await ReportsService.getWaitTimeVisits(range);
+    setExporting(false);
+
+    if (!result.success) {
+      toast.error(result.error?.message || "Failed to export wait times");
+      return;
+    }
+    if (!result.data?.length) {
+      toast.warning("No visits to export in this period");
+      return;
+    }
+
+    downloadCsv(
+      `wait-times-${range.startDate}-to-${range.endDate}.csv`,
+      toCsv(result.data, VISIT_CSV_COLUMNS)
+    );
+  };
+
+  const summary = analytics?.summary;
+  const stats = summary
+    ? [
+        { label: "Visits", value: summary.visits },
+        { label: "Avg. Wait", value: formatMinutes(summary.avgWait) },
+        { label: "Median Wait", value: formatMinutes(summary.medianWait) },
+        { label: "90th Percentile Wait", value: formatMinutes(summary.p90Wait) },
+        { label: "Avg. Delay vs Booked", value: formatMinutes(summary.avgDelay) },
+        {
+          label: "Started On Time",
+          value: summary.onTimePct === null ? "—" : `${summary.onTimePct}%`,
+        },
+      ]
+    : [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <div className="flex items-center">
+            <Clock className="h-5 w-5 mr-2" />
+            Patient Wait Times
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleExport}
+            disabled={exporting || loading || !summary?.visits}
+          >
+            <Download className="h-4 w-4 mr-2" />
+            {exporting ? "Exporting..." : "Export CSV"}
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : !analytics || analytics.summary.visits === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-6">
+            No started visits in this period
+          </p>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+              {stats.map((stat) => (
+                <div key={stat.label} className="text-center">
+                  <p className="text-2xl font-bold text-blue-600">{stat.value}</p>
+                  <p className="text-sm text-gray-600">{stat.label}</p>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500">
+              Wait is check-in to consultation start; delay is the booked time to
+              consultation start. On time means started within 5 minutes of the
+              booked time.
+            </p>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div>
+                <h4 className="text-sm font-medium text-gray-700 mb-2">
+                  Delay Distribution
+                </h4>
+                <ResponsiveContainer width="100%" height={240}>
+                  <BarChart data={analytics.distribution}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="bucket" />
+                    <YAxis allowDecimals={false} />
+                    <Tooltip />
+                    <Bar dataKey="visits" name="Visits" fill="#3B82F6" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+              <div>
+                <h4 className="text-sm font-medium text-gray-700 mb-2">
+                  By Hour of Day
+                </h4>
+                <ResponsiveContainer width="100%" height={240}>
+                  <BarChart
+                    data={analytics.byHour.map((row) => ({
+                      ...row,
+                      label: formatHour(row.hour),
+                    }))}
+                  >
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="label" />
+                    <YAxis />
+                    <Tooltip formatter={(value: number) => `${value} min`} />
+                    <Legend />
+                    <Bar dataKey="avgWait" name="Avg. wait" fill="#10B981" />
+                    <Bar dataKey="avgDelay" name="Avg. delay" fill="#F59E0B" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left font-medium text-gray-600">
+                      Doctor
+                    </th>
+                    <th className="px-4 py-2 text-right font-medium text-gray-600">
+                      Visits
+                    </th>
+                    <th className="px-4 py-2 text-right font-medium text-gray-600">
+                      Avg. Wait
+                    </th>
+                    <th className="px-4 py-2 text-right font-medium text-gray-600">
+                      Median Wait
+                    </th>
+                    <th className="px-4 py-2 text-right font-medium text-gray-600">
+                      Avg. Delay
+                    </th>
+                    <th className="px-4 py-2 text-right font-medium text-gray-600">
+                      Longest Delay
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {analytics.byDoctor.map((row) => (
+                    <tr key={row.clinicDoctorId}>
+                      <td className="px-4 py-2 text-gray-900">{row.doctorName}</td>
+                      <td className="px-4 py-2 text-right">{row.visits}</td>
+                      <td className="px-4 py-2 text-right">{formatMinutes(row.avgWait)}</td>
+                      <td className="px-4 py-2 text-right">
+                        {formatMinutes(row.medianWait)}
+                      </td>
+                      <td className="px-4 py-2 text-right">{formatMinutes(row.avgDelay)}</td>
+                      <td className="px-4 py-2 text-right">{formatMinutes(row.maxDelay)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,47 @@
+import { Download, FileSpreadsheet } from "lucide-react";
+import { Button } from "../ui/Button";
+import type { CsvColumn } from "../../utils/csvExport";
+import { exportList } from "../../utils/listExport";
+
+interface ExportListButtonsProps<T> {
+  rows: T[];
+  columns: CsvColumn<T>[];
+  filename: string;
+  sheetName?: string;
+}
+
+/**
+ * CSV and Excel downloads of the list currently shown on a page
+ */
+export function ExportListButtons<T>({
+  rows,
+  columns,
+  filename,
+  sheetName,
+}: ExportListButtonsProps<T>) {
+  const disabled = rows.length === 0;
+  const title = disabled ? "Nothing to export" : `Export ${rows.length} rows`;
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        onClick={() => exportList(rows, columns, filename, "csv", sheetName)}
+        disabled={disabled}
+        title={title}
+      >
+        <Download className="h-4 w-4 mr-2" />
+        CSV
+      </Button>
+      <Button
+        variant="outline"
+        onClick={() => exportList(rows, columns, filename, "xlsx", sheetName)}
+        disabled={disabled}
+        title={title}
+      >
+        <FileSpreadsheet className="h-4 w-4 mr-2" />
+        Excel
+      </Button>
+    </>
+  );
+}
@@ -0,0 +1,248 @@
+import { useCallback, useEffect, useState } from "react";
+import { UserPlus, Trash2, Users } from "lucide-react";
+import { toast } from "sonner";
+import { Card, CardHeader, CardContent, CardTitle } from "../ui/Card";
+import { Button } from "../ui/Button";
+import { Input } from "../ui/Input";
+import { Select } from "../ui/Select";
+import { Badge } from "../ui/Badge";
+import {
+  StaffService,
+  DoctorProfileService,
+  type ClinicStaffWithDoctor,
+  type InviteStaffData,
+  type DoctorProfileWithClinic,
+} from "../../services";
+import { StaffRole, STAFF_ROLE_LABELS } from "../../constants";
+
+const ROLE_OPTIONS = [
+  StaffRole.RECEPTIONIST,
+  StaffRole.BILLING_CLERK,
+  StaffRole.DOCTOR,
+].map((role) => ({ value: role, label: STAFF_ROLE_LABELS[role] }));
+
+const EMPTY_INVITE: InviteStaffData = {
+  email: "",
+  full_name: "",
+  role: StaffRole.RECEPTIONIST,
+  clinic_doctor_id: null,
+};
+
+export function StaffManagement() {
+  const [staff, setStaff] = useState<ClinicStaffWithDoctor[]>([]);
+  const [doctors, setDoctors] = useState<DoctorProfileWithClinic[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [invite, setInvite] = useState<InviteStaffData>(EMPTY_INVITE);
+
+  const fetchStaff = useCallback(async () => {
+    setLoading(true);
+    const [staffRes, doctorsRes] = await Promise.all([
+      StaffService.getClinicStaff(),
+      DoctorProfileService.getClinicDoctors(),
+    ]);
+
+    if (staffRes.success && staffRes.data) {
+      setStaff(staffRes.data);
+    } else {
+      toast.error(staffRes.error?.message || "Failed to load staff");
+    }
+
+    if (doctorsRes.success && doctorsRes.data) {
+      setDoctors(doctorsRes.data);
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    fetchStaff();
+  }, [fetchStaff]);
+
+  const doctorOptions = [
+    { value: "", label: "Select doctor" },
+    ...doctors
+      .filter((doctor) => doctor.clinic_doctor?.id)
+      .map((doctor) => ({
+        value: doctor.clinic_doctor!.id,
+        label: `Dr. ${doctor.full_name}`,
+      })),
+  ];
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+
+    const response = await StaffService.inviteStaff(invite);
+    if (response.success) {
+      toast.success(
+        `Invitation added. ${invite.email} gets access on first sign-in.`
+      );
+      setInvite(EMPTY_INVITE);
+      fetchStaff();
+    } else {
+      toast.error(response.error?.message || "Failed to invite staff member");
+    }
+    setSaving(false);
+  };
+
+  const handleToggleActive = async (member: ClinicStaffWithDoctor) => {
+    const response = await StaffService.updateStaff(member.id, {
+      is_active: !member.is_active,
+    });
+    if (response.success) {
+      toast.success(
+        member.is_active ? "Staff access disabled" : "Staff access enabled"
+      );
+      fetchStaff();
+    } else {
+      toast.error(response.error?.message || "Failed to update staff member");
+    }
+  };
+
+  const handleRemove = async (member: ClinicStaffWithDoctor) => {
+    if (!confirm(`Remove ${member.email} from this clinic?`)) return;
+
+    const response = await StaffService.removeStaff(member.id);
+    if (response.success) {
+      toast.success("Staff member removed");
+      fetchStaff();
+    } else {
+      toast.error(response.error?.message || "Failed to remove staff member");
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Invite Staff Member</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleInvite} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <Input
+                label="Email"
+                type="email"
+                value={invite.email}
+                onChange={(e) => setInvite({ ...invite, email: e.target.value })}
+                required
+                placeholder="staff@example.com"
+              />
+              <Input
+                label="Full Name"
+                value={invite.full_name || ""}
+                onChange={(e) =>
+                  setInvite({ ...invite, full_name: e.target.value })
+                }
+                placeholder="Enter full name"
+              />
+              <Select
+                label="Role"
+                value={invite.role}
+                onChange={(e) =>
+                  setInvite({
+                    ...invite,
+                    role: e.target.value as InviteStaffData["role"],
+                    clinic_doctor_id: null,
+                  })
+                }
+                options={ROLE_OPTIONS}
+                required
+              />
+              {invite.role === StaffRole.DOCTOR && (
+                <Select
+                  label="Doctor"
+                  value={invite.clinic_doctor_id || ""}
+                  onChange={(e) =>
+                    setInvite({
+                      ...invite,
+                      clinic_doctor_id: e.target.value || null,
+                    })
+                  }
+                  options={doctorOptions}
+                  required
+                />
+              )}
+            </div>
+            <p className="text-sm text-gray-500">
+              Receptionists manage appointments and patients. Billing clerks
+              handle bills and reports. Doctor logins see their own queue, with
+              access set by the doctor's permissions.
+            </p>
+            <div className="flex justify-end">
+              <Button type="submit" disabled={saving}>
+                <UserPlus className="h-5 w-5 mr-2" />
+                {saving ? "Inviting..." : "Invite"}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Staff Accounts</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : staff.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">
+              <Users className="h-10 w-10 mx-auto mb-2 text-gray-400" />
+              No staff members yet
+            </div>
+          ) : (
+            <div className="divide-y divide-gray-200">
+              {staff.map((member) => (
+                <div
+                  key={member.id}
+                  className="flex flex-col md:flex-row md:items-center justify-between gap-3 py-4"
+                >
+                  <div>
+                    <p className="font-medium text-gray-900">
+                      {member.full_name || member.email}
+                    </p>
+                    <p className="text-sm text-gray-500">{member.email}</p>
+                    {member.clinic_doctor?.doctor_profile?.full_name && (
+                      <p className="text-sm text-gray-500">
+                        Dr. {member.clinic_doctor.doctor_profile.full_name}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant="secondary">
+                      {STAFF_ROLE_LABELS[member.role as StaffRole]}
+                    </Badge>
+                    {!member.user_id ? (
+                      <Badge variant="warning">Invited</Badge>
+                    ) : member.is_active ? (
+                      <Badge variant="success">Active</Badge>
+                    ) : (
+                      <Badge variant="destructive">Disabled</Badge>
+                    )}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleToggleActive(member)}
+                    >
+                      {member.is_active ? "Disable" : "Enable"}
+                    </Button>
+                    <Button
+                      variant="danger"
+                      size="sm"
+                      onClick={() => handleRemove(member)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
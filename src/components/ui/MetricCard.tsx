@@ -8,6 +8,7 @@ interface MetricCardProps {
   trend?: {
     value: number;
     isPositive: boolean;
+    label?: string;
   };
   color?: 'blue' | 'green' | 'red' | 'yellow';
 }
@@ -28,7 +29,7 @@ export function MetricCard({ title, value, icon: Icon, trend, color = 'blue' }:
           <p className="text-3xl font-bold text-gray-900">{value}</p>
           {trend && (
             <p className={`text-sm mt-2 ${trend.isPositive ? 'text-green-600' : 'text-red-600'}`}>
-              {trend.isPositive ? '+' : ''}{trend.value}% from last month
+              {trend.value > 0 ? '+' : ''}{trend.value}% {trend.label ?? 'from last month'}
             </p>
           )}
         </div>
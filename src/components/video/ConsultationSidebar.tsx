@@ -395,7 +395,6 @@ export function ConsultationSidebar({
                 symptoms_documented: symptoms,
                 medicines: JSON.stringify(medicines),
                 status: AppointmentStatus.COMPLETED,
-                actual_end_time: new Date().toISOString(),
                 prescription_type: prescriptionType,
                 video_call_id: null,
                 video_room_url: null,
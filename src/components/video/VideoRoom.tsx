@@ -8,6 +8,7 @@ import {
 } from "@stream-io/video-react-sdk";
 import "@stream-io/video-react-sdk/dist/css/styles.css";
 import { StreamService } from "../../services/StreamService";
+import { AppointmentService } from "../../services/AppointmentService";
 import { HealthcareControls } from "./HealthcareControls";
 import { ParticipantTile } from "./ParticipantTile";
 import { ConsultationSidebar } from "./ConsultationSidebar";
@@ -230,6 +231,14 @@ export function VideoRoom({ callId, userId, userName, patientName, patientSympto
 
                 setCall(videoCall);
                 setLoading(false);
+
+                // Joining the call starts the consultation (in-progress), so it can be completed later
+                if (appointmentId) {
+                    const startResult = await AppointmentService.startAppointment(appointmentId);
+                    if (!startResult.success) {
+                        console.warn("Could not mark consultation as started:", startResult.error?.message);
+                    }
+                }
             } catch (err) {
                 console.error("Failed to initialize video call:", err);
                 if (mounted) {
@@ -251,7 +260,7 @@ export function VideoRoom({ callId, userId, userName, patientName, patientSympto
                 videoClient.disconnectUser().catch(console.error);
             }
         };
-    }, [callId, userId, userName]);
+    }, [callId, userId, userName, appointmentId]);
 
     const handleLeave = () => {
         if (call) {
@@ -14,14 +14,108 @@ export enum AppointmentStatus {
   RESCHEDULED = "rescheduled",
 }
 
+// Allowed appointment status changes. Enforced by the database
+// (appointment_transition_allowed); keep both in sync.
+export const APPOINTMENT_STATUS_TRANSITIONS: Record<
+  AppointmentStatus,
+  AppointmentStatus[]
+> = {
+  [AppointmentStatus.SCHEDULED]: [
+    AppointmentStatus.CHECKED_IN,
+    AppointmentStatus.IN_PROGRESS,
+    AppointmentStatus.CANCELLED,
+    AppointmentStatus.NO_SHOW,
+    AppointmentStatus.RESCHEDULED,
+  ],
+  [AppointmentStatus.CHECKED_IN]: [
+    AppointmentStatus.SCHEDULED, // rescheduled after check-in
+    AppointmentStatus.IN_PROGRESS,
+    AppointmentStatus.CANCELLED,
+    AppointmentStatus.NO_SHOW,
+  ],
+  [AppointmentStatus.IN_PROGRESS]: [
+    AppointmentStatus.COMPLETED,
+    AppointmentStatus.CANCELLED,
+  ],
+  [AppointmentStatus.COMPLETED]: [], // Completed appointments are final
+  [AppointmentStatus.CANCELLED]: [AppointmentStatus.SCHEDULED],
+  [AppointmentStatus.NO_SHOW]: [AppointmentStatus.SCHEDULED],
+  [AppointmentStatus.RESCHEDULED]: [
+    AppointmentStatus.SCHEDULED,
+    AppointmentStatus.CHECKED_IN,
+    AppointmentStatus.CANCELLED,
+    AppointmentStatus.NO_SHOW,
+  ],
+};
+
 // Billing Status Enum
 export enum BillingStatus {
   PENDING = "pending",
+  PARTIALLY_PAID = "partially_paid",
   PAID = "paid",
   OVERDUE = "overdue",
   CANCELLED = "cancelled",
 }
 
+// Payment modes of a receipt (payments.payment_mode). A bill paid in more
+// than one mode shows "mixed" as its payment_mode.
+export enum PaymentMode {
+  CASH = "cash",
+  UPI = "upi",
+  CARD = "card",
+  BANK_TRANSFER = "bank_transfer",
+  CHEQUE = "cheque",
+  OTHER = "other",
+}
+
+export const PAYMENT_MODE_LABELS: Record<PaymentMode, string> = {
+  [PaymentMode.CASH]: "Cash",
+  [PaymentMode.UPI]: "UPI",
+  [PaymentMode.CARD]: "Card",
+  [PaymentMode.BANK_TRANSFER]: "Bank Transfer",
+  [PaymentMode.CHEQUE]: "Cheque",
+  [PaymentMode.OTHER]: "Other",
+};
+
+// Clinic Staff Roles (owner is the clinic_profiles account itself)
+export enum StaffRole {
+  OWNER = "owner",
+  RECEPTIONIST = "receptionist",
+  BILLING_CLERK = "billing_clerk",
+  DOCTOR = "doctor",
+}
+
+// Clinic Permissions (evaluated server-side by has_clinic_permission)
+export enum ClinicPermission {
+  MANAGE_APPOINTMENTS = "manage_appointments",
+  MANAGE_PATIENTS = "manage_patients",
+  ACCESS_BILLING = "access_billing",
+  MANAGE_DOCTORS = "manage_doctors",
+  VIEW_REPORTS = "view_reports",
+  MANAGE_SETTINGS = "manage_settings",
+  MANAGE_STAFF = "manage_staff",
+}
+
+export const STAFF_ROLE_LABELS: Record<StaffRole, string> = {
+  [StaffRole.OWNER]: "Owner",
+  [StaffRole.RECEPTIONIST]: "Receptionist",
+  [StaffRole.BILLING_CLERK]: "Billing Clerk",
+  [StaffRole.DOCTOR]: "Doctor",
+};
+
+// Patient communication languages (patient_profiles.preferred_language)
+export enum PatientLanguage {
+  ENGLISH = "en",
+  HINDI = "hi",
+  BENGALI = "bn",
+}
+
+export const PATIENT_LANGUAGE_LABELS: Record<PatientLanguage, string> = {
+  [PatientLanguage.ENGLISH]: "English",
+  [PatientLanguage.HINDI]: "Hindi (हिन्दी)",
+  [PatientLanguage.BENGALI]: "Bengali (বাংলা)",
+};
+
 // Job Queue Types
 export enum JobType {
   RECALCULATE_QUEUE = "RECALCULATE_QUEUE",
@@ -0,0 +1,183 @@
+/**
+ * WhatsApp Template Registry
+ * Maps each patient message to the Meta template name, language code and
+ * body parameter order for every supported language. Template names and
+ * parameter orders must match the templates approved in Meta Business Suite.
+ */
+import { PatientLanguage } from "./index";
+
+export enum WhatsAppTemplateEvent {
+  IN_CLINIC_CONFIRMED = "in_clinic_confirmed",
+  VIDEO_CONFIRMED = "video_confirmed",
+  CANCELLED = "cancelled",
+  RESCHEDULED = "rescheduled",
+  VIDEO_RESCHEDULED = "video_rescheduled",
+  DELAY = "delay",
+  REMINDER_1DAY = "reminder_1day",
+  VIDEO_STARTING_SOON = "video_starting_soon",
+  REQUEST_REJECTED = "request_rejected",
+  COMPLETED = "completed",
+  WAITLIST_OFFER = "waitlist_offer",
+}
+
+export interface WhatsAppTemplateDefinition {
+  name: string;
+  languageCode: string;
+  // Keys of the sender's data, in the order of the template's {{1}}, {{2}}, ...
+  bodyParams: string[];
+  // Key of the URL button suffix, for templates with a CTA button
+  buttonParam?: string;
+}
+
+type TemplateSet = Record<PatientLanguage, WhatsAppTemplateDefinition>;
+
+const template = (
+  name: string,
+  languageCode: string,
+  bodyParams: string[],
+  buttonParam?: string
+): WhatsAppTemplateDefinition => ({ name, languageCode, bodyParams, buttonParam });
+
+// Hindi and Bengali templates lead with the date and time ("{{1}} जी, {{2}} को {{3}} बजे ...")
+export const WHATSAPP_TEMPLATES: Record<WhatsAppTemplateEvent, TemplateSet> = {
+  [WhatsAppTemplateEvent.IN_CLINIC_CONFIRMED]: {
+    [PatientLanguage.ENGLISH]: template("inclinic_appointment_confirmed", "en", [
+      "patientName", "doctorName", "clinicName", "clinicAddress", "appointmentDate", "appointmentTime",
+    ]),
+    [PatientLanguage.HINDI]: template("inclinic_appointment_confirmed_hi", "hi", [
+      "patientName", "appointmentDate", "appointmentTime", "doctorName", "clinicName", "clinicAddress",
+    ]),
+    [PatientLanguage.BENGALI]: template("inclinic_appointment_confirmed_bn", "bn", [
+      "patientName", "appointmentDate", "appointmentTime", "doctorName", "clinicName", "clinicAddress",
+    ]),
+  },
+  [WhatsAppTemplateEvent.VIDEO_CONFIRMED]: {
+    [PatientLanguage.ENGLISH]: template("video_consultation_confirmed", "en", [
+      "patientName", "doctorName", "clinicName", "appointmentDate", "appointmentTime", "feeAmount",
+    ], "videoCallLinkSuffix"),
+    [PatientLanguage.HINDI]: template("video_consultation_confirmed_hi", "hi", [
+      "patientName", "appointmentDate", "appointmentTime", "doctorName", "clinicName", "feeAmount",
+    ], "videoCallLinkSuffix"),
+    [PatientLanguage.BENGALI]: template("video_consultation_confirmed_bn", "bn", [
+      "patientName", "appointmentDate", "appointmentTime", "doctorName", "clinicName", "feeAmount",
+    ], "videoCallLinkSuffix"),
+  },
+  [WhatsAppTemplateEvent.CANCELLED]: {
+    [PatientLanguage.ENGLISH]: template("appointment_cancelled", "en", [
+      "patientName", "doctorName", "appointmentDate", "appointmentTime",
+    ]),
+    [PatientLanguage.HINDI]: template("appointment_cancelled_hi", "hi", [
+      "patientName", "appointmentDate", "appointmentTime", "doctorName",
+    ]),
+    [PatientLanguage.BENGALI]: template("appointment_cancelled_bn", "bn", [
+      "patientName", "appointmentDate", "appointmentTime", "doctorName",
+    ]),
+  },
+  [WhatsAppTemplateEvent.RESCHEDULED]: {
+    [PatientLanguage.ENGLISH]: template("appointment_rescheduled", "en", [
+      "patientName", "doctorName", "oldDate", "oldTime", "newDate", "newTime", "clinicName",
+    ]),
+    [PatientLanguage.HINDI]: template("appointment_rescheduled_hi", "hi", [
+      "patientName", "doctorName", "clinicName", "oldDate", "oldTime", "newDate", "newTime",
+    ]),
+    [PatientLanguage.BENGALI]: template("appointment_rescheduled_bn", "bn", [
+      "patientName", "doctorName", "clinicName", "oldDate", "oldTime", "newDate", "newTime",
+    ]),
+  },
+  [WhatsAppTemplateEvent.VIDEO_RESCHEDULED]: {
+    [PatientLanguage.ENGLISH]: template("video_consultation_rescheduled", "en", [
+      "patientName", "doctorName", "oldDate", "oldTime", "newDate", "newTime", "clinicName",
+    ], "videoCallLinkSuffix"),
+    [PatientLanguage.HINDI]: template("video_consultation_rescheduled_hi", "hi", [
+      "patientName", "doctorName", "clinicName", "oldDate", "oldTime", "newDate", "newTime",
+    ], "videoCallLinkSuffix"),
+    [PatientLanguage.BENGALI]: template("video_consultation_rescheduled_bn", "bn", [
+      "patientName", "doctorName", "clinicName", "oldDate", "oldTime", "newDate", "newTime",
+    ], "videoCallLinkSuffix"),
+  },
+  [WhatsAppTemplateEvent.DELAY]: {
+    [PatientLanguage.ENGLISH]: template("appointment_delay", "en", [
+      "patientName", "doctorName", "delayMinutes", "newExpectedTime", "clinicName",
+    ]),
+    [PatientLanguage.HINDI]: template("appointment_delay_hi", "hi", [
+      "patientName", "clinicName", "doctorName", "delayMinutes", "newExpectedTime",
+    ]),
+    [PatientLanguage.BENGALI]: template("appointment_delay_bn", "bn", [
+      "patientName", "clinicName", "doctorName", "delayMinutes", "newExpectedTime",
+    ]),
+  },
+  // Also queued by enqueue_appointment_reminders (SQL): keep the same order in every language
+  [WhatsAppTemplateEvent.REMINDER_1DAY]: {
+    [PatientLanguage.ENGLISH]: template("appointment_reminder_1day", "en", [
+      "patientName", "doctorName", "clinicName", "appointmentDate", "appointmentTime", "appointmentType", "extraInfo",
+    ]),
+    [PatientLanguage.HINDI]: template("appointment_reminder_1day_hi", "hi", [
+      "patientName", "doctorName", "clinicName", "appointmentDate", "appointmentTime", "appointmentType", "extraInfo",
+    ]),
+    [PatientLanguage.BENGALI]: template("appointment_reminder_1day_bn", "bn", [
+      "patientName", "doctorName", "clinicName", "appointmentDate", "appointmentTime", "appointmentType", "extraInfo",
+    ]),
+  },
+  // Also queued by enqueue_appointment_reminders (SQL): keep the same order in every language
+  [WhatsAppTemplateEvent.VIDEO_STARTING_SOON]: {
+    [PatientLanguage.ENGLISH]: template("video_call_starting_soon", "en", [
+      "patientName", "doctorName", "appointmentTime",
+    ], "videoCallLinkSuffix"),
+    [PatientLanguage.HINDI]: template("video_call_starting_soon_hi", "hi", [
+      "patientName", "doctorName", "appointmentTime",
+    ], "videoCallLinkSuffix"),
+    [PatientLanguage.BENGALI]: template("video_call_starting_soon_bn", "bn", [
+      "patientName", "doctorName", "appointmentTime",
+    ], "videoCallLinkSuffix"),
+  },
+  [WhatsAppTemplateEvent.REQUEST_REJECTED]: {
+    [PatientLanguage.ENGLISH]: template("appointment_request_rejected", "en", [
+      "patientName", "doctorName", "clinicName", "appointmentDate", "appointmentTime", "rejectionReason",
+    ]),
+    [PatientLanguage.HINDI]: template("appointment_request_rejected_hi", "hi", [
+      "patientName", "appointmentDate", "appointmentTime", "doctorName", "clinicName", "rejectionReason",
+    ]),
+    [PatientLanguage.BENGALI]: template("appointment_request_rejected_bn", "bn", [
+      "patientName", "appointmentDate", "appointmentTime", "doctorName", "clinicName", "rejectionReason",
+    ]),
+  },
+  [WhatsAppTemplateEvent.COMPLETED]: {
+    [PatientLanguage.ENGLISH]: template("appointment_completed", "en", [
+      "patientName", "doctorName", "clinicName", "appointmentDate",
+    ], "prescriptionLinkSuffix"),
+    [PatientLanguage.HINDI]: template("appointment_completed_hi", "hi", [
+      "patientName", "appointmentDate", "doctorName", "clinicName",
+    ], "prescriptionLinkSuffix"),
+    [PatientLanguage.BENGALI]: template("appointment_completed_bn", "bn", [
+      "patientName", "appointmentDate", "doctorName", "clinicName",
+    ], "prescriptionLinkSuffix"),
+  },
+  // Only queued by offer_waitlist_seats (SQL): keep the same order in every language
+  [WhatsAppTemplateEvent.WAITLIST_OFFER]: {
+    [PatientLanguage.ENGLISH]: template("waitlist_slot_offered", "en", [
+      "patientName", "doctorName", "clinicName", "slotDate", "slotTime", "holdUntil",
+    ]),
+    [PatientLanguage.HINDI]: template("waitlist_slot_offered_hi", "hi", [
+      "patientName", "doctorName", "clinicName", "slotDate", "slotTime", "holdUntil",
+    ]),
+    [PatientLanguage.BENGALI]: template("waitlist_slot_offered_bn", "bn", [
+      "patientName", "doctorName", "clinicName", "slotDate", "slotTime", "holdUntil",
+    ]),
+  },
+};
+
+/**
+ * Map a stored preferred_language ("hi", "hi-IN", "Hindi", ...) to a
+ * supported template language, falling back to English
+ */
+export function resolvePatientLanguage(
+  preferredLanguage: string | null | undefined
+): PatientLanguage {
+  const value = (preferredLanguage || "").trim().toLowerCase();
+
+  if (value.startsWith("hi")) return PatientLanguage.HINDI;
+  if (value.startsWith("bn") || value.startsWith("ben") || value.startsWith("bangla")) {
+    return PatientLanguage.BENGALI;
+  }
+  return PatientLanguage.ENGLISH;
+}
@@ -5,6 +5,7 @@
 
 // Authentication
 export { useAuth } from "./useAuth";
+export { useClinicAccess } from "./useClinicAccess";
 
 // Dashboard and Metrics
 export { useDashboardMetrics } from "./useDashboardMetrics";
@@ -0,0 +1,73 @@
+import { useCallback, useEffect, useState } from "react";
+import { useAuth } from "./useAuth";
+import { StaffService, type ClinicAccess } from "../services/StaffService";
+import { ClinicPermission, StaffRole } from "../constants";
+
+// Shared across every component using the hook so ProtectedRoute, Layout
+// and pages resolve the login's access with a single RPC
+let accessRequest: {
+  userId: string;
+  promise: Promise<ClinicAccess | null>;
+} | null = null;
+
+function loadAccess(userId: string): Promise<ClinicAccess | null> {
+  if (!accessRequest || accessRequest.userId !== userId) {
+    accessRequest = {
+      userId,
+      promise: StaffService.getMyAccess().then((response) => {
+        if (!response.success) {
+          console.error("Error fetching clinic access:", response.error);
+          accessRequest = null;
+          return null;
+        }
+        return response.data ?? null;
+      }),
+    };
+  }
+  return accessRequest.promise;
+}
+
+export function useClinicAccess() {
+  const { user, loading: authLoading } = useAuth();
+  const [access, setAccess] = useState<ClinicAccess | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (authLoading) return;
+
+    if (!user) {
+      accessRequest = null;
+      setAccess(null);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+
+    loadAccess(user.id).then((result) => {
+      if (cancelled) return;
+      setAccess(result);
+      setLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, authLoading]);
+
+  const hasPermission = useCallback(
+    (permission: ClinicPermission) =>
+      access?.permissions.includes(permission) ?? false,
+    [access]
+  );
+
+  return {
+    access,
+    clinicId: access?.clinic_id ?? null,
+    role: access?.role ?? null,
+    isOwner: access?.role === StaffRole.OWNER,
+    loading: authLoading || loading,
+    hasPermission,
+  };
+}
@@ -1,26 +1,19 @@
 import { useEffect, useState } from "react";
 import { useAuth } from "./useAuth";
-import { AppointmentService } from "../services/AppointmentService";
-import { PatientProfileService } from "../services/PatientProfileService";
-import { DoctorProfileService } from "../services/DoctorProfileService";
-import { format } from "date-fns";
+import {
+  DashboardService,
+  DashboardMetrics,
+} from "../services/DashboardService";
 
-// Define DashboardMetrics interface inline instead of importing from nonexistent types
-interface DashboardMetrics {
-  totalPatients: number;
-  totalDoctors: number;
-  todayAppointments: number;
-  pendingBills: number;
-  overdueFollowups: number;
-}
+const emptyMetric = { value: 0, lastWeek: 0, changePct: null };
 
 export function useDashboardMetrics() {
   const [metrics, setMetrics] = useState<DashboardMetrics>({
-    totalPatients: 0,
-    totalDoctors: 0,
-    todayAppointments: 0,
-    pendingBills: 0,
-    overdueFollowups: 0,
+    totalPatients: emptyMetric,
+    totalDoctors: emptyMetric,
+    todayAppointments: emptyMetric,
+    pendingBills: { ...emptyMetric, amount: 0 },
+    overdueFollowups: emptyMetric,
   });
   const [loading, setLoading] = useState(true);
   const { user } = useAuth();
@@ -29,64 +22,14 @@ export function useDashboardMetrics() {
     if (!user) return;
 
     try {
-      const today = new Date();
-      const todayDateString = format(today, "yyyy-MM-dd");
-
-      console.log("Dashboard: Fetching metrics for clinic:", user.id);
-
-      // Pass appropriate filters to service calls
-      const [patientsResponse, doctorsResponse, appointmentsResponse] =
-        await Promise.all([
-          PatientProfileService.getClinicPatients({ status: "active" }),
-          DoctorProfileService.getClinicDoctors({ status: "active" }),
-          AppointmentService.getAppointments({}),
-        ]);
-
-      console.log("Dashboard: Service responses:", {
-        patients: patientsResponse.success
-          ? patientsResponse.data?.length
-          : `Error: ${patientsResponse.error?.message}`,
-        doctors: doctorsResponse.success
-          ? doctorsResponse.data?.length
-          : `Error: ${doctorsResponse.error?.message}`,
-        appointments: appointmentsResponse.success
-          ? appointmentsResponse.data?.length
-          : `Error: ${appointmentsResponse.error?.message}`,
-      });
-
-      // Calculate metrics with error handling
-      const totalPatients = patientsResponse.success
-        ? patientsResponse.data?.length || 0
-        : 0;
-      const totalDoctors = doctorsResponse.success
-        ? doctorsResponse.data?.length || 0
-        : 0;
-
-      // Filter today's appointments with defensive programming
-      const todayAppointments = appointmentsResponse.success
-        ? (appointmentsResponse.data || []).filter((appointment) => {
-          try {
-            const appointmentDate = format(
-              new Date(appointment.appointment_datetime),
-              "yyyy-MM-dd"
-            );
-            return appointmentDate === todayDateString;
-          } catch {
-            return false; // Skip invalid dates
-          }
-        }).length
-        : 0;
-
-      const newMetrics = {
-        totalPatients,
-        totalDoctors,
-        todayAppointments,
-        pendingBills: 0, // Will implement later
-        overdueFollowups: 0, // Will implement later
-      };
-
-      console.log("Dashboard: Final metrics:", newMetrics);
-      setMetrics(newMetrics);
+      // One aggregated call (get_dashboard_metrics) instead of loading every row
+      const result = await DashboardService.getMetrics();
+
+      if (result.success && result.data) {
+        setMetrics(result.data);
+      } else {
+        console.error("Dashboard: Error fetching metrics:", result.error);
+      }
     } catch (error) {
       console.error("Dashboard: Error fetching metrics:", error);
     } finally {
@@ -102,7 +102,7 @@ export const useLiveQueue = (doctorId: string, serviceDay: string) => {
             )
           ),
           doctor_slot:doctor_slots!doctor_slot_id(
-            id, slot_name, slot_type
+            id, slot_name, start_time, end_time, slot_type
           )
         `
         )
@@ -115,7 +115,7 @@ export const useLiveQueue = (doctorId: string, serviceDay: string) => {
       if (fetchError) throw fetchError;
 
       // Filter out video appointments - only show in-clinic in queue
-      const inClinicData = filterInClinicAppointments(data || []);
+      const inClinicData = filterInClinicAppointments((data || []) as QueueAppointment[]);
 
       const enhancedQueue = inClinicData.map((appointment) => ({
         ...(appointment as any),
@@ -18,6 +18,7 @@ import { Button } from "../components/ui/Button";
 import { Input } from "../components/ui/Input";
 import { Select } from "../components/ui/Select";
 import { Card, CardContent } from "../components/ui/Card";
+import { ExportListButtons } from "../components/shared/ExportListButtons";
 import { AddAppointmentModal } from "../components/appointmentComponents/AddAppointmentModal";
 import { RescheduleAppointmentModal } from "../components/appointmentComponents/RescheduleAppointmentModal";
 import { AppointmentDetailsModal } from "../components/appointmentComponents/AppointmentDetailsModal";
@@ -28,6 +29,7 @@ import { useAuth } from "../hooks/useAuth";
 import type { AppointmentWithRelations } from "../services/AppointmentService";
 import { capitalizeWords } from "../utils/textUtils";
 import { isVideoAppointment } from "../utils/appointmentUtils";
+import { APPOINTMENT_EXPORT_COLUMNS } from "../utils/listExport";
 import { format } from "date-fns";
 import { supabase } from "../lib/supabase";
 
@@ -193,13 +195,18 @@ export function Appointments() {
           </p>
         </div>
         {activeTab === "appointments" && (
-          <Button
-            onClick={() => setIsAddModalOpen(true)}
-            className="mt-4 sm:mt-0"
-          >
-            <Calendar className="h-5 w-5 mr-2" />
-            Schedule Appointment
-          </Button>
+          <div className="flex gap-2 mt-4 sm:mt-0">
+            <ExportListButtons
+              rows={filteredAppointments}
+              columns={APPOINTMENT_EXPORT_COLUMNS}
+              filename="appointments"
+              sheetName="Appointments"
+            />
+            <Button onClick={() => setIsAddModalOpen(true)}>
+              <Calendar className="h-5 w-5 mr-2" />
+              Schedule Appointment
+            </Button>
+          </div>
         )}
       </div>
 
@@ -15,15 +15,26 @@ import {
   CheckCircle,
   AlertCircle,
   Banknote,
+  FileDown,
+  RotateCcw,
 } from "lucide-react";
 import { Button } from "../components/ui/Button";
 import { Input } from "../components/ui/Input";
 import { Select } from "../components/ui/Select";
 import { AddBillModal } from "../components/billComponents/AddBillModal";
 import { BillViewModal } from "../components/billComponents/ViewBillModal";
+import { RecordPaymentModal } from "../components/billComponents/RecordPaymentModal";
+import { CreditNoteModal } from "../components/billComponents/CreditNoteModal";
 import { downloadBillAsHTML } from "../utils/downloadUtil";
+import {
+  downloadBillPDF,
+  paymentModeLabel,
+  type BillPdfClinic,
+} from "../utils/generateBillPDF";
 import { supabase } from "../lib/supabase";
-import { useAuth } from "../hooks/useAuth";
+import { useClinicAccess } from "../hooks/useClinicAccess";
+import { BillingService, type CreditNoteWithBill } from "../services";
+import { billBalance } from "../utils/billBalance";
 import type { BillWithRelations } from "../types/database";
 import { format } from "date-fns";
 
@@ -39,27 +50,44 @@ export function Billing() {
   const [loading, setLoading] = useState(true);
   const [selectedBill, setSelectedBill] = useState<BillWithRelations | null>(null);
   const [isViewModalOpen, setIsViewModalOpen] = useState(false);
-  const { user } = useAuth();
+  const [paymentBill, setPaymentBill] = useState<BillWithRelations | null>(null);
+  const [creditBill, setCreditBill] = useState<BillWithRelations | null>(null);
+  const [suggestedCredits, setSuggestedCredits] = useState<CreditNoteWithBill[]>([]);
+  const [clinicInfo, setClinicInfo] = useState<BillPdfClinic>({ name: "Clinic" });
+  const { clinicId } = useClinicAccess();
 
   const fetchBills = async () => {
-    if (!user) return;
+    if (!clinicId) return;
 
     const { data: clinicProfile } = await supabase
       .from("clinic_profiles")
-      .select("id")
-      .eq("id", user.id)
-      .single() as { data: { id: string } | null; error: any };
+      .select("id, clinic_name, contact_phone, contact_email, primary_address")
+      .eq("id", clinicId)
+      .single() as { data: { id: string; clinic_name: string; contact_phone: string | null; contact_email: string; primary_address: any } | null; error: any };
 
     if (!clinicProfile) {
-      console.error("No clinic profile found for user:", user.id);
+      console.error("No clinic profile found for clinic:", clinicId);
       setLoading(false);
       return;
     }
 
+    const address = clinicProfile.primary_address;
+    setClinicInfo({
+      name: clinicProfile.clinic_name,
+      address: address
+        ? [address.address_line1, address.area, address.city, address.state, address.postal_code]
+            .filter(Boolean)
+            .join(", ")
+        : undefined,
+      phone: clinicProfile.contact_phone || undefined,
+      email: clinicProfile.contact_email || undefined,
+    });
+
     const { data, error } = await supabase
       .from("bills")
       .select(`
         *,
+        bill_items(*),
         clinic_patient:clinic_patients!inner(
           id,
           clinic_id,
@@ -91,11 +119,17 @@ export function Billing() {
       setBills(data as unknown as BillWithRelations[]);
       setFilteredBills(data as unknown as BillWithRelations[]);
     }
+
+    // Credit notes suggested for cancelled or deleted paid appointments
+    const suggestions = await BillingService.getSuggestedCreditNotes();
+    if (suggestions.success) {
+      setSuggestedCredits(suggestions.data || []);
+    }
     setLoading(false);
   };
 
   useEffect(() => {
-    if (!user) return;
+    if (!clinicId) return;
     fetchBills();
 
     const subscription = supabase
@@ -104,14 +138,14 @@ export function Billing() {
         event: "*",
         schema: "public",
         table: "bills",
-        filter: `user_id=eq.${user.id}`,
+        filter: `user_id=eq.${clinicId}`,
       }, () => fetchBills())
       .subscribe();
 
     return () => {
       subscription.unsubscribe();
     };
-  }, [user]);
+  }, [clinicId]);
 
   useEffect(() => {
     let filtered = bills;
@@ -160,28 +194,13 @@ export function Billing() {
     downloadBillAsHTML(bill);
   };
 
-  const updatePaymentStatus = async (id: string, status: string, paymentMode?: string) => {
-    const updateData = {
-      status,
-      updated_at: new Date().toISOString(),
-      ...(status === "paid" && {
-        payment_date: new Date().toISOString(),
-        ...(paymentMode && { payment_mode: paymentMode }),
-      }),
-    };
-
-    const { error } = await (supabase as any)
-      .from("bills")
-      .update(updateData)
-      .eq("id", id)
-      .select()
-      .single();
-
-    if (error) {
-      alert("Error updating payment: " + error.message);
-    }
+  const handleDownloadPdf = (bill: BillWithRelations) => {
+    downloadBillPDF(bill, clinicInfo);
   };
 
+  const isOutstanding = (bill: BillWithRelations) =>
+    bill.status === "pending" || bill.status === "partially_paid" || bill.status === "overdue";
+
   // Helper to determine if bill is video consultation
   const isVideoBill = (bill: BillWithRelations) => {
     const apt = (bill as any).appointment;
@@ -190,21 +209,21 @@ export function Billing() {
   };
 
   // Stats calculations
-  const totalRevenue = bills
-    .filter((bill) => bill.status === "paid")
-    .reduce((sum, bill) => sum + bill.total_amount, 0);
+  // Revenue is what has been received less refunds, so partly paid bills
+  // count their receipts
+  const totalRevenue = bills.reduce((sum, bill) => sum + billBalance(bill).netPaid, 0);
 
   const pendingAmount = bills
-    .filter((bill) => bill.status === "pending" || bill.status === "overdue")
-    .reduce((sum, bill) => sum + bill.total_amount, 0);
+    .filter(isOutstanding)
+    .reduce((sum, bill) => sum + billBalance(bill).balanceDue, 0);
 
   const videoRevenue = bills
-    .filter((bill) => bill.status === "paid" && isVideoBill(bill))
-    .reduce((sum, bill) => sum + bill.total_amount, 0);
+    .filter(isVideoBill)
+    .reduce((sum, bill) => sum + billBalance(bill).netPaid, 0);
 
   const inClinicRevenue = bills
-    .filter((bill) => bill.status === "paid" && !isVideoBill(bill))
-    .reduce((sum, bill) => sum + bill.total_amount, 0);
+    .filter((bill) => !isVideoBill(bill))
+    .reduce((sum, bill) => sum + billBalance(bill).netPaid, 0);
 
   const videoBillsCount = bills.filter(isVideoBill).length;
   const inClinicBillsCount = bills.filter((b) => !isVideoBill(b)).length;
@@ -272,7 +291,7 @@ export function Billing() {
             <div>
               <p className="text-amber-100 text-sm font-medium">Pending</p>
               <p className="text-3xl font-bold mt-1">₹{pendingAmount.toLocaleString()}</p>
-              <p className="text-amber-200 text-xs mt-1">{bills.filter(b => b.status === "pending").length} awaiting</p>
+              <p className="text-amber-200 text-xs mt-1">{bills.filter(isOutstanding).length} awaiting</p>
             </div>
             <div className="p-3 bg-white/20 rounded-xl">
               <Clock className="h-6 w-6" />
@@ -309,6 +328,47 @@ export function Billing() {
         </div>
       </div>
 
+      {/* Suggested Credit Notes */}
+      {suggestedCredits.length > 0 && (
+        <div className="bg-amber-50 border border-amber-200 rounded-2xl p-4 space-y-3">
+          <div className="flex items-center gap-2 text-amber-800 font-semibold">
+            <RotateCcw className="h-4 w-4" />
+            {suggestedCredits.length} credit note{suggestedCredits.length === 1 ? "" : "s"} suggested
+            for cancelled appointments
+          </div>
+          {suggestedCredits.map((note) => {
+            const bill = bills.find((b) => b.id === note.bill_id);
+            return (
+              <div
+                key={note.id}
+                className="flex flex-wrap items-center justify-between gap-3 bg-white rounded-xl border border-amber-100 px-4 py-3 text-sm"
+              >
+                <div>
+                  <span className="font-medium text-slate-800">
+                    {note.bill?.clinic_patient?.patient_profile?.full_name || "Patient"}
+                  </span>
+                  <span className="text-slate-500 font-mono ml-2">{note.bill?.bill_number}</span>
+                  <p className="text-slate-500">{note.reason}</p>
+                </div>
+                <div className="flex items-center gap-3">
+                  <span className="font-semibold text-slate-900">
+                    ₹{Number(note.amount).toLocaleString()}
+                  </span>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => bill && setCreditBill(bill)}
+                    disabled={!bill}
+                  >
+                    Review
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
       {/* Tabs + Filters */}
       <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-4">
         <div className="flex flex-col lg:flex-row lg:items-center gap-4">
@@ -356,6 +416,7 @@ export function Billing() {
               options={[
                 { value: "", label: "All Status" },
                 { value: "pending", label: "⏳ Pending" },
+                { value: "partially_paid", label: "🌓 Partially Paid" },
                 { value: "paid", label: "✅ Paid" },
                 { value: "overdue", label: "⚠️ Overdue" },
                 { value: "cancelled", label: "❌ Cancelled" },
@@ -373,6 +434,8 @@ export function Billing() {
           const doctorName = apt?.clinic_doctor?.doctor_profile?.full_name;
           const isPaid = bill.status === "paid";
           const isPending = bill.status === "pending";
+          const isPartlyPaid = bill.status === "partially_paid";
+          const balance = billBalance(bill);
 
           return (
             <div
@@ -398,11 +461,12 @@ export function Billing() {
                       {/* Status Badge */}
                       <span className={`inline-flex items-center gap-1 px-3 py-1 rounded-full text-xs font-semibold ${isPaid ? "bg-emerald-100 text-emerald-700" :
                         isPending ? "bg-amber-100 text-amber-700" :
+                          isPartlyPaid ? "bg-sky-100 text-sky-700" :
                           bill.status === "overdue" ? "bg-red-100 text-red-700" :
                             "bg-slate-100 text-slate-600"
                         }`}>
                         {isPaid ? <CheckCircle className="h-3 w-3" /> :
-                          isPending ? <Clock className="h-3 w-3" /> :
+                          isPending || isPartlyPaid ? <Clock className="h-3 w-3" /> :
                             <AlertCircle className="h-3 w-3" />}
                         {(bill.status || "pending").replace("_", " ").toUpperCase()}
                       </span>
@@ -431,10 +495,11 @@ export function Billing() {
                         {format(new Date(bill.created_at), "MMM d, yyyy")}
                       </div>
 
-                      {bill.payment_mode && isPaid && (
+                      {bill.payment_mode && (isPaid || isPartlyPaid) && (
                         <div className="flex items-center gap-1.5 text-emerald-600">
                           <Banknote className="h-4 w-4" />
-                          Paid via {bill.payment_mode.toUpperCase()}
+                          {isPaid ? "Paid" : `₹${Number(bill.amount_paid).toLocaleString()} paid`} via{" "}
+                          {paymentModeLabel(bill.payment_mode)}
                         </div>
                       )}
                     </div>
@@ -455,6 +520,16 @@ export function Billing() {
                       <p className={`text-2xl font-bold ${isPaid ? "text-emerald-600" : "text-slate-900"}`}>
                         ₹{bill.total_amount.toLocaleString()}
                       </p>
+                      {isPartlyPaid && (
+                        <p className="text-xs text-sky-700">
+                          ₹{balance.balanceDue.toLocaleString()} due
+                        </p>
+                      )}
+                      {balance.refundDue > 0 && (
+                        <p className="text-xs text-rose-600">
+                          ₹{balance.refundDue.toLocaleString()} to refund
+                        </p>
+                      )}
                     </div>
 
                     {/* Actions */}
@@ -469,14 +544,36 @@ export function Billing() {
                         View
                       </Button>
 
-                      {isPending && (
+                      {isOutstanding(bill) ? (
                         <Button
                           size="sm"
-                          onClick={() => updatePaymentStatus(bill.id, "paid", "cash")}
+                          onClick={() => setPaymentBill(bill)}
                           className="gap-1.5 bg-emerald-600 hover:bg-emerald-700"
                         >
                           <CreditCard className="h-4 w-4" />
-                          Mark Paid
+                          Record Payment
+                        </Button>
+                      ) : isPaid && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setPaymentBill(bill)}
+                          className="gap-1.5"
+                          title="Payments and receipts"
+                        >
+                          <Receipt className="h-4 w-4" />
+                        </Button>
+                      )}
+
+                      {(balance.refundable > 0 || (balance.creditable > 0 && bill.status !== "cancelled")) && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setCreditBill(bill)}
+                          className="gap-1.5"
+                          title="Credit note / refund"
+                        >
+                          <RotateCcw className="h-4 w-4" />
                         </Button>
                       )}
 
@@ -485,9 +582,20 @@ export function Billing() {
                         variant="outline"
                         onClick={() => handleDownloadBill(bill)}
                         className="gap-1.5"
+                        title="Download invoice (HTML)"
                       >
                         <Download className="h-4 w-4" />
                       </Button>
+
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleDownloadPdf(bill)}
+                        className="gap-1.5"
+                        title="Download invoice (PDF)"
+                      >
+                        <FileDown className="h-4 w-4" />
+                      </Button>
                     </div>
                   </div>
                 </div>
@@ -528,6 +636,27 @@ export function Billing() {
             setSelectedBill(null);
           }}
           onDownload={handleDownloadBill}
+          onDownloadPdf={handleDownloadPdf}
+        />
+      )}
+
+      {paymentBill && (
+        <RecordPaymentModal
+          bill={paymentBill}
+          clinic={clinicInfo}
+          isOpen={!!paymentBill}
+          onClose={() => setPaymentBill(null)}
+          onRecorded={fetchBills}
+        />
+      )}
+
+      {creditBill && (
+        <CreditNoteModal
+          bill={creditBill}
+          clinic={clinicInfo}
+          isOpen={!!creditBill}
+          onClose={() => setCreditBill(null)}
+          onChanged={fetchBills}
         />
       )}
     </div>
@@ -12,6 +12,7 @@ import {
   RefreshCw,
 } from "lucide-react";
 import { MetricCard } from "../components/ui/MetricCard";
+import type { DashboardMetric } from "../services/DashboardService";
 import {
   Card,
   CardHeader,
@@ -26,6 +27,17 @@ import { AddAppointmentModal } from "../components/appointmentComponents/AddAppo
 import { AddBillModal } from "../components/billComponents/AddBillModal";
 import { format } from "date-fns";
 
+// Week-over-week change for a metric card; for backlog metrics (pending bills,
+// overdue follow-ups) a drop is the good direction
+const weeklyTrend = (metric: DashboardMetric, lowerIsBetter = false) =>
+  metric.changePct === null
+    ? undefined
+    : {
+        value: metric.changePct,
+        isPositive: lowerIsBetter ? metric.changePct <= 0 : metric.changePct >= 0,
+        label: "vs last week",
+      };
+
 export function Dashboard() {
   const { metrics, loading, refetch: refetchMetrics } = useDashboardMetrics();
   const { activities, loading: activitiesLoading, refetch: refetchActivities } = useRecentActivity();
@@ -102,31 +114,38 @@ export function Dashboard() {
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-6">
         <MetricCard
           title="Total Patients"
-          value={metrics.totalPatients}
+          value={metrics.totalPatients.value}
+          trend={weeklyTrend(metrics.totalPatients)}
           icon={Users}
           color="blue"
         />
         <MetricCard
           title="Total Doctors"
-          value={metrics.totalDoctors}
+          value={metrics.totalDoctors.value}
+          trend={weeklyTrend(metrics.totalDoctors)}
           icon={UserCheck}
           color="green"
         />
         <MetricCard
           title="Today's Appointments"
-          value={metrics.todayAppointments}
+          value={metrics.todayAppointments.value}
+          trend={weeklyTrend(metrics.todayAppointments)}
           icon={Calendar}
           color="yellow"
         />
-        <MetricCard
-          title="Pending Bills"
-          value={metrics.pendingBills}
-          icon={Receipt}
-          color="red"
-        />
+        {metrics.pendingBills && (
+          <MetricCard
+            title="Pending Bills"
+            value={metrics.pendingBills.value}
+            trend={weeklyTrend(metrics.pendingBills, true)}
+            icon={Receipt}
+            color="red"
+          />
+        )}
         <MetricCard
           title="Overdue Follow-ups"
-          value={metrics.overdueFollowups}
+          value={metrics.overdueFollowups.value}
+          trend={weeklyTrend(metrics.overdueFollowups, true)}
           icon={AlertTriangle}
           color="red"
         />
@@ -4,8 +4,10 @@ import { Plus, Search, Phone, UserCheck, Star } from "lucide-react";
 import { Button } from "../components/ui/Button";
 import { Input } from "../components/ui/Input";
 import { Card, CardContent } from "../components/ui/Card";
+import { ExportListButtons } from "../components/shared/ExportListButtons";
 import { DoctorProfileService } from "../services/DoctorProfileService";
 import { capitalizeWords } from "../utils/textUtils";
+import { DOCTOR_EXPORT_COLUMNS } from "../utils/listExport";
 import type { DoctorProfileWithClinic } from "../services/DoctorProfileService";
 import { format } from "date-fns";
 import { useAuth } from "../hooks/useAuth";
@@ -156,13 +158,18 @@ export function Doctors() {
           <h1 className="text-2xl font-bold text-gray-900">Doctors</h1>
           <p className="text-gray-600 mt-1">Manage your medical staff</p>
         </div>
-        <Button
-          onClick={handleAddDoctor}
-          className="mt-4 sm:mt-0"
-        >
-          <Plus className="h-5 w-5 mr-2" />
-          Add Doctor
-        </Button>
+        <div className="flex gap-2 mt-4 sm:mt-0">
+          <ExportListButtons
+            rows={filteredDoctors}
+            columns={DOCTOR_EXPORT_COLUMNS}
+            filename="doctors"
+            sheetName="Doctors"
+          />
+          <Button onClick={handleAddDoctor}>
+            <Plus className="h-5 w-5 mr-2" />
+            Add Doctor
+          </Button>
+        </div>
       </div>
 
       {/* Search */}
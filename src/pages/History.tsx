@@ -226,6 +226,7 @@ export function History() {
         return "bg-green-100 text-green-800";
       case "scheduled":
       case "pending":
+      case "partially_paid":
         return "bg-yellow-100 text-yellow-800";
       case "cancelled":
         return "bg-red-100 text-red-800";
@@ -20,19 +20,21 @@ import {
 } from "lucide-react";
 import { Button } from "../components/ui/Button";
 import { useAuth } from "../hooks/useAuth";
+import { useClinicAccess } from "../hooks/useClinicAccess";
 import { ClinicProfileService } from "../services";
 import HeaderHome from "../components/HeaderHome";
 
 export function Landing() {
   const { user, signOut } = useAuth();
+  const { clinicId } = useClinicAccess();
   const navigate = useNavigate();
   const [profile, setProfile] = useState<any>(null);
 
   // Fetch profile when user changes
   useEffect(() => {
-    if (user) {
+    if (user && clinicId) {
       const fetchProfile = async () => {
-        const response = await ClinicProfileService.getClinicProfile(user.id);
+        const response = await ClinicProfileService.getClinicProfile(clinicId);
         if (response.success) {
           setProfile(response.data);
         } else {
@@ -43,7 +45,7 @@ export function Landing() {
     } else {
       setProfile(null);
     }
-  }, [user]);
+  }, [user, clinicId]);
 
   const handleSignOut = async () => {
     await signOut();
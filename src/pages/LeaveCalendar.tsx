@@ -0,0 +1,496 @@
+import { useState, useEffect } from "react";
+import {
+  CalendarOff,
+  Plus,
+  Trash2,
+  Building2,
+  User,
+  Calendar,
+  AlertTriangle,
+  ChevronDown,
+  ChevronUp,
+  XCircle,
+  RefreshCw,
+} from "lucide-react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { Button } from "../components/ui/Button";
+import { Input } from "../components/ui/Input";
+import { Select } from "../components/ui/Select";
+import { DoctorProfileService } from "../services/DoctorProfileService";
+import type { DoctorProfileWithClinic } from "../services/DoctorProfileService";
+import {
+  DoctorLeaveService,
+  LeaveCollision,
+  BulkLeaveActionResult,
+} from "../services/DoctorLeaveService";
+import { useClinicAccess } from "../hooks/useClinicAccess";
+import type { DoctorLeaveWithDoctor } from "../types/database";
+import { convertUTCToIST, extractISTDateForInput } from "../utils/timezoneUtils";
+
+const CLINIC_HOLIDAY = "";
+
+const formatDateRange = (leave: DoctorLeaveWithDoctor) =>
+  leave.start_date === leave.end_date
+    ? format(new Date(leave.start_date), "MMM d, yyyy")
+    : `${format(new Date(leave.start_date), "MMM d")} – ${format(new Date(leave.end_date), "MMM d, yyyy")}`;
+
+export function LeaveCalendar() {
+  const [leaves, setLeaves] = useState<DoctorLeaveWithDoctor[]>([]);
+  const [doctors, setDoctors] = useState<DoctorProfileWithClinic[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState({
+    clinic_doctor_id: CLINIC_HOLIDAY,
+    start_date: "",
+    end_date: "",
+    reason: "",
+  });
+  const [expandedLeaveId, setExpandedLeaveId] = useState<string | null>(null);
+  const [collisions, setCollisions] = useState<LeaveCollision[]>([]);
+  const [collisionsLoading, setCollisionsLoading] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [rescheduleDate, setRescheduleDate] = useState("");
+  const [cancelReason, setCancelReason] = useState("");
+  const [actionInProgress, setActionInProgress] = useState(false);
+  const { clinicId } = useClinicAccess();
+
+  const today = extractISTDateForInput(new Date().toISOString());
+
+  const fetchLeaves = async () => {
+    const result = await DoctorLeaveService.getLeaves();
+    if (result.success && result.data) {
+      setLeaves(result.data);
+    } else {
+      console.error("Error fetching leave:", result.error);
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    if (!clinicId) return;
+
+    fetchLeaves();
+    DoctorProfileService.getClinicDoctors({ status: "active" }).then((result) => {
+      if (result.success && result.data) {
+        setDoctors(result.data);
+      }
+    });
+  }, [clinicId]);
+
+  const loadCollisions = async (leave: DoctorLeaveWithDoctor) => {
+    setExpandedLeaveId(leave.id);
+    setCollisionsLoading(true);
+    setSelectedIds([]);
+
+    const result = await DoctorLeaveService.getCollidingAppointments(leave);
+    if (result.success && result.data) {
+      setCollisions(result.data);
+      setSelectedIds(result.data.map((appointment) => appointment.id));
+    } else {
+      toast.error(result.error?.message || "Failed to load booked appointments");
+      setCollisions([]);
+    }
+    setCollisionsLoading(false);
+  };
+
+  const toggleLeave = (leave: DoctorLeaveWithDoctor) => {
+    if (expandedLeaveId === leave.id) {
+      setExpandedLeaveId(null);
+      return;
+    }
+    loadCollisions(leave);
+  };
+
+  const handleCreateLeave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.start_date || !formData.end_date) {
+      toast.error("Please select the start and end dates");
+      return;
+    }
+    if (formData.end_date < formData.start_date) {
+      toast.error("End date must be on or after start date");
+      return;
+    }
+
+    setSaving(true);
+    const result = await DoctorLeaveService.createLeave({
+      clinic_doctor_id: formData.clinic_doctor_id || null,
+      start_date: formData.start_date,
+      end_date: formData.end_date,
+      reason: formData.reason,
+    });
+    setSaving(false);
+
+    if (!result.success || !result.data) {
+      toast.error(result.error?.message || "Failed to save leave");
+      return;
+    }
+
+    toast.success(
+      formData.clinic_doctor_id
+        ? "Leave saved. Slots in this period are now closed for booking."
+        : "Clinic holiday saved. Slots in this period are now closed for booking."
+    );
+    setFormData({ clinic_doctor_id: CLINIC_HOLIDAY, start_date: "", end_date: "", reason: "" });
+    await fetchLeaves();
+    loadCollisions(result.data);
+  };
+
+  const handleDeleteLeave = async (leave: DoctorLeaveWithDoctor) => {
+    if (
+      !window.confirm(
+        "Remove this leave? Slots it closed will be open for booking again."
+      )
+    ) {
+      return;
+    }
+
+    const result = await DoctorLeaveService.deleteLeave(leave.id);
+    if (!result.success) {
+      toast.error(result.error?.message || "Failed to remove leave");
+      return;
+    }
+
+    toast.success("Leave removed");
+    if (expandedLeaveId === leave.id) {
+      setExpandedLeaveId(null);
+    }
+    fetchLeaves();
+  };
+
+  const reportResult = (result: BulkLeaveActionResult, action: string) => {
+    if (result.succeeded.length > 0) {
+      toast.success(`${result.succeeded.length} appointment(s) ${action}. Patients have been notified.`);
+    }
+    if (result.failed.length > 0) {
+      toast.error(
+        `${result.failed.length} appointment(s) could not be ${action}: ${result.failed
+          .map((failure) => failure.reason)
+          .join("; ")}`,
+        { duration: 8000 }
+      );
+    }
+  };
+
+  const selectedAppointments = collisions.filter((appointment) =>
+    selectedIds.includes(appointment.id)
+  );
+
+  const handleBulkCancel = async (leave: DoctorLeaveWithDoctor) => {
+    if (
+      !window.confirm(
+        `Cancel ${selectedAppointments.length} appointment(s) and notify the patients on WhatsApp?`
+      )
+    ) {
+      return;
+    }
+
+    setActionInProgress(true);
+    const result = await DoctorLeaveService.cancelAppointments(
+      selectedAppointments,
+      cancelReason || leave.reason || undefined
+    );
+    setActionInProgress(false);
+
+    if (!result.success || !result.data) {
+      toast.error(result.error?.message || "Failed to cancel appointments");
+      return;
+    }
+
+    reportResult(result.data, "cancelled");
+    loadCollisions(leave);
+  };
+
+  const handleBulkReschedule = async (leave: DoctorLeaveWithDoctor) => {
+    if (!rescheduleDate) {
+      toast.error("Please pick the date to move appointments to");
+      return;
+    }
+    if (rescheduleDate >= leave.start_date && rescheduleDate <= leave.end_date) {
+      toast.error("Pick a date outside the leave period");
+      return;
+    }
+
+    setActionInProgress(true);
+    const result = await DoctorLeaveService.rescheduleAppointments(
+      selectedAppointments,
+      rescheduleDate
+    );
+    setActionInProgress(false);
+
+    if (!result.success || !result.data) {
+      toast.error(result.error?.message || "Failed to reschedule appointments");
+      return;
+    }
+
+    reportResult(result.data, "rescheduled");
+    loadCollisions(leave);
+  };
+
+  const toggleSelected = (appointmentId: string) => {
+    setSelectedIds((ids) =>
+      ids.includes(appointmentId)
+        ? ids.filter((id) => id !== appointmentId)
+        : [...ids, appointmentId]
+    );
+  };
+
+  if (loading) {
+    return (
+      <div className="p-6">
+        <div className="animate-pulse space-y-4">
+          <div className="h-8 bg-gray-200 rounded w-1/4"></div>
+          <div className="h-40 bg-gray-200 rounded-xl"></div>
+          <div className="space-y-4">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="h-20 bg-gray-200 rounded-xl"></div>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6 bg-slate-50 min-h-screen">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-slate-900">Leave & Holidays</h1>
+        <p className="text-slate-500 mt-1">
+          Close a doctor's or the whole clinic's slots for a period and handle the appointments already booked
+        </p>
+      </div>
+
+      {/* Add Leave */}
+      <form
+        onSubmit={handleCreateLeave}
+        className="bg-white rounded-2xl shadow-sm border border-slate-200 p-5 space-y-4"
+      >
+        <h2 className="text-lg font-semibold text-slate-900 flex items-center gap-2">
+          <Plus className="h-5 w-5 text-blue-600" />
+          Add Leave or Holiday
+        </h2>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <Select
+            label="Applies to"
+            value={formData.clinic_doctor_id}
+            onChange={(e) => setFormData({ ...formData, clinic_doctor_id: e.target.value })}
+            options={[
+              { value: CLINIC_HOLIDAY, label: "Whole clinic (holiday)" },
+              ...doctors
+                .filter((doctor) => doctor.clinic_doctor?.id)
+                .map((doctor) => ({
+                  value: doctor.clinic_doctor!.id,
+                  label: `Dr. ${doctor.full_name}`,
+                })),
+            ]}
+          />
+          <Input
+            label="From"
+            type="date"
+            value={formData.start_date}
+            min={today}
+            onChange={(e) => setFormData({ ...formData, start_date: e.target.value })}
+          />
+          <Input
+            label="Until"
+            type="date"
+            value={formData.end_date}
+            min={formData.start_date || today}
+            onChange={(e) => setFormData({ ...formData, end_date: e.target.value })}
+          />
+          <Input
+            label="Reason"
+            placeholder="e.g. Conference, Diwali"
+            value={formData.reason}
+            onChange={(e) => setFormData({ ...formData, reason: e.target.value })}
+          />
+        </div>
+        <div className="flex justify-end">
+          <Button type="submit" disabled={saving}>
+            {saving ? "Saving..." : "Save & Close Slots"}
+          </Button>
+        </div>
+      </form>
+
+      {/* Upcoming Leave */}
+      <div className="space-y-3">
+        {leaves.length === 0 && (
+          <div className="bg-white rounded-2xl border border-slate-200 p-12 text-center">
+            <CalendarOff className="h-10 w-10 text-slate-300 mx-auto mb-3" />
+            <p className="text-slate-500">No upcoming leave or holidays</p>
+          </div>
+        )}
+
+        {leaves.map((leave) => {
+          const isExpanded = expandedLeaveId === leave.id;
+          const isHoliday = !leave.clinic_doctor_id;
+
+          return (
+            <div
+              key={leave.id}
+              className="bg-white rounded-2xl border border-slate-200 shadow-sm"
+            >
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 p-5">
+                <div className="flex items-center gap-3">
+                  <div className={`p-3 rounded-xl ${isHoliday ? "bg-purple-50" : "bg-amber-50"}`}>
+                    {isHoliday ? (
+                      <Building2 className="h-5 w-5 text-purple-600" />
+                    ) : (
+                      <User className="h-5 w-5 text-amber-600" />
+                    )}
+                  </div>
+                  <div>
+                    <p className="font-semibold text-slate-900">
+                      {isHoliday
+                        ? "Clinic holiday"
+                        : `Dr. ${leave.clinic_doctor?.doctor_profile?.full_name || "Doctor"}`}
+                    </p>
+                    <p className="text-sm text-slate-500 flex items-center gap-1.5">
+                      <Calendar className="h-4 w-4" />
+                      {formatDateRange(leave)}
+                      {leave.reason && ` · ${leave.reason}`}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => toggleLeave(leave)}
+                    className="gap-1.5"
+                  >
+                    {isExpanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                    Booked Appointments
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleDeleteLeave(leave)}
+                    className="text-red-600 hover:text-red-800"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+
+              {isExpanded && (
+                <div className="border-t border-slate-200 p-5 space-y-4">
+                  {collisionsLoading ? (
+                    <p className="text-sm text-slate-500">Checking booked appointments...</p>
+                  ) : collisions.length === 0 ? (
+                    <p className="text-sm text-emerald-700">
+                      No appointments are booked in this period.
+                    </p>
+                  ) : (
+                    <>
+                      <div className="flex items-center gap-2 text-sm text-amber-700 bg-amber-50 rounded-lg px-3 py-2">
+                        <AlertTriangle className="h-4 w-4" />
+                        {collisions.length} appointment(s) are booked in this period.
+                        Reschedule or cancel them below.
+                      </div>
+
+                      <div className="divide-y divide-slate-100 border border-slate-200 rounded-xl">
+                        <label className="flex items-center gap-3 px-4 py-2 bg-slate-50 text-sm font-medium text-slate-600">
+                          <input
+                            type="checkbox"
+                            checked={selectedIds.length === collisions.length}
+                            onChange={(e) =>
+                              setSelectedIds(
+                                e.target.checked ? collisions.map((appointment) => appointment.id) : []
+                              )
+                            }
+                            className="rounded border-gray-300 text-blue-600 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200 focus:ring-opacity-50"
+                          />
+                          Select all
+                        </label>
+                        {collisions.map((appointment) => (
+                          <label
+                            key={appointment.id}
+                            className="flex items-center gap-3 px-4 py-3 text-sm"
+                          >
+                            <input
+                              type="checkbox"
+                              checked={selectedIds.includes(appointment.id)}
+                              onChange={() => toggleSelected(appointment.id)}
+                              className="rounded border-gray-300 text-blue-600 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200 focus:ring-opacity-50"
+                            />
+                            <span className="font-medium text-slate-900 w-48 truncate">
+                              {appointment.patient_name}
+                            </span>
+                            <span className="text-slate-500 w-40 truncate">
+                              Dr. {appointment.doctor_name}
+                            </span>
+                            <span className="text-slate-500 flex-1">
+                              {convertUTCToIST(appointment.appointment_datetime)}
+                              {appointment.slot_name && ` · ${appointment.slot_name}`}
+                              {appointment.slot_type === "video" && " (Video)"}
+                            </span>
+                            {!appointment.patient_phone && (
+                              <span className="text-xs text-slate-400">No phone</span>
+                            )}
+                          </label>
+                        ))}
+                      </div>
+
+                      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                        <div className="border border-slate-200 rounded-xl p-4 space-y-3">
+                          <p className="text-sm font-medium text-slate-700">
+                            Move to the same doctor's slots on
+                          </p>
+                          <div className="flex gap-2 items-end">
+                            <div className="flex-1">
+                              <Input
+                                type="date"
+                                value={rescheduleDate}
+                                min={today}
+                                onChange={(e) => setRescheduleDate(e.target.value)}
+                              />
+                            </div>
+                            <Button
+                              onClick={() => handleBulkReschedule(leave)}
+                              disabled={actionInProgress || selectedIds.length === 0}
+                              className="gap-1.5"
+                            >
+                              <RefreshCw className="h-4 w-4" />
+                              Reschedule ({selectedIds.length})
+                            </Button>
+                          </div>
+                        </div>
+                        <div className="border border-slate-200 rounded-xl p-4 space-y-3">
+                          <p className="text-sm font-medium text-slate-700">
+                            Cancel and notify patients
+                          </p>
+                          <div className="flex gap-2 items-end">
+                            <div className="flex-1">
+                              <Input
+                                placeholder={leave.reason || "Reason (optional)"}
+                                value={cancelReason}
+                                onChange={(e) => setCancelReason(e.target.value)}
+                              />
+                            </div>
+                            <Button
+                              variant="danger"
+                              onClick={() => handleBulkCancel(leave)}
+                              disabled={actionInProgress || selectedIds.length === 0}
+                              className="gap-1.5"
+                            >
+                              <XCircle className="h-4 w-4" />
+                              Cancel ({selectedIds.length})
+                            </Button>
+                          </div>
+                        </div>
+                      </div>
+                    </>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
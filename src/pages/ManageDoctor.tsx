@@ -12,6 +12,7 @@ import {
 import { Input } from "../components/ui/Input";
 import { SlotCreationForm } from "../components/doctorComponents/SlotCreationForm";
 import { SlotsManagementTable } from "../components/doctorComponents/SlotsManagementTable";
+import { DoctorPerformanceCard } from "../components/doctorComponents/DoctorPerformanceCard";
 import { toast } from "sonner";
 import {
   Edit,
@@ -1481,6 +1482,13 @@ export function ManageDoctor() {
           </Card>
         </div>
 
+        {/* Performance Section */}
+        {doctor?.clinic_doctor?.id && (
+          <div className="mt-8">
+            <DoctorPerformanceCard clinicDoctorId={doctor.clinic_doctor.id} />
+          </div>
+        )}
+
         {/* Patient Reviews Section */}
         <div className="mt-8">
           <Card className="shadow-md border-0">
@@ -10,6 +10,13 @@ import {
   CardTitle,
 } from "../components/ui/Card";
 import { Input } from "../components/ui/Input";
+import { CommunicationPreferencesForm } from "../components/patientComponents/CommunicationPreferencesForm";
+import {
+  getCommunicationPreferences,
+  patientLanguageLabel,
+  validateQuietHours,
+} from "../utils/communicationPreferences";
+import type { PatientCommunicationPreferences } from "../services/PatientProfileService";
 import { toast } from "sonner";
 import {
   User,
@@ -23,6 +30,7 @@ import {
   Heart,
   Check,
   Loader2,
+  MessageSquare,
 } from "lucide-react";
 import { format } from "date-fns";
 
@@ -32,7 +40,7 @@ export function ManagePatient() {
   const [patient, setPatient] = useState<PatientProfileWithClinic | null>(null);
   const [loading, setLoading] = useState(true);
   const [editingSection, setEditingSection] = useState<
-    "personal" | "medical" | null
+    "personal" | "medical" | "communication" | null
   >(null);
   const [isUpdating, setIsUpdating] = useState(false);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
@@ -65,6 +73,9 @@ export function ManagePatient() {
     medical_notes: "",
   });
 
+  const [communicationFormData, setCommunicationFormData] =
+    useState<PatientCommunicationPreferences>(getCommunicationPreferences(null));
+
   useEffect(() => {
     if (id) {
       fetchPatient();
@@ -144,6 +155,8 @@ export function ManagePatient() {
       family_history: patient.family_history || "",
       medical_notes: patient.medical_notes || "",
     });
+
+    setCommunicationFormData(getCommunicationPreferences(patient));
   };
 
   // Personal info update
@@ -201,6 +214,34 @@ export function ManagePatient() {
     }
   };
 
+  // Communication preferences update
+  const handleCommunicationUpdate = async () => {
+    const quietHoursError = validateQuietHours(communicationFormData);
+    if (quietHoursError) {
+      toast.error(quietHoursError);
+      return;
+    }
+
+    setIsUpdating(true);
+    try {
+      const result = await PatientProfileService.updatePatientProfile(
+        id!,
+        communicationFormData
+      );
+      if (result.success) {
+        toast.success("Communication preferences updated successfully");
+        setEditingSection(null);
+        fetchPatient();
+      } else {
+        toast.error(result.error?.message || "Failed to update");
+      }
+    } catch {
+      toast.error("Failed to update communication preferences");
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
   // Array manipulation helpers
   const addItem = (field: keyof typeof medicalFormData, value: string) => {
     if (!value.trim()) return;
@@ -217,7 +258,9 @@ export function ManagePatient() {
     }));
   };
 
-  const handleEditSection = (section: "personal" | "medical") => {
+  const handleEditSection = (
+    section: "personal" | "medical" | "communication"
+  ) => {
     initializeFormData();
     setEditingSection(section);
   };
@@ -1228,6 +1271,125 @@ export function ManagePatient() {
             </CardContent>
           </Card>
 
+          {/* Communication Preferences Card */}
+          <Card className="border-0 shadow-sm">
+            <CardHeader className="bg-gradient-to-r from-blue-50 to-indigo-50 rounded-t-xl">
+              <CardTitle className="flex items-center justify-between text-blue-900">
+                <div className="flex items-center">
+                  <MessageSquare className="h-5 w-5 mr-2" />
+                  Communication Preferences
+                </div>
+                {editingSection === "communication" ? (
+                  <div className="flex gap-2">
+                    <Button
+                      onClick={handleCancelEdit}
+                      variant="outline"
+                      size="sm"
+                      className="text-gray-600 hover:text-gray-700"
+                      disabled={isUpdating}
+                    >
+                      Cancel
+                    </Button>
+                    <Button
+                      onClick={handleCommunicationUpdate}
+                      size="sm"
+                      disabled={isUpdating}
+                      className="bg-blue-600 hover:bg-blue-700"
+                    >
+                      {isUpdating ? (
+                        <>
+                          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                          Saving...
+                        </>
+                      ) : (
+                        <>
+                          <Check className="h-4 w-4 mr-2" />
+                          Save Changes
+                        </>
+                      )}
+                    </Button>
+                  </div>
+                ) : (
+                  <Button
+                    size="sm"
+                    onClick={() => handleEditSection("communication")}
+                    className="bg-blue-600 hover:bg-blue-700"
+                  >
+                    <Edit className="h-4 w-4 mr-1" />
+                    Edit
+                  </Button>
+                )}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="p-6">
+              {editingSection === "communication" ? (
+                <CommunicationPreferencesForm
+                  value={communicationFormData}
+                  onChange={setCommunicationFormData}
+                  disabled={isUpdating}
+                />
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                  <div>
+                    <label className="text-sm font-medium text-gray-500">
+                      Preferred Language
+                    </label>
+                    <p className="text-lg text-gray-900 mt-1">
+                      {patientLanguageLabel(communicationFormData.preferred_language)}
+                    </p>
+                  </div>
+                  {[
+                    { label: "WhatsApp", allowed: communicationFormData.whatsapp_consent },
+                    { label: "SMS", allowed: communicationFormData.sms_consent },
+                    { label: "Email", allowed: communicationFormData.email_consent },
+                  ].map((channel) => (
+                    <div key={channel.label}>
+                      <label className="text-sm font-medium text-gray-500">
+                        {channel.label}
+                      </label>
+                      <p
+                        className={`text-lg mt-1 ${
+                          channel.allowed ? "text-green-700" : "text-red-600"
+                        }`}
+                      >
+                        {channel.allowed ? "Allowed" : "Opted out"}
+                      </p>
+                    </div>
+                  ))}
+                  <div>
+                    <label className="text-sm font-medium text-gray-500">
+                      Appointment Reminders
+                    </label>
+                    <p className="text-lg text-gray-900 mt-1">
+                      {communicationFormData.reminders_opt_out ? "Off" : "On"}
+                    </p>
+                  </div>
+                  <div>
+                    <label className="text-sm font-medium text-gray-500">
+                      Quiet Hours
+                    </label>
+                    <p className="text-lg text-gray-900 mt-1">
+                      {communicationFormData.quiet_hours_start &&
+                      communicationFormData.quiet_hours_end
+                        ? `${communicationFormData.quiet_hours_start} – ${communicationFormData.quiet_hours_end} IST`
+                        : "None"}
+                    </p>
+                  </div>
+                  <div>
+                    <label className="text-sm font-medium text-gray-500">
+                      Last Changed
+                    </label>
+                    <p className="text-lg text-gray-900 mt-1">
+                      {patient.communication_preferences_updated_at
+                        ? formatDate(patient.communication_preferences_updated_at)
+                        : "Never"}
+                    </p>
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
           {/* End of cards */}
         </div>
 
@@ -0,0 +1,352 @@
+import { useState, useEffect, useCallback } from "react";
+import { useSearchParams } from "react-router-dom";
+import {
+  MessageSquare,
+  Search,
+  RefreshCw,
+  RotateCcw,
+  User,
+  Calendar,
+  Clock,
+  CheckCircle,
+  AlertCircle,
+  Mail,
+  Smartphone,
+  X,
+} from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "../components/ui/Button";
+import { Input } from "../components/ui/Input";
+import { Select } from "../components/ui/Select";
+import { MessageLogService } from "../services/MessageLogService";
+import { useClinicAccess } from "../hooks/useClinicAccess";
+import type { MessageLogWithRelations } from "../types/database";
+import { format } from "date-fns";
+
+const STATUS_STYLES: Record<MessageLogWithRelations["status"], string> = {
+  queued: "bg-blue-100 text-blue-700",
+  retrying: "bg-amber-100 text-amber-700",
+  sent: "bg-emerald-100 text-emerald-700",
+  failed: "bg-red-100 text-red-700",
+  skipped: "bg-slate-100 text-slate-600",
+};
+
+const CHANNEL_LABELS: Record<MessageLogWithRelations["channel"], string> = {
+  whatsapp: "WhatsApp",
+  email: "Email",
+  sms: "SMS",
+};
+
+export function MessageLog() {
+  const [messages, setMessages] = useState<MessageLogWithRelations[]>([]);
+  const [filteredMessages, setFilteredMessages] = useState<MessageLogWithRelations[]>([]);
+  const [searchTerm, setSearchTerm] = useState("");
+  const [statusFilter, setStatusFilter] = useState("");
+  const [channelFilter, setChannelFilter] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [resendingId, setResendingId] = useState<string | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { clinicId, loading: accessLoading } = useClinicAccess();
+
+  const patientId = searchParams.get("patientId") || undefined;
+  const appointmentId = searchParams.get("appointmentId") || undefined;
+
+  const fetchMessages = useCallback(async () => {
+    // Nothing to load for a login without a clinic
+    if (!clinicId) {
+      if (!accessLoading) setLoading(false);
+      return;
+    }
+
+    const result = await MessageLogService.getMessages({
+      patientId,
+      appointmentId,
+      status: (statusFilter || undefined) as MessageLogWithRelations["status"] | undefined,
+      channel: (channelFilter || undefined) as MessageLogWithRelations["channel"] | undefined,
+    });
+
+    if (result.success && result.data) {
+      setMessages(result.data);
+    } else {
+      console.error("Error fetching messages:", result.error);
+    }
+    setLoading(false);
+  }, [clinicId, accessLoading, patientId, appointmentId, statusFilter, channelFilter]);
+
+  useEffect(() => {
+    fetchMessages();
+  }, [fetchMessages]);
+
+  useEffect(() => {
+    if (!searchTerm) {
+      setFilteredMessages(messages);
+      return;
+    }
+
+    const term = searchTerm.toLowerCase();
+    setFilteredMessages(
+      messages.filter(
+        (message) =>
+          message.patient_profile?.full_name?.toLowerCase().includes(term) ||
+          message.recipient.toLowerCase().includes(term) ||
+          message.template.toLowerCase().includes(term)
+      )
+    );
+  }, [searchTerm, messages]);
+
+  const handleResend = async (message: MessageLogWithRelations) => {
+    setResendingId(message.id);
+    const result = await MessageLogService.resendMessage(message.id);
+    setResendingId(null);
+
+    if (!result.success) {
+      toast.error(result.error?.message || "Failed to resend message");
+      return;
+    }
+
+    toast.success(
+      message.channel === "whatsapp" ? "Message queued for delivery" : "Message resent"
+    );
+    fetchMessages();
+  };
+
+  const clearScope = () => {
+    setSearchParams({});
+  };
+
+  const sentCount = messages.filter((m) => m.status === "sent").length;
+  const pendingCount = messages.filter((m) => m.status === "queued" || m.status === "retrying").length;
+  const failedCount = messages.filter((m) => m.status === "failed").length;
+
+  const scopeLabel = appointmentId
+    ? "this appointment"
+    : patientId
+      ? messages[0]?.patient_profile?.full_name || "this patient"
+      : null;
+
+  if (loading) {
+    return (
+      <div className="p-6">
+        <div className="animate-pulse space-y-4">
+          <div className="h-8 bg-gray-200 rounded w-1/4"></div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="h-28 bg-gray-200 rounded-xl"></div>
+            ))}
+          </div>
+          <div className="h-12 bg-gray-200 rounded"></div>
+          <div className="space-y-4">
+            {[...Array(5)].map((_, i) => (
+              <div key={i} className="h-24 bg-gray-200 rounded-xl"></div>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6 bg-slate-50 min-h-screen">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-slate-900">Patient Messages</h1>
+          <p className="text-slate-500 mt-1">WhatsApp, email and SMS delivery history</p>
+        </div>
+        <div className="flex gap-3 mt-4 sm:mt-0">
+          <Button variant="outline" onClick={fetchMessages} className="gap-2">
+            <RefreshCw className="h-4 w-4" />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {/* Delivery Stats */}
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div className="bg-white rounded-2xl border border-slate-200 p-5 shadow-sm">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-slate-500 text-sm font-medium">Delivered</p>
+              <p className="text-3xl font-bold mt-1 text-emerald-600">{sentCount}</p>
+            </div>
+            <div className="p-3 bg-emerald-50 rounded-xl">
+              <CheckCircle className="h-6 w-6 text-emerald-600" />
+            </div>
+          </div>
+        </div>
+        <div className="bg-white rounded-2xl border border-slate-200 p-5 shadow-sm">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-slate-500 text-sm font-medium">In Queue</p>
+              <p className="text-3xl font-bold mt-1 text-amber-600">{pendingCount}</p>
+            </div>
+            <div className="p-3 bg-amber-50 rounded-xl">
+              <Clock className="h-6 w-6 text-amber-600" />
+            </div>
+          </div>
+        </div>
+        <div className="bg-white rounded-2xl border border-slate-200 p-5 shadow-sm">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-slate-500 text-sm font-medium">Failed</p>
+              <p className="text-3xl font-bold mt-1 text-red-600">{failedCount}</p>
+            </div>
+            <div className="p-3 bg-red-50 rounded-xl">
+              <AlertCircle className="h-6 w-6 text-red-600" />
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-4 space-y-3">
+        {scopeLabel && (
+          <div className="flex items-center gap-2 text-sm">
+            <span className="text-slate-500">Showing messages for</span>
+            <span className="inline-flex items-center gap-1 px-3 py-1 rounded-full bg-blue-100 text-blue-700 font-medium">
+              {scopeLabel}
+              <button onClick={clearScope} className="hover:text-blue-900" aria-label="Show all messages">
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          </div>
+        )}
+        <div className="flex flex-col lg:flex-row gap-3">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-slate-400" />
+            <Input
+              placeholder="Search patient, recipient or template..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-10 border-slate-200"
+            />
+          </div>
+          <Select
+            label=""
+            name="channelFilter"
+            value={channelFilter}
+            onChange={(e) => setChannelFilter(e.target.value)}
+            options={[
+              { value: "", label: "All Channels" },
+              { value: "whatsapp", label: "WhatsApp" },
+              { value: "email", label: "Email" },
+              { value: "sms", label: "SMS" },
+            ]}
+          />
+          <Select
+            label=""
+            name="statusFilter"
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value)}
+            options={[
+              { value: "", label: "All Status" },
+              { value: "queued", label: "Queued" },
+              { value: "retrying", label: "Retrying" },
+              { value: "sent", label: "Sent" },
+              { value: "failed", label: "Failed" },
+              { value: "skipped", label: "Skipped" },
+            ]}
+          />
+        </div>
+      </div>
+
+      {/* Message List */}
+      <div className="space-y-3">
+        {filteredMessages.map((message) => {
+          const ChannelIcon =
+            message.channel === "email" ? Mail : message.channel === "sms" ? Smartphone : MessageSquare;
+          const canResend = message.status === "failed" || message.status === "skipped" || message.status === "sent";
+
+          return (
+            <div
+              key={message.id}
+              className="bg-white rounded-2xl border border-slate-200 shadow-sm hover:shadow-md transition-all p-5"
+            >
+              <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+                <div className="flex-1 space-y-2">
+                  <div className="flex flex-wrap items-center gap-3">
+                    <span className="inline-flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-semibold bg-slate-100 text-slate-700">
+                      <ChannelIcon className="h-3 w-3" />
+                      {CHANNEL_LABELS[message.channel]}
+                    </span>
+                    <span className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-semibold ${STATUS_STYLES[message.status]}`}>
+                      {message.status.toUpperCase()}
+                    </span>
+                    <span className="text-sm font-mono text-slate-500">{message.template}</span>
+                    {message.resent_from && (
+                      <span className="text-xs text-slate-400">Resend</span>
+                    )}
+                  </div>
+
+                  <div className="flex flex-wrap items-center gap-x-5 gap-y-2 text-sm">
+                    <button
+                      className="flex items-center gap-1.5 text-slate-700 hover:text-blue-600"
+                      onClick={() =>
+                        message.patient_profile_id &&
+                        setSearchParams({ patientId: message.patient_profile_id })
+                      }
+                    >
+                      <User className="h-4 w-4 text-slate-400" />
+                      <span className="font-medium">
+                        {message.patient_profile?.full_name || "Unknown Patient"}
+                      </span>
+                    </button>
+                    <span className="text-slate-500">{message.recipient}</span>
+                    {message.appointment && (
+                      <button
+                        className="flex items-center gap-1.5 text-slate-500 hover:text-blue-600"
+                        onClick={() => setSearchParams({ appointmentId: message.appointment!.id })}
+                      >
+                        <Calendar className="h-4 w-4" />
+                        Appointment {format(new Date(message.appointment.appointment_datetime), "MMM d, h:mm a")}
+                      </button>
+                    )}
+                    <div className="flex items-center gap-1.5 text-slate-500">
+                      <Clock className="h-4 w-4" />
+                      {format(new Date(message.created_at), "MMM d, yyyy h:mm a")}
+                      {message.attempts > 1 && ` · ${message.attempts} attempts`}
+                    </div>
+                  </div>
+
+                  {message.error && (
+                    <p className="text-xs text-red-600 bg-red-50 rounded-lg px-3 py-2">
+                      {message.error}
+                    </p>
+                  )}
+                </div>
+
+                {canResend && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleResend(message)}
+                    disabled={resendingId === message.id}
+                    className="gap-1.5"
+                  >
+                    <RotateCcw className="h-4 w-4" />
+                    {resendingId === message.id ? "Resending..." : "Resend"}
+                  </Button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Empty State */}
+      {filteredMessages.length === 0 && (
+        <div className="bg-white rounded-2xl border border-slate-200 p-12 text-center">
+          <div className="w-16 h-16 bg-slate-100 rounded-2xl flex items-center justify-center mx-auto mb-4">
+            <MessageSquare className="h-8 w-8 text-slate-400" />
+          </div>
+          <h3 className="text-lg font-semibold text-slate-900 mb-2">No messages found</h3>
+          <p className="text-slate-500 max-w-sm mx-auto">
+            {searchTerm || statusFilter || channelFilter || scopeLabel
+              ? "Try adjusting your filters"
+              : "Messages sent to patients will appear here"}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -9,15 +9,21 @@ import {
   AlertTriangle,
   Pill,
   FileText,
+  Upload,
+  Copy,
 } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { Button } from "../components/ui/Button";
 import { Input } from "../components/ui/Input";
 import { Card, CardContent } from "../components/ui/Card";
+import { ImportPatientsModal } from "../components/patientComponents/ImportPatientsModal";
+import { DuplicatePatientsModal } from "../components/patientComponents/DuplicatePatientsModal";
+import { ExportListButtons } from "../components/shared/ExportListButtons";
 import { PatientProfileService } from "../services/PatientProfileService";
 import { useAuth } from "../hooks/useAuth";
 import type { PatientProfileWithClinic } from "../services/PatientProfileService";
 import { capitalizeWords } from "../utils/textUtils";
+import { PATIENT_EXPORT_COLUMNS } from "../utils/listExport";
 import { format } from "date-fns";
 
 export function Patients() {
@@ -28,6 +34,9 @@ export function Patients() {
   >([]);
   const [searchTerm, setSearchTerm] = useState("");
   const [loading, setLoading] = useState(true);
+  const [showImport, setShowImport] = useState(false);
+  const [showDuplicates, setShowDuplicates] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
   const { user } = useAuth();
 
   useEffect(() => {
@@ -48,7 +57,7 @@ export function Patients() {
     };
 
     fetchPatients();
-  }, [user]);
+  }, [user, reloadKey]);
 
   useEffect(() => {
     const filtered = patients.filter((patient) => {
@@ -332,10 +341,26 @@ export function Patients() {
           <h1 className="text-2xl font-bold text-gray-900">Patients</h1>
           <p className="text-gray-600 mt-1">Manage your patient records</p>
         </div>
-        <Button onClick={handleAddPatient} className="mt-4 sm:mt-0">
-          <Plus className="h-5 w-5 mr-2" />
-          Add Patient
-        </Button>
+        <div className="flex gap-2 mt-4 sm:mt-0">
+          <ExportListButtons
+            rows={filteredPatients}
+            columns={PATIENT_EXPORT_COLUMNS}
+            filename="patients"
+            sheetName="Patients"
+          />
+          <Button variant="outline" onClick={() => setShowDuplicates(true)}>
+            <Copy className="h-5 w-5 mr-2" />
+            Duplicates
+          </Button>
+          <Button variant="outline" onClick={() => setShowImport(true)}>
+            <Upload className="h-5 w-5 mr-2" />
+            Import
+          </Button>
+          <Button onClick={handleAddPatient}>
+            <Plus className="h-5 w-5 mr-2" />
+            Add Patient
+          </Button>
+        </div>
       </div>
 
       {/* Search */}
@@ -478,6 +503,18 @@ export function Patients() {
           </CardContent>
         </Card>
       )}
+
+      <ImportPatientsModal
+        isOpen={showImport}
+        onClose={() => setShowImport(false)}
+        onSuccess={() => setReloadKey((key) => key + 1)}
+      />
+
+      <DuplicatePatientsModal
+        isOpen={showDuplicates}
+        onClose={() => setShowDuplicates(false)}
+        onMerged={() => setReloadKey((key) => key + 1)}
+      />
     </div>
   );
 }
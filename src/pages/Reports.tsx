@@ -1,10 +1,11 @@
-import { useState, useEffect, useMemo } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import {
   Users,
   Calendar,
   TrendingUp,
   Activity,
   Download,
+  FileSpreadsheet,
   BarChart3,
   LineChart,
   PieChart,
@@ -26,7 +27,6 @@ import {
   Area,
   AreaChart,
 } from "recharts";
-import { AppointmentStatus, BillingStatus } from "../constants";
 import {
   Card,
   CardHeader,
@@ -35,41 +35,40 @@ import {
 } from "../components/ui/Card";
 import { Button } from "../components/ui/Button";
 import { Select } from "../components/ui/Select";
-import { supabase } from "../lib/supabase";
-import { useAuth } from "../hooks/useAuth";
-import { format, subDays, startOfMonth, endOfMonth } from "date-fns";
+import { Input } from "../components/ui/Input";
+import { toast } from "sonner";
+import { WaitTimeAnalyticsCard } from "../components/reportComponents/WaitTimeAnalyticsCard";
+import { ReportSubscriptionsCard } from "../components/reportComponents/ReportSubscriptionsCard";
+import { useClinicAccess } from "../hooks/useClinicAccess";
+import { ClinicProfileService } from "../services/ClinicProfileService";
+import {
+  ReportsService,
+  ClinicReport,
+  ReportBreakdownRow,
+  ReportDimension,
+  DoctorPerformance,
+  ReportSummary,
+} from "../services/ReportsService";
+import {
+  formatReportPeriod,
+  formatReportRange,
+  getDefaultReportInterval,
+  getPercentChange,
+  getPreviousReportRange,
+  REPORT_RANGE_OPTIONS,
+  ReportInterval,
+  ReportRangePreset,
+  resolveReportRange,
+} from "../utils/reportUtils";
+import {
+  chartToImage,
+  generateReportPDF,
+  generateReportXLSX,
+  ReportExportData,
+} from "../utils/reportExport";
+import { downloadBlob } from "../utils/downloadUtil";
 
 // Type definitions for Reports page
-interface AppointmentData {
-  id: string;
-  status: string;
-  appointment_datetime: string;
-  created_at: string;
-}
-
-interface BillData {
-  id: string;
-  total_amount: number;
-  status: string;
-  created_at: string;
-}
-
-interface ClinicPatientData {
-  id: string;
-  created_at: string;
-  patient_profile: {
-    full_name: string;
-  };
-}
-
-interface ClinicDoctorData {
-  id: string;
-  created_at: string;
-  doctor_profile: {
-    full_name: string;
-  };
-}
-
 interface ReportData {
   appointmentStats: {
     total: number;
@@ -82,6 +81,8 @@ interface ReportData {
     paidAmount: number;
     pendingAmount: number;
     overdueAmount: number;
+    creditedAmount: number;
+    refundedAmount: number;
   };
   patientStats: {
     totalPatients: number;
@@ -121,6 +122,70 @@ interface ChartData {
 
 type ChartView = "line" | "bar" | "area" | "pie";
 
+const BREAKDOWN_OPTIONS: { value: ReportDimension; label: string }[] = [
+  { value: "doctor", label: "Doctor" },
+  { value: "department", label: "Department" },
+  { value: "appointment_type", label: "Appointment Type" },
+];
+
+const INTERVAL_OPTIONS: { value: ReportInterval; label: string }[] = [
+  { value: "day", label: "Daily" },
+  { value: "week", label: "Weekly" },
+  { value: "month", label: "Monthly" },
+];
+
+const toReportData = (summary: ReportSummary): ReportData => ({
+  appointmentStats: {
+    total: summary.appointments.total,
+    completed: summary.appointments.completed,
+    cancelled: summary.appointments.cancelled,
+    noShow: summary.appointments.noShow,
+  },
+  revenueStats: {
+    totalRevenue: summary.revenue.total,
+    paidAmount: summary.revenue.paid,
+    pendingAmount: summary.revenue.pending,
+    overdueAmount: summary.revenue.overdue,
+    creditedAmount: summary.revenue.credited,
+    refundedAmount: summary.revenue.refunded,
+  },
+  patientStats: {
+    totalPatients: summary.patients.total,
+    newPatients: summary.patients.new,
+    returningPatients: summary.patients.returning,
+  },
+  doctorStats: {
+    totalDoctors: summary.doctors.total,
+    averageAppointments: summary.doctors.averageAppointments,
+  },
+});
+
+// Change against the previous period, shown under a stat when comparing
+function PeriodChange({
+  current,
+  previous,
+  lowerIsBetter = false,
+}: {
+  current: number;
+  previous?: number;
+  lowerIsBetter?: boolean;
+}) {
+  if (previous === undefined) return null;
+
+  const change = getPercentChange(current, previous);
+  if (change === null) {
+    return <p className="text-xs text-gray-400 mt-1">No data last period</p>;
+  }
+
+  const isGood = lowerIsBetter ? change <= 0 : change >= 0;
+  return (
+    <p className={`text-xs mt-1 ${isGood ? "text-green-600" : "text-red-600"}`}>
+      {change > 0 ? "+" : ""}
+      {change}% vs previous period
+    </p>
+  );
+}
+
 export function Reports() {
   const [reportData, setReportData] = useState<ReportData>({
     appointmentStats: { total: 0, completed: 0, cancelled: 0, noShow: 0 },
@@ -129,6 +194,8 @@ export function Reports() {
       paidAmount: 0,
       pendingAmount: 0,
       overdueAmount: 0,
+      creditedAmount: 0,
+      refundedAmount: 0,
     },
     patientStats: { totalPatients: 0, newPatients: 0, returningPatients: 0 },
     doctorStats: { totalDoctors: 0, averageAppointments: 0 },
@@ -141,10 +208,24 @@ export function Reports() {
     revenueDistribution: [],
   });
 
-  const [dateRange, setDateRange] = useState("thisMonth");
+  const [previousReportData, setPreviousReportData] = useState<ReportData | null>(null);
+  const [breakdown, setBreakdown] = useState<ReportBreakdownRow[]>([]);
+  const [doctorPerformance, setDoctorPerformance] = useState<DoctorPerformance[]>([]);
+
+  const [dateRange, setDateRange] = useState<ReportRangePreset>("thisMonth");
+  const [customStart, setCustomStart] = useState("");
+  const [customEnd, setCustomEnd] = useState("");
+  const [trendInterval, setTrendInterval] = useState<ReportInterval>("day");
+  const [dimension, setDimension] = useState<ReportDimension>("doctor");
+  const [compare, setCompare] = useState(false);
   const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [report, setReport] = useState<ClinicReport | null>(null);
+  const [exporting, setExporting] = useState<"pdf" | "xlsx" | null>(null);
+  const appointmentChartRef = useRef<HTMLDivElement>(null);
+  const revenueChartRef = useRef<HTMLDivElement>(null);
   const [chartView, setChartView] = useState<ChartView>("bar");
-  const { user } = useAuth();
+  const { clinicId } = useClinicAccess();
 
   // Define colors for charts (memoized to prevent useEffect dependency issues)
   const COLORS = useMemo(
@@ -159,295 +240,116 @@ export function Reports() {
     []
   );
 
+  const reportRange = useMemo(
+    () =>
+      resolveReportRange(dateRange, {
+        startDate: customStart,
+        endDate: customEnd,
+      }),
+    [dateRange, customStart, customEnd]
+  );
+
+  const handleDateRangeChange = (preset: ReportRangePreset) => {
+    setDateRange(preset);
+    setTrendInterval(getDefaultReportInterval(resolveReportRange(preset)));
+  };
+
   useEffect(() => {
-    if (!user) return;
+    if (!clinicId) return;
 
     const fetchReportData = async () => {
       setLoading(true);
+      setError(null);
 
-      const today = new Date();
-      let startDate: Date;
-      let endDate: Date = today;
-
-      switch (dateRange) {
-        case "last7Days":
-          startDate = subDays(today, 7);
-          break;
-        case "last30Days":
-          startDate = subDays(today, 30);
-          break;
-        case "thisMonth":
-          startDate = startOfMonth(today);
-          endDate = endOfMonth(today);
-          break;
-        default:
-          startDate = subDays(today, 30);
-      }
-
-      try {
-        // Execute all queries in parallel for better performance
-        const [
-          appointmentsResult,
-          billsResult,
-          allPatientsResult,
-          newPatientsResult,
-          doctorsResult,
-        ] = await Promise.all([
-          // Fetch appointment statistics
-          supabase
-            .from("appointments")
-            .select("id, status, appointment_datetime, created_at")
-            .eq("user_id", user.id)
-            .gte("appointment_datetime", startDate.toISOString())
-            .lte("appointment_datetime", endDate.toISOString()),
-
-          // Fetch revenue statistics
-          supabase
-            .from("bills")
-            .select("id, total_amount, status, created_at")
-            .eq("user_id", user.id)
-            .gte("created_at", startDate.toISOString())
-            .lte("created_at", endDate.toISOString()),
-
-          // Fetch all patient statistics using clinic_patients
-          supabase
-            .from("clinic_patients")
-            .select(
-              `
-              id,
-              created_at,
-              patient_profile:patient_profiles(full_name)
-            `
-            )
-            .eq("clinic_id", user.id),
-
-          // Fetch new patients in date range using clinic_patients
-          supabase
-            .from("clinic_patients")
-            .select(
-              `
-              id,
-              created_at,
-              patient_profile:patient_profiles(full_name)
-            `
-            )
-            .eq("clinic_id", user.id)
-            .gte("created_at", startDate.toISOString())
-            .lte("created_at", endDate.toISOString()),
-
-          // Fetch doctor statistics using clinic_doctors
-          supabase
-            .from("clinic_doctors")
-            .select(
-              `
-              id,
-              created_at,
-              is_active,
-              doctor_profile:doctor_profiles(full_name)
-            `
-            )
-            .eq("clinic_id", user.id)
-            .eq("is_active", true),
-        ]);
-
-        // Extract data from results
-        const appointments =
-          (appointmentsResult.data as AppointmentData[]) || [];
-        const bills = (billsResult.data as BillData[]) || [];
-        const allPatients =
-          (allPatientsResult.data as ClinicPatientData[]) || [];
-        const newPatients =
-          (newPatientsResult.data as ClinicPatientData[]) || [];
-        const doctors = (doctorsResult.data as ClinicDoctorData[]) || [];
-
-        // Calculate statistics with proper typing
-        const appointmentStats = {
-          total: appointments.length,
-          completed: appointments.filter(
-            (a: AppointmentData) => a.status === AppointmentStatus.COMPLETED
-          ).length,
-          cancelled: appointments.filter(
-            (a: AppointmentData) => a.status === AppointmentStatus.CANCELLED
-          ).length,
-          noShow: appointments.filter(
-            (a: AppointmentData) => a.status === AppointmentStatus.NO_SHOW
-          ).length,
-        };
-
-        const revenueStats = {
-          totalRevenue: bills.reduce(
-            (sum: number, bill: BillData) => sum + bill.total_amount,
-            0
-          ),
-          paidAmount: bills
-            .filter((b: BillData) => b.status === BillingStatus.PAID)
-            .reduce(
-              (sum: number, bill: BillData) => sum + bill.total_amount,
-              0
-            ),
-          pendingAmount: bills
-            .filter((b: BillData) => b.status === BillingStatus.PENDING)
-            .reduce(
-              (sum: number, bill: BillData) => sum + bill.total_amount,
-              0
-            ),
-          overdueAmount: bills
-            .filter((b: BillData) => b.status === BillingStatus.OVERDUE)
-            .reduce(
-              (sum: number, bill: BillData) => sum + bill.total_amount,
-              0
-            ),
-        };
-
-        const patientStats = {
-          totalPatients: allPatients.length,
-          newPatients: newPatients.length,
-          returningPatients: allPatients.length - newPatients.length,
-        };
-
-        const doctorStats = {
-          totalDoctors: doctors.length,
-          averageAppointments: doctors.length
-            ? Math.round(appointmentStats.total / doctors.length)
-            : 0,
-        };
-
-        setReportData({
-          appointmentStats,
-          revenueStats,
-          patientStats,
-          doctorStats,
-        });
-
-        // Generate chart data
-        const generateChartData = () => {
-          // Appointment distribution for pie chart
-          const appointmentDistribution = [
-            {
-              name: "Completed",
-              value: appointmentStats.completed,
-              color: COLORS.success,
-            },
-            {
-              name: "Cancelled",
-              value: appointmentStats.cancelled,
-              color: COLORS.danger,
-            },
-            {
-              name: "No Show",
-              value: appointmentStats.noShow,
-              color: COLORS.warning,
-            },
-            {
-              name: "Scheduled",
-              value:
-                appointmentStats.total -
-                appointmentStats.completed -
-                appointmentStats.cancelled -
-                appointmentStats.noShow,
-              color: COLORS.primary,
-            },
-          ].filter((item) => item.value > 0);
-
-          // Revenue distribution for pie chart
-          const revenueDistribution = [
-            {
-              name: "Paid",
-              value: revenueStats.paidAmount,
-              color: COLORS.success,
-            },
-            {
-              name: "Pending",
-              value: revenueStats.pendingAmount,
-              color: COLORS.warning,
-            },
-            {
-              name: "Overdue",
-              value: revenueStats.overdueAmount,
-              color: COLORS.danger,
-            },
-          ].filter((item) => item.value > 0);
-
-          // Generate daily trends for line/bar charts
-          const appointmentTrends = [];
-          const revenueTrends = [];
-
-          // Create sample trend data for the selected period
-          const daysInPeriod = Math.min(
-            30,
-            Math.ceil(
-              (endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)
-            )
-          );
+      const result = await ReportsService.getReport(reportRange, {
+        interval: trendInterval,
+        dimension,
+        compare,
+      });
 
-          for (let i = 0; i < daysInPeriod; i++) {
-            const currentDate = new Date(startDate);
-            currentDate.setDate(startDate.getDate() + i);
-
-            // Filter appointments for this day
-            const dayAppointments = appointments.filter((apt) => {
-              const aptDate = new Date(apt.appointment_datetime);
-              return aptDate.toDateString() === currentDate.toDateString();
-            });
-
-            // Filter bills for this day
-            const dayBills = bills.filter((bill) => {
-              const billDate = new Date(bill.created_at);
-              return billDate.toDateString() === currentDate.toDateString();
-            });
-
-            appointmentTrends.push({
-              date: format(currentDate, "MMM dd"),
-              completed: dayAppointments.filter(
-                (a: AppointmentData) => a.status === AppointmentStatus.COMPLETED
-              ).length,
-              cancelled: dayAppointments.filter(
-                (a: AppointmentData) => a.status === AppointmentStatus.CANCELLED
-              ).length,
-              scheduled: dayAppointments.filter(
-                (a: AppointmentData) => a.status === AppointmentStatus.SCHEDULED
-              ).length,
-            });
-
-            revenueTrends.push({
-              date: format(currentDate, "MMM dd"),
-              revenue: dayBills.reduce(
-                (sum: number, bill: BillData) => sum + bill.total_amount,
-                0
-              ),
-              paid: dayBills
-                .filter((b: BillData) => b.status === BillingStatus.PAID)
-                .reduce(
-                  (sum: number, bill: BillData) => sum + bill.total_amount,
-                  0
-                ),
-              pending: dayBills
-                .filter((b: BillData) => b.status === BillingStatus.PENDING)
-                .reduce(
-                  (sum: number, bill: BillData) => sum + bill.total_amount,
-                  0
-                ),
-            });
-          }
-
-          return {
-            appointmentTrends,
-            revenueTrends,
-            appointmentDistribution,
-            revenueDistribution,
-          };
-        };
-
-        setChartData(generateChartData());
-      } catch (error) {
-        console.error("Error fetching report data:", error);
-      } finally {
+      if (!result.success || !result.data) {
+        console.error("Error fetching report data:", result.error);
+        setError(result.error?.message || "Failed to load reports");
         setLoading(false);
+        return;
       }
+
+      setReport(result.data);
+      const { summary, previousSummary, series } = result.data;
+      const appointmentStats = summary.appointments;
+      const revenueStats = summary.revenue;
+
+      setReportData(toReportData(summary));
+      setPreviousReportData(previousSummary ? toReportData(previousSummary) : null);
+      setBreakdown(result.data.breakdown);
+      setDoctorPerformance(result.data.doctorPerformance);
+
+      // Appointment distribution for pie chart
+      const appointmentDistribution = [
+        {
+          name: "Completed",
+          value: appointmentStats.completed,
+          color: COLORS.success,
+        },
+        {
+          name: "Cancelled",
+          value: appointmentStats.cancelled,
+          color: COLORS.danger,
+        },
+        {
+          name: "No Show",
+          value: appointmentStats.noShow,
+          color: COLORS.warning,
+        },
+        {
+          name: "Scheduled",
+          value: appointmentStats.scheduled,
+          color: COLORS.primary,
+        },
+      ].filter((item) => item.value > 0);
+
+      // Revenue distribution for pie chart
+      const revenueDistribution = [
+        {
+          name: "Paid",
+          value: revenueStats.paid,
+          color: COLORS.success,
+        },
+        {
+          name: "Pending",
+          value: revenueStats.pending,
+          color: COLORS.warning,
+        },
+        {
+          name: "Overdue",
+          value: revenueStats.overdue,
+          color: COLORS.danger,
+        },
+      ].filter((item) => item.value > 0);
+
+      // Trends come back from the database already bucketed by interval
+      setChartData({
+        appointmentTrends: series.map((point) => ({
+          date: formatReportPeriod(point.periodStart, trendInterval),
+          completed: point.completed,
+          cancelled: point.cancelled,
+          scheduled: point.scheduled,
+        })),
+        revenueTrends: series.map((point) => ({
+          date: formatReportPeriod(point.periodStart, trendInterval),
+          revenue: point.revenue,
+          paid: point.paid,
+          pending: point.pending,
+        })),
+        appointmentDistribution,
+        revenueDistribution,
+      });
+
+      setLoading(false);
     };
 
     fetchReportData();
-  }, [user, dateRange, COLORS]);
+  }, [clinicId, reportRange, trendInterval, dimension, compare, COLORS]);
 
   // Chart rendering functions
   const renderAppointmentChart = () => {
@@ -669,244 +571,57 @@ export function Reports() {
     );
   };
 
-  const exportReport = () => {
-    const today = new Date();
-    let startDate: Date;
-    let endDate: Date = today;
-
-    switch (dateRange) {
-      case "last7Days":
-        startDate = subDays(today, 7);
-        break;
-      case "last30Days":
-        startDate = subDays(today, 30);
-        break;
-      case "thisMonth":
-        startDate = startOfMonth(today);
-        endDate = endOfMonth(today);
-        break;
-      default:
-        startDate = subDays(today, 30);
+  const handleExport = async (exportFormat: "pdf" | "xlsx") => {
+    if (!report || !clinicId) return;
+
+    setExporting(exportFormat);
+    try {
+      const [profileResult, waitTimesResult] = await Promise.all([
+        ClinicProfileService.getClinicProfile(clinicId),
+        ReportsService.getWaitTimeAnalytics(report.range),
+      ]);
+      const profile = profileResult.data;
+
+      const exportData: ReportExportData = {
+        clinicName: profile?.clinic_name || "Clinic",
+        logoUrl: profile ? ClinicProfileService.getLogoUrl(profile) : null,
+        range: report.range,
+        previousRange: report.previousRange,
+        summary: report.summary,
+        previousSummary: report.previousSummary,
+        interval: trendInterval,
+        series: report.series,
+        breakdownLabel:
+          BREAKDOWN_OPTIONS.find((option) => option.value === dimension)?.label ||
+          "Group",
+        breakdown: report.breakdown,
+        doctorPerformance: report.doctorPerformance,
+        waitTimes: waitTimesResult.data,
+      };
+
+      const filename = `clinic-report-${report.range.startDate}-to-${report.range.endDate}`;
+
+      if (exportFormat === "xlsx") {
+        downloadBlob(generateReportXLSX(exportData), `${filename}.xlsx`);
+      } else {
+        const charts = [
+          { title: "Appointment Trends", container: appointmentChartRef.current },
+          { title: "Revenue Trends", container: revenueChartRef.current },
+        ];
+        exportData.charts = [];
+        for (const chart of charts) {
+          const image = await chartToImage(chart.container);
+          if (image) exportData.charts.push({ title: chart.title, ...image });
+        }
+
+        downloadBlob(await generateReportPDF(exportData), `${filename}.pdf`);
+      }
+    } catch (error) {
+      console.error("Error exporting report:", error);
+      toast.error("Failed to export report");
+    } finally {
+      setExporting(null);
     }
-
-    const reportHTML = `
-      <!DOCTYPE html>
-      <html>
-      <head>
-        <title>AbhiCure Clinic - Reports & Analytics</title>
-        <style>
-          body { 
-            font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; 
-            margin: 0; 
-            padding: 40px; 
-            background-color: #f8fafc;
-          }
-          .report-container {
-            background: white;
-            max-width: 1200px;
-            margin: 0 auto;
-            padding: 40px;
-            border-radius: 8px;
-            box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
-          }
-          .header { 
-            text-align: center; 
-            margin-bottom: 40px; 
-            border-bottom: 2px solid #e5e7eb;
-            padding-bottom: 20px;
-          }
-          .company-name { 
-            font-size: 32px; 
-            font-weight: bold; 
-            color: #2563eb; 
-            margin-bottom: 8px;
-          }
-          .section {
-            margin: 30px 0;
-            padding: 20px;
-            border: 1px solid #e5e7eb;
-            border-radius: 8px;
-          }
-          .section-title {
-            font-size: 20px;
-            font-weight: bold;
-            color: #374151;
-            margin-bottom: 15px;
-            display: flex;
-            align-items: center;
-          }
-          .stats-grid {
-            display: grid;
-            grid-template-columns: repeat(auto-fit, minmax(200px, 1fr));
-            gap: 20px;
-            margin-top: 15px;
-          }
-          .stat-item {
-            text-align: center;
-            padding: 15px;
-            background: #f9fafb;
-            border-radius: 6px;
-          }
-          .stat-value {
-            font-size: 24px;
-            font-weight: bold;
-            margin-bottom: 5px;
-          }
-          .stat-label {
-            font-size: 14px;
-            color: #6b7280;
-          }
-          .appointment-stats .stat-value { color: #2563eb; }
-          .revenue-stats .stat-value { color: #059669; }
-          .patient-stats .stat-value { color: #7c3aed; }
-          .doctor-stats .stat-value { color: #dc2626; }
-          .footer {
-            text-align: center;
-            margin-top: 40px;
-            padding-top: 20px;
-            border-top: 1px solid #e5e7eb;
-            color: #6b7280;
-          }
-        </style>
-      </head>
-      <body>
-        <div class="report-container">
-          <div class="header">
-            <div class="company-name">AbhiCure Clinic</div>
-            <p>Reports & Analytics</p>
-            <p><strong>Period:</strong> ${format(
-              startDate,
-              "MMMM d, yyyy"
-            )} - ${format(endDate, "MMMM d, yyyy")}</p>
-            <p><strong>Generated on:</strong> ${format(
-              today,
-              "MMMM d, yyyy h:mm a"
-            )}</p>
-          </div>
-          
-          <div class="section appointment-stats">
-            <div class="section-title">📅 Appointment Analytics</div>
-            <div class="stats-grid">
-              <div class="stat-item">
-                <div class="stat-value">${
-                  reportData.appointmentStats.total
-                }</div>
-                <div class="stat-label">Total Appointments</div>
-              </div>
-              <div class="stat-item">
-                <div class="stat-value">${
-                  reportData.appointmentStats.completed
-                }</div>
-                <div class="stat-label">Completed</div>
-              </div>
-              <div class="stat-item">
-                <div class="stat-value">${
-                  reportData.appointmentStats.cancelled
-                }</div>
-                <div class="stat-label">Cancelled</div>
-              </div>
-              <div class="stat-item">
-                <div class="stat-value">${
-                  reportData.appointmentStats.noShow
-                }</div>
-                <div class="stat-label">No Show</div>
-              </div>
-            </div>
-          </div>
-
-          <div class="section revenue-stats">
-            <div class="section-title">💰 Revenue Analytics</div>
-            <div class="stats-grid">
-              <div class="stat-item">
-                <div class="stat-value">₹${reportData.revenueStats.totalRevenue.toFixed(
-                  2
-                )}</div>
-                <div class="stat-label">Total Revenue</div>
-              </div>
-              <div class="stat-item">
-                <div class="stat-value">₹${reportData.revenueStats.paidAmount.toFixed(
-                  2
-                )}</div>
-                <div class="stat-label">Paid Amount</div>
-              </div>
-              <div class="stat-item">
-                <div class="stat-value">₹${reportData.revenueStats.pendingAmount.toFixed(
-                  2
-                )}</div>
-                <div class="stat-label">Pending Amount</div>
-              </div>
-              <div class="stat-item">
-                <div class="stat-value">₹${reportData.revenueStats.overdueAmount.toFixed(
-                  2
-                )}</div>
-                <div class="stat-label">Overdue Amount</div>
-              </div>
-            </div>
-          </div>
-
-          <div class="section patient-stats">
-            <div class="section-title">👥 Patient Analytics</div>
-            <div class="stats-grid">
-              <div class="stat-item">
-                <div class="stat-value">${
-                  reportData.patientStats.totalPatients
-                }</div>
-                <div class="stat-label">Total Patients</div>
-              </div>
-              <div class="stat-item">
-                <div class="stat-value">${
-                  reportData.patientStats.newPatients
-                }</div>
-                <div class="stat-label">New Patients</div>
-              </div>
-              <div class="stat-item">
-                <div class="stat-value">${
-                  reportData.patientStats.returningPatients
-                }</div>
-                <div class="stat-label">Returning Patients</div>
-              </div>
-            </div>
-          </div>
-
-          <div class="section doctor-stats">
-            <div class="section-title">👨‍⚕️ Doctor Performance</div>
-            <div class="stats-grid">
-              <div class="stat-item">
-                <div class="stat-value">${
-                  reportData.doctorStats.totalDoctors
-                }</div>
-                <div class="stat-label">Total Doctors</div>
-              </div>
-              <div class="stat-item">
-                <div class="stat-value">${
-                  reportData.doctorStats.averageAppointments
-                }</div>
-                <div class="stat-label">Avg. Appointments per Doctor</div>
-              </div>
-            </div>
-          </div>
-
-          <div class="footer">
-            <p><strong>AbhiCure Clinic Management System</strong></p>
-            <p>This report was generated automatically by the clinic management system.</p>
-          </div>
-        </div>
-      </body>
-      </html>
-    `;
-
-    const blob = new Blob([reportHTML], { type: "text/html" });
-    const url = window.URL.createObjectURL(blob);
-    const link = document.createElement("a");
-    link.href = url;
-    link.download = `clinic-report-${format(
-      today,
-      "yyyy-MM-dd"
-    )}-${dateRange}.html`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    window.URL.revokeObjectURL(url);
   };
 
   if (loading) {
@@ -941,13 +656,26 @@ export function Reports() {
           <Select
             name="dateRange"
             value={dateRange}
-            onChange={(e) => setDateRange(e.target.value)}
-            options={[
-              { value: "last7Days", label: "Last 7 Days" },
-              { value: "last30Days", label: "Last 30 Days" },
-              { value: "thisMonth", label: "This Month" },
-            ]}
+            onChange={(e) =>
+              handleDateRangeChange(e.target.value as ReportRangePreset)
+            }
+            options={REPORT_RANGE_OPTIONS}
           />
+          <Select
+            name="trendInterval"
+            value={trendInterval}
+            onChange={(e) => setTrendInterval(e.target.value as ReportInterval)}
+            options={INTERVAL_OPTIONS}
+          />
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={compare}
+              onChange={(e) => setCompare(e.target.checked)}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <span>Compare to previous period</span>
+          </label>
 
           {/* Chart View Selector */}
           <div className="flex bg-gray-100 rounded-lg p-1">
@@ -985,13 +713,56 @@ export function Reports() {
             </Button>
           </div>
 
-          <Button variant="outline" onClick={exportReport}>
+          <Button
+            variant="outline"
+            onClick={() => handleExport("pdf")}
+            disabled={!report || exporting !== null}
+          >
             <Download className="h-5 w-5 mr-2" />
-            Export
+            {exporting === "pdf" ? "Exporting..." : "PDF"}
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => handleExport("xlsx")}
+            disabled={!report || exporting !== null}
+          >
+            <FileSpreadsheet className="h-5 w-5 mr-2" />
+            {exporting === "xlsx" ? "Exporting..." : "Excel"}
           </Button>
         </div>
       </div>
 
+      {dateRange === "custom" && (
+        <div className="flex flex-wrap items-end gap-3">
+          <Input
+            type="date"
+            label="From"
+            value={customStart || reportRange.startDate}
+            max={customEnd || reportRange.endDate}
+            onChange={(e) => setCustomStart(e.target.value)}
+          />
+          <Input
+            type="date"
+            label="To"
+            value={customEnd || reportRange.endDate}
+            min={customStart || reportRange.startDate}
+            onChange={(e) => setCustomEnd(e.target.value)}
+          />
+        </div>
+      )}
+
+      <p className="text-sm text-gray-500">
+        {formatReportRange(reportRange)}
+        {compare &&
+          ` · compared with ${formatReportRange(getPreviousReportRange(reportRange))}`}
+      </p>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
       {/* Interactive Charts Section */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Appointment Trends Chart */}
@@ -1007,7 +778,9 @@ export function Reports() {
               </div>
             </CardTitle>
           </CardHeader>
-          <CardContent>{renderAppointmentChart()}</CardContent>
+          <CardContent>
+            <div ref={appointmentChartRef}>{renderAppointmentChart()}</div>
+          </CardContent>
         </Card>
 
         {/* Revenue Trends Chart */}
@@ -1023,7 +796,9 @@ export function Reports() {
               </div>
             </CardTitle>
           </CardHeader>
-          <CardContent>{renderRevenueChart()}</CardContent>
+          <CardContent>
+            <div ref={revenueChartRef}>{renderRevenueChart()}</div>
+          </CardContent>
         </Card>
       </div>
 
@@ -1043,24 +818,42 @@ export function Reports() {
                 {reportData.appointmentStats.total}
               </p>
               <p className="text-sm text-gray-600">Total Appointments</p>
+              <PeriodChange
+                current={reportData.appointmentStats.total}
+                previous={previousReportData?.appointmentStats.total}
+              />
             </div>
             <div className="text-center">
               <p className="text-3xl font-bold text-green-600">
                 {reportData.appointmentStats.completed}
               </p>
               <p className="text-sm text-gray-600">Completed</p>
+              <PeriodChange
+                current={reportData.appointmentStats.completed}
+                previous={previousReportData?.appointmentStats.completed}
+              />
             </div>
             <div className="text-center">
               <p className="text-3xl font-bold text-red-600">
                 {reportData.appointmentStats.cancelled}
               </p>
               <p className="text-sm text-gray-600">Cancelled</p>
+              <PeriodChange
+                current={reportData.appointmentStats.cancelled}
+                previous={previousReportData?.appointmentStats.cancelled}
+                lowerIsBetter
+              />
             </div>
             <div className="text-center">
               <p className="text-3xl font-bold text-gray-600">
                 {reportData.appointmentStats.noShow}
               </p>
               <p className="text-sm text-gray-600">No Show</p>
+              <PeriodChange
+                current={reportData.appointmentStats.noShow}
+                previous={previousReportData?.appointmentStats.noShow}
+                lowerIsBetter
+              />
             </div>
           </div>
         </CardContent>
@@ -1081,26 +874,51 @@ export function Reports() {
                 ₹{reportData.revenueStats.totalRevenue.toFixed(2)}
               </p>
               <p className="text-sm text-gray-600">Total Revenue</p>
+              <PeriodChange
+                current={reportData.revenueStats.totalRevenue}
+                previous={previousReportData?.revenueStats.totalRevenue}
+              />
             </div>
             <div className="text-center">
               <p className="text-3xl font-bold text-blue-600">
                 ₹{reportData.revenueStats.paidAmount.toFixed(2)}
               </p>
               <p className="text-sm text-gray-600">Paid Amount</p>
+              <PeriodChange
+                current={reportData.revenueStats.paidAmount}
+                previous={previousReportData?.revenueStats.paidAmount}
+              />
             </div>
             <div className="text-center">
               <p className="text-3xl font-bold text-yellow-600">
                 ₹{reportData.revenueStats.pendingAmount.toFixed(2)}
               </p>
               <p className="text-sm text-gray-600">Pending Amount</p>
+              <PeriodChange
+                current={reportData.revenueStats.pendingAmount}
+                previous={previousReportData?.revenueStats.pendingAmount}
+                lowerIsBetter
+              />
             </div>
             <div className="text-center">
               <p className="text-3xl font-bold text-red-600">
                 ₹{reportData.revenueStats.overdueAmount.toFixed(2)}
               </p>
               <p className="text-sm text-gray-600">Overdue Amount</p>
+              <PeriodChange
+                current={reportData.revenueStats.overdueAmount}
+                previous={previousReportData?.revenueStats.overdueAmount}
+                lowerIsBetter
+              />
             </div>
           </div>
+          {(reportData.revenueStats.creditedAmount > 0 ||
+            reportData.revenueStats.refundedAmount > 0) && (
+            <p className="text-sm text-gray-500 text-center mt-4">
+              Net of ₹{reportData.revenueStats.creditedAmount.toFixed(2)} in credit notes
+              and ₹{reportData.revenueStats.refundedAmount.toFixed(2)} refunded
+            </p>
+          )}
         </CardContent>
       </Card>
 
@@ -1126,12 +944,20 @@ export function Reports() {
                   {reportData.patientStats.newPatients}
                 </p>
                 <p className="text-sm text-gray-600">New Patients</p>
+                <PeriodChange
+                  current={reportData.patientStats.newPatients}
+                  previous={previousReportData?.patientStats.newPatients}
+                />
               </div>
               <div className="text-center">
                 <p className="text-2xl font-bold text-purple-600">
                   {reportData.patientStats.returningPatients}
                 </p>
                 <p className="text-sm text-gray-600">Returning</p>
+                <PeriodChange
+                  current={reportData.patientStats.returningPatients}
+                  previous={previousReportData?.patientStats.returningPatients}
+                />
               </div>
             </div>
           </CardContent>
@@ -1157,11 +983,177 @@ export function Reports() {
                   {reportData.doctorStats.averageAppointments}
                 </p>
                 <p className="text-sm text-gray-600">Avg. Appointments</p>
+                <PeriodChange
+                  current={reportData.doctorStats.averageAppointments}
+                  previous={previousReportData?.doctorStats.averageAppointments}
+                />
               </div>
             </div>
           </CardContent>
         </Card>
       </div>
+
+      {/* Breakdown by doctor, department or appointment type */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <div className="flex items-center">
+              <Activity className="h-5 w-5 mr-2" />
+              Breakdown
+            </div>
+            <Select
+              name="dimension"
+              value={dimension}
+              onChange={(e) => setDimension(e.target.value as ReportDimension)}
+              options={BREAKDOWN_OPTIONS}
+            />
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {breakdown.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-6">
+              No appointments or bills in this period
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left font-medium text-gray-600">
+                      {BREAKDOWN_OPTIONS.find((o) => o.value === dimension)?.label}
+                    </th>
+                    <th className="px-4 py-2 text-right font-medium text-gray-600">
+                      Appointments
+                    </th>
+                    <th className="px-4 py-2 text-right font-medium text-gray-600">
+                      Completed
+                    </th>
+                    <th className="px-4 py-2 text-right font-medium text-gray-600">
+                      Cancelled
+                    </th>
+                    <th className="px-4 py-2 text-right font-medium text-gray-600">
+                      No Show
+                    </th>
+                    <th className="px-4 py-2 text-right font-medium text-gray-600">
+                      Revenue
+                    </th>
+                    <th className="px-4 py-2 text-right font-medium text-gray-600">
+                      Paid
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {breakdown.map((row) => (
+                    <tr key={row.key}>
+                      <td className="px-4 py-2 text-gray-900 capitalize">
+                        {row.label}
+                      </td>
+                      <td className="px-4 py-2 text-right">{row.appointments}</td>
+                      <td className="px-4 py-2 text-right">{row.completed}</td>
+                      <td className="px-4 py-2 text-right">{row.cancelled}</td>
+                      <td className="px-4 py-2 text-right">{row.noShow}</td>
+                      <td className="px-4 py-2 text-right">
+                        ₹{row.revenue.toFixed(2)}
+                      </td>
+                      <td className="px-4 py-2 text-right">
+                        ₹{row.paid.toFixed(2)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Doctor performance and utilisation */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Users className="h-5 w-5 mr-2" />
+            Doctor Utilisation
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {doctorPerformance.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-6">
+              No doctors to report on
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left font-medium text-gray-600">
+                      Doctor
+                    </th>
+                    <th className="px-4 py-2 text-right font-medium text-gray-600">
+                      Utilisation
+                    </th>
+                    <th className="px-4 py-2 text-right font-medium text-gray-600">
+                      Appointments
+                    </th>
+                    <th className="px-4 py-2 text-right font-medium text-gray-600">
+                      Avg. Consultation
+                    </th>
+                    <th className="px-4 py-2 text-right font-medium text-gray-600">
+                      No-show Rate
+                    </th>
+                    <th className="px-4 py-2 text-right font-medium text-gray-600">
+                      Revenue
+                    </th>
+                    <th className="px-4 py-2 text-right font-medium text-gray-600">
+                      Rating
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {doctorPerformance.map((row) => (
+                    <tr key={row.clinicDoctorId}>
+                      <td className="px-4 py-2">
+                        <p className="text-gray-900">{row.doctorName}</p>
+                        {row.department && (
+                          <p className="text-xs text-gray-500">{row.department}</p>
+                        )}
+                      </td>
+                      <td className="px-4 py-2 text-right">
+                        {row.utilisationPct === null ? "—" : `${row.utilisationPct}%`}
+                        <p className="text-xs text-gray-500">
+                          {row.slotBookings}/{row.slotCapacity} seats
+                        </p>
+                      </td>
+                      <td className="px-4 py-2 text-right">
+                        {row.completed}/{row.appointments}
+                      </td>
+                      <td className="px-4 py-2 text-right">
+                        {row.avgConsultationMinutes === null
+                          ? "—"
+                          : `${row.avgConsultationMinutes} min`}
+                      </td>
+                      <td className="px-4 py-2 text-right">
+                        {row.noShowRate === null ? "—" : `${row.noShowRate}%`}
+                      </td>
+                      <td className="px-4 py-2 text-right">
+                        ₹{row.revenue.toFixed(2)}
+                      </td>
+                      <td className="px-4 py-2 text-right">
+                        {row.averageRating === null
+                          ? "—"
+                          : `${row.averageRating.toFixed(1)} (${row.ratingCount})`}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <WaitTimeAnalyticsCard range={reportRange} />
+
+      <ReportSubscriptionsCard />
     </div>
   );
 }
@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { Save, Building, Lock, Bell } from "lucide-react";
+import { Save, Building, Lock, Bell, Users, Receipt } from "lucide-react";
 import { toast } from "sonner";
 import {
   Card,
@@ -13,11 +13,19 @@ import { AddressForm } from "../components/shared/AddressForm";
 import { validateAddress } from "../validation/AddressValidation";
 import { supabase } from "../lib/supabase";
 import { useAuth } from "../hooks/useAuth";
+import { useClinicAccess } from "../hooks/useClinicAccess";
 import { ClinicProfileService } from "../services";
 import type { ClinicProfile } from "../services";
 import type { AddressFormData } from "../validation/AddressValidation";
+import { StaffManagement } from "../components/staffComponents/StaffManagement";
+import { InvoiceSettingsCard } from "../components/billComponents/InvoiceSettingsCard";
+import { ServiceCatalogueCard } from "../components/billComponents/ServiceCatalogueCard";
+import { ClinicPermission } from "../constants";
 
 export function Settings() {
+  const { clinicId, hasPermission, loading: accessLoading } = useClinicAccess();
+  const canManageSettings = hasPermission(ClinicPermission.MANAGE_SETTINGS);
+  const canManageStaff = hasPermission(ClinicPermission.MANAGE_STAFF);
   const [activeTab, setActiveTab] = useState("clinic");
   const [profileData, setProfileData] = useState<Partial<ClinicProfile>>({
     clinic_name: "",
@@ -39,12 +47,19 @@ export function Settings() {
   const [saving, setSaving] = useState(false);
   const { user } = useAuth();
 
+  // Staff without settings access land on the Security tab
   useEffect(() => {
-    if (!user) return;
+    if (!accessLoading && !canManageSettings) {
+      setActiveTab("security");
+    }
+  }, [accessLoading, canManageSettings]);
+
+  useEffect(() => {
+    if (!clinicId || !canManageSettings) return;
 
     const fetchProfile = async () => {
       try {
-        const response = await ClinicProfileService.getClinicProfile(user.id);
+        const response = await ClinicProfileService.getClinicProfile(clinicId);
 
         if (response.success && response.data) {
           setProfileData({
@@ -71,11 +86,11 @@ export function Settings() {
     };
 
     fetchProfile();
-  }, [user]);
+  }, [clinicId, canManageSettings]);
 
   const handleProfileSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!user) return;
+    if (!user || !clinicId) return;
 
     setSaving(true);
     setAddressErrors({});
@@ -107,7 +122,7 @@ export function Settings() {
       if (clinicImageFile && user) {
         const fileExt = clinicImageFile.name.split(".").pop();
         const timestamp = Date.now();
-        const fileName = `clinic_${user.id}_logo_${timestamp}.${fileExt}`;
+        const fileName = `clinic_${clinicId}_logo_${timestamp}.${fileExt}`;
 
         try {
           // upload to clinic-logos bucket
@@ -165,7 +180,7 @@ export function Settings() {
 
       // Update clinic_profiles table using ClinicProfileService
       const response = await ClinicProfileService.updateClinicProfile(
-        user.id,
+        clinicId,
         updateData
       );
 
@@ -255,10 +270,12 @@ export function Settings() {
   };
 
   const tabs = [
-    { id: "clinic", label: "Clinic Profile", icon: Building },
-    { id: "security", label: "Security", icon: Lock },
-    { id: "notifications", label: "Notifications", icon: Bell },
-  ];
+    { id: "clinic", label: "Clinic Profile", icon: Building, visible: canManageSettings },
+    { id: "billing", label: "Billing", icon: Receipt, visible: canManageSettings },
+    { id: "staff", label: "Staff", icon: Users, visible: canManageStaff },
+    { id: "security", label: "Security", icon: Lock, visible: true },
+    { id: "notifications", label: "Notifications", icon: Bell, visible: true },
+  ].filter((tab) => tab.visible);
 
   return (
     <div className="p-6 space-y-6">
@@ -294,7 +311,7 @@ export function Settings() {
       </div>
 
       {/* Tab Content */}
-      {activeTab === "clinic" && (
+      {activeTab === "clinic" && canManageSettings && (
         <Card>
           <CardHeader>
             <CardTitle>Clinic Information</CardTitle>
@@ -407,6 +424,15 @@ export function Settings() {
         </Card>
       )}
 
+      {activeTab === "billing" && canManageSettings && clinicId && (
+        <div className="space-y-6">
+          <InvoiceSettingsCard clinicId={clinicId} />
+          <ServiceCatalogueCard />
+        </div>
+      )}
+
+      {activeTab === "staff" && canManageStaff && <StaffManagement />}
+
       {activeTab === "security" && (
         <Card>
           <CardHeader>
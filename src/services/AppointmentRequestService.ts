@@ -10,6 +10,7 @@ import {
   extractISTDateForInput,
 } from "../utils/timezoneUtils";
 import { WhatsAppService } from "./WhatsAppService";
+import { BillingService } from "./BillingService";
 
 export interface AppointmentRequest {
   id: string;
@@ -72,6 +73,7 @@ export class AppointmentRequestService extends BaseService {
       if (!user) {
         return { error: new Error("User not authenticated"), success: false };
       }
+      const clinicId = await this.getCurrentClinicId();
 
       // Build query with filters
       let query = supabase
@@ -97,7 +99,7 @@ export class AppointmentRequestService extends BaseService {
           )
         `
         )
-        .eq("clinic_id", user.id);
+        .eq("clinic_id", clinicId);
 
       // Apply status filter
       if (filters.status && filters.status !== "all") {
@@ -164,6 +166,7 @@ export class AppointmentRequestService extends BaseService {
       if (!user) {
         return { error: new Error("User not authenticated"), success: false };
       }
+      const clinicId = await this.getCurrentClinicId();
 
       // Get the appointment request details with slot information
       const { data: request, error: requestError } = await supabase
@@ -183,7 +186,7 @@ export class AppointmentRequestService extends BaseService {
         `
         )
         .eq("id", requestId)
-        .eq("clinic_id", user.id)
+        .eq("clinic_id", clinicId)
         .single();
 
       if (requestError || !request) {
@@ -405,7 +408,7 @@ export class AppointmentRequestService extends BaseService {
 
       console.log("🔍 Checking for clinic_patient record:", {
         patient_profile_id: patientProfile!.id,
-        clinic_id: user.id,
+        clinic_id: clinicId,
       });
 
       let { data: clinicPatient, error: clinicPatientFetchError } =
@@ -413,7 +416,7 @@ export class AppointmentRequestService extends BaseService {
           .from("clinic_patients")
           .select("id")
           .eq("patient_profile_id", patientProfile!.id)
-          .eq("clinic_id", user.id)
+          .eq("clinic_id", clinicId)
           .maybeSingle();
 
       if (clinicPatientFetchError) {
@@ -433,7 +436,7 @@ export class AppointmentRequestService extends BaseService {
         console.log("📝 Clinic patient record not found. Creating...");
 
         const clinicPatientData = {
-          clinic_id: user.id,
+          clinic_id: clinicId,
           patient_profile_id: patientProfile!.id,
           registration_source: "mobile_app" as const,
           relationship_status: "active" as const,
@@ -464,7 +467,7 @@ export class AppointmentRequestService extends BaseService {
               .from("clinic_patients")
               .select("id")
               .eq("patient_profile_id", patientProfile!.id)
-              .eq("clinic_id", user.id)
+              .eq("clinic_id", clinicId)
               .maybeSingle();
 
             if (existingRecord) {
@@ -654,7 +657,7 @@ export class AppointmentRequestService extends BaseService {
         .includes("video");
 
       const appointmentData: any = {
-        user_id: user.id,
+        user_id: clinicId,
         clinic_patient_id: clinicPatient!.id,
         clinic_doctor_id: requestData.doctor_id,
         doctor_slot_id: (requestedSlot as any).id,
@@ -735,7 +738,7 @@ export class AppointmentRequestService extends BaseService {
           const { data: clinicProfile, error: clinicProfileError } = await (supabase as any)
             .from("clinic_profiles")
             .select("clinic_name, slug")
-            .eq("id", user.id)
+            .eq("id", clinicId)
             .single();
 
           console.log("🏥 [CLINIC-ADMIN] Clinic profile fetch result:", {
@@ -773,7 +776,7 @@ export class AppointmentRequestService extends BaseService {
               callId: callId,
               patientId: patientProfile!.id,
               patientName: requestData.patient_name,
-              appointmentId: (appointment as any).id,
+              appointmentId: appointment.id,
               doctorName: requestData.clinic_doctor?.doctor_profile?.full_name || "Doctor",
             });
 
@@ -781,6 +784,7 @@ export class AppointmentRequestService extends BaseService {
 
             result = await WhatsAppService.sendVideoConsultationConfirmed({
               phone: requestData.patient_phone,
+              appointmentId: appointment.id,
               patientName: requestData.patient_name,
               doctorName:
                 requestData.clinic_doctor?.doctor_profile?.full_name || "Doctor",
@@ -796,6 +800,7 @@ export class AppointmentRequestService extends BaseService {
 
             result = await WhatsAppService.sendInClinicAppointmentConfirmed({
               phone: requestData.patient_phone,
+              appointmentId: appointment.id,
               patientName: requestData.patient_name,
               doctorName:
                 requestData.clinic_doctor?.doctor_profile?.full_name || "Doctor",
@@ -837,43 +842,45 @@ export class AppointmentRequestService extends BaseService {
         try {
           console.log("💰 [BILLING] Auto-creating bill for video consultation with payment");
 
-          // Generate bill number
-          const now = new Date();
-          const year = now.getFullYear();
-          const month = String(now.getMonth() + 1).padStart(2, "0");
-          const day = String(now.getDate()).padStart(2, "0");
-          const random = Math.floor(Math.random() * 1000).toString().padStart(3, "0");
-          const billNumber = `VC-${year}${month}${day}-${random}`;
-
           // Get consultation fee
           const consultationFee = requestData.paid_amount ||
             requestData.clinic_doctor?.consultation_fee ||
             500; // Default fee
 
+          const doctorName = requestData.clinic_doctor?.doctor_profile?.full_name || "Doctor";
+
           const billData = {
-            user_id: user.id,
             appointment_id: (appointment as any).id,
             clinic_patient_id: clinicPatient!.id,
-            bill_number: billNumber,
-            amount: consultationFee,
-            tax_amount: 0,
-            total_amount: consultationFee,
-            status: "paid", // Already paid via Razorpay
-            payment_mode: "upi", // Razorpay mostly uses UPI
-            payment_date: new Date().toISOString(),
-            notes: `Video consultation with Dr. ${requestData.clinic_doctor?.doctor_profile?.full_name || "Doctor"} - Payment ID: ${requestData.payment_id}`,
+            notes: `Video consultation with Dr. ${doctorName} - Payment ID: ${requestData.payment_id}`,
           };
 
-          const { data: billResult, error: billError } = await supabase
-            .from("bills")
-            .insert(billData as any)
-            .select()
-            .single();
-
-          if (billError) {
+          const { data: billResult, error: billError } = await BillingService.createBill(billData, [
+            {
+              item_type: "consultation",
+              name: `Video Consultation - Dr. ${doctorName}`,
+              quantity: 1,
+              unit_price: consultationFee,
+              discount_amount: 0,
+              tax_rate: 0,
+            },
+          ]);
+
+          if (billError || !billResult) {
             console.error("❌ [BILLING] Failed to create auto-bill:", billError);
           } else {
             console.log("✅ [BILLING] Auto-bill created successfully:", billResult);
+
+            // Already paid via Razorpay; the receipt marks the bill paid
+            const { error: paymentError } = await BillingService.recordPayment(billResult.id, {
+              amount: billResult.total_amount,
+              payment_mode: "upi", // Razorpay mostly uses UPI
+              reference: requestData.payment_id,
+            });
+
+            if (paymentError) {
+              console.error("❌ [BILLING] Failed to record video consultation payment:", paymentError);
+            }
           }
         } catch (billError) {
           console.error("❌ [BILLING] Exception creating auto-bill:", billError);
@@ -896,6 +903,7 @@ export class AppointmentRequestService extends BaseService {
       if (!user) {
         return { error: new Error("User not authenticated"), success: false };
       }
+      const clinicId = await this.getCurrentClinicId();
 
       // Get the request details with doctor info for WhatsApp notification
       const { data: request, error: requestError } = await supabase
@@ -907,7 +915,7 @@ export class AppointmentRequestService extends BaseService {
           )
         `)
         .eq("id", requestId)
-        .eq("clinic_id", user.id)
+        .eq("clinic_id", clinicId)
         .single();
 
       if (requestError || !request) {
@@ -927,7 +935,7 @@ export class AppointmentRequestService extends BaseService {
           processed_at: new Date().toISOString(),
         })
         .eq("id", requestId)
-        .eq("clinic_id", user.id);
+        .eq("clinic_id", clinicId);
 
       if (updateError) {
         return {
@@ -970,7 +978,7 @@ export class AppointmentRequestService extends BaseService {
           const { data: clinicProfile } = await supabase
             .from("clinic_profiles")
             .select("clinic_name")
-            .eq("id", user.id)
+            .eq("id", clinicId)
             .single();
 
           const clinicName = (clinicProfile as any)?.clinic_name || "Clinic";
@@ -1249,13 +1257,13 @@ export class AppointmentRequestService extends BaseService {
 
   static async getPendingRequestsCount(): Promise<number> {
     try {
-      const user = await this.getCurrentUser();
-      if (!user) return 0;
+      const clinicId = await this.getCurrentClinicId();
+      if (!clinicId) return 0;
 
       const { count, error } = await supabase
         .from("appointment_requests")
         .select("*", { count: "exact", head: true })
-        .eq("clinic_id", user.id)
+        .eq("clinic_id", clinicId)
         .eq("status", "pending");
 
       if (error) {
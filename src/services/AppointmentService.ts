@@ -7,13 +7,15 @@ import { supabase } from "../lib/supabase";
 import { BaseService, ServiceResponse } from "./BaseService";
 import { AppointmentStatus, ERROR_MESSAGES } from "../constants";
 import { Database } from "../types/database";
-import { ClinicProfileService } from "./ClinicProfileService";
 import { WhatsAppService } from "./WhatsAppService";
 import {
   convertUTCToISTTime24,
   extractISTDateForInput,
 } from "../utils/timezoneUtils";
 
+export type AppointmentStatusHistory =
+  Database["public"]["Tables"]["appointment_status_history"]["Row"];
+
 export type AppointmentWithRelations = {
   id: string;
   user_id: string;
@@ -39,6 +41,8 @@ export type AppointmentWithRelations = {
   consultation_fee?: number;
   doctor_slot_id?: string; // CHANGED: Added slot reference
   slot_booking_order?: number; // CHANGED: Added slot position
+  whatsapp_status?: "queued" | "retrying" | "sent" | "failed" | null;
+  whatsapp_last_error?: string | null;
   created_at: string;
   updated_at: string;
 
@@ -100,6 +104,7 @@ export interface CreateAppointmentData {
 
 export interface UpdateAppointmentData {
   status?: AppointmentStatus;
+  status_reason?: string; // Why the status changed (kept in appointment_status_history)
   notes?: string;
   diagnosis?: string;
   prescription?: string;
@@ -126,10 +131,7 @@ export class AppointmentService extends BaseService {
     searchTerm?: string;
   }): Promise<ServiceResponse<AppointmentWithRelations[]>> {
     try {
-      const user = await this.getCurrentUser();
-
-      const clinicRes = await ClinicProfileService.getClinicProfile(user.id);
-      const clinicId = clinicRes?.data?.id;
+      const clinicId = await this.getCurrentClinicId();
 
       let query = supabase.from("appointments").select(
         `
@@ -265,7 +267,7 @@ export class AppointmentService extends BaseService {
 
         return { data: filteredData, success: true };
       } else {
-        query = query.eq("user_id", user.id);
+        query = query.eq("user_id", clinicId);
       }
 
       // Apply filters
@@ -329,10 +331,7 @@ export class AppointmentService extends BaseService {
     id: string
   ): Promise<ServiceResponse<AppointmentWithRelations>> {
     try {
-      const user = await this.getCurrentUser();
-
-      const clinicRes = await ClinicProfileService.getClinicProfile(user.id);
-      const clinicId = clinicRes?.data?.id;
+      const clinicId = await this.getCurrentClinicId();
 
       const baseQuery = supabase.from("appointments").select(
         `
@@ -369,7 +368,7 @@ export class AppointmentService extends BaseService {
         }
       } else {
         // fallback ownership check
-        if ((data as any)?.user_id !== user.id) {
+        if ((data as any)?.user_id !== clinicId) {
           throw new Error("Appointment not found");
         }
       }
@@ -386,7 +385,7 @@ export class AppointmentService extends BaseService {
     appointmentData: CreateAppointmentData
   ): Promise<ServiceResponse<AppointmentWithRelations>> {
     try {
-      const user = await this.getCurrentUser();
+      const clinicId = await this.getCurrentClinicId();
 
       this.validateRequired({
         clinic_patient_id: appointmentData.clinic_patient_id,
@@ -401,7 +400,7 @@ export class AppointmentService extends BaseService {
         Database["public"]["Tables"]["appointments"]["Insert"];
 
       const insertPayload: AppointmentInsert = {
-        user_id: user.id,
+        user_id: clinicId,
         clinic_patient_id: appointmentData.clinic_patient_id,
         clinic_doctor_id: appointmentData.clinic_doctor_id,
         doctor_slot_id: appointmentData.doctor_slot_id,
@@ -485,7 +484,7 @@ export class AppointmentService extends BaseService {
               )
             `
             )
-            .eq("user_id", user.id)
+            .eq("user_id", clinicId)
             .eq("clinic_doctor_id", appointmentData.clinic_doctor_id)
             .eq("clinic_patient_id", appointmentData.clinic_patient_id)
             .eq("appointment_datetime", appointmentData.appointment_datetime)
@@ -549,7 +548,7 @@ export class AppointmentService extends BaseService {
     updateData: UpdateAppointmentData
   ): Promise<ServiceResponse<AppointmentWithRelations>> {
     try {
-      const user = await this.getCurrentUser();
+      const clinicId = await this.getCurrentClinicId();
 
       // Get current appointment to check ownership and get service details
       const { data: currentAppt, error: fetchError } = await supabase
@@ -571,7 +570,7 @@ export class AppointmentService extends BaseService {
       // Check ownership - appointment belongs to user's clinic
       const appointmentClinicId = (currentAppt as any)?.clinic_doctor
         ?.clinic_id;
-      if (appointmentClinicId !== user.id) {
+      if (appointmentClinicId !== clinicId) {
         throw new Error("You don't have permission to update this appointment");
       }
 
@@ -622,9 +621,13 @@ export class AppointmentService extends BaseService {
     }
   }
 
+  /**
+   * Delete an appointment. Its bills are kept; if one was paid, the database
+   * suggests a credit note for it (see getSuggestedCreditNotes).
+   */
   static async deleteAppointment(id: string): Promise<ServiceResponse<void>> {
     try {
-      const user = await this.getCurrentUser();
+      const clinicId = await this.getCurrentClinicId();
 
       // Get appointment details before deletion to check ownership AND for WhatsApp notification
       const { data: appointment } = await supabase
@@ -651,7 +654,7 @@ export class AppointmentService extends BaseService {
       // Check ownership via clinic
       const appointmentClinicId = (appointment as any)?.clinic_doctor
         ?.clinic_id;
-      if (appointmentClinicId !== user.id) {
+      if (appointmentClinicId !== clinicId) {
         throw new Error("You don't have permission to delete this appointment");
       }
 
@@ -661,6 +664,9 @@ export class AppointmentService extends BaseService {
       const patientName =
         (appointment as any)?.clinic_patient?.patient_profile?.full_name ||
         "Patient";
+      const doctorName =
+        appointment.doctor_details?.doctor_profile?.full_name ||
+        "Doctor";
       const appointmentDatetime = (appointment as any)?.appointment_datetime;
 
       // Get slot_id before deletion for sync
@@ -687,6 +693,7 @@ export class AppointmentService extends BaseService {
           await WhatsAppService.sendAppointmentCancelled({
             phone: patientPhone,
             patientName: patientName,
+            doctorName: doctorName,
             appointmentDate: appointmentDate,
             appointmentTime: appointmentTime,
           });
@@ -711,8 +718,6 @@ export class AppointmentService extends BaseService {
     appointmentId: string
   ): Promise<ServiceResponse<AppointmentWithRelations>> {
     return this.updateAppointment(appointmentId, {
-      patient_checked_in: true,
-      checked_in_at: new Date().toISOString(),
       status: AppointmentStatus.CHECKED_IN,
     });
   }
@@ -722,7 +727,6 @@ export class AppointmentService extends BaseService {
   ): Promise<ServiceResponse<AppointmentWithRelations>> {
     return this.updateAppointment(appointmentId, {
       status: AppointmentStatus.IN_PROGRESS,
-      actual_start_time: new Date().toISOString(),
     });
   }
 
@@ -733,7 +737,6 @@ export class AppointmentService extends BaseService {
     // First update the appointment
     const result = await this.updateAppointment(appointmentId, {
       status: AppointmentStatus.COMPLETED,
-      actual_end_time: new Date().toISOString(),
       ...data,
     });
 
@@ -749,11 +752,11 @@ export class AppointmentService extends BaseService {
           console.log("🔔 [CLINIC-ADMIN] Sending appointment completion notification");
 
           // Get clinic info
-          const user = await this.getCurrentUser();
+          const clinicId = await this.getCurrentClinicId();
           const { data: clinicProfile } = await supabase
             .from("clinic_profiles")
             .select("clinic_name, slug")
-            .eq("id", user.id)
+            .eq("id", clinicId)
             .single();
 
           const clinicName = (clinicProfile as any)?.clinic_name || "Clinic";
@@ -772,6 +775,7 @@ export class AppointmentService extends BaseService {
 
           const whatsappResult = await WhatsAppService.sendAppointmentCompleted({
             phone: patientPhone,
+            appointmentId: appointmentId,
             patientName: patientName,
             doctorName: doctorName,
             clinicName: clinicName,
@@ -808,6 +812,40 @@ export class AppointmentService extends BaseService {
     });
   }
 
+  static async markNoShow(
+    appointmentId: string,
+    reason?: string
+  ): Promise<ServiceResponse<AppointmentWithRelations>> {
+    return this.updateAppointment(appointmentId, {
+      status: AppointmentStatus.NO_SHOW,
+      ...(reason ? { status_reason: reason } : {}),
+    });
+  }
+
+  /**
+   * Status changes of an appointment, newest first. Rows are written by the
+   * database whenever the status changes.
+   */
+  static async getStatusHistory(
+    appointmentId: string
+  ): Promise<ServiceResponse<AppointmentStatusHistory[]>> {
+    try {
+      this.validateRequired({ appointmentId });
+
+      const { data, error } = await supabase
+        .from("appointment_status_history")
+        .select("*")
+        .eq("appointment_id", appointmentId)
+        .order("changed_at", { ascending: false });
+
+      if (error) throw error;
+
+      return { data: data || [], success: true };
+    } catch (error) {
+      return { error: this.handleError(error), success: false };
+    }
+  }
+
   /**
    * Sync the current_bookings field in doctor_slots with actual active bookings
    */
@@ -876,13 +914,13 @@ export class AppointmentService extends BaseService {
    */
   static async syncAllSlotBookingCounts(): Promise<void> {
     try {
-      const user = await this.getCurrentUser();
+      const clinicId = await this.getCurrentClinicId();
 
       // Get all clinic doctors for this clinic first
       const { data: clinicDoctors } = await supabase
         .from("clinic_doctors")
         .select("id")
-        .eq("clinic_id", user.id);
+        .eq("clinic_id", clinicId);
 
       if (!clinicDoctors || clinicDoctors.length === 0) {
         console.log("No doctors found for this clinic");
@@ -5,6 +5,7 @@
 import { supabase } from "../lib/supabase";
 import { BaseService } from "./BaseService";
 import { NotificationService } from "./NotificationService";
+import { BillingService } from "./BillingService";
 
 export class AutoBillingService extends BaseService {
   /**
@@ -64,14 +65,7 @@ export class AutoBillingService extends BaseService {
         console.error("User not authenticated");
         return;
       }
-
-      // Generate bill number
-      const now = new Date();
-      const year = now.getFullYear();
-      const month = String(now.getMonth() + 1).padStart(2, "0");
-      const day = String(now.getDate()).padStart(2, "0");
-      const random = Math.floor(Math.random() * 1000).toString().padStart(3, "0");
-      const billNumber = `INV-${year}${month}${day}-${random}`;
+      const clinicId = await this.getCurrentClinicId();
 
       // Get consultation fee (from appointment or doctor profile)
       const consultationFee = appointment.consultation_fee || 
@@ -83,29 +77,32 @@ export class AutoBillingService extends BaseService {
         return;
       }
 
-      // Create auto-generated bill
+      const doctorName = appointment.clinic_doctor?.doctor_profile?.full_name;
+
+      // Create auto-generated bill with a single consultation line
+      // (bill_number and totals are filled in by the database)
       const billData = {
-        user_id: user.id,
         appointment_id: appointmentId,
         clinic_patient_id: appointment.clinic_patient_id,
-        bill_number: billNumber,
-        amount: consultationFee,
-        tax_amount: 0,
-        total_amount: consultationFee,
         status: 'pending',
-        notes: `Auto-generated bill for consultation with Dr. ${appointment.clinic_doctor?.doctor_profile?.full_name}`,
+        notes: `Auto-generated bill for consultation with Dr. ${doctorName}`,
         due_date: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0] // 30 days from now
       };
 
       console.log("Creating auto-generated bill:", billData);
 
-      const { data: billResult, error: billError } = await (supabase as any)
-        .from("bills")
-        .insert(billData)
-        .select()
-        .single();
-
-      if (billError) {
+      const { data: billResult, error: billError } = await BillingService.createBill(billData, [
+        {
+          item_type: 'consultation',
+          name: `Consultation - Dr. ${doctorName || 'Doctor'}`,
+          quantity: 1,
+          unit_price: consultationFee,
+          discount_amount: 0,
+          tax_rate: 0,
+        },
+      ]);
+
+      if (billError || !billResult) {
         console.error("Failed to create auto-generated bill:", billError);
         return;
       }
@@ -119,14 +116,14 @@ export class AutoBillingService extends BaseService {
           const { data: clinicProfile } = await supabase
             .from("clinic_profiles")
             .select("clinic_name")
-            .eq("id", user.id)
+            .eq("id", clinicId)
             .single();
 
           await NotificationService.sendBillingNotification(
             appointment.clinic_patient.patient_profile.id,
             'generated',
             {
-              billNumber: billNumber,
+              billNumber: billResult.bill_number,
               totalAmount: consultationFee,
               dueDate: billData.due_date,
               clinicName: clinicProfile?.clinic_name || 'Clinic',
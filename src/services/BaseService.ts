@@ -6,6 +6,9 @@ import { supabase } from "../lib/supabase";
 import { ERROR_MESSAGES } from "../constants";
 
 export class BaseService {
+  private static clinicIdCache: { userId: string; clinicId: string } | null =
+    null;
+
   protected static handleError(error: unknown): Error {
     console.error("Service Error:", error);
 
@@ -42,6 +45,27 @@ export class BaseService {
     if (!user) throw new Error(ERROR_MESSAGES.UNAUTHORIZED);
     return user;
   }
+
+  /**
+   * Resolve the clinic the signed-in user belongs to.
+   * Clinic owners map to their own profile id; staff accounts resolve
+   * through clinic_staff via the current_clinic_id() RPC.
+   */
+  protected static async getCurrentClinicId(): Promise<string> {
+    const user = await this.getCurrentUser();
+
+    const cached = BaseService.clinicIdCache;
+    if (cached && cached.userId === user.id) {
+      return cached.clinicId;
+    }
+
+    const { data, error } = await supabase.rpc("current_clinic_id");
+    if (error) throw this.handleError(error);
+    if (!data) throw new Error(ERROR_MESSAGES.UNAUTHORIZED);
+
+    BaseService.clinicIdCache = { userId: user.id, clinicId: data as string };
+    return data as string;
+  }
 }
 
 export type ServiceResponse<T> = {
@@ -5,6 +5,8 @@
  */
 import { supabase } from "../lib/supabase";
 import { BaseService, ServiceResponse } from "./BaseService";
+import type { BillItem, CreditNote, Payment, Refund } from "../types/database";
+import { validateBillItem, type BillItemInput } from "../utils/billItems";
 
 export type BillData = {
   id: string;
@@ -13,6 +15,7 @@ export type BillData = {
   bill_number: string;
   amount: number;
   tax_amount: number | null;
+  discount_amount?: number;
   total_amount: number;
   status: string | null;
   payment_mode: string | null;
@@ -22,6 +25,15 @@ export type BillData = {
   created_at: string;
   updated_at: string;
   clinic_patient_id: string | null;
+  clinic_gstin?: string | null;
+  place_of_supply?: string | null;
+  is_inter_state?: boolean;
+  cgst_amount?: number;
+  sgst_amount?: number;
+  igst_amount?: number;
+  amount_paid?: number;
+  credited_amount?: number;
+  refunded_amount?: number;
 
   // Joined relations
   clinic_patient?: {
@@ -35,6 +47,72 @@ export type BillData = {
       email: string | null;
     };
   } | null;
+  bill_items?: BillItem[];
+};
+
+export interface CreateBillData {
+  clinic_patient_id: string;
+  appointment_id?: string | null;
+  due_date?: string | null;
+  notes?: string | null;
+  status?: string;
+}
+
+export interface RecordPaymentData {
+  amount: number;
+  payment_mode: string;
+  reference?: string | null;
+  paid_at?: string;
+  notes?: string | null;
+}
+
+export interface CreditNoteData {
+  amount: number;
+  reason: string;
+}
+
+export interface RefundData {
+  amount: number;
+  payment_mode: string;
+  reference?: string | null;
+  reason?: string | null;
+  credit_note_id?: string | null;
+  refunded_at?: string;
+}
+
+export type CreditNoteWithBill = CreditNote & {
+  bill?: {
+    id: string;
+    bill_number: string;
+    total_amount: number;
+    amount_paid: number;
+    clinic_patient?: {
+      id: string;
+      patient_profile?: {
+        id: string;
+        full_name: string;
+        phone: string | null;
+      };
+    } | null;
+  } | null;
+};
+
+export type PaymentWithBill = Payment & {
+  bill?: {
+    id: string;
+    bill_number: string;
+    total_amount: number;
+    amount_paid: number;
+    status: string | null;
+    clinic_patient?: {
+      id: string;
+      patient_profile?: {
+        id: string;
+        full_name: string;
+        phone: string | null;
+      };
+    } | null;
+  } | null;
 };
 
 export class BillingService extends BaseService {
@@ -43,13 +121,13 @@ export class BillingService extends BaseService {
    */
   static async getBills(): Promise<ServiceResponse<BillData[]>> {
     try {
-      const user = await this.getCurrentUser();
+      const clinicId = await this.getCurrentClinicId();
 
       // Get clinic profile to find clinic_id
       const { data: clinicProfile } = await supabase
         .from("clinic_profiles")
         .select("id")
-        .eq("id", user.id)
+        .eq("id", clinicId)
         .single() as { data: { id: string } | null, error: any };
 
       if (!clinicProfile) {
@@ -92,49 +170,47 @@ export class BillingService extends BaseService {
   }
 
   /**
-   * Get payment history for the current clinic (bills with payment_date)
+   * Get payment history for the current clinic, one entry per receipt
    */
-  static async getPaymentHistory(): Promise<ServiceResponse<BillData[]>> {
+  static async getPaymentHistory(
+    options: { from?: string; to?: string } = {}
+  ): Promise<ServiceResponse<PaymentWithBill[]>> {
     try {
-      const user = await this.getCurrentUser();
-
-      // Get clinic profile to find clinic_id
-      const { data: clinicProfile } = await supabase
-        .from("clinic_profiles")
-        .select("id")
-        .eq("id", user.id)
-        .single() as { data: { id: string } | null, error: any };
-
-      if (!clinicProfile) {
-        throw new Error("No clinic profile found");
-      }
+      const clinicId = await this.getCurrentClinicId();
 
-      const { data, error } = await supabase
-        .from("bills")
+      let query = supabase
+        .from("payments")
         .select(
           `
           *,
-          clinic_patient:clinic_patients!inner(
+          bill:bills(
             id,
-            patient_profile_id,
-            clinic_id,
-            patient_profile:patient_profiles(
+            bill_number,
+            total_amount,
+            amount_paid,
+            status,
+            clinic_patient:clinic_patients(
               id,
-              full_name,
-              phone,
-              email
+              patient_profile:patient_profiles(
+                id,
+                full_name,
+                phone
+              )
             )
           )
         `
         )
-        .eq("clinic_patient.clinic_id", clinicProfile.id)
-        .not("payment_date", "is", null)
-        .order("payment_date", { ascending: false });
+        .eq("clinic_id", clinicId);
+
+      if (options.from) query = query.gte("paid_at", options.from);
+      if (options.to) query = query.lt("paid_at", options.to);
+
+      const { data, error } = await query.order("paid_at", { ascending: false });
 
       if (error) throw error;
 
       return {
-        data: (data as BillData[]) || [],
+        data: (data as PaymentWithBill[]) || [],
         success: true,
       };
     } catch (error) {
@@ -150,13 +226,13 @@ export class BillingService extends BaseService {
    */
   static async getBillById(billId: string): Promise<ServiceResponse<BillData>> {
     try {
-      const user = await this.getCurrentUser();
+      const clinicId = await this.getCurrentClinicId();
 
       // Get clinic profile to find clinic_id
       const { data: clinicProfile } = await supabase
         .from("clinic_profiles")
         .select("id")
-        .eq("id", user.id)
+        .eq("id", clinicId)
         .single() as { data: { id: string } | null, error: any };
 
       if (!clinicProfile) {
@@ -206,13 +282,13 @@ export class BillingService extends BaseService {
     status: string
   ): Promise<ServiceResponse<BillData[]>> {
     try {
-      const user = await this.getCurrentUser();
+      const clinicId = await this.getCurrentClinicId();
 
       // Get clinic profile to find clinic_id
       const { data: clinicProfile } = await supabase
         .from("clinic_profiles")
         .select("id")
-        .eq("id", user.id)
+        .eq("id", clinicId)
         .single() as { data: { id: string } | null, error: any };
 
       if (!clinicProfile) {
@@ -262,13 +338,13 @@ export class BillingService extends BaseService {
     clinicPatientId: string
   ): Promise<ServiceResponse<BillData[]>> {
     try {
-      const user = await this.getCurrentUser();
+      const clinicId = await this.getCurrentClinicId();
 
       // Get clinic profile to find clinic_id
       const { data: clinicProfile } = await supabase
         .from("clinic_profiles")
         .select("id")
-        .eq("id", user.id)
+        .eq("id", clinicId)
         .single() as { data: { id: string } | null, error: any };
 
       if (!clinicProfile) {
@@ -310,4 +386,320 @@ export class BillingService extends BaseService {
       };
     }
   }
+
+  /**
+   * Create a bill with its line items in one transaction. The bill number and
+   * the bill totals are filled in by the database.
+   */
+  static async createBill(
+    billData: CreateBillData,
+    items: BillItemInput[]
+  ): Promise<ServiceResponse<BillData>> {
+    try {
+      if (items.length === 0) {
+        throw new Error("Add at least one item to the bill");
+      }
+      const invalid = items.map(validateBillItem).find(Boolean);
+      if (invalid) {
+        throw new Error(invalid);
+      }
+
+      const { data, error } = await supabase.rpc("create_itemised_bill", {
+        p_bill: billData,
+        p_items: items.map((item) => ({
+          service_id: item.service_id || null,
+          item_type: item.item_type,
+          name: item.name.trim(),
+          description: item.description?.trim() || null,
+          hsn_sac_code: item.hsn_sac_code?.trim() || null,
+          quantity: item.quantity,
+          unit_price: item.unit_price,
+          discount_amount: item.discount_amount,
+          tax_rate: item.is_tax_exempt ? 0 : item.tax_rate,
+          is_tax_exempt: !!item.is_tax_exempt,
+        })),
+      });
+
+      if (error) throw error;
+
+      return { data: data as BillData, success: true };
+    } catch (error) {
+      return { error: this.handleError(error), success: false };
+    }
+  }
+
+  /**
+   * Line items of a bill, in bill order
+   */
+  static async getBillItems(billId: string): Promise<ServiceResponse<BillItem[]>> {
+    try {
+      const { data, error } = await supabase
+        .from("bill_items")
+        .select("*")
+        .eq("bill_id", billId)
+        .order("sort_order", { ascending: true });
+
+      if (error) throw error;
+
+      return { data: data || [], success: true };
+    } catch (error) {
+      return { error: this.handleError(error), success: false };
+    }
+  }
+
+  /**
+   * Receipts recorded against a bill, oldest first
+   */
+  static async getPayments(billId: string): Promise<ServiceResponse<Payment[]>> {
+    try {
+      const { data, error } = await supabase
+        .from("payments")
+        .select("*")
+        .eq("bill_id", billId)
+        .order("paid_at", { ascending: true });
+
+      if (error) throw error;
+
+      return { data: data || [], success: true };
+    } catch (error) {
+      return { error: this.handleError(error), success: false };
+    }
+  }
+
+  /**
+   * Record a receipt against a bill. The database numbers the receipt,
+   * rejects overpayment and moves the bill to partially_paid or paid.
+   */
+  static async recordPayment(
+    billId: string,
+    paymentData: RecordPaymentData
+  ): Promise<ServiceResponse<Payment>> {
+    try {
+      if (!(paymentData.amount > 0)) {
+        throw new Error("Payment amount must be more than 0");
+      }
+
+      const { data, error } = await supabase
+        .from("payments")
+        .insert({
+          bill_id: billId,
+          amount: paymentData.amount,
+          payment_mode: paymentData.payment_mode,
+          reference: paymentData.reference?.trim() || null,
+          notes: paymentData.notes?.trim() || null,
+          ...(paymentData.paid_at && { paid_at: paymentData.paid_at }),
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return { data, success: true };
+    } catch (error) {
+      return { error: this.handleError(error), success: false };
+    }
+  }
+
+  /**
+   * Issued credit notes and open suggestions of a bill, oldest first
+   */
+  static async getCreditNotes(billId: string): Promise<ServiceResponse<CreditNote[]>> {
+    try {
+      const { data, error } = await supabase
+        .from("credit_notes")
+        .select("*")
+        .eq("bill_id", billId)
+        .neq("status", "dismissed")
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+
+      return { data: data || [], success: true };
+    } catch (error) {
+      return { error: this.handleError(error), success: false };
+    }
+  }
+
+  /**
+   * Credit notes suggested when a paid appointment was cancelled or deleted,
+   * waiting to be issued or dismissed
+   */
+  static async getSuggestedCreditNotes(
+    options: { appointmentId?: string } = {}
+  ): Promise<ServiceResponse<CreditNoteWithBill[]>> {
+    try {
+      const clinicId = await this.getCurrentClinicId();
+
+      let query = supabase
+        .from("credit_notes")
+        .select(
+          `
+          *,
+          bill:bills(
+            id,
+            bill_number,
+            total_amount,
+            amount_paid,
+            clinic_patient:clinic_patients(
+              id,
+              patient_profile:patient_profiles(
+                id,
+                full_name,
+                phone
+              )
+            )
+          )
+        `
+        )
+        .eq("clinic_id", clinicId)
+        .eq("status", "suggested");
+
+      if (options.appointmentId) query = query.eq("appointment_id", options.appointmentId);
+
+      const { data, error } = await query.order("created_at", { ascending: false });
+
+      if (error) throw error;
+
+      return { data: (data as CreditNoteWithBill[]) || [], success: true };
+    } catch (error) {
+      return { error: this.handleError(error), success: false };
+    }
+  }
+
+  /**
+   * Issue a credit note against a bill. The database numbers it, rejects
+   * crediting more than the bill is worth and cancels a fully credited bill.
+   */
+  static async issueCreditNote(
+    billId: string,
+    noteData: CreditNoteData
+  ): Promise<ServiceResponse<CreditNote>> {
+    try {
+      if (!(noteData.amount > 0)) {
+        throw new Error("Credit note amount must be more than 0");
+      }
+      if (!noteData.reason.trim()) {
+        throw new Error("Give a reason for the credit note");
+      }
+
+      const { data, error } = await supabase
+        .from("credit_notes")
+        .insert({
+          bill_id: billId,
+          status: "issued",
+          amount: noteData.amount,
+          reason: noteData.reason.trim(),
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return { data, success: true };
+    } catch (error) {
+      return { error: this.handleError(error), success: false };
+    }
+  }
+
+  /**
+   * Issue a suggested credit note, optionally for a different amount
+   */
+  static async issueSuggestedCreditNote(
+    creditNoteId: string,
+    amount?: number
+  ): Promise<ServiceResponse<CreditNote>> {
+    try {
+      if (amount !== undefined && !(amount > 0)) {
+        throw new Error("Credit note amount must be more than 0");
+      }
+
+      const { data, error } = await supabase
+        .from("credit_notes")
+        .update({ status: "issued", ...(amount !== undefined && { amount }) })
+        .eq("id", creditNoteId)
+        .eq("status", "suggested")
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return { data, success: true };
+    } catch (error) {
+      return { error: this.handleError(error), success: false };
+    }
+  }
+
+  /**
+   * Dismiss a suggested credit note, e.g. when the fee is kept as a
+   * cancellation charge
+   */
+  static async dismissCreditNote(creditNoteId: string): Promise<ServiceResponse<void>> {
+    try {
+      const { error } = await supabase
+        .from("credit_notes")
+        .update({ status: "dismissed" })
+        .eq("id", creditNoteId)
+        .eq("status", "suggested");
+
+      if (error) throw error;
+
+      return { success: true };
+    } catch (error) {
+      return { error: this.handleError(error), success: false };
+    }
+  }
+
+  /**
+   * Refunds paid out on a bill, oldest first
+   */
+  static async getRefunds(billId: string): Promise<ServiceResponse<Refund[]>> {
+    try {
+      const { data, error } = await supabase
+        .from("refunds")
+        .select("*")
+        .eq("bill_id", billId)
+        .order("refunded_at", { ascending: true });
+
+      if (error) throw error;
+
+      return { data: data || [], success: true };
+    } catch (error) {
+      return { error: this.handleError(error), success: false };
+    }
+  }
+
+  /**
+   * Record money paid back to the patient. The database numbers the refund
+   * and rejects refunding more than was paid.
+   */
+  static async recordRefund(
+    billId: string,
+    refundData: RefundData
+  ): Promise<ServiceResponse<Refund>> {
+    try {
+      if (!(refundData.amount > 0)) {
+        throw new Error("Refund amount must be more than 0");
+      }
+
+      const { data, error } = await supabase
+        .from("refunds")
+        .insert({
+          bill_id: billId,
+          amount: refundData.amount,
+          payment_mode: refundData.payment_mode,
+          reference: refundData.reference?.trim() || null,
+          reason: refundData.reason?.trim() || null,
+          credit_note_id: refundData.credit_note_id || null,
+          ...(refundData.refunded_at && { refunded_at: refundData.refunded_at }),
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return { data, success: true };
+    } catch (error) {
+      return { error: this.handleError(error), success: false };
+    }
+  }
 }
@@ -196,6 +196,27 @@ export class ClinicProfileService extends BaseService {
     }
   }
 
+  /**
+   * Public URL of the clinic logo (logo_url, or derived from the stored
+   * clinic_logo path), without cache-busting query params
+   */
+  static getLogoUrl(
+    profile: Pick<ClinicProfile, "logo_url" | "clinic_logo">
+  ): string | null {
+    if (profile.logo_url) {
+      return profile.logo_url.split("?")[0];
+    }
+
+    if (profile.clinic_logo) {
+      const { data: urlData } = supabase.storage
+        .from("clinic-logos")
+        .getPublicUrl(profile.clinic_logo);
+      return urlData.publicUrl.split("?")[0];
+    }
+
+    return null;
+  }
+
   /**
    * Delete clinic logo from storage
    */
@@ -0,0 +1,66 @@
+/**
+ * Dashboard Service
+ * Metric cards for the Dashboard, aggregated in the database by
+ * get_dashboard_metrics() so nothing is counted client-side
+ */
+import { supabase } from "../lib/supabase";
+import { BaseService, ServiceResponse } from "./BaseService";
+import type { Database } from "../types/database";
+
+export interface DashboardMetric {
+  value: number;
+  lastWeek: number;
+  // null when there is nothing to compare against (zero last week)
+  changePct: number | null;
+}
+
+export interface DashboardMetrics {
+  totalPatients: DashboardMetric;
+  totalDoctors: DashboardMetric;
+  todayAppointments: DashboardMetric;
+  // null for logins without billing access
+  pendingBills: (DashboardMetric & { amount: number }) | null;
+  overdueFollowups: DashboardMetric;
+}
+
+type DashboardMetricsRow = Database["public"]["Functions"]["get_dashboard_metrics"]["Returns"];
+
+const toMetric = (raw?: DashboardMetricsRow["total_patients"]): DashboardMetric => ({
+  value: Number(raw?.value ?? 0),
+  lastWeek: Number(raw?.last_week ?? 0),
+  changePct: raw?.change_pct === null || raw?.change_pct === undefined
+    ? null
+    : Number(raw.change_pct),
+});
+
+export class DashboardService extends BaseService {
+  /**
+   * Today's counts, pending bills and overdue follow-ups for the current
+   * clinic, each with its value a week ago
+   */
+  static async getMetrics(): Promise<ServiceResponse<DashboardMetrics>> {
+    try {
+      const { data, error } = await supabase.rpc("get_dashboard_metrics");
+
+      if (error) throw error;
+
+      return {
+        data: {
+          totalPatients: toMetric(data?.total_patients),
+          totalDoctors: toMetric(data?.total_doctors),
+          todayAppointments: toMetric(data?.today_appointments),
+          pendingBills: data?.pending_bills
+            ? {
+                ...toMetric(data.pending_bills),
+                amount: Number(data.pending_bills.amount ?? 0),
+              }
+            : null,
+          overdueFollowups: toMetric(data?.overdue_followups),
+        },
+        success: true,
+      };
+    } catch (error) {
+      return { error: this.handleError(error), success: false };
+    }
+  }
+}
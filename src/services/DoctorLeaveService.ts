@@ -0,0 +1,408 @@
+/**
+ * Doctor Leave Service
+ * Doctor leave and clinic holidays. Slots inside a leave are deactivated by
+ * the database; this service lists the appointments already booked in the
+ * range and reschedules or cancels them in bulk, notifying patients.
+ */
+import { supabase } from "../lib/supabase";
+import { BaseService, ServiceResponse } from "./BaseService";
+import { AppointmentService } from "./AppointmentService";
+import { WhatsAppService } from "./WhatsAppService";
+import { AppointmentStatus } from "../constants";
+import type { DoctorLeaveWithDoctor } from "../types/database";
+import {
+  convertUTCToISTTime24,
+  createUTCFromISTInput,
+  extractISTDateForInput,
+} from "../utils/timezoneUtils";
+
+export interface CreateDoctorLeaveData {
+  // null = whole clinic closed (holiday)
+  clinic_doctor_id: string | null;
+  start_date: string;
+  end_date: string;
+  reason?: string;
+}
+
+export interface LeaveCollision {
+  id: string;
+  appointment_datetime: string;
+  status: string;
+  appointment_type?: string | null;
+  clinic_doctor_id: string;
+  patient_profile_id?: string;
+  patient_name: string;
+  patient_phone?: string | null;
+  doctor_name: string;
+  slot_name?: string | null;
+  slot_type?: string | null;
+}
+
+export interface BulkLeaveActionResult {
+  succeeded: string[];
+  failed: { appointmentId: string; reason: string }[];
+}
+
+// Statuses that still expect the patient to turn up
+const OPEN_APPOINTMENT_STATUSES = [
+  AppointmentStatus.SCHEDULED,
+  AppointmentStatus.CHECKED_IN,
+  AppointmentStatus.RESCHEDULED,
+];
+
+export class DoctorLeaveService extends BaseService {
+  /**
+   * Get leave and holidays ending on or after a date (default: today)
+   */
+  static async getLeaves(
+    fromDate?: string
+  ): Promise<ServiceResponse<DoctorLeaveWithDoctor[]>> {
+    try {
+      const clinicId = await this.getCurrentClinicId();
+      const from = fromDate || extractISTDateForInput(new Date().toISOString());
+
+      const { data, error } = await supabase
+        .from("doctor_leaves")
+        .select(
+          `
+          *,
+          clinic_doctor:clinic_doctors(
+            id,
+            doctor_profile:doctor_profiles(id, full_name)
+          )
+        `
+        )
+        .eq("clinic_id", clinicId)
+        .gte("end_date", from)
+        .order("start_date", { ascending: true });
+
+      if (error) throw error;
+
+      return { data: data || [], success: true };
+    } catch (error) {
+      return { error: this.handleError(error), success: false };
+    }
+  }
+
+  /**
+   * Record doctor leave or a clinic holiday. Slots in the range are
+   * deactivated by the database.
+   */
+  static async createLeave(
+    leaveData: CreateDoctorLeaveData
+  ): Promise<ServiceResponse<DoctorLeaveWithDoctor>> {
+    try {
+      this.validateRequired({
+        start_date: leaveData.start_date,
+        end_date: leaveData.end_date,
+      });
+
+      if (leaveData.end_date < leaveData.start_date) {
+        throw new Error("End date must be on or after start date");
+      }
+
+      const clinicId = await this.getCurrentClinicId();
+
+      const { data, error } = await supabase
+        .from("doctor_leaves")
+        .insert({
+          clinic_id: clinicId,
+          clinic_doctor_id: leaveData.clinic_doctor_id,
+          start_date: leaveData.start_date,
+          end_date: leaveData.end_date,
+          reason: leaveData.reason?.trim() || null,
+        })
+        .select(
+          `
+          *,
+          clinic_doctor:clinic_doctors(
+            id,
+            doctor_profile:doctor_profiles(id, full_name)
+          )
+        `
+        )
+        .single();
+
+      if (error) throw error;
+
+      return { data, success: true };
+    } catch (error) {
+      return { error: this.handleError(error), success: false };
+    }
+  }
+
+  /**
+   * Remove leave. Slots it deactivated become bookable again.
+   */
+  static async deleteLeave(id: string): Promise<ServiceResponse<void>> {
+    try {
+      this.validateRequired({ id });
+      const clinicId = await this.getCurrentClinicId();
+
+      const { error } = await supabase
+        .from("doctor_leaves")
+        .delete()
+        .eq("id", id)
+        .eq("clinic_id", clinicId);
+
+      if (error) throw error;
+
+      return { success: true };
+    } catch (error) {
+      return { error: this.handleError(error), success: false };
+    }
+  }
+
+  /**
+   * Appointments still booked inside a leave's date range
+   */
+  static async getCollidingAppointments(
+    leave: Pick<DoctorLeaveWithDoctor, "clinic_doctor_id" | "start_date" | "end_date">
+  ): Promise<ServiceResponse<LeaveCollision[]>> {
+    try {
+      const clinicId = await this.getCurrentClinicId();
+
+      let query = supabase
+        .from("appointments")
+        .select(
+          `
+          id,
+          appointment_datetime,
+          status,
+          appointment_type,
+          clinic_doctor_id,
+          clinic_patient:clinic_patients(
+            patient_profile:patient_profiles(id, full_name, phone)
+          ),
+          clinic_doctor:clinic_doctors!inner(
+            clinic_id,
+            doctor_profile:doctor_profiles(full_name)
+          ),
+          doctor_slot:doctor_slots(slot_name, slot_type)
+        `
+        )
+        .eq("clinic_doctor.clinic_id", clinicId)
+        .in("status", OPEN_APPOINTMENT_STATUSES)
+        .gte("appointment_datetime", createUTCFromISTInput(leave.start_date, "00:00"))
+        .lt(
+          "appointment_datetime",
+          createUTCFromISTInput(this.addDays(leave.end_date, 1), "00:00")
+        )
+        .order("appointment_datetime", { ascending: true });
+
+      if (leave.clinic_doctor_id) {
+        query = query.eq("clinic_doctor_id", leave.clinic_doctor_id);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+
+      const collisions: LeaveCollision[] = (data || []).map((row) => ({
+        id: row.id,
+        appointment_datetime: row.appointment_datetime,
+        status: row.status || "",
+        appointment_type: row.appointment_type,
+        clinic_doctor_id: row.clinic_doctor_id || "",
+        patient_profile_id: row.clinic_patient?.patient_profile?.id,
+        patient_name: row.clinic_patient?.patient_profile?.full_name || "Patient",
+        patient_phone: row.clinic_patient?.patient_profile?.phone,
+        doctor_name: row.clinic_doctor?.doctor_profile?.full_name || "Doctor",
+        slot_name: row.doctor_slot?.slot_name,
+        slot_type: row.doctor_slot?.slot_type,
+      }));
+
+      return { data: collisions, success: true };
+    } catch (error) {
+      return { error: this.handleError(error), success: false };
+    }
+  }
+
+  /**
+   * Cancel appointments and send each patient the cancellation WhatsApp
+   */
+  static async cancelAppointments(
+    appointments: LeaveCollision[],
+    reason?: string
+  ): Promise<ServiceResponse<BulkLeaveActionResult>> {
+    try {
+      const result: BulkLeaveActionResult = { succeeded: [], failed: [] };
+
+      for (const appointment of appointments) {
+        const updateResult = await AppointmentService.updateAppointment(
+          appointment.id,
+          {
+            status: AppointmentStatus.CANCELLED,
+            ...(reason ? { notes: `Cancelled: ${reason}` } : {}),
+          }
+        );
+
+        if (!updateResult.success) {
+          result.failed.push({
+            appointmentId: appointment.id,
+            reason: updateResult.error?.message || "Failed to cancel",
+          });
+          continue;
+        }
+
+        result.succeeded.push(appointment.id);
+
+        if (appointment.patient_phone) {
+          const whatsappResult = await WhatsAppService.sendAppointmentCancelled({
+            phone: appointment.patient_phone,
+            appointmentId: appointment.id,
+            patientName: appointment.patient_name,
+            doctorName: appointment.doctor_name,
+            appointmentDate: extractISTDateForInput(appointment.appointment_datetime),
+            appointmentTime: convertUTCToISTTime24(appointment.appointment_datetime),
+          });
+
+          if (!whatsappResult.success) {
+            console.error(
+              "❌ [CLINIC-ADMIN] Cancellation notification failed:",
+              whatsappResult.error
+            );
+          }
+        }
+      }
+
+      return { data: result, success: true };
+    } catch (error) {
+      return { error: this.handleError(error), success: false };
+    }
+  }
+
+  /**
+   * Move appointments to the same doctor's slots on another date, keeping the
+   * slot name (Morning/Evening) and type where possible, and notify patients.
+   * Appointments that find no free slot are reported back as failed.
+   */
+  static async rescheduleAppointments(
+    appointments: LeaveCollision[],
+    targetDate: string
+  ): Promise<ServiceResponse<BulkLeaveActionResult>> {
+    try {
+      this.validateRequired({ targetDate });
+
+      const clinicId = await this.getCurrentClinicId();
+      const result: BulkLeaveActionResult = { succeeded: [], failed: [] };
+
+      const doctorIds = [...new Set(appointments.map((a) => a.clinic_doctor_id))];
+      const { data: slots, error: slotsError } = await supabase
+        .from("doctor_slots")
+        .select("*, clinic_doctors!inner(clinic_id)")
+        .in("clinic_doctor_id", doctorIds)
+        .eq("clinic_doctors.clinic_id", clinicId)
+        .eq("slot_date", targetDate)
+        .eq("is_active", true)
+        .order("start_time", { ascending: true });
+
+      if (slotsError) throw slotsError;
+
+      // Seats taken in this run, so one slot is not overfilled
+      const availableSlots = (slots || []).map((slot) => ({ ...slot }));
+
+      const { data: clinicProfile } = await supabase
+        .from("clinic_profiles")
+        .select("clinic_name, slug")
+        .eq("id", clinicId)
+        .single();
+
+      const clinicName = clinicProfile?.clinic_name || "Clinic";
+      const clinicSlug = clinicProfile?.slug || "clinic";
+
+      for (const appointment of appointments) {
+        const isVideo =
+          appointment.slot_type === "video" ||
+          !!appointment.appointment_type?.toLowerCase().includes("video");
+        const slotType = isVideo ? "video" : "in-clinic";
+
+        const candidates = availableSlots.filter(
+          (slot) =>
+            slot.clinic_doctor_id === appointment.clinic_doctor_id &&
+            (slot.slot_type || "in-clinic") === slotType &&
+            slot.current_bookings < slot.max_capacity
+        );
+        const newSlot =
+          candidates.find((slot) => slot.slot_name === appointment.slot_name) ||
+          candidates[0];
+
+        if (!newSlot) {
+          result.failed.push({
+            appointmentId: appointment.id,
+            reason: `No free ${slotType} slot for ${appointment.doctor_name} on ${targetDate}`,
+          });
+          continue;
+        }
+
+        const newTime = newSlot.start_time.slice(0, 5);
+        const updateResult = await AppointmentService.updateAppointment(
+          appointment.id,
+          {
+            doctor_slot_id: newSlot.id,
+            appointment_datetime: createUTCFromISTInput(targetDate, newTime),
+            slot_booking_order: newSlot.current_bookings + 1,
+            status: AppointmentStatus.SCHEDULED,
+            is_rescheduled: true,
+          }
+        );
+
+        if (!updateResult.success) {
+          result.failed.push({
+            appointmentId: appointment.id,
+            reason: updateResult.error?.message || "Failed to reschedule",
+          });
+          continue;
+        }
+
+        newSlot.current_bookings += 1;
+        result.succeeded.push(appointment.id);
+
+        if (!appointment.patient_phone) continue;
+
+        const notification = {
+          phone: appointment.patient_phone,
+          appointmentId: appointment.id,
+          patientName: appointment.patient_name,
+          doctorName: appointment.doctor_name,
+          oldDate: extractISTDateForInput(appointment.appointment_datetime),
+          oldTime: convertUTCToISTTime24(appointment.appointment_datetime),
+          newDate: targetDate,
+          newTime,
+          clinicName,
+        };
+
+        const whatsappResult = isVideo
+          ? await WhatsAppService.sendVideoConsultationRescheduled({
+              ...notification,
+              videoCallLinkSuffix: WhatsAppService.generateVideoCallLink({
+                clinicSlug,
+                callId: `vc-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+                patientId: appointment.patient_profile_id || "",
+                patientName: appointment.patient_name,
+                appointmentId: appointment.id,
+                doctorName: appointment.doctor_name,
+              }).ctaSuffix,
+            })
+          : await WhatsAppService.sendAppointmentRescheduled(notification);
+
+        if (!whatsappResult.success) {
+          console.error(
+            "❌ [CLINIC-ADMIN] Reschedule notification failed:",
+            whatsappResult.error
+          );
+        }
+      }
+
+      return { data: result, success: true };
+    } catch (error) {
+      return { error: this.handleError(error), success: false };
+    }
+  }
+
+  private static addDays(date: string, days: number): string {
+    const next = new Date(`${date}T00:00:00Z`);
+    next.setUTCDate(next.getUTCDate() + days);
+    return next.toISOString().split("T")[0];
+  }
+}
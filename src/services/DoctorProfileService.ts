@@ -181,14 +181,14 @@ export class DoctorProfileService extends BaseService {
     }
   ): Promise<ServiceResponse<ClinicDoctor>> {
     try {
-      const user = await this.getCurrentUser();
+      const clinicId = await this.getCurrentClinicId();
 
       // Check if relationship already exists
       const { data: existingLink } = await supabase
         .from("clinic_doctors")
         .select("*")
         .eq("doctor_profile_id", doctorProfileId)
-        .eq("clinic_id", user.id)
+        .eq("clinic_id", clinicId)
         .single();
 
       if (existingLink) {
@@ -200,7 +200,7 @@ export class DoctorProfileService extends BaseService {
         .from("clinic_doctors")
         .insert({
           doctor_profile_id: doctorProfileId,
-          clinic_id: user.id,
+          clinic_id: clinicId,
           role_in_clinic: this.mapRoleToDatabase(role), // ✅ Map to correct DB enum
           is_active: true, // ✅ Fixed field name and value
           consultation_fee: consultationFeeOverride,
@@ -231,7 +231,7 @@ export class DoctorProfileService extends BaseService {
     searchTerm?: string;
   }): Promise<ServiceResponse<DoctorProfileWithClinic[]>> {
     try {
-      const user = await this.getCurrentUser();
+      const clinicId = await this.getCurrentClinicId();
 
       let query = supabase
         .from("clinic_doctors")
@@ -241,7 +241,7 @@ export class DoctorProfileService extends BaseService {
           doctor_profile:doctor_profiles(*)
         `
         )
-        .eq("clinic_id", user.id);
+        .eq("clinic_id", clinicId);
 
       if (filters?.status) {
         // Map status to is_active boolean
@@ -325,7 +325,7 @@ export class DoctorProfileService extends BaseService {
     doctorProfileId: string
   ): Promise<ServiceResponse<DoctorProfileWithClinic>> {
     try {
-      const user = await this.getCurrentUser();
+      const clinicId = await this.getCurrentClinicId();
 
       const { data, error } = await supabase
         .from("doctor_profiles")
@@ -350,7 +350,7 @@ export class DoctorProfileService extends BaseService {
         `
         )
         .eq("id", doctorProfileId)
-        .eq("clinic_doctors.clinic_id", user.id)
+        .eq("clinic_doctors.clinic_id", clinicId)
         .single();
 
       if (error) throw error;
@@ -407,7 +407,7 @@ export class DoctorProfileService extends BaseService {
     }
   ): Promise<ServiceResponse<ClinicDoctor>> {
     try {
-      const user = await this.getCurrentUser();
+      const clinicId = await this.getCurrentClinicId();
 
       const { data, error } = await supabase
         .from("clinic_doctors")
@@ -416,7 +416,7 @@ export class DoctorProfileService extends BaseService {
           updated_at: new Date().toISOString(),
         } as any)
         .eq("id", clinicDoctorId)
-        .eq("clinic_id", user.id)
+        .eq("clinic_id", clinicId)
         .select()
         .single();
 
@@ -504,14 +504,14 @@ export class DoctorProfileService extends BaseService {
     doctorProfileId: string
   ): Promise<ServiceResponse<boolean>> {
     try {
-      const user = await this.getCurrentUser();
+      const clinicId = await this.getCurrentClinicId();
 
       // Delete the clinic-doctor relationship
       const { error } = await supabase
         .from("clinic_doctors")
         .delete()
         .eq("doctor_profile_id", doctorProfileId)
-        .eq("clinic_id", user.id);
+        .eq("clinic_id", clinicId);
 
       if (error) throw error;
 
@@ -528,7 +528,7 @@ export class DoctorProfileService extends BaseService {
     clinicDoctorId: string
   ): Promise<ServiceResponse<void>> {
     try {
-      const user = await this.getCurrentUser();
+      const clinicId = await this.getCurrentClinicId();
 
       const { error } = await supabase
         .from("clinic_doctors")
@@ -537,7 +537,7 @@ export class DoctorProfileService extends BaseService {
           updated_at: new Date().toISOString(),
         } as any)
         .eq("id", clinicDoctorId)
-        .eq("clinic_id", user.id);
+        .eq("clinic_id", clinicId);
 
       if (error) throw error;
 
@@ -559,7 +559,7 @@ export class DoctorProfileService extends BaseService {
     }
   ): Promise<ServiceResponse<ClinicDoctor>> {
     try {
-      const user = await this.getCurrentUser();
+      const clinicId = await this.getCurrentClinicId();
 
       const { data, error } = await supabase
         .from("clinic_doctors")
@@ -568,7 +568,7 @@ export class DoctorProfileService extends BaseService {
           updated_at: new Date().toISOString(),
         } as any)
         .eq("id", clinicDoctorId)
-        .eq("clinic_id", user.id)
+        .eq("clinic_id", clinicId)
         .select()
         .single();
 
@@ -648,7 +648,7 @@ export class DoctorProfileService extends BaseService {
     ServiceResponse<{ affectedAppointments?: number; affectedSlots?: number }>
   > {
     try {
-      const user = await this.getCurrentUser();
+      const clinicId = await this.getCurrentClinicId();
 
       // Get the clinic_doctor_id
       const doctorResult = await this.getDoctorById(doctorId);
@@ -688,6 +688,7 @@ export class DoctorProfileService extends BaseService {
           .from("appointments")
           .update({
             status: "cancelled",
+            status_reason: "Doctor deactivated",
             updated_at: new Date().toISOString(),
           })
           .eq("clinic_doctor_id", clinicDoctorId)
@@ -717,7 +718,7 @@ export class DoctorProfileService extends BaseService {
           updated_at: new Date().toISOString(),
         })
         .eq("id", clinicDoctorId)
-        .eq("clinic_id", user.id);
+        .eq("clinic_id", clinicId);
 
       if (clinicDoctorError) throw clinicDoctorError;
 
@@ -744,7 +745,7 @@ export class DoctorProfileService extends BaseService {
     ServiceResponse<{ deletedAppointments: number; deletedSlots: number }>
   > {
     try {
-      const user = await this.getCurrentUser();
+      const clinicId = await this.getCurrentClinicId();
 
       // Get the clinic_doctor_id
       const doctorResult = await this.getDoctorById(doctorId);
@@ -776,6 +777,7 @@ export class DoctorProfileService extends BaseService {
         .from("appointments")
         .update({
           status: "cancelled",
+          status_reason: "Doctor removed from clinic",
           updated_at: new Date().toISOString(),
         })
         .eq("clinic_doctor_id", clinicDoctorId)
@@ -797,7 +799,7 @@ export class DoctorProfileService extends BaseService {
         .from("clinic_doctors")
         .delete()
         .eq("id", clinicDoctorId)
-        .eq("clinic_id", user.id);
+        .eq("clinic_id", clinicId);
 
       if (clinicDoctorError) throw clinicDoctorError;
 
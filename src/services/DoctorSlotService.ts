@@ -6,7 +6,7 @@ import { supabase } from "../lib/supabase";
 import { BaseService, ServiceResponse } from "./BaseService";
 import { Database } from "../types/database";
 
-type DoctorSlot = Database["public"]["Tables"]["doctor_slots"]["Row"];
+export type DoctorSlot = Database["public"]["Tables"]["doctor_slots"]["Row"];
 type DoctorSlotInsert = Database["public"]["Tables"]["doctor_slots"]["Insert"];
 type DoctorSlotUpdate = Database["public"]["Tables"]["doctor_slots"]["Update"];
 
@@ -25,6 +25,21 @@ export interface UpdateSlotData {
   max_capacity?: number;
 }
 
+/**
+ * Weekly recurrence rule, stored in clinic_doctors.availability_schedule
+ * weekdays: 0 = Sunday ... 6 = Saturday
+ */
+export interface RecurringSlotRule extends CreateSlotData {
+  weekdays: number[];
+}
+
+export interface RecurringSlotSchedule {
+  weeks_ahead: number;
+  recurring_slots: RecurringSlotRule[];
+}
+
+export const MAX_RECURRING_WEEKS_AHEAD = 12;
+
 export interface AvailableSlot extends DoctorSlot {
   available_capacity: number;
   is_full: boolean;
@@ -51,12 +66,12 @@ export class DoctorSlotService extends BaseService {
       this.validateSlotTimes(slots);
 
       // Check if doctor exists and belongs to current user's clinic
-      const user = await this.getCurrentUser();
+      const clinicId = await this.getCurrentClinicId();
       const { data: doctor, error: doctorError } = await supabase
         .from("clinic_doctors")
         .select("id")
         .eq("id", clinicDoctorId)
-        .eq("clinic_id", user.id)
+        .eq("clinic_id", clinicId)
         .single();
 
       if (doctorError || !doctor) {
@@ -206,12 +221,21 @@ export class DoctorSlotService extends BaseService {
             );
           }).length || 0;
 
-        const totalBookings = (activeAppointments || 0) + pendingRequestsInSlot;
+        // Seats held for waitlisted patients who were offered them
+        const { count: heldSeats } = await supabase
+          .from("slot_waitlist")
+          .select("*", { count: "exact", head: true })
+          .eq("doctor_slot_id", slot.id)
+          .eq("status", "offered")
+          .gt("hold_expires_at", new Date().toISOString());
+
+        const totalBookings =
+          (activeAppointments || 0) + pendingRequestsInSlot + (heldSeats || 0);
         const realAvailableCapacity = slot.max_capacity - totalBookings;
         const isFull = totalBookings >= slot.max_capacity;
 
         console.log(
-          `📋 Slot: ${slot.slot_name} | Capacity: ${realAvailableCapacity}/${slot.max_capacity} | Active: ${activeAppointments} | Pending: ${pendingRequestsInSlot} | Full: ${isFull}`
+          `📋 Slot: ${slot.slot_name} | Capacity: ${realAvailableCapacity}/${slot.max_capacity} | Active: ${activeAppointments} | Pending: ${pendingRequestsInSlot} | Held: ${heldSeats || 0} | Full: ${isFull}`
         );
 
         availableSlots.push({
@@ -282,7 +306,7 @@ export class DoctorSlotService extends BaseService {
       }
 
       // Check if slot belongs to current user's clinic
-      const user = await this.getCurrentUser();
+      const clinicId = await this.getCurrentClinicId();
       const { data: slot, error: slotError } = await supabase
         .from("doctor_slots")
         .select(
@@ -294,7 +318,7 @@ export class DoctorSlotService extends BaseService {
         `
         )
         .eq("id", slotId)
-        .eq("clinic_doctors.clinic_id", user.id)
+        .eq("clinic_doctors.clinic_id", clinicId)
         .single();
 
       if (slotError || !slot) {
@@ -335,7 +359,7 @@ export class DoctorSlotService extends BaseService {
       this.validateRequired({ slotId });
 
       // Check if slot belongs to current user's clinic
-      const user = await this.getCurrentUser();
+      const clinicId = await this.getCurrentClinicId();
       const { data: slot, error: slotError } = await supabase
         .from("doctor_slots")
         .select(
@@ -347,7 +371,7 @@ export class DoctorSlotService extends BaseService {
         `
         )
         .eq("id", slotId)
-        .eq("clinic_doctors.clinic_id", user.id)
+        .eq("clinic_doctors.clinic_id", clinicId)
         .single();
 
       if (slotError || !slot) {
@@ -425,7 +449,7 @@ export class DoctorSlotService extends BaseService {
       this.validateRequired({ slotId });
 
       // Check if slot belongs to current user's clinic
-      const user = await this.getCurrentUser();
+      const clinicId = await this.getCurrentClinicId();
       const { data: slot, error: slotError } = await supabase
         .from("doctor_slots")
         .select(
@@ -437,7 +461,7 @@ export class DoctorSlotService extends BaseService {
         `
         )
         .eq("id", slotId)
-        .eq("clinic_doctors.clinic_id", user.id)
+        .eq("clinic_doctors.clinic_id", clinicId)
         .single();
 
       if (slotError || !slot) {
@@ -538,12 +562,12 @@ export class DoctorSlotService extends BaseService {
       this.validateRequired({ doctorId, date, slots });
 
       // Get the clinic_doctor_id for the doctor
-      const user = await this.getCurrentUser();
+      const clinicId = await this.getCurrentClinicId();
       const { data: clinicDoctor, error: doctorError } = await supabase
         .from("clinic_doctors")
         .select("id")
         .eq("doctor_profile_id", doctorId)
-        .eq("clinic_id", user.id)
+        .eq("clinic_id", clinicId)
         .eq("is_active", true)
         .single();
 
@@ -557,6 +581,142 @@ export class DoctorSlotService extends BaseService {
     }
   }
 
+  /**
+   * Get the weekly recurring slot rules for a doctor
+   */
+  static async getRecurringSchedule(
+    doctorId: string
+  ): Promise<ServiceResponse<RecurringSlotSchedule>> {
+    try {
+      this.validateRequired({ doctorId });
+
+      const clinicId = await this.getCurrentClinicId();
+      const { data: clinicDoctor, error } = await supabase
+        .from("clinic_doctors")
+        .select("id, availability_schedule")
+        .eq("doctor_profile_id", doctorId)
+        .eq("clinic_id", clinicId)
+        .eq("is_active", true)
+        .single();
+
+      if (error || !clinicDoctor) {
+        throw new Error("Doctor not found or access denied");
+      }
+
+      const schedule = clinicDoctor.availability_schedule || {};
+
+      return {
+        data: {
+          weeks_ahead: schedule.weeks_ahead || 4,
+          recurring_slots: schedule.recurring_slots || [],
+        },
+        success: true,
+      };
+    } catch (error) {
+      return { error: this.handleError(error), success: false };
+    }
+  }
+
+  /**
+   * Save the weekly recurring slot rules for a doctor and create the
+   * slots for the coming weeks. Returns the slots created.
+   */
+  static async saveRecurringSchedule(
+    doctorId: string,
+    schedule: RecurringSlotSchedule
+  ): Promise<ServiceResponse<DoctorSlot[]>> {
+    try {
+      this.validateRequired({ doctorId, schedule });
+
+      if (
+        schedule.weeks_ahead < 1 ||
+        schedule.weeks_ahead > MAX_RECURRING_WEEKS_AHEAD
+      ) {
+        throw new Error(
+          `Weeks ahead must be between 1 and ${MAX_RECURRING_WEEKS_AHEAD}`
+        );
+      }
+
+      for (const rule of schedule.recurring_slots) {
+        if (rule.weekdays.length === 0) {
+          throw new Error(`Slot "${rule.slot_name}": Select at least one day`);
+        }
+        if (rule.max_capacity < 1 || rule.max_capacity > 50) {
+          throw new Error(
+            `Slot "${rule.slot_name}": Capacity must be between 1 and 50`
+          );
+        }
+      }
+
+      // Rules that share a weekday must not overlap
+      for (let weekday = 0; weekday < 7; weekday++) {
+        this.validateSlotTimes(
+          schedule.recurring_slots.filter((rule) =>
+            rule.weekdays.includes(weekday)
+          )
+        );
+      }
+
+      const clinicId = await this.getCurrentClinicId();
+      const { data: clinicDoctor, error: doctorError } = await supabase
+        .from("clinic_doctors")
+        .select("id, availability_schedule")
+        .eq("doctor_profile_id", doctorId)
+        .eq("clinic_id", clinicId)
+        .eq("is_active", true)
+        .single();
+
+      if (doctorError || !clinicDoctor) {
+        throw new Error("Doctor not found or access denied");
+      }
+
+      // Keep any other keys stored in availability_schedule
+      const { error: updateError } = await supabase
+        .from("clinic_doctors")
+        .update({
+          availability_schedule: {
+            ...(clinicDoctor.availability_schedule || {}),
+            weeks_ahead: schedule.weeks_ahead,
+            recurring_slots: schedule.recurring_slots.map((rule) => ({
+              ...rule,
+              slot_type: rule.slot_type || "in-clinic",
+              weekdays: [...rule.weekdays].sort((a, b) => a - b),
+            })),
+          },
+        })
+        .eq("id", clinicDoctor.id);
+
+      if (updateError) throw updateError;
+
+      return await this.materializeRecurringSlots(clinicDoctor.id);
+    } catch (error) {
+      return { error: this.handleError(error), success: false };
+    }
+  }
+
+  /**
+   * Create any missing slots from the doctor's recurring rules.
+   * Also run nightly by the materialize-recurring-slots cron job.
+   */
+  static async materializeRecurringSlots(
+    clinicDoctorId: string
+  ): Promise<ServiceResponse<DoctorSlot[]>> {
+    try {
+      this.validateRequired({ clinicDoctorId });
+
+      const { data, error } = await supabase.rpc(
+        "materialize_recurring_slots",
+        { p_clinic_doctor_id: clinicDoctorId }
+      );
+
+      if (error) throw error;
+
+      return { data: data || [], success: true };
+    } catch (error) {
+      return { error: this.handleError(error), success: false };
+    }
+  }
+
   /**
    * Bulk operations
    */
@@ -572,7 +732,7 @@ export class DoctorSlotService extends BaseService {
       }
 
       // Check if slots belong to current user's clinic
-      const user = await this.getCurrentUser();
+      const clinicId = await this.getCurrentClinicId();
       const { data: slots, error: slotsError } = await supabase
         .from("doctor_slots")
         .select(
@@ -584,7 +744,7 @@ export class DoctorSlotService extends BaseService {
         `
         )
         .in("id", slotIds)
-        .eq("clinic_doctors.clinic_id", user.id);
+        .eq("clinic_doctors.clinic_id", clinicId);
 
       if (slotsError || !slots) {
         throw new Error("Slots not found or access denied");
@@ -618,7 +778,7 @@ export class DoctorSlotService extends BaseService {
       }
 
       // Check if slots belong to current user's clinic and have no bookings
-      const user = await this.getCurrentUser();
+      const clinicId = await this.getCurrentClinicId();
       const { data: slots, error: slotsError } = await supabase
         .from("doctor_slots")
         .select(
@@ -631,7 +791,7 @@ export class DoctorSlotService extends BaseService {
         `
         )
         .in("id", slotIds)
-        .eq("clinic_doctors.clinic_id", user.id);
+        .eq("clinic_doctors.clinic_id", clinicId);
 
       if (slotsError || !slots) {
         throw new Error("Slots not found or access denied");
@@ -696,12 +856,12 @@ export class DoctorSlotService extends BaseService {
       this.validateRequired({ doctorId });
 
       // Get the clinic_doctor_id for the doctor
-      const user = await this.getCurrentUser();
+      const clinicId = await this.getCurrentClinicId();
       const { data: clinicDoctor, error: doctorError } = await supabase
         .from("clinic_doctors")
         .select("id")
         .eq("doctor_profile_id", doctorId)
-        .eq("clinic_id", user.id)
+        .eq("clinic_id", clinicId)
         .eq("is_active", true)
         .single();
 
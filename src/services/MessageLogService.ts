@@ -0,0 +1,135 @@
+/**
+ * Message Log Service
+ * Lists outbound WhatsApp, email and SMS messages with their delivery status
+ * and resends messages that failed or never arrived
+ */
+import { supabase } from "../lib/supabase";
+import { BaseService, ServiceResponse } from "./BaseService";
+import { NotificationService } from "./NotificationService";
+import type { MessageLogWithRelations } from "../types/database";
+
+export interface MessageLogFilters {
+  patientId?: string;
+  appointmentId?: string;
+  status?: MessageLogWithRelations["status"];
+  channel?: MessageLogWithRelations["channel"];
+  limit?: number;
+}
+
+export class MessageLogService extends BaseService {
+  /**
+   * Get messages sent by the current clinic, newest first
+   */
+  static async getMessages(
+    filters: MessageLogFilters = {}
+  ): Promise<ServiceResponse<MessageLogWithRelations[]>> {
+    try {
+      const clinicId = await this.getCurrentClinicId();
+
+      let query = supabase
+        .from("message_log")
+        .select(
+          `
+          *,
+          patient_profile:patient_profiles(id, full_name, phone, email),
+          appointment:appointments(id, appointment_datetime, status)
+        `
+        )
+        .eq("clinic_id", clinicId)
+        .order("created_at", { ascending: false })
+        .limit(filters.limit ?? 200);
+
+      if (filters.patientId) {
+        query = query.eq("patient_profile_id", filters.patientId);
+      }
+      if (filters.appointmentId) {
+        query = query.eq("appointment_id", filters.appointmentId);
+      }
+      if (filters.status) {
+        query = query.eq("status", filters.status);
+      }
+      if (filters.channel) {
+        query = query.eq("channel", filters.channel);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+
+      return { data: (data as MessageLogWithRelations[]) || [], success: true };
+    } catch (error) {
+      return { error: this.handleError(error), success: false };
+    }
+  }
+
+  /**
+   * Send a logged message again. The resend is logged as a new row that
+   * points back to the original through resent_from.
+   */
+  static async resendMessage(id: string): Promise<ServiceResponse<void>> {
+    try {
+      const clinicId = await this.getCurrentClinicId();
+
+      const { data: message, error: fetchError } = await supabase
+        .from("message_log")
+        .select("*")
+        .eq("id", id)
+        .eq("clinic_id", clinicId)
+        .single();
+
+      if (fetchError) throw fetchError;
+      if (!message) throw new Error("Message not found");
+
+      const original = message as MessageLogWithRelations;
+
+      if (original.channel === "whatsapp") {
+        if (!original.payload?.template) {
+          throw new Error("This message cannot be resent");
+        }
+
+        const { error } = await supabase.rpc(
+          "enqueue_whatsapp_message",
+          {
+            p_to: original.recipient,
+            p_template: original.payload.template,
+            p_appointment_id: original.appointment_id,
+            p_patient_profile_id: original.patient_profile_id,
+            p_resent_from: original.id,
+          }
+        );
+
+        if (error) throw error;
+      } else {
+        if (
+          !original.patient_profile_id ||
+          !original.payload?.type ||
+          !original.payload.event
+        ) {
+          throw new Error("This message cannot be resent");
+        }
+
+        const result = await NotificationService.send(
+          {
+            type: original.payload.type,
+            event: original.payload.event,
+            userId: original.patient_profile_id,
+            data: original.payload.data ?? {},
+            channels: [original.channel],
+          },
+          {
+            appointmentId: original.appointment_id ?? undefined,
+            resentFrom: original.id,
+          }
+        );
+
+        if (!result.success) {
+          throw new Error(result.error || "Failed to resend message");
+        }
+      }
+
+      return { success: true };
+    } catch (error) {
+      return { error: this.handleError(error), success: false };
+    }
+  }
+}
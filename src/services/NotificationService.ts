@@ -1,7 +1,10 @@
 /**
  * Notification Service for Clinic Admin
  * Handles sending notifications to patients via email and SMS
+ * Every delivery attempt is recorded in message_log. Channel consent and
+ * quiet hours are enforced by the send-notification edge function.
  */
+import { FunctionsHttpError } from '@supabase/supabase-js';
 import { supabase } from '../lib/supabase';
 
 export interface AppointmentNotificationData {
@@ -12,6 +15,7 @@ export interface AppointmentNotificationData {
   symptoms?: string;
   notes?: string;
   rejectionReason?: string;
+  appointmentId?: string;
 }
 
 export interface BillingNotificationData {
@@ -29,7 +33,108 @@ export interface SystemNotificationData {
   actionUrl?: string;
 }
 
+export type NotificationType = 'appointment' | 'billing' | 'system';
+export type NotificationChannel = 'email' | 'sms';
+
+export interface NotificationRequest {
+  type: NotificationType;
+  event: string;
+  userId?: string;
+  userIds?: string[];
+  data: Record<string, unknown>;
+  channels?: NotificationChannel[];
+}
+
+interface NotificationDeliveryResult {
+  patientId: string;
+  channel: NotificationChannel;
+  to: string;
+  status: 'sent' | 'failed' | 'skipped';
+  providerMessageId?: string;
+  error?: string;
+}
+
+interface NotificationLogOptions {
+  appointmentId?: string;
+  resentFrom?: string;
+}
+
 export class NotificationService {
+  /**
+   * Invoke the send-notification edge function and log each delivery result.
+   * Channels the patient has not consented to come back as skipped.
+   */
+  static async send(
+    request: NotificationRequest,
+    options: NotificationLogOptions = {}
+  ): Promise<{ success: boolean; error?: string }> {
+    const body = { ...request, channels: request.channels ?? ['email', 'sms'] };
+    const response = await supabase.functions.invoke('send-notification', { body });
+
+    let results: NotificationDeliveryResult[] = response.data?.results ?? [];
+    if (response.error) {
+      // Non-2xx responses still carry per-recipient results (e.g. all deliveries failed)
+      const errorBody =
+        response.error instanceof FunctionsHttpError
+          ? await response.error.context.json().catch(() => null)
+          : null;
+      results = errorBody?.results ?? [];
+    }
+
+    await this.logResults(body, results, options);
+
+    if (response.error) {
+      console.error('Notification service error:', response.error);
+      return { success: false, error: response.error.message };
+    }
+
+    // Every channel was withheld, e.g. the patient opted out or is in quiet hours
+    if (results.length > 0 && results.every((result) => result.status === 'skipped')) {
+      return { success: false, error: results[0].error || 'Notification not sent' };
+    }
+
+    return { success: true };
+  }
+
+  private static async logResults(
+    request: NotificationRequest,
+    results: NotificationDeliveryResult[],
+    options: NotificationLogOptions
+  ): Promise<void> {
+    if (results.length === 0) return;
+
+    const { data: { user } } = await supabase.auth.getUser();
+    const now = new Date().toISOString();
+    const appointmentId =
+      options.appointmentId ??
+      (typeof request.data?.appointmentId === 'string' ? request.data.appointmentId : null);
+
+    const rows = results.map((result) => ({
+      channel: result.channel,
+      template: `${request.type}.${request.event}`,
+      recipient: result.to,
+      patient_profile_id: result.patientId,
+      appointment_id: appointmentId,
+      status: result.status,
+      error: result.error ?? null,
+      attempts: result.status === 'skipped' ? 0 : 1,
+      provider_message_id: result.providerMessageId ?? null,
+      payload: {
+        type: request.type,
+        event: request.event,
+        data: request.data,
+      },
+      resent_from: options.resentFrom ?? null,
+      created_by: user?.id ?? null,
+      sent_at: result.status === 'sent' ? now : null,
+    }));
+
+    const { error } = await supabase.from('message_log').insert(rows);
+    if (error) {
+      console.error('Failed to record notification in message log:', error);
+    }
+  }
+
   /**
    * Send appointment notification to patient
    */
@@ -39,22 +144,10 @@ export class NotificationService {
     data: AppointmentNotificationData
   ): Promise<{ success: boolean; error?: string }> {
     try {
-      const response = await supabase.functions.invoke('send-notification', {
-        body: {
-          type: 'appointment',
-          event,
-          userId: patientId,
-          data,
-          channels: ['email', 'sms']
-        }
-      });
-
-      if (response.error) {
-        console.error('Notification service error:', response.error);
-        return { success: false, error: response.error.message };
-      }
-
-      return { success: true };
+      return await this.send(
+        { type: 'appointment', event, userId: patientId, data: { ...data } },
+        { appointmentId: data.appointmentId }
+      );
     } catch (error) {
       console.error('Failed to send appointment notification:', error);
       return { success: false, error: 'Failed to send notification' };
@@ -70,22 +163,7 @@ export class NotificationService {
     data: BillingNotificationData
   ): Promise<{ success: boolean; error?: string }> {
     try {
-      const response = await supabase.functions.invoke('send-notification', {
-        body: {
-          type: 'billing',
-          event,
-          userId: patientId,
-          data,
-          channels: ['email', 'sms']
-        }
-      });
-
-      if (response.error) {
-        console.error('Notification service error:', response.error);
-        return { success: false, error: response.error.message };
-      }
-
-      return { success: true };
+      return await this.send({ type: 'billing', event, userId: patientId, data: { ...data } });
     } catch (error) {
       console.error('Failed to send billing notification:', error);
       return { success: false, error: 'Failed to send notification' };
@@ -101,22 +179,7 @@ export class NotificationService {
     data: SystemNotificationData
   ): Promise<{ success: boolean; error?: string }> {
     try {
-      const response = await supabase.functions.invoke('send-notification', {
-        body: {
-          type: 'system',
-          event,
-          userId: patientId,
-          data,
-          channels: ['email', 'sms']
-        }
-      });
-
-      if (response.error) {
-        console.error('Notification service error:', response.error);
-        return { success: false, error: response.error.message };
-      }
-
-      return { success: true };
+      return await this.send({ type: 'system', event, userId: patientId, data: { ...data } });
     } catch (error) {
       console.error('Failed to send system notification:', error);
       return { success: false, error: 'Failed to send notification' };
@@ -128,27 +191,12 @@ export class NotificationService {
    */
   static async sendBulkNotification(
     patientIds: string[],
-    type: 'appointment' | 'billing' | 'system',
+    type: NotificationType,
     event: string,
     data: any
   ): Promise<{ success: boolean; error?: string }> {
     try {
-      const response = await supabase.functions.invoke('send-notification', {
-        body: {
-          type,
-          event,
-          userIds: patientIds,
-          data,
-          channels: ['email', 'sms']
-        }
-      });
-
-      if (response.error) {
-        console.error('Bulk notification service error:', response.error);
-        return { success: false, error: response.error.message };
-      }
-
-      return { success: true };
+      return await this.send({ type, event, userIds: patientIds, data });
     } catch (error) {
       console.error('Failed to send bulk notification:', error);
       return { success: false, error: 'Failed to send bulk notification' };
@@ -0,0 +1,294 @@
+/**
+ * Patient Import Service
+ * Bulk import of validated spreadsheet rows into patient_profiles and
+ * clinic_patients. Existing profiles are matched by phone, then email (as in
+ * PatientProfileService.findOrCreatePatientProfile) and linked instead of
+ * duplicated. A dry run reports what would happen without writing anything.
+ */
+import { supabase } from "../lib/supabase";
+import { BaseService, ServiceResponse } from "./BaseService";
+import type { PatientImportRow } from "../utils/patientImport";
+
+export type PatientImportOutcome =
+  | "create" // new profile, linked to the clinic
+  | "link" // existing profile, linked to the clinic
+  | "existing" // already a patient of this clinic
+  | "duplicate" // same phone or email as an earlier row in the file
+  | "invalid"
+  | "failed";
+
+export interface PatientImportResultRow {
+  rowNumber: number;
+  raw: Record<string, string>;
+  fullName: string;
+  phone: string;
+  outcome: PatientImportOutcome;
+  message: string;
+  patientProfileId?: string;
+}
+
+export interface PatientImportResult {
+  dryRun: boolean;
+  rows: PatientImportResultRow[];
+  counts: Record<PatientImportOutcome, number>;
+}
+
+// Keeps .in() filters and inserts well inside request size limits
+const BATCH_SIZE = 100;
+
+const chunk = <T>(items: T[], size = BATCH_SIZE): T[][] =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, i) =>
+    items.slice(i * size, (i + 1) * size)
+  );
+
+const countOutcomes = (rows: PatientImportResultRow[]) =>
+  rows.reduce(
+    (counts, row) => ({ ...counts, [row.outcome]: counts[row.outcome] + 1 }),
+    { create: 0, link: 0, existing: 0, duplicate: 0, invalid: 0, failed: 0 } as Record<
+      PatientImportOutcome,
+      number
+    >
+  );
+
+/**
+ * Insert one row per result, batch by batch. When a batch fails its rows are
+ * retried one at a time so a single bad row only fails itself.
+ */
+async function insertPerResult<T>(
+  results: PatientImportResultRow[],
+  insert: (
+    batch: PatientImportResultRow[]
+  ) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>,
+  onInserted: (batch: PatientImportResultRow[], data: T[]) => void,
+  onFailed: (result: PatientImportResultRow, message: string) => void
+): Promise<void> {
+  for (const batch of chunk(results)) {
+    const { data, error } = await insert(batch);
+    if (!error) {
+      onInserted(batch, data || []);
+      continue;
+    }
+
+    for (const result of batch) {
+      const single = await insert([result]);
+      if (single.error) {
+        onFailed(result, single.error.message);
+      } else {
+        onInserted([result], single.data || []);
+      }
+    }
+  }
+}
+
+interface ExistingProfile {
+  id: string;
+  full_name: string;
+  phone: string;
+  email: string | null;
+}
+
+export class PatientImportService extends BaseService {
+  /**
+   * Import validated rows for the current clinic. With dryRun the outcome of
+   * every row is worked out but nothing is written.
+   */
+  static async importPatients(
+    rows: PatientImportRow[],
+    options: { dryRun: boolean }
+  ): Promise<ServiceResponse<PatientImportResult>> {
+    try {
+      const user = await this.getCurrentUser();
+      const clinicId = await this.getCurrentClinicId();
+
+      const validRows = rows.filter((row) => row.data);
+      const phones = [...new Set(validRows.map((row) => row.data!.phone))];
+      const emails = [
+        ...new Set(validRows.map((row) => row.data!.email).filter((email): email is string => !!email)),
+      ];
+
+      // Existing profiles with any of the phones or emails
+      const profiles: ExistingProfile[] = [];
+      for (const batch of chunk(phones)) {
+        const { data, error } = await supabase
+          .from("patient_profiles")
+          .select("id, full_name, phone, email")
+          .in("phone", batch);
+        if (error) throw error;
+        profiles.push(...((data || []) as ExistingProfile[]));
+      }
+      for (const batch of chunk(emails)) {
+        const { data, error } = await supabase
+          .from("patient_profiles")
+          .select("id, full_name, phone, email")
+          .in("email", batch);
+        if (error) throw error;
+        profiles.push(...((data || []) as ExistingProfile[]));
+      }
+
+      const profileByPhone = new Map(profiles.map((p) => [p.phone, p]));
+      const profileByEmail = new Map(
+        profiles.filter((p) => p.email).map((p) => [p.email!.toLowerCase(), p])
+      );
+
+      // Which of those profiles already belong to this clinic
+      const linkedProfileIds = new Set<string>();
+      for (const batch of chunk([...new Set(profiles.map((p) => p.id))])) {
+        const { data, error } = await supabase
+          .from("clinic_patients")
+          .select("patient_profile_id")
+          .eq("clinic_id", clinicId)
+          .in("patient_profile_id", batch);
+        if (error) throw error;
+        (data || []).forEach((link) => {
+          if (link.patient_profile_id) linkedProfileIds.add(link.patient_profile_id);
+        });
+      }
+
+      const seenPhones = new Map<string, number>();
+      const seenEmails = new Map<string, number>();
+      const seenProfiles = new Map<string, number>();
+
+      const results: PatientImportResultRow[] = rows.map((row) => {
+        const base = {
+          rowNumber: row.rowNumber,
+          raw: row.raw,
+          fullName: row.data?.full_name ?? "",
+          phone: row.data?.phone ?? "",
+        };
+
+        if (!row.data) {
+          return { ...base, outcome: "invalid" as const, message: row.errors.join("; ") };
+        }
+
+        const { phone, email } = row.data;
+        const earlierRow = seenPhones.get(phone) ?? (email ? seenEmails.get(email) : undefined);
+        if (earlierRow) {
+          return {
+            ...base,
+            outcome: "duplicate" as const,
+            message: `Same phone or email as row ${earlierRow}`,
+          };
+        }
+        seenPhones.set(phone, row.rowNumber);
+        if (email) seenEmails.set(email, row.rowNumber);
+
+        const match =
+          profileByPhone.get(phone) ?? (email ? profileByEmail.get(email) : undefined);
+
+        if (!match) {
+          return { ...base, outcome: "create" as const, message: "New patient" };
+        }
+
+        // One row by phone and another by email can match the same profile
+        const earlierMatch = seenProfiles.get(match.id);
+        if (earlierMatch) {
+          return {
+            ...base,
+            outcome: "duplicate" as const,
+            message: `Same patient (${match.full_name}) as row ${earlierMatch}`,
+            patientProfileId: match.id,
+          };
+        }
+        seenProfiles.set(match.id, row.rowNumber);
+
+        const matchedBy = match.phone === phone ? "phone" : "email";
+        if (linkedProfileIds.has(match.id)) {
+          return {
+            ...base,
+            outcome: "existing" as const,
+            message: `Already a patient (${match.full_name}, matched by ${matchedBy})`,
+            patientProfileId: match.id,
+          };
+        }
+
+        return {
+          ...base,
+          outcome: "link" as const,
+          message: `Matched existing profile ${match.full_name} by ${matchedBy}`,
+          patientProfileId: match.id,
+        };
+      });
+
+      if (options.dryRun) {
+        return {
+          data: { dryRun: true, rows: results, counts: countOutcomes(results) },
+          success: true,
+        };
+      }
+
+      const dataByRow = new Map(rows.map((row) => [row.rowNumber, row.data]));
+
+      // New profiles, same fields and defaults as findOrCreatePatientProfile
+      await insertPerResult<{ id: string; phone: string }>(
+        results.filter((r) => r.outcome === "create"),
+        (batch) =>
+          supabase
+            .from("patient_profiles")
+            .insert(
+              batch.map((result) => {
+                const profile = dataByRow.get(result.rowNumber)!;
+                return {
+                  ...profile,
+                  onboarding_completed: false,
+                  preferred_language: "en",
+                  profile_verified: false,
+                  user_id: null,
+                  created_by: user.id,
+                };
+              })
+            )
+            .select("id, phone"),
+        (batch, data) => {
+          const idByPhone = new Map(data.map((p) => [p.phone, p.id]));
+          batch.forEach((result) => {
+            result.patientProfileId = idByPhone.get(result.phone);
+            if (!result.patientProfileId) {
+              result.outcome = "failed";
+              result.message = "Patient profile was not created";
+            }
+          });
+        },
+        (result, message) => {
+          result.outcome = "failed";
+          result.message = message;
+        }
+      );
+
+      // Link new and matched profiles to the clinic
+      await insertPerResult<{ patient_profile_id: string }>(
+        results.filter(
+          (r) => (r.outcome === "create" || r.outcome === "link") && r.patientProfileId
+        ),
+        (batch) =>
+          supabase
+            .from("clinic_patients")
+            .insert(
+              batch.map((result) => ({
+                patient_profile_id: result.patientProfileId,
+                clinic_id: clinicId,
+                relationship_status: "active" as const,
+                registration_source: "clinic_admin",
+                created_by: user.id,
+              }))
+            )
+            .select("patient_profile_id"),
+        () => {},
+        (result, message) => {
+          // The profile of a new row exists even though the link failed
+          result.message =
+            result.outcome === "create"
+              ? `Patient profile created but could not add to clinic: ${message}`
+              : `Could not add to clinic: ${message}`;
+          result.outcome = "failed";
+        }
+      );
+
+      return {
+        data: { dryRun: false, rows: results, counts: countOutcomes(results) },
+        success: true,
+      };
+    } catch (error) {
+      return { error: this.handleError(error), success: false };
+    }
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * Patient Merge Service
+ * Finds likely duplicate patient profiles in the current clinic and merges a
+ * duplicate into the record that is kept. Matching and the merge itself run
+ * in the database (find_duplicate_patients, merge_patient_profiles) so every
+ * re-pointed record and the audit_logs entry are written in one transaction.
+ */
+import { supabase } from "../lib/supabase";
+import { BaseService, ServiceResponse } from "./BaseService";
+
+export type DuplicateMatchReason = "phone" | "email" | "date_of_birth" | "name";
+
+export interface DuplicateCandidate {
+  id: string;
+  full_name: string;
+  phone: string | null;
+  email: string | null;
+  date_of_birth: string | null;
+  gender: string | null;
+  created_at: string;
+  // A patient app account is attached; the profile is never deleted by a merge
+  has_account: boolean;
+  appointment_count: number;
+  last_visit_date: string | null;
+}
+
+export interface DuplicatePatientPair {
+  score: number;
+  reasons: DuplicateMatchReason[];
+  patients: [DuplicateCandidate, DuplicateCandidate];
+}
+
+export interface PatientMergeResult {
+  survivorId: string;
+  duplicateId: string;
+  appointments: number;
+  bills: number;
+  waitlistEntries: number;
+  rescheduleRequests: number;
+  messages: number;
+  // False when the profile is shared with another clinic or a patient account
+  survivorProfileUpdated: boolean;
+  duplicateProfileDeleted: boolean;
+}
+
+export class PatientMergeService extends BaseService {
+  /**
+   * Likely duplicate pairs, best match first, with enough detail on each
+   * patient to choose which record to keep
+   */
+  static async findDuplicates(limit = 100): Promise<ServiceResponse<DuplicatePatientPair[]>> {
+    try {
+      const clinicId = await this.getCurrentClinicId();
+
+      const { data: matches, error } = await supabase.rpc("find_duplicate_patients", {
+        p_limit: limit,
+      });
+      if (error) throw error;
+      if (!matches?.length) return { data: [], success: true };
+
+      const profileIds = [
+        ...new Set<string>(
+          matches.flatMap((match) => [match.patient_a_id, match.patient_b_id])
+        ),
+      ];
+
+      const { data: profiles, error: profileError } = await supabase
+        .from("patient_profiles")
+        .select("id, full_name, phone, email, date_of_birth, gender, created_at, user_id")
+        .in("id", profileIds);
+      if (profileError) throw profileError;
+
+      const { data: links, error: linkError } = await supabase
+        .from("clinic_patients")
+        .select("id, patient_profile_id, last_visit_date, appointments(id)")
+        .eq("clinic_id", clinicId)
+        .in("patient_profile_id", profileIds);
+      if (linkError) throw linkError;
+
+      const linkByProfile = new Map(
+        (links || []).map((link) => [link.patient_profile_id, link])
+      );
+
+      const candidates = new Map<string, DuplicateCandidate>(
+        (profiles || []).map((profile) => {
+          const link = linkByProfile.get(profile.id);
+          return [
+            profile.id,
+            {
+              id: profile.id,
+              full_name: profile.full_name,
+              phone: profile.phone,
+              email: profile.email,
+              date_of_birth: profile.date_of_birth,
+              gender: profile.gender,
+              created_at: profile.created_at,
+              has_account: !!profile.user_id,
+              appointment_count: link?.appointments?.length ?? 0,
+              last_visit_date: link?.last_visit_date ?? null,
+            },
+          ];
+        })
+      );
+
+      const pairs = matches
+        .filter(
+          (match) => candidates.has(match.patient_a_id) && candidates.has(match.patient_b_id)
+        )
+        .map(
+          (match): DuplicatePatientPair => ({
+            score: Number(match.score),
+            reasons: match.reasons || [],
+            patients: [candidates.get(match.patient_a_id)!, candidates.get(match.patient_b_id)!],
+          })
+        );
+
+      return { data: pairs, success: true };
+    } catch (error) {
+      return { error: this.handleError(error), success: false };
+    }
+  }
+
+  /**
+   * Merge the duplicate into the survivor for this clinic. Appointments,
+   * bills, waitlist entries, reschedule requests and message history move to
+   * the survivor and the merge is recorded in audit_logs.
+   */
+  static async mergePatients(
+    survivorId: string,
+    duplicateId: string
+  ): Promise<ServiceResponse<PatientMergeResult>> {
+    try {
+      const { data, error } = await supabase.rpc("merge_patient_profiles", {
+        p_survivor_id: survivorId,
+        p_duplicate_id: duplicateId,
+      });
+      if (error) throw error;
+
+      return {
+        data: {
+          survivorId: data.survivor_id,
+          duplicateId: data.duplicate_id,
+          appointments: Number(data.appointments ?? 0),
+          bills: Number(data.bills ?? 0),
+          waitlistEntries: Number(data.waitlist_entries ?? 0),
+          rescheduleRequests: Number(data.reschedule_requests ?? 0),
+          messages: Number(data.messages ?? 0),
+          survivorProfileUpdated: !!data.survivor_profile_updated,
+          duplicateProfileDeleted: !!data.duplicate_profile_deleted,
+        },
+        success: true,
+      };
+    } catch (error) {
+      return { error: this.handleError(error), success: false };
+    }
+  }
+}
@@ -37,7 +37,18 @@ export interface CreatePatientProfileData {
   aadhar_number?: string;
 }
 
-export interface UpdatePatientProfileData {
+export interface PatientCommunicationPreferences {
+  preferred_language: string; // "en" | "hi" | "bn"
+  whatsapp_consent: boolean;
+  sms_consent: boolean;
+  email_consent: boolean;
+  reminders_opt_out: boolean;
+  quiet_hours_start: string | null; // "HH:MM" IST
+  quiet_hours_end: string | null;
+}
+
+export interface UpdatePatientProfileData
+  extends Partial<PatientCommunicationPreferences> {
   full_name?: string;
   phone?: string;
   email?: string;
@@ -55,7 +66,8 @@ export interface UpdatePatientProfileData {
   aadhar_number?: string;
 }
 
-export interface PatientProfileWithClinic {
+export interface PatientProfileWithClinic
+  extends Partial<PatientCommunicationPreferences> {
   id: string;
   full_name: string;
   phone: string;
@@ -72,6 +84,7 @@ export interface PatientProfileWithClinic {
   family_history?: string;
   blood_group?: string;
   aadhar_number?: string;
+  communication_preferences_updated_at?: string | null;
   created_at: string;
   updated_at: string;
 
@@ -169,13 +182,14 @@ export class PatientProfileService extends BaseService {
   ): Promise<ServiceResponse<ClinicPatient>> {
     try {
       const user = await this.getCurrentUser();
+      const clinicId = await this.getCurrentClinicId();
 
       // Check if relationship already exists
       const { data: existingLink } = await supabase
         .from("clinic_patients")
         .select("*")
         .eq("patient_profile_id", patientProfileId)
-        .eq("clinic_id", user.id)
+        .eq("clinic_id", clinicId)
         .maybeSingle();
 
       if (existingLink) {
@@ -187,7 +201,7 @@ export class PatientProfileService extends BaseService {
         .from("clinic_patients")
         .insert({
           patient_profile_id: patientProfileId,
-          clinic_id: user.id,
+          clinic_id: clinicId,
           relationship_status:
             registrationSource === "walk_in" ? "inactive" : "active", // Use relationship_status not status
           registration_source: registrationSource, // ✅ Track how patient was added
@@ -212,7 +226,7 @@ export class PatientProfileService extends BaseService {
     searchTerm?: string;
   }): Promise<ServiceResponse<PatientProfileWithClinic[]>> {
     try {
-      const user = await this.getCurrentUser();
+      const clinicId = await this.getCurrentClinicId();
 
       let query = supabase
         .from("clinic_patients")
@@ -222,7 +236,7 @@ export class PatientProfileService extends BaseService {
           patient_profiles!patient_profile_id(*)
         `
         )
-        .eq("clinic_id", user.id);
+        .eq("clinic_id", clinicId);
 
       if (filters?.status) {
         query = query.eq("relationship_status", filters.status);
@@ -272,7 +286,7 @@ export class PatientProfileService extends BaseService {
     patientProfileId: string
   ): Promise<ServiceResponse<PatientProfileWithClinic>> {
     try {
-      const user = await this.getCurrentUser();
+      const clinicId = await this.getCurrentClinicId();
 
       const { data, error } = await supabase
         .from("patient_profiles")
@@ -289,7 +303,7 @@ export class PatientProfileService extends BaseService {
         `
         )
         .eq("id", patientProfileId)
-        .eq("clinic_patients.clinic_id", user.id)
+        .eq("clinic_patients.clinic_id", clinicId)
         .single();
 
       if (error) throw error;
@@ -349,14 +363,14 @@ export class PatientProfileService extends BaseService {
     patientProfileId: string
   ): Promise<ServiceResponse<boolean>> {
     try {
-      const user = await this.getCurrentUser();
+      const clinicId = await this.getCurrentClinicId();
 
       // Delete the clinic-patient relationship
       const { error } = await supabase
         .from("clinic_patients")
         .delete()
         .eq("patient_profile_id", patientProfileId)
-        .eq("clinic_id", user.id);
+        .eq("clinic_id", clinicId);
 
       if (error) throw error;
 
@@ -374,7 +388,7 @@ export class PatientProfileService extends BaseService {
     status: "active" | "inactive" | "dormant"
   ): Promise<ServiceResponse<ClinicPatient>> {
     try {
-      const user = await this.getCurrentUser();
+      const clinicId = await this.getCurrentClinicId();
 
       const { data, error } = await (supabase
         .from("clinic_patients")
@@ -383,7 +397,7 @@ export class PatientProfileService extends BaseService {
           updated_at: new Date().toISOString(),
         })
         .eq("id", clinicPatientId)
-        .eq("clinic_id", user.id)
+        .eq("clinic_id", clinicId)
         .select()
         .single() as any);
 
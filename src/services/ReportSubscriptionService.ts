@@ -0,0 +1,200 @@
+/**
+ * Report Subscription Service
+ * Weekly and monthly report emails. The send-scheduled-reports edge function
+ * emails each subscription once its week or month is over; sendNow emails
+ * the last completed period straight away.
+ */
+import { z } from "zod";
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "../lib/supabase";
+import { BaseService, ServiceResponse } from "./BaseService";
+import type { ReportSubscription } from "../types/database";
+
+export type ReportSubscriptionSection = ReportSubscription["sections"][number];
+
+export interface ReportSubscriptionData {
+  name: string;
+  frequency: ReportSubscription["frequency"];
+  recipients: string[];
+  sections: ReportSubscriptionSection[];
+  is_active?: boolean;
+}
+
+export const REPORT_SUBSCRIPTION_SECTIONS: {
+  value: ReportSubscriptionSection;
+  label: string;
+}[] = [
+  { value: "summary", label: "Summary and change vs previous period" },
+  { value: "doctors", label: "Doctor utilisation and revenue" },
+  { value: "departments", label: "Appointments by department" },
+  { value: "wait_times", label: "Patient wait times" },
+];
+
+const MAX_RECIPIENTS = 20;
+
+// Trimmed, lower-cased and de-duplicated; throws on an invalid address
+const normalizeRecipients = (recipients: string[]): string[] => {
+  const unique = Array.from(
+    new Set(recipients.map((email) => email.trim().toLowerCase()).filter(Boolean))
+  );
+
+  if (unique.length === 0) {
+    throw new Error("Add at least one recipient");
+  }
+  if (unique.length > MAX_RECIPIENTS) {
+    throw new Error(`A report can go to at most ${MAX_RECIPIENTS} recipients`);
+  }
+
+  const invalid = unique.filter((email) => !z.email().safeParse(email).success);
+  if (invalid.length) {
+    throw new Error(`Invalid email address: ${invalid.join(", ")}`);
+  }
+
+  return unique;
+};
+
+const validateSubscription = (data: ReportSubscriptionData) => {
+  if (!data.name.trim()) {
+    throw new Error("Name is required");
+  }
+  if (data.sections.length === 0) {
+    throw new Error("Choose at least one section");
+  }
+
+  return {
+    name: data.name.trim(),
+    frequency: data.frequency,
+    recipients: normalizeRecipients(data.recipients),
+    sections: data.sections,
+    ...(data.is_active !== undefined && { is_active: data.is_active }),
+  };
+};
+
+export class ReportSubscriptionService extends BaseService {
+  /**
+   * Get the current clinic's report subscriptions
+   */
+  static async getSubscriptions(): Promise<ServiceResponse<ReportSubscription[]>> {
+    try {
+      const clinicId = await this.getCurrentClinicId();
+
+      const { data, error } = await supabase
+        .from("report_subscriptions")
+        .select("*")
+        .eq("clinic_id", clinicId)
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+
+      return { data: data || [], success: true };
+    } catch (error) {
+      return { error: this.handleError(error), success: false };
+    }
+  }
+
+  static async createSubscription(
+    subscriptionData: ReportSubscriptionData
+  ): Promise<ServiceResponse<ReportSubscription>> {
+    try {
+      const values = validateSubscription(subscriptionData);
+      const clinicId = await this.getCurrentClinicId();
+
+      const { data, error } = await supabase
+        .from("report_subscriptions")
+        .insert({ ...values, clinic_id: clinicId })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return { data, success: true };
+    } catch (error) {
+      return { error: this.handleError(error), success: false };
+    }
+  }
+
+  static async updateSubscription(
+    id: string,
+    subscriptionData: ReportSubscriptionData
+  ): Promise<ServiceResponse<ReportSubscription>> {
+    try {
+      const values = validateSubscription(subscriptionData);
+
+      const { data, error } = await supabase
+        .from("report_subscriptions")
+        .update(values)
+        .eq("id", id)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return { data, success: true };
+    } catch (error) {
+      return { error: this.handleError(error), success: false };
+    }
+  }
+
+  /**
+   * Pause or resume a subscription without touching its settings
+   */
+  static async setActive(
+    id: string,
+    isActive: boolean
+  ): Promise<ServiceResponse<ReportSubscription>> {
+    try {
+      const { data, error } = await supabase
+        .from("report_subscriptions")
+        .update({ is_active: isActive })
+        .eq("id", id)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return { data, success: true };
+    } catch (error) {
+      return { error: this.handleError(error), success: false };
+    }
+  }
+
+  static async deleteSubscription(id: string): Promise<ServiceResponse<void>> {
+    try {
+      const { error } = await supabase
+        .from("report_subscriptions")
+        .delete()
+        .eq("id", id);
+
+      if (error) throw error;
+
+      return { success: true };
+    } catch (error) {
+      return { error: this.handleError(error), success: false };
+    }
+  }
+
+  /**
+   * Email the last completed week or month now. Does not affect the
+   * scheduled send.
+   */
+  static async sendNow(id: string): Promise<ServiceResponse<void>> {
+    try {
+      const response = await supabase.functions.invoke("send-scheduled-reports", {
+        body: { subscriptionId: id },
+      });
+
+      if (response.error) {
+        // Non-2xx responses carry the delivery error in the body
+        const errorBody =
+          response.error instanceof FunctionsHttpError
+            ? await response.error.context.json().catch(() => null)
+            : null;
+        throw new Error(errorBody?.error || response.error.message);
+      }
+
+      return { success: true };
+    } catch (error) {
+      return { error: this.handleError(error), success: false };
+    }
+  }
+}
@@ -0,0 +1,468 @@
+/**
+ * Reports Service
+ * Report figures aggregated in the database (report_summary,
+ * report_time_series, report_breakdown) for any date range
+ */
+import { supabase } from "../lib/supabase";
+import { BaseService, ServiceResponse } from "./BaseService";
+import type { Database } from "../types/database";
+import {
+  getPreviousReportRange,
+  ReportInterval,
+  ReportRange,
+} from "../utils/reportUtils";
+
+export type ReportDimension = "doctor" | "department" | "appointment_type";
+
+export interface ReportSummary {
+  appointments: {
+    total: number;
+    completed: number;
+    cancelled: number;
+    noShow: number;
+    scheduled: number;
+    patientsSeen: number;
+  };
+  revenue: {
+    total: number;
+    paid: number;
+    pending: number;
+    overdue: number;
+    // Credit notes and refunds; total and paid are already net of them
+    credited: number;
+    refunded: number;
+    billCount: number;
+  };
+  patients: {
+    total: number;
+    new: number;
+    returning: number;
+  };
+  doctors: {
+    total: number;
+    averageAppointments: number;
+  };
+}
+
+export interface ReportSeriesPoint {
+  periodStart: string;
+  appointments: number;
+  completed: number;
+  cancelled: number;
+  noShow: number;
+  scheduled: number;
+  revenue: number;
+  paid: number;
+  pending: number;
+  overdue: number;
+}
+
+export interface ReportBreakdownRow {
+  key: string;
+  label: string;
+  appointments: number;
+  completed: number;
+  cancelled: number;
+  noShow: number;
+  revenue: number;
+  paid: number;
+}
+
+export interface DoctorPerformance {
+  clinicDoctorId: string;
+  doctorName: string;
+  department: string | null;
+  isActive: boolean;
+  slotCount: number;
+  slotCapacity: number;
+  slotBookings: number;
+  // null when the doctor had no slots / no attended appointments in the range
+  utilisationPct: number | null;
+  appointments: number;
+  completed: number;
+  noShow: number;
+  noShowRate: number | null;
+  avgConsultationMinutes: number | null;
+  revenue: number;
+  averageRating: number | null;
+  ratingCount: number;
+}
+
+export interface WaitTimeVisit {
+  appointmentId: string;
+  clinicDoctorId: string;
+  doctorName: string;
+  patientName: string;
+  appointmentDatetime: string;
+  checkedInAt: string | null;
+  estimatedStartTime: string | null;
+  actualStartTime: string;
+  // Check-in -> start; null when the patient was never checked in
+  waitMinutes: number | null;
+  // Booked time -> start; negative when seen early
+  delayMinutes: number;
+  estimateGapMinutes: number | null;
+}
+
+export interface WaitTimeAnalytics {
+  summary: {
+    visits: number;
+    avgWait: number | null;
+    medianWait: number | null;
+    p90Wait: number | null;
+    avgDelay: number | null;
+    medianDelay: number | null;
+    avgEstimateGap: number | null;
+    onTimePct: number | null;
+  };
+  distribution: { bucket: string; visits: number }[];
+  byDoctor: {
+    clinicDoctorId: string;
+    doctorName: string;
+    visits: number;
+    avgWait: number | null;
+    medianWait: number | null;
+    avgDelay: number | null;
+    maxDelay: number | null;
+  }[];
+  byHour: {
+    hour: number;
+    visits: number;
+    avgWait: number | null;
+    avgDelay: number | null;
+  }[];
+}
+
+export interface ReportOptions {
+  interval: ReportInterval;
+  dimension: ReportDimension;
+  // Also load the summary for the previous period of the same length
+  compare?: boolean;
+}
+
+export interface ClinicReport {
+  range: ReportRange;
+  summary: ReportSummary;
+  previousRange?: ReportRange;
+  previousSummary?: ReportSummary;
+  series: ReportSeriesPoint[];
+  breakdown: ReportBreakdownRow[];
+  doctorPerformance: DoctorPerformance[];
+}
+
+type ReportFunctions = Database["public"]["Functions"];
+
+const toSummary = (raw: ReportFunctions["report_summary"]["Returns"] | null): ReportSummary => ({
+  appointments: {
+    total: Number(raw?.appointments?.total ?? 0),
+    completed: Number(raw?.appointments?.completed ?? 0),
+    cancelled: Number(raw?.appointments?.cancelled ?? 0),
+    noShow: Number(raw?.appointments?.no_show ?? 0),
+    scheduled: Number(raw?.appointments?.scheduled ?? 0),
+    patientsSeen: Number(raw?.appointments?.patients_seen ?? 0),
+  },
+  revenue: {
+    total: Number(raw?.revenue?.total ?? 0),
+    paid: Number(raw?.revenue?.paid ?? 0),
+    pending: Number(raw?.revenue?.pending ?? 0),
+    overdue: Number(raw?.revenue?.overdue ?? 0),
+    credited: Number(raw?.revenue?.credited ?? 0),
+    refunded: Number(raw?.revenue?.refunded ?? 0),
+    billCount: Number(raw?.revenue?.bill_count ?? 0),
+  },
+  patients: {
+    total: Number(raw?.patients?.total ?? 0),
+    new: Number(raw?.patients?.new ?? 0),
+    returning: Number(raw?.patients?.returning ?? 0),
+  },
+  doctors: {
+    total: Number(raw?.doctors?.total ?? 0),
+    averageAppointments: Number(raw?.doctors?.average_appointments ?? 0),
+  },
+});
+
+const toNullableNumber = (value: unknown): number | null =>
+  value === null || value === undefined ? null : Number(value);
+
+export class ReportsService extends BaseService {
+  /**
+   * Appointment, revenue, patient and doctor totals for a range
+   */
+  static async getSummary(
+    range: ReportRange
+  ): Promise<ServiceResponse<ReportSummary>> {
+    try {
+      this.validateRequired({ startDate: range.startDate, endDate: range.endDate });
+
+      const { data, error } = await supabase.rpc("report_summary", {
+        p_start: range.startDate,
+        p_end: range.endDate,
+      });
+
+      if (error) throw error;
+
+      return { data: toSummary(data), success: true };
+    } catch (error) {
+      return { error: this.handleError(error), success: false };
+    }
+  }
+
+  /**
+   * Appointment and revenue figures per day, week or month, including empty
+   * periods
+   */
+  static async getTimeSeries(
+    range: ReportRange,
+    interval: ReportInterval
+  ): Promise<ServiceResponse<ReportSeriesPoint[]>> {
+    try {
+      this.validateRequired({ startDate: range.startDate, endDate: range.endDate });
+
+      const { data, error } = await supabase.rpc("report_time_series", {
+        p_start: range.startDate,
+        p_end: range.endDate,
+        p_interval: interval,
+      });
+
+      if (error) throw error;
+
+      return {
+        data: (data || []).map((row) => ({
+          periodStart: row.period_start,
+          appointments: Number(row.appointments),
+          completed: Number(row.completed),
+          cancelled: Number(row.cancelled),
+          noShow: Number(row.no_show),
+          scheduled: Number(row.scheduled),
+          revenue: Number(row.revenue),
+          paid: Number(row.paid),
+          pending: Number(row.pending),
+          overdue: Number(row.overdue),
+        })),
+        success: true,
+      };
+    } catch (error) {
+      return { error: this.handleError(error), success: false };
+    }
+  }
+
+  /**
+   * Appointment and revenue figures grouped by doctor, department or
+   * appointment type, highest revenue first
+   */
+  static async getBreakdown(
+    range: ReportRange,
+    dimension: ReportDimension
+  ): Promise<ServiceResponse<ReportBreakdownRow[]>> {
+    try {
+      this.validateRequired({ startDate: range.startDate, endDate: range.endDate });
+
+      const { data, error } = await supabase.rpc("report_breakdown", {
+        p_start: range.startDate,
+        p_end: range.endDate,
+        p_dimension: dimension,
+      });
+
+      if (error) throw error;
+
+      return {
+        data: (data || []).map((row) => ({
+          key: row.group_key,
+          label: row.group_label,
+          appointments: Number(row.appointments),
+          completed: Number(row.completed),
+          cancelled: Number(row.cancelled),
+          noShow: Number(row.no_show),
+          revenue: Number(row.revenue),
+          paid: Number(row.paid),
+        })),
+        success: true,
+      };
+    } catch (error) {
+      return { error: this.handleError(error), success: false };
+    }
+  }
+
+  /**
+   * Slot utilisation, consultation length, no-show rate, revenue and rating
+   * per doctor. Pass clinicDoctorId for a single doctor.
+   */
+  static async getDoctorPerformance(
+    range: ReportRange,
+    clinicDoctorId?: string
+  ): Promise<ServiceResponse<DoctorPerformance[]>> {
+    try {
+      this.validateRequired({ startDate: range.startDate, endDate: range.endDate });
+
+      const { data, error } = await supabase.rpc("report_doctor_performance", {
+        p_start: range.startDate,
+        p_end: range.endDate,
+        p_clinic_doctor_id: clinicDoctorId || null,
+      });
+
+      if (error) throw error;
+
+      return {
+        data: (data || []).map((row) => ({
+          clinicDoctorId: row.clinic_doctor_id,
+          doctorName: row.doctor_name,
+          department: row.department,
+          isActive: row.is_active,
+          slotCount: Number(row.slot_count),
+          slotCapacity: Number(row.slot_capacity),
+          slotBookings: Number(row.slot_bookings),
+          utilisationPct: toNullableNumber(row.utilisation_pct),
+          appointments: Number(row.appointments),
+          completed: Number(row.completed),
+          noShow: Number(row.no_show),
+          noShowRate: toNullableNumber(row.no_show_rate),
+          avgConsultationMinutes: toNullableNumber(row.avg_consultation_minutes),
+          revenue: Number(row.revenue),
+          averageRating: toNullableNumber(row.average_rating),
+          ratingCount: Number(row.rating_count),
+        })),
+        success: true,
+      };
+    } catch (error) {
+      return { error: this.handleError(error), success: false };
+    }
+  }
+
+  /**
+   * Wait-time summary, delay distribution and averages per doctor and per
+   * hour of day
+   */
+  static async getWaitTimeAnalytics(
+    range: ReportRange
+  ): Promise<ServiceResponse<WaitTimeAnalytics>> {
+    try {
+      this.validateRequired({ startDate: range.startDate, endDate: range.endDate });
+
+      const { data, error } = await supabase.rpc("report_wait_times", {
+        p_start: range.startDate,
+        p_end: range.endDate,
+      });
+
+      if (error) throw error;
+
+      const summary = data?.summary;
+
+      return {
+        data: {
+          summary: {
+            visits: Number(summary?.visits ?? 0),
+            avgWait: toNullableNumber(summary?.avg_wait),
+            medianWait: toNullableNumber(summary?.median_wait),
+            p90Wait: toNullableNumber(summary?.p90_wait),
+            avgDelay: toNullableNumber(summary?.avg_delay),
+            medianDelay: toNullableNumber(summary?.median_delay),
+            avgEstimateGap: toNullableNumber(summary?.avg_estimate_gap),
+            onTimePct: toNullableNumber(summary?.on_time_pct),
+          },
+          distribution: (data?.distribution || []).map((row) => ({
+            bucket: row.bucket,
+            visits: Number(row.visits),
+          })),
+          byDoctor: (data?.by_doctor || []).map((row) => ({
+            clinicDoctorId: row.clinic_doctor_id,
+            doctorName: row.doctor_name,
+            visits: Number(row.visits),
+            avgWait: toNullableNumber(row.avg_wait),
+            medianWait: toNullableNumber(row.median_wait),
+            avgDelay: toNullableNumber(row.avg_delay),
+            maxDelay: toNullableNumber(row.max_delay),
+          })),
+          byHour: (data?.by_hour || []).map((row) => ({
+            hour: Number(row.hour),
+            visits: Number(row.visits),
+            avgWait: toNullableNumber(row.avg_wait),
+            avgDelay: toNullableNumber(row.avg_delay),
+          })),
+        },
+        success: true,
+      };
+    } catch (error) {
+      return { error: this.handleError(error), success: false };
+    }
+  }
+
+  /**
+   * One row per started visit with its wait, delay and estimate gap, for
+   * export
+   */
+  static async getWaitTimeVisits(
+    range: ReportRange
+  ): Promise<ServiceResponse<WaitTimeVisit[]>> {
+    try {
+      this.validateRequired({ startDate: range.startDate, endDate: range.endDate });
+
+      const { data, error } = await supabase.rpc("report_wait_time_visits", {
+        p_start: range.startDate,
+        p_end: range.endDate,
+      });
+
+      if (error) throw error;
+
+      return {
+        data: (data || []).map((row) => ({
+          appointmentId: row.appointment_id,
+          clinicDoctorId: row.clinic_doctor_id,
+          doctorName: row.doctor_name,
+          patientName: row.patient_name,
+          appointmentDatetime: row.appointment_datetime,
+          checkedInAt: row.checked_in_at,
+          estimatedStartTime: row.estimated_start_time,
+          actualStartTime: row.actual_start_time,
+          waitMinutes: toNullableNumber(row.wait_minutes),
+          delayMinutes: Number(row.delay_minutes),
+          estimateGapMinutes: toNullableNumber(row.estimate_gap_minutes),
+        })),
+        success: true,
+      };
+    } catch (error) {
+      return { error: this.handleError(error), success: false };
+    }
+  }
+
+  /**
+   * Everything the Reports page shows for a range, loaded in parallel
+   */
+  static async getReport(
+    range: ReportRange,
+    options: ReportOptions
+  ): Promise<ServiceResponse<ClinicReport>> {
+    try {
+      const previousRange = options.compare ? getPreviousReportRange(range) : undefined;
+
+      const [summary, series, breakdown, doctorPerformance, previousSummary] =
+        await Promise.all([
+          this.getSummary(range),
+          this.getTimeSeries(range, options.interval),
+          this.getBreakdown(range, options.dimension),
+          this.getDoctorPerformance(range),
+          previousRange ? this.getSummary(previousRange) : Promise.resolve(null),
+        ]);
+
+      if (!summary.success) throw summary.error;
+      if (!series.success) throw series.error;
+      if (!breakdown.success) throw breakdown.error;
+      if (!doctorPerformance.success) throw doctorPerformance.error;
+      if (previousSummary && !previousSummary.success) throw previousSummary.error;
+
+      return {
+        data: {
+          range,
+          summary: summary.data!,
+          previousRange,
+          previousSummary: previousSummary?.data,
+          series: series.data || [],
+          breakdown: breakdown.data || [],
+          doctorPerformance: doctorPerformance.data || [],
+        },
+        success: true,
+      };
+    } catch (error) {
+      return { error: this.handleError(error), success: false };
+    }
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * Service Catalogue Service
+ * The clinic's price list of consultations, procedures, lab tests and
+ * medicines. Bills copy the name and prices of the entry they pick, so
+ * changing or retiring an entry does not alter bills already issued.
+ */
+import { supabase } from "../lib/supabase";
+import { BaseService, ServiceResponse } from "./BaseService";
+import type { BillItemType, ServiceCatalogueItem } from "../types/database";
+import { HSN_SAC_PATTERN } from "../utils/gst";
+
+export interface ServiceCatalogueData {
+  name: string;
+  item_type: BillItemType;
+  description?: string;
+  hsn_sac_code?: string;
+  unit_price: number;
+  tax_rate: number;
+  is_tax_exempt?: boolean;
+  is_active?: boolean;
+}
+
+const validateService = (data: ServiceCatalogueData) => {
+  if (!data.name.trim()) {
+    throw new Error("Name is required");
+  }
+  if (!(data.unit_price >= 0)) {
+    throw new Error("Price cannot be negative");
+  }
+  if (!(data.tax_rate >= 0 && data.tax_rate <= 100)) {
+    throw new Error("Tax rate must be between 0 and 100%");
+  }
+  if (data.is_tax_exempt && data.tax_rate > 0) {
+    throw new Error("Exempt services cannot be taxed");
+  }
+  const hsnSacCode = data.hsn_sac_code?.trim() || null;
+  if (hsnSacCode && !HSN_SAC_PATTERN.test(hsnSacCode)) {
+    throw new Error("HSN/SAC code must be 4-8 digits");
+  }
+
+  return {
+    name: data.name.trim(),
+    item_type: data.item_type,
+    description: data.description?.trim() || null,
+    hsn_sac_code: hsnSacCode,
+    unit_price: data.unit_price,
+    tax_rate: data.tax_rate,
+    is_tax_exempt: !!data.is_tax_exempt,
+    ...(data.is_active !== undefined && { is_active: data.is_active }),
+  };
+};
+
+export class ServiceCatalogueService extends BaseService {
+  /**
+   * Get the current clinic's services, optionally only those still offered
+   */
+  static async getServices(
+    options: { activeOnly?: boolean } = {}
+  ): Promise<ServiceResponse<ServiceCatalogueItem[]>> {
+    try {
+      const clinicId = await this.getCurrentClinicId();
+
+      let query = supabase
+        .from("service_catalogue")
+        .select("*")
+        .eq("clinic_id", clinicId);
+
+      if (options.activeOnly) {
+        query = query.eq("is_active", true);
+      }
+
+      const { data, error } = await query
+        .order("item_type", { ascending: true })
+        .order("name", { ascending: true });
+
+      if (error) throw error;
+
+      return { data: data || [], success: true };
+    } catch (error) {
+      return { error: this.handleError(error), success: false };
+    }
+  }
+
+  static async createService(
+    serviceData: ServiceCatalogueData
+  ): Promise<ServiceResponse<ServiceCatalogueItem>> {
+    try {
+      const values = validateService(serviceData);
+      const clinicId = await this.getCurrentClinicId();
+
+      const { data, error } = await supabase
+        .from("service_catalogue")
+        .insert({ ...values, clinic_id: clinicId })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return { data, success: true };
+    } catch (error) {
+      return { error: this.handleError(error), success: false };
+    }
+  }
+
+  static async updateService(
+    id: string,
+    serviceData: ServiceCatalogueData
+  ): Promise<ServiceResponse<ServiceCatalogueItem>> {
+    try {
+      const values = validateService(serviceData);
+
+      const { data, error } = await supabase
+        .from("service_catalogue")
+        .update(values)
+        .eq("id", id)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return { data, success: true };
+    } catch (error) {
+      return { error: this.handleError(error), success: false };
+    }
+  }
+
+  /**
+   * Retire or restore a service. Retired services stay on old bills but are
+   * no longer offered when billing.
+   */
+  static async setActive(
+    id: string,
+    isActive: boolean
+  ): Promise<ServiceResponse<ServiceCatalogueItem>> {
+    try {
+      const { data, error } = await supabase
+        .from("service_catalogue")
+        .update({ is_active: isActive })
+        .eq("id", id)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return { data, success: true };
+    } catch (error) {
+      return { error: this.handleError(error), success: false };
+    }
+  }
+}
@@ -230,12 +230,13 @@ export class SlotBookingService extends BaseService {
       }
 
       // Check if user has access to this clinic
-      const user = await this.getCurrentUser();
-      if (slotBooking.doctor_slots.clinic_doctors.clinic_id !== user.id) {
+      const clinicId = await this.getCurrentClinicId();
+      if (slotBooking.doctor_slots.clinic_doctors.clinic_id !== clinicId) {
         throw new Error("Access denied");
       }
 
-      // Delete the slot booking record (this will trigger the capacity update)
+      // Delete the slot booking record (this will trigger the capacity update,
+      // which offers the freed seat to the slot's waitlist)
       const { error: deleteError } = await supabase
         .from("slot_bookings")
         .delete()
@@ -290,8 +291,8 @@ export class SlotBookingService extends BaseService {
       }
 
       // Check if user has access
-      const user = await this.getCurrentUser();
-      if (currentBooking.doctor_slots.clinic_doctors.clinic_id !== user.id) {
+      const clinicId = await this.getCurrentClinicId();
+      if (currentBooking.doctor_slots.clinic_doctors.clinic_id !== clinicId) {
         throw new Error("Access denied");
       }
 
@@ -313,7 +314,7 @@ export class SlotBookingService extends BaseService {
       }
 
       // Check if new slot belongs to same clinic
-      if (newSlot.clinic_doctors.clinic_id !== user.id) {
+      if (newSlot.clinic_doctors.clinic_id !== clinicId) {
         throw new Error("New slot access denied");
       }
 
@@ -0,0 +1,230 @@
+/**
+ * Slot Waitlist Service
+ * Waitlist for full doctor slots. When a seat frees up the database offers it
+ * to the next waiting patient, holds it for them and sends a WhatsApp message;
+ * staff then confirm the booking here once the patient agrees.
+ */
+import { supabase } from "../lib/supabase";
+import { BaseService, ServiceResponse } from "./BaseService";
+import { WhatsAppService } from "./WhatsAppService";
+import type { SlotWaitlistEntry } from "../types/database";
+import {
+  convertUTCToISTTime24,
+  extractISTDateForInput,
+} from "../utils/timezoneUtils";
+
+export interface JoinWaitlistData {
+  doctor_slot_id: string;
+  clinic_patient_id: string;
+  appointment_type?: string;
+  notes?: string;
+}
+
+// Entries that still have a claim on the slot
+const OPEN_WAITLIST_STATUSES: SlotWaitlistEntry["status"][] = ["waiting", "offered"];
+
+export class SlotWaitlistService extends BaseService {
+  /**
+   * Get the open waitlist for a slot, oldest first
+   */
+  static async getSlotWaitlist(
+    slotId: string
+  ): Promise<ServiceResponse<SlotWaitlistEntry[]>> {
+    try {
+      this.validateRequired({ slotId });
+      const clinicId = await this.getCurrentClinicId();
+
+      const { data, error } = await supabase
+        .from("slot_waitlist")
+        .select(
+          `
+          *,
+          clinic_patient:clinic_patients(
+            id,
+            patient_profile:patient_profiles(id, full_name, phone)
+          )
+        `
+        )
+        .eq("clinic_id", clinicId)
+        .eq("doctor_slot_id", slotId)
+        .in("status", OPEN_WAITLIST_STATUSES)
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+
+      return { data: data || [], success: true };
+    } catch (error) {
+      return { error: this.handleError(error), success: false };
+    }
+  }
+
+  /**
+   * Add a patient to a slot's waitlist. If a seat is already free the
+   * database offers it straight away.
+   */
+  static async joinWaitlist(
+    waitlistData: JoinWaitlistData
+  ): Promise<ServiceResponse<SlotWaitlistEntry>> {
+    try {
+      this.validateRequired({
+        doctor_slot_id: waitlistData.doctor_slot_id,
+        clinic_patient_id: waitlistData.clinic_patient_id,
+      });
+
+      const clinicId = await this.getCurrentClinicId();
+
+      const { data, error } = await supabase
+        .from("slot_waitlist")
+        .insert({
+          clinic_id: clinicId,
+          doctor_slot_id: waitlistData.doctor_slot_id,
+          clinic_patient_id: waitlistData.clinic_patient_id,
+          appointment_type: waitlistData.appointment_type || null,
+          notes: waitlistData.notes?.trim() || null,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === "23505") {
+          throw new Error("This patient is already on the waitlist for this slot");
+        }
+        throw error;
+      }
+
+      return { data, success: true };
+    } catch (error) {
+      return { error: this.handleError(error), success: false };
+    }
+  }
+
+  /**
+   * Take a patient off the waitlist. The database offers a seat held for
+   * them to the next patient in line.
+   */
+  static async removeFromWaitlist(
+    entry: Pick<SlotWaitlistEntry, "id">
+  ): Promise<ServiceResponse<void>> {
+    try {
+      this.validateRequired({ id: entry.id });
+      const clinicId = await this.getCurrentClinicId();
+
+      const { error } = await supabase
+        .from("slot_waitlist")
+        .update({ status: "cancelled" })
+        .eq("id", entry.id)
+        .eq("clinic_id", clinicId)
+        .in("status", OPEN_WAITLIST_STATUSES);
+
+      if (error) throw error;
+
+      return { success: true };
+    } catch (error) {
+      return { error: this.handleError(error), success: false };
+    }
+  }
+
+  /**
+   * Book the seat held for an offered entry and send the patient the usual
+   * appointment confirmation. Returns the new appointment id.
+   */
+  static async acceptOffer(entryId: string): Promise<ServiceResponse<string>> {
+    try {
+      this.validateRequired({ entryId });
+      const clinicId = await this.getCurrentClinicId();
+
+      const { data: appointmentId, error } = await supabase.rpc(
+        "book_waitlist_offer",
+        { p_waitlist_id: entryId }
+      );
+
+      if (error) throw error;
+
+      try {
+        await this.sendBookingConfirmation(appointmentId, clinicId);
+      } catch (whatsappError) {
+        // Don't fail the booking if WhatsApp fails
+        console.error(
+          "❌ [CLINIC-ADMIN] Waitlist booking notification exception:",
+          whatsappError
+        );
+      }
+
+      return { data: appointmentId, success: true };
+    } catch (error) {
+      return { error: this.handleError(error), success: false };
+    }
+  }
+
+  private static async sendBookingConfirmation(
+    appointmentId: string,
+    clinicId: string
+  ): Promise<void> {
+    const { data: appointment, error } = await supabase
+      .from("appointments")
+      .select(
+        `
+        id,
+        appointment_datetime,
+        consultation_fee,
+        clinic_patient:clinic_patients(
+          patient_profile:patient_profiles(id, full_name, phone)
+        ),
+        clinic_doctor:clinic_doctors(
+          doctor_profile:doctor_profiles(full_name)
+        ),
+        doctor_slot:doctor_slots(slot_type)
+      `
+      )
+      .eq("id", appointmentId)
+      .single();
+
+    if (error) throw error;
+
+    const patient = appointment?.clinic_patient?.patient_profile;
+    if (!patient?.phone) return;
+
+    const { data: clinicProfile } = await supabase
+      .from("clinic_profiles")
+      .select("clinic_name, slug")
+      .eq("id", clinicId)
+      .single();
+
+    const doctorName = appointment.clinic_doctor?.doctor_profile?.full_name || "Doctor";
+    const notification = {
+      phone: patient.phone,
+      appointmentId,
+      patientName: patient.full_name || "Patient",
+      doctorName,
+      clinicName: clinicProfile?.clinic_name || "Clinic",
+      appointmentDate: extractISTDateForInput(appointment.appointment_datetime),
+      appointmentTime: convertUTCToISTTime24(appointment.appointment_datetime),
+    };
+
+    const result =
+      appointment.doctor_slot?.slot_type === "video"
+        ? await WhatsAppService.sendVideoConsultationConfirmed({
+            ...notification,
+            feeAmount: appointment.consultation_fee?.toString() || "0",
+            videoCallLinkSuffix: WhatsAppService.generateVideoCallLink({
+              clinicSlug: clinicProfile?.slug || "clinic",
+              callId: `vc-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+              patientId: patient.id,
+              patientName: notification.patientName,
+              appointmentId,
+              doctorName,
+            }).ctaSuffix,
+          })
+        : await WhatsAppService.sendInClinicAppointmentConfirmed({
+            ...notification,
+            clinicAddress: "Please check app for address",
+          });
+
+    if (!result.success) {
+      console.error(
+        "❌ [CLINIC-ADMIN] Waitlist booking notification failed:",
+        result.error
+      );
+    }
+  }
+}
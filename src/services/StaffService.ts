@@ -0,0 +1,185 @@
+/**
+ * Staff Service
+ * Handles multi-user clinic access: the signed-in login's role/permissions
+ * and management of receptionist, billing clerk and doctor accounts
+ */
+import { supabase } from "../lib/supabase";
+import { BaseService, ServiceResponse } from "./BaseService";
+import { ClinicPermission, StaffRole } from "../constants";
+import type { Database } from "../types/database";
+
+type ClinicStaff = Database["public"]["Tables"]["clinic_staff"]["Row"];
+
+export interface ClinicAccess {
+  clinic_id: string;
+  role: StaffRole;
+  clinic_doctor_id: string | null;
+  permissions: ClinicPermission[];
+}
+
+export interface ClinicStaffWithDoctor extends ClinicStaff {
+  clinic_doctor?: {
+    id: string;
+    doctor_profile?: {
+      full_name: string;
+    } | null;
+  } | null;
+}
+
+export interface InviteStaffData {
+  email: string;
+  full_name?: string;
+  role: Exclude<StaffRole, StaffRole.OWNER>;
+  clinic_doctor_id?: string | null;
+}
+
+export interface UpdateStaffData {
+  full_name?: string | null;
+  role?: Exclude<StaffRole, StaffRole.OWNER>;
+  clinic_doctor_id?: string | null;
+  is_active?: boolean;
+}
+
+export class StaffService extends BaseService {
+  /**
+   * Get the clinic, role and permissions of the signed-in login.
+   * Also links any pending staff invitation that matches the login's email.
+   */
+  static async getMyAccess(): Promise<ServiceResponse<ClinicAccess | null>> {
+    try {
+      await this.getCurrentUser();
+
+      const { data, error } = await supabase.rpc(
+        "get_my_clinic_access"
+      );
+
+      if (error) throw error;
+
+      return { data: (data as ClinicAccess | null) ?? null, success: true };
+    } catch (error) {
+      return { error: this.handleError(error), success: false };
+    }
+  }
+
+  /**
+   * Get all staff accounts of the current clinic
+   */
+  static async getClinicStaff(): Promise<
+    ServiceResponse<ClinicStaffWithDoctor[]>
+  > {
+    try {
+      const clinicId = await this.getCurrentClinicId();
+
+      const { data, error } = await supabase
+        .from("clinic_staff")
+        .select(
+          `
+          *,
+          clinic_doctor:clinic_doctors(
+            id,
+            doctor_profile:doctor_profiles(full_name)
+          )
+        `
+        )
+        .eq("clinic_id", clinicId)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+
+      return { data: (data as ClinicStaffWithDoctor[]) || [], success: true };
+    } catch (error) {
+      return { error: this.handleError(error), success: false };
+    }
+  }
+
+  /**
+   * Invite a staff member by email. The account is linked the first time
+   * that email signs in.
+   */
+  static async inviteStaff(
+    staffData: InviteStaffData
+  ): Promise<ServiceResponse<ClinicStaff>> {
+    try {
+      this.validateRequired({ email: staffData.email, role: staffData.role });
+
+      if (staffData.role === StaffRole.DOCTOR && !staffData.clinic_doctor_id) {
+        throw new Error("Select the doctor this login belongs to");
+      }
+
+      const user = await this.getCurrentUser();
+      const clinicId = await this.getCurrentClinicId();
+
+      const { data, error } = await supabase
+        .from("clinic_staff")
+        .insert({
+          clinic_id: clinicId,
+          email: staffData.email.trim().toLowerCase(),
+          full_name: staffData.full_name || null,
+          role: staffData.role,
+          clinic_doctor_id:
+            staffData.role === StaffRole.DOCTOR
+              ? staffData.clinic_doctor_id
+              : null,
+          invited_by: user.id,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return { data: data as ClinicStaff, success: true };
+    } catch (error) {
+      return { error: this.handleError(error), success: false };
+    }
+  }
+
+  /**
+   * Update a staff member's role, doctor link or active state
+   */
+  static async updateStaff(
+    staffId: string,
+    updateData: UpdateStaffData
+  ): Promise<ServiceResponse<ClinicStaff>> {
+    try {
+      const clinicId = await this.getCurrentClinicId();
+
+      const { data, error } = await supabase
+        .from("clinic_staff")
+        .update({
+          ...updateData,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", staffId)
+        .eq("clinic_id", clinicId)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return { data, success: true };
+    } catch (error) {
+      return { error: this.handleError(error), success: false };
+    }
+  }
+
+  /**
+   * Remove a staff account from the clinic
+   */
+  static async removeStaff(staffId: string): Promise<ServiceResponse<boolean>> {
+    try {
+      const clinicId = await this.getCurrentClinicId();
+
+      const { error } = await supabase
+        .from("clinic_staff")
+        .delete()
+        .eq("id", staffId)
+        .eq("clinic_id", clinicId);
+
+      if (error) throw error;
+
+      return { data: true, success: true };
+    } catch (error) {
+      return { error: this.handleError(error), success: false };
+    }
+  }
+}
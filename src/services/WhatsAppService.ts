@@ -1,21 +1,25 @@
 /**
  * WhatsApp Business API Service for Clinic Admin
  * Handles sending WhatsApp notifications to patients
- * 
- * TEMPLATE NAMES (Must match Meta Business Suite):
- * - appointment_request_received
- * - inclinic_appointment_confirmed
- * - video_consultation_confirmed (with CTA button)
- * - appointment_rescheduled
- * - appointment_cancelled
- * - appointment_delay
- * - appointment_reminder_1day
- * - video_call_starting_soon (with CTA button)
+ *
+ * Messages are queued with enqueue_whatsapp_message and delivered by the
+ * queue-processor edge function, which retries failures and stores the
+ * delivery status on the appointment and in message_log. The access token never
+ * reaches the client. Patients without WhatsApp consent are skipped, and
+ * messages during their quiet hours are held until the quiet hours end.
+ *
+ * Template names, languages and parameter orders come from the registry in
+ * constants/whatsappTemplates.ts; the language is picked from the patient's
+ * preferred_language (English, Hindi or Bengali).
  */
 
-const WHATSAPP_API_URL = "https://graph.facebook.com/v22.0";
-const PHONE_NUMBER_ID = import.meta.env.VITE_WHATSAPP_PHONE_NUMBER_ID;
-const ACCESS_TOKEN = import.meta.env.VITE_WHATSAPP_ACCESS_TOKEN;
+import { supabase } from "../lib/supabase";
+import { PatientLanguage } from "../constants";
+import {
+  WHATSAPP_TEMPLATES,
+  WhatsAppTemplateEvent,
+  resolvePatientLanguage,
+} from "../constants/whatsappTemplates";
 
 // Patient app base URL for video calls
 const PATIENT_APP_BASE_URL = import.meta.env.VITE_PATIENT_APP_URL || "https://patients-webapp.vercel.app";
@@ -43,45 +47,53 @@ interface WhatsAppMessage {
   };
 }
 
+type WhatsAppRecipient = {
+  phone: string;
+  appointmentId?: string;
+  // preferred_language override; looked up from the patient when omitted
+  language?: string | null;
+};
+
 export class WhatsAppService {
   /**
-   * Base function to send WhatsApp message via Graph API
+   * Base function to queue a WhatsApp message for server-side delivery
    */
   private static async sendWhatsAppMessage(
-    message: Omit<WhatsAppMessage, "messaging_product">
+    message: Omit<WhatsAppMessage, "messaging_product">,
+    appointmentId?: string
   ): Promise<{ success: boolean; error?: string; data?: unknown }> {
     console.log("🔔 [CLINIC-ADMIN WhatsApp] sendWhatsAppMessage triggered");
     console.log("📱 [CLINIC-ADMIN WhatsApp] Template:", message.template.name);
     console.log("📞 [CLINIC-ADMIN WhatsApp] Recipient:", message.to);
 
-    if (!PHONE_NUMBER_ID || !ACCESS_TOKEN) {
-      console.warn("❌ [CLINIC-ADMIN WhatsApp] Credentials not configured");
-      return { success: false, error: "WhatsApp not configured" };
-    }
-
     try {
-      const url = `${WHATSAPP_API_URL}/${PHONE_NUMBER_ID}/messages`;
-
-      const response = await fetch(url, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${ACCESS_TOKEN}`,
-        },
-        body: JSON.stringify({
-          messaging_product: "whatsapp",
-          ...message,
-        }),
-      });
+      const { data, error } = await supabase.rpc(
+        "enqueue_whatsapp_message",
+        {
+          p_to: message.to,
+          p_template: message.template,
+          p_appointment_id: appointmentId ?? null,
+        }
+      );
+
+      if (error) {
+        console.error("❌ [CLINIC-ADMIN WhatsApp] Enqueue error:", error);
+        return { success: false, error: error.message || "Failed to queue message" };
+      }
 
-      const data = await response.json();
+      // The patient's consent is checked when queueing; withheld messages are logged as skipped
+      const { data: logEntry } = await supabase
+        .from("message_log")
+        .select("status, error")
+        .eq("id", data)
+        .maybeSingle();
 
-      if (!response.ok) {
-        console.error("❌ [CLINIC-ADMIN WhatsApp] API error:", data);
-        return { success: false, error: data.error?.message || "API error" };
+      if (logEntry?.status === "skipped") {
+        console.log("🚫 [CLINIC-ADMIN WhatsApp] Message not sent:", logEntry.error);
+        return { success: false, error: logEntry.error || "Patient has opted out of WhatsApp messages" };
       }
 
-      console.log("✅ [CLINIC-ADMIN WhatsApp] Message sent successfully");
+      console.log("✅ [CLINIC-ADMIN WhatsApp] Message queued:", data);
       return { success: true, data };
     } catch (error) {
       console.error("❌ [CLINIC-ADMIN WhatsApp] Send error:", error);
@@ -92,6 +104,79 @@ export class WhatsAppService {
     }
   }
 
+  /**
+   * Build the registry template for the patient's language and queue it
+   */
+  private static async sendTemplate(
+    event: WhatsAppTemplateEvent,
+    data: WhatsAppRecipient & Record<string, unknown>
+  ): Promise<{ success: boolean; error?: string }> {
+    const language = await this.resolveLanguage(data);
+    const definition = WHATSAPP_TEMPLATES[event][language];
+    const param = (key: string) => ({ type: "text", text: String(data[key] ?? "") });
+
+    const components: WhatsAppTemplateComponent[] = [
+      { type: "body", parameters: definition.bodyParams.map(param) },
+    ];
+    if (definition.buttonParam) {
+      components.push({
+        type: "button",
+        sub_type: "url",
+        index: 0,
+        parameters: [param(definition.buttonParam)],
+      });
+    }
+
+    return await this.sendWhatsAppMessage({
+      to: this.formatPhone(data.phone),
+      type: "template",
+      template: {
+        name: definition.name,
+        language: { code: definition.languageCode },
+        components,
+      },
+    }, data.appointmentId);
+  }
+
+  /**
+   * Resolve the patient's template language from the appointment, or from
+   * the phone number when no appointment is given
+   */
+  private static async resolveLanguage(
+    recipient: WhatsAppRecipient
+  ): Promise<PatientLanguage> {
+    if (recipient.language !== undefined) {
+      return resolvePatientLanguage(recipient.language);
+    }
+
+    try {
+      if (recipient.appointmentId) {
+        const { data } = await supabase
+          .from("appointments")
+          .select("clinic_patient:clinic_patients(patient_profile:patient_profiles(preferred_language))")
+          .eq("id", recipient.appointmentId)
+          .maybeSingle();
+
+        return resolvePatientLanguage(
+          data?.clinic_patient?.patient_profile?.preferred_language
+        );
+      }
+
+      const lastTenDigits = recipient.phone.replace(/[^0-9]/g, "").slice(-10);
+      const { data } = await supabase
+        .from("patient_profiles")
+        .select("preferred_language")
+        .like("phone", `%${lastTenDigits}`)
+        .limit(1)
+        .maybeSingle();
+
+      return resolvePatientLanguage(data?.preferred_language);
+    } catch (error) {
+      console.error("❌ [CLINIC-ADMIN WhatsApp] Language lookup failed:", error);
+      return PatientLanguage.ENGLISH;
+    }
+  }
+
   /**
    * Format phone number for WhatsApp (ensure country code)
    */
@@ -108,8 +193,7 @@ export class WhatsAppService {
   // Trigger: When admin approves an in-clinic appointment
   // ============================================================================
 
-  static async sendInClinicAppointmentConfirmed(data: {
-    phone: string;
+  static async sendInClinicAppointmentConfirmed(data: WhatsAppRecipient & {
     patientName: string;
     doctorName: string;
     clinicName: string;
@@ -119,27 +203,7 @@ export class WhatsAppService {
   }): Promise<{ success: boolean; error?: string }> {
     console.log("🏥 [CLINIC-ADMIN] Sending in-clinic appointment confirmation");
 
-    return await this.sendWhatsAppMessage({
-      to: this.formatPhone(data.phone),
-      type: "template",
-      template: {
-        name: "inclinic_appointment_confirmed",
-        language: { code: "en" },
-        components: [
-          {
-            type: "body",
-            parameters: [
-              { type: "text", text: data.patientName },
-              { type: "text", text: data.doctorName },
-              { type: "text", text: data.clinicName },
-              { type: "text", text: data.clinicAddress },
-              { type: "text", text: data.appointmentDate },
-              { type: "text", text: data.appointmentTime },
-            ],
-          },
-        ],
-      },
-    });
+    return await this.sendTemplate(WhatsAppTemplateEvent.IN_CLINIC_CONFIRMED, data);
   }
 
   // ============================================================================
@@ -147,8 +211,7 @@ export class WhatsAppService {
   // Trigger: When admin approves a video consultation
   // ============================================================================
 
-  static async sendVideoConsultationConfirmed(data: {
-    phone: string;
+  static async sendVideoConsultationConfirmed(data: WhatsAppRecipient & {
     patientName: string;
     doctorName: string;
     clinicName: string;
@@ -159,35 +222,7 @@ export class WhatsAppService {
   }): Promise<{ success: boolean; error?: string }> {
     console.log("� [CLINIC-ADMIN] Sending video consultation confirmation");
 
-    return await this.sendWhatsAppMessage({
-      to: this.formatPhone(data.phone),
-      type: "template",
-      template: {
-        name: "video_consultation_confirmed",
-        language: { code: "en" },
-        components: [
-          {
-            type: "body",
-            parameters: [
-              { type: "text", text: data.patientName },
-              { type: "text", text: data.doctorName },
-              { type: "text", text: data.clinicName },
-              { type: "text", text: data.appointmentDate },
-              { type: "text", text: data.appointmentTime },
-              { type: "text", text: data.feeAmount },
-            ],
-          },
-          {
-            type: "button",
-            sub_type: "url",
-            index: 0,
-            parameters: [
-              { type: "text", text: data.videoCallLinkSuffix },
-            ],
-          },
-        ],
-      },
-    });
+    return await this.sendTemplate(WhatsAppTemplateEvent.VIDEO_CONFIRMED, data);
   }
 
   // ============================================================================
@@ -195,8 +230,7 @@ export class WhatsAppService {
   // Trigger: When admin cancels an appointment
   // ============================================================================
 
-  static async sendAppointmentCancelled(data: {
-    phone: string;
+  static async sendAppointmentCancelled(data: WhatsAppRecipient & {
     patientName: string;
     doctorName: string;
     appointmentDate: string;
@@ -204,25 +238,7 @@ export class WhatsAppService {
   }): Promise<{ success: boolean; error?: string }> {
     console.log("❌ [CLINIC-ADMIN] Sending appointment cancellation");
 
-    return await this.sendWhatsAppMessage({
-      to: this.formatPhone(data.phone),
-      type: "template",
-      template: {
-        name: "appointment_cancelled",
-        language: { code: "en" },
-        components: [
-          {
-            type: "body",
-            parameters: [
-              { type: "text", text: data.patientName },
-              { type: "text", text: data.doctorName },
-              { type: "text", text: data.appointmentDate },
-              { type: "text", text: data.appointmentTime },
-            ],
-          },
-        ],
-      },
-    });
+    return await this.sendTemplate(WhatsAppTemplateEvent.CANCELLED, data);
   }
 
   // ============================================================================
@@ -230,8 +246,7 @@ export class WhatsAppService {
   // Trigger: When admin reschedules an appointment
   // ============================================================================
 
-  static async sendAppointmentRescheduled(data: {
-    phone: string;
+  static async sendAppointmentRescheduled(data: WhatsAppRecipient & {
     patientName: string;
     doctorName: string;
     oldDate: string;
@@ -242,28 +257,7 @@ export class WhatsAppService {
   }): Promise<{ success: boolean; error?: string }> {
     console.log("📅 [CLINIC-ADMIN] Sending appointment rescheduled notification");
 
-    return await this.sendWhatsAppMessage({
-      to: this.formatPhone(data.phone),
-      type: "template",
-      template: {
-        name: "appointment_rescheduled",
-        language: { code: "en" },
-        components: [
-          {
-            type: "body",
-            parameters: [
-              { type: "text", text: data.patientName },
-              { type: "text", text: data.doctorName },
-              { type: "text", text: data.oldDate },
-              { type: "text", text: data.oldTime },
-              { type: "text", text: data.newDate },
-              { type: "text", text: data.newTime },
-              { type: "text", text: data.clinicName },
-            ],
-          },
-        ],
-      },
-    });
+    return await this.sendTemplate(WhatsAppTemplateEvent.RESCHEDULED, data);
   }
 
   // ============================================================================
@@ -271,8 +265,7 @@ export class WhatsAppService {
   // Trigger: When admin reschedules a video consultation
   // ============================================================================
 
-  static async sendVideoConsultationRescheduled(data: {
-    phone: string;
+  static async sendVideoConsultationRescheduled(data: WhatsAppRecipient & {
     patientName: string;
     doctorName: string;
     oldDate: string;
@@ -284,36 +277,7 @@ export class WhatsAppService {
   }): Promise<{ success: boolean; error?: string }> {
     console.log("📹 [CLINIC-ADMIN] Sending video consultation rescheduled notification");
 
-    return await this.sendWhatsAppMessage({
-      to: this.formatPhone(data.phone),
-      type: "template",
-      template: {
-        name: "video_consultation_rescheduled",
-        language: { code: "en" },
-        components: [
-          {
-            type: "body",
-            parameters: [
-              { type: "text", text: data.patientName },
-              { type: "text", text: data.doctorName },
-              { type: "text", text: data.oldDate },
-              { type: "text", text: data.oldTime },
-              { type: "text", text: data.newDate },
-              { type: "text", text: data.newTime },
-              { type: "text", text: data.clinicName },
-            ],
-          },
-          {
-            type: "button",
-            sub_type: "url",
-            index: 0,
-            parameters: [
-              { type: "text", text: data.videoCallLinkSuffix },
-            ],
-          },
-        ],
-      },
-    });
+    return await this.sendTemplate(WhatsAppTemplateEvent.VIDEO_RESCHEDULED, data);
   }
 
   // ============================================================================
@@ -321,8 +285,7 @@ export class WhatsAppService {
   // Trigger: When doctor is running late
   // ============================================================================
 
-  static async sendAppointmentDelay(data: {
-    phone: string;
+  static async sendAppointmentDelay(data: WhatsAppRecipient & {
     patientName: string;
     doctorName: string;
     delayMinutes: string;
@@ -331,35 +294,15 @@ export class WhatsAppService {
   }): Promise<{ success: boolean; error?: string }> {
     console.log("⏰ [CLINIC-ADMIN] Sending appointment delay notification");
 
-    return await this.sendWhatsAppMessage({
-      to: this.formatPhone(data.phone),
-      type: "template",
-      template: {
-        name: "appointment_delay",
-        language: { code: "en" },
-        components: [
-          {
-            type: "body",
-            parameters: [
-              { type: "text", text: data.patientName },
-              { type: "text", text: data.doctorName },
-              { type: "text", text: data.delayMinutes },
-              { type: "text", text: data.newExpectedTime },
-              { type: "text", text: data.clinicName },
-            ],
-          },
-        ],
-      },
-    });
+    return await this.sendTemplate(WhatsAppTemplateEvent.DELAY, data);
   }
 
   // ============================================================================
   // 6. APPOINTMENT REMINDER (1 Day Before)
-  // Trigger: Cron job / scheduled task
+  // Trigger: appointment-reminders cron job (enqueue_appointment_reminders)
   // ============================================================================
 
-  static async sendAppointmentReminder1Day(data: {
-    phone: string;
+  static async sendAppointmentReminder1Day(data: WhatsAppRecipient & {
     patientName: string;
     doctorName: string;
     clinicName: string;
@@ -370,37 +313,15 @@ export class WhatsAppService {
   }): Promise<{ success: boolean; error?: string }> {
     console.log("🔔 [CLINIC-ADMIN] Sending 1-day appointment reminder");
 
-    return await this.sendWhatsAppMessage({
-      to: this.formatPhone(data.phone),
-      type: "template",
-      template: {
-        name: "appointment_reminder_1day",
-        language: { code: "en" },
-        components: [
-          {
-            type: "body",
-            parameters: [
-              { type: "text", text: data.patientName },
-              { type: "text", text: data.doctorName },
-              { type: "text", text: data.clinicName },
-              { type: "text", text: data.appointmentDate },
-              { type: "text", text: data.appointmentTime },
-              { type: "text", text: data.appointmentType },
-              { type: "text", text: data.extraInfo },
-            ],
-          },
-        ],
-      },
-    });
+    return await this.sendTemplate(WhatsAppTemplateEvent.REMINDER_1DAY, data);
   }
 
   // ============================================================================
   // 7. VIDEO CALL STARTING SOON (with CTA Button)
-  // Trigger: 15 minutes before video consultation
+  // Trigger: 15 minutes before video consultation (appointment-reminders cron job)
   // ============================================================================
 
-  static async sendVideoCallStartingSoon(data: {
-    phone: string;
+  static async sendVideoCallStartingSoon(data: WhatsAppRecipient & {
     patientName: string;
     doctorName: string;
     appointmentTime: string;
@@ -408,32 +329,7 @@ export class WhatsAppService {
   }): Promise<{ success: boolean; error?: string }> {
     console.log("📱 [CLINIC-ADMIN] Sending video call starting soon notification");
 
-    return await this.sendWhatsAppMessage({
-      to: this.formatPhone(data.phone),
-      type: "template",
-      template: {
-        name: "video_call_starting_soon",
-        language: { code: "en" },
-        components: [
-          {
-            type: "body",
-            parameters: [
-              { type: "text", text: data.patientName },
-              { type: "text", text: data.doctorName },
-              { type: "text", text: data.appointmentTime },
-            ],
-          },
-          {
-            type: "button",
-            sub_type: "url",
-            index: 0,
-            parameters: [
-              { type: "text", text: data.videoCallLinkSuffix },
-            ],
-          },
-        ],
-      },
-    });
+    return await this.sendTemplate(WhatsAppTemplateEvent.VIDEO_STARTING_SOON, data);
   }
 
   // ============================================================================
@@ -441,8 +337,7 @@ export class WhatsAppService {
   // Trigger: When admin rejects a patient's appointment request
   // ============================================================================
 
-  static async sendAppointmentRequestRejected(data: {
-    phone: string;
+  static async sendAppointmentRequestRejected(data: WhatsAppRecipient & {
     patientName: string;
     doctorName: string;
     clinicName: string;
@@ -452,26 +347,9 @@ export class WhatsAppService {
   }): Promise<{ success: boolean; error?: string }> {
     console.log("❌ [CLINIC-ADMIN] Sending appointment request rejected notification");
 
-    return await this.sendWhatsAppMessage({
-      to: this.formatPhone(data.phone),
-      type: "template",
-      template: {
-        name: "appointment_request_rejected",
-        language: { code: "en" },
-        components: [
-          {
-            type: "body",
-            parameters: [
-              { type: "text", text: data.patientName },
-              { type: "text", text: data.doctorName },
-              { type: "text", text: data.clinicName },
-              { type: "text", text: data.appointmentDate },
-              { type: "text", text: data.appointmentTime },
-              { type: "text", text: data.rejectionReason || "Schedule conflict" },
-            ],
-          },
-        ],
-      },
+    return await this.sendTemplate(WhatsAppTemplateEvent.REQUEST_REJECTED, {
+      ...data,
+      rejectionReason: data.rejectionReason || "Schedule conflict",
     });
   }
 
@@ -480,8 +358,7 @@ export class WhatsAppService {
   // Trigger: When doctor completes the consultation
   // ============================================================================
 
-  static async sendAppointmentCompleted(data: {
-    phone: string;
+  static async sendAppointmentCompleted(data: WhatsAppRecipient & {
     patientName: string;
     doctorName: string;
     clinicName: string;
@@ -490,33 +367,7 @@ export class WhatsAppService {
   }): Promise<{ success: boolean; error?: string }> {
     console.log("✅ [CLINIC-ADMIN] Sending appointment completed notification with prescription link");
 
-    return await this.sendWhatsAppMessage({
-      to: this.formatPhone(data.phone),
-      type: "template",
-      template: {
-        name: "appointment_completed",
-        language: { code: "en" },
-        components: [
-          {
-            type: "body",
-            parameters: [
-              { type: "text", text: data.patientName },
-              { type: "text", text: data.doctorName },
-              { type: "text", text: data.clinicName },
-              { type: "text", text: data.appointmentDate },
-            ],
-          },
-          {
-            type: "button",
-            sub_type: "url",
-            index: 0,
-            parameters: [
-              { type: "text", text: data.prescriptionLinkSuffix },
-            ],
-          },
-        ],
-      },
-    });
+    return await this.sendTemplate(WhatsAppTemplateEvent.COMPLETED, data);
   }
 
   // ============================================================================
@@ -6,24 +6,61 @@
 export { BaseService } from "./BaseService";
 export { AppointmentService } from "./AppointmentService";
 export { BillingService } from "./BillingService";
+export { ServiceCatalogueService } from "./ServiceCatalogueService";
 export { PatientProfileService } from "./PatientProfileService";
+export { PatientImportService } from "./PatientImportService";
+export { PatientMergeService } from "./PatientMergeService";
 export { DoctorProfileService } from "./DoctorProfileService";
 export { ClinicProfileService } from "./ClinicProfileService";
 export { WhatsAppService } from "./WhatsAppService";
+export { StaffService } from "./StaffService";
+export { MessageLogService } from "./MessageLogService";
+export { DoctorLeaveService } from "./DoctorLeaveService";
+export { SlotWaitlistService } from "./SlotWaitlistService";
+export { DashboardService } from "./DashboardService";
+export { ReportsService } from "./ReportsService";
+export {
+  ReportSubscriptionService,
+  REPORT_SUBSCRIPTION_SECTIONS,
+} from "./ReportSubscriptionService";
 
 export type {
   CreateAppointmentData,
   UpdateAppointmentData,
+  AppointmentStatusHistory,
 } from "./AppointmentService";
 
-export type { BillData } from "./BillingService";
+export type {
+  BillData,
+  CreateBillData,
+  RecordPaymentData,
+  PaymentWithBill,
+  CreditNoteData,
+  RefundData,
+  CreditNoteWithBill,
+} from "./BillingService";
+export type { ServiceCatalogueData } from "./ServiceCatalogueService";
 
 export type {
   CreatePatientProfileData,
   UpdatePatientProfileData,
   PatientProfileWithClinic,
+  PatientCommunicationPreferences,
 } from "./PatientProfileService";
 
+export type {
+  PatientImportOutcome,
+  PatientImportResultRow,
+  PatientImportResult,
+} from "./PatientImportService";
+
+export type {
+  DuplicateMatchReason,
+  DuplicateCandidate,
+  DuplicatePatientPair,
+  PatientMergeResult,
+} from "./PatientMergeService";
+
 export type {
   CreateDoctorProfileData,
   UpdateDoctorProfileData,
@@ -36,6 +73,39 @@ export type {
   UpdateClinicProfileData,
 } from "./ClinicProfileService";
 
+export type {
+  ClinicAccess,
+  ClinicStaffWithDoctor,
+  InviteStaffData,
+  UpdateStaffData,
+} from "./StaffService";
+
+export type { MessageLogFilters } from "./MessageLogService";
+
+export type {
+  CreateDoctorLeaveData,
+  LeaveCollision,
+  BulkLeaveActionResult,
+} from "./DoctorLeaveService";
+
+export type { JoinWaitlistData } from "./SlotWaitlistService";
+export type { DashboardMetric, DashboardMetrics } from "./DashboardService";
+export type {
+  ReportDimension,
+  ReportSummary,
+  ReportSeriesPoint,
+  ReportBreakdownRow,
+  DoctorPerformance,
+  WaitTimeAnalytics,
+  WaitTimeVisit,
+  ReportOptions,
+  ClinicReport,
+} from "./ReportsService";
+export type {
+  ReportSubscriptionData,
+  ReportSubscriptionSection,
+} from "./ReportSubscriptionService";
+
 export type { ServiceResponse } from "./BaseService";
 
 // Future services to be added:
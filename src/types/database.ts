@@ -4,6 +4,22 @@ import type { Address, AddressFormData } from "../validation/AddressValidation";
 // Re-export for convenience
 export type { Address, AddressFormData };
 
+// What message_log keeps to resend a message: the WhatsApp template, or the
+// send-notification request for other channels
+export type MessageLogPayload = {
+  template?: object;
+  type?: "appointment" | "billing" | "system";
+  event?: string;
+  data?: Record<string, unknown>;
+};
+
+// One get_dashboard_metrics card: today's value and the value a week ago
+type DashboardMetricRow = {
+  value: number;
+  last_week: number;
+  change_pct: number | null;
+};
+
 export interface Database {
   public: {
     Tables: {
@@ -11,6 +27,7 @@ export interface Database {
         Row: {
           id: string;
           clinic_name: string;
+          slug: string | null;
           admin_name: string;
           contact_email: string;
           contact_phone: string | null;
@@ -19,29 +36,41 @@ export interface Database {
           created_at: string;
           updated_at: string;
           clinic_logo: string | null;
+          invoice_number_format: string;
+          invoice_number_padding: number;
+          gstin: string | null;
         };
         Insert: {
           id?: string;
           clinic_name: string;
+          slug?: string | null;
           admin_name?: string;
           contact_email?: string;
           contact_phone?: string | null;
           primary_address?: AddressFormData | null;
           logo_url?: string | null;
           clinic_logo?: string | null;
+          invoice_number_format?: string;
+          invoice_number_padding?: number;
+          gstin?: string | null;
           created_at?: string;
           updated_at?: string;
         };
         Update: {
           clinic_name?: string;
+          slug?: string | null;
           admin_name?: string;
           contact_email?: string;
           contact_phone?: string | null;
           primary_address?: AddressFormData | null;
           logo_url?: string | null;
           clinic_logo?: string | null;
+          invoice_number_format?: string;
+          invoice_number_padding?: number;
+          gstin?: string | null;
           updated_at?: string;
         };
+        Relationships: [];
       };
 
       patient_profiles: {
@@ -63,6 +92,13 @@ export interface Database {
           push_token: string | null;
           onboarding_completed: boolean | null;
           preferred_language: string | null;
+          reminders_opt_out: boolean;
+          whatsapp_consent: boolean;
+          sms_consent: boolean;
+          email_consent: boolean;
+          quiet_hours_start: string | null;
+          quiet_hours_end: string | null;
+          communication_preferences_updated_at: string | null;
           created_at: string;
           updated_at: string;
           aadhar_number: string | null;
@@ -93,6 +129,13 @@ export interface Database {
           push_token?: string | null;
           onboarding_completed?: boolean | null;
           preferred_language?: string | null;
+          reminders_opt_out?: boolean;
+          whatsapp_consent?: boolean;
+          sms_consent?: boolean;
+          email_consent?: boolean;
+          quiet_hours_start?: string | null;
+          quiet_hours_end?: string | null;
+          communication_preferences_updated_at?: string | null;
           aadhar_number?: string | null;
           primary_address?: AddressFormData | null;
           emergency_contact?: any | null;
@@ -122,6 +165,13 @@ export interface Database {
           push_token?: string | null;
           onboarding_completed?: boolean | null;
           preferred_language?: string | null;
+          reminders_opt_out?: boolean;
+          whatsapp_consent?: boolean;
+          sms_consent?: boolean;
+          email_consent?: boolean;
+          quiet_hours_start?: string | null;
+          quiet_hours_end?: string | null;
+          communication_preferences_updated_at?: string | null;
           aadhar_number?: string | null;
           primary_address?: AddressFormData | null;
           emergency_contact?: any | null;
@@ -133,6 +183,7 @@ export interface Database {
           created_by?: string | null;
           updated_at?: string;
         };
+        Relationships: [];
       };
 
       doctor_profiles: {
@@ -233,6 +284,7 @@ export interface Database {
           created_by?: string | null;
           updated_at?: string;
         };
+        Relationships: [];
       };
 
       clinic_patients: {
@@ -280,6 +332,22 @@ export interface Database {
           updated_at?: string;
           created_by?: string | null;
         };
+        Relationships: [
+          {
+            foreignKeyName: "clinic_patients_clinic_id_fkey";
+            columns: ["clinic_id"];
+            isOneToOne: false;
+            referencedRelation: "clinic_profiles";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "clinic_patients_patient_profile_id_fkey";
+            columns: ["patient_profile_id"];
+            isOneToOne: false;
+            referencedRelation: "patient_profiles";
+            referencedColumns: ["id"];
+          },
+        ];
       };
 
       clinic_doctors: {
@@ -398,6 +466,22 @@ export interface Database {
           rating?: number | null;
           total_reviews?: number | null;
         };
+        Relationships: [
+          {
+            foreignKeyName: "clinic_doctors_clinic_id_fkey";
+            columns: ["clinic_id"];
+            isOneToOne: false;
+            referencedRelation: "clinic_profiles";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "clinic_doctors_doctor_profile_id_fkey";
+            columns: ["doctor_profile_id"];
+            isOneToOne: false;
+            referencedRelation: "doctor_profiles";
+            referencedColumns: ["id"];
+          },
+        ];
       };
 
       appointments: {
@@ -407,6 +491,8 @@ export interface Database {
           appointment_datetime: string;
           duration_minutes: number | null;
           status: string | null;
+          status_reason: string | null;
+          status_changed_at: string | null;
           notes: string | null;
           symptoms: string | null;
           diagnosis: string | null;
@@ -428,6 +514,9 @@ export interface Database {
           consultation_fee: number | null;
           doctor_slot_id: string | null;
           slot_booking_order: number | null;
+          whatsapp_status: "queued" | "retrying" | "sent" | "failed" | null;
+          whatsapp_status_updated_at: string | null;
+          whatsapp_last_error: string | null;
         };
         Insert: {
           id?: string;
@@ -435,6 +524,7 @@ export interface Database {
           appointment_datetime: string;
           duration_minutes?: number | null;
           status?: string | null;
+          status_reason?: string | null;
           notes?: string | null;
           symptoms?: string | null;
           diagnosis?: string | null;
@@ -456,11 +546,15 @@ export interface Database {
           consultation_fee?: number | null;
           doctor_slot_id?: string | null;
           slot_booking_order?: number | null;
+          whatsapp_status?: "queued" | "retrying" | "sent" | "failed" | null;
+          whatsapp_status_updated_at?: string | null;
+          whatsapp_last_error?: string | null;
         };
         Update: {
           appointment_datetime?: string;
           duration_minutes?: number | null;
           status?: string | null;
+          status_reason?: string | null;
           notes?: string | null;
           symptoms?: string | null;
           diagnosis?: string | null;
@@ -481,7 +575,33 @@ export interface Database {
           consultation_fee?: number | null;
           doctor_slot_id?: string | null;
           slot_booking_order?: number | null;
+          whatsapp_status?: "queued" | "retrying" | "sent" | "failed" | null;
+          whatsapp_status_updated_at?: string | null;
+          whatsapp_last_error?: string | null;
         };
+        Relationships: [
+          {
+            foreignKeyName: "appointments_clinic_patient_id_fkey";
+            columns: ["clinic_patient_id"];
+            isOneToOne: false;
+            referencedRelation: "clinic_patients";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "appointments_clinic_doctor_id_fkey";
+            columns: ["clinic_doctor_id"];
+            isOneToOne: false;
+            referencedRelation: "clinic_doctors";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "appointments_doctor_slot_id_fkey";
+            columns: ["doctor_slot_id"];
+            isOneToOne: false;
+            referencedRelation: "doctor_slots";
+            referencedColumns: ["id"];
+          },
+        ];
       };
 
       doctor_slots: {
@@ -496,6 +616,7 @@ export interface Database {
           current_bookings: number;
           is_active: boolean;
           slot_type: "in-clinic" | "video" | null;
+          blocked_by_leave_id: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -510,6 +631,7 @@ export interface Database {
           current_bookings?: number;
           is_active?: boolean;
           slot_type?: "in-clinic" | "video" | null;
+          blocked_by_leave_id?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -523,6 +645,15 @@ export interface Database {
           slot_type?: "in-clinic" | "video" | null;
           updated_at?: string;
         };
+        Relationships: [
+          {
+            foreignKeyName: "doctor_slots_clinic_doctor_id_fkey";
+            columns: ["clinic_doctor_id"];
+            isOneToOne: false;
+            referencedRelation: "clinic_doctors";
+            referencedColumns: ["id"];
+          },
+        ];
       };
 
       slot_bookings: {
@@ -543,6 +674,22 @@ export interface Database {
         Update: {
           booking_order?: number;
         };
+        Relationships: [
+          {
+            foreignKeyName: "slot_bookings_doctor_slot_id_fkey";
+            columns: ["doctor_slot_id"];
+            isOneToOne: false;
+            referencedRelation: "doctor_slots";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "slot_bookings_appointment_id_fkey";
+            columns: ["appointment_id"];
+            isOneToOne: false;
+            referencedRelation: "appointments";
+            referencedColumns: ["id"];
+          },
+        ];
       };
 
       bills: {
@@ -553,6 +700,7 @@ export interface Database {
           bill_number: string;
           amount: number;
           tax_amount: number | null;
+          discount_amount: number;
           total_amount: number;
           status: string | null;
           payment_mode: string | null;
@@ -562,14 +710,26 @@ export interface Database {
           created_at: string;
           updated_at: string;
           clinic_patient_id: string | null;
+          invoice_financial_year: string | null;
+          invoice_sequence: number | null;
+          clinic_gstin: string | null;
+          place_of_supply: string | null;
+          is_inter_state: boolean;
+          cgst_amount: number;
+          sgst_amount: number;
+          igst_amount: number;
+          amount_paid: number;
+          credited_amount: number;
+          refunded_amount: number;
         };
         Insert: {
           id?: string;
           user_id?: string | null;
           appointment_id?: string | null;
-          bill_number: string;
+          bill_number?: string; // assigned by the assign_bill_number trigger
           amount: number;
           tax_amount?: number | null;
+          discount_amount?: number;
           total_amount: number;
           status?: string | null;
           payment_mode?: string | null;
@@ -585,6 +745,7 @@ export interface Database {
           bill_number?: string;
           amount?: number;
           tax_amount?: number | null;
+          discount_amount?: number;
           total_amount?: number;
           status?: string | null;
           payment_mode?: string | null;
@@ -594,6 +755,22 @@ export interface Database {
           updated_at?: string;
           clinic_patient_id?: string | null;
         };
+        Relationships: [
+          {
+            foreignKeyName: "bills_appointment_id_fkey";
+            columns: ["appointment_id"];
+            isOneToOne: false;
+            referencedRelation: "appointments";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "bills_clinic_patient_id_fkey";
+            columns: ["clinic_patient_id"];
+            isOneToOne: false;
+            referencedRelation: "clinic_patients";
+            referencedColumns: ["id"];
+          },
+        ];
       };
 
       audit_logs: {
@@ -625,6 +802,7 @@ export interface Database {
           new_data?: Record<string, unknown> | null;
           timestamp?: string;
         };
+        Relationships: [];
       };
 
       notifications: {
@@ -657,6 +835,7 @@ export interface Database {
           priority?: "low" | "normal" | "high" | null;
           created_at?: string;
         };
+        Relationships: [];
       };
 
       appointment_requests: {
@@ -730,12 +909,42 @@ export interface Database {
           appointment_id?: string | null;
           updated_at?: string;
         };
+        Relationships: [
+          {
+            foreignKeyName: "appointment_requests_clinic_id_fkey";
+            columns: ["clinic_id"];
+            isOneToOne: false;
+            referencedRelation: "clinic_profiles";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "appointment_requests_doctor_id_fkey";
+            columns: ["doctor_id"];
+            isOneToOne: false;
+            referencedRelation: "clinic_doctors";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "appointment_requests_doctor_slot_id_fkey";
+            columns: ["doctor_slot_id"];
+            isOneToOne: false;
+            referencedRelation: "doctor_slots";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "appointment_requests_appointment_id_fkey";
+            columns: ["appointment_id"];
+            isOneToOne: false;
+            referencedRelation: "appointments";
+            referencedColumns: ["id"];
+          },
+        ];
       };
       reschedule_requests: {
         Row: {
           id: string;
           appointment_id: string;
-          patient_id: string;
+          patient_profile_id: string;
           clinic_id: string;
           doctor_id: string;
           current_datetime: string;
@@ -751,7 +960,7 @@ export interface Database {
         Insert: {
           id?: string;
           appointment_id: string;
-          patient_id: string;
+          patient_profile_id: string;
           clinic_id: string;
           doctor_id: string;
           current_datetime: string;
@@ -766,7 +975,7 @@ export interface Database {
         };
         Update: {
           appointment_id?: string;
-          patient_id?: string;
+          patient_profile_id?: string;
           clinic_id?: string;
           doctor_id?: string;
           current_datetime?: string;
@@ -778,10 +987,848 @@ export interface Database {
           rejection_reason?: string | null;
           updated_at?: string;
         };
+        Relationships: [
+          {
+            foreignKeyName: "reschedule_requests_appointment_id_fkey";
+            columns: ["appointment_id"];
+            isOneToOne: false;
+            referencedRelation: "appointments";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "reschedule_requests_patient_profile_id_fkey";
+            columns: ["patient_profile_id"];
+            isOneToOne: false;
+            referencedRelation: "patient_profiles";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "reschedule_requests_clinic_id_fkey";
+            columns: ["clinic_id"];
+            isOneToOne: false;
+            referencedRelation: "clinic_profiles";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "reschedule_requests_doctor_id_fkey";
+            columns: ["doctor_id"];
+            isOneToOne: false;
+            referencedRelation: "clinic_doctors";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+
+      clinic_staff: {
+        Row: {
+          id: string;
+          clinic_id: string;
+          user_id: string | null;
+          email: string;
+          full_name: string | null;
+          role: "receptionist" | "billing_clerk" | "doctor";
+          clinic_doctor_id: string | null;
+          is_active: boolean;
+          invited_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          clinic_id: string;
+          user_id?: string | null;
+          email: string;
+          full_name?: string | null;
+          role: "receptionist" | "billing_clerk" | "doctor";
+          clinic_doctor_id?: string | null;
+          is_active?: boolean;
+          invited_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          full_name?: string | null;
+          role?: "receptionist" | "billing_clerk" | "doctor";
+          clinic_doctor_id?: string | null;
+          is_active?: boolean;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "clinic_staff_clinic_id_fkey";
+            columns: ["clinic_id"];
+            isOneToOne: false;
+            referencedRelation: "clinic_profiles";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "clinic_staff_clinic_doctor_id_fkey";
+            columns: ["clinic_doctor_id"];
+            isOneToOne: false;
+            referencedRelation: "clinic_doctors";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+
+      message_log: {
+        Row: {
+          id: string;
+          clinic_id: string;
+          channel: "whatsapp" | "email" | "sms";
+          template: string;
+          recipient: string;
+          patient_profile_id: string | null;
+          appointment_id: string | null;
+          status: "queued" | "retrying" | "sent" | "failed" | "skipped";
+          error: string | null;
+          attempts: number;
+          provider_message_id: string | null;
+          queue_msg_id: number | null;
+          payload: MessageLogPayload;
+          resent_from: string | null;
+          created_by: string | null;
+          created_at: string;
+          updated_at: string;
+          sent_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          clinic_id?: string;
+          channel: "whatsapp" | "email" | "sms";
+          template: string;
+          recipient?: string;
+          patient_profile_id?: string | null;
+          appointment_id?: string | null;
+          status?: "queued" | "retrying" | "sent" | "failed" | "skipped";
+          error?: string | null;
+          attempts?: number;
+          provider_message_id?: string | null;
+          queue_msg_id?: number | null;
+          payload?: MessageLogPayload;
+          resent_from?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+          sent_at?: string | null;
+        };
+        Update: {
+          status?: "queued" | "retrying" | "sent" | "failed" | "skipped";
+          error?: string | null;
+          attempts?: number;
+          provider_message_id?: string | null;
+          updated_at?: string;
+          sent_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "message_log_clinic_id_fkey";
+            columns: ["clinic_id"];
+            isOneToOne: false;
+            referencedRelation: "clinic_profiles";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "message_log_patient_profile_id_fkey";
+            columns: ["patient_profile_id"];
+            isOneToOne: false;
+            referencedRelation: "patient_profiles";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "message_log_appointment_id_fkey";
+            columns: ["appointment_id"];
+            isOneToOne: false;
+            referencedRelation: "appointments";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+
+      doctor_leaves: {
+        Row: {
+          id: string;
+          clinic_id: string;
+          clinic_doctor_id: string | null;
+          start_date: string;
+          end_date: string;
+          reason: string | null;
+          created_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          clinic_id?: string;
+          clinic_doctor_id?: string | null;
+          start_date: string;
+          end_date: string;
+          reason?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          clinic_doctor_id?: string | null;
+          start_date?: string;
+          end_date?: string;
+          reason?: string | null;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "doctor_leaves_clinic_id_fkey";
+            columns: ["clinic_id"];
+            isOneToOne: false;
+            referencedRelation: "clinic_profiles";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "doctor_leaves_clinic_doctor_id_fkey";
+            columns: ["clinic_doctor_id"];
+            isOneToOne: false;
+            referencedRelation: "clinic_doctors";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      appointment_status_history: {
+        Row: {
+          id: string;
+          appointment_id: string;
+          from_status: string;
+          to_status: string;
+          reason: string | null;
+          changed_by: string | null;
+          changed_by_name: string | null;
+          changed_at: string;
+        };
+        Insert: {
+          id?: string;
+          appointment_id: string;
+          from_status: string;
+          to_status: string;
+          reason?: string | null;
+          changed_by?: string | null;
+          changed_by_name?: string | null;
+          changed_at?: string;
+        };
+        Update: {
+          reason?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "appointment_status_history_appointment_id_fkey";
+            columns: ["appointment_id"];
+            isOneToOne: false;
+            referencedRelation: "appointments";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      slot_waitlist: {
+        Row: {
+          id: string;
+          clinic_id: string;
+          doctor_slot_id: string;
+          clinic_patient_id: string;
+          appointment_type: string | null;
+          notes: string | null;
+          status: "waiting" | "offered" | "booked" | "expired" | "cancelled";
+          offered_at: string | null;
+          hold_expires_at: string | null;
+          appointment_id: string | null;
+          message_log_id: string | null;
+          created_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          clinic_id?: string;
+          doctor_slot_id: string;
+          clinic_patient_id: string;
+          appointment_type?: string | null;
+          notes?: string | null;
+          status?: "waiting" | "offered" | "booked" | "expired" | "cancelled";
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          status?: "waiting" | "offered" | "booked" | "expired" | "cancelled";
+          notes?: string | null;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "slot_waitlist_clinic_id_fkey";
+            columns: ["clinic_id"];
+            isOneToOne: false;
+            referencedRelation: "clinic_profiles";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "slot_waitlist_doctor_slot_id_fkey";
+            columns: ["doctor_slot_id"];
+            isOneToOne: false;
+            referencedRelation: "doctor_slots";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "slot_waitlist_clinic_patient_id_fkey";
+            columns: ["clinic_patient_id"];
+            isOneToOne: false;
+            referencedRelation: "clinic_patients";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "slot_waitlist_appointment_id_fkey";
+            columns: ["appointment_id"];
+            isOneToOne: false;
+            referencedRelation: "appointments";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "slot_waitlist_message_log_id_fkey";
+            columns: ["message_log_id"];
+            isOneToOne: false;
+            referencedRelation: "message_log";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+
+      report_subscriptions: {
+        Row: {
+          id: string;
+          clinic_id: string;
+          name: string;
+          frequency: "weekly" | "monthly";
+          recipients: string[];
+          sections: ("summary" | "doctors" | "departments" | "wait_times")[];
+          is_active: boolean;
+          last_period_end: string | null;
+          last_sent_at: string | null;
+          last_error: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          clinic_id?: string; // defaults to current_clinic_id()
+          name: string;
+          frequency: "weekly" | "monthly";
+          recipients: string[];
+          sections?: ("summary" | "doctors" | "departments" | "wait_times")[];
+          is_active?: boolean;
+          last_period_end?: string | null;
+          last_sent_at?: string | null;
+          last_error?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          name?: string;
+          frequency?: "weekly" | "monthly";
+          recipients?: string[];
+          sections?: ("summary" | "doctors" | "departments" | "wait_times")[];
+          is_active?: boolean;
+          last_period_end?: string | null;
+          last_sent_at?: string | null;
+          last_error?: string | null;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "report_subscriptions_clinic_id_fkey";
+            columns: ["clinic_id"];
+            isOneToOne: false;
+            referencedRelation: "clinic_profiles";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+
+      service_catalogue: {
+        Row: {
+          id: string;
+          clinic_id: string;
+          name: string;
+          item_type: BillItemType;
+          description: string | null;
+          hsn_sac_code: string | null;
+          unit_price: number;
+          tax_rate: number;
+          is_tax_exempt: boolean;
+          is_active: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          clinic_id?: string; // defaults to current_clinic_id()
+          name: string;
+          item_type?: BillItemType;
+          description?: string | null;
+          hsn_sac_code?: string | null;
+          unit_price: number;
+          tax_rate?: number;
+          is_tax_exempt?: boolean;
+          is_active?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          name?: string;
+          item_type?: BillItemType;
+          description?: string | null;
+          hsn_sac_code?: string | null;
+          unit_price?: number;
+          tax_rate?: number;
+          is_tax_exempt?: boolean;
+          is_active?: boolean;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "service_catalogue_clinic_id_fkey";
+            columns: ["clinic_id"];
+            isOneToOne: false;
+            referencedRelation: "clinic_profiles";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+
+      bill_items: {
+        Row: {
+          id: string;
+          bill_id: string;
+          service_id: string | null;
+          item_type: BillItemType;
+          name: string;
+          description: string | null;
+          hsn_sac_code: string | null;
+          quantity: number;
+          unit_price: number;
+          discount_amount: number;
+          tax_rate: number;
+          is_tax_exempt: boolean;
+          is_inter_state: boolean;
+          // Computed by the database
+          taxable_amount: number;
+          tax_amount: number;
+          cgst_amount: number;
+          sgst_amount: number;
+          igst_amount: number;
+          line_total: number;
+          sort_order: number;
+          created_at: string;
+        };
+        // Written by create_itemised_bill only
+        Insert: {
+          id?: string;
+          bill_id: string;
+          service_id?: string | null;
+          item_type?: BillItemType;
+          name: string;
+          description?: string | null;
+          hsn_sac_code?: string | null;
+          quantity?: number;
+          unit_price: number;
+          discount_amount?: number;
+          tax_rate?: number;
+          is_tax_exempt?: boolean;
+          is_inter_state?: boolean;
+          sort_order?: number;
+          created_at?: string;
+        };
+        Update: {
+          sort_order?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "bill_items_bill_id_fkey";
+            columns: ["bill_id"];
+            isOneToOne: false;
+            referencedRelation: "bills";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "bill_items_service_id_fkey";
+            columns: ["service_id"];
+            isOneToOne: false;
+            referencedRelation: "service_catalogue";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+
+      payments: {
+        Row: {
+          id: string;
+          bill_id: string;
+          clinic_id: string;
+          receipt_number: string;
+          amount: number;
+          payment_mode: string;
+          reference: string | null;
+          paid_at: string;
+          notes: string | null;
+          received_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          bill_id: string;
+          clinic_id?: string; // copied from the bill by a trigger
+          receipt_number?: string; // assigned by a trigger
+          amount: number;
+          payment_mode: string;
+          reference?: string | null;
+          paid_at?: string;
+          notes?: string | null;
+          received_by?: string | null;
+          created_at?: string;
+        };
+        // Receipts are not edited once recorded
+        Update: Record<string, never>;
+        Relationships: [
+          {
+            foreignKeyName: "payments_bill_id_fkey";
+            columns: ["bill_id"];
+            isOneToOne: false;
+            referencedRelation: "bills";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+
+      credit_notes: {
+        Row: {
+          id: string;
+          bill_id: string;
+          clinic_id: string;
+          // Assigned when the note is issued
+          credit_note_number: string | null;
+          status: "suggested" | "issued" | "dismissed";
+          amount: number;
+          reason: string;
+          appointment_id: string | null;
+          issued_at: string | null;
+          issued_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          bill_id: string;
+          clinic_id?: string; // copied from the bill by a trigger
+          credit_note_number?: string | null;
+          status?: "suggested" | "issued" | "dismissed";
+          amount: number;
+          reason: string;
+          appointment_id?: string | null;
+          issued_at?: string | null;
+          issued_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          status?: "suggested" | "issued" | "dismissed";
+          amount?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "credit_notes_bill_id_fkey";
+            columns: ["bill_id"];
+            isOneToOne: false;
+            referencedRelation: "bills";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+
+      refunds: {
+        Row: {
+          id: string;
+          bill_id: string;
+          clinic_id: string;
+          credit_note_id: string | null;
+          refund_number: string;
+          amount: number;
+          payment_mode: string;
+          reference: string | null;
+          reason: string | null;
+          refunded_at: string;
+          refunded_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          bill_id: string;
+          clinic_id?: string; // copied from the bill by a trigger
+          credit_note_id?: string | null;
+          refund_number?: string; // assigned by a trigger
+          amount: number;
+          payment_mode: string;
+          reference?: string | null;
+          reason?: string | null;
+          refunded_at?: string;
+          refunded_by?: string | null;
+          created_at?: string;
+        };
+        // Refunds are not edited once recorded
+        Update: Record<string, never>;
+        Relationships: [
+          {
+            foreignKeyName: "refunds_bill_id_fkey";
+            columns: ["bill_id"];
+            isOneToOne: false;
+            referencedRelation: "bills";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "refunds_credit_note_id_fkey";
+            columns: ["credit_note_id"];
+            isOneToOne: false;
+            referencedRelation: "credit_notes";
+            referencedColumns: ["id"];
+          },
+        ];
       };
     };
     Views: {};
-    Functions: {};
+    Functions: {
+      current_clinic_id: {
+        Args: Record<PropertyKey, never>;
+        Returns: string | null;
+      };
+      get_dashboard_metrics: {
+        Args: Record<PropertyKey, never>;
+        Returns: {
+          total_patients: DashboardMetricRow;
+          total_doctors: DashboardMetricRow;
+          today_appointments: DashboardMetricRow;
+          pending_bills: (DashboardMetricRow & { amount: number }) | null;
+          overdue_followups: DashboardMetricRow;
+          generated_at: string;
+        };
+      };
+      enqueue_whatsapp_message: {
+        Args: {
+          p_to: string;
+          p_template: object;
+          p_appointment_id?: string | null;
+          p_patient_profile_id?: string | null;
+          p_resent_from?: string | null;
+          p_clinic_id?: string | null;
+        };
+        // message_log id of the queued (or skipped) message
+        Returns: string;
+      };
+      get_my_clinic_access: {
+        Args: Record<PropertyKey, never>;
+        Returns: {
+          clinic_id: string;
+          role: "owner" | "receptionist" | "billing_clerk" | "doctor";
+          clinic_doctor_id: string | null;
+          permissions: string[];
+        } | null;
+      };
+      materialize_recurring_slots: {
+        Args: { p_clinic_doctor_id?: string };
+        Returns: Database["public"]["Tables"]["doctor_slots"]["Row"][];
+      };
+      report_summary: {
+        Args: { p_start: string; p_end: string; p_clinic_id?: string | null };
+        Returns: {
+          appointments: {
+            total: number;
+            completed: number;
+            cancelled: number;
+            no_show: number;
+            scheduled: number;
+            patients_seen: number;
+          };
+          revenue: {
+            total: number;
+            paid: number;
+            pending: number;
+            overdue: number;
+            credited: number;
+            refunded: number;
+            bill_count: number;
+          };
+          patients: { total: number; new: number; returning: number };
+          doctors: { total: number; average_appointments: number };
+        };
+      };
+      report_time_series: {
+        Args: {
+          p_start: string;
+          p_end: string;
+          p_interval?: "day" | "week" | "month";
+          p_clinic_id?: string | null;
+        };
+        Returns: {
+          period_start: string;
+          appointments: number;
+          completed: number;
+          cancelled: number;
+          no_show: number;
+          scheduled: number;
+          revenue: number;
+          paid: number;
+          pending: number;
+          overdue: number;
+        }[];
+      };
+      report_breakdown: {
+        Args: {
+          p_start: string;
+          p_end: string;
+          p_dimension?: "doctor" | "department" | "appointment_type";
+          p_clinic_id?: string | null;
+        };
+        Returns: {
+          group_key: string;
+          group_label: string;
+          appointments: number;
+          completed: number;
+          cancelled: number;
+          no_show: number;
+          revenue: number;
+          paid: number;
+        }[];
+      };
+      report_doctor_performance: {
+        Args: {
+          p_start: string;
+          p_end: string;
+          p_clinic_doctor_id?: string | null;
+          p_clinic_id?: string | null;
+        };
+        Returns: {
+          clinic_doctor_id: string;
+          doctor_name: string;
+          department: string | null;
+          is_active: boolean;
+          slot_count: number;
+          slot_capacity: number;
+          slot_bookings: number;
+          utilisation_pct: number | null;
+          appointments: number;
+          completed: number;
+          no_show: number;
+          no_show_rate: number | null;
+          avg_consultation_minutes: number | null;
+          revenue: number;
+          average_rating: number | null;
+          rating_count: number;
+        }[];
+      };
+      report_wait_times: {
+        Args: { p_start: string; p_end: string; p_clinic_id?: string | null };
+        Returns: {
+          summary: {
+            visits: number;
+            avg_wait: number | null;
+            median_wait: number | null;
+            p90_wait: number | null;
+            avg_delay: number | null;
+            median_delay: number | null;
+            avg_estimate_gap: number | null;
+            on_time_pct: number | null;
+          };
+          distribution: { bucket: string; visits: number }[];
+          by_doctor: {
+            clinic_doctor_id: string;
+            doctor_name: string;
+            visits: number;
+            avg_wait: number | null;
+            median_wait: number | null;
+            avg_delay: number | null;
+            max_delay: number | null;
+          }[];
+          by_hour: {
+            hour: number;
+            visits: number;
+            avg_wait: number | null;
+            avg_delay: number | null;
+          }[];
+        };
+      };
+      report_wait_time_visits: {
+        Args: { p_start: string; p_end: string; p_clinic_id?: string | null };
+        Returns: {
+          appointment_id: string;
+          clinic_doctor_id: string;
+          doctor_name: string;
+          patient_name: string;
+          appointment_datetime: string;
+          checked_in_at: string | null;
+          estimated_start_time: string | null;
+          actual_start_time: string;
+          wait_minutes: number | null;
+          delay_minutes: number;
+          estimate_gap_minutes: number | null;
+        }[];
+      };
+      find_duplicate_patients: {
+        Args: { p_limit?: number };
+        Returns: {
+          patient_a_id: string;
+          patient_b_id: string;
+          score: number;
+          reasons: ("phone" | "email" | "date_of_birth" | "name")[];
+        }[];
+      };
+      merge_patient_profiles: {
+        Args: { p_survivor_id: string; p_duplicate_id: string };
+        Returns: {
+          survivor_id: string;
+          duplicate_id: string;
+          appointments: number;
+          bills: number;
+          waitlist_entries: number;
+          reschedule_requests: number;
+          messages: number;
+          survivor_profile_updated: boolean;
+          duplicate_profile_deleted: boolean;
+        };
+      };
+      create_itemised_bill: {
+        Args: {
+          p_bill: {
+            clinic_patient_id: string;
+            appointment_id?: string | null;
+            due_date?: string | null;
+            notes?: string | null;
+            status?: string | null;
+            payment_mode?: string | null;
+            payment_date?: string | null;
+          };
+          p_items: Pick<
+            Database["public"]["Tables"]["bill_items"]["Insert"],
+            | "service_id"
+            | "item_type"
+            | "name"
+            | "description"
+            | "hsn_sac_code"
+            | "quantity"
+            | "unit_price"
+            | "discount_amount"
+            | "tax_rate"
+            | "is_tax_exempt"
+          >[];
+        };
+        Returns: Database["public"]["Tables"]["bills"]["Row"];
+      };
+      book_waitlist_offer: {
+        Args: { p_waitlist_id: string };
+        Returns: string;
+      };
+    };
     Enums: {};
   };
 }
@@ -852,6 +1899,8 @@ export interface AppointmentWithRelations {
   appointment_type?: string | null;
   delay_minutes?: number | null;
   delay_reason?: string | null;
+  status_reason?: string | null;
+  status_changed_at?: string | null;
   is_rescheduled?: boolean | null;
   notes?: string | null;
   symptoms?: string | null;
@@ -867,6 +1916,9 @@ export interface AppointmentWithRelations {
   emergency_reason?: string | null;
   consultation_fee?: number | null;
   slot_booking_order?: number | null;
+  whatsapp_status?: "queued" | "retrying" | "sent" | "failed" | null;
+  whatsapp_status_updated_at?: string | null;
+  whatsapp_last_error?: string | null;
   created_at: string;
   updated_at: string;
   clinic_patient?: ClinicPatientWithProfile | null;
@@ -891,6 +1943,7 @@ export interface BillWithRelations {
   bill_number: string;
   amount: number;
   tax_amount?: number | null;
+  discount_amount?: number | null;
   total_amount: number;
   status?: string | null;
   payment_mode?: string | null;
@@ -901,4 +1954,100 @@ export interface BillWithRelations {
   updated_at: string;
   clinic_patient?: ClinicPatientWithProfile | null;
   appointment?: AppointmentWithRelations | null;
+  // Empty for bills created before itemised billing
+  bill_items?: BillItem[];
+  clinic_gstin?: string | null;
+  place_of_supply?: string | null;
+  is_inter_state?: boolean;
+  cgst_amount?: number;
+  sgst_amount?: number;
+  igst_amount?: number;
+  // Sums of the bill's receipts, issued credit notes and refunds, kept by
+  // the database
+  amount_paid?: number;
+  credited_amount?: number;
+  refunded_amount?: number;
+}
+
+export interface MessageLogWithRelations {
+  id: string;
+  clinic_id: string;
+  channel: "whatsapp" | "email" | "sms";
+  template: string;
+  recipient: string;
+  patient_profile_id: string | null;
+  appointment_id: string | null;
+  status: "queued" | "retrying" | "sent" | "failed" | "skipped";
+  error: string | null;
+  attempts: number;
+  provider_message_id: string | null;
+  payload: MessageLogPayload;
+  resent_from: string | null;
+  created_at: string;
+  updated_at: string;
+  sent_at: string | null;
+  patient_profile?: {
+    id: string;
+    full_name: string;
+    phone?: string | null;
+    email?: string | null;
+  } | null;
+  appointment?: {
+    id: string;
+    appointment_datetime: string;
+    status?: string | null;
+  } | null;
 }
+
+export interface DoctorLeaveWithDoctor {
+  id: string;
+  clinic_id: string;
+  clinic_doctor_id: string | null;
+  start_date: string;
+  end_date: string;
+  reason: string | null;
+  created_at: string;
+  updated_at: string;
+  clinic_doctor?: {
+    id: string;
+    doctor_profile?: {
+      id: string;
+      full_name: string;
+    } | null;
+  } | null;
+}
+
+export interface SlotWaitlistEntry {
+  id: string;
+  doctor_slot_id: string;
+  clinic_patient_id: string;
+  appointment_type: string | null;
+  notes: string | null;
+  status: "waiting" | "offered" | "booked" | "expired" | "cancelled";
+  offered_at: string | null;
+  hold_expires_at: string | null;
+  appointment_id: string | null;
+  created_at: string;
+  clinic_patient?: {
+    id: string;
+    patient_profile?: {
+      id: string;
+      full_name: string;
+      phone: string | null;
+    } | null;
+  } | null;
+}
+
+export type ReportSubscription = Database["public"]["Tables"]["report_subscriptions"]["Row"];
+
+export type BillItemType = "consultation" | "procedure" | "test" | "medicine" | "other";
+
+export type ServiceCatalogueItem = Database["public"]["Tables"]["service_catalogue"]["Row"];
+
+export type BillItem = Database["public"]["Tables"]["bill_items"]["Row"];
+
+export type Payment = Database["public"]["Tables"]["payments"]["Row"];
+
+export type CreditNote = Database["public"]["Tables"]["credit_notes"]["Row"];
+
+export type Refund = Database["public"]["Tables"]["refunds"]["Row"];
@@ -0,0 +1,49 @@
+/**
+ * Bill balance helpers
+ * What a bill is worth and what has been collected once credit notes and
+ * refunds are taken into account. Mirrors refresh_bill_balance in the
+ * credit notes migration.
+ */
+
+interface BalanceFields {
+  total_amount: number;
+  amount_paid?: number | null;
+  credited_amount?: number | null;
+  refunded_amount?: number | null;
+}
+
+export interface BillBalance {
+  // Total less issued credit notes
+  netTotal: number;
+  // Receipts less refunds
+  netPaid: number;
+  // Still owed by the patient
+  balanceDue: number;
+  // Owed back to the patient after a credit note
+  refundDue: number;
+  // Paid and not yet refunded
+  refundable: number;
+  // Left to credit
+  creditable: number;
+}
+
+const round2 = (value: number) => Math.round((value + Number.EPSILON) * 100) / 100;
+
+export const billBalance = (bill: BalanceFields): BillBalance => {
+  const total = Number(bill.total_amount) || 0;
+  const paid = Number(bill.amount_paid) || 0;
+  const credited = Number(bill.credited_amount) || 0;
+  const refunded = Number(bill.refunded_amount) || 0;
+
+  const netTotal = round2(total - credited);
+  const netPaid = round2(paid - refunded);
+
+  return {
+    netTotal,
+    netPaid,
+    balanceDue: Math.max(round2(netTotal - netPaid), 0),
+    refundDue: Math.max(round2(netPaid - netTotal), 0),
+    refundable: Math.max(netPaid, 0),
+    creditable: Math.max(netTotal, 0),
+  };
+};
@@ -3,13 +3,19 @@
  * Centralizes bill HTML generation for downloads and viewing
  */
 import { format } from "date-fns";
+import type { BillItem } from "../types/database";
+import { invoiceLines } from "./billItems";
+import { gstSummary, placeOfSupplyLabel } from "./gst";
 
 export interface BillData {
   id: string;
+  bill_number?: string;
   patient_name: string;
   doctor_name: string;
   appointment_date: string;
-  service_description: string;
+  // Shown as the only line of bills that have no items
+  service_description?: string;
+  items?: BillItem[];
   amount: number;
   tax_amount?: number;
   discount_amount?: number;
@@ -20,6 +26,57 @@ export interface BillData {
   clinic_address?: string;
   clinic_phone?: string;
   clinic_email?: string;
+  clinic_gstin?: string | null;
+  place_of_supply?: string | null;
+  is_inter_state?: boolean;
+}
+
+/**
+ * GST summary table for an invoice, one row per HSN/SAC code and rate.
+ * Empty when nothing on the invoice is taxed or exempt.
+ */
+export function gstSummaryHtml(
+  lines: ReturnType<typeof invoiceLines>,
+  interState: boolean
+): string {
+  const rows = gstSummary(lines, interState);
+  if (!rows.some((row) => row.exempt || row.tax_rate > 0)) return "";
+
+  const cell = 'style="padding: 6px 8px; border: 1px solid #e5e7eb; text-align: right;"';
+  const head = 'style="padding: 6px 8px; border: 1px solid #e5e7eb; background: #f1f5f9; text-align: right;"';
+  const taxHeads = interState
+    ? `<th ${head}>IGST</th>`
+    : `<th ${head}>CGST</th><th ${head}>SGST</th>`;
+
+  return `
+    <table style="width: 100%; border-collapse: collapse; margin: 20px 0; font-size: 12px;">
+      <thead>
+        <tr>
+          <th ${head.replace("right", "left")}>HSN/SAC</th>
+          <th ${head}>Taxable Value</th>
+          <th ${head}>Rate</th>
+          ${taxHeads}
+        </tr>
+      </thead>
+      <tbody>
+        ${rows
+          .map(
+            (row) => `
+        <tr>
+          <td ${cell.replace("right", "left")}>${row.hsn_sac_code}</td>
+          <td ${cell}>₹${row.taxable.toFixed(2)}</td>
+          <td ${cell}>${row.exempt ? "Exempt" : `${row.tax_rate}%`}</td>
+          ${
+            interState
+              ? `<td ${cell}>₹${row.igst.toFixed(2)}</td>`
+              : `<td ${cell}>₹${row.cgst.toFixed(2)}</td><td ${cell}>₹${row.sgst.toFixed(2)}</td>`
+          }
+        </tr>`
+          )
+          .join("")}
+      </tbody>
+    </table>
+  `;
 }
 
 export function generateBillHtml(bill: BillData): string {
@@ -30,6 +87,19 @@ export function generateBillHtml(bill: BillData): string {
   const tax = bill.tax_amount || 0;
   const discount = bill.discount_amount || 0;
   const total = bill.total_amount;
+  const lines = invoiceLines({
+    amount: subtotal,
+    tax_amount: tax,
+    discount_amount: discount,
+    total_amount: total,
+    notes: bill.service_description,
+    bill_items: bill.items,
+  });
+  const interState = !!bill.is_inter_state;
+  const gst = gstSummary(lines, interState).reduce(
+    (sum, row) => ({ cgst: sum.cgst + row.cgst, sgst: sum.sgst + row.sgst, igst: sum.igst + row.igst }),
+    { cgst: 0, sgst: 0, igst: 0 }
+  );
 
   return `
     <!DOCTYPE html>
@@ -120,6 +190,13 @@ export function generateBillHtml(bill: BillData): string {
           text-align: right;
           font-weight: 600;
         }
+        .number {
+          text-align: right;
+        }
+        .item-description {
+          color: #6b7280;
+          font-size: 12px;
+        }
         .total-section {
           margin-top: 30px;
           background-color: #f8fafc;
@@ -189,15 +266,16 @@ export function generateBillHtml(bill: BillData): string {
           Phone: ${bill.clinic_phone || "N/A"} | Email: ${
     bill.clinic_email || "contact@abhicure.com"
   }
+          ${bill.clinic_gstin ? `<br>GSTIN: ${bill.clinic_gstin}` : ""}
         </div>
       </div>
 
-      <div class="bill-title">MEDICAL BILL</div>
+      <div class="bill-title">${bill.clinic_gstin ? "TAX INVOICE" : "MEDICAL BILL"}</div>
 
       <div class="bill-info">
         <div class="bill-section">
           <h3>Bill Information</h3>
-          <p><strong>Bill ID:</strong> ${bill.id}</p>
+          <p><strong>Invoice No:</strong> ${bill.bill_number || bill.id}</p>
           <p><strong>Date Issued:</strong> ${formattedCreatedAt}</p>
           <p><strong>Status:</strong> <span class="status ${bill.status.toLowerCase()}">${
     bill.status
@@ -209,26 +287,59 @@ export function generateBillHtml(bill: BillData): string {
           <p><strong>Patient Name:</strong> ${bill.patient_name}</p>
           <p><strong>Doctor:</strong> Dr. ${bill.doctor_name}</p>
           <p><strong>Appointment Date:</strong> ${formattedDate}</p>
+          ${
+            bill.place_of_supply
+              ? `<p><strong>Place of Supply:</strong> ${placeOfSupplyLabel(bill.place_of_supply)}</p>`
+              : ""
+          }
         </div>
       </div>
 
       <table class="services-table">
         <thead>
           <tr>
-            <th>Service Description</th>
-            <th>Date</th>
-            <th>Amount</th>
+            <th>Item</th>
+            <th>HSN/SAC</th>
+            <th class="number">Qty</th>
+            <th class="number">Rate</th>
+            <th class="number">Discount</th>
+            <th class="number">Tax</th>
+            <th class="number">Amount</th>
           </tr>
         </thead>
         <tbody>
+          ${lines
+            .map(
+              (line) => `
           <tr>
-            <td>${bill.service_description}</td>
-            <td>${formattedDate}</td>
-            <td class="amount">₹${subtotal.toFixed(2)}</td>
-          </tr>
+            <td>
+              ${line.name}
+              ${line.description ? `<div class="item-description">${line.description}</div>` : ""}
+            </td>
+            <td>${line.hsn_sac_code || "-"}</td>
+            <td class="number">${Number(line.quantity)}</td>
+            <td class="number">₹${Number(line.unit_price).toFixed(2)}</td>
+            <td class="number">${
+              Number(line.discount_amount) > 0
+                ? `-₹${Number(line.discount_amount).toFixed(2)}`
+                : "-"
+            }</td>
+            <td class="number">${
+              line.is_tax_exempt
+                ? "Exempt"
+                : Number(line.tax_amount) > 0
+                  ? `₹${Number(line.tax_amount).toFixed(2)} (${Number(line.tax_rate)}%)`
+                  : "-"
+            }</td>
+            <td class="amount">₹${Number(line.line_total).toFixed(2)}</td>
+          </tr>`
+            )
+            .join("")}
         </tbody>
       </table>
 
+      ${bill.items?.length ? gstSummaryHtml(lines, interState) : ""}
+
       <div class="total-section">
         <div class="total-row">
           <span>Subtotal:</span>
@@ -245,15 +356,36 @@ export function generateBillHtml(bill: BillData): string {
             : ""
         }
         ${
-          tax > 0
+          tax > 0 && !bill.items?.length
             ? `
           <div class="total-row">
-            <span>Tax (${((tax / subtotal) * 100).toFixed(1)}%):</span>
+            <span>Tax:</span>
             <span>₹${tax.toFixed(2)}</span>
           </div>
         `
             : ""
         }
+        ${
+          tax > 0 && bill.items?.length
+            ? interState
+              ? `
+          <div class="total-row">
+            <span>IGST:</span>
+            <span>₹${gst.igst.toFixed(2)}</span>
+          </div>
+        `
+              : `
+          <div class="total-row">
+            <span>CGST:</span>
+            <span>₹${gst.cgst.toFixed(2)}</span>
+          </div>
+          <div class="total-row">
+            <span>SGST:</span>
+            <span>₹${gst.sgst.toFixed(2)}</span>
+          </div>
+        `
+            : ""
+        }
         <div class="total-row final">
           <span>Total Amount:</span>
           <span>₹${total.toFixed(2)}</span>
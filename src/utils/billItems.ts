@@ -0,0 +1,140 @@
+/**
+ * Bill item helpers
+ * Line and bill totals for itemised bills. The database computes the stored
+ * amounts (bill_items generated columns, sync_bill_totals); these mirror that
+ * calculation for previews while a bill is being written.
+ */
+import type { BillItem, BillItemType } from "../types/database";
+import { HSN_SAC_PATTERN } from "./gst";
+
+export const BILL_ITEM_TYPES: { value: BillItemType; label: string }[] = [
+  { value: "consultation", label: "Consultation" },
+  { value: "procedure", label: "Procedure" },
+  { value: "test", label: "Lab Test" },
+  { value: "medicine", label: "Medicine" },
+  { value: "other", label: "Other" },
+];
+
+export const billItemTypeLabel = (type: string) =>
+  BILL_ITEM_TYPES.find((option) => option.value === type)?.label || type;
+
+// A line as entered, before the database computes its amounts
+export interface BillItemInput {
+  service_id?: string | null;
+  item_type: BillItemType;
+  name: string;
+  description?: string;
+  hsn_sac_code?: string;
+  quantity: number;
+  unit_price: number;
+  discount_amount: number;
+  tax_rate: number;
+  is_tax_exempt?: boolean;
+}
+
+export interface BillItemAmounts {
+  gross: number;
+  discount: number;
+  taxable: number;
+  tax: number;
+  total: number;
+}
+
+const round2 = (value: number) => Math.round((value + Number.EPSILON) * 100) / 100;
+
+export const calculateBillItem = (
+  item: Pick<BillItemInput, "quantity" | "unit_price" | "discount_amount" | "tax_rate">
+): BillItemAmounts => {
+  const gross = item.quantity * item.unit_price;
+  const taxable = gross - item.discount_amount;
+  const taxableRounded = round2(taxable);
+  const tax = round2((taxable * item.tax_rate) / 100);
+
+  return {
+    gross: round2(gross),
+    discount: round2(item.discount_amount),
+    taxable: taxableRounded,
+    tax,
+    total: round2(taxableRounded + tax),
+  };
+};
+
+export const summarizeBillItems = (
+  items: Pick<BillItemInput, "quantity" | "unit_price" | "discount_amount" | "tax_rate">[]
+): Omit<BillItemAmounts, "taxable"> =>
+  items.map(calculateBillItem).reduce(
+    (sum, line) => ({
+      gross: round2(sum.gross + line.gross),
+      discount: round2(sum.discount + line.discount),
+      tax: round2(sum.tax + line.tax),
+      total: round2(sum.total + line.total),
+    }),
+    { gross: 0, discount: 0, tax: 0, total: 0 }
+  );
+
+/**
+ * Problems that would stop the database accepting a line, or null
+ */
+export const validateBillItem = (item: BillItemInput): string | null => {
+  if (!item.name.trim()) return "Every item needs a name";
+  if (!(item.quantity > 0)) return `${item.name}: quantity must be more than 0`;
+  if (item.unit_price < 0) return `${item.name}: price cannot be negative`;
+  if (item.discount_amount < 0) return `${item.name}: discount cannot be negative`;
+  if (item.discount_amount > item.quantity * item.unit_price) {
+    return `${item.name}: discount is more than the line amount`;
+  }
+  if (item.tax_rate < 0 || item.tax_rate > 100) return `${item.name}: tax rate must be 0-100%`;
+  if (item.is_tax_exempt && item.tax_rate > 0) return `${item.name}: exempt items cannot be taxed`;
+  if (item.hsn_sac_code && !HSN_SAC_PATTERN.test(item.hsn_sac_code)) {
+    return `${item.name}: HSN/SAC code must be 4-8 digits`;
+  }
+  return null;
+};
+
+/**
+ * Lines to show on an invoice. Bills created before itemised billing have no
+ * items and are shown as a single line for their amount.
+ */
+export const invoiceLines = (bill: {
+  amount: number;
+  tax_amount?: number | null;
+  discount_amount?: number | null;
+  total_amount: number;
+  notes?: string | null;
+  bill_items?: BillItem[];
+}): Pick<
+  BillItem,
+  | "name"
+  | "item_type"
+  | "description"
+  | "hsn_sac_code"
+  | "quantity"
+  | "unit_price"
+  | "discount_amount"
+  | "tax_rate"
+  | "is_tax_exempt"
+  | "tax_amount"
+  | "line_total"
+>[] => {
+  if (bill.bill_items?.length) {
+    return [...bill.bill_items].sort((a, b) => a.sort_order - b.sort_order);
+  }
+
+  const amount = Number(bill.amount) || 0;
+  const tax = Number(bill.tax_amount) || 0;
+  return [
+    {
+      name: "Medical services",
+      item_type: "other",
+      description: bill.notes || null,
+      hsn_sac_code: null,
+      quantity: 1,
+      unit_price: amount,
+      discount_amount: Number(bill.discount_amount) || 0,
+      tax_rate: amount > 0 ? round2((tax / amount) * 100) : 0,
+      is_tax_exempt: false,
+      tax_amount: tax,
+      line_total: Number(bill.total_amount) || 0,
+    },
+  ];
+};
@@ -0,0 +1,44 @@
+/**
+ * Patient communication preference helpers
+ */
+import type {
+  PatientCommunicationPreferences,
+  PatientProfileWithClinic,
+} from "../services/PatientProfileService";
+import { resolvePatientLanguage } from "../constants/whatsappTemplates";
+import { PATIENT_LANGUAGE_LABELS, PatientLanguage } from "../constants";
+
+// Patients consent to every channel unless they opt out
+export function getCommunicationPreferences(
+  patient: PatientProfileWithClinic | null
+): PatientCommunicationPreferences {
+  return {
+    // A stored language without templates is kept so saving does not overwrite it
+    preferred_language: patient?.preferred_language || PatientLanguage.ENGLISH,
+    whatsapp_consent: patient?.whatsapp_consent ?? true,
+    sms_consent: patient?.sms_consent ?? true,
+    email_consent: patient?.email_consent ?? true,
+    reminders_opt_out: patient?.reminders_opt_out ?? false,
+    // Postgres returns "HH:MM:SS"; time inputs work with "HH:MM"
+    quiet_hours_start: patient?.quiet_hours_start?.slice(0, 5) ?? null,
+    quiet_hours_end: patient?.quiet_hours_end?.slice(0, 5) ?? null,
+  };
+}
+
+// Label for a preferred language, including stored languages without templates
+export function patientLanguageLabel(language: string): string {
+  if (language in PATIENT_LANGUAGE_LABELS) {
+    return PATIENT_LANGUAGE_LABELS[language as PatientLanguage];
+  }
+  const sentIn = PATIENT_LANGUAGE_LABELS[resolvePatientLanguage(language)];
+  return `${language} (messages in ${sentIn})`;
+}
+
+export function validateQuietHours(
+  value: PatientCommunicationPreferences
+): string | null {
+  if (!value.quiet_hours_start !== !value.quiet_hours_end) {
+    return "Set both the start and end of quiet hours, or neither";
+  }
+  return null;
+}
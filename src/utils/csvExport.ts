@@ -0,0 +1,49 @@
+/**
+ * CSV export helpers
+ */
+import { downloadBlob } from "./downloadUtil";
+
+export interface CsvColumn<T> {
+  header: string;
+  value: (row: T) => string | number | null | undefined;
+}
+
+/**
+ * Spreadsheets run text starting with =, +, - or @ as a formula. Patient names
+ * and notes come from public forms, so such text is prefixed with an
+ * apostrophe. Plain numbers (negative delays, +91 phone numbers) are left alone.
+ */
+export const escapeFormula = <T>(value: T): T | string => {
+  if (typeof value !== "string") return value;
+  if (/^[=+\-@\t\r]/.test(value) && !/^[+-]?\d+(\.\d+)?$/.test(value)) {
+    return `'${value}`;
+  }
+  return value;
+};
+
+const escapeCsvValue = (value: string | number | null | undefined): string => {
+  if (value === null || value === undefined) return "";
+
+  const text = String(escapeFormula(value));
+  // Quote fields containing separators, quotes or line breaks (RFC 4180)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = <T>(rows: T[], columns: CsvColumn<T>[]): string => {
+  const lines = [
+    columns.map((column) => escapeCsvValue(column.header)).join(","),
+    ...rows.map((row) =>
+      columns.map((column) => escapeCsvValue(column.value(row))).join(",")
+    ),
+  ];
+
+  return lines.join("\r\n");
+};
+
+export const downloadCsv = (filename: string, csv: string) => {
+  // BOM so Excel opens UTF-8 (₹, non-Latin names) correctly
+  downloadBlob(
+    new Blob(["\uFEFF" + csv], { type: "text/csv;charset=utf-8" }),
+    filename.endsWith(".csv") ? filename : `${filename}.csv`
+  );
+};
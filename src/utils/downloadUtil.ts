@@ -1,6 +1,37 @@
 import { format } from "date-fns";
+import { invoiceLines } from "./billItems";
+import { gstSummaryHtml } from "./billHtmlGenerator";
+import { placeOfSupplyLabel } from "./gst";
+import { billBalance } from "./billBalance";
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = window.URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  window.URL.revokeObjectURL(url);
+};
 
 export const downloadBillAsHTML = (bill: any) => {
+  const patient = bill.clinic_patient?.patient_profile;
+  const lines = invoiceLines(bill);
+  const itemised = !!bill.bill_items?.length;
+  const balance = billBalance(bill);
+  const settlement: [string, string][] = [
+    ...(Number(bill.credited_amount) > 0
+      ? [["Credit Notes", `-₹${Number(bill.credited_amount).toFixed(2)}`] as [string, string]]
+      : []),
+    ...(Number(bill.amount_paid) > 0
+      ? [["Paid", `₹${Number(bill.amount_paid).toFixed(2)}`] as [string, string]]
+      : []),
+    ...(Number(bill.refunded_amount) > 0
+      ? [["Refunded", `-₹${Number(bill.refunded_amount).toFixed(2)}`] as [string, string]]
+      : []),
+  ];
+
   const invoiceHTML = `
     <!DOCTYPE html>
     <html>
@@ -33,6 +64,34 @@ export const downloadBillAsHTML = (bill: any) => {
           color: #2563eb; 
           margin-bottom: 8px;
         }
+        .items {
+          width: 100%;
+          border-collapse: collapse;
+          margin: 20px 0;
+          font-size: 14px;
+        }
+        .items th {
+          background: #f1f5f9;
+          text-align: left;
+          padding: 10px;
+        }
+        .items td {
+          padding: 10px;
+          border-bottom: 1px solid #e5e7eb;
+        }
+        .items .number {
+          text-align: right;
+        }
+        .summary {
+          margin-left: auto;
+          width: 280px;
+          font-size: 14px;
+        }
+        .summary div {
+          display: flex;
+          justify-content: space-between;
+          padding: 4px 0;
+        }
         .total-amount {
           font-size: 24px;
           font-weight: bold;
@@ -50,14 +109,15 @@ export const downloadBillAsHTML = (bill: any) => {
         <div class="header">
           <div class="company-name">AbhiCure Clinic</div>
           <p>Professional Healthcare Services</p>
-          <h2>INVOICE #${bill.bill_number}</h2>
+          ${bill.clinic_gstin ? `<p>GSTIN: ${bill.clinic_gstin}</p>` : ""}
+          <h2>${bill.clinic_gstin ? "TAX INVOICE" : "INVOICE"} #${bill.bill_number}</h2>
         </div>
         
         <div style="margin: 30px 0;">
           <h3>Bill To:</h3>
-          <p><strong>${bill.patient?.name}</strong></p>
-          <p>Email: ${bill.patient?.email || "N/A"}</p>
-          <p>Phone: ${bill.patient?.phone || "N/A"}</p>
+          <p><strong>${patient?.full_name || bill.patient?.name || "Patient"}</strong></p>
+          <p>Email: ${patient?.email || bill.patient?.email || "N/A"}</p>
+          <p>Phone: ${patient?.phone || bill.patient?.phone || "N/A"}</p>
         </div>
         
         <div style="margin: 30px 0;">
@@ -71,11 +131,91 @@ export const downloadBillAsHTML = (bill: any) => {
               : "No due date"
           }</p>
           <p><strong>Status:</strong> ${bill.status.toUpperCase()}</p>
+          ${
+            bill.place_of_supply
+              ? `<p><strong>Place of Supply:</strong> ${placeOfSupplyLabel(bill.place_of_supply)}</p>`
+              : ""
+          }
         </div>
         
+        <table class="items">
+          <thead>
+            <tr>
+              <th>Item</th>
+              <th>HSN/SAC</th>
+              <th class="number">Qty</th>
+              <th class="number">Rate</th>
+              <th class="number">Discount</th>
+              <th class="number">Tax</th>
+              <th class="number">Amount</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${lines
+              .map(
+                (line) => `
+            <tr>
+              <td>${line.name}</td>
+              <td>${line.hsn_sac_code || "-"}</td>
+              <td class="number">${Number(line.quantity)}</td>
+              <td class="number">₹${Number(line.unit_price).toFixed(2)}</td>
+              <td class="number">${
+                Number(line.discount_amount) > 0
+                  ? `-₹${Number(line.discount_amount).toFixed(2)}`
+                  : "-"
+              }</td>
+              <td class="number">${
+                line.is_tax_exempt
+                  ? "Exempt"
+                  : Number(line.tax_amount) > 0
+                    ? `₹${Number(line.tax_amount).toFixed(2)} (${Number(line.tax_rate)}%)`
+                    : "-"
+              }</td>
+              <td class="number">₹${Number(line.line_total).toFixed(2)}</td>
+            </tr>`
+              )
+              .join("")}
+          </tbody>
+        </table>
+
+        ${itemised ? gstSummaryHtml(lines, !!bill.is_inter_state) : ""}
+
+        <div class="summary">
+          <div><span>Subtotal</span><span>₹${Number(bill.amount).toFixed(2)}</span></div>
+          ${
+            Number(bill.discount_amount) > 0
+              ? `<div><span>Discount</span><span>-₹${Number(bill.discount_amount).toFixed(2)}</span></div>`
+              : ""
+          }
+          ${
+            Number(bill.tax_amount) > 0 && !itemised
+              ? `<div><span>Tax</span><span>₹${Number(bill.tax_amount).toFixed(2)}</span></div>`
+              : ""
+          }
+          ${
+            Number(bill.cgst_amount) > 0
+              ? `<div><span>CGST</span><span>₹${Number(bill.cgst_amount).toFixed(2)}</span></div>
+          <div><span>SGST</span><span>₹${Number(bill.sgst_amount).toFixed(2)}</span></div>`
+              : ""
+          }
+          ${
+            Number(bill.igst_amount) > 0
+              ? `<div><span>IGST</span><span>₹${Number(bill.igst_amount).toFixed(2)}</span></div>`
+              : ""
+          }
+        </div>
+
         <div class="total-amount">
-          Total Amount: ₹${bill.total_amount.toFixed(2)}
+          Total Amount: ₹${Number(bill.total_amount).toFixed(2)}
         </div>
+        ${
+          settlement.length > 0
+            ? `<div class="summary">
+          ${settlement.map(([label, value]) => `<div><span>${label}</span><span>${value}</span></div>`).join("")}
+          <div><span>${balance.refundDue > 0 ? "Refund Due" : "Balance Due"}</span><span>₹${(balance.refundDue > 0 ? balance.refundDue : balance.balanceDue).toFixed(2)}</span></div>
+        </div>`
+            : ""
+        }
         
         <div style="text-center; margin-top: 40px; color: #6b7280;">
           <p><strong>Thank you for choosing AbhiCure Clinic</strong></p>
@@ -91,7 +231,7 @@ export const downloadBillAsHTML = (bill: any) => {
   const link = document.createElement("a");
   link.href = url;
   link.download = `invoice-${bill.bill_number}-${
-    bill.patient?.name?.replace(/\s+/g, "-") || "patient"
+    (patient?.full_name || bill.patient?.name)?.replace(/\s+/g, "-") || "patient"
   }.html`;
   document.body.appendChild(link);
   link.click();
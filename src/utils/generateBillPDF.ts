@@ -0,0 +1,492 @@
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { format } from 'date-fns';
+import type { BillWithRelations, CreditNote, Payment, Refund } from '../types/database';
+import { PAYMENT_MODE_LABELS, PaymentMode } from '../constants';
+import { invoiceLines } from './billItems';
+import { gstSummary, placeOfSupplyLabel } from './gst';
+import { billBalance } from './billBalance';
+import { downloadBlob } from './downloadUtil';
+import { lastAutoTableY } from './generatePrescriptionPDF';
+
+export interface BillPdfClinic {
+    name: string;
+    address?: string;
+    phone?: string;
+    email?: string;
+}
+
+// jsPDF's built-in fonts have no rupee sign
+const money = (value: number | null | undefined) => `Rs. ${(Number(value) || 0).toFixed(2)}`;
+
+export function generateBillPDF(bill: BillWithRelations, clinic: BillPdfClinic): Blob {
+    const doc = new jsPDF({
+        orientation: 'portrait',
+        unit: 'mm',
+        format: 'a4'
+    });
+
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const margin = 15;
+    let yPos = margin;
+
+    // Colors
+    const primaryBlue: [number, number, number] = [59, 130, 246];   // Blue-500
+    const lightBlue: [number, number, number] = [219, 234, 254];    // Blue-100
+    const textDark: [number, number, number] = [30, 41, 59];        // Slate-800
+    const textMuted: [number, number, number] = [100, 116, 139];    // Slate-500
+
+    const lines = invoiceLines(bill);
+    const itemised = !!bill.bill_items?.length;
+    const interState = !!bill.is_inter_state;
+
+    // ===== HEADER =====
+    doc.setFillColor(...lightBlue);
+    doc.rect(0, 0, pageWidth, 38, 'F');
+
+    doc.setFontSize(20);
+    doc.setTextColor(...primaryBlue);
+    doc.setFont('helvetica', 'bold');
+    doc.text(clinic.name || 'Clinic', margin, 16);
+
+    doc.setFontSize(9);
+    doc.setTextColor(...textMuted);
+    doc.setFont('helvetica', 'normal');
+    const contact = [clinic.phone, clinic.email].filter(Boolean).join(' | ');
+    if (clinic.address) doc.text(clinic.address, margin, 23);
+    if (contact) doc.text(contact, margin, 28);
+    if (bill.clinic_gstin) {
+        doc.setFont('helvetica', 'bold');
+        doc.setTextColor(...textDark);
+        doc.text(`GSTIN: ${bill.clinic_gstin}`, margin, 33);
+    }
+
+    doc.setFontSize(14);
+    doc.setTextColor(...primaryBlue);
+    doc.setFont('helvetica', 'bold');
+    doc.text(bill.clinic_gstin ? 'TAX INVOICE' : 'INVOICE', pageWidth - margin, 16, { align: 'right' });
+
+    yPos = 48;
+
+    // ===== INVOICE & PATIENT DETAILS =====
+    const patient = bill.clinic_patient?.patient_profile;
+    const details: [string, string][] = [
+        ['Invoice No:', bill.bill_number],
+        ['Date:', format(new Date(bill.created_at), 'dd MMM yyyy')],
+        ['Due Date:', bill.due_date ? format(new Date(bill.due_date), 'dd MMM yyyy') : '-'],
+        ['Status:', (bill.status || 'pending').toUpperCase()],
+    ];
+    const billTo: [string, string][] = [
+        ['Bill To:', patient?.full_name || 'Patient'],
+        ['Phone:', patient?.phone || '-'],
+        ['Place of Supply:', placeOfSupplyLabel(bill.place_of_supply)],
+    ];
+
+    doc.setFontSize(10);
+    details.forEach(([label, value], index) => {
+        doc.setFont('helvetica', 'normal');
+        doc.setTextColor(...textMuted);
+        doc.text(label, margin, yPos + index * 6);
+        doc.setFont('helvetica', 'bold');
+        doc.setTextColor(...textDark);
+        doc.text(value, margin + 25, yPos + index * 6);
+    });
+    billTo.forEach(([label, value], index) => {
+        doc.setFont('helvetica', 'normal');
+        doc.setTextColor(...textMuted);
+        doc.text(label, pageWidth / 2, yPos + index * 6);
+        doc.setFont('helvetica', 'bold');
+        doc.setTextColor(...textDark);
+        doc.text(value, pageWidth / 2 + 30, yPos + index * 6);
+    });
+
+    yPos += details.length * 6 + 6;
+
+    // ===== ITEMS =====
+    autoTable(doc, {
+        startY: yPos,
+        head: [['#', 'Item', 'HSN/SAC', 'Qty', 'Rate', 'Discount', 'GST', 'Amount']],
+        body: lines.map((line, index) => [
+            (index + 1).toString(),
+            line.description ? `${line.name}\n${line.description}` : line.name,
+            line.hsn_sac_code || '-',
+            String(Number(line.quantity)),
+            money(line.unit_price),
+            Number(line.discount_amount) > 0 ? money(line.discount_amount) : '-',
+            line.is_tax_exempt ? 'Exempt' : `${Number(line.tax_rate)}%`,
+            money(line.line_total)
+        ]),
+        theme: 'striped',
+        headStyles: {
+            fillColor: primaryBlue,
+            textColor: [255, 255, 255],
+            fontStyle: 'bold',
+            fontSize: 9
+        },
+        bodyStyles: {
+            fontSize: 9,
+            textColor: textDark
+        },
+        columnStyles: {
+            0: { cellWidth: 8 },
+            1: { cellWidth: 'auto' },
+            3: { halign: 'right' },
+            4: { halign: 'right' },
+            5: { halign: 'right' },
+            6: { halign: 'right' },
+            7: { halign: 'right' }
+        },
+        margin: { left: margin, right: margin }
+    });
+
+    yPos = lastAutoTableY(doc) + 8;
+
+    // ===== GST SUMMARY =====
+    const summaryRows = itemised ? gstSummary(lines, interState) : [];
+    if (summaryRows.some((row) => row.exempt || row.tax_rate > 0)) {
+        autoTable(doc, {
+            startY: yPos,
+            head: [[
+                'HSN/SAC',
+                'Taxable Value',
+                'Rate',
+                ...(interState ? ['IGST'] : ['CGST', 'SGST'])
+            ]],
+            body: summaryRows.map((row) => [
+                row.hsn_sac_code,
+                money(row.taxable),
+                row.exempt ? 'Exempt' : `${row.tax_rate}%`,
+                ...(interState ? [money(row.igst)] : [money(row.cgst), money(row.sgst)])
+            ]),
+            theme: 'grid',
+            headStyles: {
+                fillColor: [241, 245, 249],
+                textColor: textDark,
+                fontStyle: 'bold',
+                fontSize: 8
+            },
+            bodyStyles: {
+                fontSize: 8,
+                textColor: textDark
+            },
+            margin: { left: margin, right: pageWidth / 2 }
+        });
+
+        yPos = lastAutoTableY(doc) + 8;
+    }
+
+    // ===== TOTALS =====
+    const totals: [string, string][] = [['Subtotal', money(bill.amount)]];
+    if (Number(bill.discount_amount) > 0) {
+        totals.push(['Discount', `-${money(bill.discount_amount)}`]);
+    }
+    if (itemised) {
+        if (Number(bill.cgst_amount) > 0) totals.push(['CGST', money(bill.cgst_amount)]);
+        if (Number(bill.sgst_amount) > 0) totals.push(['SGST', money(bill.sgst_amount)]);
+        if (Number(bill.igst_amount) > 0) totals.push(['IGST', money(bill.igst_amount)]);
+    } else if (Number(bill.tax_amount) > 0) {
+        totals.push(['Tax', money(bill.tax_amount)]);
+    }
+
+    doc.setFontSize(10);
+    totals.forEach(([label, value]) => {
+        doc.setFont('helvetica', 'normal');
+        doc.setTextColor(...textMuted);
+        doc.text(label, pageWidth - margin - 60, yPos);
+        doc.setTextColor(...textDark);
+        doc.text(value, pageWidth - margin, yPos, { align: 'right' });
+        yPos += 6;
+    });
+
+    doc.setDrawColor(...primaryBlue);
+    doc.setLineWidth(0.5);
+    doc.line(pageWidth - margin - 60, yPos - 2, pageWidth - margin, yPos - 2);
+    yPos += 4;
+
+    doc.setFontSize(12);
+    doc.setFont('helvetica', 'bold');
+    doc.text('Total', pageWidth - margin - 60, yPos);
+    doc.text(money(bill.total_amount), pageWidth - margin, yPos, { align: 'right' });
+
+    // ===== PAYMENTS, CREDIT NOTES AND REFUNDS =====
+    const balance = billBalance(bill);
+    const settlement: [string, string][] = [];
+    if (Number(bill.credited_amount) > 0) {
+        settlement.push(['Credit Notes', `-${money(bill.credited_amount)}`]);
+    }
+    if (Number(bill.amount_paid) > 0) settlement.push(['Paid', money(bill.amount_paid)]);
+    if (Number(bill.refunded_amount) > 0) {
+        settlement.push(['Refunded', `-${money(bill.refunded_amount)}`]);
+    }
+
+    if (settlement.length > 0) {
+        yPos += 7;
+        doc.setFontSize(10);
+        doc.setFont('helvetica', 'normal');
+        doc.setTextColor(...textMuted);
+        settlement.forEach(([label, value]) => {
+            doc.text(label, pageWidth - margin - 60, yPos);
+            doc.text(value, pageWidth - margin, yPos, { align: 'right' });
+            yPos += 6;
+        });
+        doc.setFont('helvetica', 'bold');
+        doc.setTextColor(...textDark);
+        doc.text(
+            balance.refundDue > 0 ? 'Refund Due' : 'Balance Due',
+            pageWidth - margin - 60,
+            yPos
+        );
+        doc.text(
+            money(balance.refundDue > 0 ? balance.refundDue : balance.balanceDue),
+            pageWidth - margin,
+            yPos,
+            { align: 'right' }
+        );
+    }
+
+    // ===== FOOTER =====
+    const footerY = doc.internal.pageSize.getHeight() - 15;
+    doc.setFontSize(8);
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(...textMuted);
+    doc.text('This is a computer-generated invoice.', pageWidth / 2, footerY, { align: 'center' });
+
+    return doc.output('blob');
+}
+
+// Helper to download the PDF
+export function downloadBillPDF(bill: BillWithRelations, clinic: BillPdfClinic, filename?: string): void {
+    const blob = generateBillPDF(bill, clinic);
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename || `invoice-${bill.bill_number.replace(/[^\w-]+/g, '-')}.pdf`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+}
+
+export const paymentModeLabel = (mode?: string | null) =>
+    mode ? PAYMENT_MODE_LABELS[mode as PaymentMode] || mode.replace('_', ' ').toUpperCase() : '-';
+
+interface VoucherContent {
+    title: string;
+    rows: [string, string][];
+    amountLabel: string;
+    amount: number;
+    notes?: string | null;
+    footer: string;
+}
+
+// A5 layout shared by receipts, credit notes and refund vouchers
+function generateVoucherPDF(
+    bill: BillWithRelations,
+    clinic: BillPdfClinic,
+    content: VoucherContent
+): Blob {
+    const doc = new jsPDF({
+        orientation: 'portrait',
+        unit: 'mm',
+        format: 'a5'
+    });
+
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const margin = 12;
+
+    const primaryBlue: [number, number, number] = [59, 130, 246];   // Blue-500
+    const lightBlue: [number, number, number] = [219, 234, 254];    // Blue-100
+    const textDark: [number, number, number] = [30, 41, 59];        // Slate-800
+    const textMuted: [number, number, number] = [100, 116, 139];    // Slate-500
+
+    // ===== HEADER =====
+    doc.setFillColor(...lightBlue);
+    doc.rect(0, 0, pageWidth, 30, 'F');
+
+    doc.setFontSize(16);
+    doc.setTextColor(...primaryBlue);
+    doc.setFont('helvetica', 'bold');
+    doc.text(clinic.name || 'Clinic', margin, 13);
+
+    doc.setFontSize(8);
+    doc.setTextColor(...textMuted);
+    doc.setFont('helvetica', 'normal');
+    if (clinic.address) doc.text(clinic.address, margin, 19);
+    const contact = [clinic.phone, bill.clinic_gstin && `GSTIN: ${bill.clinic_gstin}`]
+        .filter(Boolean)
+        .join(' | ');
+    if (contact) doc.text(contact, margin, 24);
+
+    doc.setFontSize(13);
+    doc.setTextColor(...textDark);
+    doc.setFont('helvetica', 'bold');
+    doc.text(content.title, pageWidth / 2, 42, { align: 'center' });
+
+    // ===== DETAILS =====
+    autoTable(doc, {
+        startY: 50,
+        body: content.rows,
+        theme: 'plain',
+        bodyStyles: {
+            fontSize: 10,
+            textColor: textDark,
+            cellPadding: 2
+        },
+        columnStyles: {
+            0: { cellWidth: 40, textColor: textMuted },
+            1: { fontStyle: 'bold' }
+        },
+        margin: { left: margin, right: margin }
+    });
+
+    let yPos = lastAutoTableY(doc) + 8;
+
+    // ===== AMOUNT =====
+    doc.setFillColor(...lightBlue);
+    doc.rect(margin, yPos, pageWidth - 2 * margin, 14, 'F');
+    doc.setFontSize(12);
+    doc.setTextColor(...primaryBlue);
+    doc.setFont('helvetica', 'bold');
+    doc.text(content.amountLabel, margin + 4, yPos + 9);
+    doc.text(money(content.amount), pageWidth - margin - 4, yPos + 9, { align: 'right' });
+    yPos += 24;
+
+    if (content.notes) {
+        doc.setFontSize(9);
+        doc.setFont('helvetica', 'normal');
+        doc.setTextColor(...textMuted);
+        doc.text(doc.splitTextToSize(content.notes, pageWidth - 2 * margin), margin, yPos);
+    }
+
+    // ===== FOOTER =====
+    doc.setFontSize(8);
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(...textMuted);
+    doc.text(
+        content.footer,
+        pageWidth / 2,
+        doc.internal.pageSize.getHeight() - 10,
+        { align: 'center' }
+    );
+
+    return doc.output('blob');
+}
+
+const savePDF = (blob: Blob, name: string) =>
+    downloadBlob(blob, `${name.replace(/[^\w-]+/g, '-')}.pdf`);
+
+const patientName = (bill: BillWithRelations) =>
+    bill.clinic_patient?.patient_profile?.full_name || 'Patient';
+
+/**
+ * Receipt for one payment against a bill. billPayments are all receipts of
+ * the bill, used for the balance left after this one.
+ */
+export function generateReceiptPDF(
+    payment: Payment,
+    bill: BillWithRelations,
+    clinic: BillPdfClinic,
+    billPayments: Payment[] = [payment]
+): Blob {
+    const ordered = [...billPayments].sort(
+        (a, b) => new Date(a.paid_at).getTime() - new Date(b.paid_at).getTime()
+    );
+    const index = ordered.findIndex((p) => p.id === payment.id);
+    const paidToDate = ordered
+        .slice(0, index === -1 ? ordered.length : index + 1)
+        .reduce((sum, p) => sum + Number(p.amount), 0);
+    const balance = billBalance({ ...bill, amount_paid: paidToDate });
+
+    return generateVoucherPDF(bill, clinic, {
+        title: 'PAYMENT RECEIPT',
+        rows: [
+            ['Receipt No', payment.receipt_number],
+            ['Date', format(new Date(payment.paid_at), 'dd MMM yyyy, h:mm a')],
+            ['Received From', patientName(bill)],
+            ['Against Invoice', bill.bill_number],
+            ['Payment Mode', paymentModeLabel(payment.payment_mode)],
+            ...(payment.reference ? [['Reference', payment.reference] as [string, string]] : []),
+            ['Invoice Total', money(balance.netTotal)],
+            ['Paid To Date', money(paidToDate)],
+            ['Balance', money(balance.balanceDue)],
+        ],
+        amountLabel: 'Amount Received',
+        amount: payment.amount,
+        notes: payment.notes,
+        footer: 'This is a computer-generated receipt.'
+    });
+}
+
+export function downloadReceiptPDF(
+    payment: Payment,
+    bill: BillWithRelations,
+    clinic: BillPdfClinic,
+    billPayments?: Payment[]
+): void {
+    savePDF(generateReceiptPDF(payment, bill, clinic, billPayments), `receipt-${payment.receipt_number}`);
+}
+
+export function generateCreditNotePDF(
+    note: CreditNote,
+    bill: BillWithRelations,
+    clinic: BillPdfClinic
+): Blob {
+    return generateVoucherPDF(bill, clinic, {
+        title: 'CREDIT NOTE',
+        rows: [
+            ['Credit Note No', note.credit_note_number || '-'],
+            ['Date', format(new Date(note.issued_at || note.created_at), 'dd MMM yyyy')],
+            ['Issued To', patientName(bill)],
+            ['Against Invoice', bill.bill_number],
+            ['Invoice Date', format(new Date(bill.created_at), 'dd MMM yyyy')],
+            ['Invoice Total', money(bill.total_amount)],
+            ['Reason', note.reason],
+        ],
+        amountLabel: 'Amount Credited',
+        amount: note.amount,
+        footer: 'This is a computer-generated credit note.'
+    });
+}
+
+export function downloadCreditNotePDF(
+    note: CreditNote,
+    bill: BillWithRelations,
+    clinic: BillPdfClinic
+): void {
+    savePDF(generateCreditNotePDF(note, bill, clinic), `credit-note-${note.credit_note_number || note.id}`);
+}
+
+export function generateRefundPDF(
+    refund: Refund,
+    bill: BillWithRelations,
+    clinic: BillPdfClinic,
+    creditNote?: CreditNote | null
+): Blob {
+    return generateVoucherPDF(bill, clinic, {
+        title: 'REFUND VOUCHER',
+        rows: [
+            ['Refund No', refund.refund_number],
+            ['Date', format(new Date(refund.refunded_at), 'dd MMM yyyy, h:mm a')],
+            ['Refunded To', patientName(bill)],
+            ['Against Invoice', bill.bill_number],
+            ...(creditNote?.credit_note_number
+                ? [['Credit Note', creditNote.credit_note_number] as [string, string]]
+                : []),
+            ['Refund Mode', paymentModeLabel(refund.payment_mode)],
+            ...(refund.reference ? [['Reference', refund.reference] as [string, string]] : []),
+        ],
+        amountLabel: 'Amount Refunded',
+        amount: refund.amount,
+        notes: refund.reason,
+        footer: 'This is a computer-generated refund voucher.'
+    });
+}
+
+export function downloadRefundPDF(
+    refund: Refund,
+    bill: BillWithRelations,
+    clinic: BillPdfClinic,
+    creditNote?: CreditNote | null
+): void {
+    savePDF(generateRefundPDF(refund, bill, clinic, creditNote), `refund-${refund.refund_number}`);
+}
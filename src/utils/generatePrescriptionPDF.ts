@@ -1,5 +1,5 @@
 import jsPDF from 'jspdf';
-import autoTable from 'jspdf-autotable';
+import autoTable, { type Table } from 'jspdf-autotable';
 
 interface Medicine {
     id?: string;
@@ -39,7 +39,7 @@ interface PrescriptionData {
 }
 
 // Helper to fetch image and convert to base64
-async function fetchImageAsBase64(url: string): Promise<string> {
+export async function fetchImageAsBase64(url: string): Promise<string> {
     try {
         const response = await fetch(url);
         const blob = await response.blob();
@@ -50,11 +50,16 @@ async function fetchImageAsBase64(url: string): Promise<string> {
             reader.readAsDataURL(blob);
         });
     } catch (error) {
-        console.error("Error fetching signature image:", error);
+        console.error("Error fetching image:", error);
         throw error;
     }
 }
 
+// Where the last autoTable ended; jspdf-autotable sets it on the document
+export function lastAutoTableY(doc: jsPDF): number {
+    return (doc as jsPDF & { lastAutoTable: Table }).lastAutoTable.finalY ?? 0;
+}
+
 export async function generatePrescriptionPDF(data: PrescriptionData): Promise<Blob> {
     const doc = new jsPDF({
         orientation: 'portrait',
@@ -228,7 +233,7 @@ export async function generatePrescriptionPDF(data: PrescriptionData): Promise<B
             }
         });
 
-        yPos = (doc as any).lastAutoTable.finalY + 8;
+        yPos = lastAutoTableY(doc) + 8;
     } else {
         doc.setFontSize(10);
         doc.setFont('helvetica', 'italic');
@@ -0,0 +1,214 @@
+/**
+ * GST helpers
+ * GSTIN validation, state codes for the place of supply and the CGST/SGST/IGST
+ * split of bill items. The database stores the split (bill_items computed
+ * columns); splitGst mirrors it for previews.
+ */
+
+export const GSTIN_PATTERN = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+export const HSN_SAC_PATTERN = /^[0-9]{4,8}$/;
+
+// Rates offered when pricing services; exempt services are billed at 0%
+export const GST_RATES = [0, 5, 12, 18, 28, 40];
+
+// SAC for human health services, most of which are exempt from GST
+export const HEALTHCARE_SAC_CODE = "9993";
+
+// State codes as used in the first two digits of a GSTIN
+export const GST_STATE_CODES: Record<string, string> = {
+  "Jammu and Kashmir": "01",
+  "Himachal Pradesh": "02",
+  Punjab: "03",
+  Chandigarh: "04",
+  Uttarakhand: "05",
+  Haryana: "06",
+  Delhi: "07",
+  Rajasthan: "08",
+  "Uttar Pradesh": "09",
+  Bihar: "10",
+  Sikkim: "11",
+  "Arunachal Pradesh": "12",
+  Nagaland: "13",
+  Manipur: "14",
+  Mizoram: "15",
+  Tripura: "16",
+  Meghalaya: "17",
+  Assam: "18",
+  "West Bengal": "19",
+  Jharkhand: "20",
+  Odisha: "21",
+  Chhattisgarh: "22",
+  "Madhya Pradesh": "23",
+  Gujarat: "24",
+  "Dadra and Nagar Haveli and Daman and Diu": "26",
+  Maharashtra: "27",
+  Karnataka: "29",
+  Goa: "30",
+  Lakshadweep: "31",
+  Kerala: "32",
+  "Tamil Nadu": "33",
+  Puducherry: "34",
+  "Andaman and Nicobar Islands": "35",
+  Telangana: "36",
+  "Andhra Pradesh": "37",
+  Ladakh: "38",
+};
+
+// Short forms and old names found in addresses, keyed like normaliseState
+const GST_STATE_ALIASES: Record<string, string> = {
+  jk: "01", jammukashmir: "01",
+  hp: "02",
+  pb: "03",
+  ch: "04",
+  uk: "05", ut: "05", uttaranchal: "05",
+  hr: "06",
+  dl: "07", newdelhi: "07", nctofdelhi: "07",
+  rj: "08",
+  up: "09",
+  br: "10",
+  sk: "11",
+  ar: "12",
+  nl: "13",
+  mn: "14",
+  mz: "15",
+  tr: "16",
+  ml: "17",
+  as: "18",
+  wb: "19",
+  jh: "20",
+  od: "21", or: "21", orissa: "21",
+  cg: "22", ct: "22",
+  mp: "23",
+  gj: "24",
+  dd: "26", dn: "26", dnhdd: "26",
+  mh: "27",
+  ka: "29",
+  ga: "30",
+  ld: "31",
+  kl: "32",
+  tn: "33",
+  py: "34", pondicherry: "34",
+  an: "35",
+  ts: "36", tg: "36",
+  ap: "37",
+  la: "38",
+};
+
+// "West Bengal", "west bengal" and "W.B." all become "westbengal" / "wb"
+const normaliseState = (state: string) => state.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+/**
+ * GST state code of a state name, short form or code, or null when it is not
+ * recognised. Same lookup as gst_state_code in the GST invoices migration.
+ */
+export const gstStateCode = (state?: string | null): string | null => {
+  if (!state) return null;
+  const key = normaliseState(state);
+  if (!key) return null;
+  if (Object.values(GST_STATE_CODES).includes(key)) return key;
+  const match = Object.keys(GST_STATE_CODES).find((name) => normaliseState(name) === key);
+  return match ? GST_STATE_CODES[match] : GST_STATE_ALIASES[key] ?? null;
+};
+
+// "West Bengal (19)", as printed for the place of supply
+export const placeOfSupplyLabel = (state?: string | null) => {
+  if (!state) return "-";
+  const code = gstStateCode(state);
+  return code ? `${state} (${code})` : state;
+};
+
+/**
+ * Problems with a GSTIN, or null. The state code must match the clinic's
+ * state when it is known.
+ */
+export const validateGstin = (gstin: string, clinicState?: string | null): string | null => {
+  if (!GSTIN_PATTERN.test(gstin)) {
+    return "Enter the 15-character GSTIN, e.g. 19ABCDE1234F1Z5";
+  }
+  const stateCode = gstStateCode(clinicState);
+  if (stateCode && gstin.slice(0, 2) !== stateCode) {
+    return `GSTIN state code ${gstin.slice(0, 2)} does not match ${clinicState} (${stateCode})`;
+  }
+  return null;
+};
+
+// Same rule as create_itemised_bill: IGST only when the clinic's and the
+// patient's GST state codes are both known and differ. The clinic's code comes
+// from its GSTIN, else its address.
+export const isInterStateSupply = (
+  clinic: { gstin?: string | null; state?: string | null },
+  patientState?: string | null
+) => {
+  const clinicCode = clinic.gstin?.slice(0, 2) || gstStateCode(clinic.state);
+  const patientCode = gstStateCode(patientState);
+  return !!clinicCode && !!patientCode && clinicCode !== patientCode;
+};
+
+const round2 = (value: number) => Math.round((value + Number.EPSILON) * 100) / 100;
+
+export interface GstSplit {
+  cgst: number;
+  sgst: number;
+  igst: number;
+}
+
+export const splitGst = (tax: number, interState: boolean): GstSplit => {
+  if (interState) return { cgst: 0, sgst: 0, igst: round2(tax) };
+  const cgst = round2(tax / 2);
+  return { cgst, sgst: round2(tax - cgst), igst: 0 };
+};
+
+export interface GstSummaryRow {
+  hsn_sac_code: string;
+  tax_rate: number;
+  exempt: boolean;
+  taxable: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+}
+
+/**
+ * Tax summary of an invoice, one row per HSN/SAC code and rate
+ */
+export const gstSummary = (
+  lines: {
+    hsn_sac_code?: string | null;
+    tax_rate: number;
+    is_tax_exempt?: boolean;
+    quantity: number;
+    unit_price: number;
+    discount_amount: number;
+    tax_amount: number;
+  }[],
+  interState: boolean
+): GstSummaryRow[] => {
+  const rows = new Map<string, GstSummaryRow>();
+
+  for (const line of lines) {
+    const code = line.hsn_sac_code || "-";
+    const rate = Number(line.tax_rate) || 0;
+    const exempt = !!line.is_tax_exempt;
+    const key = `${code}|${rate}|${exempt}`;
+    const row = rows.get(key) || {
+      hsn_sac_code: code,
+      tax_rate: rate,
+      exempt,
+      taxable: 0,
+      cgst: 0,
+      sgst: 0,
+      igst: 0,
+    };
+    const split = splitGst(Number(line.tax_amount) || 0, interState);
+
+    row.taxable = round2(
+      row.taxable + Number(line.quantity) * Number(line.unit_price) - Number(line.discount_amount)
+    );
+    row.cgst = round2(row.cgst + split.cgst);
+    row.sgst = round2(row.sgst + split.sgst);
+    row.igst = round2(row.igst + split.igst);
+    rows.set(key, row);
+  }
+
+  return [...rows.values()];
+};
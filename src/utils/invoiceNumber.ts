@@ -0,0 +1,48 @@
+/**
+ * Invoice number helpers
+ * Bill numbers are assigned by the database (assign_bill_number trigger);
+ * these mirror its format_invoice_number and financial_year_label functions
+ * so Settings can preview a format before it is saved
+ */
+
+export const DEFAULT_INVOICE_NUMBER_FORMAT = "INV/{FY}/{SEQ}";
+export const DEFAULT_INVOICE_NUMBER_PADDING = 4;
+
+// GST rules allow at most 16 characters per invoice number
+export const MAX_INVOICE_NUMBER_LENGTH = 16;
+
+export const INVOICE_NUMBER_TOKENS = [
+  { token: "{FY}", description: "Financial year, e.g. 2025-26" },
+  { token: "{FYS}", description: "Short financial year, e.g. 2526" },
+  { token: "{SEQ}", description: "Running number, restarts every April (required)" },
+];
+
+/**
+ * Indian financial year (April to March) of a date, e.g. "2025-26"
+ */
+export const financialYearLabel = (date: Date): string => {
+  const startYear = date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, "0")}`;
+};
+
+export const formatInvoiceNumber = (
+  format: string,
+  financialYear: string,
+  sequence: number,
+  padding: number
+): string =>
+  format
+    .replace(/\{FY\}/g, financialYear)
+    .replace(/\{FYS\}/g, financialYear.slice(2, 4) + financialYear.slice(5, 7))
+    .replace(/\{SEQ\}/g, String(sequence).padStart(padding, "0"));
+
+/**
+ * Error message for an invalid format, or null when it can be saved
+ */
+export const validateInvoiceNumberFormat = (format: string): string | null => {
+  if (!format.includes("{SEQ}")) return "The format must include {SEQ}";
+  if (!/^[A-Za-z0-9/{}-]+$/.test(format)) {
+    return "Use only letters, digits, / and - besides the tokens";
+  }
+  return null;
+};
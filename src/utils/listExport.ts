@@ -0,0 +1,156 @@
+/**
+ * List export helpers
+ * CSV or single-sheet Excel downloads of the Patients, Doctors and
+ * Appointments lists, using the same column definitions for both formats
+ */
+import * as XLSX from "xlsx";
+import { format } from "date-fns";
+import { CsvColumn, downloadCsv, escapeFormula, toCsv } from "./csvExport";
+import { downloadBlob } from "./downloadUtil";
+import { convertUTCToISTTime24, extractISTDateForInput } from "./timezoneUtils";
+import { isVideoAppointment } from "./appointmentUtils";
+import type { PatientProfileWithClinic } from "../services/PatientProfileService";
+import type { DoctorProfileWithClinic } from "../services/DoctorProfileService";
+import type { AppointmentWithRelations } from "../services/AppointmentService";
+import type { AddressFormData } from "../validation/AddressValidation";
+
+export type ListExportFormat = "csv" | "xlsx";
+
+const toXlsx = <T>(rows: T[], columns: CsvColumn<T>[], sheetName: string): Blob => {
+  const header = columns.map((column) => column.header);
+  const body = rows.map((row) =>
+    columns.map((column) => escapeFormula(column.value(row) ?? ""))
+  );
+
+  const sheet = XLSX.utils.aoa_to_sheet([header, ...body]);
+  sheet["!cols"] = header.map((title, index) => ({
+    wch: Math.min(
+      Math.max(title.length, ...body.map((row) => String(row[index]).length)) + 2,
+      60
+    ),
+  }));
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, sheetName.slice(0, 31));
+
+  const output = XLSX.write(workbook, { bookType: "xlsx", type: "array" });
+  return new Blob([output], {
+    type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  });
+};
+
+/**
+ * Download rows as <filename>-<today>.csv or .xlsx
+ */
+export const exportList = <T>(
+  rows: T[],
+  columns: CsvColumn<T>[],
+  filename: string,
+  exportFormat: ListExportFormat,
+  sheetName = "Export"
+) => {
+  const name = `${filename}-${format(new Date(), "yyyy-MM-dd")}`;
+
+  if (exportFormat === "csv") {
+    downloadCsv(name, toCsv(rows, columns));
+  } else {
+    downloadBlob(toXlsx(rows, columns, sheetName), `${name}.xlsx`);
+  }
+};
+
+const formatAddress = (address?: AddressFormData | null) =>
+  address
+    ? [
+        address.address_line1,
+        address.address_line2,
+        address.street,
+        address.area,
+        address.city,
+        address.state,
+        address.postal_code,
+      ]
+        .filter(Boolean)
+        .join(", ")
+    : "";
+
+const joinList = (items?: string[] | null) => (items?.length ? items.join("; ") : "");
+
+const formatDate = (value?: string | null) =>
+  value ? format(new Date(value), "yyyy-MM-dd") : "";
+
+// Appointment timestamps are stored in UTC and exported as IST
+const istDate = (value?: string | null) => (value ? extractISTDateForInput(value) : "");
+const istTime = (value?: string | null) => (value ? convertUTCToISTTime24(value) : "");
+
+export const PATIENT_EXPORT_COLUMNS: CsvColumn<PatientProfileWithClinic>[] = [
+  { header: "Name", value: (patient) => patient.full_name },
+  { header: "Phone", value: (patient) => patient.phone },
+  { header: "Email", value: (patient) => patient.email },
+  { header: "Date of Birth", value: (patient) => patient.date_of_birth },
+  { header: "Gender", value: (patient) => patient.gender },
+  { header: "Blood Group", value: (patient) => patient.blood_group },
+  { header: "Address", value: (patient) => formatAddress(patient.primary_address) },
+  { header: "Emergency Contact", value: (patient) => patient.emergency_contact },
+  { header: "Allergies", value: (patient) => joinList(patient.allergies) },
+  { header: "Chronic Conditions", value: (patient) => joinList(patient.chronic_conditions) },
+  { header: "Medications", value: (patient) => joinList(patient.medications) },
+  { header: "Status", value: (patient) => patient.clinic_patient?.status },
+  { header: "Registration Source", value: (patient) => patient.clinic_patient?.registration_source },
+  { header: "Registered", value: (patient) => formatDate(patient.clinic_patient?.created_at ?? patient.created_at) },
+];
+
+export const DOCTOR_EXPORT_COLUMNS: CsvColumn<DoctorProfileWithClinic>[] = [
+  { header: "Name", value: (doctor) => doctor.full_name },
+  { header: "Primary Specialization", value: (doctor) => doctor.primary_specialization },
+  { header: "Other Specializations", value: (doctor) => joinList(doctor.secondary_specializations) },
+  { header: "Qualifications", value: (doctor) => joinList(doctor.qualifications) },
+  { header: "Medical License", value: (doctor) => doctor.medical_license_number },
+  { header: "Phone", value: (doctor) => doctor.phone },
+  { header: "Email", value: (doctor) => doctor.email },
+  { header: "Experience (years)", value: (doctor) => doctor.experience_years },
+  { header: "Consultation Fee", value: (doctor) => doctor.clinic_doctor?.consultation_fee ?? doctor.consultation_fee },
+  { header: "Role", value: (doctor) => doctor.clinic_doctor?.role_in_clinic?.replace(/_/g, " ") },
+  { header: "Employment", value: (doctor) => doctor.clinic_doctor?.employment_type },
+  { header: "Employee ID", value: (doctor) => doctor.clinic_doctor?.employee_id },
+  { header: "Active", value: (doctor) => (doctor.clinic_doctor?.is_active === false ? "No" : "Yes") },
+  { header: "Rating", value: (doctor) => doctor.clinic_doctor?.rating?.toFixed(1) },
+  { header: "Reviews", value: (doctor) => doctor.clinic_doctor?.total_reviews },
+  { header: "Registered", value: (doctor) => formatDate(doctor.created_at) },
+];
+
+export const APPOINTMENT_EXPORT_COLUMNS: CsvColumn<AppointmentWithRelations>[] = [
+  { header: "Date", value: (appointment) => istDate(appointment.appointment_datetime) },
+  { header: "Time", value: (appointment) => istTime(appointment.appointment_datetime) },
+  { header: "Patient", value: (appointment) => appointment.clinic_patient?.patient_profile?.full_name },
+  { header: "Patient Phone", value: (appointment) => appointment.clinic_patient?.patient_profile?.phone },
+  { header: "Doctor", value: (appointment) => appointment.clinic_doctor?.doctor_profile?.full_name },
+  {
+    header: "Specialization",
+    value: (appointment) => appointment.clinic_doctor?.doctor_profile?.primary_specialization,
+  },
+  { header: "Type", value: (appointment) => appointment.appointment_type },
+  { header: "Mode", value: (appointment) => (isVideoAppointment(appointment) ? "Video" : "In-Clinic") },
+  { header: "Slot", value: (appointment) => appointment.doctor_slot?.slot_name },
+  {
+    header: "Slot Time",
+    value: (appointment) =>
+      appointment.doctor_slot
+        ? `${appointment.doctor_slot.start_time.slice(0, 5)}-${appointment.doctor_slot.end_time.slice(0, 5)}`
+        : "",
+  },
+  { header: "Booking Order", value: (appointment) => appointment.slot_booking_order },
+  { header: "Status", value: (appointment) => appointment.status },
+  { header: "Emergency", value: (appointment) => (appointment.emergency_status ? "Yes" : "") },
+  { header: "Queue Position", value: (appointment) => appointment.queue_position },
+  { header: "Delay (min)", value: (appointment) => appointment.delay_minutes },
+  { header: "Checked In", value: (appointment) => istTime(appointment.checked_in_at) },
+  { header: "Started", value: (appointment) => istTime(appointment.actual_start_time) },
+  { header: "Completed", value: (appointment) => istTime(appointment.actual_end_time) },
+  {
+    header: "Consultation Fee",
+    value: (appointment) =>
+      appointment.consultation_fee ?? appointment.clinic_doctor?.consultation_fee,
+  },
+  { header: "Symptoms", value: (appointment) => appointment.symptoms },
+  { header: "Notes", value: (appointment) => appointment.notes },
+];
@@ -0,0 +1,303 @@
+/**
+ * Patient import helpers
+ * Reads a CSV or Excel sheet of patients, maps its columns onto patient
+ * fields and validates every row with patientFormSchema
+ */
+import Papa from "papaparse";
+import * as XLSX from "xlsx";
+import { format, isValid, parse } from "date-fns";
+import { patientFormSchema } from "../validation/FormSchemas";
+import type { CreatePatientProfileData } from "../services/PatientProfileService";
+import { CsvColumn, downloadCsv, toCsv } from "./csvExport";
+
+export type PatientImportField =
+  | "full_name"
+  | "phone"
+  | "email"
+  | "date_of_birth"
+  | "gender"
+  | "blood_group"
+  | "aadhar_number"
+  | "emergency_contact"
+  | "address_line1"
+  | "address_line2"
+  | "area"
+  | "city"
+  | "state"
+  | "postal_code"
+  | "allergies"
+  | "chronic_conditions"
+  | "medications"
+  | "previous_surgeries"
+  | "family_history"
+  | "medical_notes";
+
+export const PATIENT_IMPORT_FIELDS: {
+  field: PatientImportField;
+  label: string;
+  required?: boolean;
+  // Lower-case header names matched automatically
+  aliases: string[];
+}[] = [
+  { field: "full_name", label: "Full Name", required: true, aliases: ["name", "patient name", "patient"] },
+  { field: "phone", label: "Phone", required: true, aliases: ["mobile", "phone number", "mobile number", "contact", "contact number"] },
+  { field: "email", label: "Email", aliases: ["email address", "e-mail"] },
+  { field: "date_of_birth", label: "Date of Birth", aliases: ["dob", "birth date", "birthdate"] },
+  { field: "gender", label: "Gender", aliases: ["sex"] },
+  { field: "blood_group", label: "Blood Group", aliases: ["blood type"] },
+  { field: "aadhar_number", label: "Aadhar Number", aliases: ["aadhar", "aadhaar", "aadhaar number"] },
+  { field: "emergency_contact", label: "Emergency Contact", aliases: ["emergency phone", "emergency number"] },
+  { field: "address_line1", label: "Address Line 1", aliases: ["address", "address 1", "street address"] },
+  { field: "address_line2", label: "Address Line 2", aliases: ["address 2"] },
+  { field: "area", label: "Area", aliases: ["locality"] },
+  { field: "city", label: "City", aliases: ["town"] },
+  { field: "state", label: "State", aliases: [] },
+  { field: "postal_code", label: "Postal Code", aliases: ["pincode", "pin code", "pin", "zip", "zip code"] },
+  { field: "allergies", label: "Allergies", aliases: [] },
+  { field: "chronic_conditions", label: "Chronic Conditions", aliases: ["conditions"] },
+  { field: "medications", label: "Medications", aliases: ["current medications"] },
+  { field: "previous_surgeries", label: "Previous Surgeries", aliases: ["surgeries"] },
+  { field: "family_history", label: "Family History", aliases: [] },
+  { field: "medical_notes", label: "Medical Notes", aliases: ["notes", "remarks"] },
+];
+
+// Column header in the file for each patient field
+export type PatientColumnMapping = Partial<Record<PatientImportField, string>>;
+
+export interface ParsedSheet {
+  headers: string[];
+  rows: Record<string, string>[];
+}
+
+export interface PatientImportRow {
+  rowNumber: number; // spreadsheet row, counting the header as row 1
+  raw: Record<string, string>;
+  data: CreatePatientProfileData | null;
+  errors: string[];
+}
+
+export const MAX_IMPORT_ROWS = 2000;
+
+const normalizeHeader = (header: string) =>
+  header.trim().toLowerCase().replace(/[_\s]+/g, " ");
+
+// Excel cells come back as numbers and dates; everything else as text
+const cellToString = (value: unknown): string => {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return format(value, "yyyy-MM-dd");
+  return String(value).trim();
+};
+
+const parseCsv = (file: File): Promise<ParsedSheet> =>
+  new Promise((resolve, reject) => {
+    Papa.parse<Record<string, string>>(file, {
+      header: true,
+      skipEmptyLines: "greedy",
+      transformHeader: (header) => header.trim(),
+      complete: (result) => {
+        resolve({
+          headers: (result.meta.fields || []).filter(Boolean),
+          rows: result.data.map((row) =>
+            Object.fromEntries(
+              Object.entries(row).map(([key, value]) => [key, cellToString(value)])
+            )
+          ),
+        });
+      },
+      error: (error) => reject(error),
+    });
+  });
+
+const parseWorkbook = async (file: File): Promise<ParsedSheet> => {
+  const workbook = XLSX.read(await file.arrayBuffer(), { cellDates: true });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) throw new Error("The workbook has no sheets");
+
+  const table = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, defval: "" });
+  const [headerRow = [], ...dataRows] = table;
+  const headers = headerRow.map(cellToString);
+
+  return {
+    headers: headers.filter(Boolean),
+    rows: dataRows
+      .filter((row) => row.some((cell) => cellToString(cell) !== ""))
+      .map((row) =>
+        Object.fromEntries(
+          headers.map((header, i) => [header, cellToString(row[i])]).filter(([header]) => header)
+        )
+      ),
+  };
+};
+
+/**
+ * Read the first sheet of a .csv, .xlsx or .xls file
+ */
+export const parsePatientFile = async (file: File): Promise<ParsedSheet> => {
+  const extension = file.name.split(".").pop()?.toLowerCase();
+
+  let sheet: ParsedSheet;
+  if (extension === "csv") {
+    sheet = await parseCsv(file);
+  } else if (extension === "xlsx" || extension === "xls") {
+    sheet = await parseWorkbook(file);
+  } else {
+    throw new Error("Upload a .csv, .xlsx or .xls file");
+  }
+
+  if (sheet.headers.length === 0 || sheet.rows.length === 0) {
+    throw new Error("The file has no patient rows");
+  }
+  if (sheet.rows.length > MAX_IMPORT_ROWS) {
+    throw new Error(`Import at most ${MAX_IMPORT_ROWS} patients at a time`);
+  }
+
+  return sheet;
+};
+
+/**
+ * Match file headers to patient fields by label, field name or alias
+ */
+export const guessColumnMapping = (headers: string[]): PatientColumnMapping => {
+  const mapping: PatientColumnMapping = {};
+
+  for (const { field, label, aliases } of PATIENT_IMPORT_FIELDS) {
+    const candidates = [normalizeHeader(label), normalizeHeader(field), ...aliases];
+    const header = headers.find((h) => candidates.includes(normalizeHeader(h)));
+    if (header) mapping[field] = header;
+  }
+
+  return mapping;
+};
+
+// Spaces, dashes, dots and brackets are dropped so "+91 98300-12345" matches
+export const normalizeImportPhone = (phone: string) => phone.replace(/[\s\-().]/g, "");
+
+const DATE_FORMATS = ["yyyy-MM-dd", "dd/MM/yyyy", "dd-MM-yyyy", "dd.MM.yyyy", "d/M/yyyy", "d-M-yyyy"];
+
+// yyyy-MM-dd, or undefined when the value is not a date in a known format
+const parseImportDate = (value: string): string | undefined => {
+  for (const dateFormat of DATE_FORMATS) {
+    const date = parse(value, dateFormat, new Date());
+    if (isValid(date) && date.getFullYear() > 1900) {
+      return format(date, "yyyy-MM-dd");
+    }
+  }
+  return undefined;
+};
+
+const GENDER_VALUES: Record<string, "male" | "female" | "other"> = {
+  m: "male",
+  male: "male",
+  f: "female",
+  female: "female",
+  o: "other",
+  other: "other",
+};
+
+const splitList = (value?: string) =>
+  value ? value.split(/[;\n]+/).map((s) => s.trim()).filter(Boolean) : [];
+
+/**
+ * Map and validate each row. Rows with errors keep data = null.
+ */
+export const validatePatientRows = (
+  sheet: ParsedSheet,
+  mapping: PatientColumnMapping
+): PatientImportRow[] =>
+  sheet.rows.map((raw, index) => {
+    const value = (field: PatientImportField) => {
+      const header = mapping[field];
+      return header ? (raw[header] ?? "").trim() : "";
+    };
+    const errors: string[] = [];
+
+    const dobText = value("date_of_birth");
+    const dateOfBirth = dobText ? parseImportDate(dobText) : undefined;
+    if (dobText && !dateOfBirth) {
+      errors.push(`Date of Birth: "${dobText}" is not a date (use YYYY-MM-DD or DD/MM/YYYY)`);
+    }
+
+    const genderText = value("gender").toLowerCase();
+    const gender = GENDER_VALUES[genderText];
+    if (genderText && !gender) {
+      errors.push(`Gender: "${value("gender")}" should be male, female or other`);
+    }
+
+    // Blank address columns are left out so the optional fields validate
+    const address = Object.fromEntries(
+      (["address_line1", "address_line2", "area", "city", "state", "postal_code"] as const)
+        .map((field) => [field, value(field)])
+        .filter(([, text]) => text)
+    );
+    const hasAddress = Object.keys(address).length > 0;
+
+    const formData = {
+      full_name: value("full_name"),
+      phone: normalizeImportPhone(value("phone")),
+      email: value("email").toLowerCase(),
+      aadhar_number: value("aadhar_number").replace(/\s/g, ""),
+      blood_group: value("blood_group").toUpperCase().replace(/\s/g, "") || undefined,
+      gender,
+      date_of_birth: dateOfBirth,
+      emergency_contact: value("emergency_contact"),
+      medical_notes: value("medical_notes"),
+      allergies: value("allergies"),
+      chronic_conditions: value("chronic_conditions"),
+      medications: value("medications"),
+      previous_surgeries: value("previous_surgeries"),
+      family_history: value("family_history"),
+      primary_address: address,
+    };
+
+    const result = patientFormSchema.safeParse(formData);
+    if (!result.success) {
+      const labels = Object.fromEntries(
+        PATIENT_IMPORT_FIELDS.map(({ field, label }) => [field, label])
+      );
+      for (const issue of result.error.issues) {
+        const field = String(issue.path[issue.path.length - 1] ?? "");
+        errors.push(`${labels[field] || field}: ${issue.message}`);
+      }
+    }
+
+    const data: CreatePatientProfileData | null = errors.length
+      ? null
+      : {
+          full_name: formData.full_name,
+          phone: formData.phone,
+          email: formData.email || undefined,
+          date_of_birth: formData.date_of_birth,
+          gender: formData.gender,
+          blood_group: formData.blood_group,
+          aadhar_number: formData.aadhar_number || undefined,
+          emergency_contact: formData.emergency_contact || undefined,
+          primary_address: hasAddress ? { ...address, country: "India" } : undefined,
+          allergies: splitList(formData.allergies),
+          chronic_conditions: splitList(formData.chronic_conditions),
+          medications: splitList(formData.medications),
+          previous_surgeries: splitList(formData.previous_surgeries),
+          family_history: formData.family_history || undefined,
+          medical_notes: formData.medical_notes || undefined,
+        };
+
+    return { rowNumber: index + 2, raw, data, errors };
+  });
+
+/**
+ * Download the rows that were not imported, with the original columns and
+ * the reason, so they can be fixed and uploaded again
+ */
+export const downloadImportErrorReport = (
+  headers: string[],
+  rows: { rowNumber: number; raw: Record<string, string>; outcome: string; message: string }[],
+  filename = "patient-import-errors.csv"
+) => {
+  const columns: CsvColumn<(typeof rows)[number]>[] = [
+    { header: "Row", value: (row) => row.rowNumber },
+    { header: "Outcome", value: (row) => row.outcome },
+    { header: "Reason", value: (row) => row.message },
+    ...headers.map((header) => ({ header, value: (row: (typeof rows)[number]) => row.raw[header] })),
+  ];
+
+  downloadCsv(filename, toCsv(rows, columns));
+};
@@ -0,0 +1,484 @@
+/**
+ * Reports export
+ * PDF (charts as images, clinic logo) and multi-sheet Excel exports of every
+ * Reports section for the selected date range
+ */
+import jsPDF from "jspdf";
+import autoTable from "jspdf-autotable";
+import * as XLSX from "xlsx";
+import { format } from "date-fns";
+import type {
+  DoctorPerformance,
+  ReportBreakdownRow,
+  ReportSeriesPoint,
+  ReportSummary,
+  WaitTimeAnalytics,
+} from "../services/ReportsService";
+import {
+  formatReportPeriod,
+  formatReportRange,
+  ReportInterval,
+  ReportRange,
+} from "./reportUtils";
+import { fetchImageAsBase64, lastAutoTableY } from "./generatePrescriptionPDF";
+import { escapeFormula } from "./csvExport";
+
+export interface ReportChartImage {
+  title: string;
+  image: string;
+  width: number;
+  height: number;
+}
+
+export interface ReportExportData {
+  clinicName: string;
+  logoUrl?: string | null;
+  range: ReportRange;
+  previousRange?: ReportRange;
+  summary: ReportSummary;
+  previousSummary?: ReportSummary;
+  interval: ReportInterval;
+  series: ReportSeriesPoint[];
+  breakdownLabel: string;
+  breakdown: ReportBreakdownRow[];
+  doctorPerformance: DoctorPerformance[];
+  waitTimes?: WaitTimeAnalytics | null;
+  charts?: ReportChartImage[];
+}
+
+type Cell = string | number | null;
+
+// jsPDF's built-in fonts have no ₹ glyph, so the PDF uses "Rs."
+const formatAmount = (value: number) => `Rs. ${value.toFixed(2)}`;
+const orDash = (value: number | null, suffix = "") =>
+  value === null ? "-" : `${value}${suffix}`;
+
+/**
+ * Render a Recharts chart (the first SVG inside the container) to a PNG data
+ * URL. HTML legends and tooltips are not part of the SVG and are left out.
+ */
+export const chartToImage = async (
+  container: HTMLElement | null
+): Promise<Omit<ReportChartImage, "title"> | null> => {
+  const svg = container?.querySelector("svg.recharts-surface") as SVGSVGElement | null;
+  if (!svg) return null;
+
+  const { width, height } = svg.getBoundingClientRect();
+  if (!width || !height) return null;
+
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute("xmlns", "http://www.w3.org/2000/svg");
+  clone.setAttribute("width", String(width));
+  clone.setAttribute("height", String(height));
+
+  const svgUrl =
+    "data:image/svg+xml;charset=utf-8," +
+    encodeURIComponent(new XMLSerializer().serializeToString(clone));
+
+  const image = new Image();
+  await new Promise<void>((resolve, reject) => {
+    image.onload = () => resolve();
+    image.onerror = reject;
+    image.src = svgUrl;
+  });
+
+  // Twice the on-screen size so the chart stays sharp in print
+  const scale = 2;
+  const canvas = document.createElement("canvas");
+  canvas.width = width * scale;
+  canvas.height = height * scale;
+  const context = canvas.getContext("2d");
+  if (!context) return null;
+
+  context.fillStyle = "#ffffff";
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  return { image: canvas.toDataURL("image/png"), width, height };
+};
+
+// ============================================================================
+// Shared table content (used by both PDF and Excel)
+// ============================================================================
+
+const summaryRows = (data: ReportExportData): Cell[][] => {
+  const { summary, previousSummary } = data;
+  const rows: [string, number, number | undefined][] = [
+    ["Total Appointments", summary.appointments.total, previousSummary?.appointments.total],
+    ["Completed", summary.appointments.completed, previousSummary?.appointments.completed],
+    ["Cancelled", summary.appointments.cancelled, previousSummary?.appointments.cancelled],
+    ["No Show", summary.appointments.noShow, previousSummary?.appointments.noShow],
+    ["Total Revenue", summary.revenue.total, previousSummary?.revenue.total],
+    ["Paid Amount", summary.revenue.paid, previousSummary?.revenue.paid],
+    ["Pending Amount", summary.revenue.pending, previousSummary?.revenue.pending],
+    ["Overdue Amount", summary.revenue.overdue, previousSummary?.revenue.overdue],
+    ["Credit Notes", summary.revenue.credited, previousSummary?.revenue.credited],
+    ["Refunded", summary.revenue.refunded, previousSummary?.revenue.refunded],
+    ["Active Patients", summary.patients.total, undefined],
+    ["New Patients", summary.patients.new, previousSummary?.patients.new],
+    ["Returning Patients", summary.patients.returning, previousSummary?.patients.returning],
+    ["Active Doctors", summary.doctors.total, undefined],
+    [
+      "Avg. Appointments per Doctor",
+      summary.doctors.averageAppointments,
+      previousSummary?.doctors.averageAppointments,
+    ],
+  ];
+
+  return rows.map(([label, current, previous]) =>
+    previousSummary ? [label, current, previous ?? null] : [label, current]
+  );
+};
+
+const summaryHeader = (data: ReportExportData): string[] =>
+  data.previousSummary && data.previousRange
+    ? ["Metric", formatReportRange(data.range), formatReportRange(data.previousRange)]
+    : ["Metric", formatReportRange(data.range)];
+
+const SERIES_HEADER = [
+  "Period",
+  "Appointments",
+  "Completed",
+  "Cancelled",
+  "No Show",
+  "Scheduled",
+  "Revenue",
+  "Paid",
+  "Pending",
+  "Overdue",
+];
+
+const seriesRows = (data: ReportExportData): Cell[][] =>
+  data.series.map((point) => [
+    formatReportPeriod(point.periodStart, data.interval),
+    point.appointments,
+    point.completed,
+    point.cancelled,
+    point.noShow,
+    point.scheduled,
+    point.revenue,
+    point.paid,
+    point.pending,
+    point.overdue,
+  ]);
+
+const breakdownHeader = (data: ReportExportData) => [
+  data.breakdownLabel,
+  "Appointments",
+  "Completed",
+  "Cancelled",
+  "No Show",
+  "Revenue",
+  "Paid",
+];
+
+const breakdownRows = (data: ReportExportData): Cell[][] =>
+  data.breakdown.map((row) => [
+    row.label,
+    row.appointments,
+    row.completed,
+    row.cancelled,
+    row.noShow,
+    row.revenue,
+    row.paid,
+  ]);
+
+const DOCTOR_HEADER = [
+  "Doctor",
+  "Department",
+  "Utilisation %",
+  "Seats Booked",
+  "Seat Capacity",
+  "Appointments",
+  "Completed",
+  "No-show Rate %",
+  "Avg. Consultation (min)",
+  "Revenue",
+  "Avg. Rating",
+  "Ratings",
+];
+
+const doctorRows = (data: ReportExportData): Cell[][] =>
+  data.doctorPerformance.map((row) => [
+    row.doctorName,
+    row.department || "",
+    row.utilisationPct,
+    row.slotBookings,
+    row.slotCapacity,
+    row.appointments,
+    row.completed,
+    row.noShowRate,
+    row.avgConsultationMinutes,
+    row.revenue,
+    row.averageRating,
+    row.ratingCount,
+  ]);
+
+const WAIT_DOCTOR_HEADER = [
+  "Doctor",
+  "Visits",
+  "Avg. Wait (min)",
+  "Median Wait (min)",
+  "Avg. Delay (min)",
+  "Longest Delay (min)",
+];
+
+const waitDoctorRows = (waitTimes: WaitTimeAnalytics): Cell[][] =>
+  waitTimes.byDoctor.map((row) => [
+    row.doctorName,
+    row.visits,
+    row.avgWait,
+    row.medianWait,
+    row.avgDelay,
+    row.maxDelay,
+  ]);
+
+const waitSummaryRows = (waitTimes: WaitTimeAnalytics): Cell[][] => [
+  ["Visits", waitTimes.summary.visits],
+  ["Avg. Wait (min)", waitTimes.summary.avgWait],
+  ["Median Wait (min)", waitTimes.summary.medianWait],
+  ["90th Percentile Wait (min)", waitTimes.summary.p90Wait],
+  ["Avg. Delay vs Booked (min)", waitTimes.summary.avgDelay],
+  ["Avg. Delay vs Estimate (min)", waitTimes.summary.avgEstimateGap],
+  ["Started On Time %", waitTimes.summary.onTimePct],
+];
+
+// ============================================================================
+// PDF
+// ============================================================================
+
+export async function generateReportPDF(data: ReportExportData): Promise<Blob> {
+  const doc = new jsPDF({
+    orientation: "portrait",
+    unit: "mm",
+    format: "a4",
+  });
+
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 15;
+  const contentWidth = pageWidth - 2 * margin;
+  let yPos = margin;
+
+  const primaryBlue: [number, number, number] = [59, 130, 246];
+  const lightBlue: [number, number, number] = [219, 234, 254];
+  const textDark: [number, number, number] = [30, 41, 59];
+  const textMuted: [number, number, number] = [100, 116, 139];
+
+  const ensureSpace = (height: number) => {
+    if (yPos + height > pageHeight - margin) {
+      doc.addPage();
+      yPos = margin;
+    }
+  };
+
+  const sectionTitle = (title: string) => {
+    ensureSpace(14);
+    doc.setFontSize(13);
+    doc.setTextColor(...primaryBlue);
+    doc.setFont("helvetica", "bold");
+    doc.text(title, margin, yPos);
+    yPos += 4;
+  };
+
+  const table = (head: string[], body: Cell[][], amountColumns: number[] = []) => {
+    autoTable(doc, {
+      startY: yPos,
+      head: [head],
+      body: body.map((row) =>
+        row.map((cell, index) =>
+          cell === null
+            ? "-"
+            : amountColumns.includes(index) && typeof cell === "number"
+              ? formatAmount(cell)
+              : String(cell)
+        )
+      ),
+      theme: "striped",
+      margin: { left: margin, right: margin },
+      headStyles: { fillColor: primaryBlue, fontSize: 9 },
+      bodyStyles: { fontSize: 8.5, textColor: textDark },
+    });
+    yPos = lastAutoTableY(doc) + 10;
+  };
+
+  // ===== HEADER =====
+  doc.setFillColor(...lightBlue);
+  doc.rect(0, 0, pageWidth, 32, "F");
+
+  let titleX = margin;
+  if (data.logoUrl) {
+    try {
+      const logo = await fetchImageAsBase64(data.logoUrl);
+      const logoFormat = logo.startsWith("data:image/png") ? "PNG" : "JPEG";
+      doc.addImage(logo, logoFormat, margin, 6, 20, 20, undefined, "FAST");
+      titleX = margin + 25;
+    } catch (error) {
+      // Still export without the logo
+      console.error("Error loading clinic logo:", error);
+    }
+  }
+
+  doc.setFontSize(18);
+  doc.setTextColor(...primaryBlue);
+  doc.setFont("helvetica", "bold");
+  doc.text(data.clinicName, titleX, 15);
+
+  doc.setFontSize(10);
+  doc.setTextColor(...textMuted);
+  doc.setFont("helvetica", "normal");
+  doc.text("Reports & Analytics", titleX, 21);
+  doc.text(`Period: ${formatReportRange(data.range)}`, titleX, 26);
+  doc.text(
+    `Generated ${format(new Date(), "MMM d, yyyy h:mm a")}`,
+    pageWidth - margin,
+    26,
+    { align: "right" }
+  );
+
+  yPos = 42;
+
+  // ===== SUMMARY =====
+  sectionTitle("Summary");
+  const summaryAmountRows = [4, 5, 6, 7];
+  table(
+    summaryHeader(data),
+    summaryRows(data).map((row, index) =>
+      summaryAmountRows.includes(index)
+        ? row.map((cell, column) =>
+            column > 0 && typeof cell === "number" ? formatAmount(cell) : cell
+          )
+        : row
+    )
+  );
+
+  // ===== CHARTS =====
+  for (const chart of data.charts || []) {
+    const height = (chart.height / chart.width) * contentWidth;
+    ensureSpace(height + 10);
+    doc.setFontSize(11);
+    doc.setTextColor(...textDark);
+    doc.setFont("helvetica", "bold");
+    doc.text(chart.title, margin, yPos);
+    yPos += 3;
+    doc.addImage(chart.image, "PNG", margin, yPos, contentWidth, height, undefined, "FAST");
+    yPos += height + 8;
+  }
+
+  // ===== TABLES =====
+  if (data.series.length > 0) {
+    sectionTitle("Trends");
+    table(SERIES_HEADER, seriesRows(data), [6, 7, 8, 9]);
+  }
+
+  if (data.breakdown.length > 0) {
+    sectionTitle(`By ${data.breakdownLabel}`);
+    table(breakdownHeader(data), breakdownRows(data), [5, 6]);
+  }
+
+  if (data.doctorPerformance.length > 0) {
+    sectionTitle("Doctor Utilisation");
+    table(
+      ["Doctor", "Utilisation", "Appointments", "Avg. Consult", "No-show", "Revenue", "Rating"],
+      data.doctorPerformance.map((row) => [
+        row.doctorName,
+        orDash(row.utilisationPct, "%"),
+        `${row.completed}/${row.appointments}`,
+        orDash(row.avgConsultationMinutes, " min"),
+        orDash(row.noShowRate, "%"),
+        row.revenue,
+        row.averageRating === null ? "-" : `${row.averageRating.toFixed(1)} (${row.ratingCount})`,
+      ]),
+      [5]
+    );
+  }
+
+  if (data.waitTimes && data.waitTimes.summary.visits > 0) {
+    sectionTitle("Patient Wait Times");
+    table(["Metric", "Value"], waitSummaryRows(data.waitTimes));
+    table(WAIT_DOCTOR_HEADER, waitDoctorRows(data.waitTimes));
+  }
+
+  // ===== FOOTER =====
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFontSize(8);
+    doc.setTextColor(...textMuted);
+    doc.setFont("helvetica", "normal");
+    doc.text(`Page ${page} of ${pageCount}`, pageWidth / 2, pageHeight - 8, {
+      align: "center",
+    });
+  }
+
+  return doc.output("blob");
+}
+
+// ============================================================================
+// Excel
+// ============================================================================
+
+const appendSheet = (
+  workbook: XLSX.WorkBook,
+  name: string,
+  header: string[],
+  rows: Cell[][]
+) => {
+  const sheet = XLSX.utils.aoa_to_sheet([
+    header,
+    ...rows.map((row) => row.map((cell) => escapeFormula(cell))),
+  ]);
+  sheet["!cols"] = header.map((title, index) => ({
+    wch: Math.max(
+      title.length,
+      ...rows.map((row) => String(row[index] ?? "").length)
+    ) + 2,
+  }));
+  XLSX.utils.book_append_sheet(workbook, sheet, name);
+};
+
+export function generateReportXLSX(data: ReportExportData): Blob {
+  const workbook = XLSX.utils.book_new();
+
+  appendSheet(workbook, "Summary", summaryHeader(data), summaryRows(data));
+  appendSheet(workbook, "Trends", SERIES_HEADER, seriesRows(data));
+  appendSheet(
+    workbook,
+    `By ${data.breakdownLabel}`.slice(0, 31),
+    breakdownHeader(data),
+    breakdownRows(data)
+  );
+  appendSheet(workbook, "Doctors", DOCTOR_HEADER, doctorRows(data));
+
+  if (data.waitTimes) {
+    appendSheet(
+      workbook,
+      "Wait Times",
+      ["Metric", "Value"],
+      waitSummaryRows(data.waitTimes)
+    );
+    appendSheet(workbook, "Wait Times by Doctor", WAIT_DOCTOR_HEADER, waitDoctorRows(data.waitTimes));
+    appendSheet(
+      workbook,
+      "Wait Times by Hour",
+      ["Hour", "Visits", "Avg. Wait (min)", "Avg. Delay (min)"],
+      data.waitTimes.byHour.map((row) => [
+        `${String(row.hour).padStart(2, "0")}:00`,
+        row.visits,
+        row.avgWait,
+        row.avgDelay,
+      ])
+    );
+    appendSheet(
+      workbook,
+      "Delay Distribution",
+      ["Delay", "Visits"],
+      data.waitTimes.distribution.map((row) => [row.bucket, row.visits])
+    );
+  }
+
+  const output = XLSX.write(workbook, { bookType: "xlsx", type: "array" });
+  return new Blob([output], {
+    type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  });
+}
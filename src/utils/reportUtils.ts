@@ -0,0 +1,152 @@
+/**
+ * Report date range helpers
+ * Ranges are inclusive IST calendar dates in yyyy-MM-dd form, the format the
+ * report_* RPCs take
+ */
+import {
+  addDays,
+  differenceInCalendarDays,
+  endOfMonth,
+  endOfQuarter,
+  endOfYear,
+  format,
+  parseISO,
+  startOfMonth,
+  startOfQuarter,
+  startOfYear,
+  subDays,
+  subMonths,
+} from "date-fns";
+import { extractISTDateForInput } from "./timezoneUtils";
+
+export type ReportRangePreset =
+  | "last7Days"
+  | "last30Days"
+  | "thisMonth"
+  | "lastMonth"
+  | "thisQuarter"
+  | "thisYear"
+  | "custom";
+
+export type ReportInterval = "day" | "week" | "month";
+
+export interface ReportRange {
+  startDate: string;
+  endDate: string;
+}
+
+export const REPORT_RANGE_OPTIONS: { value: ReportRangePreset; label: string }[] = [
+  { value: "last7Days", label: "Last 7 Days" },
+  { value: "last30Days", label: "Last 30 Days" },
+  { value: "thisMonth", label: "This Month" },
+  { value: "lastMonth", label: "Last Month" },
+  { value: "thisQuarter", label: "This Quarter" },
+  { value: "thisYear", label: "This Year" },
+  { value: "custom", label: "Custom Range" },
+];
+
+const toDateString = (date: Date): string => format(date, "yyyy-MM-dd");
+
+/**
+ * Resolve a preset (or a custom start/end) to a date range, relative to
+ * today in IST
+ */
+export const resolveReportRange = (
+  preset: ReportRangePreset,
+  custom?: Partial<ReportRange>
+): ReportRange => {
+  const today = parseISO(extractISTDateForInput(new Date().toISOString()));
+
+  switch (preset) {
+    case "last7Days":
+      return { startDate: toDateString(subDays(today, 6)), endDate: toDateString(today) };
+    case "last30Days":
+      return { startDate: toDateString(subDays(today, 29)), endDate: toDateString(today) };
+    case "thisMonth":
+      return {
+        startDate: toDateString(startOfMonth(today)),
+        endDate: toDateString(endOfMonth(today)),
+      };
+    case "lastMonth": {
+      const lastMonth = subMonths(today, 1);
+      return {
+        startDate: toDateString(startOfMonth(lastMonth)),
+        endDate: toDateString(endOfMonth(lastMonth)),
+      };
+    }
+    case "thisQuarter":
+      return {
+        startDate: toDateString(startOfQuarter(today)),
+        endDate: toDateString(endOfQuarter(today)),
+      };
+    case "thisYear":
+      return {
+        startDate: toDateString(startOfYear(today)),
+        endDate: toDateString(endOfYear(today)),
+      };
+    case "custom":
+      return {
+        startDate: custom?.startDate || toDateString(subDays(today, 29)),
+        endDate: custom?.endDate || toDateString(today),
+      };
+  }
+};
+
+/**
+ * The range of the same length immediately before the given one
+ */
+export const getPreviousReportRange = (range: ReportRange): ReportRange => {
+  const start = parseISO(range.startDate);
+  const days = differenceInCalendarDays(parseISO(range.endDate), start) + 1;
+
+  return {
+    startDate: toDateString(subDays(start, days)),
+    endDate: toDateString(subDays(start, 1)),
+  };
+};
+
+/**
+ * Pick a sensible grouping for a range so charts stay readable
+ */
+export const getDefaultReportInterval = (range: ReportRange): ReportInterval => {
+  const days =
+    differenceInCalendarDays(parseISO(range.endDate), parseISO(range.startDate)) + 1;
+
+  if (days <= 31) return "day";
+  if (days <= 120) return "week";
+  return "month";
+};
+
+/**
+ * Chart axis label for a time series bucket
+ */
+export const formatReportPeriod = (
+  periodStart: string,
+  interval: ReportInterval
+): string => {
+  const date = parseISO(periodStart);
+
+  switch (interval) {
+    case "day":
+      return format(date, "MMM dd");
+    case "week":
+      return `${format(date, "MMM dd")} - ${format(addDays(date, 6), "MMM dd")}`;
+    case "month":
+      return format(date, "MMM yyyy");
+  }
+};
+
+export const formatReportRange = (range: ReportRange): string =>
+  `${format(parseISO(range.startDate), "MMMM d, yyyy")} - ${format(
+    parseISO(range.endDate),
+    "MMMM d, yyyy"
+  )}`;
+
+/**
+ * Percentage change from the previous period, or null when there was nothing
+ * to compare against
+ */
+export const getPercentChange = (current: number, previous: number): number | null => {
+  if (!previous) return null;
+  return Math.round(((current - previous) / previous) * 1000) / 10;
+};
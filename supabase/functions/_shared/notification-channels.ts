@@ -0,0 +1,155 @@
+// Channel adapters shared by the notification edge functions
+// NOTIFICATION_TRANSPORT=local swaps every provider for a console/file transport
+// so notifications can be exercised without live Resend or SMS credentials
+
+import { Resend } from "https://esm.sh/resend@6.1.0";
+
+export type NotificationChannel = "email" | "sms";
+
+export const NOTIFICATION_CHANNELS: readonly NotificationChannel[] = ["email", "sms"];
+
+export const escapeHtml = (value: unknown) =>
+  String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+export interface OutgoingMessage {
+  to: string;
+  subject?: string;
+  html?: string;
+  text: string;
+  attachments?: { filename: string; content: string }[]; // base64 content
+}
+
+export interface DeliveryResult {
+  channel: NotificationChannel;
+  to: string;
+  status: "sent" | "failed" | "skipped";
+  providerMessageId?: string;
+  error?: string;
+}
+
+export interface ChannelAdapter {
+  channel: NotificationChannel;
+  send(message: OutgoingMessage): Promise<DeliveryResult>;
+}
+
+// Email via Resend
+class ResendEmailAdapter implements ChannelAdapter {
+  channel: NotificationChannel = "email";
+  private client: Resend;
+
+  constructor(apiKey: string, private from: string) {
+    this.client = new Resend(apiKey);
+  }
+
+  async send(message: OutgoingMessage): Promise<DeliveryResult> {
+    const { data, error } = await this.client.emails.send({
+      from: this.from,
+      to: message.to,
+      subject: message.subject ?? "Notification",
+      html: message.html ?? `<p>${escapeHtml(message.text)}</p>`,
+      text: message.text,
+      attachments: message.attachments,
+    });
+
+    if (error) {
+      return { channel: this.channel, to: message.to, status: "failed", error: error.message };
+    }
+    return { channel: this.channel, to: message.to, status: "sent", providerMessageId: data?.id };
+  }
+}
+
+// SMS via the Twilio REST API
+class TwilioSmsAdapter implements ChannelAdapter {
+  channel: NotificationChannel = "sms";
+
+  constructor(
+    private accountSid: string,
+    private authToken: string,
+    private from: string
+  ) {}
+
+  async send(message: OutgoingMessage): Promise<DeliveryResult> {
+    const response = await fetch(
+      `https://api.twilio.com/2010-04-01/Accounts/${this.accountSid}/Messages.json`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Basic ${btoa(`${this.accountSid}:${this.authToken}`)}`,
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+        body: new URLSearchParams({
+          From: this.from,
+          To: message.to,
+          Body: message.text,
+        }),
+      }
+    );
+
+    const result = await response.json();
+    if (!response.ok) {
+      return {
+        channel: this.channel,
+        to: message.to,
+        status: "failed",
+        error: result?.message ?? `HTTP ${response.status}`,
+      };
+    }
+    return { channel: this.channel, to: message.to, status: "sent", providerMessageId: result?.sid };
+  }
+}
+
+// Local transport: logs every message and optionally appends it to a JSONL file
+class LocalAdapter implements ChannelAdapter {
+  constructor(public channel: NotificationChannel, private logFile?: string) {}
+
+  async send(message: OutgoingMessage): Promise<DeliveryResult> {
+    const entry = {
+      channel: this.channel,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      attachments: message.attachments?.map((a) => a.filename),
+      timestamp: new Date().toISOString(),
+    };
+
+    console.log(`LOCAL_${this.channel.toUpperCase()}:`, JSON.stringify(entry));
+
+    if (this.logFile) {
+      await Deno.writeTextFile(this.logFile, JSON.stringify(entry) + "\n", { append: true });
+    }
+
+    return {
+      channel: this.channel,
+      to: message.to,
+      status: "sent",
+      providerMessageId: `local-${crypto.randomUUID()}`,
+    };
+  }
+}
+
+/**
+ * Build the adapter for a channel from the function's environment.
+ * Returns null when the provider is not configured.
+ */
+export function createChannelAdapter(channel: NotificationChannel): ChannelAdapter | null {
+  if (Deno.env.get("NOTIFICATION_TRANSPORT") === "local") {
+    return new LocalAdapter(channel, Deno.env.get("NOTIFICATION_LOG_FILE") ?? undefined);
+  }
+
+  if (channel === "email") {
+    const apiKey = Deno.env.get("RESEND_API_KEY");
+    const from = Deno.env.get("NOTIFICATION_FROM_EMAIL");
+    return apiKey && from ? new ResendEmailAdapter(apiKey, from) : null;
+  }
+
+  const accountSid = Deno.env.get("TWILIO_ACCOUNT_SID");
+  const authToken = Deno.env.get("TWILIO_AUTH_TOKEN");
+  const from = Deno.env.get("TWILIO_FROM_NUMBER");
+  return accountSid && authToken && from
+    ? new TwilioSmsAdapter(accountSid, authToken, from)
+    : null;
+}
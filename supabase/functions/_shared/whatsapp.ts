@@ -0,0 +1,68 @@
+// WhatsApp Cloud API delivery used by queue-processor
+// Credentials live in the function secrets, never in the client bundle
+
+const WHATSAPP_API_URL = "https://graph.facebook.com/v22.0";
+
+export interface WhatsAppTemplate {
+  name: string;
+  language: { code: string };
+  components: unknown[];
+}
+
+export interface WhatsAppSendResult {
+  ok: boolean;
+  messageId?: string;
+  error?: string;
+  retryable: boolean;
+}
+
+/**
+ * Send a template message. Rate limits, provider 5xx and network errors are
+ * reported as retryable; other 4xx responses are permanent failures.
+ */
+export async function sendWhatsAppTemplate(
+  to: string,
+  template: WhatsAppTemplate
+): Promise<WhatsAppSendResult> {
+  const phoneNumberId = Deno.env.get("WHATSAPP_PHONE_NUMBER_ID");
+  const accessToken = Deno.env.get("WHATSAPP_ACCESS_TOKEN");
+
+  if (Deno.env.get("NOTIFICATION_TRANSPORT") === "local") {
+    console.log("LOCAL_WHATSAPP:", JSON.stringify({ to, template: template.name }));
+    return { ok: true, messageId: `local-${crypto.randomUUID()}`, retryable: false };
+  }
+
+  if (!phoneNumberId || !accessToken) {
+    return { ok: false, error: "WhatsApp not configured", retryable: false };
+  }
+
+  try {
+    const response = await fetch(`${WHATSAPP_API_URL}/${phoneNumberId}/messages`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${accessToken}`,
+      },
+      body: JSON.stringify({
+        messaging_product: "whatsapp",
+        to,
+        type: "template",
+        template,
+      }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      return {
+        ok: false,
+        error: data?.error?.message ?? `HTTP ${response.status}`,
+        retryable: response.status === 429 || response.status >= 500,
+      };
+    }
+
+    return { ok: true, messageId: data?.messages?.[0]?.id, retryable: false };
+  } catch (error) {
+    return { ok: false, error: error.message, retryable: true };
+  }
+}
@@ -0,0 +1,203 @@
+// Inbound patient replies (WhatsApp Cloud API webhook and Twilio SMS webhook)
+// Handles the STOP / START keywords by updating the patient's channel consent.
+// Requests must carry a valid X-Hub-Signature-256 (Meta) or X-Twilio-Signature.
+// Stub: other replies are only logged.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+
+interface InboundMessage {
+  channel: "whatsapp" | "sms";
+  from: string;
+  body: string;
+}
+
+// The parts of a WhatsApp Cloud API webhook that carry patient replies
+interface WhatsAppWebhookPayload {
+  entry?: {
+    changes?: {
+      value?: {
+        messages?: {
+          from?: string;
+          text?: { body?: string };
+          button?: { text?: string };
+        }[];
+      };
+    }[];
+  }[];
+}
+
+const OPT_KEYWORDS = ["STOP", "UNSUBSCRIBE", "START", "SUBSCRIBE"];
+
+const encoder = new TextEncoder();
+
+async function hmac(
+  hash: "SHA-1" | "SHA-256",
+  secret: string,
+  data: string
+): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash },
+    false,
+    ["sign"]
+  );
+  return new Uint8Array(await crypto.subtle.sign("HMAC", key, encoder.encode(data)));
+}
+
+// Compares every character so the time taken does not leak the signature
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+// Meta: "sha256=" + hex HMAC-SHA256 of the raw body, keyed with the app secret
+async function verifyWhatsAppSignature(req: Request, rawBody: string): Promise<boolean> {
+  const appSecret = Deno.env.get("WHATSAPP_APP_SECRET");
+  const signature = req.headers.get("X-Hub-Signature-256");
+  if (!appSecret || !signature) return false;
+
+  const digest = Array.from(await hmac("SHA-256", appSecret, rawBody))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+  return timingSafeEqual(`sha256=${digest}`, signature);
+}
+
+// Twilio: base64 HMAC-SHA1 of the webhook URL followed by every POST
+// parameter name and value, sorted by name, keyed with the auth token
+async function verifyTwilioSignature(
+  req: Request,
+  params: URLSearchParams
+): Promise<boolean> {
+  const authToken = Deno.env.get("TWILIO_AUTH_TOKEN");
+  const signature = req.headers.get("X-Twilio-Signature");
+  if (!authToken || !signature) return false;
+
+  // The URL configured in Twilio; behind the Supabase gateway req.url can differ
+  const url = Deno.env.get("MESSAGE_WEBHOOK_URL") ?? req.url;
+  const signed = [...params.entries()]
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .reduce((data, [name, value]) => data + name + value, url);
+
+  const digest = btoa(String.fromCharCode(...await hmac("SHA-1", authToken, signed)));
+  return timingSafeEqual(digest, signature);
+}
+
+// WhatsApp Cloud API: entry[].changes[].value.messages[]
+function parseWhatsAppPayload(payload: WhatsAppWebhookPayload): InboundMessage[] {
+  const messages: InboundMessage[] = [];
+
+  for (const entry of payload?.entry ?? []) {
+    for (const change of entry?.changes ?? []) {
+      for (const message of change?.value?.messages ?? []) {
+        const body = message?.text?.body ?? message?.button?.text ?? "";
+        if (message?.from && body) {
+          messages.push({ channel: "whatsapp", from: message.from, body });
+        }
+      }
+    }
+  }
+
+  return messages;
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  const url = new URL(req.url);
+
+  // Meta webhook verification handshake
+  if (req.method === "GET") {
+    const verifyToken = Deno.env.get("WHATSAPP_WEBHOOK_VERIFY_TOKEN");
+    if (
+      url.searchParams.get("hub.mode") === "subscribe" &&
+      verifyToken &&
+      url.searchParams.get("hub.verify_token") === verifyToken
+    ) {
+      return new Response(url.searchParams.get("hub.challenge") ?? "", { status: 200 });
+    }
+    return new Response("Forbidden", { status: 403 });
+  }
+
+  try {
+    const contentType = req.headers.get("content-type") ?? "";
+    const isTwilio = contentType.includes("application/x-www-form-urlencoded");
+
+    // Signatures are computed over the raw body, so read it once as text
+    const rawBody = await req.text();
+    const params = isTwilio ? new URLSearchParams(rawBody) : null;
+
+    const verified = params
+      ? await verifyTwilioSignature(req, params)
+      : await verifyWhatsAppSignature(req, rawBody);
+    if (!verified) {
+      console.warn(`WEBHOOK_SIGNATURE_REJECTED: channel=${isTwilio ? "sms" : "whatsapp"}`);
+      return new Response("Forbidden", { status: 403 });
+    }
+
+    let messages: InboundMessage[];
+    if (params) {
+      messages = [{
+        channel: "sms",
+        from: params.get("From") ?? "",
+        body: params.get("Body") ?? "",
+      }];
+    } else {
+      messages = parseWhatsAppPayload(JSON.parse(rawBody));
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    for (const message of messages) {
+      const keyword = message.body.trim().toUpperCase();
+
+      if (!OPT_KEYWORDS.includes(keyword)) {
+        console.log(`INBOUND_MESSAGE: channel=${message.channel}, from=${message.from}`);
+        continue;
+      }
+
+      const { data: updated, error } = await supabaseClient.rpc("apply_message_keyword", {
+        p_phone: message.from,
+        p_channel: message.channel,
+        p_keyword: keyword,
+      });
+
+      if (error) {
+        console.error(`KEYWORD_FAILED: channel=${message.channel}, keyword=${keyword}, error=${error.message}`);
+      } else {
+        console.log(`KEYWORD_APPLIED: channel=${message.channel}, keyword=${keyword}, patients=${updated}`);
+      }
+    }
+
+    // Twilio expects TwiML; an empty response sends no auto-reply
+    if (isTwilio) {
+      return new Response("<Response></Response>", {
+        headers: { "Content-Type": "text/xml" },
+        status: 200,
+      });
+    }
+
+    // Meta retries anything other than a 200
+    return new Response(JSON.stringify({ received: messages.length }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 200,
+    });
+  } catch (error) {
+    console.error("Message webhook error:", error);
+    return new Response(JSON.stringify({ error: error.message }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 400,
+    });
+  }
+});
@@ -2,7 +2,8 @@
 // This runs as a Supabase Edge Function to process jobs reliably
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { sendWhatsAppTemplate } from "../_shared/whatsapp.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -27,6 +28,94 @@ interface PGMQMessage {
   message: any;
 }
 
+// WhatsApp retry policy: read_ct counts delivery attempts
+const WHATSAPP_MAX_ATTEMPTS = 5;
+const WHATSAPP_BASE_BACKOFF_SECONDS = 30;
+const WHATSAPP_MAX_BACKOFF_SECONDS = 3600;
+
+async function updateAppointmentWhatsAppStatus(
+  supabaseClient: SupabaseClient,
+  appointmentId: string | null,
+  status: "sent" | "retrying" | "failed",
+  error: string | null
+) {
+  if (!appointmentId) return;
+
+  await supabaseClient
+    .from("appointments")
+    .update({
+      whatsapp_status: status,
+      whatsapp_status_updated_at: new Date().toISOString(),
+      whatsapp_last_error: error,
+    })
+    .eq("id", appointmentId);
+}
+
+async function updateMessageLog(
+  supabaseClient: SupabaseClient,
+  message: PGMQMessage,
+  status: "sent" | "retrying" | "failed",
+  error: string | null,
+  providerMessageId?: string
+) {
+  const messageLogId: string | undefined = message.message.message_log_id;
+  if (!messageLogId) return;
+
+  await supabaseClient
+    .from("message_log")
+    .update({
+      status,
+      error,
+      attempts: message.read_ct,
+      provider_message_id: providerMessageId ?? null,
+      sent_at: status === "sent" ? new Date().toISOString() : null,
+    })
+    .eq("id", messageLogId);
+}
+
+/**
+ * Deliver one queued WhatsApp message. Failed attempts are retried with
+ * exponential backoff; permanent failures and exhausted retries are archived.
+ */
+async function processWhatsAppJob(
+  supabaseClient: SupabaseClient,
+  message: PGMQMessage
+): Promise<"sent" | "retrying" | "dead_letter"> {
+  const { to, template, appointment_id } = message.message;
+  const appointmentId: string | null = appointment_id ?? null;
+
+  const result = await sendWhatsAppTemplate(to, template);
+
+  if (result.ok) {
+    console.log(`WHATSAPP_SENT: template=${template.name}, msg_id=${message.msg_id}, provider_id=${result.messageId}, attempt=${message.read_ct}`);
+    await updateAppointmentWhatsAppStatus(supabaseClient, appointmentId, "sent", null);
+    await updateMessageLog(supabaseClient, message, "sent", null, result.messageId);
+    await supabaseClient.rpc("ack_notification_job", { p_msg_id: message.msg_id });
+    return "sent";
+  }
+
+  if (result.retryable && message.read_ct < WHATSAPP_MAX_ATTEMPTS) {
+    const delay = Math.min(
+      WHATSAPP_BASE_BACKOFF_SECONDS * 2 ** (message.read_ct - 1),
+      WHATSAPP_MAX_BACKOFF_SECONDS
+    );
+    console.warn(`WHATSAPP_RETRY: template=${template.name}, msg_id=${message.msg_id}, attempt=${message.read_ct}, next_in=${delay}s, error=${result.error}`);
+    await updateAppointmentWhatsAppStatus(supabaseClient, appointmentId, "retrying", result.error ?? null);
+    await updateMessageLog(supabaseClient, message, "retrying", result.error ?? null);
+    await supabaseClient.rpc("retry_notification_job", {
+      p_msg_id: message.msg_id,
+      p_delay_seconds: delay,
+    });
+    return "retrying";
+  }
+
+  console.error(`WHATSAPP_DEAD_LETTER: template=${template.name}, msg_id=${message.msg_id}, attempt=${message.read_ct}, error=${result.error}`);
+  await updateAppointmentWhatsAppStatus(supabaseClient, appointmentId, "failed", result.error ?? null);
+  await updateMessageLog(supabaseClient, message, "failed", result.error ?? null);
+  await supabaseClient.rpc("archive_notification_job", { p_msg_id: message.msg_id });
+  return "dead_letter";
+}
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === "OPTIONS") {
@@ -61,6 +150,9 @@ serve(async (req) => {
       processingTime: 0,
       pgmqJobsProcessed: 0,
       pgmqNotificationsProcessed: 0,
+      whatsappSent: 0,
+      whatsappRetried: 0,
+      whatsappDeadLettered: 0,
     };
 
     // Process queue recalculation jobs
@@ -144,65 +236,77 @@ serve(async (req) => {
     }
 
     // Process notification queue
+    // queue_notifications is always drained: WhatsApp messages are enqueued
+    // there by the client (enqueue_whatsapp_message) regardless of the flag
     if (
       config.enableNotifications &&
       Date.now() - startTime < config.maxProcessingTime
     ) {
-      if (config.usePGMQ) {
-        // Use PGMQ for notifications
-        try {
-          const { data: messages, error: readError } = await supabaseClient.rpc(
-            "read_notification_jobs",
-            { 
-              p_limit: config.batchSize, 
-              p_vt_seconds: config.visibilityTimeout 
-            }
-          );
+      try {
+        const { data: messages, error: readError } = await supabaseClient.rpc(
+          "read_notification_jobs",
+          { 
+            p_limit: config.batchSize, 
+            p_vt_seconds: config.visibilityTimeout 
+          }
+        );
 
-          if (readError) {
-            results.errors.push(`PGMQ notification read error: ${readError.message}`);
-          } else if (messages && messages.length > 0) {
-            console.log(`Processing ${messages.length} notification jobs from PGMQ`);
-            
-            for (const message of messages as PGMQMessage[]) {
-              try {
-                const notificationData = message.message;
-                
-                console.log(`Processing notification:`, notificationData);
-                
-                // Call the notification service
-                const { data: notificationResult, error: notificationError } =
-                  await supabaseClient.rpc("process_notification_queue", {
-                    p_batch_size: 1,
-                    p_notification_data: notificationData
-                  });
-
-                if (notificationError) {
-                  console.error(`Notification processing failed:`, notificationError);
-                  results.errors.push(`Notification processing failed: ${notificationError.message}`);
-                  
-                  // Archive the failed message
-                  await supabaseClient.rpc("archive_notification_job", { p_msg_id: message.msg_id });
-                } else {
-                  console.log(`Notification processing successful:`, notificationResult);
-                  results.pgmqNotificationsProcessed++;
-                  
-                  // Acknowledge the message
-                  await supabaseClient.rpc("ack_notification_job", { p_msg_id: message.msg_id });
+        if (readError) {
+          results.errors.push(`PGMQ notification read error: ${readError.message}`);
+        } else if (messages && messages.length > 0) {
+          console.log(`Processing ${messages.length} notification jobs from PGMQ`);
+          
+          for (const message of messages as PGMQMessage[]) {
+            try {
+              const notificationData = message.message;
+
+              if (notificationData?.channel === "whatsapp") {
+                const outcome = await processWhatsAppJob(supabaseClient, message);
+                if (outcome === "sent") results.whatsappSent++;
+                if (outcome === "retrying") results.whatsappRetried++;
+                if (outcome === "dead_letter") {
+                  results.whatsappDeadLettered++;
+                  results.errors.push(`WhatsApp message ${message.msg_id} moved to dead letter queue`);
                 }
-              } catch (error) {
-                console.error(`Error processing notification message ${message.msg_id}:`, error);
-                results.errors.push(`Notification message processing error: ${error.message}`);
+                continue;
+              }
+              
+              console.log(`Processing notification:`, notificationData);
+              
+              // Call the notification service
+              const { data: notificationResult, error: notificationError } =
+                await supabaseClient.rpc("process_notification_queue", {
+                  p_batch_size: 1,
+                  p_notification_data: notificationData
+                });
+
+              if (notificationError) {
+                console.error(`Notification processing failed:`, notificationError);
+                results.errors.push(`Notification processing failed: ${notificationError.message}`);
                 
                 // Archive the failed message
                 await supabaseClient.rpc("archive_notification_job", { p_msg_id: message.msg_id });
+              } else {
+                console.log(`Notification processing successful:`, notificationResult);
+                results.pgmqNotificationsProcessed++;
+                
+                // Acknowledge the message
+                await supabaseClient.rpc("ack_notification_job", { p_msg_id: message.msg_id });
               }
+            } catch (error) {
+              console.error(`Error processing notification message ${message.msg_id}:`, error);
+              results.errors.push(`Notification message processing error: ${error.message}`);
+              
+              // Archive the failed message
+              await supabaseClient.rpc("archive_notification_job", { p_msg_id: message.msg_id });
             }
           }
-        } catch (error) {
-          results.errors.push(`PGMQ notification processing exception: ${error.message}`);
         }
-      } else {
+      } catch (error) {
+        results.errors.push(`PGMQ notification processing exception: ${error.message}`);
+      }
+
+      if (!config.usePGMQ) {
         // Legacy notification processing (fallback)
         try {
           const { data: notificationResult, error: notificationError } =
@@ -0,0 +1,247 @@
+// Patient notification dispatcher invoked by NotificationService
+// Resolves patient contact details and delivers through the email/SMS channel adapters,
+// skipping channels the patient has opted out of (and SMS during quiet hours).
+// Callers must be signed in to a clinic, and may only notify that clinic's patients.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  createChannelAdapter,
+  NOTIFICATION_CHANNELS,
+  type ChannelAdapter,
+  type DeliveryResult,
+  type NotificationChannel,
+} from "../_shared/notification-channels.ts";
+import {
+  NOTIFICATION_EVENTS,
+  renderNotification,
+  type NotificationData,
+  type NotificationType,
+} from "./templates.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+interface SendNotificationRequest {
+  type: NotificationType;
+  event: string;
+  userId?: string; // patient_profiles.id
+  userIds?: string[];
+  data: NotificationData;
+  channels?: NotificationChannel[];
+}
+
+interface PatientContact {
+  id: string;
+  full_name: string | null;
+  email: string | null;
+  phone: string | null;
+  email_consent: boolean;
+  sms_consent: boolean;
+  quiet_hours_start: string | null;
+  quiet_hours_end: string | null;
+}
+
+// Quiet hours are stored as IST wall-clock times ("HH:MM:SS") and may wrap past midnight
+function isWithinQuietHours(patient: PatientContact, now = new Date()): boolean {
+  const { quiet_hours_start: start, quiet_hours_end: end } = patient;
+  if (!start || !end || start === end) return false;
+
+  const local = now.toLocaleTimeString("en-GB", { timeZone: "Asia/Kolkata", hour12: false });
+  return start < end ? local >= start && local < end : local >= start || local < end;
+}
+
+// Reason a channel may not be used for this patient, or null when it may
+function channelBlockReason(patient: PatientContact, channel: NotificationChannel): string | null {
+  if (channel === "email" && !patient.email_consent) return "Patient has opted out of email messages";
+  if (channel === "sms" && !patient.sms_consent) return "Patient has opted out of SMS messages";
+  if (channel === "sms" && isWithinQuietHours(patient)) return "Patient quiet hours";
+  return null;
+}
+
+// Patients in the list that are not linked to the clinic
+async function patientsOutsideClinic(
+  supabaseClient: SupabaseClient,
+  clinicId: string,
+  patientIds: string[]
+): Promise<string[]> {
+  const { data, error } = await supabaseClient
+    .from("clinic_patients")
+    .select("patient_profile_id")
+    .eq("clinic_id", clinicId)
+    .in("patient_profile_id", patientIds);
+
+  if (error) throw error;
+
+  const linked = new Set(
+    (data ?? []).map((row: { patient_profile_id: string }) => row.patient_profile_id)
+  );
+  return patientIds.filter((id) => !linked.has(id));
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status,
+  });
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const payload: SendNotificationRequest = await req.json();
+    const { type, event, data } = payload;
+    const channels = payload.channels?.length ? payload.channels : ["email" as const];
+    const patientIds = payload.userIds ?? (payload.userId ? [payload.userId] : []);
+
+    if (!type || !event || !data) {
+      return jsonResponse({ success: false, error: "type, event and data are required" }, 400);
+    }
+    if (!Object.keys(NOTIFICATION_EVENTS).includes(type)) {
+      return jsonResponse({ success: false, error: `Unknown notification type: ${type}` }, 400);
+    }
+    if (!NOTIFICATION_EVENTS[type].includes(event)) {
+      return jsonResponse({ success: false, error: `Unknown ${type} event: ${event}` }, 400);
+    }
+    if (!Array.isArray(channels)) {
+      return jsonResponse({ success: false, error: "channels must be a list" }, 400);
+    }
+    const unsupported = channels.filter((channel) => !NOTIFICATION_CHANNELS.includes(channel));
+    if (unsupported.length > 0) {
+      return jsonResponse(
+        { success: false, error: `Unsupported channels: ${unsupported.join(", ")}` },
+        400
+      );
+    }
+    if (patientIds.length === 0) {
+      return jsonResponse({ success: false, error: "userId or userIds is required" }, 400);
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL") ?? "";
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+    const authorization = req.headers.get("Authorization") ?? "";
+
+    const supabaseClient = createClient(supabaseUrl, serviceRoleKey);
+
+    // Anyone but the service role must be a member of the patients' clinic
+    if (authorization !== `Bearer ${serviceRoleKey}`) {
+      const userClient = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY") ?? "", {
+        global: { headers: { Authorization: authorization } },
+      });
+
+      const { data: clinicId, error: clinicError } = await userClient.rpc("current_clinic_id");
+      if (clinicError || !clinicId) {
+        return jsonResponse({ success: false, error: "Unauthorized" }, 401);
+      }
+
+      const outside = await patientsOutsideClinic(supabaseClient, clinicId, patientIds);
+      if (outside.length > 0) {
+        return jsonResponse(
+          { success: false, error: "Patients do not belong to this clinic", patientIds: outside },
+          403
+        );
+      }
+    }
+
+    const { data: patients, error: patientsError } = await supabaseClient
+      .from("patient_profiles")
+      .select("id, full_name, email, phone, email_consent, sms_consent, quiet_hours_start, quiet_hours_end")
+      .in("id", patientIds);
+
+    if (patientsError) throw patientsError;
+
+    const adapters = new Map<NotificationChannel, ChannelAdapter | null>(
+      channels.map((channel) => [channel, createChannelAdapter(channel)])
+    );
+
+    const results: (DeliveryResult & { patientId: string })[] = [];
+
+    for (const patient of (patients ?? []) as PatientContact[]) {
+      const message = renderNotification(type, event, data, patient.full_name ?? undefined);
+
+      for (const channel of channels) {
+        const to = channel === "email" ? patient.email : patient.phone;
+        const adapter = adapters.get(channel);
+        const blockReason = channelBlockReason(patient, channel);
+
+        if (blockReason) {
+          results.push({
+            patientId: patient.id,
+            channel,
+            to: to ?? "",
+            status: "skipped",
+            error: blockReason,
+          });
+          continue;
+        }
+
+        if (!to || !adapter) {
+          results.push({
+            patientId: patient.id,
+            channel,
+            to: to ?? "",
+            status: "skipped",
+            error: !to ? `No ${channel} on file` : `${channel} provider not configured`,
+          });
+          continue;
+        }
+
+        try {
+          const result = await adapter.send({
+            to,
+            subject: message.subject,
+            html: message.html,
+            text: channel === "sms" ? `${message.subject}: ${message.text}` : message.text,
+          });
+          results.push({ patientId: patient.id, ...result });
+        } catch (error) {
+          results.push({
+            patientId: patient.id,
+            channel,
+            to,
+            status: "failed",
+            error: error.message,
+          });
+        }
+      }
+    }
+
+    const missing = patientIds.filter(
+      (id) => !(patients ?? []).some((patient: PatientContact) => patient.id === id)
+    );
+    const sent = results.filter((r) => r.status === "sent").length;
+    const failed = results.filter((r) => r.status === "failed").length;
+
+    console.log(
+      `NOTIFICATION_DISPATCH: type=${type}, event=${event}, sent=${sent}, failed=${failed}, missing=${missing.length}, timestamp=${new Date().toISOString()}`
+    );
+
+    // Only report failure when nothing could be delivered at all
+    const success = failed === 0 || sent > 0;
+
+    return jsonResponse(
+      {
+        success,
+        timestamp: new Date().toISOString(),
+        results,
+        missingPatients: missing,
+      },
+      success ? 200 : 502
+    );
+  } catch (error) {
+    return jsonResponse(
+      {
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      },
+      500
+    );
+  }
+});
@@ -0,0 +1,175 @@
+// Message templates for the send-notification function
+// Payload shapes mirror src/services/NotificationService.ts
+
+import { escapeHtml } from "../_shared/notification-channels.ts";
+
+export type NotificationType = "appointment" | "billing" | "system";
+
+// Events each type can render; send-notification rejects anything else
+export const NOTIFICATION_EVENTS: Record<NotificationType, readonly string[]> = {
+  appointment: [
+    "requested",
+    "approved",
+    "rejected",
+    "checked-in",
+    "in-progress",
+    "completed",
+    "cancelled",
+    "rescheduled",
+  ],
+  billing: ["generated", "paid", "overdue", "reminder"],
+  system: ["emergency", "delay", "reminder", "update"],
+};
+
+// Fields the templates read; requests may carry others
+export interface NotificationData {
+  clinicName?: string;
+  doctorName?: string;
+  appointmentDateTime?: string;
+  rejectionReason?: string;
+  billNumber?: string;
+  totalAmount?: number;
+  dueDate?: string;
+  title?: string;
+  message?: string;
+  actionUrl?: string;
+  [key: string]: unknown;
+}
+
+export interface RenderedNotification {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+const formatDateTime = (value?: string) => {
+  if (!value) return "";
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return value;
+  return date.toLocaleString("en-IN", {
+    dateStyle: "medium",
+    timeStyle: "short",
+    timeZone: "Asia/Kolkata",
+  });
+};
+
+const formatAmount = (amount?: number) =>
+  `₹${Number(amount ?? 0).toFixed(2)}`;
+
+function renderAppointment(event: string, data: NotificationData): { subject: string; body: string } {
+  const when = formatDateTime(data.appointmentDateTime);
+  const clinicName = data.clinicName || "Clinic";
+  const withDoctor = `with Dr. ${data.doctorName || "Doctor"} at ${clinicName}`;
+
+  switch (event) {
+    case "requested":
+      return {
+        subject: `Appointment request received - ${clinicName}`,
+        body: `We have received your appointment request ${withDoctor} for ${when}. We will confirm it shortly.`,
+      };
+    case "approved":
+      return {
+        subject: `Appointment confirmed - ${clinicName}`,
+        body: `Your appointment ${withDoctor} is confirmed for ${when}.`,
+      };
+    case "rejected":
+      return {
+        subject: `Appointment request declined - ${clinicName}`,
+        body: `Your appointment request ${withDoctor} for ${when} could not be accepted.${
+          data.rejectionReason ? ` Reason: ${data.rejectionReason}.` : ""
+        }`,
+      };
+    case "checked-in":
+      return {
+        subject: `Checked in - ${clinicName}`,
+        body: `You are checked in for your appointment ${withDoctor}. Please wait to be called.`,
+      };
+    case "in-progress":
+      return {
+        subject: `Consultation started - ${clinicName}`,
+        body: `Your consultation ${withDoctor} has started.`,
+      };
+    case "completed":
+      return {
+        subject: `Thank you for visiting ${clinicName}`,
+        body: `Your appointment ${withDoctor} is complete. We wish you good health.`,
+      };
+    case "cancelled":
+      return {
+        subject: `Appointment cancelled - ${clinicName}`,
+        body: `Your appointment ${withDoctor} on ${when} has been cancelled.`,
+      };
+    case "rescheduled":
+      return {
+        subject: `Appointment rescheduled - ${clinicName}`,
+        body: `Your appointment ${withDoctor} has been moved to ${when}.`,
+      };
+    default:
+      throw new Error(`Unknown appointment event: ${event}`);
+  }
+}
+
+function renderBilling(event: string, data: NotificationData): { subject: string; body: string } {
+  const clinicName = data.clinicName || "Clinic";
+  const billNumber = data.billNumber ? ` ${data.billNumber}` : "";
+  const bill = `bill${billNumber} of ${formatAmount(data.totalAmount)}`;
+  const due = data.dueDate ? ` due on ${formatDateTime(data.dueDate).split(",")[0]}` : "";
+
+  switch (event) {
+    case "generated":
+      return {
+        subject: `New bill${billNumber} - ${clinicName}`,
+        body: `${clinicName} has generated ${bill}${due}.`,
+      };
+    case "paid":
+      return {
+        subject: `Payment received - ${clinicName}`,
+        body: `Thank you. We have received payment for ${bill}.`,
+      };
+    case "overdue":
+      return {
+        subject: `Payment overdue - ${clinicName}`,
+        body: `Your ${bill} is overdue. Please clear the balance at your earliest convenience.`,
+      };
+    case "reminder":
+      return {
+        subject: `Payment reminder - ${clinicName}`,
+        body: `This is a reminder that your ${bill} is pending${due}.`,
+      };
+    default:
+      throw new Error(`Unknown billing event: ${event}`);
+  }
+}
+
+function renderSystem(_event: string, data: NotificationData): { subject: string; body: string } {
+  return {
+    subject: `${data.title || "Update"} - ${data.clinicName || "Clinic"}`,
+    body: `${data.message ?? ""}${data.actionUrl ? `\n\n${data.actionUrl}` : ""}`,
+  };
+}
+
+/**
+ * Render the subject, plain text and HTML body for one recipient
+ */
+export function renderNotification(
+  type: NotificationType,
+  event: string,
+  data: NotificationData,
+  recipientName?: string
+): RenderedNotification {
+  const { subject, body } =
+    type === "appointment"
+      ? renderAppointment(event, data)
+      : type === "billing"
+      ? renderBilling(event, data)
+      : renderSystem(event, data);
+
+  const greeting = recipientName ? `Dear ${recipientName},` : "Hello,";
+  const text = `${greeting}\n\n${body}\n\n- ${data.clinicName ?? "Your clinic"}`;
+  const html = `<p>${escapeHtml(greeting)}</p>${body
+    .split("\n\n")
+    .map((paragraph) => `<p>${escapeHtml(paragraph)}</p>`)
+    .join("")}<p>- ${escapeHtml(data.clinicName ?? "Your clinic")}</p>`;
+
+  return { subject, text, html };
+}
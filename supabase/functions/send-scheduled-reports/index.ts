@@ -0,0 +1,339 @@
+// Scheduled report emails, called daily by pg_cron (see 20260104_report_subscriptions.sql)
+// Sends each active report_subscriptions row whose last completed week or month has
+// not been emailed yet. A POST with { subscriptionId } from the Reports page sends
+// that subscription's last period immediately, for any signed-in user who can see it.
+// Email goes through the shared Resend adapter; NOTIFICATION_TRANSPORT=local logs instead.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  createChannelAdapter,
+  type ChannelAdapter,
+  type DeliveryResult,
+} from "../_shared/notification-channels.ts";
+import {
+  renderReportEmail,
+  type BreakdownRow,
+  type DoctorPerformanceRow,
+  type ReportPeriod,
+  type ReportSection,
+  type ReportSummary,
+  type ScheduledReport,
+  type WaitTimes,
+} from "./templates.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+interface ReportSubscription {
+  id: string;
+  clinic_id: string;
+  name: string;
+  frequency: "weekly" | "monthly";
+  recipients: string[];
+  sections: ReportSection[];
+  is_active: boolean;
+  last_period_end: string | null;
+}
+
+interface SubscriptionResult {
+  subscriptionId: string;
+  period: ReportPeriod;
+  status: "sent" | "failed" | "skipped";
+  deliveries: DeliveryResult[];
+  error?: string;
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status,
+  });
+
+// Dates are IST calendar days, handled as UTC midnights to avoid DST/offset drift
+const toDateString = (date: Date) => date.toISOString().slice(0, 10);
+
+const addDays = (date: Date, days: number) =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + days));
+
+function todayInIST(): Date {
+  const [year, month, day] = new Date()
+    .toLocaleDateString("en-CA", { timeZone: "Asia/Kolkata" })
+    .split("-")
+    .map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+/**
+ * The last completed period before a day: Monday-Sunday of the previous week,
+ * or the previous calendar month
+ */
+function lastCompletedPeriod(frequency: "weekly" | "monthly", today: Date): ReportPeriod {
+  if (frequency === "weekly") {
+    const thisMonday = addDays(today, -((today.getUTCDay() + 6) % 7));
+    return {
+      startDate: toDateString(addDays(thisMonday, -7)),
+      endDate: toDateString(addDays(thisMonday, -1)),
+    };
+  }
+
+  const firstOfMonth = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), 1));
+  return {
+    startDate: toDateString(
+      new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth() - 1, 1))
+    ),
+    endDate: toDateString(addDays(firstOfMonth, -1)),
+  };
+}
+
+// The period before, for the comparison column
+function previousPeriod(frequency: "weekly" | "monthly", period: ReportPeriod): ReportPeriod {
+  return lastCompletedPeriod(frequency, new Date(`${period.startDate}T00:00:00Z`));
+}
+
+async function rpc<T>(client: SupabaseClient, name: string, params: Record<string, unknown>) {
+  const { data, error } = await client.rpc(name, params);
+  if (error) throw new Error(`${name}: ${error.message}`);
+  return data as T;
+}
+
+/**
+ * Fetch the sections a subscription asked for. The service-role client has no
+ * login, so every report_* function is given the subscription's clinic.
+ */
+async function buildReport(
+  client: SupabaseClient,
+  subscription: ReportSubscription,
+  period: ReportPeriod
+): Promise<ScheduledReport> {
+  const clinicId = subscription.clinic_id;
+  const previous = previousPeriod(subscription.frequency, period);
+  const range = { p_start: period.startDate, p_end: period.endDate, p_clinic_id: clinicId };
+  const has = (section: ReportSection) => subscription.sections.includes(section);
+
+  const [clinic, summary, previousSummary, doctors, departments, waitTimes] = await Promise.all([
+    client.from("clinic_profiles").select("clinic_name").eq("id", clinicId).maybeSingle(),
+    has("summary") ? rpc<ReportSummary>(client, "report_summary", range) : undefined,
+    has("summary")
+      ? rpc<ReportSummary>(client, "report_summary", {
+          p_start: previous.startDate,
+          p_end: previous.endDate,
+          p_clinic_id: clinicId,
+        })
+      : undefined,
+    has("doctors")
+      ? rpc<DoctorPerformanceRow[]>(client, "report_doctor_performance", { ...range, p_clinic_doctor_id: null })
+      : undefined,
+    has("departments")
+      ? rpc<BreakdownRow[]>(client, "report_breakdown", { ...range, p_dimension: "department" })
+      : undefined,
+    has("wait_times") ? rpc<WaitTimes>(client, "report_wait_times", range) : undefined,
+  ]);
+
+  const appUrl = Deno.env.get("APP_URL");
+
+  return {
+    clinicName: clinic.data?.clinic_name ?? "Your clinic",
+    frequency: subscription.frequency,
+    period,
+    previousPeriod: previous,
+    sections: subscription.sections,
+    summary,
+    previousSummary,
+    doctors,
+    departments,
+    waitTimes,
+    reportsUrl: appUrl ? `${appUrl.replace(/\/$/, "")}/admin/reports` : undefined,
+  };
+}
+
+async function sendReport(
+  client: SupabaseClient,
+  adapter: ChannelAdapter,
+  subscription: ReportSubscription,
+  period: ReportPeriod
+): Promise<SubscriptionResult> {
+  const report = await buildReport(client, subscription, period);
+  const message = renderReportEmail(report);
+  const deliveries: DeliveryResult[] = [];
+
+  for (const to of subscription.recipients) {
+    try {
+      deliveries.push(await adapter.send({ to, ...message }));
+    } catch (error) {
+      deliveries.push({ channel: "email", to, status: "failed", error: error.message });
+    }
+  }
+
+  const failures = deliveries.filter((d) => d.status === "failed");
+  return {
+    subscriptionId: subscription.id,
+    period,
+    status: failures.length === deliveries.length ? "failed" : "sent",
+    deliveries,
+    error: failures.length
+      ? failures.map((d) => `${d.to}: ${d.error ?? "failed"}`).join("; ")
+      : undefined,
+  };
+}
+
+/**
+ * Scheduled run: claim the period before sending so overlapping runs never
+ * send it twice, and release the claim if no recipient received it
+ */
+async function sendDue(
+  client: SupabaseClient,
+  adapter: ChannelAdapter,
+  subscription: ReportSubscription,
+  today: Date
+): Promise<SubscriptionResult> {
+  const period = lastCompletedPeriod(subscription.frequency, today);
+
+  if (subscription.last_period_end && subscription.last_period_end >= period.endDate) {
+    return { subscriptionId: subscription.id, period, status: "skipped", deliveries: [] };
+  }
+
+  const { data: claimed, error: claimError } = await client
+    .from("report_subscriptions")
+    .update({ last_period_end: period.endDate })
+    .eq("id", subscription.id)
+    .or(`last_period_end.is.null,last_period_end.lt.${period.endDate}`)
+    .select("id");
+
+  if (claimError) throw claimError;
+  if (!claimed?.length) {
+    return { subscriptionId: subscription.id, period, status: "skipped", deliveries: [] };
+  }
+
+  let result: SubscriptionResult;
+  try {
+    result = await sendReport(client, adapter, subscription, period);
+  } catch (error) {
+    result = { subscriptionId: subscription.id, period, status: "failed", deliveries: [], error: error.message };
+  }
+
+  await client
+    .from("report_subscriptions")
+    .update({
+      last_period_end: result.status === "failed" ? subscription.last_period_end : period.endDate,
+      last_sent_at: result.status === "sent" ? new Date().toISOString() : undefined,
+      last_error: result.error ?? null,
+    })
+    .eq("id", subscription.id);
+
+  return result;
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    const supabaseUrl = Deno.env.get("SUPABASE_URL") ?? "";
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+    const authorization = req.headers.get("Authorization") ?? "";
+
+    const supabaseClient = createClient(supabaseUrl, serviceRoleKey);
+
+    const adapter = createChannelAdapter("email");
+    if (!adapter) {
+      return jsonResponse({ success: false, error: "email provider not configured" }, 500);
+    }
+
+    const today = todayInIST();
+
+    // Send now: RLS on the caller's own client decides whether they may see it
+    if (body.subscriptionId) {
+      const userClient = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY") ?? "", {
+        global: { headers: { Authorization: authorization } },
+      });
+
+      const { data: subscription, error } = await userClient
+        .from("report_subscriptions")
+        .select("*")
+        .eq("id", body.subscriptionId)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!subscription) {
+        return jsonResponse({ success: false, error: "Report subscription not found" }, 404);
+      }
+
+      const result = await sendReport(
+        supabaseClient,
+        adapter,
+        subscription as ReportSubscription,
+        lastCompletedPeriod(subscription.frequency, today)
+      );
+
+      await supabaseClient
+        .from("report_subscriptions")
+        .update({
+          last_sent_at: result.status === "sent" ? new Date().toISOString() : undefined,
+          last_error: result.error ?? null,
+        })
+        .eq("id", subscription.id);
+
+      return jsonResponse(
+        { success: result.status === "sent", ...result },
+        result.status === "sent" ? 200 : 502
+      );
+    }
+
+    // Scheduled run: only the service role (the cron job) may send every clinic's reports
+    if (authorization !== `Bearer ${serviceRoleKey}`) {
+      return jsonResponse({ success: false, error: "Unauthorized" }, 401);
+    }
+
+    const { data: subscriptions, error: subscriptionsError } = await supabaseClient
+      .from("report_subscriptions")
+      .select("*")
+      .eq("is_active", true);
+
+    if (subscriptionsError) throw subscriptionsError;
+
+    const results: SubscriptionResult[] = [];
+    for (const subscription of (subscriptions ?? []) as ReportSubscription[]) {
+      try {
+        results.push(await sendDue(supabaseClient, adapter, subscription, today));
+      } catch (error) {
+        // One failing subscription must not stop the rest of the run
+        results.push({
+          subscriptionId: subscription.id,
+          period: lastCompletedPeriod(subscription.frequency, today),
+          status: "failed",
+          deliveries: [],
+          error: error.message,
+        });
+      }
+    }
+
+    const sent = results.filter((r) => r.status === "sent").length;
+    const failed = results.filter((r) => r.status === "failed").length;
+
+    console.log(
+      `SCHEDULED_REPORTS: subscriptions=${results.length}, sent=${sent}, failed=${failed}, timestamp=${new Date().toISOString()}`
+    );
+
+    return jsonResponse({
+      success: failed === 0,
+      timestamp: new Date().toISOString(),
+      results,
+    });
+  } catch (error) {
+    return jsonResponse(
+      {
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      },
+      500
+    );
+  }
+});
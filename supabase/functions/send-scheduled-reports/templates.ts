@@ -0,0 +1,265 @@
+// Email template for the send-scheduled-reports function
+// Report shapes mirror the report_* database functions (see src/services/ReportsService.ts)
+
+import { escapeHtml } from "../_shared/notification-channels.ts";
+
+export type ReportSection = "summary" | "doctors" | "departments" | "wait_times";
+
+export interface ReportPeriod {
+  startDate: string; // yyyy-MM-dd, inclusive
+  endDate: string;
+}
+
+export interface ReportSummary {
+  appointments: {
+    total: number;
+    completed: number;
+    cancelled: number;
+    no_show: number;
+    patients_seen: number;
+  };
+  revenue: {
+    total: number;
+    paid: number;
+    pending: number;
+    overdue: number;
+    refunded: number;
+  };
+  patients: { new: number };
+}
+
+export interface DoctorPerformanceRow {
+  doctor_name: string;
+  slot_count: number;
+  appointments: number;
+  completed: number;
+  utilisation_pct: number | null;
+  no_show_rate: number | null;
+  revenue: number;
+}
+
+export interface BreakdownRow {
+  group_label: string;
+  appointments: number;
+  completed: number;
+  no_show: number;
+  revenue: number;
+}
+
+export interface WaitTimes {
+  summary: {
+    visits: number;
+    avg_wait: number | null;
+    median_wait: number | null;
+    avg_delay: number | null;
+    on_time_pct: number | null;
+  };
+}
+
+export interface ScheduledReport {
+  clinicName: string;
+  frequency: "weekly" | "monthly";
+  period: ReportPeriod;
+  previousPeriod: ReportPeriod;
+  sections: ReportSection[];
+  summary?: ReportSummary;
+  previousSummary?: ReportSummary;
+  doctors?: DoctorPerformanceRow[];
+  departments?: BreakdownRow[];
+  waitTimes?: WaitTimes;
+  reportsUrl?: string;
+}
+
+export interface RenderedReport {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+const formatAmount = (amount: unknown) =>
+  `₹${Number(amount ?? 0).toLocaleString("en-IN", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+const formatDate = (value: string) =>
+  new Date(`${value}T00:00:00Z`).toLocaleDateString("en-IN", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+
+const formatPeriod = (period: ReportPeriod) =>
+  `${formatDate(period.startDate)} - ${formatDate(period.endDate)}`;
+
+const formatOptional = (value: unknown, suffix = "") =>
+  value === null || value === undefined ? "-" : `${value}${suffix}`;
+
+// Change against the previous period, e.g. "+12.5%"; "new" when the previous period was zero
+function formatChange(current: unknown, previous: unknown): string {
+  const now = Number(current ?? 0);
+  const before = Number(previous ?? 0);
+  if (before === 0) return now === 0 ? "0%" : "new";
+
+  const change = Math.round(((now - before) / before) * 1000) / 10;
+  return `${change > 0 ? "+" : ""}${change}%`;
+}
+
+interface Table {
+  title: string;
+  headers: string[];
+  rows: (string | number)[][];
+  note?: string;
+}
+
+function summaryTable(report: ScheduledReport): Table {
+  const current = report.summary;
+  const previous = report.previousSummary;
+  const metric = (
+    label: string,
+    pick: (summary?: ReportSummary) => unknown,
+    format: (value: unknown) => string = (value) => String(value ?? 0)
+  ) => [
+    label,
+    format(pick(current)),
+    format(pick(previous)),
+    formatChange(pick(current), pick(previous)),
+  ];
+
+  return {
+    title: "Summary",
+    headers: ["", "This period", "Previous period", "Change"],
+    rows: [
+      metric("Appointments", (s) => s?.appointments.total),
+      metric("Completed", (s) => s?.appointments.completed),
+      metric("Cancelled", (s) => s?.appointments.cancelled),
+      metric("No-shows", (s) => s?.appointments.no_show),
+      metric("Patients seen", (s) => s?.appointments.patients_seen),
+      metric("New patients", (s) => s?.patients.new),
+      metric("Revenue billed", (s) => s?.revenue.total, formatAmount),
+      metric("Collected", (s) => s?.revenue.paid, formatAmount),
+      metric("Outstanding", (s) => Number(s?.revenue.pending ?? 0) + Number(s?.revenue.overdue ?? 0), formatAmount),
+      metric("Refunded", (s) => s?.revenue.refunded, formatAmount),
+    ],
+    note: `Previous period: ${formatPeriod(report.previousPeriod)}`,
+  };
+}
+
+function doctorsTable(report: ScheduledReport): Table {
+  return {
+    title: "Doctors",
+    headers: ["Doctor", "Appointments", "Completed", "Utilisation", "No-show rate", "Revenue"],
+    rows: (report.doctors ?? [])
+      .filter((row) => row.appointments > 0 || row.slot_count > 0)
+      .map((row) => [
+        row.doctor_name,
+        row.appointments,
+        row.completed,
+        formatOptional(row.utilisation_pct, "%"),
+        formatOptional(row.no_show_rate, "%"),
+        formatAmount(row.revenue),
+      ]),
+  };
+}
+
+function departmentsTable(report: ScheduledReport): Table {
+  return {
+    title: "Departments",
+    headers: ["Department", "Appointments", "Completed", "No-shows", "Revenue"],
+    rows: (report.departments ?? []).map((row) => [
+      row.group_label,
+      row.appointments,
+      row.completed,
+      row.no_show,
+      formatAmount(row.revenue),
+    ]),
+  };
+}
+
+function waitTimesTable(report: ScheduledReport): Table {
+  const summary = report.waitTimes?.summary;
+  return {
+    title: "Patient Wait Times",
+    headers: ["Visits", "Avg. wait", "Median wait", "Avg. delay", "Started on time"],
+    rows: summary?.visits
+      ? [[
+          summary.visits,
+          formatOptional(summary.avg_wait, " min"),
+          formatOptional(summary.median_wait, " min"),
+          formatOptional(summary.avg_delay, " min"),
+          formatOptional(summary.on_time_pct, "%"),
+        ]]
+      : [],
+    note: "Wait is check-in to consultation start; delay is the booked time to consultation start.",
+  };
+}
+
+const SECTION_TABLES: Record<ReportSection, (report: ScheduledReport) => Table> = {
+  summary: summaryTable,
+  doctors: doctorsTable,
+  departments: departmentsTable,
+  wait_times: waitTimesTable,
+};
+
+function tableHtml(table: Table): string {
+  const cell = "padding:6px 10px;border-bottom:1px solid #e5e7eb;font-size:13px;";
+  const head = table.headers
+    .map((header, i) => `<th style="${cell}text-align:${i === 0 ? "left" : "right"};background:#f3f4f6;">${escapeHtml(header)}</th>`)
+    .join("");
+  const body = table.rows.length
+    ? table.rows
+        .map(
+          (row) =>
+            `<tr>${row
+              .map((value, i) => `<td style="${cell}text-align:${i === 0 ? "left" : "right"};">${escapeHtml(value)}</td>`)
+              .join("")}</tr>`
+        )
+        .join("")
+    : `<tr><td colspan="${table.headers.length}" style="${cell}color:#6b7280;">No activity in this period</td></tr>`;
+
+  return `<h3 style="margin:24px 0 8px;font-size:15px;color:#111827;">${escapeHtml(table.title)}</h3>
+<table style="border-collapse:collapse;width:100%;"><tr>${head}</tr>${body}</table>${
+    table.note ? `<p style="margin:6px 0 0;font-size:12px;color:#6b7280;">${escapeHtml(table.note)}</p>` : ""
+  }`;
+}
+
+function tableText(table: Table): string {
+  const lines = table.rows.length
+    ? table.rows.map((row) =>
+        row.map((value, i) => (table.headers[i] ? `${table.headers[i]}: ${value}` : value)).join(", ")
+      )
+    : ["No activity in this period"];
+  return [table.title.toUpperCase(), ...lines, ...(table.note ? [table.note] : [])].join("\n");
+}
+
+/**
+ * Render the subject, plain text and HTML body of a scheduled report
+ */
+export function renderReportEmail(report: ScheduledReport): RenderedReport {
+  const label = report.frequency === "weekly" ? "Weekly" : "Monthly";
+  const period = formatPeriod(report.period);
+  const tables = report.sections.map((section) => SECTION_TABLES[section](report));
+
+  const subject = `${label} report - ${report.clinicName} (${period})`;
+  const text = [
+    `${label} report for ${report.clinicName}`,
+    period,
+    ...tables.map(tableText),
+    ...(report.reportsUrl ? [`Full report: ${report.reportsUrl}`] : []),
+  ].join("\n\n");
+
+  const html = `<div style="font-family:Arial,sans-serif;max-width:680px;color:#111827;">
+<h2 style="margin:0;font-size:20px;">${escapeHtml(report.clinicName)}</h2>
+<p style="margin:4px 0 0;color:#4b5563;">${label} report: ${escapeHtml(period)}</p>
+${tables.map(tableHtml).join("\n")}
+${
+  report.reportsUrl
+    ? `<p style="margin-top:24px;"><a href="${escapeHtml(report.reportsUrl)}" style="color:#2563eb;">Open the full report</a></p>`
+    : ""
+}
+<p style="margin-top:24px;font-size:12px;color:#9ca3af;">You receive this email because you are subscribed to ${label.toLowerCase()} reports for ${escapeHtml(report.clinicName)}.</p>
+</div>`;
+
+  return { subject, text, html };
+}
@@ -0,0 +1,416 @@
+-- Multi-User Clinic Staff Accounts
+-- Until now every policy equated clinic_id with auth.uid(), so a clinic could
+-- only ever have a single login (the owner). This migration lets receptionists,
+-- billing clerks and doctors sign in under the same clinic with distinct roles.
+--
+-- Owner:          clinic_profiles.id = auth.uid() (unchanged)
+-- Staff accounts: rows in clinic_staff, linked to auth.users by email on first login
+--
+-- Existing owner policies are left untouched; the staff policies below are
+-- additive (RLS policies are OR-ed together).
+
+-- ============================================================================
+-- STEP 1: clinic_staff table
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.clinic_staff (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  clinic_id uuid NOT NULL REFERENCES public.clinic_profiles(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  email text NOT NULL,
+  full_name text,
+  role text NOT NULL CHECK (role IN ('receptionist', 'billing_clerk', 'doctor')),
+  -- Doctor logins are tied to their clinic_doctors row so the
+  -- can_manage_appointments / can_access_billing / can_manage_patients
+  -- flags on that row drive their permissions. A doctor login cannot
+  -- outlive that row.
+  clinic_doctor_id uuid REFERENCES public.clinic_doctors(id) ON DELETE CASCADE,
+  is_active boolean NOT NULL DEFAULT true,
+  invited_by uuid REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+
+  CONSTRAINT clinic_staff_doctor_link_check
+    CHECK (role <> 'doctor' OR clinic_doctor_id IS NOT NULL),
+  UNIQUE (clinic_id, email)
+);
+
+-- A login belongs to exactly one clinic
+CREATE UNIQUE INDEX IF NOT EXISTS idx_clinic_staff_user_id
+  ON public.clinic_staff(user_id) WHERE user_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_clinic_staff_clinic_id ON public.clinic_staff(clinic_id);
+CREATE INDEX IF NOT EXISTS idx_clinic_staff_email ON public.clinic_staff(lower(email));
+
+CREATE OR REPLACE FUNCTION update_clinic_staff_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_clinic_staff_updated_at ON public.clinic_staff;
+CREATE TRIGGER trigger_clinic_staff_updated_at
+  BEFORE UPDATE ON public.clinic_staff
+  FOR EACH ROW EXECUTE FUNCTION update_clinic_staff_updated_at();
+
+-- A doctor login must point at a doctor of its own clinic
+CREATE OR REPLACE FUNCTION public.validate_clinic_staff_doctor()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.clinic_doctor_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM clinic_doctors cd
+    WHERE cd.id = NEW.clinic_doctor_id AND cd.clinic_id = NEW.clinic_id
+  ) THEN
+    RAISE EXCEPTION 'Doctor does not belong to this clinic';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_validate_clinic_staff_doctor ON public.clinic_staff;
+CREATE TRIGGER trigger_validate_clinic_staff_doctor
+  BEFORE INSERT OR UPDATE OF clinic_id, clinic_doctor_id ON public.clinic_staff
+  FOR EACH ROW EXECUTE FUNCTION public.validate_clinic_staff_doctor();
+
+-- ============================================================================
+-- STEP 2: Helper functions used by RLS and the client
+-- ============================================================================
+
+-- Clinic the current login belongs to (owner first, then staff membership)
+CREATE OR REPLACE FUNCTION public.current_clinic_id()
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT cp.id FROM clinic_profiles cp WHERE cp.id = auth.uid()),
+    (SELECT cs.clinic_id FROM clinic_staff cs
+      WHERE cs.user_id = auth.uid() AND cs.is_active)
+  );
+$$;
+
+-- Role of the current login: 'owner', 'receptionist', 'billing_clerk', 'doctor' or NULL
+CREATE OR REPLACE FUNCTION public.current_clinic_role()
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN EXISTS (SELECT 1 FROM clinic_profiles cp WHERE cp.id = auth.uid()) THEN 'owner'
+    ELSE (SELECT cs.role FROM clinic_staff cs
+           WHERE cs.user_id = auth.uid() AND cs.is_active)
+  END;
+$$;
+
+-- clinic_doctors row of a doctor login (NULL for every other role)
+CREATE OR REPLACE FUNCTION public.current_staff_doctor_id()
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT cs.clinic_doctor_id FROM clinic_staff cs
+  WHERE cs.user_id = auth.uid() AND cs.is_active AND cs.role = 'doctor';
+$$;
+
+-- Permission check for the current login.
+-- Permissions: manage_appointments, manage_patients, access_billing,
+--              manage_doctors, view_reports, manage_settings, manage_staff
+CREATE OR REPLACE FUNCTION public.has_clinic_permission(p_permission text)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  staff_row clinic_staff%ROWTYPE;
+  doctor_row clinic_doctors%ROWTYPE;
+BEGIN
+  -- Owners can do everything
+  IF EXISTS (SELECT 1 FROM clinic_profiles cp WHERE cp.id = auth.uid()) THEN
+    RETURN true;
+  END IF;
+
+  SELECT * INTO staff_row FROM clinic_staff
+  WHERE user_id = auth.uid() AND is_active;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  IF staff_row.role = 'receptionist' THEN
+    RETURN p_permission IN ('manage_appointments', 'manage_patients');
+  ELSIF staff_row.role = 'billing_clerk' THEN
+    RETURN p_permission IN ('access_billing', 'view_reports');
+  ELSIF staff_row.role = 'doctor' THEN
+    SELECT * INTO doctor_row FROM clinic_doctors WHERE id = staff_row.clinic_doctor_id;
+    IF NOT FOUND OR doctor_row.is_active IS FALSE THEN
+      RETURN false;
+    END IF;
+
+    RETURN CASE p_permission
+      WHEN 'manage_appointments' THEN COALESCE(doctor_row.can_manage_appointments, true)
+      WHEN 'manage_patients' THEN COALESCE(doctor_row.can_manage_patients, false)
+      WHEN 'access_billing' THEN COALESCE(doctor_row.can_access_billing, false)
+      ELSE false
+    END;
+  END IF;
+
+  RETURN false;
+END;
+$$;
+
+-- Everything the client needs in one round trip. Also claims pending
+-- invitations: staff rows created with the login's email get linked to it.
+CREATE OR REPLACE FUNCTION public.get_my_clinic_access()
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_clinic_id uuid;
+  v_permissions text[];
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- Only a confirmed email may claim an invitation, and a login belongs to a
+  -- single clinic: when several clinics invited the same email the oldest
+  -- invitation wins
+  IF NOT EXISTS (SELECT 1 FROM clinic_staff WHERE user_id = auth.uid())
+     AND EXISTS (
+       SELECT 1 FROM auth.users
+       WHERE id = auth.uid() AND email_confirmed_at IS NOT NULL
+     ) THEN
+    UPDATE clinic_staff
+    SET user_id = auth.uid()
+    WHERE id = (
+      SELECT id FROM clinic_staff
+      WHERE user_id IS NULL
+        AND is_active
+        AND lower(email) = lower(auth.email())
+      ORDER BY created_at, id
+      LIMIT 1
+    );
+  END IF;
+
+  v_clinic_id := current_clinic_id();
+  IF v_clinic_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT COALESCE(array_agg(p), ARRAY[]::text[]) INTO v_permissions
+  FROM unnest(ARRAY[
+    'manage_appointments', 'manage_patients', 'access_billing',
+    'manage_doctors', 'view_reports', 'manage_settings', 'manage_staff'
+  ]) AS p
+  WHERE has_clinic_permission(p);
+
+  RETURN jsonb_build_object(
+    'clinic_id', v_clinic_id,
+    'role', current_clinic_role(),
+    'clinic_doctor_id', current_staff_doctor_id(),
+    'permissions', to_jsonb(v_permissions)
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.current_clinic_id TO authenticated;
+GRANT EXECUTE ON FUNCTION public.current_clinic_role TO authenticated;
+GRANT EXECUTE ON FUNCTION public.current_staff_doctor_id TO authenticated;
+GRANT EXECUTE ON FUNCTION public.has_clinic_permission TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_my_clinic_access TO authenticated;
+
+-- ============================================================================
+-- STEP 3: RLS for clinic_staff (owner manages, staff can see their own row)
+-- ============================================================================
+ALTER TABLE public.clinic_staff ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Clinic owners can manage staff" ON public.clinic_staff
+  FOR ALL USING (clinic_id = auth.uid())
+  WITH CHECK (clinic_id = auth.uid());
+
+CREATE POLICY "Staff can view their own membership" ON public.clinic_staff
+  FOR SELECT USING (user_id = auth.uid());
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.clinic_staff TO authenticated;
+
+-- ============================================================================
+-- STEP 4: Staff policies on clinic data
+-- ============================================================================
+
+-- Clinic profile: every member can read it, only the owner edits (existing policy)
+CREATE POLICY "Clinic staff can view their clinic profile" ON public.clinic_profiles
+  FOR SELECT USING (id = current_clinic_id());
+
+-- Doctors: readable by all members, managed by manage_doctors
+CREATE POLICY "Clinic staff can view clinic doctors" ON public.clinic_doctors
+  FOR SELECT USING (clinic_id = current_clinic_id());
+
+CREATE POLICY "Clinic staff can manage clinic doctors" ON public.clinic_doctors
+  FOR ALL USING (clinic_id = current_clinic_id() AND has_clinic_permission('manage_doctors'))
+  WITH CHECK (clinic_id = current_clinic_id() AND has_clinic_permission('manage_doctors'));
+
+CREATE POLICY "Clinic staff can view doctor profiles" ON public.doctor_profiles
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.clinic_doctors cd
+      WHERE cd.doctor_profile_id = doctor_profiles.id
+        AND cd.clinic_id = current_clinic_id()
+    )
+  );
+
+-- Patients: readable by every member (names are needed for appointments and
+-- bills), modified only with manage_patients
+CREATE POLICY "Clinic staff can view clinic patients" ON public.clinic_patients
+  FOR SELECT USING (clinic_id = current_clinic_id());
+
+CREATE POLICY "Clinic staff can manage clinic patients" ON public.clinic_patients
+  FOR ALL USING (clinic_id = current_clinic_id() AND has_clinic_permission('manage_patients'))
+  WITH CHECK (clinic_id = current_clinic_id() AND has_clinic_permission('manage_patients'));
+
+CREATE POLICY "Clinic staff can view patient profiles" ON public.patient_profiles
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.clinic_patients cp
+      WHERE cp.patient_profile_id = patient_profiles.id
+        AND cp.clinic_id = current_clinic_id()
+    )
+  );
+
+CREATE POLICY "Clinic staff can update patient profiles" ON public.patient_profiles
+  FOR UPDATE USING (
+    has_clinic_permission('manage_patients') AND EXISTS (
+      SELECT 1 FROM public.clinic_patients cp
+      WHERE cp.patient_profile_id = patient_profiles.id
+        AND cp.clinic_id = current_clinic_id()
+    )
+  );
+
+CREATE POLICY "Clinic staff can create patient profiles" ON public.patient_profiles
+  FOR INSERT WITH CHECK (
+    has_clinic_permission('manage_patients') OR has_clinic_permission('manage_appointments')
+  );
+
+-- Appointments: manage_appointments, restricted to their own queue for doctor logins.
+-- Billing clerks can read appointments to bill them.
+CREATE POLICY "Clinic staff can view appointments" ON public.appointments
+  FOR SELECT USING (
+    clinic_doctor_id IN (
+      SELECT id FROM public.clinic_doctors WHERE clinic_id = current_clinic_id()
+    )
+    AND (
+      has_clinic_permission('manage_appointments')
+      OR has_clinic_permission('access_billing')
+    )
+    AND (current_staff_doctor_id() IS NULL OR clinic_doctor_id = current_staff_doctor_id())
+  );
+
+CREATE POLICY "Clinic staff can manage appointments" ON public.appointments
+  FOR ALL USING (
+    clinic_doctor_id IN (
+      SELECT id FROM public.clinic_doctors WHERE clinic_id = current_clinic_id()
+    )
+    AND has_clinic_permission('manage_appointments')
+    AND (current_staff_doctor_id() IS NULL OR clinic_doctor_id = current_staff_doctor_id())
+  )
+  WITH CHECK (
+    clinic_doctor_id IN (
+      SELECT id FROM public.clinic_doctors WHERE clinic_id = current_clinic_id()
+    )
+    AND has_clinic_permission('manage_appointments')
+    AND (current_staff_doctor_id() IS NULL OR clinic_doctor_id = current_staff_doctor_id())
+  );
+
+-- Slots and slot bookings follow appointment management
+CREATE POLICY "Clinic staff can view doctor slots" ON public.doctor_slots
+  FOR SELECT USING (
+    clinic_doctor_id IN (
+      SELECT id FROM public.clinic_doctors WHERE clinic_id = current_clinic_id()
+    )
+  );
+
+CREATE POLICY "Clinic staff can manage doctor slots" ON public.doctor_slots
+  FOR ALL USING (
+    clinic_doctor_id IN (
+      SELECT id FROM public.clinic_doctors WHERE clinic_id = current_clinic_id()
+    )
+    AND (has_clinic_permission('manage_appointments') OR has_clinic_permission('manage_doctors'))
+  )
+  WITH CHECK (
+    clinic_doctor_id IN (
+      SELECT id FROM public.clinic_doctors WHERE clinic_id = current_clinic_id()
+    )
+    AND (has_clinic_permission('manage_appointments') OR has_clinic_permission('manage_doctors'))
+  );
+
+CREATE POLICY "Clinic staff can manage slot bookings" ON public.slot_bookings
+  FOR ALL USING (
+    doctor_slot_id IN (
+      SELECT ds.id FROM public.doctor_slots ds
+      JOIN public.clinic_doctors cd ON ds.clinic_doctor_id = cd.id
+      WHERE cd.clinic_id = current_clinic_id()
+    )
+    AND has_clinic_permission('manage_appointments')
+  )
+  WITH CHECK (
+    doctor_slot_id IN (
+      SELECT ds.id FROM public.doctor_slots ds
+      JOIN public.clinic_doctors cd ON ds.clinic_doctor_id = cd.id
+      WHERE cd.clinic_id = current_clinic_id()
+    )
+    AND has_clinic_permission('manage_appointments')
+  );
+
+-- Appointment and reschedule requests
+CREATE POLICY "Clinic staff can view appointment requests" ON public.appointment_requests
+  FOR SELECT USING (
+    clinic_id = current_clinic_id() AND has_clinic_permission('manage_appointments')
+  );
+
+CREATE POLICY "Clinic staff can update appointment requests" ON public.appointment_requests
+  FOR UPDATE USING (
+    clinic_id = current_clinic_id() AND has_clinic_permission('manage_appointments')
+  );
+
+CREATE POLICY "Clinic staff can view reschedule requests" ON public.reschedule_requests
+  FOR SELECT USING (
+    clinic_id = current_clinic_id() AND has_clinic_permission('manage_appointments')
+  );
+
+CREATE POLICY "Clinic staff can update reschedule requests" ON public.reschedule_requests
+  FOR UPDATE USING (
+    clinic_id = current_clinic_id() AND has_clinic_permission('manage_appointments')
+  );
+
+-- Bills: access_billing only
+CREATE POLICY "Clinic staff can manage bills" ON public.bills
+  FOR ALL USING (
+    has_clinic_permission('access_billing') AND clinic_patient_id IN (
+      SELECT id FROM public.clinic_patients WHERE clinic_id = current_clinic_id()
+    )
+  )
+  WITH CHECK (
+    has_clinic_permission('access_billing') AND clinic_patient_id IN (
+      SELECT id FROM public.clinic_patients WHERE clinic_id = current_clinic_id()
+    )
+  );
+
+-- ============================================================================
+-- Documentation
+-- ============================================================================
+COMMENT ON TABLE public.clinic_staff IS 'Non-owner logins (receptionist, billing clerk, doctor) that belong to a clinic';
+COMMENT ON COLUMN public.clinic_staff.user_id IS 'Linked auth user; NULL until the invited email signs in for the first time';
+COMMENT ON COLUMN public.clinic_staff.clinic_doctor_id IS 'clinic_doctors row whose can_* flags drive a doctor login''s permissions';
+COMMENT ON FUNCTION public.current_clinic_id IS 'Clinic id of the current login (owner or active staff member)';
+COMMENT ON FUNCTION public.current_clinic_role IS 'Role of the current login within its clinic';
+COMMENT ON FUNCTION public.has_clinic_permission IS 'Whether the current login holds the given clinic permission';
+COMMENT ON FUNCTION public.get_my_clinic_access IS 'Clinic id, role and permissions of the current login; links pending staff invitations by email';
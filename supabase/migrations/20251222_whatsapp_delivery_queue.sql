@@ -0,0 +1,103 @@
+-- WhatsApp Delivery Queue Migration
+-- WhatsApp messages are no longer sent from the browser. The client enqueues a
+-- template on queue_notifications (via enqueue_notification_job) and the
+-- queue-processor edge function delivers it with the server-side access token,
+-- retrying with exponential backoff and archiving messages that keep failing.
+
+-- ============================================================================
+-- STEP 1: Per-appointment delivery status
+-- ============================================================================
+ALTER TABLE public.appointments
+  ADD COLUMN IF NOT EXISTS whatsapp_status text
+    CHECK (whatsapp_status IN ('queued', 'retrying', 'sent', 'failed')),
+  ADD COLUMN IF NOT EXISTS whatsapp_status_updated_at timestamptz,
+  ADD COLUMN IF NOT EXISTS whatsapp_last_error text;
+
+COMMENT ON COLUMN public.appointments.whatsapp_status IS
+  'Delivery status of the latest WhatsApp message for this appointment: queued, retrying, sent or failed (dead-lettered)';
+COMMENT ON COLUMN public.appointments.whatsapp_last_error IS
+  'Last provider error for the latest WhatsApp message, cleared once it is sent';
+
+-- ============================================================================
+-- STEP 2: Queue helpers missing from the PGMQ setup
+-- ============================================================================
+
+-- Archive a notification job that exhausted its retries (dead letter)
+CREATE OR REPLACE FUNCTION public.archive_notification_job(p_msg_id bigint)
+RETURNS void LANGUAGE sql AS $$
+  SELECT pgmq.archive('queue_notifications', p_msg_id);
+$$;
+
+-- Hide a failed notification job until its next attempt is due
+CREATE OR REPLACE FUNCTION public.retry_notification_job(p_msg_id bigint, p_delay_seconds int)
+RETURNS void LANGUAGE sql AS $$
+  SELECT pgmq.set_vt('queue_notifications', p_msg_id, p_delay_seconds);
+$$;
+
+COMMENT ON FUNCTION public.archive_notification_job IS 'Archives a failed notification job (dead letter queue: pgmq.a_queue_notifications)';
+COMMENT ON FUNCTION public.retry_notification_job IS 'Delays the next delivery attempt of a notification job by p_delay_seconds';
+
+-- ============================================================================
+-- STEP 3: Client-facing enqueue RPC
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.enqueue_whatsapp_message(
+  p_to text,
+  p_template jsonb,
+  p_appointment_id uuid DEFAULT NULL
+)
+RETURNS bigint AS $$
+DECLARE
+  v_clinic_id uuid;
+  v_msg_id bigint;
+BEGIN
+  IF p_to IS NULL OR p_template->>'name' IS NULL THEN
+    RAISE EXCEPTION 'Recipient and template name are required';
+  END IF;
+
+  -- Signed-in callers may only message on behalf of their own clinic.
+  -- Without a login only the service role and scheduled jobs are trusted
+  -- (session_user: inside this function current_user is always the owner).
+  IF auth.uid() IS NOT NULL THEN
+    v_clinic_id := current_clinic_id();
+    IF v_clinic_id IS NULL THEN
+      RAISE EXCEPTION 'Not authorized to send messages';
+    END IF;
+
+    IF p_appointment_id IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM appointments a
+      JOIN clinic_doctors cd ON cd.id = a.clinic_doctor_id
+      WHERE a.id = p_appointment_id AND cd.clinic_id = v_clinic_id
+    ) THEN
+      RAISE EXCEPTION 'Appointment not found for this clinic';
+    END IF;
+  ELSIF auth.role() IS DISTINCT FROM 'service_role' AND session_user <> 'postgres' THEN
+    RAISE EXCEPTION 'Not authorized to send messages';
+  END IF;
+
+  v_msg_id := enqueue_notification_job(jsonb_build_object(
+    'channel', 'whatsapp',
+    'to', p_to,
+    'template', p_template,
+    'appointment_id', p_appointment_id,
+    'clinic_id', v_clinic_id,
+    'enqueued_at', now()
+  ));
+
+  IF p_appointment_id IS NOT NULL THEN
+    UPDATE appointments
+    SET whatsapp_status = 'queued',
+        whatsapp_status_updated_at = now(),
+        whatsapp_last_error = NULL
+    WHERE id = p_appointment_id;
+  END IF;
+
+  RETURN v_msg_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.enqueue_whatsapp_message FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.enqueue_whatsapp_message TO authenticated;
+GRANT EXECUTE ON FUNCTION public.enqueue_whatsapp_message TO service_role;
+
+COMMENT ON FUNCTION public.enqueue_whatsapp_message IS
+  'Queues a WhatsApp template message for server-side delivery by queue-processor and marks the appointment as queued';
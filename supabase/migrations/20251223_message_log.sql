@@ -0,0 +1,162 @@
+-- Outbound Message Log Migration
+-- Records every WhatsApp template and email/SMS notification sent to patients,
+-- with delivery status and provider errors, so staff can audit and resend them.
+
+-- ============================================================================
+-- STEP 1: message_log table
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.message_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  clinic_id uuid NOT NULL DEFAULT current_clinic_id()
+    REFERENCES public.clinic_profiles(id) ON DELETE CASCADE,
+  channel text NOT NULL CHECK (channel IN ('whatsapp', 'email', 'sms')),
+  template text NOT NULL,
+  recipient text NOT NULL DEFAULT '',
+  patient_profile_id uuid REFERENCES public.patient_profiles(id) ON DELETE SET NULL,
+  appointment_id uuid REFERENCES public.appointments(id) ON DELETE SET NULL,
+  status text NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'retrying', 'sent', 'failed', 'skipped')),
+  error text,
+  attempts integer NOT NULL DEFAULT 0,
+  provider_message_id text,
+  queue_msg_id bigint,
+  payload jsonb NOT NULL DEFAULT '{}'::jsonb,
+  resent_from uuid REFERENCES public.message_log(id) ON DELETE SET NULL,
+  created_by uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  sent_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_log_clinic_created
+  ON public.message_log(clinic_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_message_log_patient
+  ON public.message_log(patient_profile_id) WHERE patient_profile_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_message_log_appointment
+  ON public.message_log(appointment_id) WHERE appointment_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.update_message_log_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_message_log_updated_at ON public.message_log;
+CREATE TRIGGER trigger_message_log_updated_at
+  BEFORE UPDATE ON public.message_log
+  FOR EACH ROW EXECUTE FUNCTION public.update_message_log_updated_at();
+
+-- ============================================================================
+-- STEP 2: RLS - clinic members read and record their clinic's messages.
+-- Delivery updates come from queue-processor (service role).
+-- ============================================================================
+ALTER TABLE public.message_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Clinic members can view message log" ON public.message_log
+  FOR SELECT USING (clinic_id = current_clinic_id());
+
+CREATE POLICY "Clinic members can record messages" ON public.message_log
+  FOR INSERT WITH CHECK (clinic_id = current_clinic_id());
+
+-- ============================================================================
+-- STEP 3: Log WhatsApp messages when they are queued
+-- ============================================================================
+DROP FUNCTION IF EXISTS public.enqueue_whatsapp_message(text, jsonb, uuid);
+
+CREATE OR REPLACE FUNCTION public.enqueue_whatsapp_message(
+  p_to text,
+  p_template jsonb,
+  p_appointment_id uuid DEFAULT NULL,
+  p_patient_profile_id uuid DEFAULT NULL,
+  p_resent_from uuid DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  v_clinic_id uuid;
+  v_patient_profile_id uuid := p_patient_profile_id;
+  v_log_id uuid;
+  v_msg_id bigint;
+BEGIN
+  IF p_to IS NULL OR p_template->>'name' IS NULL THEN
+    RAISE EXCEPTION 'Recipient and template name are required';
+  END IF;
+
+  -- Resolve clinic and patient from the appointment when one is given
+  IF p_appointment_id IS NOT NULL THEN
+    SELECT cd.clinic_id, COALESCE(v_patient_profile_id, cp.patient_profile_id)
+    INTO v_clinic_id, v_patient_profile_id
+    FROM appointments a
+    JOIN clinic_doctors cd ON cd.id = a.clinic_doctor_id
+    LEFT JOIN clinic_patients cp ON cp.id = a.clinic_patient_id
+    WHERE a.id = p_appointment_id;
+  END IF;
+
+  -- Signed-in callers may only message on behalf of their own clinic.
+  -- Without a login only the service role and scheduled jobs are trusted
+  -- (session_user: inside this function current_user is always the owner).
+  IF auth.uid() IS NOT NULL THEN
+    IF current_clinic_id() IS NULL THEN
+      RAISE EXCEPTION 'Not authorized to send messages';
+    END IF;
+
+    IF p_appointment_id IS NOT NULL AND v_clinic_id IS DISTINCT FROM current_clinic_id() THEN
+      RAISE EXCEPTION 'Appointment not found for this clinic';
+    END IF;
+
+    v_clinic_id := current_clinic_id();
+  ELSIF auth.role() IS DISTINCT FROM 'service_role' AND session_user <> 'postgres' THEN
+    RAISE EXCEPTION 'Not authorized to send messages';
+  END IF;
+
+  IF v_clinic_id IS NULL THEN
+    RAISE EXCEPTION 'Could not resolve the clinic for this message';
+  END IF;
+
+  INSERT INTO message_log (
+    clinic_id, channel, template, recipient, patient_profile_id,
+    appointment_id, status, payload, resent_from
+  ) VALUES (
+    v_clinic_id, 'whatsapp', p_template->>'name', p_to, v_patient_profile_id,
+    p_appointment_id, 'queued', jsonb_build_object('template', p_template), p_resent_from
+  )
+  RETURNING id INTO v_log_id;
+
+  v_msg_id := enqueue_notification_job(jsonb_build_object(
+    'channel', 'whatsapp',
+    'to', p_to,
+    'template', p_template,
+    'appointment_id', p_appointment_id,
+    'clinic_id', v_clinic_id,
+    'message_log_id', v_log_id,
+    'enqueued_at', now()
+  ));
+
+  UPDATE message_log SET queue_msg_id = v_msg_id WHERE id = v_log_id;
+
+  IF p_appointment_id IS NOT NULL THEN
+    UPDATE appointments
+    SET whatsapp_status = 'queued',
+        whatsapp_status_updated_at = now(),
+        whatsapp_last_error = NULL
+    WHERE id = p_appointment_id;
+  END IF;
+
+  RETURN v_log_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.enqueue_whatsapp_message FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.enqueue_whatsapp_message TO authenticated;
+GRANT EXECUTE ON FUNCTION public.enqueue_whatsapp_message TO service_role;
+
+-- ============================================================================
+-- Documentation
+-- ============================================================================
+COMMENT ON TABLE public.message_log IS 'Outbound patient messages (WhatsApp, email, SMS) with delivery status';
+COMMENT ON COLUMN public.message_log.template IS 'WhatsApp template name, or <type>.<event> for send-notification messages';
+COMMENT ON COLUMN public.message_log.payload IS 'Data needed to resend: the WhatsApp template, or the send-notification request body';
+COMMENT ON COLUMN public.message_log.resent_from IS 'Original message when this row is a manual resend';
+COMMENT ON FUNCTION public.enqueue_whatsapp_message IS
+  'Logs and queues a WhatsApp template message for server-side delivery by queue-processor; returns the message_log id';
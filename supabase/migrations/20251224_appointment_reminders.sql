@@ -0,0 +1,255 @@
+-- Scheduled Appointment Reminders Migration
+-- A pg_cron job runs every 5 minutes and queues WhatsApp reminders through
+-- enqueue_whatsapp_message (delivered by queue-processor):
+--   * appointment_reminder_1day  - 24 hours before every scheduled appointment
+--   * video_call_starting_soon   - 15 minutes before a video consultation
+-- Each reminder fires once per appointment time (rescheduling re-arms it),
+-- and patients who opted out of reminders are skipped.
+
+-- ============================================================================
+-- STEP 1: Patient opt-out
+-- ============================================================================
+ALTER TABLE public.patient_profiles
+  ADD COLUMN IF NOT EXISTS reminders_opt_out boolean NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN public.patient_profiles.reminders_opt_out IS
+  'When true the patient receives no automated appointment reminders';
+
+-- ============================================================================
+-- STEP 2: Sent reminders (dedupe)
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.appointment_reminders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  appointment_id uuid NOT NULL REFERENCES public.appointments(id) ON DELETE CASCADE,
+  reminder_type text NOT NULL CHECK (reminder_type IN ('24h', '15m')),
+  -- The appointment time the reminder was sent for; a reschedule gets a new reminder
+  appointment_datetime timestamptz NOT NULL,
+  message_log_id uuid REFERENCES public.message_log(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (appointment_id, reminder_type, appointment_datetime)
+);
+
+ALTER TABLE public.appointment_reminders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Clinic members can view appointment reminders" ON public.appointment_reminders
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM appointments a
+      JOIN clinic_doctors cd ON cd.id = a.clinic_doctor_id
+      WHERE a.id = appointment_reminders.appointment_id
+        AND cd.clinic_id = current_clinic_id()
+    )
+  );
+
+-- ============================================================================
+-- STEP 3: Helpers
+-- ============================================================================
+
+-- Percent-encode a value for use in a URL query string
+CREATE OR REPLACE FUNCTION public.url_encode(p_value text)
+RETURNS text AS $$
+DECLARE
+  v_result text := '';
+  v_char text;
+  v_byte int;
+BEGIN
+  FOR i IN 1..length(p_value) LOOP
+    v_char := substr(p_value, i, 1);
+    IF v_char ~ '[A-Za-z0-9_.~-]' THEN
+      v_result := v_result || v_char;
+    ELSE
+      FOR j IN 0..octet_length(v_char) - 1 LOOP
+        v_byte := get_byte(convert_to(v_char, 'UTF8'), j);
+        v_result := v_result || '%' || upper(lpad(to_hex(v_byte), 2, '0'));
+      END LOOP;
+    END IF;
+  END LOOP;
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Same normalisation as WhatsAppService.formatPhone: digits only, 91 prefix for 10-digit numbers
+CREATE OR REPLACE FUNCTION public.format_whatsapp_phone(p_phone text)
+RETURNS text AS $$
+  SELECT CASE
+    WHEN length(regexp_replace(p_phone, '[^0-9]', '', 'g')) = 10
+      THEN '91' || regexp_replace(p_phone, '[^0-9]', '', 'g')
+    ELSE regexp_replace(p_phone, '[^0-9]', '', 'g')
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- ============================================================================
+-- STEP 4: Queue due reminders
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.enqueue_appointment_reminders()
+RETURNS INTEGER AS $$
+DECLARE
+  v_appointment record;
+  v_reminder_id uuid;
+  v_log_id uuid;
+  v_is_video boolean;
+  v_template jsonb;
+  v_link_suffix text;
+  queued_count INTEGER := 0;
+BEGIN
+  FOR v_appointment IN
+    SELECT
+      a.id,
+      a.appointment_datetime,
+      a.appointment_type,
+      a.video_call_id,
+      pp.id AS patient_profile_id,
+      pp.full_name AS patient_name,
+      pp.phone,
+      COALESCE(dp.full_name, 'Doctor') AS doctor_name,
+      COALESCE(cpf.clinic_name, 'Clinic') AS clinic_name,
+      COALESCE(cpf.slug, 'clinic') AS clinic_slug,
+      CASE
+        WHEN a.appointment_datetime <= NOW() + INTERVAL '15 minutes' THEN '15m'
+        ELSE '24h'
+      END AS reminder_type
+    FROM appointments a
+    JOIN clinic_patients cp ON cp.id = a.clinic_patient_id
+    JOIN patient_profiles pp ON pp.id = cp.patient_profile_id
+    JOIN clinic_doctors cd ON cd.id = a.clinic_doctor_id
+    LEFT JOIN doctor_profiles dp ON dp.id = cd.doctor_profile_id
+    LEFT JOIN clinic_profiles cpf ON cpf.id = cd.clinic_id
+    WHERE a.status = 'scheduled'
+      AND a.appointment_datetime > NOW()
+      AND a.appointment_datetime <= NOW() + INTERVAL '24 hours'
+      AND pp.phone IS NOT NULL
+      AND pp.reminders_opt_out = false
+  LOOP
+    v_is_video := COALESCE(v_appointment.appointment_type, '') ILIKE '%video%';
+
+    -- Only video consultations get the 15-minute "starting soon" message;
+    -- in-clinic visits are reminded once, the day before
+    IF v_appointment.reminder_type = '15m' AND NOT v_is_video THEN
+      CONTINUE;
+    END IF;
+    IF v_appointment.reminder_type = '24h'
+      AND v_appointment.appointment_datetime <= NOW() + INTERVAL '2 hours' THEN
+      CONTINUE;
+    END IF;
+
+    -- One failing appointment must not stop the rest of the run
+    BEGIN
+      -- Claim the reminder first so concurrent or repeated runs never send twice
+      INSERT INTO appointment_reminders (appointment_id, reminder_type, appointment_datetime)
+      VALUES (v_appointment.id, v_appointment.reminder_type, v_appointment.appointment_datetime)
+      ON CONFLICT (appointment_id, reminder_type, appointment_datetime) DO NOTHING
+      RETURNING id INTO v_reminder_id;
+
+      IF v_reminder_id IS NULL THEN
+        CONTINUE;
+      END IF;
+
+      IF v_appointment.reminder_type = '24h' THEN
+        v_template := jsonb_build_object(
+          'name', 'appointment_reminder_1day',
+          'language', jsonb_build_object('code', 'en'),
+          'components', jsonb_build_array(jsonb_build_object(
+            'type', 'body',
+            'parameters', jsonb_build_array(
+              jsonb_build_object('type', 'text', 'text', v_appointment.patient_name),
+              jsonb_build_object('type', 'text', 'text', v_appointment.doctor_name),
+              jsonb_build_object('type', 'text', 'text', v_appointment.clinic_name),
+              jsonb_build_object('type', 'text', 'text',
+                to_char(v_appointment.appointment_datetime AT TIME ZONE 'Asia/Kolkata', 'YYYY-MM-DD')),
+              jsonb_build_object('type', 'text', 'text',
+                to_char(v_appointment.appointment_datetime AT TIME ZONE 'Asia/Kolkata', 'HH24:MI')),
+              jsonb_build_object('type', 'text', 'text',
+                CASE WHEN v_is_video THEN 'Video Consultation' ELSE 'In-Clinic Visit' END),
+              jsonb_build_object('type', 'text', 'text',
+                CASE WHEN v_is_video
+                  THEN 'The video call link will be sent 15 minutes before your appointment'
+                  ELSE 'Please arrive 10 minutes early'
+                END)
+            )
+          ))
+        );
+      ELSE
+        -- Same link format as WhatsAppService.generateVideoCallLink
+        v_link_suffix := v_appointment.clinic_slug || '/video/room'
+          || '?callId=' || url_encode(COALESCE(v_appointment.video_call_id, 'consult-' || v_appointment.id))
+          || '&userId=' || url_encode('patient-' || v_appointment.patient_profile_id)
+          || '&userName=' || url_encode(COALESCE(v_appointment.patient_name, 'Patient'))
+          || '&appointmentId=' || v_appointment.id
+          || '&doctorName=' || url_encode(v_appointment.doctor_name);
+
+        v_template := jsonb_build_object(
+          'name', 'video_call_starting_soon',
+          'language', jsonb_build_object('code', 'en'),
+          'components', jsonb_build_array(
+            jsonb_build_object(
+              'type', 'body',
+              'parameters', jsonb_build_array(
+                jsonb_build_object('type', 'text', 'text', v_appointment.patient_name),
+                jsonb_build_object('type', 'text', 'text', v_appointment.doctor_name),
+                jsonb_build_object('type', 'text', 'text',
+                  to_char(v_appointment.appointment_datetime AT TIME ZONE 'Asia/Kolkata', 'HH24:MI'))
+              )
+            ),
+            jsonb_build_object(
+              'type', 'button',
+              'sub_type', 'url',
+              'index', 0,
+              'parameters', jsonb_build_array(
+                jsonb_build_object('type', 'text', 'text', v_link_suffix)
+              )
+            )
+          )
+        );
+      END IF;
+
+      v_log_id := enqueue_whatsapp_message(
+        format_whatsapp_phone(v_appointment.phone),
+        v_template,
+        v_appointment.id,
+        v_appointment.patient_profile_id
+      );
+
+      UPDATE appointment_reminders SET message_log_id = v_log_id WHERE id = v_reminder_id;
+      queued_count := queued_count + 1;
+    EXCEPTION WHEN OTHERS THEN
+      RAISE WARNING '[APPOINTMENT-REMINDERS] Appointment %: %', v_appointment.id, SQLERRM;
+    END;
+  END LOOP;
+
+  IF queued_count > 0 THEN
+    RAISE NOTICE '[APPOINTMENT-REMINDERS] Queued % reminders at %', queued_count, NOW();
+  END IF;
+
+  RETURN queued_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the scheduler runs this; it queues messages for every clinic
+REVOKE EXECUTE ON FUNCTION public.enqueue_appointment_reminders FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.enqueue_appointment_reminders TO service_role;
+
+COMMENT ON FUNCTION public.enqueue_appointment_reminders IS
+  'Queues 24-hour and 15-minute (video) WhatsApp reminders for upcoming scheduled appointments, once per appointment time. Called by pg_cron every 5 minutes.';
+
+-- ============================================================================
+-- STEP 5: Schedule the cron job (runs every 5 minutes)
+-- NOTE: pg_cron must be enabled in your Supabase dashboard first!
+-- ============================================================================
+DO $$
+BEGIN
+  PERFORM cron.unschedule('appointment-reminders');
+EXCEPTION WHEN OTHERS THEN
+  -- Job doesn't exist, that's fine
+  NULL;
+END $$;
+
+SELECT cron.schedule(
+  'appointment-reminders',
+  '*/5 * * * *',
+  'SELECT enqueue_appointment_reminders();'
+);
+
+-- ============================================================================
+-- VERIFICATION: SELECT * FROM cron.job WHERE jobname = 'appointment-reminders';
+-- TO DISABLE:   SELECT cron.unschedule('appointment-reminders');
+-- ============================================================================
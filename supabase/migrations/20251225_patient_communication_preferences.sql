@@ -0,0 +1,254 @@
+-- Patient Communication Preferences Migration
+-- Per-channel consent (WhatsApp, SMS, email) and quiet hours on patient_profiles.
+-- enqueue_whatsapp_message and the send-notification edge function enforce them:
+--   * no consent for a channel  -> message logged as 'skipped', nothing is sent
+--   * inside quiet hours        -> WhatsApp is delayed until quiet hours end,
+--                                  SMS is skipped, email is unaffected
+-- Replying STOP / START to a WhatsApp or SMS message (message-webhook edge
+-- function) withdraws or restores consent for that channel.
+
+-- ============================================================================
+-- STEP 1: Preference columns
+-- ============================================================================
+ALTER TABLE public.patient_profiles
+  ADD COLUMN IF NOT EXISTS whatsapp_consent boolean NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS sms_consent boolean NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS email_consent boolean NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS quiet_hours_start time,
+  ADD COLUMN IF NOT EXISTS quiet_hours_end time,
+  ADD COLUMN IF NOT EXISTS communication_preferences_updated_at timestamptz;
+
+COMMENT ON COLUMN public.patient_profiles.whatsapp_consent IS 'Patient agrees to receive WhatsApp messages';
+COMMENT ON COLUMN public.patient_profiles.sms_consent IS 'Patient agrees to receive SMS messages';
+COMMENT ON COLUMN public.patient_profiles.email_consent IS 'Patient agrees to receive email messages';
+COMMENT ON COLUMN public.patient_profiles.quiet_hours_start IS
+  'Start of the daily window (IST) in which no WhatsApp/SMS is delivered; may wrap past midnight';
+COMMENT ON COLUMN public.patient_profiles.quiet_hours_end IS 'End of the daily quiet hours window (IST)';
+
+CREATE OR REPLACE FUNCTION public.touch_communication_preferences()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.whatsapp_consent IS DISTINCT FROM OLD.whatsapp_consent
+    OR NEW.sms_consent IS DISTINCT FROM OLD.sms_consent
+    OR NEW.email_consent IS DISTINCT FROM OLD.email_consent
+    OR NEW.reminders_opt_out IS DISTINCT FROM OLD.reminders_opt_out
+    OR NEW.quiet_hours_start IS DISTINCT FROM OLD.quiet_hours_start
+    OR NEW.quiet_hours_end IS DISTINCT FROM OLD.quiet_hours_end THEN
+    NEW.communication_preferences_updated_at = now();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_touch_communication_preferences ON public.patient_profiles;
+CREATE TRIGGER trigger_touch_communication_preferences
+  BEFORE UPDATE ON public.patient_profiles
+  FOR EACH ROW EXECUTE FUNCTION public.touch_communication_preferences();
+
+-- ============================================================================
+-- STEP 2: Preference checks
+-- ============================================================================
+
+-- Why a message on p_channel may not be sent to the patient, or NULL if it may
+CREATE OR REPLACE FUNCTION public.message_block_reason(p_patient_profile_id uuid, p_channel text)
+RETURNS text AS $$
+  SELECT CASE
+    WHEN p_channel = 'whatsapp' AND NOT pp.whatsapp_consent THEN 'Patient has opted out of WhatsApp messages'
+    WHEN p_channel = 'sms' AND NOT pp.sms_consent THEN 'Patient has opted out of SMS messages'
+    WHEN p_channel = 'email' AND NOT pp.email_consent THEN 'Patient has opted out of email messages'
+    ELSE NULL
+  END
+  FROM patient_profiles pp
+  WHERE pp.id = p_patient_profile_id;
+$$ LANGUAGE sql STABLE;
+
+-- Seconds until the patient's quiet hours end, or 0 outside quiet hours
+CREATE OR REPLACE FUNCTION public.quiet_hours_remaining_seconds(
+  p_patient_profile_id uuid,
+  p_at timestamptz DEFAULT now()
+)
+RETURNS integer AS $$
+DECLARE
+  v_start time;
+  v_end time;
+  v_local time := (p_at AT TIME ZONE 'Asia/Kolkata')::time;
+  v_in_window boolean;
+BEGIN
+  SELECT quiet_hours_start, quiet_hours_end INTO v_start, v_end
+  FROM patient_profiles WHERE id = p_patient_profile_id;
+
+  IF v_start IS NULL OR v_end IS NULL OR v_start = v_end THEN
+    RETURN 0;
+  END IF;
+
+  -- A window such as 21:00-08:00 wraps past midnight
+  v_in_window := CASE
+    WHEN v_start < v_end THEN v_local >= v_start AND v_local < v_end
+    ELSE v_local >= v_start OR v_local < v_end
+  END;
+
+  IF NOT v_in_window THEN
+    RETURN 0;
+  END IF;
+
+  RETURN CEIL(EXTRACT(EPOCH FROM (
+    CASE WHEN v_local < v_end THEN v_end - v_local ELSE INTERVAL '24 hours' - (v_local - v_end) END
+  )))::integer;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- ============================================================================
+-- STEP 3: Enforce preferences when queueing WhatsApp messages
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.enqueue_whatsapp_message(
+  p_to text,
+  p_template jsonb,
+  p_appointment_id uuid DEFAULT NULL,
+  p_patient_profile_id uuid DEFAULT NULL,
+  p_resent_from uuid DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  v_clinic_id uuid;
+  v_patient_profile_id uuid := p_patient_profile_id;
+  v_block_reason text;
+  v_delay integer := 0;
+  v_log_id uuid;
+  v_msg_id bigint;
+BEGIN
+  IF p_to IS NULL OR p_template->>'name' IS NULL THEN
+    RAISE EXCEPTION 'Recipient and template name are required';
+  END IF;
+
+  -- Resolve clinic and patient from the appointment when one is given
+  IF p_appointment_id IS NOT NULL THEN
+    SELECT cd.clinic_id, COALESCE(v_patient_profile_id, cp.patient_profile_id)
+    INTO v_clinic_id, v_patient_profile_id
+    FROM appointments a
+    JOIN clinic_doctors cd ON cd.id = a.clinic_doctor_id
+    LEFT JOIN clinic_patients cp ON cp.id = a.clinic_patient_id
+    WHERE a.id = p_appointment_id;
+  END IF;
+
+  -- Signed-in callers may only message on behalf of their own clinic.
+  -- Without a login only the service role and scheduled jobs are trusted
+  -- (session_user: inside this function current_user is always the owner).
+  IF auth.uid() IS NOT NULL THEN
+    IF current_clinic_id() IS NULL THEN
+      RAISE EXCEPTION 'Not authorized to send messages';
+    END IF;
+
+    IF p_appointment_id IS NOT NULL AND v_clinic_id IS DISTINCT FROM current_clinic_id() THEN
+      RAISE EXCEPTION 'Appointment not found for this clinic';
+    END IF;
+
+    v_clinic_id := current_clinic_id();
+  ELSIF auth.role() IS DISTINCT FROM 'service_role' AND session_user <> 'postgres' THEN
+    RAISE EXCEPTION 'Not authorized to send messages';
+  END IF;
+
+  IF v_clinic_id IS NULL THEN
+    RAISE EXCEPTION 'Could not resolve the clinic for this message';
+  END IF;
+
+  -- Fall back to the clinic's patient with this phone number
+  IF v_patient_profile_id IS NULL THEN
+    SELECT pp.id INTO v_patient_profile_id
+    FROM patient_profiles pp
+    JOIN clinic_patients cp ON cp.patient_profile_id = pp.id AND cp.clinic_id = v_clinic_id
+    WHERE right(regexp_replace(pp.phone, '[^0-9]', '', 'g'), 10)
+      = right(regexp_replace(p_to, '[^0-9]', '', 'g'), 10)
+    LIMIT 1;
+  END IF;
+
+  IF v_patient_profile_id IS NOT NULL THEN
+    v_block_reason := message_block_reason(v_patient_profile_id, 'whatsapp');
+    v_delay := quiet_hours_remaining_seconds(v_patient_profile_id);
+  END IF;
+
+  INSERT INTO message_log (
+    clinic_id, channel, template, recipient, patient_profile_id,
+    appointment_id, status, error, payload, resent_from
+  ) VALUES (
+    v_clinic_id, 'whatsapp', p_template->>'name', p_to, v_patient_profile_id,
+    p_appointment_id,
+    CASE WHEN v_block_reason IS NULL THEN 'queued' ELSE 'skipped' END,
+    v_block_reason,
+    jsonb_build_object('template', p_template), p_resent_from
+  )
+  RETURNING id INTO v_log_id;
+
+  IF v_block_reason IS NOT NULL THEN
+    RETURN v_log_id;
+  END IF;
+
+  v_msg_id := pgmq.send('queue_notifications', jsonb_build_object(
+    'channel', 'whatsapp',
+    'to', p_to,
+    'template', p_template,
+    'appointment_id', p_appointment_id,
+    'clinic_id', v_clinic_id,
+    'message_log_id', v_log_id,
+    'enqueued_at', now()
+  ), v_delay);
+
+  UPDATE message_log SET queue_msg_id = v_msg_id WHERE id = v_log_id;
+
+  IF p_appointment_id IS NOT NULL THEN
+    UPDATE appointments
+    SET whatsapp_status = 'queued',
+        whatsapp_status_updated_at = now(),
+        whatsapp_last_error = NULL
+    WHERE id = p_appointment_id;
+  END IF;
+
+  RETURN v_log_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.enqueue_whatsapp_message FROM PUBLIC, anon;
+
+COMMENT ON FUNCTION public.enqueue_whatsapp_message IS
+  'Logs and queues a WhatsApp template message for queue-processor, honouring the patient''s WhatsApp consent and quiet hours; returns the message_log id';
+
+-- ============================================================================
+-- STEP 4: STOP / START keywords (called by the message-webhook edge function)
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.apply_message_keyword(
+  p_phone text,
+  p_channel text,
+  p_keyword text
+)
+RETURNS integer AS $$
+DECLARE
+  v_consent boolean;
+  affected_count integer;
+BEGIN
+  v_consent := CASE upper(trim(p_keyword))
+    WHEN 'STOP' THEN false
+    WHEN 'UNSUBSCRIBE' THEN false
+    WHEN 'START' THEN true
+    WHEN 'SUBSCRIBE' THEN true
+    ELSE NULL
+  END;
+
+  IF v_consent IS NULL OR p_channel NOT IN ('whatsapp', 'sms') THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE patient_profiles
+  SET whatsapp_consent = CASE WHEN p_channel = 'whatsapp' THEN v_consent ELSE whatsapp_consent END,
+      sms_consent = CASE WHEN p_channel = 'sms' THEN v_consent ELSE sms_consent END
+  WHERE right(regexp_replace(phone, '[^0-9]', '', 'g'), 10)
+    = right(regexp_replace(p_phone, '[^0-9]', '', 'g'), 10);
+
+  GET DIAGNOSTICS affected_count = ROW_COUNT;
+  RETURN affected_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.apply_message_keyword FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.apply_message_keyword TO service_role;
+
+COMMENT ON FUNCTION public.apply_message_keyword IS
+  'Withdraws (STOP/UNSUBSCRIBE) or restores (START/SUBSCRIBE) a patient''s WhatsApp or SMS consent by phone number';
@@ -0,0 +1,196 @@
+-- Multilingual WhatsApp Templates Migration
+-- WhatsAppService picks Hindi (_hi) and Bengali (_bn) template variants from
+-- patient_profiles.preferred_language. This applies the same rule to the
+-- reminders queued by the appointment-reminders cron job.
+
+-- ============================================================================
+-- STEP 1: Map preferred_language to a template language
+-- ============================================================================
+-- Mirrors resolvePatientLanguage: "hi", "hi-IN", "Hindi" -> hi; "bn", "Bengali", "Bangla" -> bn; otherwise en
+CREATE OR REPLACE FUNCTION public.whatsapp_template_language(p_preferred_language text)
+RETURNS text AS $$
+  SELECT CASE
+    WHEN lower(trim(COALESCE(p_preferred_language, ''))) LIKE 'hi%' THEN 'hi'
+    WHEN lower(trim(COALESCE(p_preferred_language, ''))) LIKE 'bn%'
+      OR lower(trim(COALESCE(p_preferred_language, ''))) LIKE 'ben%'
+      OR lower(trim(COALESCE(p_preferred_language, ''))) LIKE 'bangla%' THEN 'bn'
+    ELSE 'en'
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+COMMENT ON FUNCTION public.whatsapp_template_language IS
+  'Template language code (en, hi, bn) for a patient''s preferred_language';
+
+-- ============================================================================
+-- STEP 2: Localised reminders
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.enqueue_appointment_reminders()
+RETURNS INTEGER AS $$
+DECLARE
+  v_appointment record;
+  v_reminder_id uuid;
+  v_log_id uuid;
+  v_is_video boolean;
+  v_template jsonb;
+  v_link_suffix text;
+  v_language text;
+  v_name_suffix text;
+  queued_count INTEGER := 0;
+BEGIN
+  FOR v_appointment IN
+    SELECT
+      a.id,
+      a.appointment_datetime,
+      a.appointment_type,
+      a.video_call_id,
+      pp.id AS patient_profile_id,
+      pp.full_name AS patient_name,
+      pp.phone,
+      pp.preferred_language,
+      COALESCE(dp.full_name, 'Doctor') AS doctor_name,
+      COALESCE(cpf.clinic_name, 'Clinic') AS clinic_name,
+      COALESCE(cpf.slug, 'clinic') AS clinic_slug,
+      CASE
+        WHEN a.appointment_datetime <= NOW() + INTERVAL '15 minutes' THEN '15m'
+        ELSE '24h'
+      END AS reminder_type
+    FROM appointments a
+    JOIN clinic_patients cp ON cp.id = a.clinic_patient_id
+    JOIN patient_profiles pp ON pp.id = cp.patient_profile_id
+    JOIN clinic_doctors cd ON cd.id = a.clinic_doctor_id
+    LEFT JOIN doctor_profiles dp ON dp.id = cd.doctor_profile_id
+    LEFT JOIN clinic_profiles cpf ON cpf.id = cd.clinic_id
+    WHERE a.status = 'scheduled'
+      AND a.appointment_datetime > NOW()
+      AND a.appointment_datetime <= NOW() + INTERVAL '24 hours'
+      AND pp.phone IS NOT NULL
+      AND pp.reminders_opt_out = false
+  LOOP
+    v_is_video := COALESCE(v_appointment.appointment_type, '') ILIKE '%video%';
+
+    -- Only video consultations get the 15-minute "starting soon" message;
+    -- in-clinic visits are reminded once, the day before
+    IF v_appointment.reminder_type = '15m' AND NOT v_is_video THEN
+      CONTINUE;
+    END IF;
+    IF v_appointment.reminder_type = '24h'
+      AND v_appointment.appointment_datetime <= NOW() + INTERVAL '2 hours' THEN
+      CONTINUE;
+    END IF;
+
+    -- One failing appointment must not stop the rest of the run
+    BEGIN
+      -- Claim the reminder first so concurrent or repeated runs never send twice
+      INSERT INTO appointment_reminders (appointment_id, reminder_type, appointment_datetime)
+      VALUES (v_appointment.id, v_appointment.reminder_type, v_appointment.appointment_datetime)
+      ON CONFLICT (appointment_id, reminder_type, appointment_datetime) DO NOTHING
+      RETURNING id INTO v_reminder_id;
+
+      IF v_reminder_id IS NULL THEN
+        CONTINUE;
+      END IF;
+
+      -- Localised templates share the English parameter order
+      -- (see WHATSAPP_TEMPLATES in src/constants/whatsappTemplates.ts)
+      v_language := whatsapp_template_language(v_appointment.preferred_language);
+      v_name_suffix := CASE WHEN v_language = 'en' THEN '' ELSE '_' || v_language END;
+
+      IF v_appointment.reminder_type = '24h' THEN
+        v_template := jsonb_build_object(
+          'name', 'appointment_reminder_1day' || v_name_suffix,
+          'language', jsonb_build_object('code', v_language),
+          'components', jsonb_build_array(jsonb_build_object(
+            'type', 'body',
+            'parameters', jsonb_build_array(
+              jsonb_build_object('type', 'text', 'text', v_appointment.patient_name),
+              jsonb_build_object('type', 'text', 'text', v_appointment.doctor_name),
+              jsonb_build_object('type', 'text', 'text', v_appointment.clinic_name),
+              jsonb_build_object('type', 'text', 'text',
+                to_char(v_appointment.appointment_datetime AT TIME ZONE 'Asia/Kolkata', 'YYYY-MM-DD')),
+              jsonb_build_object('type', 'text', 'text',
+                to_char(v_appointment.appointment_datetime AT TIME ZONE 'Asia/Kolkata', 'HH24:MI')),
+              jsonb_build_object('type', 'text', 'text',
+                CASE
+                  WHEN v_language = 'hi' THEN
+                    CASE WHEN v_is_video THEN 'वीडियो परामर्श' ELSE 'क्लिनिक विज़िट' END
+                  WHEN v_language = 'bn' THEN
+                    CASE WHEN v_is_video THEN 'ভিডিও পরামর্শ' ELSE 'ক্লিনিক ভিজিট' END
+                  ELSE
+                    CASE WHEN v_is_video THEN 'Video Consultation' ELSE 'In-Clinic Visit' END
+                END),
+              jsonb_build_object('type', 'text', 'text',
+                CASE
+                  WHEN v_language = 'hi' THEN
+                    CASE WHEN v_is_video
+                      THEN 'वीडियो कॉल का लिंक अपॉइंटमेंट से 15 मिनट पहले भेजा जाएगा'
+                      ELSE 'कृपया 10 मिनट पहले पहुँचें'
+                    END
+                  WHEN v_language = 'bn' THEN
+                    CASE WHEN v_is_video
+                      THEN 'অ্যাপয়েন্টমেন্টের ১৫ মিনিট আগে ভিডিও কলের লিঙ্ক পাঠানো হবে'
+                      ELSE 'অনুগ্রহ করে ১০ মিনিট আগে পৌঁছান'
+                    END
+                  ELSE
+                    CASE WHEN v_is_video
+                      THEN 'The video call link will be sent 15 minutes before your appointment'
+                      ELSE 'Please arrive 10 minutes early'
+                    END
+                END)
+            )
+          ))
+        );
+      ELSE
+        -- Same link format as WhatsAppService.generateVideoCallLink
+        v_link_suffix := v_appointment.clinic_slug || '/video/room'
+          || '?callId=' || url_encode(COALESCE(v_appointment.video_call_id, 'consult-' || v_appointment.id))
+          || '&userId=' || url_encode('patient-' || v_appointment.patient_profile_id)
+          || '&userName=' || url_encode(COALESCE(v_appointment.patient_name, 'Patient'))
+          || '&appointmentId=' || v_appointment.id
+          || '&doctorName=' || url_encode(v_appointment.doctor_name);
+
+        v_template := jsonb_build_object(
+          'name', 'video_call_starting_soon' || v_name_suffix,
+          'language', jsonb_build_object('code', v_language),
+          'components', jsonb_build_array(
+            jsonb_build_object(
+              'type', 'body',
+              'parameters', jsonb_build_array(
+                jsonb_build_object('type', 'text', 'text', v_appointment.patient_name),
+                jsonb_build_object('type', 'text', 'text', v_appointment.doctor_name),
+                jsonb_build_object('type', 'text', 'text',
+                  to_char(v_appointment.appointment_datetime AT TIME ZONE 'Asia/Kolkata', 'HH24:MI'))
+              )
+            ),
+            jsonb_build_object(
+              'type', 'button',
+              'sub_type', 'url',
+              'index', 0,
+              'parameters', jsonb_build_array(
+                jsonb_build_object('type', 'text', 'text', v_link_suffix)
+              )
+            )
+          )
+        );
+      END IF;
+
+      v_log_id := enqueue_whatsapp_message(
+        format_whatsapp_phone(v_appointment.phone),
+        v_template,
+        v_appointment.id,
+        v_appointment.patient_profile_id
+      );
+
+      UPDATE appointment_reminders SET message_log_id = v_log_id WHERE id = v_reminder_id;
+      queued_count := queued_count + 1;
+    EXCEPTION WHEN OTHERS THEN
+      RAISE WARNING '[APPOINTMENT-REMINDERS] Appointment %: %', v_appointment.id, SQLERRM;
+    END;
+  END LOOP;
+
+  IF queued_count > 0 THEN
+    RAISE NOTICE '[APPOINTMENT-REMINDERS] Queued % reminders at %', queued_count, NOW();
+  END IF;
+
+  RETURN queued_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
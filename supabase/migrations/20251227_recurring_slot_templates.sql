@@ -0,0 +1,136 @@
+-- Recurring Slot Templates Migration
+-- Weekly slot rules per doctor, stored in clinic_doctors.availability_schedule:
+--   {
+--     "weeks_ahead": 4,
+--     "recurring_slots": [
+--       { "weekdays": [1,2,3,4,5], "slot_name": "Morning", "start_time": "09:00",
+--         "end_time": "12:00", "max_capacity": 10, "slot_type": "in-clinic" }
+--     ]
+--   }
+-- (weekdays use 0 = Sunday ... 6 = Saturday, same as Date.getDay())
+-- materialize_recurring_slots creates the matching doctor_slots rows up to
+-- weeks_ahead weeks from today (IST). A pg_cron job runs it nightly so the
+-- window keeps rolling forward. Existing slots always win: a date is skipped
+-- for a rule when a slot with the same name and type already exists (active or
+-- deleted by an admin) or an active slot overlaps its times.
+
+-- ============================================================================
+-- STEP 1: Materialise slots from the weekly rules
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.materialize_recurring_slots(p_clinic_doctor_id uuid DEFAULT NULL)
+RETURNS SETOF public.doctor_slots AS $$
+DECLARE
+  v_today date := (now() AT TIME ZONE 'Asia/Kolkata')::date;
+  v_now_time time := (now() AT TIME ZONE 'Asia/Kolkata')::time;
+  v_doctor record;
+  v_rule jsonb;
+  v_weeks integer;
+  v_date date;
+  v_slot public.doctor_slots;
+BEGIN
+  -- Signed-in callers may only materialise their own clinic's doctors.
+  -- Without a login only the service role and the scheduled job run for
+  -- every clinic (session_user: inside this function current_user is the owner).
+  IF auth.uid() IS NOT NULL THEN
+    IF p_clinic_doctor_id IS NULL OR NOT EXISTS (
+      SELECT 1 FROM clinic_doctors
+      WHERE id = p_clinic_doctor_id AND clinic_id = current_clinic_id()
+    ) THEN
+      RAISE EXCEPTION 'Doctor not found or access denied';
+    END IF;
+  ELSIF auth.role() IS DISTINCT FROM 'service_role' AND session_user <> 'postgres' THEN
+    RAISE EXCEPTION 'Not authorized to materialise slots';
+  END IF;
+
+  FOR v_doctor IN
+    SELECT cd.id, cd.availability_schedule AS schedule
+    FROM clinic_doctors cd
+    WHERE cd.is_active = true
+      AND COALESCE(cd.slot_creation_enabled, true) = true
+      AND jsonb_typeof(cd.availability_schedule->'recurring_slots') = 'array'
+      AND (p_clinic_doctor_id IS NULL OR cd.id = p_clinic_doctor_id)
+  LOOP
+    v_weeks := LEAST(GREATEST(COALESCE((v_doctor.schedule->>'weeks_ahead')::integer, 4), 1), 12);
+
+    FOR v_rule IN SELECT * FROM jsonb_array_elements(v_doctor.schedule->'recurring_slots')
+    LOOP
+      FOR v_date IN
+        SELECT d::date
+        FROM generate_series(v_today, v_today + (v_weeks * 7 - 1), INTERVAL '1 day') AS d
+        WHERE EXTRACT(DOW FROM d)::integer IN (
+          SELECT jsonb_array_elements_text(v_rule->'weekdays')::integer
+        )
+      LOOP
+        -- Today's slot is only worth creating if it has not already ended
+        CONTINUE WHEN v_date = v_today AND (v_rule->>'end_time')::time <= v_now_time;
+
+        CONTINUE WHEN EXISTS (
+          SELECT 1 FROM doctor_slots ds
+          WHERE ds.clinic_doctor_id = v_doctor.id
+            AND ds.slot_date = v_date
+            AND (
+              (ds.slot_name = v_rule->>'slot_name'
+                AND COALESCE(ds.slot_type, 'in-clinic') = COALESCE(v_rule->>'slot_type', 'in-clinic'))
+              OR (ds.is_active = true
+                AND ds.start_time < (v_rule->>'end_time')::time
+                AND ds.end_time > (v_rule->>'start_time')::time)
+            )
+        );
+
+        INSERT INTO doctor_slots (
+          clinic_doctor_id, slot_date, slot_name, start_time, end_time,
+          max_capacity, current_bookings, is_active, slot_type
+        ) VALUES (
+          v_doctor.id,
+          v_date,
+          v_rule->>'slot_name',
+          (v_rule->>'start_time')::time,
+          (v_rule->>'end_time')::time,
+          COALESCE((v_rule->>'max_capacity')::integer, 10),
+          0,
+          true,
+          COALESCE(v_rule->>'slot_type', 'in-clinic')
+        )
+        ON CONFLICT DO NOTHING
+        RETURNING * INTO v_slot;
+
+        IF v_slot.id IS NOT NULL THEN
+          RETURN NEXT v_slot;
+          v_slot := NULL;
+        END IF;
+      END LOOP;
+    END LOOP;
+  END LOOP;
+
+  RETURN;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.materialize_recurring_slots FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.materialize_recurring_slots TO authenticated, service_role;
+
+COMMENT ON FUNCTION public.materialize_recurring_slots IS
+  'Creates doctor_slots from the weekly rules in clinic_doctors.availability_schedule up to weeks_ahead weeks from today (IST); returns the slots created';
+
+-- ============================================================================
+-- STEP 2: Schedule the cron job (runs daily at 00:30 IST)
+-- NOTE: pg_cron must be enabled in your Supabase dashboard first!
+-- ============================================================================
+DO $$
+BEGIN
+  PERFORM cron.unschedule('materialize-recurring-slots');
+EXCEPTION WHEN OTHERS THEN
+  -- Job doesn't exist, that's fine
+  NULL;
+END $$;
+
+SELECT cron.schedule(
+  'materialize-recurring-slots',
+  '0 19 * * *',
+  'SELECT count(*) FROM materialize_recurring_slots();'
+);
+
+-- ============================================================================
+-- VERIFICATION: SELECT * FROM cron.job WHERE jobname = 'materialize-recurring-slots';
+-- TO DISABLE:   SELECT cron.unschedule('materialize-recurring-slots');
+-- ============================================================================
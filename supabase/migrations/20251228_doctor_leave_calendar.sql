@@ -0,0 +1,169 @@
+-- Doctor Leave and Clinic Holiday Calendar Migration
+-- A doctor_leaves row blocks a date range for one doctor, or for the whole
+-- clinic when clinic_doctor_id is NULL (clinic holiday). While it exists:
+--   * active doctor_slots in the range are deactivated (blocked_by_leave_id
+--     records which leave did it)
+--   * slots created in the range later (manually or by
+--     materialize_recurring_slots) are created inactive
+-- Removing or shortening the leave reactivates only the slots it blocked.
+-- Appointments already booked in the range are left for staff to reschedule
+-- or cancel from the Leave & Holidays page.
+
+-- ============================================================================
+-- STEP 1: doctor_leaves table
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.doctor_leaves (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  clinic_id uuid NOT NULL DEFAULT current_clinic_id()
+    REFERENCES public.clinic_profiles(id) ON DELETE CASCADE,
+  -- NULL = the whole clinic is closed
+  clinic_doctor_id uuid REFERENCES public.clinic_doctors(id) ON DELETE CASCADE,
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  reason text,
+  created_by uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT doctor_leaves_date_check CHECK (end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_doctor_leaves_clinic_dates
+  ON public.doctor_leaves(clinic_id, start_date, end_date);
+
+CREATE OR REPLACE FUNCTION public.update_doctor_leaves_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_doctor_leaves_updated_at ON public.doctor_leaves;
+CREATE TRIGGER trigger_doctor_leaves_updated_at
+  BEFORE UPDATE ON public.doctor_leaves
+  FOR EACH ROW EXECUTE FUNCTION public.update_doctor_leaves_updated_at();
+
+ALTER TABLE public.doctor_slots
+  ADD COLUMN IF NOT EXISTS blocked_by_leave_id uuid;
+
+COMMENT ON COLUMN public.doctor_slots.blocked_by_leave_id IS
+  'The doctor_leaves row that deactivated this slot; cleared when the leave is removed';
+
+-- ============================================================================
+-- STEP 2: RLS - readable by every clinic member (the calendar is shown when
+-- booking), managed by staff who manage doctors or appointments
+-- ============================================================================
+ALTER TABLE public.doctor_leaves ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Clinic staff can view leave" ON public.doctor_leaves
+  FOR SELECT USING (clinic_id = current_clinic_id());
+
+CREATE POLICY "Clinic staff can manage leave" ON public.doctor_leaves
+  FOR ALL USING (
+    clinic_id = current_clinic_id()
+    AND (has_clinic_permission('manage_doctors') OR has_clinic_permission('manage_appointments'))
+  )
+  WITH CHECK (
+    clinic_id = current_clinic_id()
+    AND (has_clinic_permission('manage_doctors') OR has_clinic_permission('manage_appointments'))
+    AND (
+      clinic_doctor_id IS NULL
+      OR clinic_doctor_id IN (SELECT id FROM public.clinic_doctors WHERE clinic_id = current_clinic_id())
+    )
+  );
+
+-- ============================================================================
+-- STEP 3: Slot blocking
+-- ============================================================================
+
+-- The leave (other than p_exclude_leave_id) covering a doctor's date, if any
+CREATE OR REPLACE FUNCTION public.leave_covering_slot(
+  p_clinic_doctor_id uuid,
+  p_slot_date date,
+  p_exclude_leave_id uuid DEFAULT NULL
+)
+RETURNS uuid AS $$
+  SELECT dl.id
+  FROM doctor_leaves dl
+  JOIN clinic_doctors cd ON cd.clinic_id = dl.clinic_id
+  WHERE cd.id = p_clinic_doctor_id
+    AND (dl.clinic_doctor_id IS NULL OR dl.clinic_doctor_id = p_clinic_doctor_id)
+    AND p_slot_date BETWEEN dl.start_date AND dl.end_date
+    AND dl.id IS DISTINCT FROM p_exclude_leave_id
+  ORDER BY dl.created_at
+  LIMIT 1;
+$$ LANGUAGE sql STABLE;
+
+-- Hand the slots blocked by a leave to another covering leave, or reactivate them
+CREATE OR REPLACE FUNCTION public.release_leave_slots(p_leave_id uuid)
+RETURNS void AS $$
+BEGIN
+  UPDATE doctor_slots ds
+  SET blocked_by_leave_id = leave_covering_slot(ds.clinic_doctor_id, ds.slot_date, p_leave_id),
+      is_active = leave_covering_slot(ds.clinic_doctor_id, ds.slot_date, p_leave_id) IS NULL,
+      updated_at = now()
+  WHERE ds.blocked_by_leave_id = p_leave_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.apply_doctor_leave()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM release_leave_slots(OLD.id);
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+
+  UPDATE doctor_slots ds
+  SET is_active = false,
+      blocked_by_leave_id = NEW.id,
+      updated_at = now()
+  FROM clinic_doctors cd
+  WHERE cd.id = ds.clinic_doctor_id
+    AND cd.clinic_id = NEW.clinic_id
+    AND (NEW.clinic_doctor_id IS NULL OR ds.clinic_doctor_id = NEW.clinic_doctor_id)
+    AND ds.slot_date BETWEEN NEW.start_date AND NEW.end_date
+    AND ds.is_active = true;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_apply_doctor_leave ON public.doctor_leaves;
+CREATE TRIGGER trigger_apply_doctor_leave
+  AFTER INSERT OR UPDATE OF clinic_doctor_id, start_date, end_date ON public.doctor_leaves
+  FOR EACH ROW EXECUTE FUNCTION public.apply_doctor_leave();
+
+-- Release before the row goes so the blocked slots can still be found
+DROP TRIGGER IF EXISTS trigger_release_doctor_leave ON public.doctor_leaves;
+CREATE TRIGGER trigger_release_doctor_leave
+  BEFORE DELETE ON public.doctor_leaves
+  FOR EACH ROW EXECUTE FUNCTION public.apply_doctor_leave();
+
+-- New slots on a leave day are created inactive
+CREATE OR REPLACE FUNCTION public.block_slot_on_leave()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_leave_id uuid;
+BEGIN
+  IF NEW.is_active IS NOT FALSE THEN
+    v_leave_id := leave_covering_slot(NEW.clinic_doctor_id, NEW.slot_date);
+    IF v_leave_id IS NOT NULL THEN
+      NEW.is_active := false;
+      NEW.blocked_by_leave_id := v_leave_id;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_block_slot_on_leave ON public.doctor_slots;
+CREATE TRIGGER trigger_block_slot_on_leave
+  BEFORE INSERT ON public.doctor_slots
+  FOR EACH ROW EXECUTE FUNCTION public.block_slot_on_leave();
+
+COMMENT ON TABLE public.doctor_leaves IS
+  'Doctor leave (clinic_doctor_id set) and clinic holidays (clinic_doctor_id NULL); slots in the range are deactivated while the row exists';
@@ -0,0 +1,542 @@
+-- Slot Waitlist Migration
+-- Patients can join a waitlist for a full doctor_slots row. Whenever a seat
+-- frees up (cancellation, capacity increase, slot reactivation,
+-- SlotBookingService.cancelSlotBooking deleting a slot booking) the next waiting patient is offered it:
+--   * the entry becomes 'offered' and the seat is held for them until
+--     hold_expires_at (validate_slot_capacity counts held seats as taken)
+--   * a waitlist_slot_offered WhatsApp message tells the patient
+--   * staff confirm the booking from the slot's waitlist (book_waitlist_offer)
+-- The expire-waitlist-offers cron job releases unclaimed holds every 5 minutes
+-- and offers the seat to the next patient in line.
+
+-- ============================================================================
+-- STEP 1: slot_waitlist table
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.slot_waitlist (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  clinic_id uuid NOT NULL DEFAULT current_clinic_id()
+    REFERENCES public.clinic_profiles(id) ON DELETE CASCADE,
+  doctor_slot_id uuid NOT NULL REFERENCES public.doctor_slots(id) ON DELETE CASCADE,
+  clinic_patient_id uuid NOT NULL REFERENCES public.clinic_patients(id) ON DELETE CASCADE,
+  appointment_type text,
+  notes text,
+  status text NOT NULL DEFAULT 'waiting'
+    CHECK (status IN ('waiting', 'offered', 'booked', 'expired', 'cancelled')),
+  offered_at timestamptz,
+  hold_expires_at timestamptz,
+  appointment_id uuid REFERENCES public.appointments(id) ON DELETE SET NULL,
+  message_log_id uuid REFERENCES public.message_log(id) ON DELETE SET NULL,
+  created_by uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- A patient waits at most once per slot
+CREATE UNIQUE INDEX IF NOT EXISTS idx_slot_waitlist_open_entry
+  ON public.slot_waitlist(doctor_slot_id, clinic_patient_id)
+  WHERE status IN ('waiting', 'offered');
+CREATE INDEX IF NOT EXISTS idx_slot_waitlist_slot_status
+  ON public.slot_waitlist(doctor_slot_id, status, created_at);
+CREATE INDEX IF NOT EXISTS idx_slot_waitlist_hold
+  ON public.slot_waitlist(hold_expires_at) WHERE status = 'offered';
+
+CREATE OR REPLACE FUNCTION public.update_slot_waitlist_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_slot_waitlist_updated_at ON public.slot_waitlist;
+CREATE TRIGGER trigger_slot_waitlist_updated_at
+  BEFORE UPDATE ON public.slot_waitlist
+  FOR EACH ROW EXECUTE FUNCTION public.update_slot_waitlist_updated_at();
+
+ALTER TABLE public.slot_waitlist ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Clinic staff can view waitlist" ON public.slot_waitlist
+  FOR SELECT USING (clinic_id = current_clinic_id());
+
+CREATE POLICY "Clinic staff can manage waitlist" ON public.slot_waitlist
+  FOR ALL USING (clinic_id = current_clinic_id() AND has_clinic_permission('manage_appointments'))
+  WITH CHECK (clinic_id = current_clinic_id() AND has_clinic_permission('manage_appointments'));
+
+-- ============================================================================
+-- STEP 2: Let scheduled jobs queue messages that have no appointment yet
+-- (adds p_clinic_id; otherwise unchanged from 20251225)
+-- ============================================================================
+DROP FUNCTION IF EXISTS public.enqueue_whatsapp_message(text, jsonb, uuid, uuid, uuid);
+
+CREATE OR REPLACE FUNCTION public.enqueue_whatsapp_message(
+  p_to text,
+  p_template jsonb,
+  p_appointment_id uuid DEFAULT NULL,
+  p_patient_profile_id uuid DEFAULT NULL,
+  p_resent_from uuid DEFAULT NULL,
+  p_clinic_id uuid DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  v_clinic_id uuid := p_clinic_id;
+  v_patient_profile_id uuid := p_patient_profile_id;
+  v_block_reason text;
+  v_delay integer := 0;
+  v_log_id uuid;
+  v_msg_id bigint;
+BEGIN
+  IF p_to IS NULL OR p_template->>'name' IS NULL THEN
+    RAISE EXCEPTION 'Recipient and template name are required';
+  END IF;
+
+  -- Resolve clinic and patient from the appointment when one is given
+  IF p_appointment_id IS NOT NULL THEN
+    SELECT cd.clinic_id, COALESCE(v_patient_profile_id, cp.patient_profile_id)
+    INTO v_clinic_id, v_patient_profile_id
+    FROM appointments a
+    JOIN clinic_doctors cd ON cd.id = a.clinic_doctor_id
+    LEFT JOIN clinic_patients cp ON cp.id = a.clinic_patient_id
+    WHERE a.id = p_appointment_id;
+  END IF;
+
+  -- Signed-in callers may only message on behalf of their own clinic.
+  -- Without a login only the service role and scheduled jobs are trusted
+  -- (session_user: inside this function current_user is always the owner).
+  IF auth.uid() IS NOT NULL THEN
+    IF current_clinic_id() IS NULL THEN
+      RAISE EXCEPTION 'Not authorized to send messages';
+    END IF;
+
+    IF p_appointment_id IS NOT NULL AND v_clinic_id IS DISTINCT FROM current_clinic_id() THEN
+      RAISE EXCEPTION 'Appointment not found for this clinic';
+    END IF;
+
+    IF p_clinic_id IS NOT NULL AND p_clinic_id IS DISTINCT FROM current_clinic_id() THEN
+      RAISE EXCEPTION 'Not authorized to send messages for this clinic';
+    END IF;
+
+    v_clinic_id := current_clinic_id();
+  ELSIF auth.role() IS DISTINCT FROM 'service_role' AND session_user <> 'postgres' THEN
+    RAISE EXCEPTION 'Not authorized to send messages';
+  END IF;
+
+  IF v_clinic_id IS NULL THEN
+    RAISE EXCEPTION 'Could not resolve the clinic for this message';
+  END IF;
+
+  -- Fall back to the clinic's patient with this phone number
+  IF v_patient_profile_id IS NULL THEN
+    SELECT pp.id INTO v_patient_profile_id
+    FROM patient_profiles pp
+    JOIN clinic_patients cp ON cp.patient_profile_id = pp.id AND cp.clinic_id = v_clinic_id
+    WHERE right(regexp_replace(pp.phone, '[^0-9]', '', 'g'), 10)
+      = right(regexp_replace(p_to, '[^0-9]', '', 'g'), 10)
+    LIMIT 1;
+  END IF;
+
+  IF v_patient_profile_id IS NOT NULL THEN
+    v_block_reason := message_block_reason(v_patient_profile_id, 'whatsapp');
+    v_delay := quiet_hours_remaining_seconds(v_patient_profile_id);
+  END IF;
+
+  INSERT INTO message_log (
+    clinic_id, channel, template, recipient, patient_profile_id,
+    appointment_id, status, error, payload, resent_from
+  ) VALUES (
+    v_clinic_id, 'whatsapp', p_template->>'name', p_to, v_patient_profile_id,
+    p_appointment_id,
+    CASE WHEN v_block_reason IS NULL THEN 'queued' ELSE 'skipped' END,
+    v_block_reason,
+    jsonb_build_object('template', p_template), p_resent_from
+  )
+  RETURNING id INTO v_log_id;
+
+  IF v_block_reason IS NOT NULL THEN
+    RETURN v_log_id;
+  END IF;
+
+  v_msg_id := pgmq.send('queue_notifications', jsonb_build_object(
+    'channel', 'whatsapp',
+    'to', p_to,
+    'template', p_template,
+    'appointment_id', p_appointment_id,
+    'clinic_id', v_clinic_id,
+    'message_log_id', v_log_id,
+    'enqueued_at', now()
+  ), v_delay);
+
+  UPDATE message_log SET queue_msg_id = v_msg_id WHERE id = v_log_id;
+
+  IF p_appointment_id IS NOT NULL THEN
+    UPDATE appointments
+    SET whatsapp_status = 'queued',
+        whatsapp_status_updated_at = now(),
+        whatsapp_last_error = NULL
+    WHERE id = p_appointment_id;
+  END IF;
+
+  RETURN v_log_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.enqueue_whatsapp_message FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.enqueue_whatsapp_message TO authenticated;
+GRANT EXECUTE ON FUNCTION public.enqueue_whatsapp_message TO service_role;
+
+COMMENT ON FUNCTION public.enqueue_whatsapp_message IS
+  'Logs and queues a WhatsApp template message for queue-processor, honouring the patient''s WhatsApp consent and quiet hours; returns the message_log id';
+
+-- ============================================================================
+-- STEP 3: Held seats count against slot capacity
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.slot_held_seats(p_slot_id uuid)
+RETURNS integer AS $$
+  SELECT COUNT(*)::integer
+  FROM slot_waitlist
+  WHERE doctor_slot_id = p_slot_id
+    AND status = 'offered'
+    AND hold_expires_at > now();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- validate_slot_capacity runs as the booking user, so clinic logins keep EXECUTE
+REVOKE EXECUTE ON FUNCTION public.slot_held_seats FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.slot_held_seats TO authenticated, service_role;
+
+CREATE OR REPLACE FUNCTION validate_slot_capacity()
+RETURNS TRIGGER AS $$
+DECLARE
+  slot_capacity integer;
+  current_count integer;
+BEGIN
+  SELECT max_capacity, current_bookings
+  INTO slot_capacity, current_count
+  FROM public.doctor_slots
+  WHERE id = NEW.doctor_slot_id;
+
+  -- Seats held for waitlisted patients are not available to other bookings
+  IF current_count + public.slot_held_seats(NEW.doctor_slot_id) >= slot_capacity THEN
+    RAISE EXCEPTION 'Slot is at maximum capacity (%)', slot_capacity;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- STEP 4: Offer freed seats to the waitlist
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.offer_waitlist_seats(
+  p_slot_id uuid,
+  p_hold_minutes integer DEFAULT 30
+)
+RETURNS integer AS $$
+DECLARE
+  v_slot record;
+  v_entry record;
+  v_free integer;
+  v_language text;
+  v_hold_until timestamptz;
+  v_template jsonb;
+  offered_count integer := 0;
+BEGIN
+  SELECT
+    ds.id, ds.slot_date, ds.start_time, ds.end_time, ds.max_capacity,
+    ds.current_bookings, ds.is_active,
+    cd.clinic_id,
+    COALESCE(dp.full_name, 'Doctor') AS doctor_name,
+    COALESCE(cpf.clinic_name, 'Clinic') AS clinic_name
+  INTO v_slot
+  FROM doctor_slots ds
+  JOIN clinic_doctors cd ON cd.id = ds.clinic_doctor_id
+  LEFT JOIN doctor_profiles dp ON dp.id = cd.doctor_profile_id
+  LEFT JOIN clinic_profiles cpf ON cpf.id = cd.clinic_id
+  WHERE ds.id = p_slot_id;
+
+  -- Nothing to offer for closed or finished slots
+  IF v_slot.id IS NULL OR NOT v_slot.is_active
+    OR (v_slot.slot_date + v_slot.end_time) <= (now() AT TIME ZONE 'Asia/Kolkata') THEN
+    RETURN 0;
+  END IF;
+
+  v_free := v_slot.max_capacity - v_slot.current_bookings - slot_held_seats(p_slot_id);
+
+  -- Never hold a seat past the end of the slot
+  v_hold_until := LEAST(
+    now() + make_interval(mins => p_hold_minutes),
+    (v_slot.slot_date + v_slot.end_time) AT TIME ZONE 'Asia/Kolkata'
+  );
+
+  WHILE v_free > 0 LOOP
+    SELECT sw.id, pp.id AS patient_profile_id, pp.full_name, pp.phone, pp.preferred_language
+    INTO v_entry
+    FROM slot_waitlist sw
+    JOIN clinic_patients cp ON cp.id = sw.clinic_patient_id
+    JOIN patient_profiles pp ON pp.id = cp.patient_profile_id
+    WHERE sw.doctor_slot_id = p_slot_id
+      AND sw.status = 'waiting'
+    ORDER BY sw.created_at
+    LIMIT 1
+    FOR UPDATE OF sw SKIP LOCKED;
+
+    EXIT WHEN v_entry.id IS NULL;
+
+    UPDATE slot_waitlist
+    SET status = 'offered',
+        offered_at = now(),
+        hold_expires_at = v_hold_until
+    WHERE id = v_entry.id;
+
+    v_free := v_free - 1;
+    offered_count := offered_count + 1;
+
+    IF v_entry.phone IS NOT NULL THEN
+      -- Localised templates share the English parameter order
+      -- (see WHATSAPP_TEMPLATES in src/constants/whatsappTemplates.ts)
+      v_language := whatsapp_template_language(v_entry.preferred_language);
+      v_template := jsonb_build_object(
+        'name', 'waitlist_slot_offered' || CASE WHEN v_language = 'en' THEN '' ELSE '_' || v_language END,
+        'language', jsonb_build_object('code', v_language),
+        'components', jsonb_build_array(jsonb_build_object(
+          'type', 'body',
+          'parameters', jsonb_build_array(
+            jsonb_build_object('type', 'text', 'text', COALESCE(v_entry.full_name, 'Patient')),
+            jsonb_build_object('type', 'text', 'text', v_slot.doctor_name),
+            jsonb_build_object('type', 'text', 'text', v_slot.clinic_name),
+            jsonb_build_object('type', 'text', 'text', to_char(v_slot.slot_date, 'YYYY-MM-DD')),
+            jsonb_build_object('type', 'text', 'text', to_char(v_slot.start_time, 'HH24:MI')),
+            jsonb_build_object('type', 'text', 'text',
+              to_char(v_hold_until AT TIME ZONE 'Asia/Kolkata', 'HH24:MI'))
+          )
+        ))
+      );
+
+      -- A failed message must not undo the offer; staff can still call the patient
+      BEGIN
+        UPDATE slot_waitlist
+        SET message_log_id = enqueue_whatsapp_message(
+          format_whatsapp_phone(v_entry.phone),
+          v_template,
+          NULL,
+          v_entry.patient_profile_id,
+          NULL,
+          v_slot.clinic_id
+        )
+        WHERE id = v_entry.id;
+      EXCEPTION WHEN OTHERS THEN
+        RAISE WARNING '[SLOT-WAITLIST] Offer message for entry %: %', v_entry.id, SQLERRM;
+      END;
+    END IF;
+
+    v_entry := NULL;
+  END LOOP;
+
+  RETURN offered_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the triggers below and expire_waitlist_offers make offers
+REVOKE EXECUTE ON FUNCTION public.offer_waitlist_seats FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.offer_waitlist_seats TO service_role;
+
+COMMENT ON FUNCTION public.offer_waitlist_seats IS
+  'Offers each free seat of a slot to the next waiting patient, holds it for p_hold_minutes and sends the waitlist_slot_offered WhatsApp message; returns the number of offers made';
+
+-- Any change that can free a seat re-checks the waitlist
+CREATE OR REPLACE FUNCTION public.offer_waitlist_on_slot_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.is_active
+    AND (
+      NOT OLD.is_active
+      OR (NEW.max_capacity - NEW.current_bookings) > (OLD.max_capacity - OLD.current_bookings)
+    )
+    AND EXISTS (
+      SELECT 1 FROM slot_waitlist WHERE doctor_slot_id = NEW.id AND status = 'waiting'
+    ) THEN
+    PERFORM offer_waitlist_seats(NEW.id);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_offer_waitlist_on_slot_change ON public.doctor_slots;
+CREATE TRIGGER trigger_offer_waitlist_on_slot_change
+  AFTER UPDATE OF current_bookings, max_capacity, is_active ON public.doctor_slots
+  FOR EACH ROW EXECUTE FUNCTION public.offer_waitlist_on_slot_change();
+
+-- A patient joining while a seat is free, or giving up a held seat, also
+-- re-checks the waitlist. A failed offer must not undo the waitlist change;
+-- expire_waitlist_offers retries.
+CREATE OR REPLACE FUNCTION public.offer_waitlist_on_entry_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  BEGIN
+    PERFORM offer_waitlist_seats(NEW.doctor_slot_id);
+  EXCEPTION WHEN OTHERS THEN
+    RAISE WARNING '[SLOT-WAITLIST] Slot %: %', NEW.doctor_slot_id, SQLERRM;
+  END;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_offer_waitlist_on_join ON public.slot_waitlist;
+CREATE TRIGGER trigger_offer_waitlist_on_join
+  AFTER INSERT ON public.slot_waitlist
+  FOR EACH ROW WHEN (NEW.status = 'waiting')
+  EXECUTE FUNCTION public.offer_waitlist_on_entry_change();
+
+DROP TRIGGER IF EXISTS trigger_offer_waitlist_on_release ON public.slot_waitlist;
+CREATE TRIGGER trigger_offer_waitlist_on_release
+  AFTER UPDATE OF status ON public.slot_waitlist
+  FOR EACH ROW WHEN (OLD.status = 'offered' AND NEW.status = 'cancelled')
+  EXECUTE FUNCTION public.offer_waitlist_on_entry_change();
+
+-- ============================================================================
+-- STEP 5: Book a held seat (staff confirm the offer with the patient)
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.book_waitlist_offer(p_waitlist_id uuid)
+RETURNS uuid AS $$
+DECLARE
+  v_entry record;
+  v_booked integer;
+  v_datetime timestamptz;
+  v_appointment_id uuid;
+BEGIN
+  SELECT
+    sw.id, sw.status, sw.hold_expires_at, sw.clinic_patient_id,
+    sw.appointment_type, sw.notes, sw.clinic_id,
+    ds.id AS slot_id, ds.slot_date, ds.start_time, ds.end_time, ds.clinic_doctor_id,
+    cd.consultation_fee
+  INTO v_entry
+  FROM slot_waitlist sw
+  JOIN doctor_slots ds ON ds.id = sw.doctor_slot_id
+  JOIN clinic_doctors cd ON cd.id = ds.clinic_doctor_id
+  WHERE sw.id = p_waitlist_id
+  FOR UPDATE OF sw;
+
+  IF v_entry.id IS NULL OR v_entry.clinic_id IS DISTINCT FROM current_clinic_id() THEN
+    RAISE EXCEPTION 'Waitlist entry not found';
+  END IF;
+
+  IF NOT has_clinic_permission('manage_appointments') THEN
+    RAISE EXCEPTION 'Not authorized to book appointments';
+  END IF;
+
+  IF v_entry.status <> 'offered' OR v_entry.hold_expires_at <= now() THEN
+    RAISE EXCEPTION 'This offer is no longer held. The seat has been released.';
+  END IF;
+
+  -- Same spacing as AddAppointmentModal: 40 minutes per booked patient from the slot start
+  SELECT COUNT(*) INTO v_booked
+  FROM appointments
+  WHERE doctor_slot_id = v_entry.slot_id AND status = 'scheduled';
+
+  v_datetime := (v_entry.slot_date + v_entry.start_time) AT TIME ZONE 'Asia/Kolkata'
+    + make_interval(mins => v_booked * 40);
+  IF v_datetime >= (v_entry.slot_date + v_entry.end_time) AT TIME ZONE 'Asia/Kolkata' THEN
+    v_datetime := (v_entry.slot_date + v_entry.start_time) AT TIME ZONE 'Asia/Kolkata';
+  END IF;
+
+  INSERT INTO appointments (
+    user_id, clinic_patient_id, clinic_doctor_id, doctor_slot_id, slot_booking_order,
+    appointment_datetime, appointment_type, notes, status, duration_minutes,
+    consultation_fee, emergency_status
+  ) VALUES (
+    v_entry.clinic_id, v_entry.clinic_patient_id, v_entry.clinic_doctor_id, v_entry.slot_id,
+    v_booked + 1, v_datetime, v_entry.appointment_type, v_entry.notes, 'scheduled', 30,
+    v_entry.consultation_fee, false
+  )
+  RETURNING id INTO v_appointment_id;
+
+  -- Release the hold and take the seat in one step
+  UPDATE slot_waitlist
+  SET status = 'booked', appointment_id = v_appointment_id
+  WHERE id = p_waitlist_id;
+
+  UPDATE doctor_slots
+  SET current_bookings = current_bookings + 1, updated_at = now()
+  WHERE id = v_entry.slot_id;
+
+  RETURN v_appointment_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.book_waitlist_offer TO authenticated;
+
+COMMENT ON FUNCTION public.book_waitlist_offer IS
+  'Turns a held waitlist offer into a scheduled appointment in the slot; returns the appointment id';
+
+-- ============================================================================
+-- STEP 6: Release expired holds and move down the waitlist
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.expire_waitlist_offers()
+RETURNS INTEGER AS $$
+DECLARE
+  v_slot_id uuid;
+  expired_count INTEGER := 0;
+  affected_count INTEGER;
+BEGIN
+  FOR v_slot_id IN
+    WITH expired AS (
+      UPDATE slot_waitlist
+      SET status = 'expired'
+      WHERE status = 'offered' AND hold_expires_at <= now()
+      RETURNING doctor_slot_id
+    )
+    SELECT DISTINCT doctor_slot_id FROM expired
+  LOOP
+    expired_count := expired_count + 1;
+    BEGIN
+      PERFORM offer_waitlist_seats(v_slot_id);
+    EXCEPTION WHEN OTHERS THEN
+      RAISE WARNING '[SLOT-WAITLIST] Slot %: %', v_slot_id, SQLERRM;
+    END;
+  END LOOP;
+
+  -- Waiting entries for slots that have ended will never be offered
+  UPDATE slot_waitlist sw
+  SET status = 'expired'
+  FROM doctor_slots ds
+  WHERE ds.id = sw.doctor_slot_id
+    AND sw.status = 'waiting'
+    AND (ds.slot_date + ds.end_time) <= (now() AT TIME ZONE 'Asia/Kolkata');
+
+  GET DIAGNOSTICS affected_count = ROW_COUNT;
+
+  IF expired_count > 0 OR affected_count > 0 THEN
+    RAISE NOTICE '[SLOT-WAITLIST] Released holds on % slots, closed % entries for past slots at %',
+      expired_count, affected_count, NOW();
+  END IF;
+
+  RETURN expired_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.expire_waitlist_offers FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.expire_waitlist_offers TO service_role;
+
+COMMENT ON FUNCTION public.expire_waitlist_offers IS
+  'Expires waitlist offers whose hold has run out and offers the seats to the next patients. Called by pg_cron every 5 minutes.';
+
+-- ============================================================================
+-- STEP 7: Schedule the cron job (runs every 5 minutes)
+-- NOTE: pg_cron must be enabled in your Supabase dashboard first!
+-- ============================================================================
+DO $$
+BEGIN
+  PERFORM cron.unschedule('expire-waitlist-offers');
+EXCEPTION WHEN OTHERS THEN
+  -- Job doesn't exist, that's fine
+  NULL;
+END $$;
+
+SELECT cron.schedule(
+  'expire-waitlist-offers',
+  '*/5 * * * *',
+  'SELECT expire_waitlist_offers();'
+);
+
+-- ============================================================================
+-- VERIFICATION: SELECT * FROM cron.job WHERE jobname = 'expire-waitlist-offers';
+-- TO DISABLE:   SELECT cron.unschedule('expire-waitlist-offers');
+-- ============================================================================
@@ -0,0 +1,171 @@
+-- Appointment Status Transitions Migration
+-- Enforces the appointment lifecycle in the database so every writer (the
+-- admin UI, services, edge functions and cron jobs) follows the same rules:
+--   * illegal transitions such as completed -> scheduled are rejected
+--   * checked_in_at / actual_start_time / actual_end_time are set when the
+--     status changes, and cleared when an appointment goes back to scheduled
+--   * every change is recorded in appointment_status_history with its reason
+-- The allowed transitions are mirrored by APPOINTMENT_STATUS_TRANSITIONS in
+-- src/constants/index.ts - keep them in sync.
+
+-- ============================================================================
+-- STEP 1: Columns and history table
+-- ============================================================================
+ALTER TABLE public.appointments
+  ADD COLUMN IF NOT EXISTS status_reason text,
+  ADD COLUMN IF NOT EXISTS status_changed_at timestamptz;
+
+COMMENT ON COLUMN public.appointments.status_reason IS
+  'Why the appointment moved to its current status (e.g. cancellation reason); cleared on the next change unless a new reason is given';
+
+CREATE TABLE IF NOT EXISTS public.appointment_status_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  appointment_id uuid NOT NULL REFERENCES public.appointments(id) ON DELETE CASCADE,
+  from_status text NOT NULL,
+  to_status text NOT NULL,
+  reason text,
+  -- NULL = changed by a scheduled job
+  changed_by uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  -- Staff name or clinic admin at the time of the change; staff logins can
+  -- not read each other's clinic_staff rows, so the name is kept here
+  changed_by_name text,
+  changed_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_appointment_status_history_appointment
+  ON public.appointment_status_history(appointment_id, changed_at DESC);
+
+ALTER TABLE public.appointment_status_history ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the trigger below
+CREATE POLICY "Clinic staff can view status history" ON public.appointment_status_history
+  FOR SELECT USING (
+    appointment_id IN (
+      SELECT a.id
+      FROM public.appointments a
+      JOIN public.clinic_doctors cd ON cd.id = a.clinic_doctor_id
+      WHERE cd.clinic_id = current_clinic_id()
+    )
+  );
+
+-- ============================================================================
+-- STEP 2: Allowed transitions
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.appointment_transition_allowed(
+  p_from text,
+  p_to text
+)
+RETURNS boolean AS $$
+  SELECT p_from = p_to OR p_to = ANY (
+    CASE p_from
+      WHEN 'scheduled' THEN ARRAY['checked-in', 'in-progress', 'cancelled', 'no-show', 'rescheduled']
+      -- back to scheduled when a checked-in patient is rescheduled
+      WHEN 'checked-in' THEN ARRAY['scheduled', 'in-progress', 'cancelled', 'no-show']
+      WHEN 'in-progress' THEN ARRAY['completed', 'cancelled']
+      WHEN 'completed' THEN ARRAY[]::text[]
+      WHEN 'cancelled' THEN ARRAY['scheduled']
+      WHEN 'no-show' THEN ARRAY['scheduled']
+      WHEN 'rescheduled' THEN ARRAY['scheduled', 'checked-in', 'cancelled', 'no-show']
+      ELSE ARRAY[]::text[]
+    END
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
+GRANT EXECUTE ON FUNCTION public.appointment_transition_allowed TO authenticated, service_role;
+
+-- ============================================================================
+-- STEP 3: Enforce on every status change
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.enforce_appointment_status_transition()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_changed_by_name text;
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT appointment_transition_allowed(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'Cannot change appointment status from % to %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- A reason belongs to one change; keep it only if the caller set a new one
+  IF NEW.status_reason IS NOT DISTINCT FROM OLD.status_reason THEN
+    NEW.status_reason := NULL;
+  END IF;
+
+  NEW.status_changed_at := now();
+
+  CASE NEW.status
+    WHEN 'checked-in' THEN
+      NEW.patient_checked_in := true;
+      NEW.checked_in_at := COALESCE(NEW.checked_in_at, now());
+    WHEN 'in-progress' THEN
+      NEW.actual_start_time := COALESCE(NEW.actual_start_time, now());
+      NEW.checked_in_at := COALESCE(NEW.checked_in_at, NEW.actual_start_time);
+    WHEN 'completed' THEN
+      NEW.actual_end_time := COALESCE(NEW.actual_end_time, now());
+    WHEN 'scheduled' THEN
+      -- Rescheduled or reactivated: the visit has not happened yet
+      NEW.patient_checked_in := false;
+      NEW.checked_in_at := NULL;
+      NEW.actual_start_time := NULL;
+      NEW.actual_end_time := NULL;
+    ELSE
+      NULL;
+  END CASE;
+
+  IF auth.uid() IS NOT NULL THEN
+    SELECT COALESCE(full_name, email) INTO v_changed_by_name
+    FROM clinic_staff WHERE user_id = auth.uid();
+
+    IF v_changed_by_name IS NULL THEN
+      SELECT admin_name INTO v_changed_by_name
+      FROM clinic_profiles WHERE id = auth.uid();
+    END IF;
+  END IF;
+
+  INSERT INTO appointment_status_history (
+    appointment_id, from_status, to_status, reason, changed_by_name
+  )
+  VALUES (NEW.id, OLD.status, NEW.status, NEW.status_reason, v_changed_by_name);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_enforce_appointment_status_transition ON public.appointments;
+CREATE TRIGGER trigger_enforce_appointment_status_transition
+  BEFORE UPDATE OF status ON public.appointments
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_appointment_status_transition();
+
+COMMENT ON FUNCTION public.enforce_appointment_status_transition IS
+  'Rejects status changes not allowed by appointment_transition_allowed, stamps the lifecycle timestamps and logs the change to appointment_status_history';
+
+-- ============================================================================
+-- STEP 4: Record a reason for automatic no-shows
+-- ============================================================================
+CREATE OR REPLACE FUNCTION mark_noshow_appointments()
+RETURNS INTEGER AS $$
+DECLARE
+  affected_count INTEGER;
+BEGIN
+  UPDATE appointments
+  SET
+    status = 'no-show',
+    status_reason = 'Not checked in within 30 minutes of the appointment time',
+    updated_at = NOW()
+  WHERE
+    status = 'scheduled'
+    AND appointment_datetime + INTERVAL '30 minutes' < NOW();
+
+  GET DIAGNOSTICS affected_count = ROW_COUNT;
+
+  IF affected_count > 0 THEN
+    RAISE NOTICE '[AUTO-NOSHOW] Marked % appointments as no-show at %', affected_count, NOW();
+  END IF;
+
+  RETURN affected_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,174 @@
+-- Dashboard Metrics Migration
+-- get_dashboard_metrics() returns every Dashboard metric card in one round
+-- trip instead of the client downloading all patients, doctors and
+-- appointments to count them. Each metric comes with its value a week ago so
+-- the cards can show week-over-week change:
+--   {
+--     "total_patients":     {"value": 1520, "last_week": 1490, "change_pct": 2.0},
+--     "total_doctors":      {...},
+--     "today_appointments": {...},   -- last_week = same weekday last week
+--     "pending_bills":      {..., "amount": 18250.00},  -- null without access_billing
+--     "overdue_followups":  {...},
+--     "generated_at": "..."
+--   }
+-- "Today" is the clinic day in IST.
+
+-- ============================================================================
+-- STEP 1: Helpers
+-- ============================================================================
+
+-- Follow-up date saved with the prescription (PrescriptionUploadModal stores
+-- the prescription as JSON with a followUpDate field)
+CREATE OR REPLACE FUNCTION public.appointment_follow_up_date(p_prescription text)
+RETURNS date AS $$
+BEGIN
+  IF p_prescription IS NULL OR left(ltrim(p_prescription), 1) <> '{' THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN NULLIF(p_prescription::jsonb->>'followUpDate', '')::date;
+EXCEPTION WHEN OTHERS THEN
+  -- Free-text prescriptions or malformed dates have no follow-up
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Week-over-week metric: {"value", "last_week", "change_pct"}
+CREATE OR REPLACE FUNCTION public.dashboard_metric(p_value numeric, p_last_week numeric)
+RETURNS jsonb AS $$
+  SELECT jsonb_build_object(
+    'value', p_value,
+    'last_week', p_last_week,
+    'change_pct', CASE
+      WHEN p_last_week = 0 THEN NULL
+      ELSE round((p_value - p_last_week) * 100.0 / p_last_week, 1)
+    END
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Follow-ups due before p_as_of with no visit booked after the
+-- consultation (as it looked at p_as_of, so last week's figure is comparable)
+CREATE OR REPLACE FUNCTION public.count_overdue_followups(
+  p_clinic_id uuid,
+  p_as_of timestamptz
+)
+RETURNS integer AS $$
+  SELECT COUNT(*)::integer
+  FROM appointments a
+  JOIN clinic_doctors cd ON cd.id = a.clinic_doctor_id
+  WHERE cd.clinic_id = p_clinic_id
+    AND a.status = 'completed'
+    AND a.appointment_datetime < p_as_of
+    AND appointment_follow_up_date(a.prescription)
+      < (p_as_of AT TIME ZONE 'Asia/Kolkata')::date
+    AND NOT EXISTS (
+      SELECT 1
+      FROM appointments next_visit
+      WHERE next_visit.clinic_patient_id = a.clinic_patient_id
+        AND next_visit.appointment_datetime > a.appointment_datetime
+        AND next_visit.created_at < p_as_of
+        AND next_visit.status NOT IN ('cancelled', 'no-show')
+    );
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- STEP 2: get_dashboard_metrics
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.get_dashboard_metrics()
+RETURNS jsonb AS $$
+DECLARE
+  v_clinic_id uuid := current_clinic_id();
+  v_week_ago timestamptz := now() - INTERVAL '7 days';
+  v_today date := (now() AT TIME ZONE 'Asia/Kolkata')::date;
+  v_patients integer;
+  v_patients_last_week integer;
+  v_doctors integer;
+  v_doctors_last_week integer;
+  v_today_appointments integer;
+  v_appointments_last_week integer;
+  v_pending_bills integer;
+  v_pending_amount numeric;
+  v_pending_bills_last_week integer;
+BEGIN
+  IF v_clinic_id IS NULL THEN
+    RAISE EXCEPTION 'Not authorized to view clinic metrics';
+  END IF;
+
+  SELECT
+    COUNT(*) FILTER (WHERE relationship_status = 'active'),
+    COUNT(*) FILTER (WHERE relationship_status = 'active' AND created_at < v_week_ago)
+  INTO v_patients, v_patients_last_week
+  FROM clinic_patients
+  WHERE clinic_id = v_clinic_id;
+
+  SELECT
+    COUNT(*) FILTER (WHERE is_active),
+    COUNT(*) FILTER (WHERE is_active AND created_at < v_week_ago)
+  INTO v_doctors, v_doctors_last_week
+  FROM clinic_doctors
+  WHERE clinic_id = v_clinic_id;
+
+  SELECT
+    COUNT(*) FILTER (
+      WHERE (a.appointment_datetime AT TIME ZONE 'Asia/Kolkata')::date = v_today
+    ),
+    COUNT(*) FILTER (
+      WHERE (a.appointment_datetime AT TIME ZONE 'Asia/Kolkata')::date = v_today - 7
+    )
+  INTO v_today_appointments, v_appointments_last_week
+  FROM appointments a
+  JOIN clinic_doctors cd ON cd.id = a.clinic_doctor_id
+  WHERE cd.clinic_id = v_clinic_id
+    AND a.status <> 'cancelled'
+    AND a.appointment_datetime >= (v_today - 7)::timestamp AT TIME ZONE 'Asia/Kolkata'
+    AND a.appointment_datetime < (v_today + 1)::timestamp AT TIME ZONE 'Asia/Kolkata';
+
+  -- A bill paid in the last week was still pending a week ago
+  SELECT
+    COUNT(*) FILTER (WHERE b.status IN ('pending', 'overdue')),
+    COALESCE(SUM(b.total_amount) FILTER (WHERE b.status IN ('pending', 'overdue')), 0),
+    COUNT(*) FILTER (
+      WHERE b.created_at < v_week_ago
+        AND (
+          b.status IN ('pending', 'overdue')
+          OR (b.status = 'paid' AND b.payment_date >= v_week_ago)
+        )
+    )
+  INTO v_pending_bills, v_pending_amount, v_pending_bills_last_week
+  FROM bills b
+  JOIN clinic_patients cp ON cp.id = b.clinic_patient_id
+  WHERE cp.clinic_id = v_clinic_id;
+
+  RETURN jsonb_build_object(
+    'total_patients', dashboard_metric(v_patients, v_patients_last_week),
+    'total_doctors', dashboard_metric(v_doctors, v_doctors_last_week),
+    'today_appointments', dashboard_metric(v_today_appointments, v_appointments_last_week),
+    -- Billing figures are hidden from logins without billing access, as on
+    -- the Billing page
+    'pending_bills', CASE WHEN has_clinic_permission('access_billing') THEN
+      dashboard_metric(v_pending_bills, v_pending_bills_last_week)
+        || jsonb_build_object('amount', v_pending_amount)
+    END,
+    'overdue_followups', dashboard_metric(
+      count_overdue_followups(v_clinic_id, now()),
+      count_overdue_followups(v_clinic_id, v_week_ago)
+    ),
+    'generated_at', now()
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_dashboard_metrics TO authenticated;
+
+COMMENT ON FUNCTION public.get_dashboard_metrics IS
+  'Dashboard metric cards for the current clinic with week-over-week change, in one call';
+
+-- ============================================================================
+-- STEP 3: Indexes for the counts above
+-- ============================================================================
+CREATE INDEX IF NOT EXISTS idx_appointments_doctor_datetime
+  ON public.appointments(clinic_doctor_id, appointment_datetime);
+CREATE INDEX IF NOT EXISTS idx_appointments_patient_datetime
+  ON public.appointments(clinic_patient_id, appointment_datetime);
+CREATE INDEX IF NOT EXISTS idx_bills_patient_status
+  ON public.bills(clinic_patient_id, status);
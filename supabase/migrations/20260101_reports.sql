@@ -0,0 +1,351 @@
+-- Reports Migration
+-- Aggregates the Reports page in the database instead of the browser, for any
+-- date range:
+--   * report_summary      - appointment, revenue, patient and doctor totals
+--   * report_time_series  - the same figures bucketed by day, week or month
+--   * report_breakdown    - grouped by doctor, department or appointment type
+-- Ranges are inclusive IST calendar dates. Period-over-period comparison is
+-- report_summary called for the previous range of the same length.
+-- Appointments are counted by appointment_datetime, revenue by bill created_at.
+--
+-- Every function takes an optional p_clinic_id so the scheduled report job
+-- (service role) can report on a clinic; signed-in callers always get their own.
+
+-- ============================================================================
+-- STEP 1: Helpers
+-- ============================================================================
+
+-- Clinic to report on, after checking the caller may see its reports
+CREATE OR REPLACE FUNCTION public.report_clinic_id(p_clinic_id uuid DEFAULT NULL)
+RETURNS uuid AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    IF current_clinic_id() IS NULL OR NOT has_clinic_permission('view_reports') THEN
+      RAISE EXCEPTION 'Not authorized to view reports';
+    END IF;
+
+    IF p_clinic_id IS NOT NULL AND p_clinic_id IS DISTINCT FROM current_clinic_id() THEN
+      RAISE EXCEPTION 'Not authorized to view reports for this clinic';
+    END IF;
+
+    RETURN current_clinic_id();
+  END IF;
+
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    RAISE EXCEPTION 'Not authorized to view reports';
+  END IF;
+
+  IF p_clinic_id IS NULL THEN
+    RAISE EXCEPTION 'A clinic is required for reports run without a login';
+  END IF;
+
+  RETURN p_clinic_id;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Only the report functions call it; they run as its owner
+REVOKE EXECUTE ON FUNCTION public.report_clinic_id FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.validate_report_range(p_start date, p_end date)
+RETURNS void AS $$
+BEGIN
+  IF p_start IS NULL OR p_end IS NULL THEN
+    RAISE EXCEPTION 'Report start and end dates are required';
+  END IF;
+
+  IF p_end < p_start THEN
+    RAISE EXCEPTION 'Report end date must be on or after the start date';
+  END IF;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- ============================================================================
+-- STEP 2: report_summary
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.report_summary(
+  p_start date,
+  p_end date,
+  p_clinic_id uuid DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_clinic_id uuid := report_clinic_id(p_clinic_id);
+  v_from timestamptz := p_start::timestamp AT TIME ZONE 'Asia/Kolkata';
+  v_to timestamptz := (p_end + 1)::timestamp AT TIME ZONE 'Asia/Kolkata';
+  v_appointments jsonb;
+  v_revenue jsonb;
+  v_patients jsonb;
+  v_doctors integer;
+BEGIN
+  PERFORM validate_report_range(p_start, p_end);
+
+  SELECT jsonb_build_object(
+    'total', COUNT(*),
+    'completed', COUNT(*) FILTER (WHERE a.status = 'completed'),
+    'cancelled', COUNT(*) FILTER (WHERE a.status = 'cancelled'),
+    'no_show', COUNT(*) FILTER (WHERE a.status = 'no-show'),
+    'scheduled', COUNT(*) FILTER (WHERE a.status NOT IN ('completed', 'cancelled', 'no-show')),
+    'patients_seen', COUNT(DISTINCT a.clinic_patient_id) FILTER (WHERE a.status = 'completed')
+  )
+  INTO v_appointments
+  FROM appointments a
+  JOIN clinic_doctors cd ON cd.id = a.clinic_doctor_id
+  WHERE cd.clinic_id = v_clinic_id
+    AND a.appointment_datetime >= v_from
+    AND a.appointment_datetime < v_to;
+
+  SELECT jsonb_build_object(
+    'total', COALESCE(SUM(b.total_amount), 0),
+    'paid', COALESCE(SUM(b.total_amount) FILTER (WHERE b.status = 'paid'), 0),
+    'pending', COALESCE(SUM(b.total_amount) FILTER (WHERE b.status = 'pending'), 0),
+    'overdue', COALESCE(SUM(b.total_amount) FILTER (WHERE b.status = 'overdue'), 0),
+    'bill_count', COUNT(*)
+  )
+  INTO v_revenue
+  FROM bills b
+  JOIN clinic_patients cp ON cp.id = b.clinic_patient_id
+  WHERE cp.clinic_id = v_clinic_id
+    AND b.created_at >= v_from
+    AND b.created_at < v_to;
+
+  -- Returning = registered before the range and visited during it
+  SELECT jsonb_build_object(
+    'total', COUNT(*) FILTER (WHERE cp.relationship_status = 'active'),
+    'new', COUNT(*) FILTER (WHERE cp.created_at >= v_from AND cp.created_at < v_to),
+    'returning', COUNT(*) FILTER (
+      WHERE cp.created_at < v_from
+        AND EXISTS (
+          SELECT 1 FROM appointments a
+          WHERE a.clinic_patient_id = cp.id
+            AND a.status = 'completed'
+            AND a.appointment_datetime >= v_from
+            AND a.appointment_datetime < v_to
+        )
+    )
+  )
+  INTO v_patients
+  FROM clinic_patients cp
+  WHERE cp.clinic_id = v_clinic_id;
+
+  SELECT COUNT(*) INTO v_doctors
+  FROM clinic_doctors
+  WHERE clinic_id = v_clinic_id AND is_active;
+
+  RETURN jsonb_build_object(
+    'start_date', p_start,
+    'end_date', p_end,
+    'appointments', v_appointments,
+    'revenue', v_revenue,
+    'patients', v_patients,
+    'doctors', jsonb_build_object(
+      'total', v_doctors,
+      'average_appointments', CASE
+        WHEN v_doctors = 0 THEN 0
+        ELSE round((v_appointments->>'total')::numeric / v_doctors, 1)
+      END
+    )
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- STEP 3: report_time_series
+-- ============================================================================
+-- One row per day/week/month in the range, including empty ones. Weeks start
+-- on Monday; the first and last bucket may be partial.
+CREATE OR REPLACE FUNCTION public.report_time_series(
+  p_start date,
+  p_end date,
+  p_interval text DEFAULT 'day',
+  p_clinic_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  period_start date,
+  appointments integer,
+  completed integer,
+  cancelled integer,
+  no_show integer,
+  scheduled integer,
+  revenue numeric,
+  paid numeric,
+  pending numeric,
+  overdue numeric
+) AS $$
+DECLARE
+  v_clinic_id uuid := report_clinic_id(p_clinic_id);
+  v_from timestamptz := p_start::timestamp AT TIME ZONE 'Asia/Kolkata';
+  v_to timestamptz := (p_end + 1)::timestamp AT TIME ZONE 'Asia/Kolkata';
+BEGIN
+  PERFORM validate_report_range(p_start, p_end);
+
+  IF p_interval NOT IN ('day', 'week', 'month') THEN
+    RAISE EXCEPTION 'Unsupported report interval: %', p_interval;
+  END IF;
+
+  RETURN QUERY
+  WITH buckets AS (
+    SELECT generate_series(
+      date_trunc(p_interval, p_start::timestamp),
+      p_end::timestamp,
+      ('1 ' || p_interval)::interval
+    )::date AS bucket
+  ),
+  appointment_totals AS (
+    SELECT
+      date_trunc(p_interval, a.appointment_datetime AT TIME ZONE 'Asia/Kolkata')::date AS bucket,
+      COUNT(*)::integer AS total,
+      (COUNT(*) FILTER (WHERE a.status = 'completed'))::integer AS completed,
+      (COUNT(*) FILTER (WHERE a.status = 'cancelled'))::integer AS cancelled,
+      (COUNT(*) FILTER (WHERE a.status = 'no-show'))::integer AS no_show,
+      (COUNT(*) FILTER (WHERE a.status NOT IN ('completed', 'cancelled', 'no-show')))::integer AS scheduled
+    FROM appointments a
+    JOIN clinic_doctors cd ON cd.id = a.clinic_doctor_id
+    WHERE cd.clinic_id = v_clinic_id
+      AND a.appointment_datetime >= v_from
+      AND a.appointment_datetime < v_to
+    GROUP BY 1
+  ),
+  revenue_totals AS (
+    SELECT
+      date_trunc(p_interval, b.created_at AT TIME ZONE 'Asia/Kolkata')::date AS bucket,
+      SUM(b.total_amount) AS revenue,
+      COALESCE(SUM(b.total_amount) FILTER (WHERE b.status = 'paid'), 0) AS paid,
+      COALESCE(SUM(b.total_amount) FILTER (WHERE b.status = 'pending'), 0) AS pending,
+      COALESCE(SUM(b.total_amount) FILTER (WHERE b.status = 'overdue'), 0) AS overdue
+    FROM bills b
+    JOIN clinic_patients cp ON cp.id = b.clinic_patient_id
+    WHERE cp.clinic_id = v_clinic_id
+      AND b.created_at >= v_from
+      AND b.created_at < v_to
+    GROUP BY 1
+  )
+  SELECT
+    bk.bucket,
+    COALESCE(apt.total, 0),
+    COALESCE(apt.completed, 0),
+    COALESCE(apt.cancelled, 0),
+    COALESCE(apt.no_show, 0),
+    COALESCE(apt.scheduled, 0),
+    COALESCE(rev.revenue, 0),
+    COALESCE(rev.paid, 0),
+    COALESCE(rev.pending, 0),
+    COALESCE(rev.overdue, 0)
+  FROM buckets bk
+  LEFT JOIN appointment_totals apt ON apt.bucket = bk.bucket
+  LEFT JOIN revenue_totals rev ON rev.bucket = bk.bucket
+  ORDER BY bk.bucket;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- STEP 4: report_breakdown
+-- ============================================================================
+-- p_dimension: 'doctor', 'department' or 'appointment_type'. Revenue is
+-- attributed through the bill's appointment; bills without one are grouped
+-- under 'Unassigned'.
+CREATE OR REPLACE FUNCTION public.report_breakdown(
+  p_start date,
+  p_end date,
+  p_dimension text DEFAULT 'doctor',
+  p_clinic_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  group_key text,
+  group_label text,
+  appointments integer,
+  completed integer,
+  cancelled integer,
+  no_show integer,
+  revenue numeric,
+  paid numeric
+) AS $$
+DECLARE
+  v_clinic_id uuid := report_clinic_id(p_clinic_id);
+  v_from timestamptz := p_start::timestamp AT TIME ZONE 'Asia/Kolkata';
+  v_to timestamptz := (p_end + 1)::timestamp AT TIME ZONE 'Asia/Kolkata';
+BEGIN
+  PERFORM validate_report_range(p_start, p_end);
+
+  IF p_dimension NOT IN ('doctor', 'department', 'appointment_type') THEN
+    RAISE EXCEPTION 'Unsupported report grouping: %', p_dimension;
+  END IF;
+
+  RETURN QUERY
+  WITH clinic_appointments AS (
+    SELECT
+      a.id,
+      a.status,
+      a.appointment_datetime,
+      CASE p_dimension
+        WHEN 'doctor' THEN cd.id::text
+        WHEN 'department' THEN COALESCE(NULLIF(trim(cd.department), ''), 'Unassigned')
+        ELSE COALESCE(NULLIF(trim(a.appointment_type), ''), 'Unassigned')
+      END AS key,
+      CASE p_dimension
+        WHEN 'doctor' THEN COALESCE(dp.full_name, 'Unknown doctor')
+        WHEN 'department' THEN COALESCE(NULLIF(trim(cd.department), ''), 'Unassigned')
+        ELSE COALESCE(NULLIF(trim(a.appointment_type), ''), 'Unassigned')
+      END AS label
+    FROM appointments a
+    JOIN clinic_doctors cd ON cd.id = a.clinic_doctor_id
+    LEFT JOIN doctor_profiles dp ON dp.id = cd.doctor_profile_id
+    WHERE cd.clinic_id = v_clinic_id
+  ),
+  appointment_totals AS (
+    SELECT
+      ca.key,
+      MIN(ca.label) AS label,
+      COUNT(*)::integer AS total,
+      (COUNT(*) FILTER (WHERE ca.status = 'completed'))::integer AS completed,
+      (COUNT(*) FILTER (WHERE ca.status = 'cancelled'))::integer AS cancelled,
+      (COUNT(*) FILTER (WHERE ca.status = 'no-show'))::integer AS no_show
+    FROM clinic_appointments ca
+    WHERE ca.appointment_datetime >= v_from
+      AND ca.appointment_datetime < v_to
+    GROUP BY ca.key
+  ),
+  revenue_totals AS (
+    SELECT
+      COALESCE(ca.key, 'Unassigned') AS key,
+      MIN(COALESCE(ca.label, 'Unassigned')) AS label,
+      SUM(b.total_amount) AS revenue,
+      COALESCE(SUM(b.total_amount) FILTER (WHERE b.status = 'paid'), 0) AS paid
+    FROM bills b
+    JOIN clinic_patients cp ON cp.id = b.clinic_patient_id
+    LEFT JOIN clinic_appointments ca ON ca.id = b.appointment_id
+    WHERE cp.clinic_id = v_clinic_id
+      AND b.created_at >= v_from
+      AND b.created_at < v_to
+    GROUP BY 1
+  )
+  SELECT
+    COALESCE(apt.key, rev.key),
+    COALESCE(apt.label, rev.label),
+    COALESCE(apt.total, 0),
+    COALESCE(apt.completed, 0),
+    COALESCE(apt.cancelled, 0),
+    COALESCE(apt.no_show, 0),
+    COALESCE(rev.revenue, 0),
+    COALESCE(rev.paid, 0)
+  FROM appointment_totals apt
+  FULL JOIN revenue_totals rev ON rev.key = apt.key
+  ORDER BY COALESCE(rev.revenue, 0) DESC, COALESCE(apt.total, 0) DESC;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.report_summary FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.report_time_series FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.report_breakdown FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.report_summary TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.report_time_series TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.report_breakdown TO authenticated, service_role;
+
+-- ============================================================================
+-- STEP 5: Indexes for the range scans above
+-- ============================================================================
+CREATE INDEX IF NOT EXISTS idx_bills_patient_created
+  ON public.bills(clinic_patient_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_bills_appointment
+  ON public.bills(appointment_id);
+CREATE INDEX IF NOT EXISTS idx_clinic_patients_clinic_created
+  ON public.clinic_patients(clinic_id, created_at);
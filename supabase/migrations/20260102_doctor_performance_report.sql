@@ -0,0 +1,119 @@
+-- Doctor Performance Report Migration
+-- report_doctor_performance() returns one row per clinic doctor for a date
+-- range (inclusive IST dates, like the other report_* functions):
+--   * slot utilisation   - booked seats / capacity of the doctor's active slots
+--   * consultation length - average actual_end_time - actual_start_time of
+--                           completed appointments
+--   * no-show rate        - no-shows / (completed + no-shows)
+--   * revenue             - consultation_fee of completed appointments
+--   * rating              - average patient_rating left on appointments
+-- Pass p_clinic_doctor_id for a single doctor (ManageDoctor page).
+
+CREATE OR REPLACE FUNCTION public.report_doctor_performance(
+  p_start date,
+  p_end date,
+  p_clinic_doctor_id uuid DEFAULT NULL,
+  p_clinic_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  clinic_doctor_id uuid,
+  doctor_name text,
+  department text,
+  is_active boolean,
+  slot_count integer,
+  slot_capacity integer,
+  slot_bookings integer,
+  utilisation_pct numeric,
+  appointments integer,
+  completed integer,
+  no_show integer,
+  no_show_rate numeric,
+  avg_consultation_minutes numeric,
+  revenue numeric,
+  average_rating numeric,
+  rating_count integer
+) AS $$
+DECLARE
+  v_clinic_id uuid := report_clinic_id(p_clinic_id);
+  v_from timestamptz := p_start::timestamp AT TIME ZONE 'Asia/Kolkata';
+  v_to timestamptz := (p_end + 1)::timestamp AT TIME ZONE 'Asia/Kolkata';
+BEGIN
+  PERFORM validate_report_range(p_start, p_end);
+
+  RETURN QUERY
+  WITH doctors AS (
+    SELECT cd.id, dp.full_name, cd.department, cd.is_active
+    FROM clinic_doctors cd
+    LEFT JOIN doctor_profiles dp ON dp.id = cd.doctor_profile_id
+    WHERE cd.clinic_id = v_clinic_id
+      AND (p_clinic_doctor_id IS NULL OR cd.id = p_clinic_doctor_id)
+  ),
+  slot_totals AS (
+    SELECT
+      ds.clinic_doctor_id AS doctor_id,
+      COUNT(*)::integer AS slots,
+      SUM(ds.max_capacity)::integer AS capacity,
+      SUM(LEAST(ds.current_bookings, ds.max_capacity))::integer AS bookings
+    FROM doctor_slots ds
+    JOIN doctors d ON d.id = ds.clinic_doctor_id
+    WHERE ds.is_active
+      AND ds.slot_date BETWEEN p_start AND p_end
+    GROUP BY ds.clinic_doctor_id
+  ),
+  appointment_totals AS (
+    SELECT
+      a.clinic_doctor_id AS doctor_id,
+      COUNT(*)::integer AS total,
+      (COUNT(*) FILTER (WHERE a.status = 'completed'))::integer AS completed,
+      (COUNT(*) FILTER (WHERE a.status = 'no-show'))::integer AS no_show,
+      AVG(EXTRACT(EPOCH FROM a.actual_end_time - a.actual_start_time) / 60) FILTER (
+        WHERE a.status = 'completed'
+          AND a.actual_start_time IS NOT NULL
+          AND a.actual_end_time > a.actual_start_time
+      ) AS avg_minutes,
+      COALESCE(SUM(a.consultation_fee) FILTER (WHERE a.status = 'completed'), 0) AS revenue,
+      AVG(a.patient_rating) FILTER (WHERE a.patient_rating IS NOT NULL) AS rating,
+      (COUNT(a.patient_rating))::integer AS ratings
+    FROM appointments a
+    JOIN doctors d ON d.id = a.clinic_doctor_id
+    WHERE a.appointment_datetime >= v_from
+      AND a.appointment_datetime < v_to
+    GROUP BY a.clinic_doctor_id
+  )
+  SELECT
+    d.id,
+    COALESCE(d.full_name, 'Unknown doctor'),
+    d.department,
+    COALESCE(d.is_active, false),
+    COALESCE(st.slots, 0),
+    COALESCE(st.capacity, 0),
+    COALESCE(st.bookings, 0),
+    CASE
+      WHEN COALESCE(st.capacity, 0) = 0 THEN NULL
+      ELSE round(st.bookings * 100.0 / st.capacity, 1)
+    END,
+    COALESCE(apt.total, 0),
+    COALESCE(apt.completed, 0),
+    COALESCE(apt.no_show, 0),
+    CASE
+      WHEN COALESCE(apt.completed, 0) + COALESCE(apt.no_show, 0) = 0 THEN NULL
+      ELSE round(apt.no_show * 100.0 / (apt.completed + apt.no_show), 1)
+    END,
+    round(apt.avg_minutes, 1),
+    COALESCE(apt.revenue, 0),
+    round(apt.rating, 2),
+    COALESCE(apt.ratings, 0)
+  FROM doctors d
+  LEFT JOIN slot_totals st ON st.doctor_id = d.id
+  LEFT JOIN appointment_totals apt ON apt.doctor_id = d.id
+  -- Inactive doctors only when asked for or active in the range
+  WHERE p_clinic_doctor_id IS NOT NULL
+    OR COALESCE(d.is_active, false)
+    OR apt.total > 0
+    OR st.slots > 0
+  ORDER BY COALESCE(apt.revenue, 0) DESC, d.full_name;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.report_doctor_performance FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.report_doctor_performance TO authenticated, service_role;
@@ -0,0 +1,168 @@
+-- Wait-Time Analytics Migration
+-- Historical patient wait times from the queue timestamps that the status
+-- trigger (20251230) stamps on every visit:
+--   * wait         - checked_in_at -> actual_start_time
+--   * delay        - appointment_datetime (scheduled) -> actual_start_time
+--   * estimate gap - estimated_start_time -> actual_start_time
+-- Only visits that actually started are counted. Ranges are inclusive IST
+-- dates, like the other report_* functions.
+--
+--   report_wait_time_visits - one row per visit (CSV export)
+--   report_wait_times       - summary, delay distribution, per doctor and
+--                             per hour of day
+
+-- ============================================================================
+-- STEP 1: Per-visit rows
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.report_wait_time_visits(
+  p_start date,
+  p_end date,
+  p_clinic_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  appointment_id uuid,
+  clinic_doctor_id uuid,
+  doctor_name text,
+  patient_name text,
+  appointment_datetime timestamptz,
+  checked_in_at timestamptz,
+  estimated_start_time timestamptz,
+  actual_start_time timestamptz,
+  wait_minutes numeric,
+  delay_minutes numeric,
+  estimate_gap_minutes numeric
+) AS $$
+DECLARE
+  v_clinic_id uuid := report_clinic_id(p_clinic_id);
+  v_from timestamptz := p_start::timestamp AT TIME ZONE 'Asia/Kolkata';
+  v_to timestamptz := (p_end + 1)::timestamp AT TIME ZONE 'Asia/Kolkata';
+BEGIN
+  PERFORM validate_report_range(p_start, p_end);
+
+  RETURN QUERY
+  SELECT
+    a.id,
+    cd.id,
+    COALESCE(dp.full_name, 'Unknown doctor'),
+    COALESCE(pp.full_name, 'Patient'),
+    a.appointment_datetime,
+    a.checked_in_at,
+    a.estimated_start_time,
+    a.actual_start_time,
+    -- Never checked in: no wait to measure. Started before the check-in
+    -- was recorded counts as no wait (GREATEST alone would turn NULL into 0)
+    CASE
+      WHEN a.checked_in_at IS NULL THEN NULL
+      ELSE round(GREATEST(EXTRACT(EPOCH FROM a.actual_start_time - a.checked_in_at) / 60, 0), 1)
+    END,
+    round(EXTRACT(EPOCH FROM a.actual_start_time - a.appointment_datetime) / 60, 1),
+    round(EXTRACT(EPOCH FROM a.actual_start_time - a.estimated_start_time) / 60, 1)
+  FROM appointments a
+  JOIN clinic_doctors cd ON cd.id = a.clinic_doctor_id
+  LEFT JOIN doctor_profiles dp ON dp.id = cd.doctor_profile_id
+  LEFT JOIN clinic_patients cp ON cp.id = a.clinic_patient_id
+  LEFT JOIN patient_profiles pp ON pp.id = cp.patient_profile_id
+  WHERE cd.clinic_id = v_clinic_id
+    AND a.actual_start_time IS NOT NULL
+    AND a.status IN ('in-progress', 'completed')
+    AND a.appointment_datetime >= v_from
+    AND a.appointment_datetime < v_to
+  ORDER BY a.appointment_datetime;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- STEP 2: Aggregates
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.report_wait_times(
+  p_start date,
+  p_end date,
+  p_clinic_id uuid DEFAULT NULL
+)
+RETURNS jsonb AS $$
+  WITH visits AS MATERIALIZED (
+    SELECT * FROM report_wait_time_visits(p_start, p_end, p_clinic_id)
+  )
+  SELECT jsonb_build_object(
+    'summary', (
+      SELECT jsonb_build_object(
+        'visits', COUNT(*),
+        'avg_wait', round(AVG(v.wait_minutes), 1),
+        'median_wait', percentile_cont(0.5) WITHIN GROUP (ORDER BY v.wait_minutes),
+        'p90_wait', percentile_cont(0.9) WITHIN GROUP (ORDER BY v.wait_minutes),
+        'avg_delay', round(AVG(v.delay_minutes), 1),
+        'median_delay', percentile_cont(0.5) WITHIN GROUP (ORDER BY v.delay_minutes),
+        'avg_estimate_gap', round(AVG(v.estimate_gap_minutes), 1),
+        -- Started within 5 minutes of the booked time
+        'on_time_pct', CASE
+          WHEN COUNT(*) = 0 THEN NULL
+          ELSE round(COUNT(*) FILTER (WHERE v.delay_minutes <= 5) * 100.0 / COUNT(*), 1)
+        END
+      )
+      FROM visits v
+    ),
+
+    -- Delay against the booked time in fixed buckets, empty ones included
+    'distribution', (
+      SELECT jsonb_agg(
+        jsonb_build_object('bucket', b.label, 'visits', COALESCE(c.visits, 0))
+        ORDER BY b.sort_order
+      )
+      FROM (VALUES
+        (1, 'Early / on time'),
+        (2, '1-15 min'),
+        (3, '16-30 min'),
+        (4, '31-60 min'),
+        (5, 'Over 60 min')
+      ) AS b(sort_order, label)
+      LEFT JOIN (
+        SELECT
+          CASE
+            WHEN v.delay_minutes <= 0 THEN 1
+            WHEN v.delay_minutes <= 15 THEN 2
+            WHEN v.delay_minutes <= 30 THEN 3
+            WHEN v.delay_minutes <= 60 THEN 4
+            ELSE 5
+          END AS sort_order,
+          COUNT(*) AS visits
+        FROM visits v
+        GROUP BY 1
+      ) c ON c.sort_order = b.sort_order
+    ),
+
+    'by_doctor', (
+      SELECT COALESCE(jsonb_agg(d ORDER BY d.avg_wait DESC NULLS LAST), '[]'::jsonb)
+      FROM (
+        SELECT
+          v.clinic_doctor_id,
+          MIN(v.doctor_name) AS doctor_name,
+          COUNT(*) AS visits,
+          round(AVG(v.wait_minutes), 1) AS avg_wait,
+          percentile_cont(0.5) WITHIN GROUP (ORDER BY v.wait_minutes) AS median_wait,
+          round(AVG(v.delay_minutes), 1) AS avg_delay,
+          MAX(v.delay_minutes) AS max_delay
+        FROM visits v
+        GROUP BY v.clinic_doctor_id
+      ) d
+    ),
+
+    -- Hour of the booked time in IST
+    'by_hour', (
+      SELECT COALESCE(jsonb_agg(h ORDER BY h.hour), '[]'::jsonb)
+      FROM (
+        SELECT
+          EXTRACT(HOUR FROM v.appointment_datetime AT TIME ZONE 'Asia/Kolkata')::integer AS hour,
+          COUNT(*) AS visits,
+          round(AVG(v.wait_minutes), 1) AS avg_wait,
+          round(AVG(v.delay_minutes), 1) AS avg_delay
+        FROM visits v
+        GROUP BY 1
+      ) h
+    )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.report_wait_time_visits FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.report_wait_times FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.report_wait_time_visits TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.report_wait_times TO authenticated, service_role;
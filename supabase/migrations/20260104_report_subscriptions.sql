@@ -0,0 +1,114 @@
+-- Scheduled Report Emails Migration
+-- Clinics subscribe email recipients to a weekly or monthly report. A daily
+-- pg_cron job calls the send-scheduled-reports edge function, which sends
+-- every subscription whose last completed period has not been sent yet:
+--   * weekly  - Monday to Sunday of the previous week, sent on Monday
+--   * monthly - the previous calendar month, sent on the 1st
+-- The report is built from the report_* functions (20260101 - 20260103)
+-- called with the subscription's clinic.
+
+-- ============================================================================
+-- STEP 1: report_subscriptions table
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.report_subscriptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  clinic_id uuid NOT NULL DEFAULT current_clinic_id()
+    REFERENCES public.clinic_profiles(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  frequency text NOT NULL CHECK (frequency IN ('weekly', 'monthly')),
+  recipients text[] NOT NULL,
+  sections text[] NOT NULL DEFAULT ARRAY['summary', 'doctors', 'departments', 'wait_times'],
+  is_active boolean NOT NULL DEFAULT true,
+  -- End date of the last period emailed; a period is sent once
+  last_period_end date,
+  last_sent_at timestamptz,
+  last_error text,
+  created_by uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT report_subscriptions_recipients_check
+    CHECK (cardinality(recipients) BETWEEN 1 AND 20),
+  CONSTRAINT report_subscriptions_sections_check
+    CHECK (
+      cardinality(sections) > 0
+      AND sections <@ ARRAY['summary', 'doctors', 'departments', 'wait_times']
+    )
+);
+
+CREATE INDEX IF NOT EXISTS idx_report_subscriptions_clinic
+  ON public.report_subscriptions(clinic_id);
+
+CREATE INDEX IF NOT EXISTS idx_report_subscriptions_active
+  ON public.report_subscriptions(frequency) WHERE is_active;
+
+CREATE OR REPLACE FUNCTION public.update_report_subscriptions_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_report_subscriptions_updated_at ON public.report_subscriptions;
+CREATE TRIGGER trigger_report_subscriptions_updated_at
+  BEFORE UPDATE ON public.report_subscriptions
+  FOR EACH ROW EXECUTE FUNCTION public.update_report_subscriptions_updated_at();
+
+COMMENT ON TABLE public.report_subscriptions IS
+  'Weekly or monthly report emails, sent by the send-scheduled-reports edge function';
+
+-- ============================================================================
+-- STEP 2: RLS - visible to staff who can view reports, managed by staff who
+-- manage settings (recipients may be outside the clinic)
+-- ============================================================================
+ALTER TABLE public.report_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Report viewers can view report subscriptions" ON public.report_subscriptions
+  FOR SELECT USING (
+    clinic_id = current_clinic_id() AND has_clinic_permission('view_reports')
+  );
+
+CREATE POLICY "Settings managers can manage report subscriptions" ON public.report_subscriptions
+  FOR ALL USING (
+    clinic_id = current_clinic_id() AND has_clinic_permission('manage_settings')
+  )
+  WITH CHECK (
+    clinic_id = current_clinic_id() AND has_clinic_permission('manage_settings')
+  );
+
+-- ============================================================================
+-- STEP 3: Schedule the cron job (daily at 07:00 IST)
+-- NOTE: pg_cron and pg_net must be enabled, and the project URL and service
+-- role key stored in Vault as 'project_url' and 'service_role_key':
+--   SELECT vault.create_secret('https://<ref>.supabase.co', 'project_url');
+--   SELECT vault.create_secret('<service role key>', 'service_role_key');
+-- ============================================================================
+DO $$
+BEGIN
+  PERFORM cron.unschedule('scheduled-report-emails');
+EXCEPTION WHEN OTHERS THEN
+  -- Job doesn't exist, that's fine
+  NULL;
+END $$;
+
+SELECT cron.schedule(
+  'scheduled-report-emails',
+  '30 1 * * *',
+  $cron$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/send-scheduled-reports',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer '
+        || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $cron$
+);
+
+-- ============================================================================
+-- VERIFICATION: SELECT * FROM cron.job WHERE jobname = 'scheduled-report-emails';
+-- TO DISABLE:   SELECT cron.unschedule('scheduled-report-emails');
+-- ============================================================================
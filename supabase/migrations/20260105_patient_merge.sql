@@ -0,0 +1,285 @@
+-- Patient Merge Migration
+-- Appointment request approval matches patients by phone or email, and staff
+-- can add patients freely, so the same person can end up with two
+-- patient_profiles. This migration adds:
+--   * find_duplicate_patients: likely duplicate pairs among the clinic's
+--     patients (same phone or email, same date of birth with a similar name,
+--     or a very similar name)
+--   * merge_patient_profiles: moves everything the clinic holds for the
+--     duplicate onto the surviving profile and records the merge in audit_logs
+-- Both run for the caller's clinic and need the manage_patients permission.
+
+-- ============================================================================
+-- STEP 1: Trigram matching on patient names
+-- ============================================================================
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+CREATE INDEX IF NOT EXISTS idx_patient_profiles_full_name_trgm
+  ON public.patient_profiles USING gin (lower(full_name) extensions.gin_trgm_ops);
+
+-- Last 10 digits, so "+91 98300 12345" and "9830012345" compare equal
+CREATE OR REPLACE FUNCTION public.normalize_patient_phone(p_phone text)
+RETURNS text AS $$
+  SELECT NULLIF(right(regexp_replace(COALESCE(p_phone, ''), '\D', '', 'g'), 10), '');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- ============================================================================
+-- STEP 2: Find likely duplicates
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.find_duplicate_patients(p_limit integer DEFAULT 100)
+RETURNS TABLE (
+  patient_a_id uuid,
+  patient_b_id uuid,
+  score numeric,
+  reasons text[]
+) AS $$
+DECLARE
+  v_clinic_id uuid := current_clinic_id();
+BEGIN
+  IF v_clinic_id IS NULL OR NOT has_clinic_permission('manage_patients') THEN
+    RAISE EXCEPTION 'Not authorized to manage patients';
+  END IF;
+
+  RETURN QUERY
+  WITH patients AS (
+    SELECT
+      pp.id,
+      lower(trim(pp.full_name)) AS name,
+      normalize_patient_phone(pp.phone) AS phone,
+      lower(NULLIF(trim(pp.email), '')) AS email,
+      pp.date_of_birth
+    FROM clinic_patients cp
+    JOIN patient_profiles pp ON pp.id = cp.patient_profile_id
+    WHERE cp.clinic_id = v_clinic_id
+  ),
+  pairs AS (
+    SELECT
+      a.id AS a_id,
+      b.id AS b_id,
+      a.phone = b.phone AS same_phone,
+      a.email = b.email AS same_email,
+      a.date_of_birth = b.date_of_birth AS same_dob,
+      similarity(a.name, b.name) AS name_similarity
+    FROM patients a
+    JOIN patients b
+      ON a.id < b.id
+     AND (
+       a.phone = b.phone
+       OR a.email = b.email
+       OR a.date_of_birth = b.date_of_birth
+       OR a.name % b.name
+     )
+  )
+  SELECT
+    p.a_id,
+    p.b_id,
+    round(LEAST(
+      1,
+      CASE WHEN p.same_phone THEN 0.4 ELSE 0 END
+      + CASE WHEN p.same_email THEN 0.3 ELSE 0 END
+      + CASE WHEN p.same_dob THEN 0.2 ELSE 0 END
+      + p.name_similarity * 0.4
+    )::numeric, 2),
+    array_remove(ARRAY[
+      CASE WHEN p.same_phone THEN 'phone' END,
+      CASE WHEN p.same_email THEN 'email' END,
+      CASE WHEN p.same_dob THEN 'date_of_birth' END,
+      CASE WHEN p.name_similarity >= 0.5 THEN 'name' END
+    ], NULL)
+  FROM pairs p
+  WHERE COALESCE(p.same_phone, false)
+     OR COALESCE(p.same_email, false)
+     OR (COALESCE(p.same_dob, false) AND p.name_similarity >= 0.5)
+     OR p.name_similarity >= 0.8
+  ORDER BY 3 DESC, 1, 2
+  LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public, extensions;
+
+GRANT EXECUTE ON FUNCTION public.find_duplicate_patients TO authenticated;
+
+-- ============================================================================
+-- STEP 3: Merge a duplicate into the surviving profile
+-- ============================================================================
+-- Within the caller's clinic the duplicate's appointments, bills, waitlist
+-- entries, reschedule requests and message history move to the survivor, the
+-- two clinic_patients rows are combined and the duplicate's row is removed.
+-- patient_profiles rows are shared with other clinics and the patient's own
+-- account, so the survivor's blank clinical fields are filled from the
+-- duplicate only when neither profile is linked to another clinic and the
+-- survivor has no patient account; phone, email and Aadhar never change. The
+-- duplicate profile itself is deleted only when no other clinic uses it and
+-- no patient account is attached.
+CREATE OR REPLACE FUNCTION public.merge_patient_profiles(
+  p_survivor_id uuid,
+  p_duplicate_id uuid
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_clinic_id uuid := current_clinic_id();
+  v_survivor patient_profiles%ROWTYPE;
+  v_duplicate patient_profiles%ROWTYPE;
+  v_survivor_cp clinic_patients%ROWTYPE;
+  v_duplicate_cp clinic_patients%ROWTYPE;
+  v_appointments integer;
+  v_bills integer;
+  v_waitlist integer;
+  v_reschedule_requests integer;
+  v_messages integer;
+  v_profile_shared boolean;
+  v_profile_deleted boolean := false;
+  v_result jsonb;
+BEGIN
+  IF v_clinic_id IS NULL OR NOT has_clinic_permission('manage_patients') THEN
+    RAISE EXCEPTION 'Not authorized to manage patients';
+  END IF;
+
+  IF p_survivor_id = p_duplicate_id THEN
+    RAISE EXCEPTION 'Choose two different patients to merge';
+  END IF;
+
+  SELECT * INTO v_survivor FROM patient_profiles WHERE id = p_survivor_id FOR UPDATE;
+  SELECT * INTO v_duplicate FROM patient_profiles WHERE id = p_duplicate_id FOR UPDATE;
+
+  SELECT * INTO v_survivor_cp FROM clinic_patients
+  WHERE clinic_id = v_clinic_id AND patient_profile_id = p_survivor_id
+  FOR UPDATE;
+  SELECT * INTO v_duplicate_cp FROM clinic_patients
+  WHERE clinic_id = v_clinic_id AND patient_profile_id = p_duplicate_id
+  FOR UPDATE;
+
+  IF v_survivor_cp.id IS NULL OR v_duplicate_cp.id IS NULL THEN
+    RAISE EXCEPTION 'Both patients must belong to this clinic';
+  END IF;
+
+  v_profile_shared := v_survivor.user_id IS NOT NULL OR EXISTS (
+    SELECT 1 FROM clinic_patients
+    WHERE patient_profile_id IN (p_survivor_id, p_duplicate_id)
+      AND clinic_id IS DISTINCT FROM v_clinic_id
+  );
+
+  -- Records that hang off the clinic_patients row
+  UPDATE appointments SET clinic_patient_id = v_survivor_cp.id
+  WHERE clinic_patient_id = v_duplicate_cp.id;
+  GET DIAGNOSTICS v_appointments = ROW_COUNT;
+
+  UPDATE bills SET clinic_patient_id = v_survivor_cp.id
+  WHERE clinic_patient_id = v_duplicate_cp.id;
+  GET DIAGNOSTICS v_bills = ROW_COUNT;
+
+  -- A patient waits at most once per slot: drop the duplicate's entry where
+  -- the survivor is already waiting
+  UPDATE slot_waitlist d SET status = 'cancelled'
+  WHERE d.clinic_patient_id = v_duplicate_cp.id
+    AND d.status IN ('waiting', 'offered')
+    AND EXISTS (
+      SELECT 1 FROM slot_waitlist s
+      WHERE s.clinic_patient_id = v_survivor_cp.id
+        AND s.doctor_slot_id = d.doctor_slot_id
+        AND s.status IN ('waiting', 'offered')
+    );
+
+  UPDATE slot_waitlist SET clinic_patient_id = v_survivor_cp.id
+  WHERE clinic_patient_id = v_duplicate_cp.id;
+  GET DIAGNOSTICS v_waitlist = ROW_COUNT;
+
+  -- Records that point at the profile, limited to this clinic
+  UPDATE reschedule_requests SET patient_profile_id = p_survivor_id
+  WHERE patient_profile_id = p_duplicate_id AND clinic_id = v_clinic_id;
+  GET DIAGNOSTICS v_reschedule_requests = ROW_COUNT;
+
+  UPDATE message_log SET patient_profile_id = p_survivor_id
+  WHERE patient_profile_id = p_duplicate_id AND clinic_id = v_clinic_id;
+  GET DIAGNOSTICS v_messages = ROW_COUNT;
+
+  -- One clinic relationship for the merged patient
+  UPDATE clinic_patients SET
+    total_visits = COALESCE(v_survivor_cp.total_visits, 0) + COALESCE(v_duplicate_cp.total_visits, 0),
+    first_visit_date = LEAST(v_survivor_cp.first_visit_date, v_duplicate_cp.first_visit_date),
+    last_visit_date = GREATEST(v_survivor_cp.last_visit_date, v_duplicate_cp.last_visit_date),
+    clinic_allergies = ARRAY(
+      SELECT DISTINCT unnest(
+        COALESCE(v_survivor_cp.clinic_allergies, '{}') || COALESCE(v_duplicate_cp.clinic_allergies, '{}')
+      )
+    ),
+    clinic_notes = NULLIF(concat_ws(E'\n', v_survivor_cp.clinic_notes, v_duplicate_cp.clinic_notes), ''),
+    clinic_medical_history = COALESCE(v_survivor_cp.clinic_medical_history, v_duplicate_cp.clinic_medical_history),
+    insurance_info = COALESCE(v_survivor_cp.insurance_info, v_duplicate_cp.insurance_info),
+    relationship_status = CASE
+      WHEN 'active' IN (v_survivor_cp.relationship_status, v_duplicate_cp.relationship_status) THEN 'active'
+      ELSE v_survivor_cp.relationship_status
+    END
+  WHERE id = v_survivor_cp.id;
+
+  DELETE FROM clinic_patients WHERE id = v_duplicate_cp.id;
+
+  IF NOT v_profile_shared THEN
+    UPDATE patient_profiles SET
+      date_of_birth = COALESCE(v_survivor.date_of_birth, v_duplicate.date_of_birth),
+      gender = COALESCE(v_survivor.gender, v_duplicate.gender),
+      blood_group = COALESCE(v_survivor.blood_group, v_duplicate.blood_group),
+      primary_address = COALESCE(v_survivor.primary_address, v_duplicate.primary_address),
+      emergency_contact = COALESCE(v_survivor.emergency_contact, v_duplicate.emergency_contact),
+      family_history = COALESCE(v_survivor.family_history, v_duplicate.family_history),
+      medical_notes = NULLIF(concat_ws(E'\n', v_survivor.medical_notes, v_duplicate.medical_notes), ''),
+      allergies = ARRAY(
+        SELECT DISTINCT unnest(COALESCE(v_survivor.allergies, '{}') || COALESCE(v_duplicate.allergies, '{}'))
+      ),
+      chronic_conditions = ARRAY(
+        SELECT DISTINCT unnest(COALESCE(v_survivor.chronic_conditions, '{}') || COALESCE(v_duplicate.chronic_conditions, '{}'))
+      ),
+      medications = ARRAY(
+        SELECT DISTINCT unnest(COALESCE(v_survivor.medications, '{}') || COALESCE(v_duplicate.medications, '{}'))
+      ),
+      previous_surgeries = ARRAY(
+        SELECT DISTINCT unnest(COALESCE(v_survivor.previous_surgeries, '{}') || COALESCE(v_duplicate.previous_surgeries, '{}'))
+      )
+    WHERE id = p_survivor_id;
+  END IF;
+
+  IF v_duplicate.user_id IS NULL
+     AND NOT EXISTS (SELECT 1 FROM clinic_patients WHERE patient_profile_id = p_duplicate_id) THEN
+    DELETE FROM patient_profiles WHERE id = p_duplicate_id;
+    v_profile_deleted := true;
+  END IF;
+
+  v_result := jsonb_build_object(
+    'survivor_id', p_survivor_id,
+    'duplicate_id', p_duplicate_id,
+    'appointments', v_appointments,
+    'bills', v_bills,
+    'waitlist_entries', v_waitlist,
+    'reschedule_requests', v_reschedule_requests,
+    'messages', v_messages,
+    'survivor_profile_updated', NOT v_profile_shared,
+    'duplicate_profile_deleted', v_profile_deleted
+  );
+
+  INSERT INTO audit_logs (
+    user_id, user_email, action, entity_type, entity_id,
+    old_data, new_data, changes_summary, clinic_id
+  ) VALUES (
+    auth.uid(),
+    auth.jwt() ->> 'email',
+    'merge',
+    'patient_profile',
+    p_survivor_id,
+    jsonb_build_object(
+      'survivor', to_jsonb(v_survivor),
+      'duplicate', to_jsonb(v_duplicate),
+      'survivor_clinic_patient', to_jsonb(v_survivor_cp),
+      'duplicate_clinic_patient', to_jsonb(v_duplicate_cp)
+    ),
+    v_result,
+    format(
+      'Merged patient %s into %s (%s appointments, %s bills moved)',
+      v_duplicate.full_name, v_survivor.full_name, v_appointments, v_bills
+    ),
+    v_clinic_id
+  );
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+GRANT EXECUTE ON FUNCTION public.merge_patient_profiles TO authenticated;
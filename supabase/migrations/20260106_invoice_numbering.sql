@@ -0,0 +1,156 @@
+-- Invoice Numbering Migration
+-- Bill numbers used to be built in the browser as INV-YYYYMMDD-<random>,
+-- which could collide and left no continuous series for GST audits. Every
+-- bill now gets its number from the database when it is inserted:
+--   * one gap-free counter per clinic and Indian financial year (April-March,
+--     by the bill date in IST), taken inside the inserting transaction so a
+--     failed insert does not use up a number
+--   * the clinic chooses the format, e.g. INV/{FY}/{SEQ} -> INV/2025-26/0001
+--   * numbers cannot be changed once assigned
+-- Existing bills keep their old numbers. The format tokens are mirrored by
+-- formatInvoiceNumber in src/utils/invoiceNumber.ts - keep them in sync.
+
+-- ============================================================================
+-- STEP 1: Clinic settings
+-- ============================================================================
+ALTER TABLE public.clinic_profiles
+  ADD COLUMN IF NOT EXISTS invoice_number_format text NOT NULL DEFAULT 'INV/{FY}/{SEQ}',
+  ADD COLUMN IF NOT EXISTS invoice_number_padding smallint NOT NULL DEFAULT 4;
+
+ALTER TABLE public.clinic_profiles
+  DROP CONSTRAINT IF EXISTS clinic_profiles_invoice_number_format_check,
+  ADD CONSTRAINT clinic_profiles_invoice_number_format_check CHECK (
+    position('{SEQ}' IN invoice_number_format) > 0
+    AND invoice_number_format ~ '^[A-Za-z0-9/{}-]+$'
+  ),
+  DROP CONSTRAINT IF EXISTS clinic_profiles_invoice_number_padding_check,
+  ADD CONSTRAINT clinic_profiles_invoice_number_padding_check CHECK (
+    invoice_number_padding BETWEEN 1 AND 8
+  );
+
+COMMENT ON COLUMN public.clinic_profiles.invoice_number_format IS
+  'Bill number format. Tokens: {FY} = 2025-26, {FYS} = 2526, {SEQ} = running number (required). Letters, digits, / and - only';
+
+-- ============================================================================
+-- STEP 2: Counters and bill columns
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.invoice_sequences (
+  clinic_id uuid NOT NULL REFERENCES public.clinic_profiles(id) ON DELETE CASCADE,
+  financial_year text NOT NULL, -- e.g. 2025-26
+  last_number integer NOT NULL,
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (clinic_id, financial_year)
+);
+
+ALTER TABLE public.invoice_sequences ENABLE ROW LEVEL SECURITY;
+
+-- Written only by assign_bill_number
+CREATE POLICY "Billing staff can view invoice sequences" ON public.invoice_sequences
+  FOR SELECT USING (clinic_id = current_clinic_id() AND has_clinic_permission('access_billing'));
+
+ALTER TABLE public.bills
+  ADD COLUMN IF NOT EXISTS invoice_financial_year text,
+  ADD COLUMN IF NOT EXISTS invoice_sequence integer;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bills_invoice_sequence
+  ON public.bills(user_id, invoice_financial_year, invoice_sequence)
+  WHERE invoice_sequence IS NOT NULL;
+
+-- ============================================================================
+-- STEP 3: Formatting helpers
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.financial_year_label(p_date date)
+RETURNS text AS $$
+  SELECT CASE
+    WHEN extract(month FROM p_date) >= 4
+      THEN extract(year FROM p_date)::int || '-' || lpad(((extract(year FROM p_date)::int + 1) % 100)::text, 2, '0')
+    ELSE (extract(year FROM p_date)::int - 1) || '-' || lpad((extract(year FROM p_date)::int % 100)::text, 2, '0')
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION public.format_invoice_number(
+  p_format text,
+  p_financial_year text,
+  p_sequence integer,
+  p_padding integer
+)
+RETURNS text AS $$
+  SELECT replace(replace(replace(
+    p_format,
+    '{FY}', p_financial_year),
+    '{FYS}', substr(p_financial_year, 3, 2) || substr(p_financial_year, 6, 2)),
+    -- lpad would truncate numbers longer than the padding
+    '{SEQ}', CASE
+      WHEN length(p_sequence::text) >= p_padding THEN p_sequence::text
+      ELSE lpad(p_sequence::text, p_padding, '0')
+    END);
+$$ LANGUAGE sql IMMUTABLE;
+
+GRANT EXECUTE ON FUNCTION public.financial_year_label TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.format_invoice_number TO authenticated, service_role;
+
+-- ============================================================================
+-- STEP 4: Number every new bill
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.assign_bill_number()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_clinic record;
+  v_clinic_id uuid;
+  v_financial_year text;
+  v_sequence integer;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF OLD.invoice_sequence IS NOT NULL AND (
+      NEW.bill_number IS DISTINCT FROM OLD.bill_number
+      OR NEW.invoice_sequence IS DISTINCT FROM OLD.invoice_sequence
+      OR NEW.invoice_financial_year IS DISTINCT FROM OLD.invoice_financial_year
+    ) THEN
+      RAISE EXCEPTION 'Invoice numbers cannot be changed once assigned'
+        USING ERRCODE = 'check_violation';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  -- The patient's clinic; bills without a patient fall back to user_id,
+  -- which the billing screens set to the clinic id
+  SELECT cp.clinic_id INTO v_clinic_id
+  FROM clinic_patients cp
+  WHERE cp.id = NEW.clinic_patient_id;
+  v_clinic_id := COALESCE(v_clinic_id, NEW.user_id);
+
+  SELECT id, invoice_number_format, invoice_number_padding INTO v_clinic
+  FROM clinic_profiles
+  WHERE id = v_clinic_id;
+
+  IF v_clinic.id IS NULL THEN
+    RAISE EXCEPTION 'Cannot number a bill without a clinic';
+  END IF;
+
+  v_financial_year := financial_year_label(
+    (COALESCE(NEW.created_at, now()) AT TIME ZONE 'Asia/Kolkata')::date
+  );
+
+  -- The counter row stays locked until the bill insert commits, so
+  -- concurrent bills wait for each other and a rollback frees the number
+  INSERT INTO invoice_sequences (clinic_id, financial_year, last_number)
+  VALUES (v_clinic.id, v_financial_year, 1)
+  ON CONFLICT (clinic_id, financial_year)
+  DO UPDATE SET last_number = invoice_sequences.last_number + 1, updated_at = now()
+  RETURNING last_number INTO v_sequence;
+
+  NEW.user_id := v_clinic.id;
+  NEW.invoice_financial_year := v_financial_year;
+  NEW.invoice_sequence := v_sequence;
+  NEW.bill_number := format_invoice_number(
+    v_clinic.invoice_number_format, v_financial_year, v_sequence, v_clinic.invoice_number_padding
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trg_assign_bill_number ON public.bills;
+CREATE TRIGGER trg_assign_bill_number
+  BEFORE INSERT OR UPDATE ON public.bills
+  FOR EACH ROW EXECUTE FUNCTION public.assign_bill_number();
@@ -0,0 +1,209 @@
+-- Itemised Bills Migration
+-- A bill used to hold one amount and one tax figure. Bills now carry line
+-- items (consultation, procedures, lab tests, medicines) with quantity,
+-- per-item discount and tax rate, picked from a price list the clinic
+-- maintains or entered by hand:
+--   * service_catalogue: the clinic's services and their default prices
+--   * bill_items: the lines of a bill; line amounts are computed columns
+--   * bills.amount / discount_amount / tax_amount / total_amount are kept in
+--     step with the items by a trigger, so reports keep reading bills
+--   * create_itemised_bill inserts a bill and its items in one transaction
+-- Bills created before this migration have no items and keep their totals.
+-- The line calculation is mirrored by calculateBillItem in
+-- src/utils/billItems.ts - keep them in sync.
+
+-- ============================================================================
+-- STEP 1: Service catalogue
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.service_catalogue (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  clinic_id uuid NOT NULL DEFAULT current_clinic_id()
+    REFERENCES public.clinic_profiles(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  item_type text NOT NULL DEFAULT 'other'
+    CHECK (item_type IN ('consultation', 'procedure', 'test', 'medicine', 'other')),
+  description text,
+  unit_price numeric(10,2) NOT NULL CHECK (unit_price >= 0),
+  tax_rate numeric(5,2) NOT NULL DEFAULT 0 CHECK (tax_rate BETWEEN 0 AND 100),
+  is_active boolean NOT NULL DEFAULT true,
+  created_by uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_service_catalogue_clinic_name
+  ON public.service_catalogue(clinic_id, lower(name));
+
+CREATE OR REPLACE FUNCTION public.update_service_catalogue_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_service_catalogue_updated_at ON public.service_catalogue;
+CREATE TRIGGER trg_service_catalogue_updated_at
+  BEFORE UPDATE ON public.service_catalogue
+  FOR EACH ROW EXECUTE FUNCTION public.update_service_catalogue_updated_at();
+
+ALTER TABLE public.service_catalogue ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Billing staff can view the service catalogue" ON public.service_catalogue
+  FOR SELECT USING (clinic_id = current_clinic_id() AND has_clinic_permission('access_billing'));
+
+CREATE POLICY "Settings managers can manage the service catalogue" ON public.service_catalogue
+  FOR ALL USING (clinic_id = current_clinic_id() AND has_clinic_permission('manage_settings'))
+  WITH CHECK (clinic_id = current_clinic_id() AND has_clinic_permission('manage_settings'));
+
+-- ============================================================================
+-- STEP 2: Bill items
+-- ============================================================================
+ALTER TABLE public.bills
+  ADD COLUMN IF NOT EXISTS discount_amount numeric(10,2) NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS public.bill_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  bill_id uuid NOT NULL REFERENCES public.bills(id) ON DELETE CASCADE,
+  -- The catalogue entry the line was picked from; name and prices are copied
+  -- so later price changes do not alter issued bills
+  service_id uuid REFERENCES public.service_catalogue(id) ON DELETE SET NULL,
+  item_type text NOT NULL DEFAULT 'other'
+    CHECK (item_type IN ('consultation', 'procedure', 'test', 'medicine', 'other')),
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  description text,
+  quantity numeric(10,2) NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  unit_price numeric(10,2) NOT NULL CHECK (unit_price >= 0),
+  discount_amount numeric(10,2) NOT NULL DEFAULT 0 CHECK (discount_amount >= 0),
+  tax_rate numeric(5,2) NOT NULL DEFAULT 0 CHECK (tax_rate BETWEEN 0 AND 100),
+  taxable_amount numeric(10,2) GENERATED ALWAYS AS (
+    round(quantity * unit_price - discount_amount, 2)
+  ) STORED,
+  tax_amount numeric(10,2) GENERATED ALWAYS AS (
+    round((quantity * unit_price - discount_amount) * tax_rate / 100, 2)
+  ) STORED,
+  line_total numeric(10,2) GENERATED ALWAYS AS (
+    round(quantity * unit_price - discount_amount, 2)
+    + round((quantity * unit_price - discount_amount) * tax_rate / 100, 2)
+  ) STORED,
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT bill_items_discount_within_price CHECK (discount_amount <= quantity * unit_price)
+);
+
+CREATE INDEX IF NOT EXISTS idx_bill_items_bill ON public.bill_items(bill_id, sort_order);
+
+ALTER TABLE public.bill_items ENABLE ROW LEVEL SECURITY;
+
+-- Same rule as bills: access_billing for the clinic's patients
+CREATE POLICY "Clinic staff can manage bill items" ON public.bill_items
+  FOR ALL USING (
+    has_clinic_permission('access_billing') AND bill_id IN (
+      SELECT b.id
+      FROM public.bills b
+      JOIN public.clinic_patients cp ON cp.id = b.clinic_patient_id
+      WHERE cp.clinic_id = current_clinic_id()
+    )
+  )
+  WITH CHECK (
+    has_clinic_permission('access_billing') AND bill_id IN (
+      SELECT b.id
+      FROM public.bills b
+      JOIN public.clinic_patients cp ON cp.id = b.clinic_patient_id
+      WHERE cp.clinic_id = current_clinic_id()
+    )
+  );
+
+-- ============================================================================
+-- STEP 3: Keep bill totals in step with the items
+-- ============================================================================
+-- amount is the gross before discount; total = amount - discount + tax
+CREATE OR REPLACE FUNCTION public.sync_bill_totals()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_bill_id uuid := COALESCE(NEW.bill_id, OLD.bill_id);
+BEGIN
+  UPDATE bills b SET
+    amount = t.gross,
+    discount_amount = t.discount,
+    tax_amount = t.tax,
+    total_amount = t.total,
+    updated_at = now()
+  FROM (
+    SELECT
+      SUM(round(quantity * unit_price, 2)) AS gross,
+      SUM(discount_amount) AS discount,
+      SUM(tax_amount) AS tax,
+      SUM(line_total) AS total
+    FROM bill_items
+    WHERE bill_id = v_bill_id
+    HAVING COUNT(*) > 0
+  ) t
+  WHERE b.id = v_bill_id;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trg_sync_bill_totals ON public.bill_items;
+CREATE TRIGGER trg_sync_bill_totals
+  AFTER INSERT OR UPDATE OR DELETE ON public.bill_items
+  FOR EACH ROW EXECUTE FUNCTION public.sync_bill_totals();
+
+-- ============================================================================
+-- STEP 4: Create a bill with its items
+-- ============================================================================
+-- p_bill: clinic_patient_id, appointment_id, due_date, notes, status,
+--         payment_mode, payment_date
+-- p_items: [{ service_id, item_type, name, description, quantity,
+--            unit_price, discount_amount, tax_rate }]
+-- Runs as the caller, so the bills and bill_items policies apply.
+CREATE OR REPLACE FUNCTION public.create_itemised_bill(p_bill jsonb, p_items jsonb)
+RETURNS public.bills AS $$
+DECLARE
+  v_bill bills%ROWTYPE;
+BEGIN
+  IF jsonb_typeof(p_items) IS DISTINCT FROM 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'A bill needs at least one item';
+  END IF;
+
+  INSERT INTO bills (
+    user_id, clinic_patient_id, appointment_id, due_date, notes,
+    status, payment_mode, payment_date, amount, tax_amount, total_amount
+  ) VALUES (
+    current_clinic_id(),
+    (p_bill->>'clinic_patient_id')::uuid,
+    (p_bill->>'appointment_id')::uuid,
+    (p_bill->>'due_date')::date,
+    NULLIF(p_bill->>'notes', ''),
+    COALESCE(p_bill->>'status', 'pending'),
+    p_bill->>'payment_mode',
+    (p_bill->>'payment_date')::timestamptz,
+    0, 0, 0
+  )
+  RETURNING * INTO v_bill;
+
+  INSERT INTO bill_items (
+    bill_id, service_id, item_type, name, description,
+    quantity, unit_price, discount_amount, tax_rate, sort_order
+  )
+  SELECT
+    v_bill.id,
+    (item->>'service_id')::uuid,
+    COALESCE(item->>'item_type', 'other'),
+    trim(item->>'name'),
+    NULLIF(trim(item->>'description'), ''),
+    COALESCE((item->>'quantity')::numeric, 1),
+    (item->>'unit_price')::numeric,
+    COALESCE((item->>'discount_amount')::numeric, 0),
+    COALESCE((item->>'tax_rate')::numeric, 0),
+    position::integer
+  FROM jsonb_array_elements(p_items) WITH ORDINALITY AS items(item, position);
+
+  -- Totals were filled in by sync_bill_totals
+  SELECT * INTO v_bill FROM bills WHERE id = v_bill.id;
+  RETURN v_bill;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.create_itemised_bill TO authenticated;
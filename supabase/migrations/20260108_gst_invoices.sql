@@ -0,0 +1,313 @@
+-- GST Invoices Migration
+-- Bills become GST tax invoices:
+--   * clinic_profiles.gstin: the clinic's GST registration; GST can only be
+--     charged once it is set
+--   * service_catalogue / bill_items: HSN/SAC code and an exempt flag for
+--     healthcare services that are exempt from GST
+--   * place of supply is the patient's state (primary_address.state), or the
+--     clinic's state when the patient has no recognised state. Supplies with
+--     the same GST state code as the clinic's GSTIN split tax into
+--     CGST + SGST, others charge IGST
+--   * bills keep the GSTIN, place of supply and the CGST/SGST/IGST totals
+--     they were issued with
+-- The split is mirrored by splitGst in src/utils/gst.ts - keep them in sync.
+
+-- ============================================================================
+-- STEP 1: Clinic GSTIN
+-- ============================================================================
+ALTER TABLE public.clinic_profiles
+  ADD COLUMN IF NOT EXISTS gstin text;
+
+ALTER TABLE public.clinic_profiles
+  DROP CONSTRAINT IF EXISTS clinic_profiles_gstin_format;
+ALTER TABLE public.clinic_profiles
+  ADD CONSTRAINT clinic_profiles_gstin_format
+  CHECK (gstin IS NULL OR gstin ~ '^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$');
+
+-- ============================================================================
+-- STEP 2: HSN/SAC codes and exempt services
+-- ============================================================================
+ALTER TABLE public.service_catalogue
+  ADD COLUMN IF NOT EXISTS hsn_sac_code text
+    CHECK (hsn_sac_code IS NULL OR hsn_sac_code ~ '^[0-9]{4,8}$'),
+  ADD COLUMN IF NOT EXISTS is_tax_exempt boolean NOT NULL DEFAULT false;
+
+ALTER TABLE public.service_catalogue
+  DROP CONSTRAINT IF EXISTS service_catalogue_exempt_untaxed;
+ALTER TABLE public.service_catalogue
+  ADD CONSTRAINT service_catalogue_exempt_untaxed
+  CHECK (NOT is_tax_exempt OR tax_rate = 0);
+
+ALTER TABLE public.bill_items
+  ADD COLUMN IF NOT EXISTS hsn_sac_code text
+    CHECK (hsn_sac_code IS NULL OR hsn_sac_code ~ '^[0-9]{4,8}$'),
+  ADD COLUMN IF NOT EXISTS is_tax_exempt boolean NOT NULL DEFAULT false,
+  -- Copied from the bill so the split can be a computed column
+  ADD COLUMN IF NOT EXISTS is_inter_state boolean NOT NULL DEFAULT false;
+
+ALTER TABLE public.bill_items
+  DROP CONSTRAINT IF EXISTS bill_items_exempt_untaxed;
+ALTER TABLE public.bill_items
+  ADD CONSTRAINT bill_items_exempt_untaxed
+  CHECK (NOT is_tax_exempt OR tax_rate = 0);
+
+-- CGST takes the half rounded to paise, SGST the rest, so the two always add
+-- up to tax_amount
+ALTER TABLE public.bill_items
+  ADD COLUMN IF NOT EXISTS cgst_amount numeric(10,2) GENERATED ALWAYS AS (
+    CASE WHEN is_inter_state THEN 0
+    ELSE round(round((quantity * unit_price - discount_amount) * tax_rate / 100, 2) / 2, 2)
+    END
+  ) STORED,
+  ADD COLUMN IF NOT EXISTS sgst_amount numeric(10,2) GENERATED ALWAYS AS (
+    CASE WHEN is_inter_state THEN 0
+    ELSE round((quantity * unit_price - discount_amount) * tax_rate / 100, 2)
+      - round(round((quantity * unit_price - discount_amount) * tax_rate / 100, 2) / 2, 2)
+    END
+  ) STORED,
+  ADD COLUMN IF NOT EXISTS igst_amount numeric(10,2) GENERATED ALWAYS AS (
+    CASE WHEN is_inter_state
+      THEN round((quantity * unit_price - discount_amount) * tax_rate / 100, 2)
+    ELSE 0
+    END
+  ) STORED;
+
+-- ============================================================================
+-- STEP 3: GST details on bills
+-- ============================================================================
+ALTER TABLE public.bills
+  ADD COLUMN IF NOT EXISTS clinic_gstin text,
+  ADD COLUMN IF NOT EXISTS place_of_supply text,
+  ADD COLUMN IF NOT EXISTS is_inter_state boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS cgst_amount numeric(10,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS sgst_amount numeric(10,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS igst_amount numeric(10,2) NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION public.sync_bill_totals()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_bill_id uuid := COALESCE(NEW.bill_id, OLD.bill_id);
+BEGIN
+  UPDATE bills b SET
+    amount = t.gross,
+    discount_amount = t.discount,
+    tax_amount = t.tax,
+    cgst_amount = t.cgst,
+    sgst_amount = t.sgst,
+    igst_amount = t.igst,
+    total_amount = t.total,
+    updated_at = now()
+  FROM (
+    SELECT
+      SUM(round(quantity * unit_price, 2)) AS gross,
+      SUM(discount_amount) AS discount,
+      SUM(tax_amount) AS tax,
+      SUM(cgst_amount) AS cgst,
+      SUM(sgst_amount) AS sgst,
+      SUM(igst_amount) AS igst,
+      SUM(line_total) AS total
+    FROM bill_items
+    WHERE bill_id = v_bill_id
+    HAVING COUNT(*) > 0
+  ) t
+  WHERE b.id = v_bill_id;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- STEP 4: Create a bill with its items
+-- ============================================================================
+-- GST state code of a state name, short form or code ("West Bengal", "WB",
+-- "19"), or NULL when it is not recognised. Same lookup as gstStateCode in
+-- src/utils/gst.ts.
+CREATE OR REPLACE FUNCTION public.gst_state_code(p_state text)
+RETURNS text AS $$
+  SELECT s.code
+  FROM (VALUES
+    ('jammuandkashmir', '01'),
+    ('himachalpradesh', '02'),
+    ('punjab', '03'),
+    ('chandigarh', '04'),
+    ('uttarakhand', '05'),
+    ('haryana', '06'),
+    ('delhi', '07'),
+    ('rajasthan', '08'),
+    ('uttarpradesh', '09'),
+    ('bihar', '10'),
+    ('sikkim', '11'),
+    ('arunachalpradesh', '12'),
+    ('nagaland', '13'),
+    ('manipur', '14'),
+    ('mizoram', '15'),
+    ('tripura', '16'),
+    ('meghalaya', '17'),
+    ('assam', '18'),
+    ('westbengal', '19'),
+    ('jharkhand', '20'),
+    ('odisha', '21'),
+    ('chhattisgarh', '22'),
+    ('madhyapradesh', '23'),
+    ('gujarat', '24'),
+    ('dadraandnagarhavelianddamananddiu', '26'),
+    ('maharashtra', '27'),
+    ('karnataka', '29'),
+    ('goa', '30'),
+    ('lakshadweep', '31'),
+    ('kerala', '32'),
+    ('tamilnadu', '33'),
+    ('puducherry', '34'),
+    ('andamanandnicobarislands', '35'),
+    ('telangana', '36'),
+    ('andhrapradesh', '37'),
+    ('ladakh', '38'),
+    ('jk', '01'),
+    ('jammukashmir', '01'),
+    ('hp', '02'),
+    ('pb', '03'),
+    ('ch', '04'),
+    ('uk', '05'),
+    ('ut', '05'),
+    ('uttaranchal', '05'),
+    ('hr', '06'),
+    ('dl', '07'),
+    ('newdelhi', '07'),
+    ('nctofdelhi', '07'),
+    ('rj', '08'),
+    ('up', '09'),
+    ('br', '10'),
+    ('sk', '11'),
+    ('ar', '12'),
+    ('nl', '13'),
+    ('mn', '14'),
+    ('mz', '15'),
+    ('tr', '16'),
+    ('ml', '17'),
+    ('as', '18'),
+    ('wb', '19'),
+    ('jh', '20'),
+    ('od', '21'),
+    ('or', '21'),
+    ('orissa', '21'),
+    ('cg', '22'),
+    ('ct', '22'),
+    ('mp', '23'),
+    ('gj', '24'),
+    ('dd', '26'),
+    ('dn', '26'),
+    ('dnhdd', '26'),
+    ('mh', '27'),
+    ('ka', '29'),
+    ('ga', '30'),
+    ('ld', '31'),
+    ('kl', '32'),
+    ('tn', '33'),
+    ('py', '34'),
+    ('pondicherry', '34'),
+    ('an', '35'),
+    ('ts', '36'),
+    ('tg', '36'),
+    ('ap', '37'),
+    ('la', '38')
+  ) AS s(alias, code)
+  WHERE s.alias = regexp_replace(lower(p_state), '[^a-z0-9]', '', 'g')
+    OR s.code = regexp_replace(lower(p_state), '[^a-z0-9]', '', 'g')
+  LIMIT 1;
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+-- p_items entries also take hsn_sac_code and is_tax_exempt. Exempt lines are
+-- always untaxed; taxed lines need the clinic's GSTIN.
+CREATE OR REPLACE FUNCTION public.create_itemised_bill(p_bill jsonb, p_items jsonb)
+RETURNS public.bills AS $$
+DECLARE
+  v_bill bills%ROWTYPE;
+  v_gstin text;
+  v_clinic_state text;
+  v_patient_state text;
+  v_clinic_code text;
+  v_patient_code text;
+  v_inter_state boolean;
+BEGIN
+  IF jsonb_typeof(p_items) IS DISTINCT FROM 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'A bill needs at least one item';
+  END IF;
+
+  SELECT gstin, NULLIF(trim(primary_address->>'state'), '')
+  INTO v_gstin, v_clinic_state
+  FROM clinic_profiles
+  WHERE id = current_clinic_id();
+
+  IF v_gstin IS NULL AND EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_items) AS item
+    WHERE COALESCE((item->>'tax_rate')::numeric, 0) > 0
+      AND NOT COALESCE((item->>'is_tax_exempt')::boolean, false)
+  ) THEN
+    RAISE EXCEPTION 'Add the clinic GSTIN under Settings before charging GST';
+  END IF;
+
+  SELECT NULLIF(trim(pp.primary_address->>'state'), '')
+  INTO v_patient_state
+  FROM clinic_patients cp
+  JOIN patient_profiles pp ON pp.id = cp.patient_profile_id
+  WHERE cp.id = (p_bill->>'clinic_patient_id')::uuid;
+
+  -- Compare GST state codes, not names: the clinic's comes from its GSTIN.
+  -- A patient state that is not recognised is treated as no address.
+  v_clinic_code := COALESCE(left(v_gstin, 2), gst_state_code(v_clinic_state));
+  v_patient_code := gst_state_code(v_patient_state);
+  IF v_patient_code IS NULL THEN
+    v_patient_state := NULL;
+  END IF;
+
+  v_inter_state := v_patient_code IS NOT NULL AND v_clinic_code IS NOT NULL
+    AND v_patient_code <> v_clinic_code;
+
+  INSERT INTO bills (
+    user_id, clinic_patient_id, appointment_id, due_date, notes,
+    status, payment_mode, payment_date, amount, tax_amount, total_amount,
+    clinic_gstin, place_of_supply, is_inter_state
+  ) VALUES (
+    current_clinic_id(),
+    (p_bill->>'clinic_patient_id')::uuid,
+    (p_bill->>'appointment_id')::uuid,
+    (p_bill->>'due_date')::date,
+    NULLIF(p_bill->>'notes', ''),
+    COALESCE(p_bill->>'status', 'pending'),
+    p_bill->>'payment_mode',
+    (p_bill->>'payment_date')::timestamptz,
+    0, 0, 0,
+    v_gstin,
+    COALESCE(v_patient_state, v_clinic_state),
+    v_inter_state
+  )
+  RETURNING * INTO v_bill;
+
+  INSERT INTO bill_items (
+    bill_id, service_id, item_type, name, description, hsn_sac_code,
+    quantity, unit_price, discount_amount, tax_rate, is_tax_exempt,
+    is_inter_state, sort_order
+  )
+  SELECT
+    v_bill.id,
+    (item->>'service_id')::uuid,
+    COALESCE(item->>'item_type', 'other'),
+    trim(item->>'name'),
+    NULLIF(trim(item->>'description'), ''),
+    NULLIF(trim(item->>'hsn_sac_code'), ''),
+    COALESCE((item->>'quantity')::numeric, 1),
+    (item->>'unit_price')::numeric,
+    COALESCE((item->>'discount_amount')::numeric, 0),
+    CASE WHEN COALESCE((item->>'is_tax_exempt')::boolean, false) THEN 0
+      ELSE COALESCE((item->>'tax_rate')::numeric, 0)
+    END,
+    COALESCE((item->>'is_tax_exempt')::boolean, false),
+    v_inter_state,
+    position::integer
+  FROM jsonb_array_elements(p_items) WITH ORDINALITY AS items(item, position);
+
+  -- Totals were filled in by sync_bill_totals
+  SELECT * INTO v_bill FROM bills WHERE id = v_bill.id;
+  RETURN v_bill;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
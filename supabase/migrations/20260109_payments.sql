@@ -0,0 +1,543 @@
+-- Payments Migration
+-- A bill used to be marked paid in one step with a single payment_mode.
+-- Payments are now receipts against a bill, so a patient can pay part in
+-- cash and part by UPI:
+--   * payments: one row per receipt, numbered <bill number>-R<n>
+--   * bills.amount_paid is the sum of its receipts; status moves between
+--     pending/overdue, partially_paid and paid as receipts are recorded
+--   * bills.payment_mode is the mode of the receipts, or 'mixed'
+--   * bills already marked paid get one receipt for their total
+--   * reports and the dashboard count collected money from amount_paid and
+--     outstanding money from the balance, so partly paid bills are split
+--     between the two
+
+-- ============================================================================
+-- STEP 1: Payments table
+-- ============================================================================
+ALTER TABLE public.bills
+  ADD COLUMN IF NOT EXISTS amount_paid numeric(10,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE public.bills DROP CONSTRAINT IF EXISTS bills_status_check;
+ALTER TABLE public.bills
+  ADD CONSTRAINT bills_status_check
+  CHECK (status IN ('pending', 'partially_paid', 'paid', 'overdue', 'cancelled')) NOT VALID;
+
+CREATE TABLE IF NOT EXISTS public.payments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  bill_id uuid NOT NULL REFERENCES public.bills(id) ON DELETE CASCADE,
+  clinic_id uuid NOT NULL REFERENCES public.clinic_profiles(id) ON DELETE CASCADE,
+  receipt_number text NOT NULL,
+  amount numeric(10,2) NOT NULL CHECK (amount > 0),
+  payment_mode text NOT NULL
+    CHECK (payment_mode IN ('cash', 'card', 'upi', 'bank_transfer', 'cheque', 'other')),
+  reference text,
+  paid_at timestamptz NOT NULL DEFAULT now(),
+  notes text,
+  received_by uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payments_clinic_receipt
+  ON public.payments(clinic_id, receipt_number);
+CREATE INDEX IF NOT EXISTS idx_payments_bill ON public.payments(bill_id, paid_at);
+CREATE INDEX IF NOT EXISTS idx_payments_clinic_paid_at ON public.payments(clinic_id, paid_at);
+
+ALTER TABLE public.payments ENABLE ROW LEVEL SECURITY;
+
+-- Receipts are recorded, never edited; a mistake is corrected by a refund
+CREATE POLICY "Billing staff can view payments" ON public.payments
+  FOR SELECT USING (clinic_id = current_clinic_id() AND has_clinic_permission('access_billing'));
+
+CREATE POLICY "Billing staff can record payments" ON public.payments
+  FOR INSERT WITH CHECK (
+    has_clinic_permission('access_billing') AND bill_id IN (
+      SELECT b.id
+      FROM public.bills b
+      JOIN public.clinic_patients cp ON cp.id = b.clinic_patient_id
+      WHERE cp.clinic_id = current_clinic_id()
+    )
+  );
+
+-- ============================================================================
+-- STEP 2: Check and number a receipt
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.prepare_payment()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_bill record;
+  v_count integer;
+BEGIN
+  -- Lock the bill so concurrent receipts cannot overpay it or share a number
+  SELECT b.id, b.bill_number, b.status, b.total_amount, b.amount_paid, cp.clinic_id
+  INTO v_bill
+  FROM bills b
+  JOIN clinic_patients cp ON cp.id = b.clinic_patient_id
+  WHERE b.id = NEW.bill_id
+  FOR UPDATE OF b;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bill not found';
+  END IF;
+
+  IF v_bill.status = 'cancelled' THEN
+    RAISE EXCEPTION 'Cannot record a payment on a cancelled bill';
+  END IF;
+
+  IF NEW.amount > v_bill.total_amount - v_bill.amount_paid THEN
+    RAISE EXCEPTION 'Payment of % is more than the balance of %',
+      NEW.amount, v_bill.total_amount - v_bill.amount_paid;
+  END IF;
+
+  SELECT COUNT(*) INTO v_count FROM payments WHERE bill_id = NEW.bill_id;
+
+  NEW.clinic_id := v_bill.clinic_id;
+  NEW.receipt_number := v_bill.bill_number || '-R' || (v_count + 1);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trg_prepare_payment ON public.payments;
+CREATE TRIGGER trg_prepare_payment
+  BEFORE INSERT ON public.payments
+  FOR EACH ROW EXECUTE FUNCTION public.prepare_payment();
+
+-- ============================================================================
+-- STEP 3: Keep the bill's balance and status in step with its receipts
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.sync_bill_payments()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_bill_id uuid := COALESCE(NEW.bill_id, OLD.bill_id);
+BEGIN
+  UPDATE bills b SET
+    amount_paid = t.paid,
+    status = CASE
+      WHEN b.status = 'cancelled' THEN b.status
+      WHEN t.paid >= b.total_amount AND b.total_amount > 0 THEN 'paid'
+      WHEN t.paid > 0 THEN 'partially_paid'
+      WHEN b.status IN ('paid', 'partially_paid') THEN 'pending'
+      ELSE b.status
+    END,
+    payment_date = CASE WHEN t.paid >= b.total_amount AND t.paid > 0 THEN t.last_paid_at END,
+    payment_mode = CASE
+      WHEN t.modes = 0 THEN NULL
+      WHEN t.modes = 1 THEN t.first_mode
+      ELSE 'mixed'
+    END,
+    updated_at = now()
+  FROM (
+    SELECT
+      COALESCE(SUM(amount), 0) AS paid,
+      MAX(paid_at) AS last_paid_at,
+      COUNT(DISTINCT payment_mode) AS modes,
+      MIN(payment_mode) AS first_mode
+    FROM payments
+    WHERE bill_id = v_bill_id
+  ) t
+  WHERE b.id = v_bill_id;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trg_sync_bill_payments ON public.payments;
+CREATE TRIGGER trg_sync_bill_payments
+  AFTER INSERT OR DELETE ON public.payments
+  FOR EACH ROW EXECUTE FUNCTION public.sync_bill_payments();
+
+-- ============================================================================
+-- STEP 4: Receipts for bills already marked paid
+-- ============================================================================
+INSERT INTO public.payments (bill_id, clinic_id, receipt_number, amount, payment_mode, paid_at, notes, received_by)
+SELECT
+  b.id,
+  cp.clinic_id,
+  '',
+  b.total_amount,
+  CASE WHEN b.payment_mode IN ('cash', 'card', 'upi', 'bank_transfer', 'cheque')
+    THEN b.payment_mode ELSE 'other' END,
+  COALESCE(b.payment_date, b.updated_at),
+  'Recorded before payment receipts were introduced',
+  NULL
+FROM public.bills b
+JOIN public.clinic_patients cp ON cp.id = b.clinic_patient_id
+WHERE b.status = 'paid'
+  AND b.total_amount > 0
+  AND NOT EXISTS (SELECT 1 FROM public.payments p WHERE p.bill_id = b.id);
+
+-- ============================================================================
+-- STEP 5: Reports split bills by what was collected
+-- ============================================================================
+-- Billed, collected and outstanding amounts of the clinic's bills created in
+-- the range; shared by the report functions below
+CREATE OR REPLACE FUNCTION public.report_bill_amounts(
+  p_clinic_id uuid,
+  p_from timestamptz,
+  p_to timestamptz
+)
+RETURNS TABLE (
+  bill_id uuid,
+  appointment_id uuid,
+  created_at timestamptz,
+  billed numeric,
+  paid numeric,
+  pending numeric,
+  overdue numeric
+) AS $$
+  SELECT
+    b.id,
+    b.appointment_id,
+    b.created_at,
+    b.total_amount,
+    b.amount_paid,
+    CASE WHEN b.status IN ('pending', 'partially_paid') THEN b.total_amount - b.amount_paid ELSE 0 END,
+    CASE WHEN b.status = 'overdue' THEN b.total_amount - b.amount_paid ELSE 0 END
+  FROM bills b
+  JOIN clinic_patients cp ON cp.id = b.clinic_patient_id
+  WHERE cp.clinic_id = p_clinic_id
+    AND b.created_at >= p_from
+    AND b.created_at < p_to;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Only the report functions call it; they check the caller first
+REVOKE EXECUTE ON FUNCTION public.report_bill_amounts FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.report_summary(
+  p_start date,
+  p_end date,
+  p_clinic_id uuid DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_clinic_id uuid := report_clinic_id(p_clinic_id);
+  v_from timestamptz := p_start::timestamp AT TIME ZONE 'Asia/Kolkata';
+  v_to timestamptz := (p_end + 1)::timestamp AT TIME ZONE 'Asia/Kolkata';
+  v_appointments jsonb;
+  v_revenue jsonb;
+  v_patients jsonb;
+  v_doctors integer;
+BEGIN
+  PERFORM validate_report_range(p_start, p_end);
+
+  SELECT jsonb_build_object(
+    'total', COUNT(*),
+    'completed', COUNT(*) FILTER (WHERE a.status = 'completed'),
+    'cancelled', COUNT(*) FILTER (WHERE a.status = 'cancelled'),
+    'no_show', COUNT(*) FILTER (WHERE a.status = 'no-show'),
+    'scheduled', COUNT(*) FILTER (WHERE a.status NOT IN ('completed', 'cancelled', 'no-show')),
+    'patients_seen', COUNT(DISTINCT a.clinic_patient_id) FILTER (WHERE a.status = 'completed')
+  )
+  INTO v_appointments
+  FROM appointments a
+  JOIN clinic_doctors cd ON cd.id = a.clinic_doctor_id
+  WHERE cd.clinic_id = v_clinic_id
+    AND a.appointment_datetime >= v_from
+    AND a.appointment_datetime < v_to;
+
+  SELECT jsonb_build_object(
+    'total', COALESCE(SUM(r.billed), 0),
+    'paid', COALESCE(SUM(r.paid), 0),
+    'pending', COALESCE(SUM(r.pending), 0),
+    'overdue', COALESCE(SUM(r.overdue), 0),
+    'bill_count', COUNT(*)
+  )
+  INTO v_revenue
+  FROM report_bill_amounts(v_clinic_id, v_from, v_to) r;
+
+  -- Returning = registered before the range and visited during it
+  SELECT jsonb_build_object(
+    'total', COUNT(*) FILTER (WHERE cp.relationship_status = 'active'),
+    'new', COUNT(*) FILTER (WHERE cp.created_at >= v_from AND cp.created_at < v_to),
+    'returning', COUNT(*) FILTER (
+      WHERE cp.created_at < v_from
+        AND EXISTS (
+          SELECT 1 FROM appointments a
+          WHERE a.clinic_patient_id = cp.id
+            AND a.status = 'completed'
+            AND a.appointment_datetime >= v_from
+            AND a.appointment_datetime < v_to
+        )
+    )
+  )
+  INTO v_patients
+  FROM clinic_patients cp
+  WHERE cp.clinic_id = v_clinic_id;
+
+  SELECT COUNT(*) INTO v_doctors
+  FROM clinic_doctors
+  WHERE clinic_id = v_clinic_id AND is_active;
+
+  RETURN jsonb_build_object(
+    'start_date', p_start,
+    'end_date', p_end,
+    'appointments', v_appointments,
+    'revenue', v_revenue,
+    'patients', v_patients,
+    'doctors', jsonb_build_object(
+      'total', v_doctors,
+      'average_appointments', CASE
+        WHEN v_doctors = 0 THEN 0
+        ELSE round((v_appointments->>'total')::numeric / v_doctors, 1)
+      END
+    )
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.report_time_series(
+  p_start date,
+  p_end date,
+  p_interval text DEFAULT 'day',
+  p_clinic_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  period_start date,
+  appointments integer,
+  completed integer,
+  cancelled integer,
+  no_show integer,
+  scheduled integer,
+  revenue numeric,
+  paid numeric,
+  pending numeric,
+  overdue numeric
+) AS $$
+DECLARE
+  v_clinic_id uuid := report_clinic_id(p_clinic_id);
+  v_from timestamptz := p_start::timestamp AT TIME ZONE 'Asia/Kolkata';
+  v_to timestamptz := (p_end + 1)::timestamp AT TIME ZONE 'Asia/Kolkata';
+BEGIN
+  PERFORM validate_report_range(p_start, p_end);
+
+  IF p_interval NOT IN ('day', 'week', 'month') THEN
+    RAISE EXCEPTION 'Unsupported report interval: %', p_interval;
+  END IF;
+
+  RETURN QUERY
+  WITH buckets AS (
+    SELECT generate_series(
+      date_trunc(p_interval, p_start::timestamp),
+      p_end::timestamp,
+      ('1 ' || p_interval)::interval
+    )::date AS bucket
+  ),
+  appointment_totals AS (
+    SELECT
+      date_trunc(p_interval, a.appointment_datetime AT TIME ZONE 'Asia/Kolkata')::date AS bucket,
+      COUNT(*)::integer AS total,
+      (COUNT(*) FILTER (WHERE a.status = 'completed'))::integer AS completed,
+      (COUNT(*) FILTER (WHERE a.status = 'cancelled'))::integer AS cancelled,
+      (COUNT(*) FILTER (WHERE a.status = 'no-show'))::integer AS no_show,
+      (COUNT(*) FILTER (WHERE a.status NOT IN ('completed', 'cancelled', 'no-show')))::integer AS scheduled
+    FROM appointments a
+    JOIN clinic_doctors cd ON cd.id = a.clinic_doctor_id
+    WHERE cd.clinic_id = v_clinic_id
+      AND a.appointment_datetime >= v_from
+      AND a.appointment_datetime < v_to
+    GROUP BY 1
+  ),
+  revenue_totals AS (
+    SELECT
+      date_trunc(p_interval, r.created_at AT TIME ZONE 'Asia/Kolkata')::date AS bucket,
+      SUM(r.billed) AS revenue,
+      SUM(r.paid) AS paid,
+      SUM(r.pending) AS pending,
+      SUM(r.overdue) AS overdue
+    FROM report_bill_amounts(v_clinic_id, v_from, v_to) r
+    GROUP BY 1
+  )
+  SELECT
+    bk.bucket,
+    COALESCE(apt.total, 0),
+    COALESCE(apt.completed, 0),
+    COALESCE(apt.cancelled, 0),
+    COALESCE(apt.no_show, 0),
+    COALESCE(apt.scheduled, 0),
+    COALESCE(rev.revenue, 0),
+    COALESCE(rev.paid, 0),
+    COALESCE(rev.pending, 0),
+    COALESCE(rev.overdue, 0)
+  FROM buckets bk
+  LEFT JOIN appointment_totals apt ON apt.bucket = bk.bucket
+  LEFT JOIN revenue_totals rev ON rev.bucket = bk.bucket
+  ORDER BY bk.bucket;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.report_breakdown(
+  p_start date,
+  p_end date,
+  p_dimension text DEFAULT 'doctor',
+  p_clinic_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  group_key text,
+  group_label text,
+  appointments integer,
+  completed integer,
+  cancelled integer,
+  no_show integer,
+  revenue numeric,
+  paid numeric
+) AS $$
+DECLARE
+  v_clinic_id uuid := report_clinic_id(p_clinic_id);
+  v_from timestamptz := p_start::timestamp AT TIME ZONE 'Asia/Kolkata';
+  v_to timestamptz := (p_end + 1)::timestamp AT TIME ZONE 'Asia/Kolkata';
+BEGIN
+  PERFORM validate_report_range(p_start, p_end);
+
+  IF p_dimension NOT IN ('doctor', 'department', 'appointment_type') THEN
+    RAISE EXCEPTION 'Unsupported report grouping: %', p_dimension;
+  END IF;
+
+  RETURN QUERY
+  WITH clinic_appointments AS (
+    SELECT
+      a.id,
+      a.status,
+      a.appointment_datetime,
+      CASE p_dimension
+        WHEN 'doctor' THEN cd.id::text
+        WHEN 'department' THEN COALESCE(NULLIF(trim(cd.department), ''), 'Unassigned')
+        ELSE COALESCE(NULLIF(trim(a.appointment_type), ''), 'Unassigned')
+      END AS key,
+      CASE p_dimension
+        WHEN 'doctor' THEN COALESCE(dp.full_name, 'Unknown doctor')
+        WHEN 'department' THEN COALESCE(NULLIF(trim(cd.department), ''), 'Unassigned')
+        ELSE COALESCE(NULLIF(trim(a.appointment_type), ''), 'Unassigned')
+      END AS label
+    FROM appointments a
+    JOIN clinic_doctors cd ON cd.id = a.clinic_doctor_id
+    LEFT JOIN doctor_profiles dp ON dp.id = cd.doctor_profile_id
+    WHERE cd.clinic_id = v_clinic_id
+  ),
+  appointment_totals AS (
+    SELECT
+      ca.key,
+      MIN(ca.label) AS label,
+      COUNT(*)::integer AS total,
+      (COUNT(*) FILTER (WHERE ca.status = 'completed'))::integer AS completed,
+      (COUNT(*) FILTER (WHERE ca.status = 'cancelled'))::integer AS cancelled,
+      (COUNT(*) FILTER (WHERE ca.status = 'no-show'))::integer AS no_show
+    FROM clinic_appointments ca
+    WHERE ca.appointment_datetime >= v_from
+      AND ca.appointment_datetime < v_to
+    GROUP BY ca.key
+  ),
+  revenue_totals AS (
+    SELECT
+      COALESCE(ca.key, 'Unassigned') AS key,
+      MIN(COALESCE(ca.label, 'Unassigned')) AS label,
+      SUM(r.billed) AS revenue,
+      SUM(r.paid) AS paid
+    FROM report_bill_amounts(v_clinic_id, v_from, v_to) r
+    LEFT JOIN clinic_appointments ca ON ca.id = r.appointment_id
+    GROUP BY 1
+  )
+  SELECT
+    COALESCE(apt.key, rev.key),
+    COALESCE(apt.label, rev.label),
+    COALESCE(apt.total, 0),
+    COALESCE(apt.completed, 0),
+    COALESCE(apt.cancelled, 0),
+    COALESCE(apt.no_show, 0),
+    COALESCE(rev.revenue, 0),
+    COALESCE(rev.paid, 0)
+  FROM appointment_totals apt
+  FULL JOIN revenue_totals rev ON rev.key = apt.key
+  ORDER BY COALESCE(rev.revenue, 0) DESC, COALESCE(apt.total, 0) DESC;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- STEP 6: Dashboard pending bills include partly paid ones
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.get_dashboard_metrics()
+RETURNS jsonb AS $$
+DECLARE
+  v_clinic_id uuid := current_clinic_id();
+  v_week_ago timestamptz := now() - INTERVAL '7 days';
+  v_today date := (now() AT TIME ZONE 'Asia/Kolkata')::date;
+  v_patients integer;
+  v_patients_last_week integer;
+  v_doctors integer;
+  v_doctors_last_week integer;
+  v_today_appointments integer;
+  v_appointments_last_week integer;
+  v_pending_bills integer;
+  v_pending_amount numeric;
+  v_pending_bills_last_week integer;
+BEGIN
+  IF v_clinic_id IS NULL THEN
+    RAISE EXCEPTION 'Not authorized to view clinic metrics';
+  END IF;
+
+  SELECT
+    COUNT(*) FILTER (WHERE relationship_status = 'active'),
+    COUNT(*) FILTER (WHERE relationship_status = 'active' AND created_at < v_week_ago)
+  INTO v_patients, v_patients_last_week
+  FROM clinic_patients
+  WHERE clinic_id = v_clinic_id;
+
+  SELECT
+    COUNT(*) FILTER (WHERE is_active),
+    COUNT(*) FILTER (WHERE is_active AND created_at < v_week_ago)
+  INTO v_doctors, v_doctors_last_week
+  FROM clinic_doctors
+  WHERE clinic_id = v_clinic_id;
+
+  SELECT
+    COUNT(*) FILTER (
+      WHERE (a.appointment_datetime AT TIME ZONE 'Asia/Kolkata')::date = v_today
+    ),
+    COUNT(*) FILTER (
+      WHERE (a.appointment_datetime AT TIME ZONE 'Asia/Kolkata')::date = v_today - 7
+    )
+  INTO v_today_appointments, v_appointments_last_week
+  FROM appointments a
+  JOIN clinic_doctors cd ON cd.id = a.clinic_doctor_id
+  WHERE cd.clinic_id = v_clinic_id
+    AND a.status <> 'cancelled'
+    AND a.appointment_datetime >= (v_today - 7)::timestamp AT TIME ZONE 'Asia/Kolkata'
+    AND a.appointment_datetime < (v_today + 1)::timestamp AT TIME ZONE 'Asia/Kolkata';
+
+  -- A bill paid in the last week was still pending a week ago. The pending
+  -- amount is what is still owed, so partly paid bills count their balance.
+  SELECT
+    COUNT(*) FILTER (WHERE b.status IN ('pending', 'partially_paid', 'overdue')),
+    COALESCE(
+      SUM(b.total_amount - b.amount_paid)
+        FILTER (WHERE b.status IN ('pending', 'partially_paid', 'overdue')),
+      0
+    ),
+    COUNT(*) FILTER (
+      WHERE b.created_at < v_week_ago
+        AND (
+          b.status IN ('pending', 'partially_paid', 'overdue')
+          OR (b.status = 'paid' AND b.payment_date >= v_week_ago)
+        )
+    )
+  INTO v_pending_bills, v_pending_amount, v_pending_bills_last_week
+  FROM bills b
+  JOIN clinic_patients cp ON cp.id = b.clinic_patient_id
+  WHERE cp.clinic_id = v_clinic_id;
+
+  RETURN jsonb_build_object(
+    'total_patients', dashboard_metric(v_patients, v_patients_last_week),
+    'total_doctors', dashboard_metric(v_doctors, v_doctors_last_week),
+    'today_appointments', dashboard_metric(v_today_appointments, v_appointments_last_week),
+    -- Billing figures are hidden from logins without billing access, as on
+    -- the Billing page
+    'pending_bills', CASE WHEN has_clinic_permission('access_billing') THEN
+      dashboard_metric(v_pending_bills, v_pending_bills_last_week)
+        || jsonb_build_object('amount', v_pending_amount)
+    END,
+    'overdue_followups', dashboard_metric(
+      count_overdue_followups(v_clinic_id, now()),
+      count_overdue_followups(v_clinic_id, v_week_ago)
+    ),
+    'generated_at', now()
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,652 @@
+-- Credit Notes and Refunds Migration
+-- Money on a bill can now be reversed:
+--   * credit_notes: reduce what a bill is worth, numbered <bill number>-CN<n>.
+--     A bill credited in full is cancelled
+--   * refunds: money paid back to the patient, numbered <bill number>-RF<n>,
+--     optionally against a credit note
+--   * cancelling or deleting an appointment whose bill has been paid adds a
+--     'suggested' credit note for what is left of the bill, which cancels it;
+--     billing staff issue or dismiss it from the Billing page and refund
+--     what was paid
+--   * bills keep credited_amount and refunded_amount; the balance is
+--     (total - credited) - (paid - refunded)
+--   * reports and the dashboard count billed and collected amounts net of
+--     credit notes and refunds
+-- Deleting an appointment no longer deletes its bills: the money trail stays.
+
+-- ============================================================================
+-- STEP 1: Bills outlive their appointment
+-- ============================================================================
+DO $$
+DECLARE
+  v_constraint text;
+BEGIN
+  SELECT con.conname
+  INTO v_constraint
+  FROM pg_constraint con
+  JOIN pg_attribute att ON att.attrelid = con.conrelid AND att.attnum = ANY (con.conkey)
+  WHERE con.conrelid = 'public.bills'::regclass
+    AND con.contype = 'f'
+    AND con.confrelid = 'public.appointments'::regclass
+    AND att.attname = 'appointment_id';
+
+  IF v_constraint IS NOT NULL THEN
+    EXECUTE format('ALTER TABLE public.bills DROP CONSTRAINT %I', v_constraint);
+  END IF;
+END $$;
+
+ALTER TABLE public.bills
+  ADD CONSTRAINT bills_appointment_id_fkey
+  FOREIGN KEY (appointment_id) REFERENCES public.appointments(id) ON DELETE SET NULL;
+
+ALTER TABLE public.bills
+  ADD COLUMN IF NOT EXISTS credited_amount numeric(10,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS refunded_amount numeric(10,2) NOT NULL DEFAULT 0;
+
+-- ============================================================================
+-- STEP 2: Credit notes and refunds
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.credit_notes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  bill_id uuid NOT NULL REFERENCES public.bills(id) ON DELETE CASCADE,
+  clinic_id uuid NOT NULL REFERENCES public.clinic_profiles(id) ON DELETE CASCADE,
+  -- Assigned when the note is issued, so dismissed suggestions leave no gaps
+  credit_note_number text,
+  status text NOT NULL DEFAULT 'issued'
+    CHECK (status IN ('suggested', 'issued', 'dismissed')),
+  amount numeric(10,2) NOT NULL CHECK (amount > 0),
+  reason text NOT NULL CHECK (length(trim(reason)) > 0),
+  -- The cancelled or deleted appointment behind a suggestion; not a foreign
+  -- key so it survives the deletion
+  appointment_id uuid,
+  issued_at timestamptz,
+  issued_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT credit_notes_numbered_when_issued
+    CHECK ((status = 'issued') = (credit_note_number IS NOT NULL))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_credit_notes_clinic_number
+  ON public.credit_notes(clinic_id, credit_note_number);
+CREATE INDEX IF NOT EXISTS idx_credit_notes_bill ON public.credit_notes(bill_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_credit_notes_clinic_status ON public.credit_notes(clinic_id, status);
+
+CREATE TABLE IF NOT EXISTS public.refunds (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  bill_id uuid NOT NULL REFERENCES public.bills(id) ON DELETE CASCADE,
+  clinic_id uuid NOT NULL REFERENCES public.clinic_profiles(id) ON DELETE CASCADE,
+  credit_note_id uuid REFERENCES public.credit_notes(id) ON DELETE SET NULL,
+  refund_number text NOT NULL,
+  amount numeric(10,2) NOT NULL CHECK (amount > 0),
+  payment_mode text NOT NULL
+    CHECK (payment_mode IN ('cash', 'card', 'upi', 'bank_transfer', 'cheque', 'other')),
+  reference text,
+  reason text,
+  refunded_at timestamptz NOT NULL DEFAULT now(),
+  refunded_by uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_refunds_clinic_number
+  ON public.refunds(clinic_id, refund_number);
+CREATE INDEX IF NOT EXISTS idx_refunds_bill ON public.refunds(bill_id, refunded_at);
+
+ALTER TABLE public.credit_notes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.refunds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Billing staff can view credit notes" ON public.credit_notes
+  FOR SELECT USING (clinic_id = current_clinic_id() AND has_clinic_permission('access_billing'));
+
+-- Staff issue credit notes directly; suggestions come from the appointment
+-- triggers below
+CREATE POLICY "Billing staff can issue credit notes" ON public.credit_notes
+  FOR INSERT WITH CHECK (
+    status = 'issued'
+    AND has_clinic_permission('access_billing')
+    AND bill_id IN (
+      SELECT b.id
+      FROM public.bills b
+      JOIN public.clinic_patients cp ON cp.id = b.clinic_patient_id
+      WHERE cp.clinic_id = current_clinic_id()
+    )
+  );
+
+-- A suggestion is issued or dismissed once; issued notes never change
+CREATE POLICY "Billing staff can act on suggested credit notes" ON public.credit_notes
+  FOR UPDATE USING (
+    status = 'suggested'
+    AND clinic_id = current_clinic_id()
+    AND has_clinic_permission('access_billing')
+  )
+  WITH CHECK (status IN ('issued', 'dismissed'));
+
+CREATE POLICY "Billing staff can view refunds" ON public.refunds
+  FOR SELECT USING (clinic_id = current_clinic_id() AND has_clinic_permission('access_billing'));
+
+CREATE POLICY "Billing staff can record refunds" ON public.refunds
+  FOR INSERT WITH CHECK (
+    has_clinic_permission('access_billing') AND bill_id IN (
+      SELECT b.id
+      FROM public.bills b
+      JOIN public.clinic_patients cp ON cp.id = b.clinic_patient_id
+      WHERE cp.clinic_id = current_clinic_id()
+    )
+  );
+
+-- ============================================================================
+-- STEP 3: Check and number credit notes and refunds
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.prepare_credit_note()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_bill record;
+  v_count integer;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF OLD.status <> 'suggested' THEN
+      RAISE EXCEPTION 'Only suggested credit notes can be changed';
+    END IF;
+    NEW.bill_id := OLD.bill_id;
+    NEW.appointment_id := OLD.appointment_id;
+  END IF;
+
+  -- Lock the bill so concurrent notes cannot over-credit it or share a number
+  SELECT b.id, b.bill_number, b.total_amount, b.credited_amount, cp.clinic_id
+  INTO v_bill
+  FROM bills b
+  JOIN clinic_patients cp ON cp.id = b.clinic_patient_id
+  WHERE b.id = NEW.bill_id
+  FOR UPDATE OF b;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bill not found';
+  END IF;
+
+  NEW.clinic_id := v_bill.clinic_id;
+
+  IF NEW.status = 'issued' THEN
+    IF NEW.amount > v_bill.total_amount - v_bill.credited_amount THEN
+      RAISE EXCEPTION 'Credit note of % is more than the % left on the bill',
+        NEW.amount, v_bill.total_amount - v_bill.credited_amount;
+    END IF;
+
+    SELECT COUNT(*) INTO v_count
+    FROM credit_notes
+    WHERE bill_id = NEW.bill_id AND credit_note_number IS NOT NULL;
+
+    NEW.credit_note_number := v_bill.bill_number || '-CN' || (v_count + 1);
+    NEW.issued_at := now();
+    NEW.issued_by := auth.uid();
+  ELSE
+    NEW.credit_note_number := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trg_prepare_credit_note ON public.credit_notes;
+CREATE TRIGGER trg_prepare_credit_note
+  BEFORE INSERT OR UPDATE ON public.credit_notes
+  FOR EACH ROW EXECUTE FUNCTION public.prepare_credit_note();
+
+CREATE OR REPLACE FUNCTION public.prepare_refund()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_bill record;
+  v_count integer;
+BEGIN
+  SELECT b.id, b.bill_number, b.amount_paid, b.refunded_amount, cp.clinic_id
+  INTO v_bill
+  FROM bills b
+  JOIN clinic_patients cp ON cp.id = b.clinic_patient_id
+  WHERE b.id = NEW.bill_id
+  FOR UPDATE OF b;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bill not found';
+  END IF;
+
+  IF NEW.amount > v_bill.amount_paid - v_bill.refunded_amount THEN
+    RAISE EXCEPTION 'Refund of % is more than the % paid on the bill',
+      NEW.amount, v_bill.amount_paid - v_bill.refunded_amount;
+  END IF;
+
+  IF NEW.credit_note_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM credit_notes
+    WHERE id = NEW.credit_note_id AND bill_id = NEW.bill_id AND status = 'issued'
+  ) THEN
+    RAISE EXCEPTION 'Refunds can only be made against an issued credit note of the same bill';
+  END IF;
+
+  SELECT COUNT(*) INTO v_count FROM refunds WHERE bill_id = NEW.bill_id;
+
+  NEW.clinic_id := v_bill.clinic_id;
+  NEW.refund_number := v_bill.bill_number || '-RF' || (v_count + 1);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trg_prepare_refund ON public.refunds;
+CREATE TRIGGER trg_prepare_refund
+  BEFORE INSERT ON public.refunds
+  FOR EACH ROW EXECUTE FUNCTION public.prepare_refund();
+
+-- Payments are now checked against the balance after credit notes and refunds
+CREATE OR REPLACE FUNCTION public.prepare_payment()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_bill record;
+  v_balance numeric;
+  v_count integer;
+BEGIN
+  -- Lock the bill so concurrent receipts cannot overpay it or share a number
+  SELECT b.id, b.bill_number, b.status, b.total_amount, b.amount_paid,
+    b.credited_amount, b.refunded_amount, cp.clinic_id
+  INTO v_bill
+  FROM bills b
+  JOIN clinic_patients cp ON cp.id = b.clinic_patient_id
+  WHERE b.id = NEW.bill_id
+  FOR UPDATE OF b;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bill not found';
+  END IF;
+
+  IF v_bill.status = 'cancelled' THEN
+    RAISE EXCEPTION 'Cannot record a payment on a cancelled bill';
+  END IF;
+
+  v_balance := (v_bill.total_amount - v_bill.credited_amount)
+    - (v_bill.amount_paid - v_bill.refunded_amount);
+
+  IF NEW.amount > v_balance THEN
+    RAISE EXCEPTION 'Payment of % is more than the balance of %', NEW.amount, v_balance;
+  END IF;
+
+  SELECT COUNT(*) INTO v_count FROM payments WHERE bill_id = NEW.bill_id;
+
+  NEW.clinic_id := v_bill.clinic_id;
+  NEW.receipt_number := v_bill.bill_number || '-R' || (v_count + 1);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- STEP 4: One place that keeps a bill's balance and status
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.refresh_bill_balance(p_bill_id uuid)
+RETURNS void AS $$
+BEGIN
+  UPDATE bills b SET
+    amount_paid = p.paid,
+    credited_amount = c.credited,
+    refunded_amount = r.refunded,
+    status = CASE
+      WHEN b.status = 'cancelled' THEN b.status
+      WHEN c.credited >= b.total_amount AND b.total_amount > 0 THEN 'cancelled'
+      WHEN p.paid - r.refunded >= b.total_amount - c.credited AND p.paid - r.refunded > 0 THEN 'paid'
+      WHEN p.paid - r.refunded > 0 THEN 'partially_paid'
+      WHEN b.status IN ('paid', 'partially_paid') THEN 'pending'
+      ELSE b.status
+    END,
+    payment_date = CASE
+      WHEN p.paid - r.refunded >= b.total_amount - c.credited AND p.paid - r.refunded > 0
+        THEN p.last_paid_at
+    END,
+    payment_mode = CASE
+      WHEN p.modes = 0 THEN NULL
+      WHEN p.modes = 1 THEN p.first_mode
+      ELSE 'mixed'
+    END,
+    updated_at = now()
+  FROM
+    (
+      SELECT
+        COALESCE(SUM(amount), 0) AS paid,
+        MAX(paid_at) AS last_paid_at,
+        COUNT(DISTINCT payment_mode) AS modes,
+        MIN(payment_mode) AS first_mode
+      FROM payments
+      WHERE bill_id = p_bill_id
+    ) p,
+    (
+      SELECT COALESCE(SUM(amount), 0) AS credited
+      FROM credit_notes
+      WHERE bill_id = p_bill_id AND status = 'issued'
+    ) c,
+    (
+      SELECT COALESCE(SUM(amount), 0) AS refunded
+      FROM refunds
+      WHERE bill_id = p_bill_id
+    ) r
+  WHERE b.id = p_bill_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_bill_balance FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.sync_bill_balance()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM refresh_bill_balance(COALESCE(NEW.bill_id, OLD.bill_id));
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trg_sync_bill_payments ON public.payments;
+CREATE TRIGGER trg_sync_bill_payments
+  AFTER INSERT OR DELETE ON public.payments
+  FOR EACH ROW EXECUTE FUNCTION public.sync_bill_balance();
+
+DROP FUNCTION IF EXISTS public.sync_bill_payments();
+
+DROP TRIGGER IF EXISTS trg_sync_bill_credit_notes ON public.credit_notes;
+CREATE TRIGGER trg_sync_bill_credit_notes
+  AFTER INSERT OR UPDATE ON public.credit_notes
+  FOR EACH ROW EXECUTE FUNCTION public.sync_bill_balance();
+
+DROP TRIGGER IF EXISTS trg_sync_bill_refunds ON public.refunds;
+CREATE TRIGGER trg_sync_bill_refunds
+  AFTER INSERT ON public.refunds
+  FOR EACH ROW EXECUTE FUNCTION public.sync_bill_balance();
+
+-- ============================================================================
+-- STEP 5: Suggest a credit note when a paid appointment is called off
+-- ============================================================================
+-- One suggestion per bill of the appointment that still holds money, for
+-- the whole amount not yet credited: the visit did not happen, so the bill
+-- is cancelled rather than settled, and what was paid (amount_paid -
+-- refunded_amount) is refunded. Crediting only the amount paid would mark a
+-- part-paid bill 'paid' and put it back to 'pending' once refunded.
+-- A bill gets no second suggestion while one is open or once one was made
+-- for this appointment.
+CREATE OR REPLACE FUNCTION public.suggest_credit_notes(
+  p_appointment_id uuid,
+  p_reason text
+)
+RETURNS integer AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  INSERT INTO credit_notes (bill_id, clinic_id, status, amount, reason, appointment_id)
+  SELECT
+    b.id,
+    cp.clinic_id,
+    'suggested',
+    b.total_amount - b.credited_amount,
+    p_reason,
+    p_appointment_id
+  FROM bills b
+  JOIN clinic_patients cp ON cp.id = b.clinic_patient_id
+  WHERE b.appointment_id = p_appointment_id
+    AND b.amount_paid - b.refunded_amount > 0
+    AND b.total_amount - b.credited_amount > 0
+    AND NOT EXISTS (
+      SELECT 1 FROM credit_notes cn
+      WHERE cn.bill_id = b.id
+        AND (cn.status = 'suggested' OR cn.appointment_id = p_appointment_id)
+    );
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.suggest_credit_notes FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.suggest_credit_notes_for_appointment()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM suggest_credit_notes(OLD.id, 'Appointment deleted');
+    RETURN OLD;
+  END IF;
+
+  IF NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled' THEN
+    PERFORM suggest_credit_notes(
+      NEW.id,
+      COALESCE('Appointment cancelled: ' || NULLIF(trim(NEW.status_reason), ''), 'Appointment cancelled')
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trg_suggest_credit_notes_on_cancel ON public.appointments;
+CREATE TRIGGER trg_suggest_credit_notes_on_cancel
+  AFTER UPDATE OF status ON public.appointments
+  FOR EACH ROW EXECUTE FUNCTION public.suggest_credit_notes_for_appointment();
+
+-- BEFORE so the bills still point at the appointment
+DROP TRIGGER IF EXISTS trg_suggest_credit_notes_on_delete ON public.appointments;
+CREATE TRIGGER trg_suggest_credit_notes_on_delete
+  BEFORE DELETE ON public.appointments
+  FOR EACH ROW EXECUTE FUNCTION public.suggest_credit_notes_for_appointment();
+
+-- ============================================================================
+-- STEP 6: Reports count revenue net of credit notes and refunds
+-- ============================================================================
+-- The result columns change, so the helper is recreated
+DROP FUNCTION IF EXISTS public.report_bill_amounts(uuid, timestamptz, timestamptz);
+
+CREATE FUNCTION public.report_bill_amounts(
+  p_clinic_id uuid,
+  p_from timestamptz,
+  p_to timestamptz
+)
+RETURNS TABLE (
+  bill_id uuid,
+  appointment_id uuid,
+  created_at timestamptz,
+  billed numeric,
+  paid numeric,
+  pending numeric,
+  overdue numeric,
+  credited numeric,
+  refunded numeric
+) AS $$
+  SELECT
+    b.id,
+    b.appointment_id,
+    b.created_at,
+    b.total_amount - b.credited_amount,
+    b.amount_paid - b.refunded_amount,
+    CASE WHEN b.status IN ('pending', 'partially_paid') THEN
+      GREATEST((b.total_amount - b.credited_amount) - (b.amount_paid - b.refunded_amount), 0)
+    ELSE 0 END,
+    CASE WHEN b.status = 'overdue' THEN
+      GREATEST((b.total_amount - b.credited_amount) - (b.amount_paid - b.refunded_amount), 0)
+    ELSE 0 END,
+    b.credited_amount,
+    b.refunded_amount
+  FROM bills b
+  JOIN clinic_patients cp ON cp.id = b.clinic_patient_id
+  WHERE cp.clinic_id = p_clinic_id
+    AND b.created_at >= p_from
+    AND b.created_at < p_to;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Only the report functions call it; they check the caller first
+REVOKE EXECUTE ON FUNCTION public.report_bill_amounts FROM PUBLIC, anon, authenticated;
+
+-- report_time_series and report_breakdown pick up the net amounts as they
+-- are; the summary also reports what was credited and refunded
+CREATE OR REPLACE FUNCTION public.report_summary(
+  p_start date,
+  p_end date,
+  p_clinic_id uuid DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_clinic_id uuid := report_clinic_id(p_clinic_id);
+  v_from timestamptz := p_start::timestamp AT TIME ZONE 'Asia/Kolkata';
+  v_to timestamptz := (p_end + 1)::timestamp AT TIME ZONE 'Asia/Kolkata';
+  v_appointments jsonb;
+  v_revenue jsonb;
+  v_patients jsonb;
+  v_doctors integer;
+BEGIN
+  PERFORM validate_report_range(p_start, p_end);
+
+  SELECT jsonb_build_object(
+    'total', COUNT(*),
+    'completed', COUNT(*) FILTER (WHERE a.status = 'completed'),
+    'cancelled', COUNT(*) FILTER (WHERE a.status = 'cancelled'),
+    'no_show', COUNT(*) FILTER (WHERE a.status = 'no-show'),
+    'scheduled', COUNT(*) FILTER (WHERE a.status NOT IN ('completed', 'cancelled', 'no-show')),
+    'patients_seen', COUNT(DISTINCT a.clinic_patient_id) FILTER (WHERE a.status = 'completed')
+  )
+  INTO v_appointments
+  FROM appointments a
+  JOIN clinic_doctors cd ON cd.id = a.clinic_doctor_id
+  WHERE cd.clinic_id = v_clinic_id
+    AND a.appointment_datetime >= v_from
+    AND a.appointment_datetime < v_to;
+
+  SELECT jsonb_build_object(
+    'total', COALESCE(SUM(r.billed), 0),
+    'paid', COALESCE(SUM(r.paid), 0),
+    'pending', COALESCE(SUM(r.pending), 0),
+    'overdue', COALESCE(SUM(r.overdue), 0),
+    'credited', COALESCE(SUM(r.credited), 0),
+    'refunded', COALESCE(SUM(r.refunded), 0),
+    'bill_count', COUNT(*)
+  )
+  INTO v_revenue
+  FROM report_bill_amounts(v_clinic_id, v_from, v_to) r;
+
+  -- Returning = registered before the range and visited during it
+  SELECT jsonb_build_object(
+    'total', COUNT(*) FILTER (WHERE cp.relationship_status = 'active'),
+    'new', COUNT(*) FILTER (WHERE cp.created_at >= v_from AND cp.created_at < v_to),
+    'returning', COUNT(*) FILTER (
+      WHERE cp.created_at < v_from
+        AND EXISTS (
+          SELECT 1 FROM appointments a
+          WHERE a.clinic_patient_id = cp.id
+            AND a.status = 'completed'
+            AND a.appointment_datetime >= v_from
+            AND a.appointment_datetime < v_to
+        )
+    )
+  )
+  INTO v_patients
+  FROM clinic_patients cp
+  WHERE cp.clinic_id = v_clinic_id;
+
+  SELECT COUNT(*) INTO v_doctors
+  FROM clinic_doctors
+  WHERE clinic_id = v_clinic_id AND is_active;
+
+  RETURN jsonb_build_object(
+    'start_date', p_start,
+    'end_date', p_end,
+    'appointments', v_appointments,
+    'revenue', v_revenue,
+    'patients', v_patients,
+    'doctors', jsonb_build_object(
+      'total', v_doctors,
+      'average_appointments', CASE
+        WHEN v_doctors = 0 THEN 0
+        ELSE round((v_appointments->>'total')::numeric / v_doctors, 1)
+      END
+    )
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- STEP 7: Dashboard pending amount after credit notes and refunds
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.get_dashboard_metrics()
+RETURNS jsonb AS $$
+DECLARE
+  v_clinic_id uuid := current_clinic_id();
+  v_week_ago timestamptz := now() - INTERVAL '7 days';
+  v_today date := (now() AT TIME ZONE 'Asia/Kolkata')::date;
+  v_patients integer;
+  v_patients_last_week integer;
+  v_doctors integer;
+  v_doctors_last_week integer;
+  v_today_appointments integer;
+  v_appointments_last_week integer;
+  v_pending_bills integer;
+  v_pending_amount numeric;
+  v_pending_bills_last_week integer;
+BEGIN
+  IF v_clinic_id IS NULL THEN
+    RAISE EXCEPTION 'Not authorized to view clinic metrics';
+  END IF;
+
+  SELECT
+    COUNT(*) FILTER (WHERE relationship_status = 'active'),
+    COUNT(*) FILTER (WHERE relationship_status = 'active' AND created_at < v_week_ago)
+  INTO v_patients, v_patients_last_week
+  FROM clinic_patients
+  WHERE clinic_id = v_clinic_id;
+
+  SELECT
+    COUNT(*) FILTER (WHERE is_active),
+    COUNT(*) FILTER (WHERE is_active AND created_at < v_week_ago)
+  INTO v_doctors, v_doctors_last_week
+  FROM clinic_doctors
+  WHERE clinic_id = v_clinic_id;
+
+  SELECT
+    COUNT(*) FILTER (
+      WHERE (a.appointment_datetime AT TIME ZONE 'Asia/Kolkata')::date = v_today
+    ),
+    COUNT(*) FILTER (
+      WHERE (a.appointment_datetime AT TIME ZONE 'Asia/Kolkata')::date = v_today - 7
+    )
+  INTO v_today_appointments, v_appointments_last_week
+  FROM appointments a
+  JOIN clinic_doctors cd ON cd.id = a.clinic_doctor_id
+  WHERE cd.clinic_id = v_clinic_id
+    AND a.status <> 'cancelled'
+    AND a.appointment_datetime >= (v_today - 7)::timestamp AT TIME ZONE 'Asia/Kolkata'
+    AND a.appointment_datetime < (v_today + 1)::timestamp AT TIME ZONE 'Asia/Kolkata';
+
+  -- A bill paid in the last week was still pending a week ago. The pending
+  -- amount is what is still owed after credit notes and refunds.
+  SELECT
+    COUNT(*) FILTER (WHERE b.status IN ('pending', 'partially_paid', 'overdue')),
+    COALESCE(
+      SUM(GREATEST(
+        (b.total_amount - b.credited_amount) - (b.amount_paid - b.refunded_amount),
+        0
+      )) FILTER (WHERE b.status IN ('pending', 'partially_paid', 'overdue')),
+      0
+    ),
+    COUNT(*) FILTER (
+      WHERE b.created_at < v_week_ago
+        AND (
+          b.status IN ('pending', 'partially_paid', 'overdue')
+          OR (b.status = 'paid' AND b.payment_date >= v_week_ago)
+        )
+    )
+  INTO v_pending_bills, v_pending_amount, v_pending_bills_last_week
+  FROM bills b
+  JOIN clinic_patients cp ON cp.id = b.clinic_patient_id
+  WHERE cp.clinic_id = v_clinic_id;
+
+  RETURN jsonb_build_object(
+    'total_patients', dashboard_metric(v_patients, v_patients_last_week),
+    'total_doctors', dashboard_metric(v_doctors, v_doctors_last_week),
+    'today_appointments', dashboard_metric(v_today_appointments, v_appointments_last_week),
+    -- Billing figures are hidden from logins without billing access, as on
+    -- the Billing page
+    'pending_bills', CASE WHEN has_clinic_permission('access_billing') THEN
+      dashboard_metric(v_pending_bills, v_pending_bills_last_week)
+        || jsonb_build_object('amount', v_pending_amount)
+    END,
+    'overdue_followups', dashboard_metric(
+      count_overdue_followups(v_clinic_id, now()),
+      count_overdue_followups(v_clinic_id, v_week_ago)
+    ),
+    'generated_at', now()
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;